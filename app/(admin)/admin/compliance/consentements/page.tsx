@@ -0,0 +1,8 @@
+import { requireAuth } from "@/lib/auth/auth"
+import { ConsentManager } from "@/components/admin/compliance"
+
+export default async function ConsentsPage() {
+  await requireAuth(["admin"])
+
+  return <ConsentManager />
+}
@@ -0,0 +1,8 @@
+import { requireAuth } from "@/lib/auth/auth"
+import { AuditLogViewer } from "@/components/admin/compliance"
+
+export default async function CompliancePage() {
+  await requireAuth(["admin"])
+
+  return <AuditLogViewer />
+}
@@ -0,0 +1,8 @@
+import { requireAuth } from "@/lib/auth/auth"
+import { RetentionManager } from "@/components/admin/compliance"
+
+export default async function RetentionPage() {
+  await requireAuth(["admin"])
+
+  return <RetentionManager />
+}
@@ -1,8 +1,14 @@
 import { requireAuth } from "@/lib/auth/auth";
 import { CoursesManagement } from "@/components/admin/courses-management";
+import { CourseReviewQueue } from "@/components/admin/course-review";
 
 export default async function CoursesPage() {
   await requireAuth(["admin"]);
 
-  return <CoursesManagement />;
+  return (
+    <div className="space-y-6">
+      <CourseReviewQueue />
+      <CoursesManagement />
+    </div>
+  );
 }
@@ -1,4 +1,5 @@
 import { requireAuth } from "@/lib/auth/auth"
+import { getAllDomains, getTeachers } from "@/lib/db/queries"
 import { CourseEditor } from "@/components/course/course-editor"
 
 interface EditCoursePageProps {
@@ -9,5 +10,9 @@ export default async function EditCoursePage({ params }: EditCoursePageProps) {
   const user = await requireAuth(["admin"])
   const { id } = await params
 
-  return <CourseEditor courseId={Number.parseInt(id)} user={user} />
+  const [domainsResult, teachersResult] = await Promise.all([getAllDomains(), getTeachers()])
+  const domains = domainsResult.success ? domainsResult.data.map((d) => ({ id: d.id, name: d.name })) : []
+  const teachers = teachersResult.success ? teachersResult.data.map((t) => ({ id: Number(t.id), name: t.name })) : []
+
+  return <CourseEditor courseId={Number.parseInt(id)} user={user} domains={domains} teachers={teachers} />
 }
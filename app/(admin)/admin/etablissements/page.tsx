@@ -0,0 +1,8 @@
+import { requireAuth } from "@/lib/auth/auth";
+import { SchoolsManagement } from "@/components/admin/schools-management";
+
+export default async function EtablissementsPage() {
+  await requireAuth(["admin"]);
+
+  return <SchoolsManagement />;
+}
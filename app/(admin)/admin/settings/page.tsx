@@ -0,0 +1,22 @@
+import { requireAuth } from "@/lib/auth/auth";
+import { TwoFactorSettings } from "@/components/auth/two-factor";
+
+interface SecurityPageProps {
+  searchParams: { "2fa"?: string };
+}
+
+export default async function AdminSettingsPage({ searchParams }: SecurityPageProps) {
+  await requireAuth(["ADMIN"]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Paramètres</h1>
+        <p className="text-muted-foreground">
+          Sécurité de votre compte administrateur
+        </p>
+      </div>
+      <TwoFactorSettings isRequiredNotice={searchParams["2fa"] === "required"} continueHref="/admin" />
+    </div>
+  );
+}
@@ -14,6 +14,10 @@ import { AvatarPicker } from "@/components/ui/avatar-picker"
 import { ArrowLeft, Loader2, BookOpen, Eye, EyeOff } from "lucide-react"
 import Link from "next/link"
 import { toast } from "sonner"
+import { UserTwoFactorCard } from "@/components/admin/user-two-factor-card"
+import { UserLockoutCard } from "@/components/admin/user-lockout-card"
+import { UserPrivacyCard } from "@/components/admin/user-privacy-card"
+import { UserSchoolCard } from "@/components/admin/user-school-card"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -67,6 +71,11 @@ export default function UserFormPage() {
   const [loadingCourses, setLoadingCourses] = useState(true)
   const [showConfirmDialog, setShowConfirmDialog] = useState(false)
   const [showPassword, setShowPassword] = useState(false)
+  const [anonymizedAt, setAnonymizedAt] = useState<string | null>(null)
+  const [placement, setPlacement] = useState<{ schoolId: number | null; groupId: number | null }>({
+    schoolId: null,
+    groupId: null,
+  })
 
   useEffect(() => {
     if (isEditMode) {
@@ -135,6 +144,8 @@ export default function UserFormPage() {
           avatarUrl: data.user.avatarUrl || "",
           isActive: data.user.isActive ?? true,
         })
+        setAnonymizedAt(data.user.anonymizedAt ?? null)
+        setPlacement({ schoolId: data.user.schoolId ?? null, groupId: data.user.groupId ?? null })
       } else {
         setError(data.error || "Erreur lors du chargement de l'utilisateur")
       }
@@ -548,6 +559,13 @@ export default function UserFormPage() {
         </CardContent>
       </Card>
 
+      {isEditMode && formData.role === "STUDENT" && !fetchingUser && (
+        <UserSchoolCard userId={userId} schoolId={placement.schoolId} groupId={placement.groupId} />
+      )}
+      {isEditMode && <UserLockoutCard userId={userId} />}
+      {isEditMode && <UserTwoFactorCard userId={userId} />}
+      {isEditMode && <UserPrivacyCard userId={userId} anonymizedAt={anonymizedAt} onErased={fetchUser} />}
+
       {/* Confirmation Dialog */}
       <AlertDialog open={showConfirmDialog} onOpenChange={setShowConfirmDialog}>
         <AlertDialogContent>
@@ -0,0 +1,65 @@
+import { redirect } from "next/navigation";
+import { ConsentAcceptance } from "@/components/consent";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { AuthPageWrapper } from "@/components/auth/auth-page-wrapper";
+import { Logo } from "@/components/ui/logo";
+import { requireAuth } from "@/lib/auth/auth";
+import { getPendingConsentText, hasAcceptedAnyConsent } from "@/lib/db/queries";
+import { getDashboardUrl } from "@/lib/utils/utils";
+
+interface ConsentPageProps {
+  searchParams: { callbackUrl?: string };
+}
+
+export default async function ConsentPage({ searchParams }: ConsentPageProps) {
+  const user = await requireAuth();
+
+  // Only paths of this site are followed after accepting
+  const callbackUrl = searchParams.callbackUrl;
+  const continueHref =
+    callbackUrl && callbackUrl.startsWith("/") && !callbackUrl.startsWith("//")
+      ? callbackUrl
+      : getDashboardUrl(user.role);
+
+  const pending = await getPendingConsentText(Number(user.id));
+  if ("error" in pending) {
+    throw new Error(pending.error);
+  }
+  if (!pending.data) {
+    redirect(continueHref);
+  }
+
+  const previous = await hasAcceptedAnyConsent(Number(user.id));
+  const { createdBy, ...text } = pending.data;
+
+  return (
+    <AuthPageWrapper>
+      <Card className="w-full max-w-2xl border-border/50 bg-card/80 backdrop-blur-sm shadow-2xl relative z-10">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <Logo iconSize="xl" showText={false} />
+          </div>
+          <CardTitle className="text-3xl font-bold bg-gradient-to-r from-teal-600 to-emerald-600 dark:from-teal-400 dark:to-emerald-400 bg-clip-text text-transparent">
+            Protection des données
+          </CardTitle>
+          <CardDescription className="text-base">
+            Votre consentement est requis pour accéder à la plateforme
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ConsentAcceptance
+            text={{ ...text, publishedAt: text.publishedAt.toISOString() }}
+            isUpdate={"data" in previous && previous.data}
+            continueHref={continueHref}
+          />
+        </CardContent>
+      </Card>
+    </AuthPageWrapper>
+  );
+}
@@ -0,0 +1,33 @@
+import { ForgotPasswordForm } from "@/components/auth/forgot-password-form";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { AuthPageWrapper } from "@/components/auth/auth-page-wrapper";
+import { Logo } from "@/components/ui/logo";
+
+export default function ForgotPasswordPage() {
+  return (
+    <AuthPageWrapper>
+      <Card className="w-full max-w-md border-border/50 bg-card/80 backdrop-blur-sm shadow-2xl relative z-10">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <Logo iconSize="xl" showText={false} />
+          </div>
+          <CardTitle className="text-3xl font-bold bg-gradient-to-r from-teal-600 to-emerald-600 dark:from-teal-400 dark:to-emerald-400 bg-clip-text text-transparent">
+            Mot de passe oublié
+          </CardTitle>
+          <CardDescription className="text-base">
+            Recevez un lien pour choisir un nouveau mot de passe
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ForgotPasswordForm />
+        </CardContent>
+      </Card>
+    </AuthPageWrapper>
+  );
+}
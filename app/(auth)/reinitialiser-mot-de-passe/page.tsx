@@ -0,0 +1,37 @@
+import { ResetPasswordForm } from "@/components/auth/reset-password-form";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { AuthPageWrapper } from "@/components/auth/auth-page-wrapper";
+import { Logo } from "@/components/ui/logo";
+
+interface TokenPageProps {
+  searchParams: { token?: string };
+}
+
+export default function ResetPasswordPage({ searchParams }: TokenPageProps) {
+  return (
+    <AuthPageWrapper>
+      <Card className="w-full max-w-md border-border/50 bg-card/80 backdrop-blur-sm shadow-2xl relative z-10">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <Logo iconSize="xl" showText={false} />
+          </div>
+          <CardTitle className="text-3xl font-bold bg-gradient-to-r from-teal-600 to-emerald-600 dark:from-teal-400 dark:to-emerald-400 bg-clip-text text-transparent">
+            Nouveau mot de passe
+          </CardTitle>
+          <CardDescription className="text-base">
+            Choisissez le mot de passe de votre compte
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResetPasswordForm token={searchParams.token ?? ""} />
+        </CardContent>
+      </Card>
+    </AuthPageWrapper>
+  );
+}
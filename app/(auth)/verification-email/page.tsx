@@ -0,0 +1,37 @@
+import { EmailVerification } from "@/components/auth/email-verification";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { AuthPageWrapper } from "@/components/auth/auth-page-wrapper";
+import { Logo } from "@/components/ui/logo";
+
+interface TokenPageProps {
+  searchParams: { token?: string };
+}
+
+export default function EmailVerificationPage({ searchParams }: TokenPageProps) {
+  return (
+    <AuthPageWrapper>
+      <Card className="w-full max-w-md border-border/50 bg-card/80 backdrop-blur-sm shadow-2xl relative z-10">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <Logo iconSize="xl" showText={false} />
+          </div>
+          <CardTitle className="text-3xl font-bold bg-gradient-to-r from-teal-600 to-emerald-600 dark:from-teal-400 dark:to-emerald-400 bg-clip-text text-transparent">
+            Vérification de l'email
+          </CardTitle>
+          <CardDescription className="text-base">
+            Confirmation de votre adresse email
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <EmailVerification token={searchParams.token ?? ""} />
+        </CardContent>
+      </Card>
+    </AuthPageWrapper>
+  );
+}
@@ -1,7 +1,11 @@
 import { getCurrentUser } from "@/lib/auth/auth";
 import { redirect } from "next/navigation";
 import { CertificatesView } from "@/components/student/certificates-view";
-import { getStudentEnrolledCoursesWithProgress } from "@/lib/db/queries";
+import {
+  getCertificatesByStudent,
+  getStudentEnrolledCoursesWithProgress,
+} from "@/lib/db/queries";
+import { issueCertificateIfEligible } from "@/lib/certificates";
 
 export default async function CertificatesPage() {
   const user = await getCurrentUser();
@@ -19,5 +23,29 @@ export default async function CertificatesPage() {
     ? enrolledCoursesResult.data
     : [];
 
-  return <CertificatesView user={user} enrolledCourses={enrolledCourses} />;
+  // Catch up on certificates for courses completed before issuance existed
+  await Promise.all(
+    enrolledCourses
+      .filter(
+        (enrollment) =>
+          enrollment.totalChapters > 0 &&
+          enrollment.completedChapters === enrollment.totalChapters
+      )
+      .map((enrollment) =>
+        issueCertificateIfEligible(userId, enrollment.courseId)
+      )
+  );
+
+  const certificatesResult = await getCertificatesByStudent(userId);
+  const certificates = certificatesResult.success
+    ? certificatesResult.data
+    : [];
+
+  return (
+    <CertificatesView
+      user={user}
+      enrolledCourses={enrolledCourses}
+      certificates={certificates}
+    />
+  );
 }
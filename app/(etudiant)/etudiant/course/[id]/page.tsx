@@ -1,4 +1,7 @@
+import { notFound } from "next/navigation"
 import { requireAuth } from "@/lib/auth/auth"
+import { getChaptersByCourseId, getCourseWithDetails, getEnrollmentByStudentAndCourse } from "@/lib/db/queries"
+import { getChapterLockStates } from "@/lib/quizzes"
 import { CourseViewer } from "@/components/student/course-viewer"
 
 interface CoursePageProps {
@@ -8,6 +11,58 @@ interface CoursePageProps {
 export default async function CoursePage({ params }: CoursePageProps) {
   const user = await requireAuth(["student"])
   const { id } = await params
+  const courseId = Number.parseInt(id)
+  const studentId = Number(user.id)
 
-  return <CourseViewer courseId={Number.parseInt(id)} user={user} />
+  const [courseResult, enrollmentResult] = await Promise.all([
+    getCourseWithDetails(courseId),
+    getEnrollmentByStudentAndCourse(studentId, courseId),
+  ])
+  if (!courseResult.success || !courseResult.data || !enrollmentResult.success || !enrollmentResult.data) {
+    notFound()
+  }
+  // A course sent back to draft or rejected is closed to students, enrolled or not
+  if (courseResult.data.status !== "validated") {
+    notFound()
+  }
+
+  // Lock state comes from the same rules the progress API enforces
+  const [chaptersResult, lockStates] = await Promise.all([
+    getChaptersByCourseId(courseId),
+    getChapterLockStates(studentId, courseId),
+  ])
+  const lockByChapter = new Map(lockStates?.map((state) => [state.chapterId, state]))
+  const chapters = chaptersResult.success
+    ? chaptersResult.data.map((chapter) => {
+        // Chapters without a computed state stay locked
+        const state = lockByChapter.get(chapter.id)
+        return {
+          id: chapter.id,
+          title: chapter.title,
+          description: chapter.description ?? "",
+          orderIndex: chapter.orderIndex,
+          contentType: chapter.contentType as "text" | "video" | "image" | "link",
+          // Locked content never reaches the client
+          contentData: state && !state.isLocked ? chapter.contentData : null,
+          isCompleted: state?.isCompleted ?? false,
+          isLocked: state?.isLocked ?? true,
+          hasQuiz: state?.hasQuiz ?? false,
+        }
+      })
+    : []
+
+  const course = courseResult.data
+  return (
+    <CourseViewer
+      course={{
+        id: course.id,
+        title: course.title,
+        description: course.description ?? "",
+        domain: course.domain?.name ?? "Non spécifié",
+        teacher: course.teacher?.name ?? "Formateur",
+      }}
+      chapters={chapters}
+      user={user}
+    />
+  )
 }
@@ -0,0 +1,12 @@
+import { requireAuth } from "@/lib/auth/auth";
+import { CheckIn } from "@/components/student/check-in";
+
+export default async function CheckInPage({
+  searchParams,
+}: {
+  searchParams: { code?: string };
+}) {
+  await requireAuth(["student"]);
+
+  return <CheckIn code={searchParams.code ?? null} />;
+}
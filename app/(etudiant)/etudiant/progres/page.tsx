@@ -1,7 +1,9 @@
 import { getCurrentUser } from "@/lib/auth/auth";
 import { redirect } from "next/navigation";
 import { ProgressView } from "@/components/student/progress-view";
+import { SharedNotesCard } from "@/components/student/shared-notes-card";
 import {
+  getSharedStudentNotes,
   getStudentEnrolledCoursesWithProgress,
   getStudentQuizAttemptsWithDetails,
 } from "@/lib/db/queries";
@@ -15,9 +17,10 @@ export default async function ProgressPage() {
 
   // Fetch enrolled courses with progress
   const userId = parseInt(user.id);
-  const [enrolledCoursesResult, quizAttemptsResult] = await Promise.all([
+  const [enrolledCoursesResult, quizAttemptsResult, notesResult] = await Promise.all([
     getStudentEnrolledCoursesWithProgress(userId),
     getStudentQuizAttemptsWithDetails(userId),
+    getSharedStudentNotes(userId),
   ]);
 
   const enrolledCourses = enrolledCoursesResult.success
@@ -26,12 +29,16 @@ export default async function ProgressPage() {
   const quizAttempts = quizAttemptsResult.success
     ? quizAttemptsResult.data
     : [];
+  const sharedNotes = notesResult.success ? notesResult.data : [];
 
   return (
-    <ProgressView
-      user={user}
-      enrolledCourses={enrolledCourses}
-      quizAttempts={quizAttempts}
-    />
+    <div className="space-y-6">
+      <ProgressView
+        user={user}
+        enrolledCourses={enrolledCourses}
+        quizAttempts={quizAttempts}
+      />
+      {sharedNotes.length > 0 && <SharedNotesCard notes={sharedNotes} />}
+    </div>
   );
 }
@@ -0,0 +1,37 @@
+import { requireAuth } from "@/lib/auth/auth";
+import { getAllDomains, getCoursesByTeacherId } from "@/lib/db/queries";
+import { QuestionBankManager, type BankScopeOptions } from "@/components/teacher/question-banks";
+
+export default async function TeacherQuestionBanksPage() {
+  const user = await requireAuth(["teacher"]);
+
+  const [coursesResult, domainsResult] = await Promise.all([
+    getCoursesByTeacherId(Number(user.id)),
+    getAllDomains(),
+  ]);
+  const courses = coursesResult.success && coursesResult.data
+    ? coursesResult.data.flatMap((course) => (course ? [course] : []))
+    : [];
+  const allDomains = domainsResult.success && domainsResult.data ? domainsResult.data : [];
+
+  // Domain banks can be created in the domains the trainer teaches in
+  const taughtDomainIds = new Set(courses.map((course) => course.domainId));
+  const scopes: BankScopeOptions = {
+    courses: courses.map((course) => ({ id: course.id, title: course.title })),
+    domains: allDomains
+      .filter((domain) => taughtDomainIds.has(domain.id))
+      .map((domain) => ({ id: domain.id, name: domain.name })),
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Banques de questions</h1>
+        <p className="text-muted-foreground">
+          Classez vos questions par difficulté et par thème pour composer des quiz tirés au hasard
+        </p>
+      </div>
+      <QuestionBankManager userId={Number(user.id)} scopes={scopes} />
+    </div>
+  );
+}
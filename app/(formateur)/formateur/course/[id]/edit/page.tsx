@@ -0,0 +1,30 @@
+import { notFound, redirect } from "next/navigation"
+import { requireAuth } from "@/lib/auth/auth"
+import { getAllDomains, getCourseById, getTeachers } from "@/lib/db/queries"
+import { CourseEditor } from "@/components/course/course-editor"
+
+interface EditCoursePageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function TeacherEditCoursePage({ params }: EditCoursePageProps) {
+  const user = await requireAuth(["teacher"])
+  const { id } = await params
+  const courseId = Number.parseInt(id)
+
+  const courseResult = await getCourseById(courseId)
+  if (!courseResult.success || !courseResult.data) {
+    notFound()
+  }
+
+  // Trainers can only edit the courses they teach
+  if (courseResult.data.teacherId !== Number(user.id)) {
+    redirect("/non-autorise")
+  }
+
+  const [domainsResult, teachersResult] = await Promise.all([getAllDomains(), getTeachers()])
+  const domains = domainsResult.success ? domainsResult.data.map((d) => ({ id: d.id, name: d.name })) : []
+  const teachers = teachersResult.success ? teachersResult.data.map((t) => ({ id: Number(t.id), name: t.name })) : []
+
+  return <CourseEditor courseId={courseId} user={user} domains={domains} teachers={teachers} />
+}
@@ -1,8 +1,15 @@
 import { requireAuth } from "@/lib/auth/auth"
+import { getCoursesByTeacherId } from "@/lib/db/queries"
 import { TeacherDashboard } from "@/components/teacher/teacher-dashboard"
 
 export default async function TeacherPage() {
   const user = await requireAuth(["teacher"])
 
-  return <TeacherDashboard user={user} />
+  const coursesResult = await getCoursesByTeacherId(Number(user.id))
+  const courses =
+    coursesResult.success && coursesResult.data
+      ? coursesResult.data.flatMap((course) => (course ? [{ id: course.id, title: course.title }] : []))
+      : []
+
+  return <TeacherDashboard user={user} courses={courses} />
 }
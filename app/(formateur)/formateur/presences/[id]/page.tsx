@@ -0,0 +1,15 @@
+import { notFound } from "next/navigation"
+import { requireAuth } from "@/lib/auth/auth"
+import { CheckInDisplay } from "@/components/sub-admin/attendance"
+import { classSessionIdSchema } from "@/lib/schemas/attendance"
+
+export default async function TeacherCheckInDisplayPage({ params }: { params: { id: string } }) {
+  await requireAuth(["teacher"])
+
+  const validation = classSessionIdSchema.safeParse({ id: params.id })
+  if (!validation.success) {
+    notFound()
+  }
+
+  return <CheckInDisplay sessionId={validation.data.id} backHref="/formateur/presences" />
+}
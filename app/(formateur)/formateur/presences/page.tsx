@@ -0,0 +1,26 @@
+import { requireAuth } from "@/lib/auth/auth";
+import { getClassSessions } from "@/lib/db/queries";
+import { TeacherClassSessions } from "@/components/teacher/class-sessions";
+
+export default async function TeacherAttendancePage() {
+  const user = await requireAuth(["teacher"]);
+
+  const result = await getClassSessions(null, {
+    trainerId: parseInt(user.id),
+    from: new Date().toLocaleDateString("en-CA"),
+  });
+  // Listed soonest first
+  const sessions = result.success ? [...result.data].reverse() : [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Présences</h1>
+        <p className="text-muted-foreground">
+          Émargement de vos étudiants par QR code
+        </p>
+      </div>
+      <TeacherClassSessions sessions={sessions} />
+    </div>
+  );
+}
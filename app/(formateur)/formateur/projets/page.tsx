@@ -0,0 +1,18 @@
+import { requireAuth } from "@/lib/auth/auth";
+import { ProjectReviewInbox } from "@/components/teacher/project-review";
+
+export default async function TeacherProjectsPage() {
+  await requireAuth(["teacher"]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Projets finaux</h1>
+        <p className="text-muted-foreground">
+          Évaluez les projets rendus par vos étudiants
+        </p>
+      </div>
+      <ProjectReviewInbox />
+    </div>
+  );
+}
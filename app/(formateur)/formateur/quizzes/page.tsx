@@ -0,0 +1,18 @@
+import { requireAuth } from "@/lib/auth/auth";
+import { GradingInbox } from "@/components/teacher/quiz-grading";
+
+export default async function TeacherQuizzesPage() {
+  await requireAuth(["teacher"]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Correction des quiz</h1>
+        <p className="text-muted-foreground">
+          Notez les réponses ouvertes de vos étudiants
+        </p>
+      </div>
+      <GradingInbox />
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { requireAuth } from "@/lib/auth/auth"
+import { LocalAnalytics } from "@/components/sub-admin/analytics"
+import { getSchoolsWithDetails, getValidatedCourses } from "@/lib/db/queries"
+import { getSchoolScope } from "@/lib/schools"
+
+export default async function SubAdminAnalyticsPage() {
+  const user = await requireAuth(["sub-admin"])
+
+  const scope = await getSchoolScope(user)
+  const schoolIds = scope.allowed ? (scope.schoolIds ?? []) : []
+
+  const [schoolsResult, coursesResult] = await Promise.all([getSchoolsWithDetails(schoolIds), getValidatedCourses()])
+
+  const schools = schoolsResult.success
+    ? schoolsResult.data.map((school) => ({
+        id: school.id,
+        name: school.name,
+        groups: school.groups.map((group) => ({ id: group.id, name: group.name })),
+      }))
+    : []
+  const courses = coursesResult.success
+    ? coursesResult.data.flatMap((course) => (course?.isActive ? [{ id: course.id, title: course.title }] : []))
+    : []
+
+  return <LocalAnalytics options={{ schools, courses }} />
+}
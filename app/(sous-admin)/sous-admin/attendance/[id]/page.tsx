@@ -0,0 +1,15 @@
+import { notFound } from "next/navigation"
+import { requireAuth } from "@/lib/auth/auth"
+import { RollCall } from "@/components/sub-admin/attendance"
+import { classSessionIdSchema } from "@/lib/schemas/attendance"
+
+export default async function SubAdminRollCallPage({ params }: { params: { id: string } }) {
+  await requireAuth(["sub-admin"])
+
+  const validation = classSessionIdSchema.safeParse({ id: params.id })
+  if (!validation.success) {
+    notFound()
+  }
+
+  return <RollCall sessionId={validation.data.id} />
+}
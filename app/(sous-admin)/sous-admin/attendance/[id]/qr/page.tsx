@@ -0,0 +1,20 @@
+import { notFound } from "next/navigation"
+import { requireAuth } from "@/lib/auth/auth"
+import { CheckInDisplay } from "@/components/sub-admin/attendance"
+import { classSessionIdSchema } from "@/lib/schemas/attendance"
+
+export default async function SubAdminCheckInDisplayPage({ params }: { params: { id: string } }) {
+  await requireAuth(["sub-admin"])
+
+  const validation = classSessionIdSchema.safeParse({ id: params.id })
+  if (!validation.success) {
+    notFound()
+  }
+
+  return (
+    <CheckInDisplay
+      sessionId={validation.data.id}
+      backHref={`/sous-admin/attendance/${validation.data.id}`}
+    />
+  )
+}
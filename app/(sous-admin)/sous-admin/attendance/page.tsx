@@ -0,0 +1,34 @@
+import { requireAuth } from "@/lib/auth/auth"
+import { AttendanceSessions } from "@/components/sub-admin/attendance"
+import { getSchoolsWithDetails, getTeachers, getValidatedCourses } from "@/lib/db/queries"
+import { getSchoolScope } from "@/lib/schools"
+
+export default async function SubAdminAttendancePage() {
+  const user = await requireAuth(["sub-admin"])
+
+  const scope = await getSchoolScope(user)
+  const schoolIds = scope.allowed ? (scope.schoolIds ?? []) : []
+
+  const [schoolsResult, coursesResult, trainersResult] = await Promise.all([
+    getSchoolsWithDetails(schoolIds),
+    getValidatedCourses(),
+    getTeachers(),
+  ])
+
+  const groups = schoolsResult.success
+    ? schoolsResult.data.flatMap((school) =>
+        school.groups.map((group) => ({ id: group.id, name: group.name, schoolName: school.name }))
+      )
+    : []
+  const courses = coursesResult.success
+    ? coursesResult.data.flatMap((course) => (course?.isActive ? [{ id: course.id, title: course.title }] : []))
+    : []
+  const trainers =
+    trainersResult.success && trainersResult.data
+      ? trainersResult.data
+          .filter((trainer) => trainer.isActive && !trainer.anonymizedAt)
+          .map((trainer) => ({ id: trainer.id, name: trainer.name }))
+      : []
+
+  return <AttendanceSessions options={{ groups, courses, trainers }} />
+}
@@ -0,0 +1,31 @@
+import { requireAuth } from "@/lib/auth/auth"
+import { NotesManagement } from "@/components/sub-admin/notes"
+import { getSchoolStudents, getSchoolsWithDetails, getValidatedCourses } from "@/lib/db/queries"
+import { getSchoolScope } from "@/lib/schools"
+
+export default async function SubAdminNotesPage() {
+  const user = await requireAuth(["sub-admin"])
+
+  const scope = await getSchoolScope(user)
+  const schoolIds = scope.allowed ? (scope.schoolIds ?? []) : []
+
+  const [schoolsResult, studentsResult, coursesResult] = await Promise.all([
+    getSchoolsWithDetails(schoolIds),
+    getSchoolStudents(schoolIds),
+    getValidatedCourses(),
+  ])
+
+  const schools = schoolsResult.success
+    ? schoolsResult.data.map((school) => ({ id: school.id, name: school.name }))
+    : []
+  const students = studentsResult.success
+    ? studentsResult.data.map((student) => ({ id: student.id, name: student.name }))
+    : []
+  const courses = coursesResult.success
+    ? coursesResult.data.flatMap((course) => (course?.isActive ? [{ id: course.id, title: course.title }] : []))
+    : []
+
+  return (
+    <NotesManagement currentUserId={Number(user.id)} schools={schools} students={students} courses={courses} />
+  )
+}
@@ -1,8 +1,73 @@
 import { requireAuth } from "@/lib/auth/auth"
 import { SubAdminDashboard } from "@/components/sub-admin/sub-admin-dashboard"
+import {
+  getAttendanceOverview,
+  getLocalAnalytics,
+  getSchoolStudents,
+  getSchoolsOverview,
+  getSchoolsWithDetails,
+  getStudentNotes,
+  getValidatedCourses,
+} from "@/lib/db/queries"
+import { getSchoolScope } from "@/lib/schools"
 
 export default async function SubAdminPage() {
   const user = await requireAuth(["sub-admin"])
 
-  return <SubAdminDashboard user={user} />
+  // Everything below is limited to the schools the sub-admin is responsible for
+  const scope = await getSchoolScope(user)
+  const schoolIds = scope.allowed ? (scope.schoolIds ?? []) : []
+
+  const today = new Date()
+  const monthAgo = new Date(today.getTime() - 29 * 24 * 60 * 60 * 1000)
+
+  const [
+    schoolsResult,
+    overviewResult,
+    attendanceResult,
+    activityResult,
+    studentsResult,
+    coursesResult,
+    notesResult,
+  ] = await Promise.all([
+    getSchoolsWithDetails(schoolIds),
+    getSchoolsOverview(schoolIds),
+    getAttendanceOverview(schoolIds),
+    getLocalAnalytics(schoolIds, {
+      from: monthAgo.toISOString().slice(0, 10),
+      to: today.toISOString().slice(0, 10),
+    }),
+    getSchoolStudents(schoolIds),
+    getValidatedCourses(),
+    getStudentNotes(schoolIds, {}, 5),
+  ])
+
+  const schools = schoolsResult.success
+    ? schoolsResult.data.map((school) => ({ id: school.id, name: school.name, city: school.city }))
+    : []
+  const overview = overviewResult.success ? overviewResult.data : null
+  const attendance = attendanceResult.success ? attendanceResult.data : null
+  const recentActivity = activityResult.success ? activityResult.data.summary : null
+  const students = studentsResult.success
+    ? studentsResult.data
+        .filter((student) => student.isActive)
+        .map((student) => ({ id: student.id, name: student.name, groupName: student.groupName }))
+    : []
+  const courses = coursesResult.success
+    ? coursesResult.data.flatMap((course) => (course?.isActive ? [{ id: course.id, title: course.title }] : []))
+    : []
+
+  const notes = notesResult.success ? notesResult.data : []
+
+  return (
+    <SubAdminDashboard
+      schools={schools}
+      overview={overview}
+      attendance={attendance}
+      recentActivity={recentActivity}
+      students={students}
+      courses={courses}
+      notes={notes}
+    />
+  )
 }
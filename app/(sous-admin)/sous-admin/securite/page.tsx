@@ -0,0 +1,22 @@
+import { requireAuth } from "@/lib/auth/auth";
+import { TwoFactorSettings } from "@/components/auth/two-factor";
+
+interface SecurityPageProps {
+  searchParams: { "2fa"?: string };
+}
+
+export default async function SubAdminSecurityPage({ searchParams }: SecurityPageProps) {
+  await requireAuth(["SUB_ADMIN"]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Sécurité</h1>
+        <p className="text-muted-foreground">
+          Protégez l'accès à votre compte
+        </p>
+      </div>
+      <TwoFactorSettings isRequiredNotice={searchParams["2fa"] === "required"} continueHref="/sous-admin" />
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { notFound } from "next/navigation"
+import { requireAuth } from "@/lib/auth/auth"
+import { StudentDetail } from "@/components/sub-admin/student-detail"
+import { getStudentAttendance, getStudentEnrolledCoursesWithProgress } from "@/lib/db/queries"
+import { userIdSchema } from "@/lib/schemas/user"
+import { getManagedStudent } from "@/lib/schools"
+
+export default async function SubAdminStudentPage({ params }: { params: { id: string } }) {
+  const user = await requireAuth(["sub-admin"])
+
+  const validation = userIdSchema.safeParse({ id: params.id })
+  if (!validation.success) {
+    notFound()
+  }
+
+  const access = await getManagedStudent(user, validation.data.id)
+  if (!access.allowed) {
+    notFound()
+  }
+
+  const [coursesResult, attendanceResult] = await Promise.all([
+    getStudentEnrolledCoursesWithProgress(access.student.id),
+    getStudentAttendance(access.student.id),
+  ])
+  const courses = coursesResult.success ? coursesResult.data : []
+  const attendance = attendanceResult.success ? attendanceResult.data : null
+
+  return (
+    <StudentDetail
+      student={access.student}
+      courses={courses}
+      attendance={attendance}
+      currentUserId={Number(user.id)}
+    />
+  )
+}
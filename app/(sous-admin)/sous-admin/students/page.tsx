@@ -0,0 +1,8 @@
+import { requireAuth } from "@/lib/auth/auth"
+import { StudentsManagement } from "@/components/sub-admin/students-management"
+
+export default async function SubAdminStudentsPage() {
+  await requireAuth(["sub-admin"])
+
+  return <StudentsManagement />
+}
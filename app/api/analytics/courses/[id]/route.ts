@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getCourseAnalytics, getCourseById } from "@/lib/db/queries"
+import { courseIdSchema } from "@/lib/schemas/course"
+
+// Chapter funnel, quiz results and activity of the students of a course
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    if (user.role !== "TRAINER" && user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = courseIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de cours invalide" }, { status: 400 })
+    }
+
+    const courseId = paramValidation.data.id
+    const courseResult = await getCourseById(courseId)
+    if (!courseResult.success || !courseResult.data) {
+      return NextResponse.json({ error: "Cours introuvable" }, { status: 404 })
+    }
+
+    // Trainers only see the analytics of the courses they teach
+    if (user.role === "TRAINER" && courseResult.data.teacherId !== Number(user.id)) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const result = await getCourseAnalytics(courseId)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ course: { id: courseId, title: courseResult.data.title }, ...result.data })
+  } catch (error) {
+    console.error("[API] Error fetching course analytics:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
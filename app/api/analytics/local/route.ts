@@ -0,0 +1,49 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getLocalAnalytics } from "@/lib/db/queries"
+import { localAnalyticsQuerySchema } from "@/lib/schemas/analytics"
+import { getManagedGroup, getSchoolScope, isSchoolInScope } from "@/lib/schools"
+
+// KPIs and weekly trend of the students of the user's schools
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const scope = await getSchoolScope(user)
+    if (!scope.allowed) {
+      return NextResponse.json({ error: scope.error }, { status: scope.status })
+    }
+
+    const validation = localAnalyticsQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Paramètres invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const filters = validation.data
+    if (filters.schoolId && !isSchoolInScope(scope.schoolIds, filters.schoolId)) {
+      return NextResponse.json({ error: "Établissement introuvable" }, { status: 404 })
+    }
+    if (filters.groupId) {
+      const access = await getManagedGroup(user, filters.groupId)
+      if (!access.allowed) {
+        return NextResponse.json({ error: access.error }, { status: access.status })
+      }
+    }
+
+    const result = await getLocalAnalytics(scope.schoolIds, filters)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ period: { from: filters.from, to: filters.to }, ...result.data })
+  } catch (error) {
+    console.error("[API] Error fetching local analytics:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,115 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { checkInStudent, getClassSessionById, getUserById } from "@/lib/db/queries"
+import { checkInSchema } from "@/lib/schemas/attendance"
+import { getCheckInWindowError, isIpAllowed, verifyCheckInToken } from "@/lib/attendance"
+import { getClientIp } from "@/lib/security/rate-limit"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// A student marks themselves present by scanning the QR code shown in class
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "STUDENT") {
+      return NextResponse.json({ error: "Seuls les étudiants peuvent émarger" }, { status: 403 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = checkInSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    // Expired codes are refused, so a photo of the screen cannot be reused later;
+    // a fresh one can still be forwarded, which the allowed networks below catch
+    const sessionId = verifyCheckInToken(validation.data.token)
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Ce QR code a expiré. Scannez le code actuellement affiché en classe." },
+        { status: 400 }
+      )
+    }
+
+    const sessionResult = await getClassSessionById(sessionId)
+    if ("error" in sessionResult) {
+      return NextResponse.json({ error: sessionResult.error }, { status: 500 })
+    }
+    const session = sessionResult.data
+    if (!session) {
+      return NextResponse.json({ error: "Séance introuvable" }, { status: 404 })
+    }
+
+    const windowError = getCheckInWindowError(session)
+    if (windowError) {
+      return NextResponse.json({ error: windowError }, { status: 403 })
+    }
+
+    const ip = getClientIp(request.headers)
+    if (!isIpAllowed(ip, session.checkInAllowedIps)) {
+      return NextResponse.json(
+        { error: "Émargement refusé : connectez-vous au réseau de l'établissement" },
+        { status: 403 }
+      )
+    }
+
+    const student = await getUserById(Number(user.id))
+    if ("error" in student) {
+      return NextResponse.json({ error: student.error }, { status: 500 })
+    }
+    if (!student.data || student.data.groupId !== session.groupId) {
+      return NextResponse.json({ error: "Vous ne faites pas partie du groupe de cette séance" }, { status: 403 })
+    }
+
+    const result = await checkInStudent(session.id, student.data.id, ip)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+    const { record, previousStatus } = result.data
+
+    // An excused absence is settled by the staff, not by a scan
+    if (previousStatus === "excused") {
+      return NextResponse.json(
+        { error: "Votre absence à cette séance est justifiée : adressez-vous au formateur", status: record.status },
+        { status: 409 }
+      )
+    }
+
+    const recorded = previousStatus === null || previousStatus === "absent"
+    if (recorded) {
+      await recordAudit({
+        ...getAuditContext(request, user),
+        action: "attendance.check_in",
+        targetType: "class_session",
+        targetId: session.id,
+        before: previousStatus ? { status: previousStatus } : null,
+        after: record,
+      })
+    }
+
+    return NextResponse.json({
+      message: recorded ? "Présence enregistrée" : "Votre présence à cette séance est déjà enregistrée",
+      alreadyRecorded: !recorded,
+      status: record.status,
+      session: {
+        startsAt: session.startsAt,
+        groupName: session.groupName,
+        courseTitle: session.courseTitle,
+      },
+    })
+  } catch (error) {
+    console.error("[API] Error checking in:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
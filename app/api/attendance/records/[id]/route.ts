@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { updateAttendanceRecord } from "@/lib/db/queries"
+import { attendanceEntrySchema, attendanceRecordIdSchema } from "@/lib/schemas/attendance"
+import { getManagedAttendanceRecord } from "@/lib/attendance"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Correct one student's attendance, typically to justify an absence afterwards
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = attendanceRecordIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de présence invalide" }, { status: 400 })
+    }
+
+    const access = await getManagedAttendanceRecord(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = attendanceEntrySchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateAttendanceRecord(access.record.id, validation.data, Number(user.id))
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "attendance_record.update",
+      targetType: "attendance_record",
+      targetId: access.record.id,
+      before: access.record,
+      after: result.data,
+    })
+
+    return NextResponse.json({ message: "Présence mise à jour", record: result.data })
+  } catch (error) {
+    console.error("[API] Error updating attendance record:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server"
+import QRCode from "qrcode"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { classSessionIdSchema } from "@/lib/schemas/attendance"
+import { getCheckInDisplayAccess, getCheckInUrl, getCheckInWindowError, issueCheckInToken } from "@/lib/attendance"
+
+// Current QR code of the session, polled by the screen shown in class
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = classSessionIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de séance invalide" }, { status: 400 })
+    }
+
+    const access = await getCheckInDisplayAccess(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+    const { session } = access
+
+    const windowError = getCheckInWindowError(session)
+    if (windowError) {
+      return NextResponse.json({ session, closed: windowError, qrCode: null, refreshAt: null })
+    }
+
+    const { token, refreshAt } = issueCheckInToken(session.id)
+    const qrCode = await QRCode.toDataURL(getCheckInUrl(token), { margin: 1, width: 480 })
+
+    return NextResponse.json(
+      { session, closed: null, qrCode, refreshAt },
+      { headers: { "Cache-Control": "no-store" } }
+    )
+  } catch (error) {
+    console.error("[API] Error issuing check-in code:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getSessionRoster, saveAttendanceRoll } from "@/lib/db/queries"
+import { attendanceRollSchema, classSessionIdSchema } from "@/lib/schemas/attendance"
+import { getManagedSession } from "@/lib/attendance"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Save the roll call of a session; it can be taken again to correct it
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = classSessionIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de séance invalide" }, { status: 400 })
+    }
+
+    const access = await getManagedSession(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = attendanceRollSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    // Only the students called on the session can be recorded
+    const roster = await getSessionRoster(access.session.id, access.session.groupId)
+    if ("error" in roster) {
+      return NextResponse.json({ error: roster.error }, { status: 500 })
+    }
+    const rosterIds = new Set(roster.data.map((student) => student.studentId))
+    if (validation.data.records.some((record) => !rosterIds.has(record.studentId))) {
+      return NextResponse.json({ error: "Un des étudiants n'appartient pas au groupe de la séance" }, { status: 400 })
+    }
+
+    const result = await saveAttendanceRoll(access.session.id, validation.data.records, Number(user.id))
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "attendance.roll_call",
+      targetType: "class_session",
+      targetId: access.session.id,
+      after: validation.data.records.map(({ studentId, status }) => ({ studentId, status })),
+    })
+
+    return NextResponse.json({ message: "Appel enregistré", records: result.data })
+  } catch (error) {
+    console.error("[API] Error saving roll call:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,141 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { deleteClassSession, getSessionRoster, updateClassSessionCheckIn } from "@/lib/db/queries"
+import { checkInSettingsSchema, classSessionIdSchema } from "@/lib/schemas/attendance"
+import { getManagedSession } from "@/lib/attendance"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// The session with its roster, for the roll call
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = classSessionIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de séance invalide" }, { status: 400 })
+    }
+
+    const access = await getManagedSession(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    const roster = await getSessionRoster(access.session.id, access.session.groupId)
+    if ("error" in roster) {
+      return NextResponse.json({ error: roster.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ session: access.session, roster: roster.data })
+  } catch (error) {
+    console.error("[API] Error fetching class session:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+// QR check-in settings: when students may scan and from which networks
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = classSessionIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de séance invalide" }, { status: 400 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = checkInSettingsSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const access = await getManagedSession(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    const result = await updateClassSessionCheckIn(access.session.id, validation.data)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "class_session.check_in_settings",
+      targetType: "class_session",
+      targetId: access.session.id,
+      before: {
+        checkInOpensAt: access.session.checkInOpensAt,
+        checkInClosesAt: access.session.checkInClosesAt,
+        checkInAllowedIps: access.session.checkInAllowedIps,
+      },
+      after: validation.data,
+    })
+
+    return NextResponse.json({ message: "Paramètres d'émargement enregistrés" })
+  } catch (error) {
+    console.error("[API] Error updating check-in settings:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+// Deleting a session also deletes the attendance taken on it
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = classSessionIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de séance invalide" }, { status: 400 })
+    }
+
+    const access = await getManagedSession(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    const result = await deleteClassSession(access.session.id)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "class_session.delete",
+      targetType: "class_session",
+      targetId: access.session.id,
+      before: access.session,
+    })
+
+    return NextResponse.json({ message: "Séance supprimée" })
+  } catch (error) {
+    console.error("[API] Error deleting class session:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
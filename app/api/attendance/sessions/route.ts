@@ -0,0 +1,112 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { createClassSession, getClassSessions, getCourseById, validateTeacherAssignment } from "@/lib/db/queries"
+import { classSessionQuerySchema, classSessionSchema } from "@/lib/schemas/attendance"
+import { getManagedGroup, getSchoolScope, isSchoolInScope } from "@/lib/schools"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Class sessions of the groups the user manages
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const scope = await getSchoolScope(user)
+    if (!scope.allowed) {
+      return NextResponse.json({ error: scope.error }, { status: scope.status })
+    }
+
+    const validation = classSessionQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Paramètres invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    if (validation.data.schoolId && !isSchoolInScope(scope.schoolIds, validation.data.schoolId)) {
+      return NextResponse.json({ error: "Établissement introuvable" }, { status: 404 })
+    }
+
+    const result = await getClassSessions(scope.schoolIds, validation.data)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ sessions: result.data })
+  } catch (error) {
+    console.error("[API] Error fetching class sessions:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+// Schedule an in-person session for a group
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = classSessionSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+    const data = validation.data
+
+    const access = await getManagedGroup(user, data.groupId)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    if (data.courseId) {
+      const course = await getCourseById(data.courseId)
+      if ("error" in course) {
+        return NextResponse.json({ error: course.error }, { status: 500 })
+      }
+      if (!course.data) {
+        return NextResponse.json({ error: "Cours introuvable" }, { status: 404 })
+      }
+    }
+
+    if (data.trainerId) {
+      const trainer = await validateTeacherAssignment(data.trainerId)
+      if ("error" in trainer) {
+        return NextResponse.json({ error: trainer.error }, { status: 500 })
+      }
+      if (!trainer.data) {
+        return NextResponse.json({ error: "Formateur introuvable" }, { status: 404 })
+      }
+    }
+
+    const result = await createClassSession({ ...data, createdBy: Number(user.id) })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "class_session.create",
+      targetType: "class_session",
+      targetId: result.data.id,
+      after: result.data,
+    })
+
+    return NextResponse.json({ message: "Séance créée", session: result.data }, { status: 201 })
+  } catch (error) {
+    console.error("[API] Error creating class session:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
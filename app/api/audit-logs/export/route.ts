@@ -0,0 +1,94 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getAuditLogs } from "@/lib/db/queries"
+import { auditLogExportSchema } from "@/lib/schemas/audit"
+import { getAuditContext, recordAudit, redact } from "@/lib/audit"
+
+// Keeps a single export within a reasonable response size
+const MAX_EXPORT_ROWS = 10000
+
+const CSV_COLUMNS = ["Date", "Acteur", "Email", "Action", "Type de cible", "Cible", "Avant", "Après", "IP"]
+
+function toCsvCell(value: unknown) {
+  let text = value == null ? "" : typeof value === "string" ? value : JSON.stringify(value)
+  // Spreadsheets run cells starting with these as formulas
+  const isFormula = /^[=+\-@\t\r]/.test(text)
+  if (isFormula) text = `'${text}`
+  return isFormula || /[",;\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const validation = auditLogExportSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Paramètres invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { format, ...filters } = validation.data
+    const result = await getAuditLogs(filters, { limit: MAX_EXPORT_ROWS })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+    // Entries written before nested fields were masked may still hold secrets
+    const rows = result.data.rows.map((log) => ({ ...log, before: redact(log.before), after: redact(log.after) }))
+
+    // Exporting the trail is itself an auditable access to personal data
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "audit_log.export",
+      targetType: "audit_log",
+      after: { format, filters, rows: rows.length },
+    })
+
+    const filename = `journal-audit-${new Date().toISOString().slice(0, 10)}.${format}`
+    if (format === "json") {
+      return new NextResponse(JSON.stringify(rows, null, 2), {
+        headers: {
+          "Content-Type": "application/json; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      })
+    }
+
+    const lines = [
+      CSV_COLUMNS.join(","),
+      ...rows.map((log) =>
+        [
+          log.createdAt.toISOString(),
+          log.actorName ?? "Système",
+          log.actorEmail,
+          log.action,
+          log.targetType,
+          log.targetId,
+          log.before,
+          log.after,
+          log.ipAddress,
+        ]
+          .map(toCsvCell)
+          .join(",")
+      ),
+    ]
+
+    // The BOM lets Excel detect UTF-8 and keep accents intact
+    return new NextResponse("\uFEFF" + lines.join("\r\n"), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error("[API] Error exporting audit logs:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getAuditLogFacets, getAuditLogs } from "@/lib/db/queries"
+import { auditLogQuerySchema } from "@/lib/schemas/audit"
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const validation = auditLogQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Paramètres invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { page, pageSize, ...filters } = validation.data
+    const result = await getAuditLogs(filters, { limit: pageSize, offset: (page - 1) * pageSize })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    const facets = await getAuditLogFacets()
+    if ("error" in facets) {
+      return NextResponse.json({ error: facets.error }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      logs: result.data.rows,
+      total: result.data.total,
+      page,
+      pageSize,
+      facets: facets.data,
+    })
+  } catch (error) {
+    console.error("[API] Error fetching audit logs:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -1,6 +1,10 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { createSession, setAuthCookie } from "@/lib/auth/auth"
 import { getUserByEmail } from "@/lib/db/db"
+import { getClientIp } from "@/lib/security/rate-limit"
+import { checkLoginThrottle, clearLoginFailures, registerLoginFailure } from "@/lib/security/login-throttle"
+
+const LOCKED_MESSAGE = "Trop de tentatives échouées. Réessayez plus tard."
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,6 +14,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, error: "Email et mot de passe requis" }, { status: 400 })
     }
 
+    const ip = getClientIp(request.headers)
+    const throttle = await checkLoginThrottle(email, ip)
+    if (!throttle.allowed) {
+      return NextResponse.json(
+        { success: false, error: LOCKED_MESSAGE },
+        { status: 429, headers: { "Retry-After": throttle.retryAfterSeconds.toString() } }
+      )
+    }
+
     const result = await getUserByEmail(email)
 
     if (!result.success) {
@@ -19,13 +32,16 @@ export async function POST(request: NextRequest) {
     const dbUser = result.data
 
     if (!dbUser) {
+      await registerLoginFailure(email, ip)
       return NextResponse.json({ success: false, error: "Email ou mot de passe incorrect" }, { status: 401 })
     }
 
     // Simple password check (in production, use bcrypt)
     if (dbUser.password !== password) {
+      await registerLoginFailure(email, ip, dbUser.id)
       return NextResponse.json({ success: false, error: "Email ou mot de passe incorrect" }, { status: 401 })
     }
+    await clearLoginFailures(email)
 
     if (!dbUser.isActive) {
       return NextResponse.json({ success: false, error: "Compte désactivé" }, { status: 403 })
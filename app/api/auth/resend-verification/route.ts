@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getUserByEmail } from "@/lib/db/queries"
+import { emailRequestSchema } from "@/lib/schemas/auth"
+import { sendVerificationEmail } from "@/lib/auth/verification"
+import { checkRateLimit, getClientIp } from "@/lib/security/rate-limit"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+const RESEND_RATE_LIMIT = { limit: 5, windowMs: 60 * 60 * 1000 }
+
+// Send a new verification link. The answer is the same whether or not the
+// account exists, so the route cannot be used to probe for emails.
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = emailRequestSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { email } = validation.data
+    const rateLimit = await checkRateLimit(
+      `resend-verification:${getClientIp(request.headers)}:${email.toLowerCase()}`,
+      RESEND_RATE_LIMIT
+    )
+    if (!rateLimit.allowed) {
+      return NextResponse.json({ error: "Trop de demandes, réessayez plus tard" }, { status: 429 })
+    }
+
+    const result = await getUserByEmail(email)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    const user = result.data
+    if (user && user.isActive !== false && !user.emailVerifiedAt) {
+      await sendVerificationEmail(user)
+      await recordAudit({
+        ...getAuditContext(request),
+        action: "auth.verification_resend",
+        targetType: "user",
+        targetId: user.id,
+      })
+    }
+
+    return NextResponse.json({
+      message: "Si un compte non vérifié correspond à cette adresse, un nouveau lien vient d'être envoyé",
+    })
+  } catch (error) {
+    console.error("[API] Error resending verification email:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
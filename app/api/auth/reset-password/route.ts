@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { markEmailVerified, updateUser } from "@/lib/db/queries"
+import { resetPasswordSchema } from "@/lib/schemas/auth"
+import { redeemAuthToken } from "@/lib/auth/tokens"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = resetPasswordSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const userId = await redeemAuthToken(validation.data.token, "password_reset")
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Ce lien de réinitialisation est invalide, expiré ou a déjà été utilisé" },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateUser(userId, { password: validation.data.password })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    // Following the emailed link proves the address belongs to the user
+    await markEmailVerified(userId)
+    await recordAudit({
+      ...getAuditContext(request),
+      actorId: userId,
+      action: "auth.password_reset",
+      targetType: "user",
+      targetId: userId,
+    })
+
+    return NextResponse.json({ message: "Mot de passe modifié, vous pouvez vous connecter" })
+  } catch (error) {
+    console.error("[API] Error resetting password:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
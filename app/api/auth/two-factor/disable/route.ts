@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { deleteTwoFactor } from "@/lib/db/queries"
+import { twoFactorCodeSchema } from "@/lib/schemas/auth"
+import { verifySecondFactor } from "@/lib/auth/two-factor"
+import { isTwoFactorRequired } from "@/lib/auth/two-factor-policy"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    if (isTwoFactorRequired(user.role)) {
+      return NextResponse.json(
+        { error: "La double authentification est obligatoire pour votre rôle" },
+        { status: 403 }
+      )
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = twoFactorCodeSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const check = await verifySecondFactor(Number(user.id), validation.data.code)
+    if (check === "not_enrolled") {
+      return NextResponse.json({ error: "La double authentification n'est pas activée" }, { status: 400 })
+    }
+    if (check === "rate_limited") {
+      return NextResponse.json({ error: "Trop de tentatives, réessayez plus tard" }, { status: 429 })
+    }
+    if (check === "invalid") {
+      return NextResponse.json({ error: "Code incorrect" }, { status: 400 })
+    }
+
+    const result = await deleteTwoFactor(Number(user.id))
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "auth.two_factor_disable",
+      targetType: "user",
+      targetId: user.id,
+    })
+
+    return NextResponse.json({ message: "Double authentification désactivée" })
+  } catch (error) {
+    console.error("[API] Error disabling two-factor:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
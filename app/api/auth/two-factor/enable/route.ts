@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { enableTwoFactor, getTwoFactorByUser } from "@/lib/db/queries"
+import { twoFactorCodeSchema } from "@/lib/schemas/auth"
+import { decryptTotpSecret, generateRecoveryCodes, hashRecoveryCode, verifyTotp } from "@/lib/auth/totp"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Confirm enrolment with a first code; the recovery codes are returned only here
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser({ allowPendingTwoFactor: true })
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = twoFactorCodeSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const record = await getTwoFactorByUser(Number(user.id))
+    if ("error" in record) {
+      return NextResponse.json({ error: record.error }, { status: 500 })
+    }
+    if (!record.data) {
+      return NextResponse.json({ error: "Commencez par scanner le QR code" }, { status: 400 })
+    }
+    if (record.data.enabledAt) {
+      return NextResponse.json({ error: "La double authentification est déjà activée" }, { status: 409 })
+    }
+
+    const step = verifyTotp(decryptTotpSecret(record.data.secret), validation.data.code)
+    if (step === null) {
+      return NextResponse.json({ error: "Code incorrect" }, { status: 400 })
+    }
+
+    const recoveryCodes = generateRecoveryCodes()
+    const result = await enableTwoFactor(Number(user.id), step, recoveryCodes.map(hashRecoveryCode))
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+    if (!result.data) {
+      return NextResponse.json({ error: "La double authentification est déjà activée" }, { status: 409 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "auth.two_factor_enable",
+      targetType: "user",
+      targetId: user.id,
+    })
+
+    return NextResponse.json({ message: "Double authentification activée", recoveryCodes })
+  } catch (error) {
+    console.error("[API] Error enabling two-factor:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { replaceRecoveryCodes } from "@/lib/db/queries"
+import { twoFactorCodeSchema } from "@/lib/schemas/auth"
+import { verifySecondFactor } from "@/lib/auth/two-factor"
+import { generateRecoveryCodes, hashRecoveryCode } from "@/lib/auth/totp"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Replace every recovery code; needs a current authenticator code
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = twoFactorCodeSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const check = await verifySecondFactor(Number(user.id), validation.data.code, { allowRecoveryCode: false })
+    if (check === "not_enrolled") {
+      return NextResponse.json({ error: "La double authentification n'est pas activée" }, { status: 400 })
+    }
+    if (check === "rate_limited") {
+      return NextResponse.json({ error: "Trop de tentatives, réessayez plus tard" }, { status: 429 })
+    }
+    if (check === "invalid") {
+      return NextResponse.json({ error: "Code incorrect" }, { status: 400 })
+    }
+
+    const recoveryCodes = generateRecoveryCodes()
+    const result = await replaceRecoveryCodes(Number(user.id), recoveryCodes.map(hashRecoveryCode))
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "auth.recovery_codes_regenerate",
+      targetType: "user",
+      targetId: user.id,
+    })
+
+    return NextResponse.json({ message: "Nouveaux codes de récupération générés", recoveryCodes })
+  } catch (error) {
+    console.error("[API] Error regenerating recovery codes:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { countUnusedRecoveryCodes, getTwoFactorByUser } from "@/lib/db/queries"
+import { isTwoFactorRequired } from "@/lib/auth/two-factor-policy"
+
+// Two-factor status of the signed-in user
+export async function GET() {
+  try {
+    const user = await getCurrentUser({ allowPendingTwoFactor: true })
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const record = await getTwoFactorByUser(Number(user.id))
+    if ("error" in record) {
+      return NextResponse.json({ error: record.error }, { status: 500 })
+    }
+
+    const enabled = Boolean(record.data?.enabledAt)
+    let recoveryCodesRemaining = 0
+    if (enabled) {
+      const countResult = await countUnusedRecoveryCodes(Number(user.id))
+      if ("error" in countResult) {
+        return NextResponse.json({ error: countResult.error }, { status: 500 })
+      }
+      recoveryCodesRemaining = countResult.data
+    }
+
+    return NextResponse.json({
+      enabled,
+      enabledAt: record.data?.enabledAt ?? null,
+      required: isTwoFactorRequired(user.role),
+      recoveryCodesRemaining,
+    })
+  } catch (error) {
+    console.error("[API] Error fetching two-factor status:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
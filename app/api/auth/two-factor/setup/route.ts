@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server"
+import QRCode from "qrcode"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getTwoFactorByUser, saveTwoFactorSecret } from "@/lib/db/queries"
+import { buildOtpauthUri, encryptTotpSecret, generateTotpSecret } from "@/lib/auth/totp"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Start enrolment: a new secret, shown as a QR code until it is confirmed
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser({ allowPendingTwoFactor: true })
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const record = await getTwoFactorByUser(Number(user.id))
+    if ("error" in record) {
+      return NextResponse.json({ error: record.error }, { status: 500 })
+    }
+    if (record.data?.enabledAt) {
+      return NextResponse.json({ error: "La double authentification est déjà activée" }, { status: 409 })
+    }
+
+    const secret = generateTotpSecret()
+    const result = await saveTwoFactorSecret(Number(user.id), encryptTotpSecret(secret))
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "auth.two_factor_setup",
+      targetType: "user",
+      targetId: user.id,
+    })
+
+    const otpauthUrl = buildOtpauthUri(secret, user.email)
+    const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 })
+
+    return NextResponse.json({ secret, otpauthUrl, qrCode })
+  } catch (error) {
+    console.error("[API] Error starting two-factor setup:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
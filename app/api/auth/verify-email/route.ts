@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { markEmailVerified } from "@/lib/db/queries"
+import { emailTokenSchema } from "@/lib/schemas/auth"
+import { redeemAuthToken } from "@/lib/auth/tokens"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Confirm an email address from the link sent at registration
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = emailTokenSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json({ error: "Lien de vérification invalide" }, { status: 400 })
+    }
+
+    const userId = await redeemAuthToken(validation.data.token, "email_verification")
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Ce lien de vérification est invalide, expiré ou a déjà été utilisé" },
+        { status: 400 }
+      )
+    }
+
+    const result = await markEmailVerified(userId)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request),
+      actorId: userId,
+      action: "auth.email_verify",
+      targetType: "user",
+      targetId: userId,
+    })
+
+    return NextResponse.json({ message: "Adresse email confirmée, vous pouvez vous connecter" })
+  } catch (error) {
+    console.error("[API] Error verifying email:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getCertificateById } from "@/lib/db/queries"
+import { renderCertificatePdf } from "@/lib/certificates"
+import { generateSlug } from "@/lib/utils/slug"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const certificateId = Number.parseInt(params.id)
+    if (isNaN(certificateId)) {
+      return NextResponse.json({ error: "ID de certificat invalide" }, { status: 400 })
+    }
+
+    const result = await getCertificateById(certificateId)
+    if (!result.success || !result.data) {
+      return NextResponse.json({ error: "Certificat introuvable" }, { status: 404 })
+    }
+
+    const certificate = result.data
+
+    // Students may only download their own certificates
+    if (user.role !== "ADMIN" && certificate.studentId !== Number(user.id)) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+    if (certificate.revokedAt && user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Ce certificat a été révoqué" }, { status: 410 })
+    }
+
+    const pdf = await renderCertificatePdf({
+      hash: certificate.hash,
+      studentName: certificate.studentName,
+      courseTitle: certificate.courseTitle,
+      domainName: certificate.domainName,
+      teacherName: certificate.teacherName,
+      finalGrade: certificate.finalGrade,
+      issuedAt: certificate.issuedAt,
+    })
+
+    const filename = `certificat-${generateSlug(certificate.courseTitle)}.pdf`
+
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    console.error("[API] Error generating certificate PDF:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
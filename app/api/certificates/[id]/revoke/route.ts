@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getCertificateById, revokeCertificate } from "@/lib/db/queries"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+const revokeCertificateSchema = z.object({
+  reason: z.string().trim().min(1, "Revocation reason is required").max(2000),
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const certificateId = Number.parseInt(params.id)
+    if (isNaN(certificateId)) {
+      return NextResponse.json({ error: "ID de certificat invalide" }, { status: 400 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = revokeCertificateSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const existing = await getCertificateById(certificateId)
+    if (!existing.success || !existing.data) {
+      return NextResponse.json({ error: "Certificat introuvable" }, { status: 404 })
+    }
+    if (existing.data.revokedAt) {
+      return NextResponse.json({ error: "Certificat déjà révoqué" }, { status: 409 })
+    }
+
+    const result = await revokeCertificate(certificateId, validation.data.reason)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "certificate.revoke",
+      targetType: "certificate",
+      targetId: certificateId,
+      before: existing.data,
+      after: result.data,
+    })
+
+    return NextResponse.json({ message: "Certificat révoqué", certificate: result.data })
+  } catch (error) {
+    console.error("[API] Error revoking certificate:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
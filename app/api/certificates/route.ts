@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getCertificatesByStudent } from "@/lib/db/queries"
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    if (user.role !== "STUDENT") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const result = await getCertificatesByStudent(Number(user.id))
+    if (!result.success) {
+      const errorMsg = "error" in result ? result.error : "Erreur lors de la récupération des certificats"
+      return NextResponse.json({ error: errorMsg }, { status: 500 })
+    }
+
+    return NextResponse.json({ certificates: result.data }, { status: 200 })
+  } catch (error) {
+    console.error("[API] Error fetching certificates:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,130 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { createQuiz, getQuizAttemptsByStudent, getQuizzesByChapter } from "@/lib/db/queries"
+import { chapterIdSchema, createQuizSchema } from "@/lib/schemas/quiz"
+import {
+  getAttemptAvailability,
+  getChapterQuizAccess,
+  getQuizType,
+  parseQuizQuestions,
+  toStudentQuiz,
+  validateQuizDraws,
+} from "@/lib/quizzes"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = chapterIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de chapitre invalide" }, { status: 400 })
+    }
+
+    const access = await getChapterQuizAccess(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    const result = await getQuizzesByChapter(paramValidation.data.id)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    if (access.canManage) {
+      const quizzes = result.data.map((quiz) => ({ ...quiz, questions: parseQuizQuestions(quiz.questions) }))
+      return NextResponse.json({ quizzes })
+    }
+
+    // Answer keys never leave the server for students; they get how many
+    // attempts they have used and when the next one may start instead
+    const studentId = Number(user.id)
+    const quizzes = await Promise.all(
+      result.data.map(async (quiz) => {
+        const attempts = await getQuizAttemptsByStudent(studentId, quiz.id)
+        const availability = getAttemptAvailability(quiz, "error" in attempts ? [] : attempts.data ?? [])
+        return {
+          ...toStudentQuiz(quiz),
+          attemptsUsed: availability.attemptsUsed,
+          canStart: availability.allowed,
+          retryAt: availability.allowed ? null : availability.retryAt,
+        }
+      })
+    )
+
+    return NextResponse.json({ quizzes })
+  } catch (error) {
+    console.error("[API] Error fetching chapter quizzes:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = chapterIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de chapitre invalide" }, { status: 400 })
+    }
+
+    const access = await getChapterQuizAccess(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+    if (!access.canManage) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validation = createQuizSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const drawError = await validateQuizDraws(access.courseId, validation.data.draws)
+    if (drawError) {
+      return NextResponse.json({ error: drawError }, { status: 400 })
+    }
+
+    const result = await createQuiz({
+      chapterId: paramValidation.data.id,
+      ...validation.data,
+      type: getQuizType(validation.data.questions),
+    })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "quiz.create",
+      targetType: "quiz",
+      targetId: result.data.id,
+      after: result.data,
+    })
+
+    return NextResponse.json(
+      { message: "Quiz créé avec succès", quiz: result.data },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("[API] Error creating quiz:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getConsentRecords } from "@/lib/db/queries"
+import { consentRecordQuerySchema } from "@/lib/schemas/consent"
+
+// Who accepted which version of the consent text
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const validation = consentRecordQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Paramètres invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { page, pageSize, ...filters } = validation.data
+    const result = await getConsentRecords(filters, { limit: pageSize, offset: (page - 1) * pageSize })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ records: result.data.rows, total: result.data.total, page, pageSize })
+  } catch (error) {
+    console.error("[API] Error fetching consent records:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
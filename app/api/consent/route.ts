@@ -0,0 +1,88 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getCurrentConsentText, recordConsents } from "@/lib/db/queries"
+import { acceptConsentSchema } from "@/lib/schemas/consent"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Consent text in force, shown on the registration form (public)
+export async function GET() {
+  try {
+    const result = await getCurrentConsentText()
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+    if (!result.data) {
+      return NextResponse.json({ error: "Aucun texte de consentement publié" }, { status: 404 })
+    }
+
+    const { createdBy, ...text } = result.data
+    return NextResponse.json({ text })
+  } catch (error) {
+    console.error("[API] Error fetching consent text:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+// Accept the text in force after it changed
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser({ allowPendingConsent: true })
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = acceptConsentSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const current = await getCurrentConsentText()
+    if ("error" in current) {
+      return NextResponse.json({ error: current.error }, { status: 500 })
+    }
+    // Only the version in force can be accepted
+    if (!current.data || current.data.id !== validation.data.consentTextId) {
+      return NextResponse.json(
+        { error: "Le texte de consentement a changé. Rechargez la page pour lire la nouvelle version." },
+        { status: 409 }
+      )
+    }
+
+    const context = getAuditContext(request, user)
+    const result = await recordConsents({
+      userIds: [Number(user.id)],
+      consentTextId: current.data.id,
+      source: "re_consent",
+      ipAddress: context.ipAddress,
+    })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    const [consent] = result.data
+    if (consent) {
+      await recordAudit({
+        ...context,
+        action: "consent.accept",
+        targetType: "consent",
+        targetId: consent.id,
+        after: { version: current.data.version, source: consent.source },
+      })
+    }
+
+    return NextResponse.json({ message: "Consentement enregistré" })
+  } catch (error) {
+    console.error("[API] Error recording consent:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,87 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { countUsersWithoutConsent, getConsentTexts, publishConsentText } from "@/lib/db/queries"
+import { consentTextSchema } from "@/lib/schemas/consent"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Every version of the consent text, with how many users still have to accept the current one
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const result = await getConsentTexts()
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    const current = result.data[0]
+    let pendingCount = 0
+    if (current) {
+      const pending = await countUsersWithoutConsent(current.id)
+      if ("error" in pending) {
+        return NextResponse.json({ error: pending.error }, { status: 500 })
+      }
+      pendingCount = pending.data
+    }
+
+    return NextResponse.json({ texts: result.data, pendingCount })
+  } catch (error) {
+    console.error("[API] Error fetching consent texts:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+// Publish a new version; every user is asked to accept it at their next visit
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = consentTextSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const result = await publishConsentText({ ...validation.data, createdBy: Number(user.id) })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "consent_text.publish",
+      targetType: "consent_text",
+      targetId: result.data.id,
+      after: result.data,
+    })
+
+    return NextResponse.json(
+      { message: `Version ${result.data.version} publiée`, text: result.data },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("[API] Error publishing consent text:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,204 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import {
+  createFinalProject,
+  deleteFinalProject,
+  getFinalProjectByCourse,
+  getProjectSubmissionsByProject,
+  getRubricByProject,
+  getStudentSubmissionsForProject,
+  updateFinalProject,
+} from "@/lib/db/queries"
+import { courseIdSchema } from "@/lib/schemas/course"
+import { finalProjectSchema } from "@/lib/schemas/project"
+import { getCourseProjectAccess, parseRubricCriteria } from "@/lib/projects"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = courseIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de cours invalide" }, { status: 400 })
+    }
+
+    const access = await getCourseProjectAccess(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    const projectResult = await getFinalProjectByCourse(access.courseId)
+    if ("error" in projectResult) {
+      return NextResponse.json({ error: projectResult.error }, { status: 500 })
+    }
+    const project = projectResult.data
+    if (!project) {
+      return NextResponse.json({ project: null, rubric: null, canManage: access.canManage })
+    }
+
+    // Students see the rubric up front, so they know how they will be graded
+    const rubricResult = await getRubricByProject(project.id)
+    if ("error" in rubricResult) {
+      return NextResponse.json({ error: rubricResult.error }, { status: 500 })
+    }
+    const rubric = rubricResult.data
+      ? { ...rubricResult.data, criteria: parseRubricCriteria(rubricResult.data.criteria) }
+      : null
+
+    if (access.canManage) {
+      return NextResponse.json({ project, rubric, canManage: true })
+    }
+
+    // Students get their own submissions, latest first, with the reviews
+    const submissionsResult = await getStudentSubmissionsForProject(Number(user.id), project.id)
+    if ("error" in submissionsResult) {
+      return NextResponse.json({ error: submissionsResult.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ project, rubric, canManage: false, submissions: submissionsResult.data })
+  } catch (error) {
+    console.error("[API] Error fetching final project:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+// Define the final project of the course, or update it
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = courseIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de cours invalide" }, { status: 400 })
+    }
+
+    const access = await getCourseProjectAccess(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+    if (!access.canManage) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = finalProjectSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const existing = await getFinalProjectByCourse(access.courseId)
+    if ("error" in existing) {
+      return NextResponse.json({ error: existing.error }, { status: 500 })
+    }
+
+    const result = existing.data
+      ? await updateFinalProject(existing.data.id, validation.data)
+      : await createFinalProject({ courseId: access.courseId, ...validation.data })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: existing.data ? "final_project.update" : "final_project.create",
+      targetType: "final_project",
+      targetId: result.data?.id,
+      before: existing.data,
+      after: result.data,
+    })
+
+    return NextResponse.json(
+      { message: existing.data ? "Projet final mis à jour" : "Projet final créé", project: result.data },
+      { status: existing.data ? 200 : 201 }
+    )
+  } catch (error) {
+    console.error("[API] Error saving final project:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = courseIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de cours invalide" }, { status: 400 })
+    }
+
+    const access = await getCourseProjectAccess(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+    if (!access.canManage) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const projectResult = await getFinalProjectByCourse(access.courseId)
+    if ("error" in projectResult) {
+      return NextResponse.json({ error: projectResult.error }, { status: 500 })
+    }
+    const project = projectResult.data
+    if (!project) {
+      return NextResponse.json({ error: "Projet introuvable" }, { status: 404 })
+    }
+
+    // Submitted work is kept: a project with submissions can only be edited
+    const submissionsResult = await getProjectSubmissionsByProject(project.id)
+    if ("error" in submissionsResult) {
+      return NextResponse.json({ error: submissionsResult.error }, { status: 500 })
+    }
+    if (submissionsResult.data && submissionsResult.data.length > 0) {
+      return NextResponse.json(
+        { error: "Ce projet a déjà reçu des rendus et ne peut plus être supprimé" },
+        { status: 409 }
+      )
+    }
+
+    const result = await deleteFinalProject(project.id)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "final_project.delete",
+      targetType: "final_project",
+      targetId: project.id,
+      before: project,
+    })
+
+    return NextResponse.json({ message: "Projet final supprimé" })
+  } catch (error) {
+    console.error("[API] Error deleting final project:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
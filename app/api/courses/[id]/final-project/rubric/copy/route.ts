@@ -0,0 +1,86 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getRubricByProject, saveRubric } from "@/lib/db/queries"
+import { courseIdSchema } from "@/lib/schemas/course"
+import { copyRubricSchema } from "@/lib/schemas/rubric"
+import { getManagedFinalProject, parseRubricCriteria } from "@/lib/projects"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Copy the rubric of another course's final project onto this course's one,
+// replacing any rubric it had. Both courses must be managed by the caller.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = courseIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de cours invalide" }, { status: 400 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = copyRubricSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+    if (validation.data.sourceCourseId === paramValidation.data.id) {
+      return NextResponse.json({ error: "Choisissez un autre cours" }, { status: 400 })
+    }
+
+    const target = await getManagedFinalProject(user, paramValidation.data.id)
+    if (!target.allowed) {
+      return NextResponse.json({ error: target.error }, { status: target.status })
+    }
+
+    const source = await getManagedFinalProject(user, validation.data.sourceCourseId)
+    if (!source.allowed) {
+      return NextResponse.json({ error: source.error }, { status: source.status })
+    }
+
+    const sourceRubric = await getRubricByProject(source.project.id)
+    if ("error" in sourceRubric) {
+      return NextResponse.json({ error: sourceRubric.error }, { status: 500 })
+    }
+    if (!sourceRubric.data) {
+      return NextResponse.json({ error: "Ce cours n'a pas de grille d'évaluation" }, { status: 404 })
+    }
+
+    const result = await saveRubric(target.project.id, {
+      title: sourceRubric.data.title,
+      criteria: parseRubricCriteria(sourceRubric.data.criteria),
+    })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "rubric.copy",
+      targetType: "rubric",
+      targetId: result.data.id,
+      after: { ...result.data, sourceCourseId: validation.data.sourceCourseId },
+    })
+
+    return NextResponse.json(
+      { message: "Grille d'évaluation copiée", rubric: result.data },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("[API] Error copying rubric:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
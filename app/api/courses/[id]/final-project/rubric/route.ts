@@ -0,0 +1,108 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser, type AuthUser } from "@/lib/auth/auth"
+import { deleteRubric, getRubricByProject, saveRubric } from "@/lib/db/queries"
+import { courseIdSchema } from "@/lib/schemas/course"
+import { rubricSchema } from "@/lib/schemas/rubric"
+import { getManagedFinalProject } from "@/lib/projects"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Validate the route param and load the course's final project for a manager
+async function loadManagedProject(user: AuthUser, rawId: string) {
+  const paramValidation = courseIdSchema.safeParse({ id: rawId })
+  if (!paramValidation.success) {
+    return { allowed: false as const, status: 400, error: "ID de cours invalide" }
+  }
+  return getManagedFinalProject(user, paramValidation.data.id)
+}
+
+// Create or replace the rubric of the course's final project. Submissions
+// already graded keep the rubric they were graded with.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const loaded = await loadManagedProject(user, params.id)
+    if (!loaded.allowed) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = rubricSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const previous = await getRubricByProject(loaded.project.id)
+    const result = await saveRubric(loaded.project.id, validation.data)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "rubric.save",
+      targetType: "rubric",
+      targetId: result.data.id,
+      before: "error" in previous ? null : previous.data,
+      after: result.data,
+    })
+
+    return NextResponse.json({ message: "Grille d'évaluation enregistrée", rubric: result.data })
+  } catch (error) {
+    console.error("[API] Error saving rubric:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const loaded = await loadManagedProject(user, params.id)
+    if (!loaded.allowed) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    const result = await deleteRubric(loaded.project.id)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+    if (!result.data) {
+      return NextResponse.json({ error: "Grille introuvable" }, { status: 404 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "rubric.delete",
+      targetType: "rubric",
+      targetId: result.data.id,
+      before: result.data,
+    })
+
+    return NextResponse.json({ message: "Grille d'évaluation supprimée" })
+  } catch (error) {
+    console.error("[API] Error deleting rubric:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getCourseById, reviewCourse } from "@/lib/db/queries"
+import { courseIdSchema, reviewCourseSchema } from "@/lib/schemas/course"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user || user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = courseIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de cours invalide" }, { status: 400 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = reviewCourseSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const courseId = paramValidation.data.id
+    const courseResult = await getCourseById(courseId)
+    if (!courseResult.success || !courseResult.data) {
+      return NextResponse.json({ error: "Cours introuvable" }, { status: 404 })
+    }
+
+    if (courseResult.data.status !== "submitted") {
+      return NextResponse.json(
+        { error: "Ce cours n'est pas en attente de validation" },
+        { status: 409 }
+      )
+    }
+
+    const result = await reviewCourse(courseId, {
+      decision: validation.data.decision,
+      reviewerId: Number(user.id),
+      rejectionReason:
+        validation.data.decision === "rejected" ? validation.data.rejectionReason : null,
+    })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: validation.data.decision === "validated" ? "course.validate" : "course.reject",
+      targetType: "course",
+      targetId: courseId,
+      before: courseResult.data,
+      after: result.data,
+    })
+
+    return NextResponse.json(
+      {
+        message:
+          validation.data.decision === "validated" ? "Cours validé" : "Cours refusé",
+        course: result.data,
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error("[API] Error reviewing course:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getChaptersByCourseId, getCourseById, getCourseWithDetails, getDomainById, updateCourse, validateTeacherAssignment } from "@/lib/db/queries"
+import { courseIdSchema, updateCourseSchema } from "@/lib/schemas/course"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = courseIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de cours invalide" }, { status: 400 })
+    }
+
+    const result = await getCourseWithDetails(paramValidation.data.id)
+    if (!result.success) {
+      const errorMsg = "error" in result ? result.error : "Erreur lors de la récupération du cours"
+      return NextResponse.json({ error: errorMsg }, { status: 500 })
+    }
+
+    const course = result.data
+    if (!course) {
+      return NextResponse.json({ error: "Cours introuvable" }, { status: 404 })
+    }
+
+    // Trainers can only read their own courses, students only validated ones
+    if (user.role === "TRAINER" && course.teacherId !== Number(user.id)) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+    if (user.role === "STUDENT" && course.status !== "validated") {
+      return NextResponse.json({ error: "Cours introuvable" }, { status: 404 })
+    }
+
+    const chaptersResult = await getChaptersByCourseId(course.id)
+    const chapters = chaptersResult.success ? chaptersResult.data : []
+
+    return NextResponse.json({ course, chapters }, { status: 200 })
+  } catch (error) {
+    console.error("[API] Error fetching course:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    if (user.role !== "TRAINER" && user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = courseIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de cours invalide" }, { status: 400 })
+    }
+
+    const courseId = paramValidation.data.id
+    const existing = await getCourseById(courseId)
+    if (!existing.success || !existing.data) {
+      return NextResponse.json({ error: "Cours introuvable" }, { status: 404 })
+    }
+
+    // Trainers edit their own courses and cannot hand them to someone else
+    if (user.role === "TRAINER" && existing.data.teacherId !== Number(user.id)) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = updateCourseSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const data = validation.data
+    if (user.role === "TRAINER" && data.teacherId !== undefined && data.teacherId !== existing.data.teacherId) {
+      return NextResponse.json({ error: "Seul un administrateur peut changer le formateur" }, { status: 403 })
+    }
+    if (data.teacherId) {
+      const teacher = await validateTeacherAssignment(data.teacherId)
+      if (!teacher.success || !teacher.data) {
+        return NextResponse.json({ error: "Formateur introuvable" }, { status: 400 })
+      }
+    }
+    if (data.domainId !== undefined) {
+      const domain = await getDomainById(data.domainId)
+      if (!domain.success || !domain.data) {
+        return NextResponse.json({ error: "Domaine introuvable" }, { status: 400 })
+      }
+    }
+
+    const result = await updateCourse(courseId, data)
+    if (!result.success || !result.data) {
+      return NextResponse.json({ error: "Erreur lors de la mise à jour du cours" }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "course.update",
+      targetType: "course",
+      targetId: courseId,
+      before: existing.data,
+      after: result.data,
+    })
+
+    return NextResponse.json({ message: "Cours mis à jour", course: result.data })
+  } catch (error) {
+    console.error("[API] Error updating course:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getCourseById, submitCourseForReview } from "@/lib/db/queries"
+import { courseIdSchema } from "@/lib/schemas/course"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    if (user.role !== "TRAINER" && user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = courseIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de cours invalide" }, { status: 400 })
+    }
+
+    const courseId = paramValidation.data.id
+    const courseResult = await getCourseById(courseId)
+    if (!courseResult.success || !courseResult.data) {
+      return NextResponse.json({ error: "Cours introuvable" }, { status: 404 })
+    }
+
+    // Trainers may only submit the courses they teach
+    if (user.role === "TRAINER" && courseResult.data.teacherId !== Number(user.id)) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    if (courseResult.data.status !== "draft" && courseResult.data.status !== "rejected") {
+      return NextResponse.json(
+        { error: "Seuls les cours en brouillon ou refusés peuvent être soumis" },
+        { status: 409 }
+      )
+    }
+
+    const result = await submitCourseForReview(courseId)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "course.submit",
+      targetType: "course",
+      targetId: courseId,
+      before: courseResult.data,
+      after: result.data,
+    })
+
+    return NextResponse.json(
+      { message: "Cours soumis pour validation", course: result.data },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error("[API] Error submitting course:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
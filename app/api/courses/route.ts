@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { getCurrentUser } from "@/lib/auth/auth"
-import { getAllCourses } from "@/lib/db/queries"
+import { getAllCourses, getCoursesByStatus, getValidatedCourses } from "@/lib/db/queries"
+import { courseStatusSchema } from "@/lib/schemas/course"
 
 export async function GET(request: NextRequest) {
   try {
@@ -9,8 +10,26 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
     }
 
-    // Get all courses
-    const result = await getAllCourses()
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get("status")
+
+    // Admin review queue: filter courses by validation status
+    if (status && user.role === "ADMIN") {
+      const parsedStatus = courseStatusSchema.safeParse(status)
+      if (!parsedStatus.success) {
+        return NextResponse.json({ error: "Statut invalide" }, { status: 400 })
+      }
+
+      const result = await getCoursesByStatus(parsedStatus.data)
+      if (!result.success) {
+        const errorMsg = "error" in result ? result.error : "Erreur lors de la récupération des cours"
+        return NextResponse.json({ error: errorMsg }, { status: 500 })
+      }
+      return NextResponse.json({ courses: result.data }, { status: 200 })
+    }
+
+    // Students only ever see validated courses
+    const result = user.role === "STUDENT" ? await getValidatedCourses() : await getAllCourses()
 
     if (!result.success) {
       const errorMsg = !result.success && "error" in result ? result.error : "Erreur lors de la récupération des cours"
@@ -8,6 +8,7 @@ import {
   domainNameExists,
 } from "@/lib/db/queries"
 import { updateDomainSchema, domainIdSchema } from "@/lib/schemas/domain"
+import { getAuditContext, recordAudit } from "@/lib/audit"
 
 export async function PUT(
   request: NextRequest,
@@ -65,6 +66,15 @@ export async function PUT(
       return NextResponse.json({ error: result.error }, { status: 500 })
     }
 
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "domain.update",
+      targetType: "domain",
+      targetId: domainId,
+      before: existingDomain.data,
+      after: result.data,
+    })
+
     return NextResponse.json({
       message: "Domain updated successfully",
       domain: result.data,
@@ -116,6 +126,14 @@ export async function DELETE(
       return NextResponse.json({ error: result.error }, { status: 500 })
     }
 
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "domain.delete",
+      targetType: "domain",
+      targetId: domainId,
+      before: existingDomain.data,
+    })
+
     return NextResponse.json({
       message: "Domain deleted successfully",
     })
@@ -2,6 +2,7 @@ import { type NextRequest, NextResponse } from "next/server"
 import { getCurrentUser } from "@/lib/auth/auth"
 import { getDomainsWithCounts, createDomain, domainNameExists } from "@/lib/db/queries"
 import { createDomainSchema } from "@/lib/schemas/domain"
+import { getAuditContext, recordAudit } from "@/lib/audit"
 
 export async function GET() {
   try {
@@ -62,6 +63,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: result.error }, { status: 500 })
     }
 
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "domain.create",
+      targetType: "domain",
+      targetId: result.data.id,
+      after: result.data,
+    })
+
     return NextResponse.json(
       {
         message: "Domain created successfully",
@@ -3,6 +3,9 @@ import { getCurrentUser } from "@/lib/auth/auth"
 import { db } from "@/lib/db"
 import { enrollments } from "@/drizzle/schema"
 import { eq } from "drizzle-orm"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+import { getCertificateByEnrollmentId, getEnrollmentById } from "@/lib/db/queries"
+import { getManagedStudent } from "@/lib/schools"
 
 export async function DELETE(
   request: NextRequest,
@@ -20,7 +23,46 @@ export async function DELETE(
     }
 
     const { id } = params
-    await db.delete(enrollments).where(eq(enrollments.id, Number(id)))
+
+    const enrollmentResult = await getEnrollmentById(Number(id))
+    if (!enrollmentResult.success || !enrollmentResult.data) {
+      return NextResponse.json({ error: "Inscription introuvable" }, { status: 404 })
+    }
+
+    // Sub-admins only remove enrollments of the students of their schools
+    if (user.role === "SUB_ADMIN") {
+      if (!enrollmentResult.data.studentId) {
+        return NextResponse.json({ error: "Inscription introuvable" }, { status: 404 })
+      }
+      const access = await getManagedStudent(user, enrollmentResult.data.studentId)
+      if (!access.allowed) {
+        return NextResponse.json({ error: access.error }, { status: access.status })
+      }
+    }
+
+    // A certificate must stay verifiable, so its enrollment is kept
+    const certificateResult = await getCertificateByEnrollmentId(Number(id))
+    if (!certificateResult.success) {
+      return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+    }
+    if (certificateResult.data) {
+      return NextResponse.json(
+        { error: "Impossible de supprimer une inscription pour laquelle un certificat a été délivré" },
+        { status: 409 }
+      )
+    }
+
+    const [deleted] = await db.delete(enrollments).where(eq(enrollments.id, Number(id))).returning()
+
+    if (deleted) {
+      await recordAudit({
+        ...getAuditContext(request, user),
+        action: "enrollment.delete",
+        targetType: "enrollment",
+        targetId: deleted.id,
+        before: deleted,
+      })
+    }
 
     return NextResponse.json({ success: true }, { status: 200 })
   } catch (error) {
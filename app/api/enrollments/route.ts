@@ -6,6 +6,8 @@ import {
   getEnrollmentsByCourseId,
   getCourseById 
 } from "@/lib/db/queries"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+import { getManagedStudent, getSchoolScope } from "@/lib/schools"
 
 export async function GET(request: NextRequest) {
   try {
@@ -19,6 +21,17 @@ export async function GET(request: NextRequest) {
     const courseId = searchParams.get("courseId")
 
     if (studentId) {
+      // Students read their own enrollments, sub-admins those of their schools
+      if (user.role === "STUDENT" && Number(studentId) !== Number(user.id)) {
+        return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+      }
+      if (user.role === "SUB_ADMIN") {
+        const access = await getManagedStudent(user, Number(studentId))
+        if (!access.allowed) {
+          return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+      }
+
       const result = await getEnrollmentsByStudentId(Number(studentId))
       if (!result.success) {
         const errorMsg = !result.success && "error" in result ? result.error : "Erreur lors de la récupération des inscriptions"
@@ -28,7 +41,16 @@ export async function GET(request: NextRequest) {
     }
 
     if (courseId) {
-      const result = await getEnrollmentsByCourseId(Number(courseId))
+      let schoolIds: number[] | undefined
+      if (user.role === "SUB_ADMIN") {
+        const scope = await getSchoolScope(user)
+        if (!scope.allowed) {
+          return NextResponse.json({ error: scope.error }, { status: scope.status })
+        }
+        schoolIds = scope.schoolIds ?? undefined
+      }
+
+      const result = await getEnrollmentsByCourseId(Number(courseId), schoolIds)
       if (!result.success) {
         const errorMsg = !result.success && "error" in result ? result.error : "Erreur lors de la récupération des inscriptions"
         return NextResponse.json({ error: errorMsg }, { status: 500 })
@@ -57,6 +79,17 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json()
     const { studentId, courseId, courseIds } = body
+    if (!studentId) {
+      return NextResponse.json({ error: "studentId requis" }, { status: 400 })
+    }
+
+    // Sub-admins only enroll the students of their own schools
+    if (user.role === "SUB_ADMIN") {
+      const access = await getManagedStudent(user, Number(studentId))
+      if (!access.allowed) {
+        return NextResponse.json({ error: access.error }, { status: access.status })
+      }
+    }
 
     // Support both single and multiple course enrollments
     if (courseIds && Array.isArray(courseIds)) {
@@ -70,6 +103,9 @@ export async function POST(request: NextRequest) {
         if (!courseResult.data.isActive) {
           continue // Skip inactive courses
         }
+        if (courseResult.data.status !== "validated") {
+          continue // Skip courses not yet validated by an admin
+        }
         
         const result = await createEnrollment({
           studentId: Number(studentId),
@@ -77,6 +113,13 @@ export async function POST(request: NextRequest) {
         })
         if (result.success) {
           enrollments.push(result.data)
+          await recordAudit({
+            ...getAuditContext(request, user),
+            action: "enrollment.create",
+            targetType: "enrollment",
+            targetId: result.data?.id,
+            after: result.data,
+          })
         }
       }
       return NextResponse.json({ enrollments }, { status: 201 })
@@ -94,6 +137,9 @@ export async function POST(request: NextRequest) {
     if (!courseResult.data.isActive) {
       return NextResponse.json({ error: "Impossible d'inscrire à un cours inactif" }, { status: 400 })
     }
+    if (courseResult.data.status !== "validated") {
+      return NextResponse.json({ error: "Impossible d'inscrire à un cours non validé" }, { status: 400 })
+    }
 
     const result = await createEnrollment({
       studentId: Number(studentId),
@@ -105,6 +151,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: errorMsg }, { status: 500 })
     }
 
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "enrollment.create",
+      targetType: "enrollment",
+      targetId: result.data?.id,
+      after: result.data,
+    })
+
     return NextResponse.json({ enrollment: result.data }, { status: 201 })
   } catch (error) {
     console.error("[API] Error creating enrollment:", error)
@@ -0,0 +1,121 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import {
+  createNotification,
+  createProjectSubmission,
+  getFinalProjectById,
+  getStudentSubmissionForProject,
+} from "@/lib/db/queries"
+import { createProjectSubmissionSchema, finalProjectIdSchema, PROJECT_UPLOADS_PATH } from "@/lib/schemas/project"
+import { getCourseProjectAccess } from "@/lib/projects"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Why a new submission is refused, from the status of the latest one
+const blockedStatusMessages = {
+  submitted: "Votre rendu est en cours d'évaluation",
+  approved: "Votre projet a déjà été validé",
+  rejected: "Votre projet a été refusé",
+} as const
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    if (user.role !== "STUDENT") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = finalProjectIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de projet invalide" }, { status: 400 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = createProjectSubmissionSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    // Students may only attach files they uploaded themselves
+    const ownPrefix = `${PROJECT_UPLOADS_PATH}project-${user.id}-`
+    if (validation.data.files.some((file) => !file.url.startsWith(ownPrefix))) {
+      return NextResponse.json({ error: "Fichier joint invalide" }, { status: 400 })
+    }
+
+    const projectResult = await getFinalProjectById(paramValidation.data.id)
+    if ("error" in projectResult) {
+      return NextResponse.json({ error: projectResult.error }, { status: 500 })
+    }
+    const project = projectResult.data
+    if (!project || project.courseId === null) {
+      return NextResponse.json({ error: "Projet introuvable" }, { status: 404 })
+    }
+
+    const access = await getCourseProjectAccess(user, project.courseId)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    // A new submission is only accepted first, or after a request for changes
+    const studentId = Number(user.id)
+    const latestResult = await getStudentSubmissionForProject(studentId, project.id)
+    if ("error" in latestResult) {
+      return NextResponse.json({ error: latestResult.error }, { status: 500 })
+    }
+    const latest = latestResult.data
+    if (latest && latest.status !== "needs_revision") {
+      return NextResponse.json({ error: blockedStatusMessages[latest.status] }, { status: 409 })
+    }
+
+    const result = await createProjectSubmission({
+      studentId,
+      finalProjectId: project.id,
+      submissionUrl: validation.data.submissionUrl || null,
+      description: validation.data.description,
+      files: validation.data.files,
+    })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "project_submission.create",
+      targetType: "project_submission",
+      targetId: result.data.id,
+      after: result.data,
+    })
+
+    if (access.teacherId) {
+      await createNotification({
+        userId: access.teacherId,
+        title: latest ? "Projet final corrigé" : "Nouveau projet final",
+        message: `${user.name} a rendu le projet « ${project.title} ».`,
+        link: "/formateur/projets",
+      })
+    }
+
+    return NextResponse.json(
+      { message: "Projet envoyé pour évaluation", submission: result.data },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("[API] Error submitting final project:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,118 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { deleteGroup, groupHasClassSessions, groupNameExists, updateGroup } from "@/lib/db/queries"
+import { groupIdSchema, groupSchema } from "@/lib/schemas/school"
+import { getManagedGroup } from "@/lib/schools"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = groupIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de groupe invalide" }, { status: 400 })
+    }
+
+    const access = await getManagedGroup(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = groupSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const nameCheck = await groupNameExists(access.group.schoolId, validation.data.name, access.group.id)
+    if (nameCheck.success && nameCheck.data) {
+      return NextResponse.json({ error: "Un groupe porte déjà ce nom dans cet établissement" }, { status: 409 })
+    }
+
+    const result = await updateGroup(access.group.id, validation.data)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "group.update",
+      targetType: "group",
+      targetId: access.group.id,
+      before: access.group,
+      after: result.data,
+    })
+
+    return NextResponse.json({ message: "Groupe mis à jour", group: result.data })
+  } catch (error) {
+    console.error("[API] Error updating group:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = groupIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de groupe invalide" }, { status: 400 })
+    }
+
+    const access = await getManagedGroup(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    const hasSessions = await groupHasClassSessions(access.group.id)
+    if ("error" in hasSessions) {
+      return NextResponse.json({ error: hasSessions.error }, { status: 500 })
+    }
+    if (hasSessions.data) {
+      return NextResponse.json(
+        { error: "Ce groupe a des séances avec un historique de présences et ne peut plus être supprimé" },
+        { status: 409 }
+      )
+    }
+
+    const result = await deleteGroup(access.group.id)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "group.delete",
+      targetType: "group",
+      targetId: access.group.id,
+      before: access.group,
+    })
+
+    return NextResponse.json({ message: "Groupe supprimé" })
+  } catch (error) {
+    console.error("[API] Error deleting group:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
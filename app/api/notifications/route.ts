@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getNotificationsByUser, markNotificationsRead } from "@/lib/db/queries"
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const result = await getNotificationsByUser(Number(user.id))
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ notifications: result.data })
+  } catch (error) {
+    console.error("[API] Error fetching notifications:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+// Mark every notification of the current user as read
+export async function PATCH() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const result = await markNotificationsRead(Number(user.id))
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("[API] Error updating notifications:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
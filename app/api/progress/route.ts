@@ -1,45 +1,74 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { getSession } from "@/lib/auth/auth"
+import { getCurrentUser } from "@/lib/auth/auth"
+import {
+  getChapterById,
+  getCourseById,
+  getCourseProgressSummary,
+  getEnrollmentByStudentAndCourse,
+  markChapterComplete,
+  unmarkChapterComplete,
+} from "@/lib/db/queries"
+import { progressQuerySchema, updateProgressSchema } from "@/lib/schemas/progress"
+import { issueCertificateIfEligible } from "@/lib/certificates"
+import { isChapterUnlocked } from "@/lib/quizzes"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+import { getManagedStudent } from "@/lib/schools"
 
 export async function GET(request: NextRequest) {
   try {
-    const token = request.cookies.get("auth-token")?.value
-    if (!token) {
+    const user = await getCurrentUser()
+    if (!user) {
       return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
     }
 
-    const user = getSession(token)
-    if (!user) {
-      return NextResponse.json({ error: "Token invalide" }, { status: 401 })
+    const { searchParams } = new URL(request.url)
+    const validation = progressQuerySchema.safeParse({
+      courseId: searchParams.get("courseId") ?? undefined,
+      studentId: searchParams.get("studentId") ?? undefined,
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Paramètres invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
     }
 
-    const { searchParams } = new URL(request.url)
-    const courseId = searchParams.get("courseId")
-    const studentId = searchParams.get("studentId")
-
-    // Mock data - replace with real database queries
-    const progressData = {
-      courseId: courseId || "1",
-      studentId: studentId || user.id,
-      overallProgress: 65,
-      chaptersCompleted: 4,
-      totalChapters: 8,
-      quizzesPassed: 3,
-      totalQuizzes: 6,
-      averageQuizScore: 78,
-      timeSpent: 240, // minutes
-      lastActivity: new Date().toISOString(),
-      chapterProgress: [
-        { chapterId: "1", title: "Introduction", completed: true, score: 85, timeSpent: 30 },
-        { chapterId: "2", title: "Concepts de base", completed: true, score: 92, timeSpent: 45 },
-        { chapterId: "3", title: "Pratique", completed: true, score: 76, timeSpent: 60 },
-        { chapterId: "4", title: "Avancé", completed: true, score: 68, timeSpent: 55 },
-        { chapterId: "5", title: "Projet", completed: false, score: null, timeSpent: 25 },
-        { chapterId: "6", title: "Tests", completed: false, score: null, timeSpent: 0 },
-      ],
-    }
-
-    return NextResponse.json(progressData)
+    const { courseId } = validation.data
+    const currentUserId = Number(user.id)
+    const studentId = validation.data.studentId ?? currentUserId
+
+    const courseResult = await getCourseById(courseId)
+    if (!courseResult.success || !courseResult.data) {
+      return NextResponse.json({ error: "Cours introuvable" }, { status: 404 })
+    }
+
+    // Students read only their own data, trainers only their own courses,
+    // sub-admins only the students of their schools
+    if (user.role === "STUDENT" && studentId !== currentUserId) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+    if (user.role === "TRAINER" && courseResult.data.teacherId !== currentUserId) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+    if (user.role === "SUB_ADMIN") {
+      const access = await getManagedStudent(user, studentId)
+      if (!access.allowed) {
+        return NextResponse.json({ error: access.error }, { status: access.status })
+      }
+    }
+
+    const enrollmentResult = await getEnrollmentByStudentAndCourse(studentId, courseId)
+    if (!enrollmentResult.success || !enrollmentResult.data) {
+      return NextResponse.json({ error: "Inscription introuvable" }, { status: 404 })
+    }
+
+    const result = await getCourseProgressSummary(studentId, courseId)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json(result.data)
   } catch (error) {
     console.error("Error fetching progress:", error)
     return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
@@ -48,33 +77,93 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const token = request.cookies.get("auth-token")?.value
-    if (!token) {
+    const user = await getCurrentUser()
+    if (!user) {
       return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
     }
 
-    const user = getSession(token)
-    if (!user) {
-      return NextResponse.json({ error: "Token invalide" }, { status: 401 })
+    // Only students record their own progress
+    if (user.role !== "STUDENT") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
     }
 
-    const body = await request.json()
-    const { courseId, chapterId, action, score, timeSpent } = body
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
 
-    // Here you would update the progress in the database
-    console.log("Updating progress:", { userId: user.id, courseId, chapterId, action, score, timeSpent })
+    const validation = updateProgressSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { courseId, chapterId, action } = validation.data
+    const studentId = Number(user.id)
+
+    const chapterResult = await getChapterById(chapterId)
+    if (!chapterResult.success || !chapterResult.data || chapterResult.data.courseId !== courseId) {
+      return NextResponse.json({ error: "Chapitre introuvable" }, { status: 404 })
+    }
+
+    const enrollmentResult = await getEnrollmentByStudentAndCourse(studentId, courseId)
+    if (!enrollmentResult.success || !enrollmentResult.data) {
+      return NextResponse.json({ error: "Vous n'êtes pas inscrit à ce cours" }, { status: 403 })
+    }
+
+    const courseResult = await getCourseById(courseId)
+    if (!courseResult.success || !courseResult.data || courseResult.data.status !== "validated") {
+      return NextResponse.json({ error: "Ce cours n'est pas disponible" }, { status: 403 })
+    }
+
+    if (action === "complete" && !(await isChapterUnlocked(studentId, courseId, chapterId))) {
+      return NextResponse.json({ error: "Ce chapitre est encore verrouillé" }, { status: 403 })
+    }
+
+    const result =
+      action === "complete"
+        ? await markChapterComplete(studentId, chapterId)
+        : await unmarkChapterComplete(studentId, chapterId)
+
+    if (!result.success) {
+      const errorMsg = "error" in result ? result.error : "Erreur lors de la mise à jour de la progression"
+      return NextResponse.json({ error: errorMsg }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: action === "complete" ? "progress.complete" : "progress.uncomplete",
+      targetType: "chapter",
+      targetId: chapterId,
+      after: { courseId, chapterId, completed: action === "complete" },
+    })
+
+    const summaryResult = await getCourseProgressSummary(studentId, courseId)
+    if (!summaryResult.success) {
+      return NextResponse.json({ error: summaryResult.error }, { status: 500 })
+    }
+
+    // Completing the last chapter may unlock the course certificate
+    let certificate = null
+    const { chaptersCompleted, totalChapters } = summaryResult.data
+    if (action === "complete" && totalChapters > 0 && chaptersCompleted === totalChapters) {
+      const certificateResult = await issueCertificateIfEligible(studentId, courseId)
+      if (certificateResult.success) {
+        certificate = certificateResult.data
+      } else {
+        console.error("Error issuing certificate:", certificateResult.error)
+      }
+    }
 
-    // Mock response
     return NextResponse.json({
       success: true,
       message: "Progression mise à jour",
-      progress: {
-        chapterId,
-        completed: action === "complete",
-        score,
-        timeSpent,
-        updatedAt: new Date().toISOString(),
-      },
+      progress: summaryResult.data,
+      certificate,
     })
   } catch (error) {
     console.error("Error updating progress:", error)
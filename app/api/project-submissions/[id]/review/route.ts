@@ -0,0 +1,140 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import {
+  createNotification,
+  getProjectSubmissionForReview,
+  getRubricByProject,
+  reviewProjectSubmission,
+} from "@/lib/db/queries"
+import { projectSubmissionIdSchema, reviewProjectSubmissionSchema } from "@/lib/schemas/project"
+import { issueCertificateIfEligible } from "@/lib/certificates"
+import { evaluateRubric, parseRubricCriteria, type RubricEvaluation } from "@/lib/projects"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+const decisionMessages = {
+  needs_revision: "des corrections sont demandées",
+  approved: "il a été validé",
+  rejected: "il a été refusé",
+} as const
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    if (user.role !== "TRAINER" && user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = projectSubmissionIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de rendu invalide" }, { status: 400 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = reviewProjectSubmissionSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const submissionResult = await getProjectSubmissionForReview(paramValidation.data.id)
+    if ("error" in submissionResult) {
+      return NextResponse.json({ error: submissionResult.error }, { status: 500 })
+    }
+    const submission = submissionResult.data
+    if (!submission) {
+      return NextResponse.json({ error: "Rendu introuvable" }, { status: 404 })
+    }
+
+    if (user.role === "TRAINER" && submission.teacherId !== Number(user.id)) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+    if (submission.status !== "submitted") {
+      return NextResponse.json({ error: "Ce rendu a déjà été évalué" }, { status: 409 })
+    }
+
+    const { status, feedback, rubricScores } = validation.data
+    let grade = validation.data.grade ?? null
+    let rubricEvaluation: RubricEvaluation | null = null
+
+    // With a rubric, the grade comes from the chosen levels and the filled
+    // rubric is kept on the submission
+    const rubricResult = await getRubricByProject(submission.finalProjectId)
+    if ("error" in rubricResult) {
+      return NextResponse.json({ error: rubricResult.error }, { status: 500 })
+    }
+    if (rubricResult.data) {
+      if (status === "approved" && !rubricScores) {
+        return NextResponse.json({ error: "Complétez la grille d'évaluation" }, { status: 400 })
+      }
+      if (rubricScores) {
+        const evaluated = evaluateRubric(
+          { title: rubricResult.data.title, criteria: parseRubricCriteria(rubricResult.data.criteria) },
+          rubricScores
+        )
+        if (!evaluated) {
+          return NextResponse.json({ error: "Grille d'évaluation incomplète ou invalide" }, { status: 400 })
+        }
+        grade = evaluated.grade
+        rubricEvaluation = evaluated.evaluation
+      }
+    } else if (status === "approved" && grade === null) {
+      return NextResponse.json({ error: "Une note est requise pour valider le projet" }, { status: 400 })
+    }
+
+    const result = await reviewProjectSubmission(submission.id, {
+      status,
+      grade,
+      feedback: feedback || null,
+      reviewerId: Number(user.id),
+      rubricEvaluation,
+    })
+    if (!result.success) {
+      const errorMsg = "error" in result ? result.error : "Erreur lors de l'évaluation"
+      return NextResponse.json({ error: errorMsg }, { status: 409 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "project_submission.review",
+      targetType: "project_submission",
+      targetId: submission.id,
+      before: { status: submission.status },
+      after: { status, grade, feedback: feedback || null },
+    })
+
+    await createNotification({
+      userId: submission.studentId,
+      title: "Projet final évalué",
+      message: `Votre projet « ${submission.projectTitle} » a été évalué : ${decisionMessages[status]}.`,
+      link: `/etudiant/course/${submission.courseId}`,
+    })
+
+    // An approved project may be the last step before the certificate
+    if (status === "approved") {
+      const certificateResult = await issueCertificateIfEligible(submission.studentId, submission.courseId)
+      if (!certificateResult.success) {
+        console.error("Error issuing certificate:", certificateResult.error)
+      }
+    }
+
+    return NextResponse.json({ message: "Évaluation publiée", submission: result.data })
+  } catch (error) {
+    console.error("[API] Error reviewing project submission:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
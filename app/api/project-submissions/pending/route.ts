@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getPendingProjectSubmissions, getRubricsByProjects } from "@/lib/db/queries"
+import { parseRubricCriteria } from "@/lib/projects"
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    // Trainers review their own courses, admins see every pending submission
+    if (user.role !== "TRAINER" && user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const result = await getPendingProjectSubmissions(user.role === "TRAINER" ? Number(user.id) : undefined)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    // Attach each project's rubric so the review form can be filled in place
+    const projectIds = Array.from(new Set(result.data.map((submission) => submission.finalProjectId)))
+    const rubricsResult = await getRubricsByProjects(projectIds)
+    if ("error" in rubricsResult) {
+      return NextResponse.json({ error: rubricsResult.error }, { status: 500 })
+    }
+    const rubricsByProject = new Map(
+      rubricsResult.data.map((rubric) => [
+        rubric.finalProjectId,
+        { id: rubric.id, title: rubric.title, criteria: parseRubricCriteria(rubric.criteria) },
+      ])
+    )
+
+    const submissions = result.data.map((submission) => ({
+      ...submission,
+      rubric: rubricsByProject.get(submission.finalProjectId) ?? null,
+    }))
+
+    return NextResponse.json({ submissions })
+  } catch (error) {
+    console.error("[API] Error fetching pending project submissions:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
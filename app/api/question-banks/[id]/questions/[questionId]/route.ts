@@ -0,0 +1,114 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser, type AuthUser } from "@/lib/auth/auth"
+import { deleteBankQuestion, getBankQuestionById, updateBankQuestion } from "@/lib/db/queries"
+import { bankQuestionIdSchema, updateBankQuestionSchema } from "@/lib/schemas/question-bank"
+import { getQuestionBankWithAccess } from "@/lib/quizzes"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+type RouteParams = { params: { id: string; questionId: string } }
+
+// Validate the params and check the caller manages the bank holding the question
+async function loadBankQuestionForManager(user: AuthUser, params: RouteParams["params"]) {
+  const paramValidation = bankQuestionIdSchema.safeParse(params)
+  if (!paramValidation.success) {
+    return { allowed: false as const, status: 400, error: "ID de question invalide" }
+  }
+
+  const access = await getQuestionBankWithAccess(user, paramValidation.data.id)
+  if (!access.allowed) {
+    return access
+  }
+  if (!access.canManage) {
+    return { allowed: false as const, status: 403, error: "Non autorisé" }
+  }
+
+  const questionResult = await getBankQuestionById(paramValidation.data.questionId)
+  if ("error" in questionResult) {
+    return { allowed: false as const, status: 500, error: "Erreur lors de la récupération de la question" }
+  }
+  if (!questionResult.data || questionResult.data.bankId !== access.bank.id) {
+    return { allowed: false as const, status: 404, error: "Question introuvable" }
+  }
+
+  return { allowed: true as const, question: questionResult.data }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const loaded = await loadBankQuestionForManager(user, params)
+    if (!loaded.allowed) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = updateBankQuestionSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateBankQuestion(loaded.question.id, validation.data)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "bank_question.update",
+      targetType: "bank_question",
+      targetId: loaded.question.id,
+      before: loaded.question,
+      after: result.data,
+    })
+
+    return NextResponse.json({ message: "Question mise à jour", question: result.data })
+  } catch (error) {
+    console.error("[API] Error updating bank question:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const loaded = await loadBankQuestionForManager(user, params)
+    if (!loaded.allowed) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    const result = await deleteBankQuestion(loaded.question.id)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "bank_question.delete",
+      targetType: "bank_question",
+      targetId: loaded.question.id,
+      before: loaded.question,
+    })
+
+    return NextResponse.json({ message: "Question supprimée" })
+  } catch (error) {
+    console.error("[API] Error deleting bank question:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
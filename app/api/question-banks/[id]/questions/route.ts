@@ -0,0 +1,67 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { createBankQuestion } from "@/lib/db/queries"
+import { bankQuestionSchema, questionBankIdSchema } from "@/lib/schemas/question-bank"
+import { getQuestionBankWithAccess } from "@/lib/quizzes"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = questionBankIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de banque invalide" }, { status: 400 })
+    }
+
+    const access = await getQuestionBankWithAccess(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+    if (!access.canManage) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = bankQuestionSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const result = await createBankQuestion({ bankId: access.bank.id, ...validation.data })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "bank_question.create",
+      targetType: "bank_question",
+      targetId: result.data.id,
+      after: result.data,
+    })
+
+    return NextResponse.json(
+      { message: "Question ajoutée à la banque", question: result.data },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("[API] Error creating bank question:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
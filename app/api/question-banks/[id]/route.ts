@@ -0,0 +1,160 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser, type AuthUser } from "@/lib/auth/auth"
+import {
+  deleteQuestionBank,
+  getBankQuestions,
+  questionBankInUse,
+  updateQuestionBank,
+} from "@/lib/db/queries"
+import { questionBankIdSchema, updateQuestionBankSchema } from "@/lib/schemas/question-bank"
+import { getQuestionBankWithAccess, parseQuizQuestions } from "@/lib/quizzes"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Validate the route param and load the bank with the caller's access
+async function loadBankWithAccess(user: AuthUser, rawId: string) {
+  const paramValidation = questionBankIdSchema.safeParse({ id: rawId })
+  if (!paramValidation.success) {
+    return { allowed: false as const, status: 400, error: "ID de banque invalide" }
+  }
+  return getQuestionBankWithAccess(user, paramValidation.data.id)
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const loaded = await loadBankWithAccess(user, params.id)
+    if (!loaded.allowed) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    const questionsResult = await getBankQuestions([loaded.bank.id])
+    if ("error" in questionsResult) {
+      return NextResponse.json({ error: questionsResult.error }, { status: 500 })
+    }
+
+    const questions = questionsResult.data.flatMap((row) =>
+      parseQuizQuestions([row.question]).map((question) => ({
+        id: row.id,
+        question,
+        difficulty: row.difficulty,
+        tags: row.tags,
+      }))
+    )
+
+    return NextResponse.json({ bank: loaded.bank, canManage: loaded.canManage, questions })
+  } catch (error) {
+    console.error("[API] Error fetching question bank:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const loaded = await loadBankWithAccess(user, params.id)
+    if (!loaded.allowed) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+    if (!loaded.canManage) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = updateQuestionBankSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateQuestionBank(loaded.bank.id, validation.data)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "question_bank.update",
+      targetType: "question_bank",
+      targetId: loaded.bank.id,
+      before: loaded.bank,
+      after: result.data,
+    })
+
+    return NextResponse.json({ message: "Banque de questions mise à jour", bank: result.data })
+  } catch (error) {
+    console.error("[API] Error updating question bank:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const loaded = await loadBankWithAccess(user, params.id)
+    if (!loaded.allowed) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+    if (!loaded.canManage) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    // Quizzes drawing from the bank would silently lose questions
+    const inUse = await questionBankInUse(loaded.bank.id)
+    if ("error" in inUse) {
+      return NextResponse.json({ error: inUse.error }, { status: 500 })
+    }
+    if (inUse.data) {
+      return NextResponse.json(
+        { error: "Cette banque est utilisée par un quiz et ne peut pas être supprimée" },
+        { status: 409 }
+      )
+    }
+
+    const result = await deleteQuestionBank(loaded.bank.id)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "question_bank.delete",
+      targetType: "question_bank",
+      targetId: loaded.bank.id,
+      before: loaded.bank,
+    })
+
+    return NextResponse.json({ message: "Banque de questions supprimée" })
+  } catch (error) {
+    console.error("[API] Error deleting question bank:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,123 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import {
+  createQuestionBank,
+  getCourseById,
+  getDomainById,
+  getQuestionBanks,
+  getQuestionBanksForCourse,
+} from "@/lib/db/queries"
+import { createQuestionBankSchema } from "@/lib/schemas/question-bank"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// GET: banks the caller can use, or those a course's quizzes may draw from (?courseId=)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    if (user.role !== "TRAINER" && user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const courseIdParam = request.nextUrl.searchParams.get("courseId")
+    if (courseIdParam) {
+      const courseId = Number(courseIdParam)
+      if (!Number.isInteger(courseId) || courseId <= 0) {
+        return NextResponse.json({ error: "ID de cours invalide" }, { status: 400 })
+      }
+
+      const courseResult = await getCourseById(courseId)
+      if ("error" in courseResult || !courseResult.data) {
+        return NextResponse.json({ error: "Cours introuvable" }, { status: 404 })
+      }
+      if (user.role === "TRAINER" && courseResult.data.teacherId !== Number(user.id)) {
+        return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+      }
+
+      const result = await getQuestionBanksForCourse(courseId, courseResult.data.domainId)
+      if ("error" in result) {
+        return NextResponse.json({ error: result.error }, { status: 500 })
+      }
+      return NextResponse.json({ banks: result.data })
+    }
+
+    const result = await getQuestionBanks(user.role === "TRAINER" ? Number(user.id) : undefined)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ banks: result.data })
+  } catch (error) {
+    console.error("[API] Error fetching question banks:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    if (user.role !== "TRAINER" && user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = createQuestionBankSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { courseId, domainId } = validation.data
+    if (courseId) {
+      const courseResult = await getCourseById(courseId)
+      if ("error" in courseResult || !courseResult.data) {
+        return NextResponse.json({ error: "Cours introuvable" }, { status: 404 })
+      }
+      // Trainers only create course banks for their own courses
+      if (user.role === "TRAINER" && courseResult.data.teacherId !== Number(user.id)) {
+        return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+      }
+    } else if (domainId) {
+      const domainResult = await getDomainById(domainId)
+      if ("error" in domainResult || !domainResult.data) {
+        return NextResponse.json({ error: "Domaine introuvable" }, { status: 404 })
+      }
+    }
+
+    const result = await createQuestionBank({ ...validation.data, ownerId: Number(user.id) })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "question_bank.create",
+      targetType: "question_bank",
+      targetId: result.data.id,
+      after: result.data,
+    })
+
+    return NextResponse.json(
+      { message: "Banque de questions créée avec succès", bank: result.data },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("[API] Error creating question bank:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
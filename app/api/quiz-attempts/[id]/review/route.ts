@@ -0,0 +1,111 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { createNotification, getQuizAttemptForReview, gradeQuizAttempt } from "@/lib/db/queries"
+import { quizAttemptIdSchema, reviewQuizAttemptSchema } from "@/lib/schemas/quiz"
+import { applyManualGrades, type QuestionResult } from "@/lib/quizzes"
+import { issueCertificateIfEligible } from "@/lib/certificates"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    if (user.role !== "TRAINER" && user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = quizAttemptIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de tentative invalide" }, { status: 400 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = reviewQuizAttemptSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const attemptResult = await getQuizAttemptForReview(paramValidation.data.id)
+    if ("error" in attemptResult) {
+      return NextResponse.json({ error: attemptResult.error }, { status: 500 })
+    }
+    const attempt = attemptResult.data
+    if (!attempt) {
+      return NextResponse.json({ error: "Tentative introuvable" }, { status: 404 })
+    }
+
+    if (user.role === "TRAINER" && attempt.teacherId !== Number(user.id)) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+    if (attempt.status !== "pending_review") {
+      return NextResponse.json({ error: "Cette tentative a déjà été corrigée" }, { status: 409 })
+    }
+
+    const graded = applyManualGrades(
+      attempt.answers as QuestionResult[],
+      validation.data.grades,
+      attempt.passingScore ?? 70
+    )
+    if (!graded) {
+      return NextResponse.json({ error: "Toutes les réponses ouvertes doivent être notées" }, { status: 400 })
+    }
+
+    const result = await gradeQuizAttempt(attempt.id, {
+      answers: graded.results,
+      score: graded.score,
+      passed: graded.passed,
+      feedback: validation.data.feedback,
+      reviewerId: Number(user.id),
+    })
+    if (!result.success) {
+      const errorMsg = "error" in result ? result.error : "Erreur lors de la correction"
+      return NextResponse.json({ error: errorMsg }, { status: 409 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "quiz_attempt.review",
+      targetType: "quiz_attempt",
+      targetId: attempt.id,
+      before: { status: attempt.status },
+      after: { status: "graded", score: graded.score, passed: graded.passed },
+    })
+
+    await createNotification({
+      userId: attempt.studentId,
+      title: "Quiz corrigé",
+      message: `Votre tentative au quiz « ${attempt.quizTitle} » a été corrigée : ${graded.score}% (${
+        graded.passed ? "réussi" : "non réussi"
+      }).`,
+      link: `/etudiant/course/${attempt.courseId}`,
+    })
+
+    // A passed manual quiz may be the last step before the certificate
+    if (graded.passed) {
+      const certificateResult = await issueCertificateIfEligible(attempt.studentId, attempt.courseId)
+      if (!certificateResult.success) {
+        console.error("Error issuing certificate:", certificateResult.error)
+      }
+    }
+
+    return NextResponse.json({ message: "Note publiée", attempt: result.data })
+  } catch (error) {
+    console.error("[API] Error reviewing quiz attempt:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
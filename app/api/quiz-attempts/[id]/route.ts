@@ -0,0 +1,74 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getQuizAttemptById, saveQuizAttemptDraft } from "@/lib/db/queries"
+import { quizAttemptIdSchema, saveQuizAttemptDraftSchema } from "@/lib/schemas/quiz"
+import { getQuizWithAccess, isAttemptExpired } from "@/lib/quizzes"
+
+// Save the answers of an attempt in progress, so they survive a reload and
+// count if time runs out before the student submits
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    if (user.role !== "STUDENT") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = quizAttemptIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de tentative invalide" }, { status: 400 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = saveQuizAttemptDraftSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const attemptResult = await getQuizAttemptById(paramValidation.data.id)
+    if ("error" in attemptResult) {
+      return NextResponse.json({ error: attemptResult.error }, { status: 500 })
+    }
+    const attempt = attemptResult.data
+    if (!attempt || attempt.studentId !== Number(user.id) || attempt.quizId === null) {
+      return NextResponse.json({ error: "Tentative introuvable" }, { status: 404 })
+    }
+    if (attempt.status !== "in_progress") {
+      return NextResponse.json({ error: "Cette tentative a déjà été soumise" }, { status: 409 })
+    }
+
+    const access = await getQuizWithAccess(user, attempt.quizId)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+    if (isAttemptExpired(attempt, access.quiz)) {
+      return NextResponse.json({ error: "Le temps imparti est écoulé" }, { status: 409 })
+    }
+
+    const result = await saveQuizAttemptDraft(attempt.id, validation.data.answers)
+    if (!result.success) {
+      const errorMsg = "error" in result ? result.error : "Erreur lors de l'enregistrement"
+      return NextResponse.json({ error: errorMsg }, { status: 409 })
+    }
+
+    return NextResponse.json({ message: "Réponses enregistrées" })
+  } catch (error) {
+    console.error("[API] Error saving quiz attempt draft:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getPendingQuizAttempts } from "@/lib/db/queries"
+import { parseQuizQuestions } from "@/lib/quizzes"
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    // Trainers grade their own courses, admins see every pending attempt
+    if (user.role !== "TRAINER" && user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const result = await getPendingQuizAttempts(user.role === "TRAINER" ? Number(user.id) : undefined)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    // Review the questions exactly as drawn for the attempt when it kept them
+    const attempts = result.data.map(({ attemptQuestions, ...attempt }) => ({
+      ...attempt,
+      questions: parseQuizQuestions(attemptQuestions ?? attempt.questions),
+    }))
+
+    return NextResponse.json({ attempts })
+  } catch (error) {
+    console.error("[API] Error fetching pending quiz attempts:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,145 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getQuizAttemptById } from "@/lib/db/queries"
+import { quizIdSchema, submitQuizAttemptSchema } from "@/lib/schemas/quiz"
+import {
+  describeSolution,
+  finalizeQuizAttempt,
+  getDraftAnswers,
+  getQuizWithAccess,
+  isAttemptExpired,
+  isChapterUnlocked,
+} from "@/lib/quizzes"
+import { issueCertificateIfEligible } from "@/lib/certificates"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    // Only students take quizzes
+    if (user.role !== "STUDENT") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = quizIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de quiz invalide" }, { status: 400 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = submitQuizAttemptSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const access = await getQuizWithAccess(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    const studentId = Number(user.id)
+    const unlocked = await isChapterUnlocked(studentId, access.courseId, access.chapterId)
+    if (!unlocked) {
+      return NextResponse.json({ error: "Ce chapitre est encore verrouillé" }, { status: 403 })
+    }
+
+    const startedResult = await getQuizAttemptById(validation.data.attemptId)
+    if ("error" in startedResult) {
+      return NextResponse.json({ error: startedResult.error }, { status: 500 })
+    }
+    const started = startedResult.data
+    if (!started || started.studentId !== studentId || started.quizId !== access.quiz.id) {
+      return NextResponse.json({ error: "Tentative introuvable" }, { status: 404 })
+    }
+    if (started.status !== "in_progress") {
+      return NextResponse.json({ error: "Cette tentative a déjà été soumise" }, { status: 409 })
+    }
+
+    // Past the deadline, only the answers saved in time are kept
+    const timedOut = isAttemptExpired(started, access.quiz)
+    const answers = timedOut ? getDraftAnswers(started) : validation.data.answers
+
+    // Grade against the questions drawn for this attempt, not the current quiz
+    const finalized = await finalizeQuizAttempt(started, access.quiz, answers, { timedOut })
+    if (!finalized.success) {
+      return NextResponse.json({ error: finalized.error }, { status: 409 })
+    }
+    const { attempt, graded, questions } = finalized.data
+    const passingScore = access.quiz.passingScore ?? 70
+
+    // Answers stay on the attempt; the trail keeps the outcome
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "quiz_attempt.submit",
+      targetType: "quiz_attempt",
+      targetId: started.id,
+      before: { status: started.status },
+      after: { status: graded.status, score: graded.score, passed: graded.passed, timedOut },
+    })
+
+    // Passing the last quiz may complete the course
+    let certificate = null
+    if (graded.passed) {
+      const certificateResult = await issueCertificateIfEligible(studentId, access.courseId)
+      if (certificateResult.success) {
+        certificate = certificateResult.data
+      } else {
+        console.error("Error issuing certificate:", certificateResult.error)
+      }
+    }
+
+    // Answer keys and explanations are only revealed once the attempt is recorded
+    const questionsById = new Map(questions.map((question) => [question.id, question]))
+    const results = graded.results.map((result) => {
+      const question = questionsById.get(result.questionId)
+      return {
+        ...result,
+        solution: question ? describeSolution(question) : null,
+        explanation: question?.explanation ?? null,
+      }
+    })
+
+    const message = timedOut
+      ? access.quiz.latePolicy === "reject"
+        ? "Temps écoulé : la tentative a été refusée"
+        : "Temps écoulé : seules les réponses enregistrées à temps ont été prises en compte"
+      : graded.status === "pending_review"
+        ? "Réponses envoyées pour correction"
+        : graded.passed
+          ? "Quiz réussi"
+          : "Quiz échoué"
+
+    return NextResponse.json(
+      {
+        message,
+        attempt,
+        timedOut,
+        passingScore,
+        correctCount: graded.correctCount,
+        totalQuestions: graded.totalQuestions,
+        results,
+        certificate,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("[API] Error submitting quiz attempt:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,147 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser, type AuthUser } from "@/lib/auth/auth"
+import { deleteQuiz, updateQuiz } from "@/lib/db/queries"
+import { quizIdSchema, updateQuizSchema } from "@/lib/schemas/quiz"
+import {
+  getQuizType,
+  getQuizWithAccess,
+  parseQuizQuestions,
+  toStudentQuiz,
+  validateQuizDraws,
+} from "@/lib/quizzes"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Validate the route param and load the quiz with the caller's access
+async function loadQuizWithAccess(user: AuthUser, rawId: string) {
+  const paramValidation = quizIdSchema.safeParse({ id: rawId })
+  if (!paramValidation.success) {
+    return { allowed: false as const, status: 400, error: "ID de quiz invalide" }
+  }
+  return getQuizWithAccess(user, paramValidation.data.id)
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const loaded = await loadQuizWithAccess(user, params.id)
+    if (!loaded.allowed) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    const quiz = loaded.canManage
+      ? { ...loaded.quiz, questions: parseQuizQuestions(loaded.quiz.questions) }
+      : toStudentQuiz(loaded.quiz)
+    return NextResponse.json({ quiz })
+  } catch (error) {
+    console.error("[API] Error fetching quiz:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const loaded = await loadQuizWithAccess(user, params.id)
+    if (!loaded.allowed) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+    if (!loaded.canManage) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validation = updateQuizSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { questions, draws } = validation.data
+    const remainingQuestions = questions ?? parseQuizQuestions(loaded.quiz.questions)
+    const remainingDraws = draws ?? (Array.isArray(loaded.quiz.draws) ? loaded.quiz.draws : [])
+    if (remainingQuestions.length === 0 && remainingDraws.length === 0) {
+      return NextResponse.json({ error: "Le quiz doit contenir au moins une question" }, { status: 400 })
+    }
+
+    const drawError = await validateQuizDraws(loaded.courseId, draws)
+    if (drawError) {
+      return NextResponse.json({ error: drawError }, { status: 400 })
+    }
+
+    const result = await updateQuiz(loaded.quiz.id, {
+      ...validation.data,
+      ...(questions ? { type: getQuizType(questions) } : {}),
+    })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "quiz.update",
+      targetType: "quiz",
+      targetId: loaded.quiz.id,
+      before: loaded.quiz,
+      after: result.data,
+    })
+
+    return NextResponse.json({ message: "Quiz mis à jour avec succès", quiz: result.data })
+  } catch (error) {
+    console.error("[API] Error updating quiz:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const loaded = await loadQuizWithAccess(user, params.id)
+    if (!loaded.allowed) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+    if (!loaded.canManage) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const result = await deleteQuiz(loaded.quiz.id)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "quiz.delete",
+      targetType: "quiz",
+      targetId: loaded.quiz.id,
+      before: loaded.quiz,
+    })
+
+    return NextResponse.json({ message: "Quiz supprimé avec succès" })
+  } catch (error) {
+    console.error("[API] Error deleting quiz:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
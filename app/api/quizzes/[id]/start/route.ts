@@ -0,0 +1,136 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getInProgressQuizAttempt, getQuizAttemptsByStudent, startQuizAttempt } from "@/lib/db/queries"
+import { quizIdSchema } from "@/lib/schemas/quiz"
+import {
+  assembleAttemptQuestions,
+  finalizeQuizAttempt,
+  getAttemptAvailability,
+  getAttemptDeadline,
+  getDraftAnswers,
+  getQuizWithAccess,
+  isAttemptExpired,
+  isChapterUnlocked,
+  parseQuizQuestions,
+  toStudentQuestion,
+} from "@/lib/quizzes"
+import { issueCertificateIfEligible } from "@/lib/certificates"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Start an attempt, or resume the one in progress with the same questions.
+// An attempt left open past its deadline is closed here before a new one
+// may start.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    if (user.role !== "STUDENT") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = quizIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de quiz invalide" }, { status: 400 })
+    }
+
+    const access = await getQuizWithAccess(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    const studentId = Number(user.id)
+    const unlocked = await isChapterUnlocked(studentId, access.courseId, access.chapterId)
+    if (!unlocked) {
+      return NextResponse.json({ error: "Ce chapitre est encore verrouillé" }, { status: 403 })
+    }
+
+    const existing = await getInProgressQuizAttempt(studentId, access.quiz.id)
+    if ("error" in existing) {
+      return NextResponse.json({ error: existing.error }, { status: 500 })
+    }
+
+    let attempt: typeof existing.data | null = existing.data
+    if (attempt && isAttemptExpired(attempt, access.quiz)) {
+      const closed = await finalizeQuizAttempt(attempt, access.quiz, getDraftAnswers(attempt), { timedOut: true })
+      if (!closed.success) {
+        return NextResponse.json({ error: closed.error }, { status: 409 })
+      }
+      if (closed.data.graded.passed) {
+        const certificateResult = await issueCertificateIfEligible(studentId, access.courseId)
+        if (!certificateResult.success) {
+          console.error("Error issuing certificate:", certificateResult.error)
+        }
+      }
+      attempt = null
+    }
+
+    const resumed = attempt !== null
+    if (!attempt) {
+      const previous = await getQuizAttemptsByStudent(studentId, access.quiz.id)
+      if ("error" in previous) {
+        return NextResponse.json({ error: previous.error }, { status: 500 })
+      }
+      const availability = getAttemptAvailability(access.quiz, previous.data ?? [])
+      if (!availability.allowed) {
+        return NextResponse.json(
+          { error: availability.error, retryAt: availability.retryAt },
+          { status: availability.retryAt ? 429 : 403 }
+        )
+      }
+
+      const assembled = await assembleAttemptQuestions(access.quiz)
+      if (!assembled.success) {
+        return NextResponse.json({ error: assembled.error }, { status: 500 })
+      }
+      if (assembled.data.length === 0) {
+        return NextResponse.json({ error: "Ce quiz ne contient aucune question" }, { status: 409 })
+      }
+
+      const started = await startQuizAttempt({
+        studentId,
+        quizId: access.quiz.id,
+        questions: assembled.data,
+      })
+      if ("error" in started) {
+        return NextResponse.json({ error: started.error }, { status: 500 })
+      }
+      attempt = started.data
+
+      await recordAudit({
+        ...getAuditContext(request, user),
+        action: "quiz_attempt.start",
+        targetType: "quiz_attempt",
+        targetId: attempt.id,
+        after: { quizId: access.quiz.id, studentId, questionCount: assembled.data.length },
+      })
+    }
+
+    const deadline = getAttemptDeadline(attempt, access.quiz)
+
+    return NextResponse.json(
+      {
+        attempt: {
+          id: attempt.id,
+          startedAt: attempt.startedAt,
+          deadline,
+          // The client counts down from here so its clock does not matter
+          remainingSeconds: deadline
+            ? Math.max(0, Math.floor((deadline.getTime() - Date.now()) / 1000))
+            : null,
+        },
+        questions: parseQuizQuestions(attempt.questions).map(toStudentQuestion),
+        answers: resumed ? getDraftAnswers(attempt) : {},
+      },
+      { status: resumed ? 200 : 201 }
+    )
+  } catch (error) {
+    console.error("[API] Error starting quiz attempt:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -4,6 +4,9 @@ import { registerSchema } from "@/lib/schemas/auth"
 import { db } from "@/lib/db/db"
 import { users } from "@/drizzle/schema"
 import { eq } from "drizzle-orm"
+import { sendVerificationEmail } from "@/lib/auth/verification"
+import { getCurrentConsentText, recordConsents } from "@/lib/db/queries"
+import { getAuditContext, recordAudit } from "@/lib/audit"
 
 export async function POST(request: NextRequest) {
   try {
@@ -26,6 +29,18 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // The consent text accepted on the form must still be the one in force
+    const consentText = await getCurrentConsentText()
+    if ("error" in consentText) {
+      return NextResponse.json({ error: "Erreur lors de l'inscription" }, { status: 500 })
+    }
+    if (!consentText.data || consentText.data.id !== validatedData.consentTextId) {
+      return NextResponse.json(
+        { error: "Le texte de consentement a changé. Rechargez la page pour lire la nouvelle version." },
+        { status: 409 }
+      )
+    }
+
     // Hash password
     const hashedPassword = await hash(validatedData.password, 10)
 
@@ -40,10 +55,46 @@ export async function POST(request: NextRequest) {
       })
       .returning()
 
+    const auditContext = getAuditContext(request)
+    await recordAudit({
+      ...auditContext,
+      actorId: newUser.id,
+      action: "user.register",
+      targetType: "user",
+      targetId: newUser.id,
+      after: newUser,
+    })
+
+    // Without a record the user is simply asked to consent again at sign-in
+    const consentResult = await recordConsents({
+      userIds: [newUser.id],
+      consentTextId: consentText.data.id,
+      source: "registration",
+      ipAddress: auditContext.ipAddress,
+    })
+    if ("error" in consentResult) {
+      console.error("Error recording registration consent:", consentResult.error)
+    } else if (consentResult.data[0]) {
+      await recordAudit({
+        ...auditContext,
+        actorId: newUser.id,
+        action: "consent.accept",
+        targetType: "consent",
+        targetId: consentResult.data[0].id,
+        after: { version: consentText.data.version, source: "registration" },
+      })
+    }
+
+    // The account stays locked until the emailed link is followed
+    const mailResult = await sendVerificationEmail(newUser)
+    if (!mailResult.success) {
+      console.error("Error sending verification email:", mailResult.error)
+    }
+
     return NextResponse.json(
       {
         success: true,
-        message: "Compte créé avec succès",
+        message: "Compte créé avec succès. Consultez votre boîte mail pour confirmer votre adresse.",
         user: {
           id: newUser.id,
           email: newUser.email,
@@ -0,0 +1,81 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getRetentionRules, updateRetentionRule } from "@/lib/db/queries"
+import { updateRetentionRuleSchema } from "@/lib/schemas/retention"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const result = await getRetentionRules()
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ rules: result.data })
+  } catch (error) {
+    console.error("[API] Error fetching retention rules:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+// Change the delay, action or state of one rule
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = updateRetentionRuleSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const rules = await getRetentionRules()
+    if ("error" in rules) {
+      return NextResponse.json({ error: rules.error }, { status: 500 })
+    }
+    const { target, ...changes } = validation.data
+    const previous = rules.data.find((rule) => rule.target === target)
+
+    const result = await updateRetentionRule(target, { ...changes, updatedBy: Number(user.id) })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "retention_rule.update",
+      targetType: "retention_rule",
+      targetId: target,
+      before: previous,
+      after: result.data,
+    })
+
+    return NextResponse.json({ message: "Règle de conservation enregistrée", rule: result.data })
+  } catch (error) {
+    console.error("[API] Error updating retention rule:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
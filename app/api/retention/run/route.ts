@@ -0,0 +1,41 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { retentionRunSchema } from "@/lib/schemas/retention"
+import { runRetention } from "@/lib/retention"
+import { getAuditContext } from "@/lib/audit"
+
+// Dry-run report, or an immediate purge outside the scheduled job
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = retentionRunSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    // The run writes its own audit entry
+    const report = await runRetention({ dryRun: validation.data.dryRun, ...getAuditContext(request, user) })
+
+    return NextResponse.json({ report })
+  } catch (error) {
+    console.error("[API] Error running retention:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getRubricsForTeacher } from "@/lib/db/queries"
+import { getRubricMaxPoints, parseRubricCriteria } from "@/lib/projects"
+
+// Rubrics the caller may copy into one of their courses
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    if (user.role !== "TRAINER" && user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const result = await getRubricsForTeacher(user.role === "TRAINER" ? Number(user.id) : undefined)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    const rubrics = result.data.map(({ criteria, ...rubric }) => {
+      const parsed = parseRubricCriteria(criteria)
+      return { ...rubric, criterionCount: parsed.length, maxPoints: getRubricMaxPoints(parsed) }
+    })
+
+    return NextResponse.json({ rubrics })
+  } catch (error) {
+    console.error("[API] Error fetching rubrics:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
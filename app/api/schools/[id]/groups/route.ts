@@ -0,0 +1,76 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { createGroup, getSchoolById, groupNameExists } from "@/lib/db/queries"
+import { groupSchema, schoolIdSchema } from "@/lib/schemas/school"
+import { getSchoolScope, isSchoolInScope } from "@/lib/schools"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Admins and the school's sub-admins add classes or cohorts
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const scope = await getSchoolScope(user)
+    if (!scope.allowed) {
+      return NextResponse.json({ error: scope.error }, { status: scope.status })
+    }
+
+    const paramValidation = schoolIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID d'établissement invalide" }, { status: 400 })
+    }
+    const schoolId = paramValidation.data.id
+
+    const school = await getSchoolById(schoolId)
+    if ("error" in school) {
+      return NextResponse.json({ error: school.error }, { status: 500 })
+    }
+    if (!school.data || !isSchoolInScope(scope.schoolIds, schoolId)) {
+      return NextResponse.json({ error: "Établissement introuvable" }, { status: 404 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = groupSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const nameCheck = await groupNameExists(schoolId, validation.data.name)
+    if (nameCheck.success && nameCheck.data) {
+      return NextResponse.json({ error: "Un groupe porte déjà ce nom dans cet établissement" }, { status: 409 })
+    }
+
+    const result = await createGroup({ schoolId, ...validation.data })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "group.create",
+      targetType: "group",
+      targetId: result.data.id,
+      after: result.data,
+    })
+
+    return NextResponse.json({ message: "Groupe créé", group: result.data }, { status: 201 })
+  } catch (error) {
+    console.error("[API] Error creating group:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
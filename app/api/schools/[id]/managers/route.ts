@@ -0,0 +1,82 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getSchoolsWithDetails, getSubAdminsByIds, setSchoolManagers } from "@/lib/db/queries"
+import { schoolIdSchema, schoolManagersSchema } from "@/lib/schemas/school"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Choose the sub-admins responsible for the school
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = schoolIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID d'établissement invalide" }, { status: 400 })
+    }
+    const schoolId = paramValidation.data.id
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = schoolManagersSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+    const userIds = Array.from(new Set(validation.data.userIds))
+
+    const existing = await getSchoolsWithDetails([schoolId])
+    if ("error" in existing) {
+      return NextResponse.json({ error: existing.error }, { status: 500 })
+    }
+    const school = existing.data[0]
+    if (!school) {
+      return NextResponse.json({ error: "Établissement introuvable" }, { status: 404 })
+    }
+
+    const managers = await getSubAdminsByIds(userIds)
+    if ("error" in managers) {
+      return NextResponse.json({ error: managers.error }, { status: 500 })
+    }
+    if (managers.data.length !== userIds.length) {
+      return NextResponse.json(
+        { error: "Seuls des sous-administrateurs peuvent être responsables d'un établissement" },
+        { status: 400 }
+      )
+    }
+
+    const result = await setSchoolManagers(schoolId, userIds)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "school.managers_update",
+      targetType: "school",
+      targetId: schoolId,
+      before: { managers: school.managers },
+      after: { managers: managers.data },
+    })
+
+    return NextResponse.json({ message: "Responsables mis à jour", managers: managers.data })
+  } catch (error) {
+    console.error("[API] Error updating school managers:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
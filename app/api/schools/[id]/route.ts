@@ -0,0 +1,145 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import {
+  deleteSchool,
+  getSchoolById,
+  schoolHasClassSessions,
+  schoolHasStudents,
+  schoolNameExists,
+  updateSchool,
+} from "@/lib/db/queries"
+import { schoolIdSchema, schoolSchema } from "@/lib/schemas/school"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = schoolIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID d'établissement invalide" }, { status: 400 })
+    }
+    const schoolId = paramValidation.data.id
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = schoolSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const existing = await getSchoolById(schoolId)
+    if ("error" in existing) {
+      return NextResponse.json({ error: existing.error }, { status: 500 })
+    }
+    if (!existing.data) {
+      return NextResponse.json({ error: "Établissement introuvable" }, { status: 404 })
+    }
+
+    const nameCheck = await schoolNameExists(validation.data.name, schoolId)
+    if (nameCheck.success && nameCheck.data) {
+      return NextResponse.json({ error: "Un établissement porte déjà ce nom" }, { status: 409 })
+    }
+
+    const result = await updateSchool(schoolId, validation.data)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "school.update",
+      targetType: "school",
+      targetId: schoolId,
+      before: existing.data,
+      after: result.data,
+    })
+
+    return NextResponse.json({ message: "Établissement mis à jour", school: result.data })
+  } catch (error) {
+    console.error("[API] Error updating school:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = schoolIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID d'établissement invalide" }, { status: 400 })
+    }
+    const schoolId = paramValidation.data.id
+
+    // Students must be moved elsewhere first so nobody silently loses their school
+    const hasStudents = await schoolHasStudents(schoolId)
+    if ("error" in hasStudents) {
+      return NextResponse.json({ error: hasStudents.error }, { status: 500 })
+    }
+    if (hasStudents.data) {
+      return NextResponse.json(
+        { error: "Impossible de supprimer un établissement qui compte encore des étudiants" },
+        { status: 409 }
+      )
+    }
+
+    const hasSessions = await schoolHasClassSessions(schoolId)
+    if ("error" in hasSessions) {
+      return NextResponse.json({ error: hasSessions.error }, { status: 500 })
+    }
+    if (hasSessions.data) {
+      return NextResponse.json(
+        { error: "Impossible de supprimer un établissement dont les séances ont un historique de présences" },
+        { status: 409 }
+      )
+    }
+
+    const result = await deleteSchool(schoolId)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+    if (!result.data) {
+      return NextResponse.json({ error: "Établissement introuvable" }, { status: 404 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "school.delete",
+      targetType: "school",
+      targetId: schoolId,
+      before: result.data,
+    })
+
+    return NextResponse.json({ message: "Établissement supprimé" })
+  } catch (error) {
+    console.error("[API] Error deleting school:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { createSchool, getSchoolsWithDetails, schoolNameExists } from "@/lib/db/queries"
+import { schoolSchema } from "@/lib/schemas/school"
+import { getSchoolScope } from "@/lib/schools"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Admins list every school, sub-admins the ones they are responsible for
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const scope = await getSchoolScope(user)
+    if (!scope.allowed) {
+      return NextResponse.json({ error: scope.error }, { status: scope.status })
+    }
+
+    const result = await getSchoolsWithDetails(scope.schoolIds ?? undefined)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ schools: result.data })
+  } catch (error) {
+    console.error("[API] Error fetching schools:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = schoolSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const nameCheck = await schoolNameExists(validation.data.name)
+    if (nameCheck.success && nameCheck.data) {
+      return NextResponse.json({ error: "Un établissement porte déjà ce nom" }, { status: 409 })
+    }
+
+    const result = await createSchool(validation.data)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "school.create",
+      targetType: "school",
+      targetId: result.data.id,
+      after: result.data,
+    })
+
+    return NextResponse.json({ message: "Établissement créé", school: result.data }, { status: 201 })
+  } catch (error) {
+    console.error("[API] Error creating school:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,135 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { createNotification, deleteStudentNote, getCourseById, updateStudentNote } from "@/lib/db/queries"
+import { studentNoteIdSchema, studentNoteUpdateSchema } from "@/lib/schemas/student-note"
+import { getManagedStudentNote } from "@/lib/schools"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Audited fields of a note; its content is left out of the log
+const auditedFields = (note: { studentId: number; courseId: number | null; category: string; visibility: string }) => ({
+  studentId: note.studentId,
+  courseId: note.courseId,
+  category: note.category,
+  visibility: note.visibility,
+})
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = studentNoteIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de note invalide" }, { status: 400 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = studentNoteUpdateSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const access = await getManagedStudentNote(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+    if (!access.canEdit) {
+      return NextResponse.json({ error: "Seul l'auteur peut modifier cette note" }, { status: 403 })
+    }
+
+    if (validation.data.courseId) {
+      const course = await getCourseById(validation.data.courseId)
+      if (!course.success || !course.data) {
+        return NextResponse.json({ error: "Cours introuvable" }, { status: 404 })
+      }
+    }
+
+    const result = await updateStudentNote(access.note.id, validation.data)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+    if (!result.data) {
+      return NextResponse.json({ error: "Note introuvable" }, { status: 404 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "student_note.update",
+      targetType: "student_note",
+      targetId: access.note.id,
+      before: auditedFields(access.note),
+      after: auditedFields(result.data),
+    })
+
+    if (access.note.visibility !== "student" && result.data.visibility === "student") {
+      await createNotification({
+        userId: result.data.studentId,
+        title: "Nouvelle observation",
+        message: "L'équipe pédagogique a partagé une observation avec vous.",
+        link: "/etudiant/progres",
+      })
+    }
+
+    return NextResponse.json({ note: result.data, message: "Note mise à jour" })
+  } catch (error) {
+    console.error("[API] Error updating student note:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = studentNoteIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID de note invalide" }, { status: 400 })
+    }
+
+    const access = await getManagedStudentNote(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+    if (!access.canEdit) {
+      return NextResponse.json({ error: "Seul l'auteur peut supprimer cette note" }, { status: 403 })
+    }
+
+    const result = await deleteStudentNote(access.note.id)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "student_note.delete",
+      targetType: "student_note",
+      targetId: access.note.id,
+      before: auditedFields(access.note),
+    })
+
+    return NextResponse.json({ message: "Note supprimée" })
+  } catch (error) {
+    console.error("[API] Error deleting student note:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,113 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { createNotification, createStudentNote, getCourseById, getStudentNotes } from "@/lib/db/queries"
+import { studentNoteQuerySchema, studentNoteSchema } from "@/lib/schemas/student-note"
+import { getManagedStudent, getSchoolScope, isSchoolInScope } from "@/lib/schools"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Notes about the students of the user's schools, with search and filters
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const scope = await getSchoolScope(user)
+    if (!scope.allowed) {
+      return NextResponse.json({ error: scope.error }, { status: scope.status })
+    }
+
+    const validation = studentNoteQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Paramètres invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const filters = validation.data
+    if (filters.schoolId && !isSchoolInScope(scope.schoolIds, filters.schoolId)) {
+      return NextResponse.json({ error: "Établissement introuvable" }, { status: 404 })
+    }
+
+    const result = await getStudentNotes(scope.schoolIds, filters)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ notes: result.data })
+  } catch (error) {
+    console.error("[API] Error fetching student notes:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = studentNoteSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const access = await getManagedStudent(user, validation.data.studentId)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    if (validation.data.courseId) {
+      const course = await getCourseById(validation.data.courseId)
+      if (!course.success || !course.data) {
+        return NextResponse.json({ error: "Cours introuvable" }, { status: 404 })
+      }
+    }
+
+    const result = await createStudentNote({ ...validation.data, authorId: Number(user.id) })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    // The content stays out of the audit log: it may describe health or family matters
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "student_note.create",
+      targetType: "student_note",
+      targetId: result.data.id,
+      after: {
+        studentId: result.data.studentId,
+        courseId: result.data.courseId,
+        category: result.data.category,
+        visibility: result.data.visibility,
+      },
+    })
+
+    if (result.data.visibility === "student") {
+      await createNotification({
+        userId: result.data.studentId,
+        title: "Nouvelle observation",
+        message: "L'équipe pédagogique a partagé une observation avec vous.",
+        link: "/etudiant/progres",
+      })
+    }
+
+    return NextResponse.json({ note: result.data, message: "Note ajoutée" }, { status: 201 })
+  } catch (error) {
+    console.error("[API] Error creating student note:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
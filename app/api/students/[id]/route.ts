@@ -0,0 +1,118 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getGroupById, getStudentEnrolledCoursesWithProgress, updateUser } from "@/lib/db/queries"
+import { userIdSchema } from "@/lib/schemas/user"
+import { studentPlacementSchema } from "@/lib/schemas/school"
+import { getManagedStudent, isSchoolInScope } from "@/lib/schools"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = userIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID d'étudiant invalide" }, { status: 400 })
+    }
+
+    const access = await getManagedStudent(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    const courses = await getStudentEnrolledCoursesWithProgress(access.student.id)
+    if ("error" in courses) {
+      return NextResponse.json({ error: courses.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ student: access.student, courses: courses.data })
+  } catch (error) {
+    console.error("[API] Error fetching student:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+// Place the student in a school and group. Sub-admins may only move
+// students between their own schools and groups.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const paramValidation = userIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID d'étudiant invalide" }, { status: 400 })
+    }
+
+    const access = await getManagedStudent(user, paramValidation.data.id)
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+    const { student, schoolIds } = access
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Données invalides" }, { status: 400 })
+    }
+
+    const validation = studentPlacementSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Données invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const schoolId = validation.data.schoolId === undefined ? student.schoolId : validation.data.schoolId
+    const { groupId } = validation.data
+
+    if (schoolId === null && schoolIds !== null) {
+      return NextResponse.json({ error: "Seul un administrateur peut retirer un étudiant de son établissement" }, { status: 403 })
+    }
+    if (schoolId !== null && !isSchoolInScope(schoolIds, schoolId)) {
+      return NextResponse.json({ error: "Établissement introuvable" }, { status: 404 })
+    }
+
+    if (groupId !== null) {
+      const group = await getGroupById(groupId)
+      if ("error" in group) {
+        return NextResponse.json({ error: group.error }, { status: 500 })
+      }
+      if (!group.data || group.data.schoolId !== schoolId) {
+        return NextResponse.json({ error: "Ce groupe n'appartient pas à l'établissement choisi" }, { status: 400 })
+      }
+    }
+
+    const result = await updateUser(student.id, { schoolId, groupId })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "student.placement",
+      targetType: "user",
+      targetId: student.id,
+      before: { schoolId: student.schoolId, groupId: student.groupId },
+      after: { schoolId, groupId },
+    })
+
+    return NextResponse.json({ message: "Affectation mise à jour", placement: { schoolId, groupId } })
+  } catch (error) {
+    console.error("[API] Error updating student placement:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getSchoolStudents } from "@/lib/db/queries"
+import { schoolStudentQuerySchema } from "@/lib/schemas/school"
+import { getSchoolScope, isSchoolInScope } from "@/lib/schools"
+
+// Students placed in a school, limited to their own schools for sub-admins
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const scope = await getSchoolScope(user)
+    if (!scope.allowed) {
+      return NextResponse.json({ error: scope.error }, { status: scope.status })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const validation = schoolStudentQuerySchema.safeParse({
+      schoolId: searchParams.get("schoolId") ?? undefined,
+      groupId: searchParams.get("groupId") ?? undefined,
+      search: searchParams.get("search") ?? undefined,
+    })
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Paramètres invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { schoolId, ...filters } = validation.data
+    if (schoolId && !isSchoolInScope(scope.schoolIds, schoolId)) {
+      return NextResponse.json({ error: "Établissement introuvable" }, { status: 404 })
+    }
+
+    const result = await getSchoolStudents(scope.schoolIds, { schoolId, ...filters })
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ students: result.data })
+  } catch (error) {
+    console.error("[API] Error fetching students:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
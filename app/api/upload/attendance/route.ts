@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server"
+import { writeFile, mkdir } from "fs/promises"
+import { join } from "path"
+import { existsSync } from "fs"
+import { randomBytes } from "crypto"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { ATTENDANCE_UPLOADS_PATH } from "@/lib/schemas/attendance"
+
+const MAX_DOCUMENT_FILE_SIZE = 10 * 1024 * 1024
+
+// Justifications are scans or photos of a certificate
+const ALLOWED_EXTENSIONS = new Set(["pdf", "png", "jpg", "jpeg", "webp"])
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Non authentifié" },
+        { status: 401 }
+      )
+    }
+
+    if (user.role !== "ADMIN" && user.role !== "SUB_ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+
+    if (!file) {
+      return NextResponse.json(
+        { error: "Aucun fichier fourni" },
+        { status: 400 }
+      )
+    }
+
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? ""
+    if (!ALLOWED_EXTENSIONS.has(extension)) {
+      return NextResponse.json(
+        { error: "Formats acceptés : PDF, PNG, JPG ou WEBP" },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_DOCUMENT_FILE_SIZE) {
+      return NextResponse.json(
+        { error: "Le fichier doit faire moins de 10MB" },
+        { status: 400 }
+      )
+    }
+
+    const uploadsDir = join(process.cwd(), 'public', 'uploads', 'attendance')
+    if (!existsSync(uploadsDir)) {
+      await mkdir(uploadsDir, { recursive: true })
+    }
+
+    // Random names: these documents often carry health information
+    const filename = `justification-${randomBytes(16).toString('hex')}.${extension}`
+    const bytes = await file.arrayBuffer()
+    await writeFile(join(uploadsDir, filename), new Uint8Array(Buffer.from(bytes)))
+
+    return NextResponse.json({
+      success: true,
+      file: {
+        name: file.name,
+        url: `${ATTENDANCE_UPLOADS_PATH}${filename}`,
+        size: file.size,
+      },
+      message: "Fichier téléchargé avec succès"
+    })
+  } catch (error) {
+    console.error("[UPLOAD_ATTENDANCE] Error:", error)
+    return NextResponse.json(
+      { error: "Erreur lors du téléchargement" },
+      { status: 500 }
+    )
+  }
+}
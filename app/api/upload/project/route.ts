@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server"
+import { writeFile, mkdir } from "fs/promises"
+import { join } from "path"
+import { existsSync } from "fs"
+import { randomBytes } from "crypto"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { PROJECT_UPLOADS_PATH } from "@/lib/schemas/project"
+
+const MAX_PROJECT_FILE_SIZE = 20 * 1024 * 1024
+
+// Deliverables students usually hand in: documents, archives and images
+const ALLOWED_EXTENSIONS = new Set([
+  "pdf", "zip", "rar", "7z", "doc", "docx", "ppt", "pptx", "xls", "xlsx", "odt", "txt", "md",
+  "png", "jpg", "jpeg", "gif", "webp",
+])
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Non authentifié" },
+        { status: 401 }
+      )
+    }
+
+    if (user.role !== "STUDENT") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+
+    if (!file) {
+      return NextResponse.json(
+        { error: "Aucun fichier fourni" },
+        { status: 400 }
+      )
+    }
+
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? ""
+    if (!ALLOWED_EXTENSIONS.has(extension)) {
+      return NextResponse.json(
+        { error: "Type de fichier non pris en charge" },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_PROJECT_FILE_SIZE) {
+      return NextResponse.json(
+        { error: "Le fichier doit faire moins de 20MB" },
+        { status: 400 }
+      )
+    }
+
+    const uploadsDir = join(process.cwd(), 'public', 'uploads', 'projects')
+    if (!existsSync(uploadsDir)) {
+      await mkdir(uploadsDir, { recursive: true })
+    }
+
+    // Random names keep one student's files from being guessed by another
+    const filename = `project-${user.id}-${randomBytes(12).toString('hex')}.${extension}`
+    const bytes = await file.arrayBuffer()
+    await writeFile(join(uploadsDir, filename), new Uint8Array(Buffer.from(bytes)))
+
+    return NextResponse.json({
+      success: true,
+      file: {
+        name: file.name,
+        url: `${PROJECT_UPLOADS_PATH}${filename}`,
+        size: file.size,
+      },
+      message: "Fichier téléchargé avec succès"
+    })
+  } catch (error) {
+    console.error("[UPLOAD_PROJECT] Error:", error)
+    return NextResponse.json(
+      { error: "Erreur lors du téléchargement" },
+      { status: 500 }
+    )
+  }
+}
@@ -6,6 +6,7 @@ import { join } from "path";
 import { db } from "@/lib/db";
 import { users } from "@/drizzle/schema";
 import { eq } from "drizzle-orm";
+import { getAuditContext, recordAudit } from "@/lib/audit";
 
 export async function POST(request: NextRequest) {
   try {
@@ -67,11 +68,26 @@ export async function POST(request: NextRequest) {
 
     // Update user avatar URL in database
     const avatarUrl = `/uploads/avatars/${fileName}`;
+    const [previousUser] = await db
+      .select({ avatarUrl: users.avatarUrl })
+      .from(users)
+      .where(eq(users.id, parseInt(userId)))
+      .limit(1);
     await db
       .update(users)
       .set({ avatarUrl })
       .where(eq(users.id, parseInt(userId)));
 
+    await recordAudit({
+      ...getAuditContext(request),
+      actorId: parseInt(userId),
+      action: "user.avatar_update",
+      targetType: "user",
+      targetId: userId,
+      before: previousUser ?? null,
+      after: { avatarUrl },
+    });
+
     return NextResponse.json({
       success: true,
       avatarUrl,
@@ -0,0 +1,49 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { dataExportQuerySchema } from "@/lib/schemas/privacy"
+import { buildUserDataExport, serializeUserDataExport } from "@/lib/privacy"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Download of the signed-in user's own data (right of access)
+export async function GET(request: NextRequest) {
+  try {
+    // Reaching one's own data does not depend on accepting the latest consent text
+    const user = await getCurrentUser({ allowPendingConsent: true })
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+
+    const validation = dataExportQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Paramètres invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const bundle = await buildUserDataExport(Number(user.id))
+    if (!bundle) {
+      return NextResponse.json({ error: "Utilisateur introuvable" }, { status: 404 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "user.data_export",
+      targetType: "user",
+      targetId: user.id,
+      after: { format: validation.data.format },
+    })
+
+    const file = serializeUserDataExport(bundle, validation.data.format)
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("[API] Error exporting user data:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth/auth-options";
 import { db } from "@/lib/db";
 import { users } from "@/drizzle/schema";
 import { eq } from "drizzle-orm";
+import { getAuditContext, recordAudit } from "@/lib/audit";
 
 export async function PUT(request: NextRequest) {
   try {
@@ -63,6 +64,8 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    const [previousUser] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+
     // Update user in database
     const updatedUser = await db
       .update(users)
@@ -88,6 +91,16 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    await recordAudit({
+      ...getAuditContext(request),
+      actorId: userId,
+      action: "user.profile_update",
+      targetType: "user",
+      targetId: userId,
+      before: previousUser,
+      after: updatedUser[0],
+    });
+
     return NextResponse.json({
       success: true,
       message: "Profil mis à jour avec succès",
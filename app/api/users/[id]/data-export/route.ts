@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { userIdSchema } from "@/lib/schemas/user"
+import { dataExportQuerySchema } from "@/lib/schemas/privacy"
+import { buildUserDataExport, serializeUserDataExport } from "@/lib/privacy"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Data export prepared by an admin for a data-subject request
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = userIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID utilisateur invalide" }, { status: 400 })
+    }
+
+    const validation = dataExportQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Paramètres invalides", details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const bundle = await buildUserDataExport(paramValidation.data.id)
+    if (!bundle) {
+      return NextResponse.json({ error: "Utilisateur introuvable" }, { status: 404 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "user.data_export",
+      targetType: "user",
+      targetId: paramValidation.data.id,
+      after: { format: validation.data.format },
+    })
+
+    const file = serializeUserDataExport(bundle, validation.data.format)
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("[API] Error exporting user data:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { eraseUser, getUserById } from "@/lib/db/db"
+import { ANONYMIZED_USER_FIELDS } from "@/lib/db/queries"
+import { userIdSchema } from "@/lib/schemas/user"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+// Right to erasure: anonymize the account, keeping its statistics and certificates
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = userIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID utilisateur invalide" }, { status: 400 })
+    }
+    const userId = paramValidation.data.id
+
+    if (userId === Number(user.id)) {
+      return NextResponse.json({ error: "Vous ne pouvez pas anonymiser votre propre compte" }, { status: 403 })
+    }
+
+    const existing = await getUserById(userId)
+    if (!existing.success) {
+      return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+    }
+    if (!existing.data) {
+      return NextResponse.json({ error: "Utilisateur introuvable" }, { status: 404 })
+    }
+
+    const result = await eraseUser(userId)
+    if ("error" in result) {
+      switch (result.error) {
+        case "User already anonymized":
+          return NextResponse.json({ error: "Ce compte est déjà anonymisé" }, { status: 409 })
+        case "Cannot erase the last admin user":
+          return NextResponse.json(
+            { error: "Impossible d'anonymiser le dernier administrateur actif" },
+            { status: 409 }
+          )
+        default:
+          return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+      }
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "user.erase",
+      targetType: "user",
+      targetId: userId,
+      // Only the field names: copying the erased values here would keep them
+      after: { anonymizedFields: ANONYMIZED_USER_FIELDS },
+    })
+
+    return NextResponse.json({ message: "Données personnelles effacées" })
+  } catch (error) {
+    console.error("[API] Error erasing user:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
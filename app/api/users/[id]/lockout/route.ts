@@ -0,0 +1,90 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { getUserById } from "@/lib/db/queries"
+import { userIdSchema } from "@/lib/schemas/user"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+import { clearLoginFailures, getAccountLockout } from "@/lib/security/login-throttle"
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = userIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID utilisateur invalide" }, { status: 400 })
+    }
+
+    const target = await getUserById(paramValidation.data.id)
+    if (!target.success) {
+      return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+    }
+    if (!target.data) {
+      return NextResponse.json({ error: "Utilisateur introuvable" }, { status: 404 })
+    }
+
+    const lockout = await getAccountLockout(target.data.email)
+    if ("error" in lockout) {
+      return NextResponse.json({ error: lockout.error }, { status: 500 })
+    }
+
+    return NextResponse.json(lockout.data)
+  } catch (error) {
+    console.error("[API] Error fetching user lockout:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+// Unlock an account before the lockout expires and forget its failed attempts
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = userIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID utilisateur invalide" }, { status: 400 })
+    }
+
+    const target = await getUserById(paramValidation.data.id)
+    if (!target.success) {
+      return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+    }
+    if (!target.data) {
+      return NextResponse.json({ error: "Utilisateur introuvable" }, { status: 404 })
+    }
+
+    const lockout = await getAccountLockout(target.data.email)
+    if ("error" in lockout) {
+      return NextResponse.json({ error: lockout.error }, { status: 500 })
+    }
+    if (!lockout.data.locked && lockout.data.failures === 0) {
+      return NextResponse.json({ error: "Ce compte n'est pas verrouillé" }, { status: 404 })
+    }
+
+    await clearLoginFailures(target.data.email)
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "user.unlock",
+      targetType: "user",
+      targetId: paramValidation.data.id,
+      before: lockout.data,
+      after: { failures: 0, locked: false, lockedUntil: null },
+    })
+
+    return NextResponse.json({ message: "Compte déverrouillé" })
+  } catch (error) {
+    console.error("[API] Error unlocking user:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -1,8 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { getCurrentUser } from "@/lib/auth/auth"
 import { updateUserStatus, deleteUser, getUserById } from "@/lib/db/db"
-import { updateUser } from "@/lib/db/queries"
+import { ANONYMIZED_USER_FIELDS, updateUser } from "@/lib/db/queries"
 import bcrypt from "bcryptjs"
+import { getAuditContext, recordAudit } from "@/lib/audit"
 
 export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
   try {
@@ -60,6 +61,7 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
       return NextResponse.json({ error: "isActive must be a boolean" }, { status: 400 })
     }
 
+    const existing = await getUserById(userId)
     const result = await updateUserStatus(userId, isActive)
 
     if (!result.success) {
@@ -67,6 +69,15 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
       return NextResponse.json({ error: result.error }, { status })
     }
 
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: isActive ? "user.activate" : "user.deactivate",
+      targetType: "user",
+      targetId: userId,
+      before: existing.success && existing.data ? { isActive: existing.data.isActive } : null,
+      after: { isActive },
+    })
+
     return NextResponse.json({
       message: "User status updated successfully",
       user: result.data,
@@ -157,6 +168,7 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
     if (avatarUrl !== undefined) updateData.avatarUrl = avatarUrl || null
     if (isActive !== undefined) updateData.isActive = isActive
 
+    const existing = await getUserById(userId)
     const result = await updateUser(userId, updateData)
 
     if (!result.success) {
@@ -165,6 +177,17 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
       return NextResponse.json({ error: errorMessage }, { status })
     }
 
+    const previous = existing.success ? existing.data : null
+    await recordAudit({
+      ...getAuditContext(request, user),
+      // Role changes get their own action so they are easy to find
+      action: previous && previous.role !== role ? "user.role_change" : "user.update",
+      targetType: "user",
+      targetId: userId,
+      before: previous,
+      after: result.data,
+    })
+
     return NextResponse.json({
       message: "User updated successfully",
       user: result.data,
@@ -205,11 +228,21 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
       return NextResponse.json({ error: result.error || "Failed to delete user" }, { status })
     }
     
-    // Log the deletion for audit purposes
-    console.info(`Admin ${user.id} permanently deleted user ${userId}`)
+    const anonymized = "mode" in result && result.mode === "anonymized"
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: anonymized ? "user.erase" : "user.delete",
+      targetType: "user",
+      targetId: userId,
+      // The removed or erased profile itself stays out of the trail
+      after: anonymized ? { anonymizedFields: ANONYMIZED_USER_FIELDS } : undefined,
+    })
     
     return NextResponse.json({
-      message: "User deleted successfully",
+      message: anonymized
+        ? "User has linked records and was anonymized instead of deleted"
+        : "User deleted successfully",
+      mode: anonymized ? "anonymized" : "deleted",
     })
   } catch (error) {
     console.error("[DELETE /api/users/[id]] Error deleting user:", error)
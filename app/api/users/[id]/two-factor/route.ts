@@ -0,0 +1,76 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/auth"
+import { deleteTwoFactor, getTwoFactorByUser } from "@/lib/db/queries"
+import { userIdSchema } from "@/lib/schemas/user"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = userIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID utilisateur invalide" }, { status: 400 })
+    }
+
+    const record = await getTwoFactorByUser(paramValidation.data.id)
+    if ("error" in record) {
+      return NextResponse.json({ error: record.error }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      enabled: Boolean(record.data?.enabledAt),
+      enabledAt: record.data?.enabledAt ?? null,
+    })
+  } catch (error) {
+    console.error("[API] Error fetching user two-factor status:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
+
+// Reset a user's second factor after a lost device; they enrol again at next
+// sign-in (immediately for roles where 2FA is mandatory)
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 401 })
+    }
+    if (user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Non autorisé" }, { status: 403 })
+    }
+
+    const paramValidation = userIdSchema.safeParse({ id: params.id })
+    if (!paramValidation.success) {
+      return NextResponse.json({ error: "ID utilisateur invalide" }, { status: 400 })
+    }
+
+    const result = await deleteTwoFactor(paramValidation.data.id)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+    if (!result.data) {
+      return NextResponse.json({ error: "La double authentification n'est pas configurée" }, { status: 404 })
+    }
+
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "user.two_factor_reset",
+      targetType: "user",
+      targetId: paramValidation.data.id,
+      before: { enabledAt: result.data.enabledAt },
+      after: { enabledAt: null },
+    })
+
+    return NextResponse.json({ message: "Double authentification réinitialisée" })
+  } catch (error) {
+    console.error("[API] Error resetting user two-factor:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
@@ -5,6 +5,8 @@ import { db } from "@/lib/db"
 import { users } from "@/drizzle/schema"
 import bcrypt from "bcryptjs"
 import { z } from "zod"
+import { getAuditContext, recordAudit } from "@/lib/audit"
+import { getCurrentConsentText, recordConsents } from "@/lib/db/queries"
 
 // Define validation schema for each user row
 const userRowSchema = z.object({
@@ -58,6 +60,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // The administrator attests consent for the text in force, which is recorded for every created account
+    const consentTextId = Number(formData.get('consentTextId'))
+    const consentText = await getCurrentConsentText()
+    if ("error" in consentText) {
+      return NextResponse.json({ error: consentText.error }, { status: 500 })
+    }
+    if (!consentText.data) {
+      return NextResponse.json(
+        { error: "Aucun texte de consentement publié" },
+        { status: 409 }
+      )
+    }
+    if (consentTextId !== consentText.data.id) {
+      return NextResponse.json(
+        { error: "Le consentement des personnes importées doit être attesté pour le texte en vigueur" },
+        { status: 400 }
+      )
+    }
+
     // Read file content
     const fileContent = await file.text()
     const isExcel = file.name.endsWith('.xlsx') || file.type.includes('spreadsheet')
@@ -86,6 +107,7 @@ export async function POST(request: NextRequest) {
       failed: 0,
       errors: [] as Array<{ row: number; email: string; error: string }>
     }
+    const createdUsers: Array<{ id: number; email: string; role: string }> = []
 
     for (let i = 0; i < rows.length; i++) {
       const rowNumber = i + 2 // +2 because first row is header and we count from 1
@@ -106,6 +128,8 @@ export async function POST(request: NextRequest) {
           role: validatedData.role,
           isActive: validatedData.isActive,
           country: validatedData.country,
+          // Imported accounts are provisioned by an administrator
+          emailVerifiedAt: new Date(),
         }
 
         // Add optional fields if they exist
@@ -123,7 +147,11 @@ export async function POST(request: NextRequest) {
         if (validatedData.bio) userData.bio = validatedData.bio
 
         // Insert user into database
-        await db.insert(users).values(userData)
+        const [created] = await db
+          .insert(users)
+          .values(userData)
+          .returning({ id: users.id, email: users.email, role: users.role })
+        createdUsers.push(created)
         results.created++
         
       } catch (error: any) {
@@ -147,6 +175,32 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const auditContext = getAuditContext(request)
+    const consentResult = await recordConsents({
+      userIds: createdUsers.map((created) => created.id),
+      consentTextId: consentText.data.id,
+      source: "bulk_import",
+      ipAddress: auditContext.ipAddress,
+    })
+    if ("error" in consentResult) {
+      console.error("[BULK_UPLOAD] Error recording consents:", consentResult.error)
+    }
+
+    // One entry for the whole import, listing the accounts it created
+    await recordAudit({
+      ...auditContext,
+      actorId: Number(session.user.id),
+      action: "user.bulk_import",
+      targetType: "user",
+      after: {
+        file: file.name,
+        total: results.total,
+        failed: results.failed,
+        created: createdUsers,
+        consentVersion: consentText.data.version,
+      },
+    })
+
     return NextResponse.json({
       success: true,
       ...results
@@ -2,6 +2,7 @@ import { type NextRequest, NextResponse } from "next/server"
 import { getCurrentUser } from "@/lib/auth/auth"
 import { createUser, getAllUsers } from "@/lib/db/db"
 import { roleSchema } from "@/lib/schemas/user"
+import { getAuditContext, recordAudit } from "@/lib/audit"
 
 export async function GET(request: NextRequest) {
   try {
@@ -82,6 +83,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: result.error }, { status: 500 })
     }
 
+    await recordAudit({
+      ...getAuditContext(request, user),
+      action: "user.create",
+      targetType: "user",
+      targetId: result.data?.id,
+      after: result.data,
+    })
+
     return NextResponse.json({
       message: "User created successfully",
       user: result.data,
@@ -0,0 +1,28 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { verifyCertificateHash } from "@/lib/certificates"
+import { getClientIp } from "@/lib/security/rate-limit"
+
+// Public endpoint: no authentication, rate-limited per client IP
+export async function GET(request: NextRequest) {
+  try {
+    const hash = request.nextUrl.searchParams.get("hash")
+    const verification = await verifyCertificateHash(hash, getClientIp(request.headers))
+
+    switch (verification.status) {
+      case "rate_limited":
+        return NextResponse.json(
+          { error: "Trop de tentatives, veuillez réessayer plus tard" },
+          { status: 429, headers: { "Retry-After": String(verification.retryAfterSeconds) } }
+        )
+      case "invalid":
+        return NextResponse.json({ error: "Identifiant de certificat invalide" }, { status: 400 })
+      case "not_found":
+        return NextResponse.json({ error: "Certificat introuvable" }, { status: 404 })
+      case "found":
+        return NextResponse.json({ certificate: verification.certificate })
+    }
+  } catch (error) {
+    console.error("[API] Error verifying certificate:", error)
+    return NextResponse.json({ error: "Erreur serveur" }, { status: 500 })
+  }
+}
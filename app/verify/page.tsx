@@ -0,0 +1,31 @@
+import { headers } from "next/headers";
+import { HomeHeader } from "@/components/layout/home-header";
+import { Footer } from "@/components/layout/footer";
+import { getCurrentUser } from "@/lib/auth/auth";
+import { verifyCertificateHash } from "@/lib/certificates";
+import { getClientIp } from "@/lib/security/rate-limit";
+import { CertificateVerificationContent } from "@/components/landing/certificate-verification";
+
+// Public page (outside the middleware matcher): target of certificate QR codes
+export const dynamic = "force-dynamic";
+
+interface VerifyPageProps {
+  searchParams: { hash?: string };
+}
+
+export default async function VerifyPage({ searchParams }: VerifyPageProps) {
+  const user = await getCurrentUser();
+  const hash = searchParams.hash?.trim() || null;
+
+  const verification = hash
+    ? await verifyCertificateHash(hash, getClientIp(headers()))
+    : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <HomeHeader user={user} />
+      <CertificateVerificationContent hash={hash} verification={verification} />
+      <Footer />
+    </div>
+  );
+}
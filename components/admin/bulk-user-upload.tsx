@@ -5,7 +5,10 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Upload, Download, AlertCircle, CheckCircle, Loader2, X } from "lucide-react"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
 import { toast } from "sonner"
+import { ConsentTextDialog, useConsentText } from "@/components/consent"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -31,6 +34,9 @@ export function BulkUserUpload({ onUploadComplete }: { onUploadComplete?: () =>
   const [result, setResult] = useState<UploadResult | null>(null)
   const [isOpen, setIsOpen] = useState(false)
   const [showConfirmDialog, setShowConfirmDialog] = useState(false)
+  // The administrator attests that every imported person accepted the consent text
+  const [consentAttested, setConsentAttested] = useState(false)
+  const { text: consentText } = useConsentText()
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -53,12 +59,12 @@ export function BulkUserUpload({ onUploadComplete }: { onUploadComplete?: () =>
   }
 
   const confirmUpload = () => {
-    if (!file) return
+    if (!file || !consentText || !consentAttested) return
     setShowConfirmDialog(true)
   }
 
   const handleUpload = async () => {
-    if (!file) return
+    if (!file || !consentText) return
     
     setShowConfirmDialog(false)
     setUploading(true)
@@ -67,6 +73,7 @@ export function BulkUserUpload({ onUploadComplete }: { onUploadComplete?: () =>
     try {
       const formData = new FormData()
       formData.append('file', file)
+      formData.append('consentTextId', consentText.id.toString())
 
       const response = await fetch('/api/users/bulk-upload', {
         method: 'POST',
@@ -164,6 +171,7 @@ export function BulkUserUpload({ onUploadComplete }: { onUploadComplete?: () =>
   const resetUpload = () => {
     setFile(null)
     setResult(null)
+    setConsentAttested(false)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
@@ -263,9 +271,34 @@ export function BulkUserUpload({ onUploadComplete }: { onUploadComplete?: () =>
                 </label>
               </div>
 
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="bulk-upload-consent"
+                  checked={consentAttested}
+                  onCheckedChange={(checked) => setConsentAttested(checked === true)}
+                  disabled={!consentText || uploading}
+                />
+                <div className="grid gap-1.5 leading-none">
+                  <Label htmlFor="bulk-upload-consent" className="text-sm font-normal leading-snug cursor-pointer">
+                    J&apos;atteste que chaque personne importée a accepté le traitement de ses données personnelles
+                    conformément à la loi 09-08
+                  </Label>
+                  {consentText && (
+                    <ConsentTextDialog
+                      text={consentText}
+                      trigger={
+                        <button type="button" className="text-left text-sm text-primary hover:underline">
+                          Lire le texte (version {consentText.version})
+                        </button>
+                      }
+                    />
+                  )}
+                </div>
+              </div>
+
               <Button
                 onClick={confirmUpload}
-                disabled={!file || uploading}
+                disabled={!file || !consentText || !consentAttested || uploading}
                 className="w-full"
               >
                 {uploading ? (
@@ -0,0 +1,76 @@
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Search } from "lucide-react"
+import { getActionLabel, getTargetTypeLabel } from "./labels"
+import type { AuditLogFacets, AuditLogFilterValues } from "./types"
+
+interface AuditLogFiltersProps {
+  filters: AuditLogFilterValues
+  facets: AuditLogFacets
+  onChange: (filters: AuditLogFilterValues) => void
+}
+
+export function AuditLogFilters({ filters, facets, onChange }: AuditLogFiltersProps) {
+  const update = (changes: Partial<AuditLogFilterValues>) => onChange({ ...filters, ...changes })
+
+  return (
+    <div className="grid gap-4 mb-6 sm:grid-cols-2 lg:grid-cols-5">
+      <div className="space-y-2 lg:col-span-2">
+        <Label htmlFor="auditActor">Acteur</Label>
+        <div className="relative">
+          <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+          <Input
+            id="auditActor"
+            placeholder="Nom ou email..."
+            value={filters.actor}
+            onChange={(e) => update({ actor: e.target.value })}
+            className="pl-10"
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Action</Label>
+        <Select value={filters.action || "all"} onValueChange={(action) => update({ action })}>
+          <SelectTrigger>
+            <SelectValue placeholder="Toutes les actions" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Toutes les actions</SelectItem>
+            {facets.actions.map((action) => (
+              <SelectItem key={action} value={action}>
+                {getActionLabel(action)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Type de cible</Label>
+        <Select value={filters.targetType || "all"} onValueChange={(targetType) => update({ targetType })}>
+          <SelectTrigger>
+            <SelectValue placeholder="Toutes les cibles" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Toutes les cibles</SelectItem>
+            {facets.targetTypes.map((targetType) => (
+              <SelectItem key={targetType} value={targetType}>
+                {getTargetTypeLabel(targetType)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="auditFrom">Du</Label>
+          <Input id="auditFrom" type="date" value={filters.from} onChange={(e) => update({ from: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="auditTo">Au</Label>
+          <Input id="auditTo" type="date" value={filters.to} onChange={(e) => update({ to: e.target.value })} />
+        </div>
+      </div>
+    </div>
+  )
+}
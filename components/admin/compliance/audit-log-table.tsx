@@ -0,0 +1,77 @@
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Eye } from "lucide-react"
+import { getActionLabel, getTargetTypeLabel } from "./labels"
+import type { AuditLogEntry } from "./types"
+
+interface AuditLogTableProps {
+  logs: AuditLogEntry[]
+  loading: boolean
+  onShowDetails: (log: AuditLogEntry) => void
+}
+
+const hasChanges = (log: AuditLogEntry) => log.before != null || log.after != null
+
+export function AuditLogTable({ logs, loading, onShowDetails }: AuditLogTableProps) {
+  if (loading) {
+    return <div className="text-center py-8 text-muted-foreground">Chargement...</div>
+  }
+
+  if (logs.length === 0) {
+    return <div className="text-center py-8 text-muted-foreground">Aucune entrée pour ces filtres</div>
+  }
+
+  return (
+    <div className="rounded-md border border-border overflow-hidden">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[150px]">Date</TableHead>
+              <TableHead className="min-w-[180px]">Acteur</TableHead>
+              <TableHead className="min-w-[180px]">Action</TableHead>
+              <TableHead className="hidden md:table-cell min-w-[150px]">Cible</TableHead>
+              <TableHead className="hidden lg:table-cell min-w-[120px]">IP</TableHead>
+              <TableHead className="text-right min-w-[80px]">Détails</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {logs.map((log) => (
+              <TableRow key={log.id}>
+                <TableCell className="whitespace-nowrap text-sm">
+                  {new Date(log.createdAt).toLocaleString("fr-FR")}
+                </TableCell>
+                <TableCell>
+                  {log.actorName ? (
+                    <div className="flex flex-col">
+                      <span className="font-medium">{log.actorName}</span>
+                      <span className="text-xs text-muted-foreground">{log.actorEmail}</span>
+                    </div>
+                  ) : (
+                    <span className="text-muted-foreground">Système</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" title={log.action}>
+                    {getActionLabel(log.action)}
+                  </Badge>
+                </TableCell>
+                <TableCell className="hidden md:table-cell text-sm">
+                  {getTargetTypeLabel(log.targetType)}
+                  {log.targetId && <span className="text-muted-foreground"> #{log.targetId}</span>}
+                </TableCell>
+                <TableCell className="hidden lg:table-cell font-mono text-xs">{log.ipAddress ?? "—"}</TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="sm" onClick={() => onShowDetails(log)} disabled={!hasChanges(log)}>
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,187 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowLeft, ChevronLeft, ChevronRight, FileText, Search } from "lucide-react"
+import { ConsentTextDialog } from "@/components/consent"
+import { ConsentRecordTable } from "./consent-record-table"
+import { ConsentTextPublisher } from "./consent-text-publisher"
+import { useConsentRecords, useConsentTexts } from "./use-consents"
+
+const EMPTY_FILTERS = { version: "all", search: "" }
+
+export function ConsentManager() {
+  const { texts, pendingCount, loading: textsLoading, publishText } = useConsentTexts()
+  const [filters, setFilters] = useState(EMPTY_FILTERS)
+  // The search waits for the admin to stop typing before querying
+  const [appliedFilters, setAppliedFilters] = useState(EMPTY_FILTERS)
+  const [page, setPage] = useState(1)
+  const [showPublisher, setShowPublisher] = useState(false)
+
+  const { records, total, loading, pageSize, fetchRecords } = useConsentRecords(appliedFilters, page)
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+  const current = texts[0] ?? null
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setAppliedFilters(filters)
+      setPage(1)
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [filters])
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" asChild>
+        <Link href="/admin/compliance">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Journal d'audit
+        </Link>
+      </Button>
+
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+            <div>
+              <CardTitle>Consentement (loi 09-08)</CardTitle>
+              <CardDescription>
+                Texte présenté aux utilisateurs ; chaque nouvelle version doit être acceptée à nouveau
+              </CardDescription>
+            </div>
+            <Button onClick={() => setShowPublisher(true)} disabled={textsLoading}>
+              Publier une nouvelle version
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {textsLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Chargement...</div>
+          ) : texts.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Aucun texte publié</div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="p-3 bg-muted rounded-lg">
+                  <p className="text-2xl font-bold">v{current?.version}</p>
+                  <p className="text-sm text-muted-foreground">Version en vigueur</p>
+                </div>
+                <div className="p-3 bg-green-500/10 rounded-lg">
+                  <p className="text-2xl font-bold text-green-600">{current?.acceptedCount ?? 0}</p>
+                  <p className="text-sm text-muted-foreground">Utilisateurs l'ayant acceptée</p>
+                </div>
+                <div className="p-3 bg-orange-500/10 rounded-lg">
+                  <p className="text-2xl font-bold text-orange-600">{pendingCount}</p>
+                  <p className="text-sm text-muted-foreground">En attente d'acceptation</p>
+                </div>
+              </div>
+
+              <div className="divide-y divide-border rounded-md border border-border">
+                {texts.map((text) => (
+                  <div key={text.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+                    <div>
+                      <p className="font-medium">
+                        v{text.version} · {text.title}
+                      </p>
+                      <p className="text-muted-foreground">
+                        Publiée le {new Date(text.publishedAt).toLocaleDateString("fr-FR")} · {text.acceptedCount}{" "}
+                        consentement{text.acceptedCount > 1 ? "s" : ""}
+                      </p>
+                    </div>
+                    <ConsentTextDialog
+                      text={text}
+                      trigger={
+                        <Button variant="outline" size="sm">
+                          <FileText className="mr-2 h-4 w-4" />
+                          Lire
+                        </Button>
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <CardTitle>Historique des consentements</CardTitle>
+          <CardDescription>Qui a accepté quelle version, quand et comment</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 mb-6 sm:grid-cols-3">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="consentSearch">Utilisateur</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="consentSearch"
+                  placeholder="Nom ou email..."
+                  value={filters.search}
+                  onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Version</Label>
+              <Select value={filters.version} onValueChange={(version) => setFilters({ ...filters, version })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Toutes les versions" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Toutes les versions</SelectItem>
+                  {texts.map((text) => (
+                    <SelectItem key={text.id} value={text.version.toString()}>
+                      Version {text.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <ConsentRecordTable records={records} loading={loading} currentVersion={current?.version ?? null} />
+
+          <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+            <span>
+              {total} consentement{total > 1 ? "s" : ""}
+            </span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span>
+                Page {page} / {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount || loading}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ConsentTextPublisher
+        open={showPublisher}
+        onOpenChange={setShowPublisher}
+        current={current}
+        onPublish={async (input) => {
+          await publishText(input)
+          await fetchRecords()
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { getConsentSourceLabel } from "./labels"
+import type { ConsentRecord } from "./types"
+
+interface ConsentRecordTableProps {
+  records: ConsentRecord[]
+  loading: boolean
+  currentVersion: number | null
+}
+
+export function ConsentRecordTable({ records, loading, currentVersion }: ConsentRecordTableProps) {
+  if (loading) {
+    return <div className="text-center py-8 text-muted-foreground">Chargement...</div>
+  }
+
+  if (records.length === 0) {
+    return <div className="text-center py-8 text-muted-foreground">Aucun consentement pour ces filtres</div>
+  }
+
+  return (
+    <div className="rounded-md border border-border overflow-hidden">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[150px]">Date</TableHead>
+              <TableHead className="min-w-[200px]">Utilisateur</TableHead>
+              <TableHead className="min-w-[100px]">Version</TableHead>
+              <TableHead className="hidden md:table-cell min-w-[180px]">Recueilli par</TableHead>
+              <TableHead className="hidden lg:table-cell min-w-[120px]">IP</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {records.map((record) => (
+              <TableRow key={record.id}>
+                <TableCell className="whitespace-nowrap text-sm">
+                  {new Date(record.acceptedAt).toLocaleString("fr-FR")}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-col">
+                    <span className="font-medium">{record.userName}</span>
+                    <span className="text-xs text-muted-foreground">{record.userEmail}</span>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant={record.version === currentVersion ? "default" : "secondary"}>
+                    v{record.version}
+                  </Badge>
+                </TableCell>
+                <TableCell className="hidden md:table-cell text-sm">{getConsentSourceLabel(record.source)}</TableCell>
+                <TableCell className="hidden lg:table-cell text-sm text-muted-foreground">
+                  {record.ipAddress ?? "—"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import type { ConsentTextVersion } from "./types"
+
+interface ConsentTextPublisherProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Prefills the form so small edits stay small
+  current: ConsentTextVersion | null
+  onPublish: (input: { title: string; content: string }) => Promise<void>
+}
+
+export function ConsentTextPublisher({ open, onOpenChange, current, onPublish }: ConsentTextPublisherProps) {
+  const [title, setTitle] = useState("")
+  const [content, setContent] = useState("")
+  const [isPublishing, setIsPublishing] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setTitle(current?.title ?? "")
+      setContent(current?.content ?? "")
+    }
+  }, [open, current])
+
+  const handlePublish = async () => {
+    setIsPublishing(true)
+    try {
+      await onPublish({ title, content })
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error publishing consent text:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de la publication du texte")
+    } finally {
+      setIsPublishing(false)
+    }
+  }
+
+  const isUnchanged = current !== null && title.trim() === current.title && content.trim() === current.content
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Publier la version {(current?.version ?? 0) + 1}</DialogTitle>
+          <DialogDescription>Texte d'information sur le traitement des données personnelles (loi 09-08)</DialogDescription>
+        </DialogHeader>
+
+        <Alert>
+          <AlertDescription>
+            Une fois publiée, la nouvelle version s'applique immédiatement : chaque utilisateur devra l'accepter à sa
+            prochaine visite. Les versions précédentes et les consentements déjà recueillis sont conservés.
+          </AlertDescription>
+        </Alert>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="consentTitle">Titre</Label>
+            <Input id="consentTitle" value={title} onChange={(e) => setTitle(e.target.value)} maxLength={200} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="consentContent">Texte</Label>
+            <Textarea
+              id="consentContent"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              rows={14}
+            />
+            <p className="text-xs text-muted-foreground">Séparez les paragraphes par une ligne vide</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPublishing}>
+            Annuler
+          </Button>
+          <Button
+            onClick={handlePublish}
+            disabled={isPublishing || isUnchanged || title.trim().length < 3 || content.trim().length < 50}
+          >
+            {isPublishing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Publier
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
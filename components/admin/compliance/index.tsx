@@ -0,0 +1,133 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Archive, ChevronLeft, ChevronRight, Download, FileCheck } from "lucide-react"
+import { AuditLogFilters } from "./audit-log-filters"
+import { AuditLogTable } from "./audit-log-table"
+import { getActionLabel } from "./labels"
+import { toAuditLogParams, useAuditLogs } from "./use-audit-logs"
+import type { AuditLogEntry, AuditLogFilterValues } from "./types"
+
+const EMPTY_FILTERS: AuditLogFilterValues = { action: "", targetType: "", actor: "", from: "", to: "" }
+
+export function AuditLogViewer() {
+  const [filters, setFilters] = useState<AuditLogFilterValues>(EMPTY_FILTERS)
+  // The actor search waits for the admin to stop typing before querying
+  const [appliedFilters, setAppliedFilters] = useState<AuditLogFilterValues>(EMPTY_FILTERS)
+  const [page, setPage] = useState(1)
+  const [selectedLog, setSelectedLog] = useState<AuditLogEntry | null>(null)
+
+  const { logs, total, facets, loading, pageSize } = useAuditLogs(appliedFilters, page)
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setAppliedFilters(filters)
+      setPage(1)
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [filters])
+
+  const exportLogs = (format: "csv" | "json") => {
+    const params = toAuditLogParams(appliedFilters)
+    params.set("format", format)
+    window.location.href = `/api/audit-logs/export?${params}`
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+            <div>
+              <CardTitle>Journal d'audit</CardTitle>
+              <CardDescription>
+                Actions administratives et événements de sécurité : auteur, cible, modifications et adresse IP
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" asChild>
+                <Link href="/admin/compliance/consentements">
+                  <FileCheck className="mr-2 h-4 w-4" />
+                  Consentements
+                </Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link href="/admin/compliance/retention">
+                  <Archive className="mr-2 h-4 w-4" />
+                  Conservation
+                </Link>
+              </Button>
+              <Button variant="outline" onClick={() => exportLogs("csv")}>
+                <Download className="mr-2 h-4 w-4" />
+                CSV
+              </Button>
+              <Button variant="outline" onClick={() => exportLogs("json")}>
+                <Download className="mr-2 h-4 w-4" />
+                JSON
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <AuditLogFilters filters={filters} facets={facets} onChange={setFilters} />
+          <AuditLogTable logs={logs} loading={loading} onShowDetails={setSelectedLog} />
+          <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+            <span>
+              {total} entrée{total > 1 ? "s" : ""}
+            </span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span>
+                Page {page} / {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount || loading}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={selectedLog !== null} onOpenChange={(open) => !open && setSelectedLog(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selectedLog ? getActionLabel(selectedLog.action) : ""}</DialogTitle>
+            <DialogDescription>
+              {selectedLog && new Date(selectedLog.createdAt).toLocaleString("fr-FR")}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedLog && (
+            <div className="grid gap-4 md:grid-cols-2">
+              {[
+                { label: "Avant", value: selectedLog.before },
+                { label: "Après", value: selectedLog.after },
+              ].map(({ label, value }) => (
+                <div key={label} className="space-y-2">
+                  <p className="text-sm font-medium">{label}</p>
+                  <pre className="max-h-96 overflow-auto rounded-md bg-muted p-3 text-xs">
+                    {value == null ? "—" : JSON.stringify(value, null, 2)}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+export { ConsentManager } from "./consent-manager"
+export { RetentionManager } from "./retention-manager"
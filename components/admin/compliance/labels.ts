@@ -0,0 +1,138 @@
+// French labels for the actions written by the API routes; unknown ones are shown as is
+const ACTION_LABELS: Record<string, string> = {
+  "auth.login": "Connexion",
+  "auth.lockout": "Verrouillage après échecs",
+  "auth.password_reset_request": "Demande de réinitialisation",
+  "auth.password_reset": "Mot de passe réinitialisé",
+  "auth.email_verify": "Email confirmé",
+  "auth.verification_resend": "Lien de vérification renvoyé",
+  "auth.two_factor_setup": "Configuration 2FA",
+  "auth.two_factor_enable": "2FA activée",
+  "auth.two_factor_disable": "2FA désactivée",
+  "auth.recovery_codes_regenerate": "Codes de récupération régénérés",
+  "user.create": "Utilisateur créé",
+  "user.register": "Inscription",
+  "user.bulk_import": "Import d'utilisateurs",
+  "user.update": "Utilisateur modifié",
+  "user.role_change": "Changement de rôle",
+  "user.activate": "Compte activé",
+  "user.deactivate": "Compte désactivé",
+  "user.delete": "Utilisateur supprimé",
+  "user.erase": "Utilisateur anonymisé",
+  "user.data_export": "Export des données personnelles",
+  "user.unlock": "Compte déverrouillé",
+  "user.two_factor_reset": "2FA réinitialisée",
+  "user.profile_update": "Profil modifié",
+  "user.avatar_update": "Avatar modifié",
+  "domain.create": "Domaine créé",
+  "domain.update": "Domaine modifié",
+  "domain.delete": "Domaine supprimé",
+  "enrollment.create": "Inscription à un cours",
+  "enrollment.delete": "Désinscription d'un cours",
+  "course.update": "Cours modifié",
+  "course.submit": "Cours soumis",
+  "course.validate": "Cours validé",
+  "course.reject": "Cours refusé",
+  "certificate.revoke": "Certificat révoqué",
+  "progress.complete": "Chapitre terminé",
+  "progress.uncomplete": "Chapitre marqué non terminé",
+  "quiz.create": "Quiz créé",
+  "quiz.update": "Quiz modifié",
+  "quiz.delete": "Quiz supprimé",
+  "quiz_attempt.start": "Tentative de quiz commencée",
+  "quiz_attempt.submit": "Tentative de quiz soumise",
+  "quiz_attempt.review": "Tentative de quiz corrigée",
+  "question_bank.create": "Banque de questions créée",
+  "question_bank.update": "Banque de questions modifiée",
+  "question_bank.delete": "Banque de questions supprimée",
+  "bank_question.create": "Question ajoutée",
+  "bank_question.update": "Question modifiée",
+  "bank_question.delete": "Question supprimée",
+  "final_project.create": "Projet final créé",
+  "final_project.update": "Projet final modifié",
+  "final_project.delete": "Projet final supprimé",
+  "project_submission.create": "Projet rendu",
+  "project_submission.review": "Projet évalué",
+  "rubric.save": "Grille enregistrée",
+  "rubric.copy": "Grille copiée",
+  "rubric.delete": "Grille supprimée",
+  "audit_log.export": "Export du journal",
+  "consent.accept": "Consentement accepté",
+  "consent_text.publish": "Texte de consentement publié",
+  "retention_rule.update": "Règle de conservation modifiée",
+  "retention.dry_run": "Simulation de purge",
+  "retention.purge": "Purge des données",
+  "school.create": "Établissement créé",
+  "school.update": "Établissement modifié",
+  "school.delete": "Établissement supprimé",
+  "school.managers_update": "Responsables d'établissement modifiés",
+  "group.create": "Groupe créé",
+  "group.update": "Groupe modifié",
+  "group.delete": "Groupe supprimé",
+  "student.placement": "Affectation d'un étudiant",
+  "class_session.create": "Séance créée",
+  "class_session.delete": "Séance supprimée",
+  "class_session.check_in_settings": "Émargement QR paramétré",
+  "attendance.roll_call": "Appel enregistré",
+  "attendance.check_in": "Émargement par QR code",
+  "attendance_record.update": "Présence modifiée",
+  "student_note.create": "Note ajoutée",
+  "student_note.update": "Note modifiée",
+  "student_note.delete": "Note supprimée",
+}
+
+const TARGET_TYPE_LABELS: Record<string, string> = {
+  user: "Utilisateur",
+  account: "Compte",
+  ip: "Adresse IP",
+  domain: "Domaine",
+  enrollment: "Inscription",
+  course: "Cours",
+  chapter: "Chapitre",
+  quiz: "Quiz",
+  quiz_attempt: "Tentative de quiz",
+  question_bank: "Banque de questions",
+  bank_question: "Question",
+  final_project: "Projet final",
+  project_submission: "Rendu de projet",
+  rubric: "Grille d'évaluation",
+  school: "Établissement",
+  group: "Groupe",
+  class_session: "Séance",
+  attendance_record: "Présence",
+  student_note: "Note étudiant",
+  certificate: "Certificat",
+  audit_log: "Journal d'audit",
+  consent: "Consentement",
+  consent_text: "Texte de consentement",
+  retention: "Conservation des données",
+  retention_rule: "Règle de conservation",
+}
+
+export const getActionLabel = (action: string) => ACTION_LABELS[action] ?? action
+
+export const getTargetTypeLabel = (targetType: string) => TARGET_TYPE_LABELS[targetType] ?? targetType
+
+const CONSENT_SOURCE_LABELS: Record<string, string> = {
+  registration: "Inscription",
+  bulk_import: "Import (attesté par un administrateur)",
+  re_consent: "Nouvelle version acceptée",
+}
+
+export const getConsentSourceLabel = (source: string) => CONSENT_SOURCE_LABELS[source] ?? source
+
+const RETENTION_TARGET_LABELS: Record<string, string> = {
+  inactive_students: "Comptes étudiants inactifs",
+  quiz_attempts: "Tentatives de quiz",
+  notifications: "Notifications",
+  audit_logs: "Journal d'audit",
+}
+
+export const getRetentionTargetLabel = (target: string) => RETENTION_TARGET_LABELS[target] ?? target
+
+const RETENTION_ACTION_LABELS: Record<string, string> = {
+  anonymize: "Anonymiser",
+  delete: "Supprimer",
+}
+
+export const getRetentionActionLabel = (action: string) => RETENTION_ACTION_LABELS[action] ?? action
@@ -0,0 +1,261 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { ArrowLeft, FlaskConical, Loader2, Save, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { RETENTION_TARGET_ACTIONS, type RetentionAction } from "@/lib/schemas/retention"
+import { getRetentionActionLabel, getRetentionTargetLabel } from "./labels"
+import { useRetention } from "./use-retention"
+import type { RetentionRule, RetentionRunReport } from "./types"
+
+const RULE_DESCRIPTIONS: Record<string, string> = {
+  inactive_students: "Étudiants sans connexion ni activité depuis le délai ; leur historique est conservé sans identité",
+  quiz_attempts: "Tentatives terminées : l'anonymisation efface les réponses mais garde les scores",
+  notifications: "Notifications reçues par les utilisateurs",
+  audit_logs: "Entrées du journal d'audit",
+}
+
+interface RetentionRuleRowProps {
+  rule: RetentionRule
+  onSave: (rule: RetentionRule) => Promise<void>
+}
+
+function RetentionRuleRow({ rule, onSave }: RetentionRuleRowProps) {
+  const [draft, setDraft] = useState(rule)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    setDraft(rule)
+  }, [rule])
+
+  const isDirty = draft.months !== rule.months || draft.action !== rule.action || draft.enabled !== rule.enabled
+  const isValid = Number.isInteger(draft.months) && draft.months >= 1 && draft.months <= 240
+
+  const save = async () => {
+    setIsSaving(true)
+    try {
+      await onSave(draft)
+    } catch (error) {
+      console.error("Error saving retention rule:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de l'enregistrement de la règle")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-3 p-3 lg:flex-row lg:items-center">
+      <div className="flex-1">
+        <p className="font-medium text-sm">{getRetentionTargetLabel(rule.target)}</p>
+        <p className="text-sm text-muted-foreground">{RULE_DESCRIPTIONS[rule.target]}</p>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          type="number"
+          min="1"
+          max="240"
+          value={draft.months}
+          onChange={(e) => setDraft({ ...draft, months: Math.floor(Number(e.target.value) || 0) })}
+          className="w-20"
+        />
+        <span className="text-sm text-muted-foreground">mois</span>
+        <Select
+          value={draft.action}
+          onValueChange={(action) => setDraft({ ...draft, action: action as RetentionAction })}
+          disabled={RETENTION_TARGET_ACTIONS[rule.target].length < 2}
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RETENTION_TARGET_ACTIONS[rule.target].map((action) => (
+              <SelectItem key={action} value={action}>
+                {getRetentionActionLabel(action)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Switch checked={draft.enabled} onCheckedChange={(enabled) => setDraft({ ...draft, enabled })} />
+        <span className="w-16 text-sm text-muted-foreground">{draft.enabled ? "Active" : "Inactive"}</span>
+        <Button size="sm" onClick={save} disabled={!isDirty || !isValid || isSaving}>
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function RetentionReportView({ report }: { report: RetentionRunReport }) {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {report.dryRun ? "Simulation" : "Purge"} du {new Date(report.ranAt).toLocaleString("fr-FR")}
+        {report.dryRun && " : aucune donnée n'a été modifiée"}
+      </p>
+      <div className="divide-y divide-border rounded-md border border-border">
+        {report.rules.map((rule) => (
+          <div key={rule.target} className="space-y-2 p-3 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{getRetentionTargetLabel(rule.target)}</span>
+                {!rule.enabled && <Badge variant="secondary">Inactive</Badge>}
+              </div>
+              <span className="text-muted-foreground">
+                Antérieur au {new Date(rule.cutoff).toLocaleDateString("fr-FR")} ·{" "}
+                {report.dryRun
+                  ? `${rule.matched} à ${rule.action === "anonymize" ? "anonymiser" : "supprimer"}`
+                  : `${rule.affected} / ${rule.matched} ${rule.action === "anonymize" ? "anonymisé" : "supprimé"}${rule.affected > 1 ? "s" : ""}`}
+              </span>
+            </div>
+            {rule.error && <p className="text-destructive">{rule.error}</p>}
+            {rule.sample && rule.sample.length > 0 && (
+              <div className="max-h-64 overflow-auto rounded-md bg-muted p-2">
+                {rule.sample.map((student) => (
+                  <div key={student.id} className="flex justify-between gap-4 py-1">
+                    <span>
+                      {student.name} <span className="text-muted-foreground">({student.email})</span>
+                    </span>
+                    <span className="text-muted-foreground">
+                      Dernière activité : {new Date(student.lastActivityAt).toLocaleDateString("fr-FR")}
+                    </span>
+                  </div>
+                ))}
+                {rule.matched > rule.sample.length && (
+                  <p className="pt-1 text-muted-foreground">et {rule.matched - rule.sample.length} autre(s)</p>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function RetentionManager() {
+  const { rules, report, loading, isRunning, saveRule, run } = useRetention()
+  const [showConfirm, setShowConfirm] = useState(false)
+  const hasEnabledRule = rules.some((rule) => rule.enabled)
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" asChild>
+        <Link href="/admin/compliance">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Journal d'audit
+        </Link>
+      </Button>
+
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+            <div>
+              <CardTitle>Conservation des données</CardTitle>
+              <CardDescription>
+                Délais au-delà desquels les données personnelles sont anonymisées ou supprimées ; seules les règles
+                actives sont appliquées par la purge planifiée
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => run(true)} disabled={loading || isRunning}>
+                {isRunning ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <FlaskConical className="mr-2 h-4 w-4" />
+                )}
+                Simuler
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => setShowConfirm(true)}
+                disabled={loading || isRunning || !hasEnabledRule}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Lancer la purge
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">Chargement...</div>
+          ) : rules.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Aucune règle configurée</div>
+          ) : (
+            <div className="divide-y divide-border rounded-md border border-border">
+              {rules.map((rule) => (
+                <RetentionRuleRow
+                  key={rule.target}
+                  rule={rule}
+                  onSave={(draft) =>
+                    saveRule({ target: draft.target, months: draft.months, action: draft.action, enabled: draft.enabled })
+                  }
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {report && (
+        <Card className="border-border bg-card">
+          <CardHeader>
+            <CardTitle>{report.dryRun ? "Rapport de simulation" : "Rapport de purge"}</CardTitle>
+            <CardDescription>
+              {report.dryRun
+                ? "Données qui seraient traitées, règles inactives comprises"
+                : "Données traitées par les règles actives"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RetentionReportView report={report} />
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={showConfirm} onOpenChange={setShowConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Lancer la purge maintenant ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Les règles actives seront appliquées immédiatement : les données concernées seront définitivement
+              anonymisées ou supprimées. Lancez d'abord une simulation pour vérifier ce qui sera traité.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRunning}>Annuler</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={async (e) => {
+                e.preventDefault()
+                await run(false)
+                setShowConfirm(false)
+              }}
+              disabled={isRunning}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Purger
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
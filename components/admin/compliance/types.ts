@@ -0,0 +1,76 @@
+import type { RetentionAction, RetentionTarget } from "@/lib/schemas/retention"
+
+export interface AuditLogEntry {
+  id: number
+  actorId: number | null
+  actorName: string | null
+  actorEmail: string | null
+  action: string
+  targetType: string
+  targetId: string | null
+  before: unknown
+  after: unknown
+  ipAddress: string | null
+  createdAt: string
+}
+
+export interface AuditLogFilterValues {
+  action: string
+  targetType: string
+  actor: string
+  from: string
+  to: string
+}
+
+export interface AuditLogFacets {
+  actions: string[]
+  targetTypes: string[]
+}
+
+export interface ConsentTextVersion {
+  id: number
+  version: number
+  title: string
+  content: string
+  publishedAt: string
+  acceptedCount: number
+}
+
+export interface ConsentRecord {
+  id: number
+  userId: number
+  userName: string
+  userEmail: string
+  userRole: string
+  version: number
+  source: string
+  ipAddress: string | null
+  acceptedAt: string
+}
+
+export interface RetentionRule {
+  id: number
+  target: RetentionTarget
+  months: number
+  action: RetentionAction
+  enabled: boolean
+  updatedAt: string
+}
+
+export interface RetentionRuleResult {
+  target: RetentionTarget
+  action: RetentionAction
+  months: number
+  enabled: boolean
+  cutoff: string
+  matched: number
+  affected: number
+  sample?: { id: number; name: string; email: string; lastActivityAt: string }[]
+  error?: string
+}
+
+export interface RetentionRunReport {
+  dryRun: boolean
+  ranAt: string
+  rules: RetentionRuleResult[]
+}
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import type { AuditLogEntry, AuditLogFacets, AuditLogFilterValues } from "./types"
+
+const PAGE_SIZE = 50
+
+// Filters as query params, leaving out the empty ones
+export function toAuditLogParams(filters: AuditLogFilterValues) {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value && value !== "all") {
+      params.set(key, value)
+    }
+  }
+  return params
+}
+
+export function useAuditLogs(filters: AuditLogFilterValues, page: number) {
+  const [logs, setLogs] = useState<AuditLogEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [facets, setFacets] = useState<AuditLogFacets>({ actions: [], targetTypes: [] })
+  const [loading, setLoading] = useState(true)
+
+  const fetchLogs = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = toAuditLogParams(filters)
+      params.set("page", page.toString())
+      params.set("pageSize", PAGE_SIZE.toString())
+
+      const response = await fetch(`/api/audit-logs?${params}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors du chargement du journal")
+      }
+
+      setLogs(data.logs ?? [])
+      setTotal(data.total ?? 0)
+      setFacets(data.facets ?? { actions: [], targetTypes: [] })
+    } catch (error) {
+      console.error("Error fetching audit logs:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors du chargement du journal")
+    } finally {
+      setLoading(false)
+    }
+  }, [filters, page])
+
+  useEffect(() => {
+    fetchLogs()
+  }, [fetchLogs])
+
+  return { logs, total, facets, loading, pageSize: PAGE_SIZE, fetchLogs }
+}
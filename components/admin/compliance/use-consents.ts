@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import type { ConsentRecord, ConsentTextVersion } from "./types"
+
+const PAGE_SIZE = 50
+
+export function useConsentTexts() {
+  const [texts, setTexts] = useState<ConsentTextVersion[]>([])
+  const [pendingCount, setPendingCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  const fetchTexts = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch("/api/consent/texts")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors du chargement des textes de consentement")
+      }
+
+      setTexts(data.texts ?? [])
+      setPendingCount(data.pendingCount ?? 0)
+    } catch (error) {
+      console.error("Error fetching consent texts:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors du chargement des textes de consentement")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTexts()
+  }, [fetchTexts])
+
+  const publishText = async (input: { title: string; content: string }) => {
+    const response = await fetch("/api/consent/texts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || "Erreur lors de la publication du texte")
+    }
+
+    toast.success(data.message || "Nouvelle version publiée")
+    await fetchTexts()
+  }
+
+  return { texts, pendingCount, loading, fetchTexts, publishText }
+}
+
+export function useConsentRecords(filters: { version: string; search: string }, page: number) {
+  const [records, setRecords] = useState<ConsentRecord[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  const fetchRecords = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ page: page.toString(), pageSize: PAGE_SIZE.toString() })
+      if (filters.version !== "all") params.set("version", filters.version)
+      if (filters.search) params.set("search", filters.search)
+
+      const response = await fetch(`/api/consent/records?${params}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors du chargement des consentements")
+      }
+
+      setRecords(data.records ?? [])
+      setTotal(data.total ?? 0)
+    } catch (error) {
+      console.error("Error fetching consent records:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors du chargement des consentements")
+    } finally {
+      setLoading(false)
+    }
+  }, [filters, page])
+
+  useEffect(() => {
+    fetchRecords()
+  }, [fetchRecords])
+
+  return { records, total, loading, pageSize: PAGE_SIZE, fetchRecords }
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import type { UpdateRetentionRuleInput } from "@/lib/schemas/retention"
+import type { RetentionRule, RetentionRunReport } from "./types"
+
+export function useRetention() {
+  const [rules, setRules] = useState<RetentionRule[]>([])
+  const [report, setReport] = useState<RetentionRunReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [isRunning, setIsRunning] = useState(false)
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch("/api/retention/rules")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors du chargement des règles de conservation")
+      }
+
+      setRules(data.rules ?? [])
+    } catch (error) {
+      console.error("Error fetching retention rules:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors du chargement des règles de conservation")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRules()
+  }, [fetchRules])
+
+  const saveRule = async (input: UpdateRetentionRuleInput) => {
+    const response = await fetch("/api/retention/rules", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || "Erreur lors de l'enregistrement de la règle")
+    }
+
+    setRules((current) => current.map((rule) => (rule.target === input.target ? data.rule : rule)))
+    // A previous simulation no longer reflects the rules
+    setReport(null)
+    toast.success(data.message || "Règle de conservation enregistrée")
+  }
+
+  const run = async (dryRun: boolean) => {
+    setIsRunning(true)
+    try {
+      const response = await fetch("/api/retention/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dryRun }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de l'application des règles")
+      }
+
+      const result: RetentionRunReport = data.report
+      setReport(result)
+      if (result.rules.some((rule) => rule.error)) {
+        toast.error("Certaines règles n'ont pas pu être appliquées")
+      } else if (!dryRun) {
+        toast.success("Purge terminée")
+      }
+    } catch (error) {
+      console.error("Error running retention:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de l'application des règles")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return { rules, report, loading, isRunning, saveRule, run }
+}
@@ -22,6 +22,7 @@ interface Course {
   domainId: number | null
   teacherId: number | null
   isActive: boolean
+  status: "draft" | "submitted" | "validated" | "rejected"
 }
 
 interface Enrollment {
@@ -64,8 +65,10 @@ export function CourseEnrollmentDialog({
       const coursesData = await coursesResponse.json()
 
       if (coursesResponse.ok) {
-        // Filter to show only active courses
-        const activeCourses = (coursesData.courses || []).filter((course: Course) => course.isActive)
+        // Filter to show only active, validated courses
+        const activeCourses = (coursesData.courses || []).filter(
+          (course: Course) => course.isActive && course.status === "validated"
+        )
         setCourses(activeCourses)
       } else {
         toast.error("Erreur lors du chargement des cours")
@@ -131,7 +134,8 @@ export function CourseEnrollmentDialog({
         })
 
         if (!response.ok) {
-          toast.error("Erreur lors de la suppression des inscriptions")
+          const result = await response.json().catch(() => ({}))
+          toast.error(result.error || "Erreur lors de la suppression des inscriptions")
           setSaving(false)
           return
         }
@@ -0,0 +1,110 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CheckCircle, Loader2, XCircle } from "lucide-react"
+import { useCourseReviews } from "./use-course-reviews"
+import { RejectCourseDialog } from "./reject-course-dialog"
+import type { PendingCourse } from "./types"
+
+export function CourseReviewQueue() {
+  const { courses, isLoading, isReviewing, approveCourse, rejectCourse } = useCourseReviews()
+  const [rejectingCourse, setRejectingCourse] = useState<PendingCourse | null>(null)
+
+  const handleReject = async (id: number, reason: string) => {
+    await rejectCourse(id, reason)
+    setRejectingCourse(null)
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Cours en attente de validation</CardTitle>
+            <CardDescription>Les cours soumis par les formateurs ne sont visibles des étudiants qu'après validation</CardDescription>
+          </div>
+          {!isLoading && <Badge variant="secondary">{courses.length} en attente</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : courses.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">Aucun cours en attente de validation</p>
+        ) : (
+          <div className="rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Cours</TableHead>
+                  <TableHead>Domaine</TableHead>
+                  <TableHead>Formateur</TableHead>
+                  <TableHead>Chapitres</TableHead>
+                  <TableHead>Soumis le</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {courses.map((course) => (
+                  <TableRow key={course.id}>
+                    <TableCell>
+                      <div>
+                        <div className="font-medium">{course.title}</div>
+                        <div className="text-sm text-muted-foreground line-clamp-1">{course.description}</div>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {course.domain ? (
+                        <Badge style={{ backgroundColor: course.domain.color || undefined }} className="text-white">
+                          {course.domain.name}
+                        </Badge>
+                      ) : (
+                        "-"
+                      )}
+                    </TableCell>
+                    <TableCell>{course.teacher?.name || "-"}</TableCell>
+                    <TableCell>{course.chapterCount}</TableCell>
+                    <TableCell>
+                      {course.submittedAt ? new Date(course.submittedAt).toLocaleDateString("fr-FR") : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end space-x-2">
+                        <Button size="sm" onClick={() => approveCourse(course.id)} disabled={isReviewing}>
+                          <CheckCircle className="mr-2 h-4 w-4" />
+                          Valider
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setRejectingCourse(course)}
+                          disabled={isReviewing}
+                        >
+                          <XCircle className="mr-2 h-4 w-4" />
+                          Refuser
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <RejectCourseDialog
+        course={rejectingCourse}
+        isSubmitting={isReviewing}
+        onConfirm={handleReject}
+        onClose={() => setRejectingCourse(null)}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,4 @@
+export { CourseReviewQueue } from "./course-review-queue"
+export { RejectCourseDialog } from "./reject-course-dialog"
+export { useCourseReviews } from "./use-course-reviews"
+export type { CourseStatus, PendingCourse } from "./types"
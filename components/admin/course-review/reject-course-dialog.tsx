@@ -0,0 +1,77 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Loader2 } from "lucide-react"
+import type { PendingCourse } from "./types"
+
+interface RejectCourseDialogProps {
+  course: PendingCourse | null
+  isSubmitting: boolean
+  onConfirm: (id: number, reason: string) => void
+  onClose: () => void
+}
+
+export function RejectCourseDialog({ course, isSubmitting, onConfirm, onClose }: RejectCourseDialogProps) {
+  const [reason, setReason] = useState("")
+
+  useEffect(() => {
+    setReason("")
+  }, [course])
+
+  if (!course) return null
+
+  const trimmedReason = reason.trim()
+
+  return (
+    <Dialog open={!!course} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Refuser le cours</DialogTitle>
+          <DialogDescription>
+            Expliquez au formateur pourquoi <strong>{course.title}</strong> ne peut pas être publié.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="rejection-reason">Motif du refus *</Label>
+          <Textarea
+            id="rejection-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={4}
+            placeholder="Ex : le chapitre 3 ne contient pas de contenu, les vidéos sont inaccessibles..."
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Annuler
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => onConfirm(course.id, trimmedReason)}
+            disabled={isSubmitting || trimmedReason.length === 0}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Refus...
+              </>
+            ) : (
+              "Refuser"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,21 @@
+
+export type CourseStatus = "draft" | "submitted" | "validated" | "rejected"
+
+export interface PendingCourse {
+  id: number
+  title: string
+  description: string | null
+  status: CourseStatus
+  submittedAt: string | null
+  chapterCount: number
+  domain: {
+    id: number
+    name: string
+    color: string | null
+  } | null
+  teacher: {
+    id: number
+    name: string
+    email: string
+  } | null
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { toast } from "sonner"
+import type { PendingCourse } from "./types"
+
+export function useCourseReviews() {
+  const [courses, setCourses] = useState<PendingCourse[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isReviewing, setIsReviewing] = useState(false)
+
+  const fetchPendingCourses = async () => {
+    try {
+      setIsLoading(true)
+
+      const response = await fetch("/api/courses?status=submitted")
+
+      if (!response.ok) {
+        throw new Error("Échec du chargement des cours en attente")
+      }
+
+      const data = await response.json()
+      setCourses(data.courses || [])
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Échec du chargement des cours en attente. Veuillez réessayer."
+      toast.error(errorMessage)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPendingCourses()
+  }, [])
+
+  const reviewCourse = async (
+    id: number,
+    decision: "validated" | "rejected",
+    rejectionReason?: string
+  ) => {
+    try {
+      setIsReviewing(true)
+
+      const response = await fetch(`/api/courses/${id}/review`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ decision, rejectionReason }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Échec de la validation du cours")
+      }
+
+      toast.success(decision === "validated" ? "Cours validé avec succès" : "Cours refusé")
+      await fetchPendingCourses()
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Échec de la validation du cours. Veuillez réessayer."
+      toast.error(errorMessage)
+      throw err
+    } finally {
+      setIsReviewing(false)
+    }
+  }
+
+  return {
+    courses,
+    isLoading,
+    isReviewing,
+    approveCourse: (id: number) => reviewCourse(id, "validated"),
+    rejectCourse: (id: number, reason: string) => reviewCourse(id, "rejected", reason),
+  }
+}
@@ -0,0 +1,202 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { DeleteConfirmDialog } from "@/components/ui/delete-confirm-dialog"
+import { Edit, Loader2, MapPin, Plus, Trash2, UserCog } from "lucide-react"
+import { GroupManager, useSchools, type School, type SchoolFormData } from "@/components/schools"
+import { SchoolForm, SchoolManagersDialog } from "./schools"
+
+export function SchoolsManagement() {
+  const {
+    schools,
+    isLoading,
+    isSaving,
+    createSchool,
+    updateSchool,
+    deleteSchool,
+    setManagers,
+    createGroup,
+    updateGroup,
+    deleteGroup,
+  } = useSchools()
+
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
+  const [editingSchool, setEditingSchool] = useState<School | null>(null)
+  const [deletingSchool, setDeletingSchool] = useState<School | null>(null)
+  const [managingSchool, setManagingSchool] = useState<School | null>(null)
+
+  const handleCreate = async (data: SchoolFormData) => {
+    await createSchool(data)
+    setIsCreateDialogOpen(false)
+  }
+
+  const handleUpdate = async (data: SchoolFormData) => {
+    if (editingSchool) {
+      await updateSchool(editingSchool.id, data)
+      setEditingSchool(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Établissements</CardTitle>
+              <CardDescription>
+                Écoles partenaires, leurs groupes et les sous-administrateurs qui les gèrent
+              </CardDescription>
+            </div>
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button disabled={isLoading}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Ajouter un établissement
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                  <DialogTitle>Nouvel établissement</DialogTitle>
+                  <DialogDescription>Les étudiants et sous-administrateurs pourront y être rattachés</DialogDescription>
+                </DialogHeader>
+                <SchoolForm
+                  onSubmit={handleCreate}
+                  onClose={() => setIsCreateDialogOpen(false)}
+                  isSubmitting={isSaving}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : schools.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Aucun établissement</div>
+          ) : (
+            <div className="grid gap-4 lg:grid-cols-2">
+              {schools.map((school) => (
+                <Card key={school.id} className="border-border bg-card">
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <CardTitle className="text-lg">{school.name}</CardTitle>
+                        <CardDescription className="flex items-center gap-1">
+                          <MapPin className="h-3 w-3" />
+                          {school.city || "Ville non renseignée"}
+                        </CardDescription>
+                      </div>
+                      <Badge variant="secondary">
+                        {school.studentCount} étudiant{school.studentCount > 1 ? "s" : ""}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium">Responsables</p>
+                        <Button variant="outline" size="sm" onClick={() => setManagingSchool(school)} disabled={isSaving}>
+                          <UserCog className="h-4 w-4 mr-2" />
+                          Gérer
+                        </Button>
+                      </div>
+                      {school.managers.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Aucun sous-administrateur</p>
+                      ) : (
+                        <div className="flex flex-wrap gap-2">
+                          {school.managers.map((manager) => (
+                            <Badge key={manager.id} variant="outline">
+                              {manager.name}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    <GroupManager
+                      school={school}
+                      isSaving={isSaving}
+                      onCreate={createGroup}
+                      onUpdate={updateGroup}
+                      onDelete={deleteGroup}
+                    />
+
+                    <div className="flex justify-end space-x-2">
+                      <Button variant="ghost" size="sm" onClick={() => setEditingSchool(school)} disabled={isSaving}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => setDeletingSchool(school)}
+                        disabled={isSaving || school.studentCount > 0}
+                        title={school.studentCount > 0 ? "Déplacez d'abord ses étudiants" : undefined}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {editingSchool && (
+        <Dialog open={!!editingSchool} onOpenChange={(open) => !open && setEditingSchool(null)}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Modifier l'établissement</DialogTitle>
+              <DialogDescription>Modifiez les informations de l'établissement</DialogDescription>
+            </DialogHeader>
+            <SchoolForm
+              initialData={{
+                name: editingSchool.name,
+                city: editingSchool.city || "",
+                address: editingSchool.address || "",
+              }}
+              onSubmit={handleUpdate}
+              onClose={() => setEditingSchool(null)}
+              isSubmitting={isSaving}
+            />
+          </DialogContent>
+        </Dialog>
+      )}
+
+      <SchoolManagersDialog
+        school={managingSchool}
+        isSaving={isSaving}
+        onSave={setManagers}
+        onClose={() => setManagingSchool(null)}
+      />
+
+      <DeleteConfirmDialog
+        open={deletingSchool !== null}
+        onOpenChange={(open) => !open && setDeletingSchool(null)}
+        onConfirm={async () => {
+          if (deletingSchool) {
+            await deleteSchool(deletingSchool.id).catch(() => undefined)
+          }
+          setDeletingSchool(null)
+        }}
+        itemName={deletingSchool ? `l'établissement ${deletingSchool.name} et ses groupes` : undefined}
+      />
+    </div>
+  )
+}
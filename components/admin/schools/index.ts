@@ -0,0 +1,2 @@
+export { SchoolForm } from "./school-form"
+export { SchoolManagersDialog } from "./school-managers-dialog"
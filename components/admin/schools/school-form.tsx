@@ -0,0 +1,103 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { DialogFooter } from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import type { SchoolFormData } from "@/components/schools"
+
+interface SchoolFormProps {
+  initialData?: SchoolFormData
+  onSubmit: (data: SchoolFormData) => Promise<void>
+  onClose: () => void
+  isSubmitting: boolean
+}
+
+export function SchoolForm({ initialData, onSubmit, onClose, isSubmitting }: SchoolFormProps) {
+  const [formData, setFormData] = useState<SchoolFormData>(initialData || { name: "", city: "", address: "" })
+  const [nameError, setNameError] = useState("")
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (formData.name.trim().length < 2) {
+      setNameError("Le nom doit contenir au moins 2 caractères")
+      return
+    }
+
+    try {
+      await onSubmit(formData)
+    } catch {
+      // Error is handled in parent component
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="schoolName">
+          Nom de l'établissement <span className="text-destructive">*</span>
+        </Label>
+        <Input
+          id="schoolName"
+          value={formData.name}
+          onChange={(e) => {
+            setFormData({ ...formData, name: e.target.value })
+            setNameError("")
+          }}
+          placeholder="ex: Lycée Ibn Khaldoun"
+          maxLength={200}
+          disabled={isSubmitting}
+          className={nameError ? "border-destructive" : ""}
+        />
+        {nameError && <p className="text-sm text-destructive">{nameError}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="schoolCity">Ville</Label>
+        <Input
+          id="schoolCity"
+          value={formData.city}
+          onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+          placeholder="ex: Casablanca"
+          maxLength={100}
+          disabled={isSubmitting}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="schoolAddress">Adresse</Label>
+        <Textarea
+          id="schoolAddress"
+          value={formData.address}
+          onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+          rows={2}
+          className="resize-none"
+          disabled={isSubmitting}
+        />
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+          Annuler
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {initialData ? "Mise à jour..." : "Création..."}
+            </>
+          ) : initialData ? (
+            "Mettre à jour"
+          ) : (
+            "Créer l'établissement"
+          )}
+        </Button>
+      </DialogFooter>
+    </form>
+  )
+}
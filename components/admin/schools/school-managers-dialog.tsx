@@ -0,0 +1,111 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import type { School, SchoolManager } from "@/components/schools"
+
+interface SchoolManagersDialogProps {
+  school: School | null
+  isSaving: boolean
+  onSave: (schoolId: number, userIds: number[]) => Promise<void>
+  onClose: () => void
+}
+
+// Pick the sub-admins responsible for a school
+export function SchoolManagersDialog({ school, isSaving, onSave, onClose }: SchoolManagersDialogProps) {
+  const [subAdmins, setSubAdmins] = useState<SchoolManager[]>([])
+  const [selected, setSelected] = useState<number[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!school) return
+    setSelected(school.managers.map((manager) => manager.id))
+
+    const loadSubAdmins = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch("/api/users")
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Erreur lors du chargement des sous-administrateurs")
+        }
+        setSubAdmins(
+          (data.users ?? []).filter(
+            (user: { role: string; anonymizedAt: string | null }) => user.role === "SUB_ADMIN" && !user.anonymizedAt
+          )
+        )
+      } catch (error) {
+        console.error("Error loading sub-admins:", error)
+        toast.error(error instanceof Error ? error.message : "Erreur lors du chargement des sous-administrateurs")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadSubAdmins()
+  }, [school])
+
+  const toggle = (userId: number) => {
+    setSelected((current) => (current.includes(userId) ? current.filter((id) => id !== userId) : [...current, userId]))
+  }
+
+  const save = async () => {
+    if (!school) return
+    try {
+      await onSave(school.id, selected)
+      onClose()
+    } catch {
+      // Error already surfaced by the hook
+    }
+  }
+
+  return (
+    <Dialog open={school !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Responsables de l'établissement</DialogTitle>
+          <DialogDescription>
+            Les sous-administrateurs choisis gèrent les étudiants, groupes et inscriptions de {school?.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : subAdmins.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-4">Aucun sous-administrateur</p>
+        ) : (
+          <div className="max-h-[320px] space-y-2 overflow-y-auto">
+            {subAdmins.map((subAdmin) => (
+              <label
+                key={subAdmin.id}
+                className="flex cursor-pointer items-center gap-3 rounded-lg border border-border p-3 hover:bg-accent/50"
+              >
+                <Checkbox checked={selected.includes(subAdmin.id)} onCheckedChange={() => toggle(subAdmin.id)} />
+                <div className="text-sm">
+                  <p className="font-medium">{subAdmin.name}</p>
+                  <p className="text-muted-foreground">{subAdmin.email}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Annuler
+          </Button>
+          <Button onClick={save} disabled={isSaving || loading}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Enregistrer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,92 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, LockOpen } from "lucide-react"
+import { toast } from "sonner"
+
+interface UserLockoutCardProps {
+  userId: string
+}
+
+interface LockoutStatus {
+  failures: number
+  locked: boolean
+  lockedUntil: string | null
+}
+
+// Failed sign-in attempts of a user; only shown when there are some
+export function UserLockoutCard({ userId }: UserLockoutCardProps) {
+  const [status, setStatus] = useState<LockoutStatus | null>(null)
+  const [isUnlocking, setIsUnlocking] = useState(false)
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      try {
+        const response = await fetch(`/api/users/${userId}/lockout`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Erreur lors du chargement du verrouillage")
+        }
+        setStatus(data)
+      } catch (error) {
+        console.error("Error loading lockout status:", error)
+      }
+    }
+
+    loadStatus()
+  }, [userId])
+
+  const unlock = async () => {
+    setIsUnlocking(true)
+    try {
+      const response = await fetch(`/api/users/${userId}/lockout`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors du déverrouillage")
+      }
+      setStatus({ failures: 0, locked: false, lockedUntil: null })
+      toast.success(data.message || "Compte déverrouillé")
+    } catch (error) {
+      console.error("Error unlocking user:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors du déverrouillage")
+    } finally {
+      setIsUnlocking(false)
+    }
+  }
+
+  if (!status || (!status.locked && status.failures === 0)) {
+    return null
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Tentatives de connexion</CardTitle>
+            <CardDescription>
+              {status.locked && status.lockedUntil
+                ? `Verrouillé jusqu'à ${new Date(status.lockedUntil).toLocaleTimeString("fr-FR", {
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })} après ${status.failures} échecs`
+                : `${status.failures} échec${status.failures > 1 ? "s" : ""} récent${status.failures > 1 ? "s" : ""}`}
+            </CardDescription>
+          </div>
+          <Badge variant={status.locked ? "destructive" : "secondary"}>
+            {status.locked ? "Verrouillé" : "Actif"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="flex justify-end">
+        <Button variant="outline" onClick={unlock} disabled={isUnlocking}>
+          {isUnlocking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LockOpen className="mr-2 h-4 w-4" />}
+          {status.locked ? "Déverrouiller" : "Réinitialiser les échecs"}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
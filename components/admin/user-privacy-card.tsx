@@ -0,0 +1,114 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Loader2, UserX } from "lucide-react"
+import { toast } from "sonner"
+import { DataExportButtons } from "@/components/privacy"
+
+interface UserPrivacyCardProps {
+  userId: string
+  // Set once the personal fields were erased
+  anonymizedAt?: string | Date | null
+  onErased?: () => void
+}
+
+// Data-subject requests handled by an admin: export and erasure
+export function UserPrivacyCard({ userId, anonymizedAt, onErased }: UserPrivacyCardProps) {
+  const [showConfirm, setShowConfirm] = useState(false)
+  const [isErasing, setIsErasing] = useState(false)
+
+  const erase = async () => {
+    setIsErasing(true)
+    try {
+      const response = await fetch(`/api/users/${userId}/erase`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de l'anonymisation")
+      }
+      toast.success(data.message || "Données personnelles effacées")
+      setShowConfirm(false)
+      onErased?.()
+    } catch (error) {
+      console.error("Error erasing user:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de l'anonymisation")
+    } finally {
+      setIsErasing(false)
+    }
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Données personnelles</CardTitle>
+            <CardDescription>Demandes d'accès et d'effacement (loi 09-08)</CardDescription>
+          </div>
+          {anonymizedAt && (
+            <Badge variant="secondary">Anonymisé le {new Date(anonymizedAt).toLocaleDateString("fr-FR")}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Profil, inscriptions, progression, tentatives de quiz, projets rendus, certificats, consentements, présences et observations
+          </p>
+          <DataExportButtons href={`/api/users/${userId}/data-export`} />
+        </div>
+
+        {!anonymizedAt && (
+          <div className="flex flex-wrap items-center justify-between gap-2 border-t border-border pt-4">
+            <p className="text-sm text-muted-foreground flex-1">
+              Efface l'identité et les coordonnées ; les résultats, statistiques et certificats restent valides.
+            </p>
+            <Button variant="destructive" onClick={() => setShowConfirm(true)}>
+              <UserX className="h-4 w-4 mr-2" />
+              Anonymiser
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={showConfirm} onOpenChange={setShowConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Anonymiser ce compte ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Le nom, l'email, les coordonnées, l'avatar et les liens des projets rendus seront définitivement
+              effacés et le compte désactivé. Cette action est irréversible : pensez à exporter les données
+              d'abord si la personne les a demandées.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isErasing}>Annuler</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                erase()
+              }}
+              disabled={isErasing}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isErasing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Anonymiser
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,136 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, School as SchoolIcon } from "lucide-react"
+import { toast } from "sonner"
+import { useSchools } from "@/components/schools"
+
+interface UserSchoolCardProps {
+  userId: string
+  schoolId: number | null
+  groupId: number | null
+}
+
+const NONE = "none"
+
+// School and group a student belongs to; sub-admins only see the students of their schools
+export function UserSchoolCard({ userId, schoolId, groupId }: UserSchoolCardProps) {
+  const { schools, isLoading } = useSchools()
+  const [selectedSchool, setSelectedSchool] = useState(schoolId?.toString() ?? NONE)
+  const [selectedGroup, setSelectedGroup] = useState(groupId?.toString() ?? NONE)
+  const [saved, setSaved] = useState({ school: schoolId?.toString() ?? NONE, group: groupId?.toString() ?? NONE })
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    const placement = { school: schoolId?.toString() ?? NONE, group: groupId?.toString() ?? NONE }
+    setSelectedSchool(placement.school)
+    setSelectedGroup(placement.group)
+    setSaved(placement)
+  }, [schoolId, groupId])
+
+  const groups = schools.find((school) => school.id.toString() === selectedSchool)?.groups ?? []
+  const isDirty = selectedSchool !== saved.school || selectedGroup !== saved.group
+
+  const save = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/students/${userId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          schoolId: selectedSchool === NONE ? null : Number(selectedSchool),
+          groupId: selectedGroup === NONE ? null : Number(selectedGroup),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de l'affectation")
+      }
+      setSaved({ school: selectedSchool, group: selectedGroup })
+      toast.success(data.message || "Affectation mise à jour")
+    } catch (error) {
+      console.error("Error updating placement:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de l'affectation")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SchoolIcon className="h-5 w-5" />
+          Établissement
+        </CardTitle>
+        <CardDescription>
+          Rattache l'étudiant à une école et à un groupe ; les sous-administrateurs de l'école pourront le suivre
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : schools.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Aucun établissement.{" "}
+            <Link href="/admin/etablissements" className="underline">
+              Créer un établissement
+            </Link>
+          </p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label>École</Label>
+              <Select
+                value={selectedSchool}
+                onValueChange={(value) => {
+                  setSelectedSchool(value)
+                  setSelectedGroup(NONE)
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Aucune</SelectItem>
+                  {schools.map((school) => (
+                    <SelectItem key={school.id} value={school.id.toString()}>
+                      {school.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Groupe</Label>
+              <Select value={selectedGroup} onValueChange={setSelectedGroup} disabled={selectedSchool === NONE}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Aucun</SelectItem>
+                  {groups.map((group) => (
+                    <SelectItem key={group.id} value={group.id.toString()}>
+                      {group.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={save} disabled={!isDirty || isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Enregistrer
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
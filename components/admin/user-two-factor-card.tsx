@@ -0,0 +1,116 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+
+interface UserTwoFactorCardProps {
+  userId: string
+}
+
+// Two-factor status of a user, with a reset for lost authenticators
+export function UserTwoFactorCard({ userId }: UserTwoFactorCardProps) {
+  const [status, setStatus] = useState<{ enabled: boolean; enabledAt: string | null } | null>(null)
+  const [isResetting, setIsResetting] = useState(false)
+  const [showConfirm, setShowConfirm] = useState(false)
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      try {
+        const response = await fetch(`/api/users/${userId}/two-factor`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Erreur lors du chargement de la double authentification")
+        }
+        setStatus(data)
+      } catch (error) {
+        console.error("Error loading two-factor status:", error)
+      }
+    }
+
+    loadStatus()
+  }, [userId])
+
+  const resetTwoFactor = async () => {
+    setIsResetting(true)
+    try {
+      const response = await fetch(`/api/users/${userId}/two-factor`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de la réinitialisation")
+      }
+      setStatus({ enabled: false, enabledAt: null })
+      toast.success(data.message || "Double authentification réinitialisée")
+    } catch (error) {
+      console.error("Error resetting two-factor:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de la réinitialisation")
+    } finally {
+      setIsResetting(false)
+      setShowConfirm(false)
+    }
+  }
+
+  if (!status) {
+    return null
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Double authentification</CardTitle>
+            <CardDescription>
+              {status.enabled && status.enabledAt
+                ? `Activée le ${new Date(status.enabledAt).toLocaleDateString("fr-FR")}`
+                : "Non configurée pour ce compte"}
+            </CardDescription>
+          </div>
+          <Badge variant={status.enabled ? "default" : "secondary"}>{status.enabled ? "Activée" : "Désactivée"}</Badge>
+        </div>
+      </CardHeader>
+      {status.enabled && (
+        <CardContent className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            En cas de perte de son appareil, l'utilisateur devra configurer à nouveau son application à la prochaine
+            connexion.
+          </p>
+          <Button variant="outline" onClick={() => setShowConfirm(true)} disabled={isResetting}>
+            Réinitialiser
+          </Button>
+        </CardContent>
+      )}
+
+      <AlertDialog open={showConfirm} onOpenChange={setShowConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Réinitialiser la double authentification ?</AlertDialogTitle>
+            <AlertDialogDescription>
+              L'application d'authentification et les codes de récupération de cet utilisateur ne fonctionneront plus.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isResetting}>Annuler</AlertDialogCancel>
+            <AlertDialogAction onClick={resetTwoFactor} disabled={isResetting}>
+              {isResetting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Réinitialiser
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
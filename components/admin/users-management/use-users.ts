@@ -58,8 +58,15 @@ export function useUsers() {
       })
 
       if (response.ok) {
-        setUsers(users.filter((u) => u.id !== userId))
-        toast.success("Utilisateur supprimé avec succès")
+        const data = await response.json()
+        if (data.mode === "anonymized") {
+          // The account had learning history: it stays, anonymized and inactive
+          await fetchUsers()
+          toast.success("Utilisateur anonymisé : son historique est conservé pour les statistiques")
+        } else {
+          setUsers(users.filter((u) => u.id !== userId))
+          toast.success("Utilisateur supprimé avec succès")
+        }
         return true
       } else {
         const data = await response.json()
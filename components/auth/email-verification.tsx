@@ -0,0 +1,66 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2 } from "lucide-react"
+
+interface EmailVerificationProps {
+  token: string
+}
+
+export function EmailVerification({ token }: EmailVerificationProps) {
+  const [status, setStatus] = useState<"loading" | "verified" | "error">(token ? "loading" : "error")
+  const [message, setMessage] = useState(token ? "" : "Lien de vérification invalide")
+  // Tokens are single-use: make sure the request only goes out once
+  const requested = useRef(false)
+
+  useEffect(() => {
+    if (!token || requested.current) return
+    requested.current = true
+
+    const verify = async () => {
+      try {
+        const response = await fetch("/api/auth/verify-email", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token })
+        })
+        const data = await response.json()
+
+        setStatus(response.ok ? "verified" : "error")
+        setMessage(response.ok ? data.message : data.error || "Erreur lors de la vérification")
+      } catch {
+        setStatus("error")
+        setMessage("Erreur lors de la vérification. Veuillez réessayer.")
+      }
+    }
+
+    verify()
+  }, [token])
+
+  if (status === "loading") {
+    return (
+      <div className="flex items-center justify-center py-6 text-muted-foreground">
+        <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+        Vérification en cours...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 text-center">
+      <Alert variant={status === "error" ? "destructive" : "default"}>
+        <AlertDescription>{message}</AlertDescription>
+      </Alert>
+      <Button asChild className="w-full">
+        <a href="/connexion">Se connecter</a>
+      </Button>
+      {status === "error" && (
+        <p className="text-sm text-muted-foreground">
+          Vous pourrez demander un nouveau lien depuis la page de connexion.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2 } from "lucide-react"
+import { emailRequestSchema } from "@/lib/schemas/auth"
+
+export function ForgotPasswordForm() {
+  const [email, setEmail] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [message, setMessage] = useState("")
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+
+    const validation = emailRequestSchema.safeParse({ email })
+    if (!validation.success) {
+      setError(validation.error.errors[0]?.message || "Email invalide")
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(validation.data)
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "Erreur lors de l'envoi du lien")
+      } else {
+        setMessage(data.message)
+      }
+    } catch {
+      setError("Erreur lors de l'envoi du lien. Veuillez réessayer.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {message ? (
+        <Alert>
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="votre@email.com"
+              disabled={isLoading}
+            />
+          </div>
+
+          <Button type="submit" className="w-full bg-primary hover:bg-primary/90 shadow-lg shadow-primary/25" disabled={isLoading}>
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Envoi...
+              </>
+            ) : (
+              "Envoyer le lien"
+            )}
+          </Button>
+        </>
+      )}
+
+      <div className="text-sm text-muted-foreground text-center">
+        <a href="/connexion" className="text-primary font-medium hover:underline">
+          Retour à la connexion
+        </a>
+      </div>
+    </form>
+  )
+}
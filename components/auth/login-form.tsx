@@ -9,15 +9,35 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Loader2 } from "lucide-react";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
 import { loginSchema, type LoginInput } from "@/lib/schemas/auth";
 import { z } from "zod";
 
+// Wait imposed by the brute-force protection after failed attempts
+function getThrottleMessage(isLocked: boolean, seconds: number) {
+  const wait =
+    seconds >= 60
+      ? `${Math.ceil(seconds / 60)} minute${Math.ceil(seconds / 60) > 1 ? "s" : ""}`
+      : `${seconds} seconde${seconds > 1 ? "s" : ""}`;
+  return isLocked
+    ? `Compte temporairement verrouillé après plusieurs tentatives échouées. Réessayez dans ${wait} ou contactez un administrateur.`
+    : `Trop de tentatives échouées. Patientez ${wait} avant de réessayer.`;
+}
+
 export function LoginForm() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [isUnverified, setIsUnverified] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  // Second step, shown when the account has two-factor authentication
+  const [needsOtp, setNeedsOtp] = useState(false);
+  const [otp, setOtp] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [fieldErrors, setFieldErrors] = useState<
     Partial<Record<keyof LoginInput, string>>
   >({});
@@ -30,12 +50,41 @@ export function LoginForm() {
     if (errorParam === "inactive") {
       setError("Votre compte a été désactivé par un administrateur. Veuillez contacter le support.");
     }
+    if (searchParams.get("registered") === "true") {
+      setNotice("Compte créé ! Consultez votre boîte mail pour confirmer votre adresse avant de vous connecter.");
+    }
   }, [searchParams]);
 
+  const resendVerification = async () => {
+    setIsResending(true);
+    try {
+      const response = await fetch("/api/auth/resend-verification", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Erreur lors de l'envoi du lien");
+      } else {
+        setError("");
+        setIsUnverified(false);
+        setNotice(data.message);
+      }
+    } catch {
+      setError("Erreur lors de l'envoi du lien. Veuillez réessayer.");
+    } finally {
+      setIsResending(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setError("");
+    setNotice("");
+    setIsUnverified(false);
     setFieldErrors({});
 
     try {
@@ -46,10 +95,26 @@ export function LoginForm() {
       const result = await signIn("credentials", {
         email: validatedData.email,
         password: validatedData.password,
+        otp: needsOtp ? otp.trim() : "",
         redirect: false,
       });
 
-      if (result?.error) {
+      // Error codes thrown by authorize in auth-options.ts
+      if (result?.error === "EMAIL_NOT_VERIFIED") {
+        setIsUnverified(true);
+        setError("Votre adresse email n'est pas encore confirmée. Cliquez sur le lien reçu par email.");
+      } else if (result?.error === "OTP_REQUIRED") {
+        setNeedsOtp(true);
+      } else if (result?.error === "OTP_INVALID") {
+        setOtp("");
+        setError(useRecoveryCode ? "Code de récupération invalide ou déjà utilisé" : "Code incorrect");
+      } else if (result?.error === "OTP_RATE_LIMITED") {
+        setOtp("");
+        setError("Trop de tentatives. Patientez quelques minutes avant de réessayer.");
+      } else if (result?.error?.startsWith("LOGIN_LOCKED:") || result?.error?.startsWith("LOGIN_DELAYED:")) {
+        const [code, seconds] = result.error.split(":");
+        setError(getThrottleMessage(code === "LOGIN_LOCKED", Number(seconds) || 60));
+      } else if (result?.error) {
         setError("Email ou mot de passe incorrect");
       } else if (result?.ok) {
         // Get session to determine role-based redirect
@@ -97,50 +162,143 @@ export function LoginForm() {
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
+      {notice && (
+        <Alert>
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
       {error && (
         <Alert variant="destructive">
-          <AlertDescription>{error}</AlertDescription>
+          <AlertDescription>
+            {error}
+            {isUnverified && (
+              <Button
+                type="button"
+                variant="link"
+                className="h-auto p-0 ml-1 text-destructive underline"
+                onClick={resendVerification}
+                disabled={isResending}
+              >
+                {isResending ? "Envoi..." : "Renvoyer le lien"}
+              </Button>
+            )}
+          </AlertDescription>
         </Alert>
       )}
 
-      <div className="space-y-2">
-        <Label htmlFor="email">Email</Label>
-        <Input
-          id="email"
-          type="email"
-          value={email}
-          onChange={(e) => setEmail(e.target.value)}
-          placeholder="votre@email.com"
-          disabled={isLoading}
-          className={fieldErrors.email ? "border-destructive" : ""}
-        />
-        {fieldErrors.email && (
-          <p className="text-sm text-destructive">{fieldErrors.email}</p>
-        )}
-      </div>
+      {needsOtp ? (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {useRecoveryCode
+              ? "Saisissez l'un de vos codes de récupération."
+              : "Saisissez le code à 6 chiffres de votre application d'authentification."}
+          </p>
+          {useRecoveryCode ? (
+            <Input
+              id="otp"
+              value={otp}
+              onChange={(e) => setOtp(e.target.value)}
+              placeholder="xxxxx-xxxxx"
+              autoComplete="one-time-code"
+              disabled={isLoading}
+            />
+          ) : (
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={6}
+                pattern={REGEXP_ONLY_DIGITS}
+                value={otp}
+                onChange={setOtp}
+                disabled={isLoading}
+                autoFocus
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+          <div className="flex justify-between text-sm">
+            <button
+              type="button"
+              className="text-primary hover:underline"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setOtp("");
+              }}
+            >
+              {useRecoveryCode ? "Utiliser l'application" : "Utiliser un code de récupération"}
+            </button>
+            <button
+              type="button"
+              className="text-muted-foreground hover:underline"
+              onClick={() => {
+                setNeedsOtp(false);
+                setUseRecoveryCode(false);
+                setOtp("");
+                setError("");
+              }}
+            >
+              Retour
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="votre@email.com"
+              disabled={isLoading}
+              className={fieldErrors.email ? "border-destructive" : ""}
+            />
+            {fieldErrors.email && (
+              <p className="text-sm text-destructive">{fieldErrors.email}</p>
+            )}
+          </div>
 
-      <div className="space-y-2">
-        <Label htmlFor="password">Mot de passe</Label>
-        <Input
-          id="password"
-          type="password"
-          value={password}
-          onChange={(e) => setPassword(e.target.value)}
-          placeholder="••••••••"
-          disabled={isLoading}
-          className={fieldErrors.password ? "border-destructive" : ""}
-        />
-        {fieldErrors.password && (
-          <p className="text-sm text-destructive">{fieldErrors.password}</p>
-        )}
-      </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="password">Mot de passe</Label>
+              <a href="/mot-de-passe-oublie" className="text-sm text-primary hover:underline">
+                Mot de passe oublié ?
+              </a>
+            </div>
+            <Input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="••••••••"
+              disabled={isLoading}
+              className={fieldErrors.password ? "border-destructive" : ""}
+            />
+            {fieldErrors.password && (
+              <p className="text-sm text-destructive">{fieldErrors.password}</p>
+            )}
+          </div>
+        </>
+      )}
 
-      <Button type="submit" className="w-full bg-primary hover:bg-primary/90 shadow-lg shadow-primary/25" disabled={isLoading}>
+      <Button
+        type="submit"
+        className="w-full bg-primary hover:bg-primary/90 shadow-lg shadow-primary/25"
+        disabled={isLoading || (needsOtp && otp.trim().length < 6)}
+      >
         {isLoading ? (
           <>
             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
             Connexion...
           </>
+        ) : needsOtp ? (
+          "Vérifier"
         ) : (
           "Se connecter"
         )}
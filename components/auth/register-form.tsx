@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -11,6 +11,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Loader2 } from "lucide-react"
 import { registerSchema, type RegisterInput } from "@/lib/schemas/auth"
+import { ConsentTextDialog, useConsentText } from "@/components/consent"
 import { z } from "zod"
 
 export function RegisterForm() {
@@ -19,12 +20,20 @@ export function RegisterForm() {
     password: "",
     confirmPassword: "",
     name: "",
-    consent: false
+    consent: false,
+    consentTextId: undefined as number | undefined
   })
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState("")
   const [fieldErrors, setFieldErrors] = useState<Partial<Record<keyof RegisterInput, string>>>({})
   const router = useRouter()
+  const { text: consentText, error: consentTextError } = useConsentText()
+
+  useEffect(() => {
+    if (consentText) {
+      setFormData(prev => ({ ...prev, consentTextId: consentText.id }))
+    }
+  }, [consentText])
 
   const handleChange = (field: keyof typeof formData) => (
     e: React.ChangeEvent<HTMLInputElement>
@@ -61,8 +70,10 @@ export function RegisterForm() {
         body: JSON.stringify({
           email: validatedData.email,
           password: validatedData.password,
+          confirmPassword: validatedData.confirmPassword,
           name: validatedData.name,
-          consent: validatedData.consent
+          consent: validatedData.consent,
+          consentTextId: validatedData.consentTextId
         })
       })
 
@@ -179,9 +190,22 @@ export function RegisterForm() {
           >
             J'accepte le traitement de mes données personnelles conformément à la loi 09-08
           </Label>
+          {consentText && (
+            <ConsentTextDialog
+              text={consentText}
+              trigger={
+                <button type="button" className="text-left text-sm text-primary hover:underline">
+                  Lire le texte (version {consentText.version})
+                </button>
+              }
+            />
+          )}
           {fieldErrors.consent && (
             <p className="text-sm text-destructive">{fieldErrors.consent}</p>
           )}
+          {(fieldErrors.consentTextId || consentTextError) && (
+            <p className="text-sm text-destructive">{fieldErrors.consentTextId || consentTextError}</p>
+          )}
         </div>
       </div>
 
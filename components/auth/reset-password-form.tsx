@@ -0,0 +1,145 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2 } from "lucide-react"
+import { resetPasswordSchema, type ResetPasswordInput } from "@/lib/schemas/auth"
+
+interface ResetPasswordFormProps {
+  token: string
+}
+
+export function ResetPasswordForm({ token }: ResetPasswordFormProps) {
+  const [formData, setFormData] = useState({ password: "", confirmPassword: "" })
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [message, setMessage] = useState("")
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<keyof ResetPasswordInput, string>>>({})
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+    setFieldErrors({})
+
+    const validation = resetPasswordSchema.safeParse({ token, ...formData })
+    if (!validation.success) {
+      const errors: Partial<Record<keyof ResetPasswordInput, string>> = {}
+      validation.error.errors.forEach((issue) => {
+        if (issue.path[0]) {
+          errors[issue.path[0] as keyof ResetPasswordInput] = issue.message
+        }
+      })
+      setFieldErrors(errors)
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(validation.data)
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "Erreur lors de la réinitialisation")
+      } else {
+        setMessage(data.message)
+      }
+    } catch {
+      setError("Erreur lors de la réinitialisation. Veuillez réessayer.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!token) {
+    return (
+      <div className="space-y-4 text-center">
+        <Alert variant="destructive">
+          <AlertDescription>Lien de réinitialisation invalide</AlertDescription>
+        </Alert>
+        <a href="/mot-de-passe-oublie" className="text-sm text-primary font-medium hover:underline">
+          Demander un nouveau lien
+        </a>
+      </div>
+    )
+  }
+
+  if (message) {
+    return (
+      <div className="space-y-4 text-center">
+        <Alert>
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+        <Button asChild className="w-full">
+          <a href="/connexion">Se connecter</a>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {error}{" "}
+            <a href="/mot-de-passe-oublie" className="underline">
+              Demander un nouveau lien
+            </a>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="password">Nouveau mot de passe</Label>
+        <Input
+          id="password"
+          type="password"
+          value={formData.password}
+          onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+          placeholder="••••••••"
+          disabled={isLoading}
+          className={fieldErrors.password ? "border-destructive" : ""}
+        />
+        {fieldErrors.password && (
+          <p className="text-sm text-destructive">{fieldErrors.password}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword">Confirmer le mot de passe</Label>
+        <Input
+          id="confirmPassword"
+          type="password"
+          value={formData.confirmPassword}
+          onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
+          placeholder="••••••••"
+          disabled={isLoading}
+          className={fieldErrors.confirmPassword ? "border-destructive" : ""}
+        />
+        {fieldErrors.confirmPassword && (
+          <p className="text-sm text-destructive">{fieldErrors.confirmPassword}</p>
+        )}
+      </div>
+
+      <Button type="submit" className="w-full bg-primary hover:bg-primary/90 shadow-lg shadow-primary/25" disabled={isLoading}>
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Enregistrement...
+          </>
+        ) : (
+          "Enregistrer le mot de passe"
+        )}
+      </Button>
+    </form>
+  )
+}
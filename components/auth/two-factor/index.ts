@@ -0,0 +1,3 @@
+export { TwoFactorSettings } from "./two-factor-settings"
+export { useTwoFactor } from "./use-two-factor"
+export type { TwoFactorSetup, TwoFactorStatus } from "./types"
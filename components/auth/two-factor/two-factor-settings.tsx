@@ -0,0 +1,234 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Input } from "@/components/ui/input"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { Copy, Download, KeyRound, Loader2, ShieldCheck } from "lucide-react"
+import { REGEXP_ONLY_DIGITS } from "input-otp"
+import { toast } from "sonner"
+import { useTwoFactor } from "./use-two-factor"
+import type { TwoFactorSetup } from "./types"
+
+interface TwoFactorSettingsProps {
+  // Shown when the user was redirected here because 2FA is mandatory
+  isRequiredNotice?: boolean
+  // Where to go once a mandatory enrolment is done
+  continueHref?: string
+}
+
+type Step = "idle" | "setup" | "disable" | "regenerate"
+
+export function TwoFactorSettings({ isRequiredNotice = false, continueHref }: TwoFactorSettingsProps) {
+  const { status, isLoading, isSubmitting, startSetup, enable, disable, regenerateRecoveryCodes } = useTwoFactor()
+  const [step, setStep] = useState<Step>("idle")
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [code, setCode] = useState("")
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  const reset = () => {
+    setStep("idle")
+    setSetup(null)
+    setCode("")
+  }
+
+  const handleStartSetup = async () => {
+    try {
+      setSetup(await startSetup())
+      setRecoveryCodes(null)
+      setStep("setup")
+    } catch {
+      // Error already surfaced by the hook
+    }
+  }
+
+  const handleConfirm = async () => {
+    try {
+      if (step === "setup") {
+        setRecoveryCodes(await enable(code))
+      } else if (step === "regenerate") {
+        setRecoveryCodes(await regenerateRecoveryCodes(code))
+      } else if (step === "disable") {
+        await disable(code)
+        setRecoveryCodes(null)
+      }
+      reset()
+    } catch {
+      setCode("")
+    }
+  }
+
+  const copyCodes = async () => {
+    if (!recoveryCodes) return
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"))
+    toast.success("Codes copiés")
+  }
+
+  const downloadCodes = () => {
+    if (!recoveryCodes) return
+    const blob = new Blob([recoveryCodes.join("\n") + "\n"], { type: "text/plain" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "erchad-codes-de-recuperation.txt"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Double authentification</CardTitle>
+            <CardDescription>
+              Un code à usage unique de votre application d'authentification est demandé à chaque connexion
+            </CardDescription>
+          </div>
+          {status && (
+            <Badge variant={status.enabled ? "default" : "secondary"}>{status.enabled ? "Activée" : "Désactivée"}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {isRequiredNotice && !status.enabled && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  La double authentification est obligatoire pour votre rôle. Activez-la pour accéder à la plateforme.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {recoveryCodes && (
+              <div className="space-y-3 p-4 border border-border rounded-lg">
+                <p className="text-sm font-medium">Codes de récupération</p>
+                <p className="text-sm text-muted-foreground">
+                  Conservez-les en lieu sûr : chacun permet une connexion si vous n'avez plus accès à votre
+                  application. Ils ne seront plus affichés.
+                </p>
+                <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <span key={recoveryCode}>{recoveryCode}</span>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={copyCodes}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    Copier
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={downloadCodes}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Télécharger
+                  </Button>
+                  {continueHref && isRequiredNotice && (
+                    <Button size="sm" asChild>
+                      <a href={continueHref}>Continuer</a>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {step === "setup" && setup && (
+              <div className="space-y-3">
+                <p className="text-sm">
+                  Scannez ce QR code avec votre application (Google Authenticator, Microsoft Authenticator,
+                  1Password...), puis saisissez le code affiché.
+                </p>
+                <img src={setup.qrCode} alt="QR code de la double authentification" className="h-[220px] w-[220px]" />
+                <p className="text-sm text-muted-foreground">
+                  Saisie manuelle : <span className="font-mono break-all">{setup.secret}</span>
+                </p>
+              </div>
+            )}
+
+            {step !== "idle" && (
+              <div className="space-y-3">
+                <p className="text-sm">
+                  {step === "disable"
+                    ? "Saisissez un code de votre application ou un code de récupération pour désactiver la double authentification."
+                    : step === "regenerate"
+                      ? "Saisissez un code de votre application pour générer de nouveaux codes de récupération."
+                      : "Code à 6 chiffres"}
+                </p>
+                {step === "disable" ? (
+                  <Input
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="max-w-xs"
+                    placeholder="123456 ou xxxxx-xxxxx"
+                    autoComplete="one-time-code"
+                  />
+                ) : (
+                  <InputOTP maxLength={6} pattern={REGEXP_ONLY_DIGITS} value={code} onChange={setCode}>
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                )}
+                <div className="flex space-x-2">
+                  <Button variant="outline" onClick={reset} disabled={isSubmitting}>
+                    Annuler
+                  </Button>
+                  <Button
+                    variant={step === "disable" ? "destructive" : "default"}
+                    onClick={handleConfirm}
+                    disabled={isSubmitting || code.trim().length < 6}
+                  >
+                    {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {step === "setup" ? "Activer" : step === "regenerate" ? "Générer" : "Désactiver"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {step === "idle" && (
+              <div className="flex flex-wrap items-center gap-2">
+                {status.enabled ? (
+                  <>
+                    <p className="text-sm text-muted-foreground flex-1">
+                      {status.recoveryCodesRemaining} code{status.recoveryCodesRemaining > 1 ? "s" : ""} de récupération
+                      restant{status.recoveryCodesRemaining > 1 ? "s" : ""}
+                    </p>
+                    <Button variant="outline" onClick={() => setStep("regenerate")}>
+                      <KeyRound className="h-4 w-4 mr-2" />
+                      Nouveaux codes de récupération
+                    </Button>
+                    {!status.required && (
+                      <Button variant="outline" onClick={() => setStep("disable")}>
+                        Désactiver
+                      </Button>
+                    )}
+                  </>
+                ) : (
+                  <Button onClick={handleStartSetup} disabled={isSubmitting}>
+                    <ShieldCheck className="h-4 w-4 mr-2" />
+                    Activer la double authentification
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {status.required && status.enabled && (
+              <p className="text-sm text-muted-foreground">
+                Obligatoire pour votre rôle : elle ne peut pas être désactivée. En cas de perte de votre appareil,
+                contactez un administrateur.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
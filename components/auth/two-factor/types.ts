@@ -0,0 +1,13 @@
+export interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+export interface TwoFactorSetup {
+  secret: string
+  otpauthUrl: string
+  // PNG data URL of the otpauth:// QR code
+  qrCode: string
+}
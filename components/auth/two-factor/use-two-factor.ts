@@ -0,0 +1,96 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { toast } from "sonner"
+import type { TwoFactorSetup, TwoFactorStatus } from "./types"
+
+async function postJson(url: string, body?: unknown) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || "Une erreur est survenue")
+  }
+  return data
+}
+
+export function useTwoFactor() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const fetchStatus = async () => {
+    try {
+      setIsLoading(true)
+
+      const response = await fetch("/api/auth/two-factor")
+
+      if (!response.ok) {
+        throw new Error("Échec du chargement de la double authentification")
+      }
+
+      setStatus(await response.json())
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Échec du chargement de la double authentification"
+      toast.error(errorMessage)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchStatus()
+  }, [])
+
+  // Wraps a mutation with the submitting flag and error toast; rethrows for the caller
+  const run = async <T,>(action: () => Promise<T>): Promise<T> => {
+    try {
+      setIsSubmitting(true)
+      return await action()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Une erreur est survenue")
+      throw err
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const startSetup = () => run<TwoFactorSetup>(() => postJson("/api/auth/two-factor/setup"))
+
+  const enable = (code: string) =>
+    run<string[]>(async () => {
+      const data = await postJson("/api/auth/two-factor/enable", { code })
+      toast.success(data.message)
+      await fetchStatus()
+      return data.recoveryCodes
+    })
+
+  const disable = (code: string) =>
+    run<void>(async () => {
+      const data = await postJson("/api/auth/two-factor/disable", { code })
+      toast.success(data.message)
+      await fetchStatus()
+    })
+
+  const regenerateRecoveryCodes = (code: string) =>
+    run<string[]>(async () => {
+      const data = await postJson("/api/auth/two-factor/recovery-codes", { code })
+      toast.success(data.message)
+      await fetchStatus()
+      return data.recoveryCodes
+    })
+
+  return {
+    status,
+    isLoading,
+    isSubmitting,
+    startSetup,
+    enable,
+    disable,
+    regenerateRecoveryCodes,
+    refresh: fetchStatus,
+  }
+}
@@ -0,0 +1,97 @@
+"use client"
+
+import { useState } from "react"
+import { signOut, useSession } from "next-auth/react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2 } from "lucide-react"
+import { ConsentTextBody } from "./consent-text-dialog"
+import type { ConsentText } from "./types"
+
+interface ConsentAcceptanceProps {
+  text: ConsentText
+  // Whether the user already accepted an earlier version
+  isUpdate: boolean
+  continueHref: string
+}
+
+export function ConsentAcceptance({ text, isUpdate, continueHref }: ConsentAcceptanceProps) {
+  const { update } = useSession()
+  const [accepted, setAccepted] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState("")
+
+  const handleAccept = async () => {
+    setIsSubmitting(true)
+    setError("")
+    try {
+      const response = await fetch("/api/consent", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ consentTextId: text.id }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de l'enregistrement du consentement")
+      }
+
+      // Refresh the session token so the middleware stops asking
+      await update()
+      window.location.href = continueHref
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erreur lors de l'enregistrement du consentement")
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <p className="text-sm">
+        {isUpdate
+          ? "Le texte relatif au traitement de vos données personnelles a été mis à jour. Lisez la nouvelle version et acceptez-la pour continuer."
+          : "Lisez le texte relatif au traitement de vos données personnelles et acceptez-le pour continuer."}
+      </p>
+
+      <div className="max-h-80 overflow-y-auto rounded-lg border border-border p-4">
+        <p className="font-medium text-sm mb-3">
+          {text.title} · version {text.version}
+        </p>
+        <ConsentTextBody content={text.content} />
+      </div>
+
+      <div className="flex items-start space-x-2">
+        <Checkbox
+          id="consent"
+          checked={accepted}
+          onCheckedChange={(checked) => setAccepted(checked === true)}
+          disabled={isSubmitting}
+        />
+        <Label htmlFor="consent" className="text-sm font-normal leading-snug cursor-pointer">
+          J'accepte le traitement de mes données personnelles conformément à la loi 09-08
+        </Label>
+      </div>
+
+      <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+        <Button
+          variant="outline"
+          onClick={() => signOut({ callbackUrl: "/connexion" })}
+          disabled={isSubmitting}
+        >
+          Se déconnecter
+        </Button>
+        <Button onClick={handleAccept} disabled={!accepted || isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Accepter et continuer
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+"use client"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import type { ConsentText } from "./types"
+
+interface ConsentTextDialogProps {
+  text: ConsentText
+  trigger: React.ReactNode
+}
+
+export function ConsentTextDialog({ text, trigger }: ConsentTextDialogProps) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{text.title}</DialogTitle>
+          <DialogDescription>
+            Version {text.version} · publiée le {new Date(text.publishedAt).toLocaleDateString("fr-FR")}
+          </DialogDescription>
+        </DialogHeader>
+        <ConsentTextBody content={text.content} />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function ConsentTextBody({ content }: { content: string }) {
+  return (
+    <div className="space-y-3 text-sm text-muted-foreground">
+      {content.split(/\n{2,}/).map((paragraph, index) => (
+        <p key={index} className="whitespace-pre-line">
+          {paragraph}
+        </p>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,4 @@
+export { ConsentAcceptance } from "./consent-acceptance"
+export { ConsentTextBody, ConsentTextDialog } from "./consent-text-dialog"
+export { useConsentText } from "./use-consent-text"
+export type { ConsentText } from "./types"
@@ -0,0 +1,7 @@
+export interface ConsentText {
+  id: number
+  version: number
+  title: string
+  content: string
+  publishedAt: string
+}
@@ -0,0 +1,32 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { ConsentText } from "./types"
+
+// Consent text in force, as shown to users before they accept it
+export function useConsentText() {
+  const [text, setText] = useState<ConsentText | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchText = async () => {
+      try {
+        const response = await fetch("/api/consent")
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Échec du chargement du texte de consentement")
+        }
+        setText(data.text)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Échec du chargement du texte de consentement")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchText()
+  }, [])
+
+  return { text, isLoading, error }
+}
@@ -3,13 +3,20 @@
 import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { ArrowLeft, Save, Eye, Trash2 } from "lucide-react"
+import { ArrowLeft, Save, Eye, Trash2, Send, HelpCircle } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { QuizBuilder } from "./quiz-builder"
+import { FinalProjectBuilder } from "./final-project-builder"
 import Link from "next/link"
 import type { User } from "@/lib/auth/auth"
+import type { ChapterRow } from "@/lib/db/queries"
 
 interface CourseEditorProps {
   courseId: number
   user: User
+  domains: Array<{ id: number; name: string }>
+  teachers: Array<{ id: number; name: string }>
 }
 
 interface CourseData {
@@ -20,89 +27,73 @@ interface CourseData {
   teacherId: string
   thumbnailUrl: string
   isActive: boolean
+  status: "draft" | "submitted" | "validated" | "rejected"
+  rejectionReason: string | null
+}
+
+const statusLabels: Record<CourseData["status"], string> = {
+  draft: "Brouillon",
+  submitted: "En attente de validation",
+  validated: "Validé",
+  rejected: "Refusé",
 }
 
 interface Chapter {
-  id: string
+  id: number
   title: string
   description: string
   orderIndex: number
   contentType: "text" | "video" | "image" | "link"
   contentData: any
-  hasQuiz: boolean
-  quizData?: any
 }
 
-export function CourseEditor({ courseId, user }: CourseEditorProps) {
+export function CourseEditor({ courseId, user, domains, teachers }: CourseEditorProps) {
   const [courseData, setCourseData] = useState<CourseData | null>(null)
   const [chapters, setChapters] = useState<Chapter[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [quizChapter, setQuizChapter] = useState<Chapter | null>(null)
 
-  // Mock data - replace with real data from database
-  const domains = [
-    { id: "1", name: "Informatique", color: "#3b82f6" },
-    { id: "2", name: "Marketing", color: "#10b981" },
-    { id: "3", name: "Design", color: "#8b5cf6" },
-    { id: "4", name: "Gestion", color: "#f59e0b" },
-  ]
-
-  const teachers = [
-    { id: "1", name: "Jean Martin" },
-    { id: "2", name: "Sophie Dubois" },
-    { id: "3", name: "Pierre Leroy" },
-  ]
+  const backHref = user.role === "TRAINER" ? "/formateur" : "/admin"
+  const canSubmit =
+    user.role === "TRAINER" && (courseData?.status === "draft" || courseData?.status === "rejected")
 
   useEffect(() => {
     // Load course data
     const loadCourse = async () => {
       try {
-        // Mock API call - replace with real API
-        await new Promise((resolve) => setTimeout(resolve, 1000))
-
-        const mockCourse: CourseData = {
-          id: courseId,
-          title: "Introduction à React",
-          description: "Apprenez les bases de React et créez vos premières applications",
-          domainId: "1",
-          teacherId: "1",
-          thumbnailUrl: "/react-course.png",
-          isActive: true,
+        const response = await fetch(`/api/courses/${courseId}`)
+        if (!response.ok) {
+          throw new Error("Cours introuvable")
         }
+        const data = await response.json()
+        const course = data.course
+        const courseChapters: ChapterRow[] = data.chapters
 
-        const mockChapters: Chapter[] = [
-          {
-            id: "1",
-            title: "Introduction à React",
-            description: "Découvrez React et ses concepts fondamentaux",
-            orderIndex: 0,
-            contentType: "text",
-            contentData: { content: "Contenu du chapitre..." },
-            hasQuiz: true,
-            quizData: {
-              title: "Quiz - Introduction",
-              passingScore: 70,
-              questions: [],
-            },
-          },
-          {
-            id: "2",
-            title: "JSX et Composants",
-            description: "Apprenez à créer des composants avec JSX",
-            orderIndex: 1,
-            contentType: "video",
-            contentData: { videoUrl: "https://example.com/video.mp4", duration: 15 },
-            hasQuiz: true,
-            quizData: {
-              title: "Quiz - JSX",
-              passingScore: 70,
-              questions: [],
-            },
-          },
-        ]
-
-        setCourseData(mockCourse)
-        setChapters(mockChapters)
+        const loadedCourse: CourseData = {
+          id: course.id,
+          title: course.title,
+          description: course.description || "",
+          domainId: course.domainId ? String(course.domainId) : "",
+          teacherId: course.teacherId ? String(course.teacherId) : "",
+          thumbnailUrl: course.thumbnailUrl || "",
+          isActive: course.isActive ?? true,
+          status: course.status,
+          rejectionReason: course.rejectionReason,
+        }
+
+        const loadedChapters: Chapter[] = courseChapters.map((chapter) => ({
+          id: chapter.id,
+          title: chapter.title,
+          description: chapter.description || "",
+          orderIndex: chapter.orderIndex,
+          contentType: chapter.contentType as Chapter["contentType"],
+          contentData: chapter.contentData,
+        }))
+
+        setCourseData(loadedCourse)
+        setChapters(loadedChapters)
       } catch (error) {
         console.error("Error loading course:", error)
       } finally {
@@ -118,19 +109,56 @@ export function CourseEditor({ courseId, user }: CourseEditorProps) {
 
     setIsSaving(true)
     try {
-      // Here you would save the course to the database
-      console.log("Saving course:", { courseData, chapters })
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1000))
+      const response = await fetch(`/api/courses/${courseId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: courseData.title,
+          description: courseData.description || null,
+          domainId: Number(courseData.domainId),
+          // Only admins may hand the course to another trainer
+          ...(user.role === "ADMIN" && { teacherId: courseData.teacherId ? Number(courseData.teacherId) : null }),
+          thumbnailUrl: courseData.thumbnailUrl || null,
+          isActive: courseData.isActive,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de la mise à jour du cours")
+      }
+
       alert("Cours mis à jour avec succès !")
     } catch (error) {
       console.error("Error saving course:", error)
-      alert("Erreur lors de la mise à jour du cours")
+      alert(error instanceof Error ? error.message : "Erreur lors de la mise à jour du cours")
     } finally {
       setIsSaving(false)
     }
   }
 
+  const handleSubmitForReview = async () => {
+    if (!courseData) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/courses/${courseId}/submit`, { method: "POST" })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de la soumission du cours")
+      }
+
+      setCourseData({ ...courseData, status: "submitted", rejectionReason: null })
+      alert("Cours soumis pour validation !")
+    } catch (error) {
+      console.error("Error submitting course:", error)
+      alert(error instanceof Error ? error.message : "Erreur lors de la soumission du cours")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
   const handleDeleteCourse = async () => {
     if (!courseData) return
 
@@ -142,8 +170,8 @@ export function CourseEditor({ courseId, user }: CourseEditorProps) {
       // Here you would delete the course from the database
       console.log("Deleting course:", courseId)
       alert("Cours supprimé avec succès !")
-      // Redirect to admin dashboard
-      window.location.href = "/admin"
+      // Redirect to dashboard
+      window.location.href = backHref
     } catch (error) {
       console.error("Error deleting course:", error)
       alert("Erreur lors de la suppression du cours")
@@ -172,7 +200,7 @@ export function CourseEditor({ courseId, user }: CourseEditorProps) {
         <div className="text-center">
           <p className="text-muted-foreground">Cours non trouvé</p>
           <Button asChild className="mt-4">
-            <Link href="/admin">Retour</Link>
+            <Link href={backHref}>Retour</Link>
           </Button>
         </div>
       </div>
@@ -187,13 +215,18 @@ export function CourseEditor({ courseId, user }: CourseEditorProps) {
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4">
               <Button variant="ghost" size="sm" asChild>
-                <Link href="/admin">
+                <Link href={backHref}>
                   <ArrowLeft className="h-4 w-4 mr-2" />
                   Retour
                 </Link>
               </Button>
               <div>
-                <h1 className="text-2xl font-bold text-foreground">Modifier le Cours</h1>
+                <div className="flex items-center space-x-2">
+                  <h1 className="text-2xl font-bold text-foreground">Modifier le Cours</h1>
+                  <Badge variant={courseData.status === "rejected" ? "destructive" : "secondary"}>
+                    {statusLabels[courseData.status]}
+                  </Badge>
+                </div>
                 <p className="text-sm text-muted-foreground">{courseData.title}</p>
               </div>
             </div>
@@ -206,6 +239,12 @@ export function CourseEditor({ courseId, user }: CourseEditorProps) {
                 <Trash2 className="h-4 w-4 mr-2" />
                 Supprimer
               </Button>
+              {canSubmit && (
+                <Button variant="secondary" onClick={handleSubmitForReview} disabled={isSubmitting}>
+                  <Send className="h-4 w-4 mr-2" />
+                  {isSubmitting ? "Soumission..." : "Soumettre pour validation"}
+                </Button>
+              )}
               <Button onClick={handleSaveCourse} disabled={isSaving}>
                 <Save className="h-4 w-4 mr-2" />
                 {isSaving ? "Enregistrement..." : "Enregistrer"}
@@ -216,6 +255,12 @@ export function CourseEditor({ courseId, user }: CourseEditorProps) {
       </header>
 
       <div className="container mx-auto px-4 py-8">
+        {courseData.status === "rejected" && courseData.rejectionReason && (
+          <div className="mb-6 p-4 border border-destructive/50 rounded-lg bg-destructive/10">
+            <p className="text-sm font-medium text-destructive">Cours refusé par l'administration</p>
+            <p className="text-sm text-foreground mt-1">{courseData.rejectionReason}</p>
+          </div>
+        )}
         <div className="grid gap-8 lg:grid-cols-3">
           {/* Course Settings */}
           <div className="lg:col-span-1">
@@ -253,7 +298,7 @@ export function CourseEditor({ courseId, user }: CourseEditorProps) {
                     className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
                   >
                     {domains.map((domain) => (
-                      <option key={domain.id} value={domain.id}>
+                      <option key={domain.id} value={domain.id.toString()}>
                         {domain.name}
                       </option>
                     ))}
@@ -265,10 +310,12 @@ export function CourseEditor({ courseId, user }: CourseEditorProps) {
                   <select
                     value={courseData.teacherId}
                     onChange={(e) => setCourseData({ ...courseData, teacherId: e.target.value })}
+                    disabled={user.role !== "ADMIN"}
                     className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
                   >
+                    <option value="">Aucun formateur</option>
                     {teachers.map((teacher) => (
-                      <option key={teacher.id} value={teacher.id}>
+                      <option key={teacher.id} value={teacher.id.toString()}>
                         {teacher.name}
                       </option>
                     ))}
@@ -312,7 +359,7 @@ export function CourseEditor({ courseId, user }: CourseEditorProps) {
           </div>
 
           {/* Chapters Management */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-8">
             <Card className="border-border bg-card">
               <CardHeader>
                 <CardTitle>Gestion des Chapitres</CardTitle>
@@ -336,9 +383,10 @@ export function CourseEditor({ courseId, user }: CourseEditorProps) {
                           <span className="px-2 py-1 bg-secondary text-secondary-foreground rounded text-xs">
                             {chapter.contentType}
                           </span>
-                          {chapter.hasQuiz && (
-                            <span className="px-2 py-1 bg-accent text-accent-foreground rounded text-xs">Quiz</span>
-                          )}
+                          <Button variant="ghost" size="sm" onClick={() => setQuizChapter(chapter)}>
+                            <HelpCircle className="h-4 w-4 mr-1" />
+                            Quiz
+                          </Button>
                           <Button variant="ghost" size="sm">
                             Modifier
                           </Button>
@@ -354,15 +402,32 @@ export function CourseEditor({ courseId, user }: CourseEditorProps) {
                     </div>
                   ))}
 
+                  {chapters.length === 0 && (
+                    <p className="text-center py-4 text-sm text-muted-foreground">Aucun chapitre pour ce cours</p>
+                  )}
+
                   <Button variant="outline" className="w-full bg-transparent">
                     + Ajouter un chapitre
                   </Button>
                 </div>
               </CardContent>
             </Card>
+
+            <FinalProjectBuilder courseId={courseId} />
           </div>
         </div>
       </div>
+
+      {/* Chapter Quiz Dialog */}
+      <Dialog open={quizChapter !== null} onOpenChange={(open) => !open && setQuizChapter(null)}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Quiz du chapitre</DialogTitle>
+            <DialogDescription>{quizChapter?.title}</DialogDescription>
+          </DialogHeader>
+          {quizChapter && <QuizBuilder key={quizChapter.id} chapterId={quizChapter.id} courseId={courseId} />}
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
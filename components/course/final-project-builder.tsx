@@ -0,0 +1,197 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { DeleteConfirmDialog } from "@/components/ui/delete-confirm-dialog"
+import { Save, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import type { RubricCriterion } from "@/lib/schemas/rubric"
+import { RubricEditor } from "./rubric-editor"
+
+interface FinalProjectBuilderProps {
+  courseId: number
+}
+
+interface ProjectForm {
+  title: string
+  description: string
+  // One requirement per line
+  requirements: string
+  required: boolean
+}
+
+const emptyForm: ProjectForm = { title: "", description: "", requirements: "", required: true }
+
+export function FinalProjectBuilder({ courseId }: FinalProjectBuilderProps) {
+  const [form, setForm] = useState<ProjectForm>(emptyForm)
+  const [projectId, setProjectId] = useState<number | null>(null)
+  const [rubric, setRubric] = useState<{ title: string; criteria: RubricCriterion[] } | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [showDelete, setShowDelete] = useState(false)
+
+  useEffect(() => {
+    const loadProject = async () => {
+      try {
+        const response = await fetch(`/api/courses/${courseId}/final-project`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Erreur lors du chargement du projet final")
+        }
+
+        if (data.project) {
+          setProjectId(data.project.id)
+          setForm({
+            title: data.project.title,
+            description: data.project.description,
+            requirements: (data.project.requirements ?? []).join("\n"),
+            required: data.project.required,
+          })
+          setRubric(data.rubric)
+        }
+      } catch (error) {
+        console.error("Error loading final project:", error)
+        toast.error(error instanceof Error ? error.message : "Erreur lors du chargement du projet final")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadProject()
+  }, [courseId])
+
+  const saveProject = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/courses/${courseId}/final-project`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: form.title,
+          description: form.description,
+          requirements: form.requirements
+            .split("\n")
+            .map((line) => line.trim())
+            .filter(Boolean),
+          required: form.required,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de l'enregistrement du projet final")
+      }
+
+      setProjectId(data.project.id)
+      toast.success(data.message || "Projet final enregistré")
+    } catch (error) {
+      console.error("Error saving final project:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de l'enregistrement du projet final")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const deleteProject = async () => {
+    try {
+      const response = await fetch(`/api/courses/${courseId}/final-project`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de la suppression du projet final")
+      }
+
+      setProjectId(null)
+      setRubric(null)
+      setForm(emptyForm)
+      toast.success(data.message || "Projet final supprimé")
+    } catch (error) {
+      console.error("Error deleting final project:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de la suppression du projet final")
+    }
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <CardTitle>Projet final</CardTitle>
+        <CardDescription>Le projet que vos étudiants rendent en fin de cours, évalué par vos soins</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-center py-4 text-sm text-muted-foreground">Chargement du projet final...</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="projectTitle">Titre</Label>
+              <Input
+                id="projectTitle"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                placeholder="Ex : Application de gestion de tâches"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="projectDescription">Consignes</Label>
+              <Textarea
+                id="projectDescription"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={4}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="projectRequirements">Livrables attendus (un par ligne)</Label>
+              <Textarea
+                id="projectRequirements"
+                value={form.requirements}
+                onChange={(e) => setForm({ ...form, requirements: e.target.value })}
+                rows={3}
+                placeholder={"Code source sur GitHub\nRapport PDF"}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="projectRequired">Obligatoire pour le certificat</Label>
+                <p className="text-sm text-muted-foreground">
+                  Le certificat n'est délivré qu'une fois le projet validé
+                </p>
+              </div>
+              <Switch
+                id="projectRequired"
+                checked={form.required}
+                onCheckedChange={(checked) => setForm({ ...form, required: checked })}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              {projectId && (
+                <Button variant="outline" onClick={() => setShowDelete(true)}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Supprimer
+                </Button>
+              )}
+              <Button onClick={saveProject} disabled={isSaving || !form.title.trim() || !form.description.trim()}>
+                <Save className="h-4 w-4 mr-2" />
+                {isSaving ? "Enregistrement..." : "Enregistrer le projet"}
+              </Button>
+            </div>
+            {projectId && <RubricEditor courseId={courseId} initialRubric={rubric} />}
+          </>
+        )}
+      </CardContent>
+
+      <DeleteConfirmDialog
+        open={showDelete}
+        onOpenChange={setShowDelete}
+        onConfirm={async () => {
+          await deleteProject()
+          setShowDelete(false)
+        }}
+        itemName="le projet final"
+      />
+    </Card>
+  )
+}
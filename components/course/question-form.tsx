@@ -0,0 +1,465 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Switch } from "@/components/ui/switch"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, Trash2 } from "lucide-react"
+import { BLANK_MARKER, type QuestionType, type QuizQuestion } from "@/lib/schemas/quiz"
+
+export const questionTypeLabels: Record<QuestionType, string> = {
+  single_choice: "Choix unique",
+  multiple_choice: "Choix multiples",
+  true_false: "Vrai / Faux",
+  numeric: "Réponse numérique",
+  matching: "Association",
+  ordering: "Remise en ordre",
+  fill_blank: "Texte à trous",
+  open: "Réponse libre (correction manuelle)",
+}
+
+// Types for which a partly right answer can earn part of the point
+const partialCreditTypes: QuestionType[] = ["multiple_choice", "matching", "ordering", "fill_blank"]
+
+// Flat editing state covering every question type
+interface QuestionFormState {
+  type: QuestionType
+  question: string
+  explanation: string
+  partialCredit: boolean
+  options: string[]
+  correctAnswer: number
+  correctAnswers: number[]
+  trueFalseAnswer: boolean
+  correctValue: string
+  tolerance: string
+  pairs: { left: string; right: string }[]
+  items: string[]
+  // Accepted answers per blank, separated by "|"
+  blanks: string[]
+}
+
+function toFormState(question?: QuizQuestion | null): QuestionFormState {
+  const state: QuestionFormState = {
+    type: question?.type || "single_choice",
+    question: question?.question || "",
+    explanation: question?.explanation || "",
+    partialCredit: question?.partialCredit || false,
+    options: ["", "", "", ""],
+    correctAnswer: 0,
+    correctAnswers: [],
+    trueFalseAnswer: true,
+    correctValue: "",
+    tolerance: "0",
+    pairs: [
+      { left: "", right: "" },
+      { left: "", right: "" },
+    ],
+    items: ["", "", ""],
+    blanks: [],
+  }
+
+  switch (question?.type) {
+    case "single_choice":
+      return { ...state, options: question.options, correctAnswer: question.correctAnswer }
+    case "multiple_choice":
+      return { ...state, options: question.options, correctAnswers: question.correctAnswers }
+    case "true_false":
+      return { ...state, trueFalseAnswer: question.correctAnswer }
+    case "numeric":
+      return { ...state, correctValue: String(question.correctValue), tolerance: String(question.tolerance) }
+    case "matching":
+      return { ...state, pairs: question.pairs }
+    case "ordering":
+      return { ...state, items: question.items }
+    case "fill_blank":
+      return { ...state, blanks: question.blanks.map((blank) => blank.acceptedAnswers.join(" | ")) }
+    default:
+      return state
+  }
+}
+
+function toQuestion(id: string, state: QuestionFormState): QuizQuestion {
+  const base = {
+    id,
+    question: state.question,
+    explanation: state.explanation || undefined,
+    partialCredit: partialCreditTypes.includes(state.type) ? state.partialCredit : undefined,
+  }
+  const filled = (values: string[]) => values.map((value) => value.trim()).filter((value) => value !== "")
+
+  switch (state.type) {
+    case "single_choice":
+      return { ...base, type: "single_choice", options: filled(state.options), correctAnswer: state.correctAnswer }
+    case "multiple_choice":
+      return {
+        ...base,
+        type: "multiple_choice",
+        options: filled(state.options),
+        correctAnswers: [...state.correctAnswers].sort((a, b) => a - b),
+      }
+    case "true_false":
+      return { ...base, type: "true_false", correctAnswer: state.trueFalseAnswer }
+    case "numeric":
+      return {
+        ...base,
+        type: "numeric",
+        correctValue: Number(state.correctValue),
+        tolerance: Number(state.tolerance) || 0,
+      }
+    case "matching":
+      return {
+        ...base,
+        type: "matching",
+        pairs: state.pairs
+          .map((pair) => ({ left: pair.left.trim(), right: pair.right.trim() }))
+          .filter((pair) => pair.left && pair.right),
+      }
+    case "ordering":
+      return { ...base, type: "ordering", items: filled(state.items) }
+    case "fill_blank":
+      return {
+        ...base,
+        type: "fill_blank",
+        blanks: state.blanks.map((blank) => ({ acceptedAnswers: filled(blank.split("|")) })),
+      }
+    case "open":
+      return { ...base, type: "open" }
+  }
+}
+
+interface QuestionFormProps {
+  initialData?: QuizQuestion | null
+  onSubmit: (question: QuizQuestion) => void
+  onCancel: () => void
+}
+
+export function QuestionForm({ initialData, onSubmit, onCancel }: QuestionFormProps) {
+  const [formData, setFormData] = useState<QuestionFormState>(() => toFormState(initialData))
+
+  const blankCount = formData.question.split(BLANK_MARKER).length - 1
+
+  const update = (data: Partial<QuestionFormState>) => setFormData({ ...formData, ...data })
+
+  const updateListItem = (field: "options" | "items", index: number, value: string) => {
+    const values = [...formData[field]]
+    values[index] = value
+    update({ [field]: values })
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    // Keep one entry of accepted answers per "___" in the question text
+    const blanks = Array.from({ length: blankCount }, (_, index) => formData.blanks[index] || "")
+    onSubmit(toQuestion(initialData?.id || "", { ...formData, blanks }))
+  }
+
+  const renderListEditor = (field: "options" | "items", placeholder: (index: number) => string) => (
+    <div className="space-y-2">
+      {formData[field].map((value, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <Input
+            value={value}
+            onChange={(e) => updateListItem(field, index, e.target.value)}
+            placeholder={placeholder(index)}
+            className="flex-1"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => update({ [field]: formData[field].filter((_, i) => i !== index) })}
+            disabled={formData[field].length <= 2}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => update({ [field]: [...formData[field], ""] })}>
+        <Plus className="h-4 w-4 mr-2" />
+        Ajouter
+      </Button>
+    </div>
+  )
+
+  const renderAnswerFields = () => {
+    switch (formData.type) {
+      case "single_choice":
+        return (
+          <div className="space-y-4">
+            <Label>Options de réponse</Label>
+            <RadioGroup
+              value={formData.correctAnswer.toString()}
+              onValueChange={(value) => update({ correctAnswer: Number.parseInt(value) })}
+            >
+              {formData.options.map((option, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <RadioGroupItem value={index.toString()} id={`option-${index}`} />
+                  <Label htmlFor={`option-${index}`} className="sr-only">
+                    Option {index + 1}
+                  </Label>
+                  <Input
+                    value={option}
+                    onChange={(e) => updateListItem("options", index, e.target.value)}
+                    placeholder={`Option ${String.fromCharCode(65 + index)}`}
+                    className="flex-1"
+                  />
+                  <span className="text-sm text-muted-foreground w-8">{String.fromCharCode(65 + index)}</span>
+                </div>
+              ))}
+            </RadioGroup>
+            <p className="text-sm text-muted-foreground">Sélectionnez la bonne réponse</p>
+          </div>
+        )
+
+      case "multiple_choice":
+        return (
+          <div className="space-y-4">
+            <Label>Options de réponse</Label>
+            {formData.options.map((option, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <Checkbox
+                  checked={formData.correctAnswers.includes(index)}
+                  onCheckedChange={(checked) =>
+                    update({
+                      correctAnswers: checked
+                        ? [...formData.correctAnswers, index]
+                        : formData.correctAnswers.filter((i) => i !== index),
+                    })
+                  }
+                />
+                <Input
+                  value={option}
+                  onChange={(e) => updateListItem("options", index, e.target.value)}
+                  placeholder={`Option ${String.fromCharCode(65 + index)}`}
+                  className="flex-1"
+                />
+              </div>
+            ))}
+            <p className="text-sm text-muted-foreground">Cochez toutes les bonnes réponses</p>
+          </div>
+        )
+
+      case "true_false":
+        return (
+          <div className="space-y-2">
+            <Label>Bonne réponse</Label>
+            <RadioGroup
+              value={formData.trueFalseAnswer ? "true" : "false"}
+              onValueChange={(value) => update({ trueFalseAnswer: value === "true" })}
+              className="flex space-x-4"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="true" id="answer-true" />
+                <Label htmlFor="answer-true">Vrai</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="false" id="answer-false" />
+                <Label htmlFor="answer-false">Faux</Label>
+              </div>
+            </RadioGroup>
+          </div>
+        )
+
+      case "numeric":
+        return (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="correctValue">Valeur attendue</Label>
+              <Input
+                id="correctValue"
+                type="number"
+                step="any"
+                value={formData.correctValue}
+                onChange={(e) => update({ correctValue: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tolerance">Tolérance (±)</Label>
+              <Input
+                id="tolerance"
+                type="number"
+                step="any"
+                min="0"
+                value={formData.tolerance}
+                onChange={(e) => update({ tolerance: e.target.value })}
+              />
+            </div>
+          </div>
+        )
+
+      case "matching":
+        return (
+          <div className="space-y-2">
+            <Label>Paires à associer</Label>
+            {formData.pairs.map((pair, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <Input
+                  value={pair.left}
+                  onChange={(e) =>
+                    update({ pairs: formData.pairs.map((p, i) => (i === index ? { ...p, left: e.target.value } : p)) })
+                  }
+                  placeholder="Élément"
+                />
+                <span className="text-muted-foreground">→</span>
+                <Input
+                  value={pair.right}
+                  onChange={(e) =>
+                    update({ pairs: formData.pairs.map((p, i) => (i === index ? { ...p, right: e.target.value } : p)) })
+                  }
+                  placeholder="Correspondance"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update({ pairs: formData.pairs.filter((_, i) => i !== index) })}
+                  disabled={formData.pairs.length <= 2}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => update({ pairs: [...formData.pairs, { left: "", right: "" }] })}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Ajouter une paire
+            </Button>
+          </div>
+        )
+
+      case "ordering":
+        return (
+          <div className="space-y-2">
+            <Label>Éléments dans le bon ordre</Label>
+            {renderListEditor("items", (index) => `Étape ${index + 1}`)}
+            <p className="text-sm text-muted-foreground">Les éléments seront mélangés pour l'étudiant</p>
+          </div>
+        )
+
+      case "fill_blank":
+        return (
+          <div className="space-y-2">
+            <Label>Réponses acceptées</Label>
+            {blankCount === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Insérez {BLANK_MARKER} dans la question pour chaque trou à compléter
+              </p>
+            ) : (
+              Array.from({ length: blankCount }, (_, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <span className="text-sm text-muted-foreground w-16">Trou {index + 1}</span>
+                  <Input
+                    value={formData.blanks[index] || ""}
+                    onChange={(e) => {
+                      const blanks = [...formData.blanks]
+                      blanks[index] = e.target.value
+                      update({ blanks })
+                    }}
+                    placeholder="réponse | variante acceptée"
+                    required
+                  />
+                </div>
+              ))
+            )}
+          </div>
+        )
+
+      case "open":
+        return null
+    }
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <CardTitle className="text-lg">{initialData ? "Modifier" : "Ajouter"} une question</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="questionType">Type de question</Label>
+            <Select value={formData.type} onValueChange={(value: QuestionType) => update({ type: value })}>
+              <SelectTrigger id="questionType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(questionTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="question">Question</Label>
+            <Textarea
+              id="question"
+              value={formData.question}
+              onChange={(e) => update({ question: e.target.value })}
+              placeholder={
+                formData.type === "fill_blank"
+                  ? `Ex : La capitale du Maroc est ${BLANK_MARKER}.`
+                  : "Posez votre question..."
+              }
+              required
+            />
+          </div>
+
+          {renderAnswerFields()}
+
+          {partialCreditTypes.includes(formData.type) && (
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="partialCredit">Points partiels</Label>
+                <p className="text-sm text-muted-foreground">Accorder une partie du point aux réponses partiellement justes</p>
+              </div>
+              <Switch
+                id="partialCredit"
+                checked={formData.partialCredit}
+                onCheckedChange={(checked) => update({ partialCredit: checked })}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="explanation">Explication (optionnel)</Label>
+            <Textarea
+              id="explanation"
+              value={formData.explanation}
+              onChange={(e) => update({ explanation: e.target.value })}
+              placeholder={
+                formData.type === "open"
+                  ? "Éléments de réponse attendus, affichés après la soumission..."
+                  : "Expliquez pourquoi cette réponse est correcte..."
+              }
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Annuler
+            </Button>
+            <Button type="submit">{initialData ? "Modifier" : "Ajouter"} la question</Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
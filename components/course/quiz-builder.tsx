@@ -1,52 +1,193 @@
 "use client"
 
-import type React from "react"
-
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Textarea } from "@/components/ui/textarea"
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
-import { Plus, Trash2, Edit } from "lucide-react"
-
-interface QuizQuestion {
-  id: string
-  question: string
-  options: string[]
-  correctAnswer: number
-  explanation?: string
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, Trash2, Edit, Save, Shuffle } from "lucide-react"
+import { toast } from "sonner"
+import { QuestionForm, questionTypeLabels } from "@/components/course/question-form"
+import { describeSolution } from "@/lib/quizzes/format"
+import type {
+  QuestionDifficulty,
+  QuestionDraw,
+  QuizLatePolicy,
+  QuizQuestion,
+  QuizScoringPolicy,
+} from "@/lib/schemas/quiz"
+
+interface BankOption {
+  id: number
+  title: string
+  questionCount: number
 }
 
+const difficultyOptions: { value: QuestionDifficulty | "all"; label: string }[] = [
+  { value: "all", label: "Toutes difficultés" },
+  { value: "easy", label: "Facile" },
+  { value: "medium", label: "Moyen" },
+  { value: "hard", label: "Difficile" },
+]
+
+const scoringPolicyOptions: { value: QuizScoringPolicy; label: string }[] = [
+  { value: "best", label: "Meilleure tentative" },
+  { value: "last", label: "Dernière tentative" },
+  { value: "average", label: "Moyenne des tentatives" },
+]
+
+const latePolicyOptions: { value: QuizLatePolicy; label: string }[] = [
+  { value: "auto_submit", label: "Soumettre les réponses enregistrées" },
+  { value: "reject", label: "Refuser la tentative (note 0)" },
+]
+
 interface QuizData {
   title: string
   passingScore: number
   questions: QuizQuestion[]
+  // Questions drawn from banks at each attempt, on top of the fixed ones
+  draws?: QuestionDraw[]
+  // Empty limits mean no time limit, unlimited attempts and no cooldown
+  timeLimitMinutes?: number | null
+  maxAttempts?: number | null
+  cooldownMinutes?: number | null
+  scoringPolicy?: QuizScoringPolicy
+  latePolicy?: QuizLatePolicy
+}
+
+// Empty or invalid inputs clear the limit
+function parseLimit(value: string) {
+  const parsed = Number.parseInt(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
 }
 
 interface QuizBuilderProps {
   initialData?: QuizData | null
-  onChange: (quizData: QuizData) => void
+  onChange?: (quizData: QuizData) => void
+  // When set, the quiz of this persisted chapter is loaded and saved through the API
+  chapterId?: number
+  // Course whose question banks the quiz may draw from
+  courseId?: number
 }
 
-export function QuizBuilder({ initialData, onChange }: QuizBuilderProps) {
+export function QuizBuilder({ initialData, onChange, chapterId, courseId }: QuizBuilderProps) {
   const [quizData, setQuizData] = useState<QuizData>({
     title: initialData?.title || "",
     passingScore: initialData?.passingScore || 70,
     questions: initialData?.questions || [],
+    draws: initialData?.draws || [],
+    timeLimitMinutes: initialData?.timeLimitMinutes ?? null,
+    maxAttempts: initialData?.maxAttempts ?? null,
+    cooldownMinutes: initialData?.cooldownMinutes ?? null,
+    scoringPolicy: initialData?.scoringPolicy ?? "best",
+    latePolicy: initialData?.latePolicy ?? "auto_submit",
   })
+  const [banks, setBanks] = useState<BankOption[]>([])
 
   const [editingQuestion, setEditingQuestion] = useState<QuizQuestion | null>(null)
   const [showQuestionForm, setShowQuestionForm] = useState(false)
+  const [quizId, setQuizId] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(chapterId !== undefined)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (chapterId === undefined) return
+
+    const loadQuiz = async () => {
+      try {
+        const response = await fetch(`/api/chapters/${chapterId}/quizzes`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Erreur lors du chargement du quiz")
+        }
+
+        const [quiz] = data.quizzes
+        if (quiz) {
+          setQuizId(quiz.id)
+          setQuizData({
+            title: quiz.title,
+            passingScore: quiz.passingScore ?? 70,
+            questions: quiz.questions,
+            draws: quiz.draws || [],
+            timeLimitMinutes: quiz.timeLimitMinutes,
+            maxAttempts: quiz.maxAttempts,
+            cooldownMinutes: quiz.cooldownMinutes,
+            scoringPolicy: quiz.scoringPolicy,
+            latePolicy: quiz.latePolicy,
+          })
+        }
+      } catch (error) {
+        console.error("Error loading quiz:", error)
+        toast.error(error instanceof Error ? error.message : "Erreur lors du chargement du quiz")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadQuiz()
+  }, [chapterId])
+
+  useEffect(() => {
+    if (courseId === undefined) return
+
+    const loadBanks = async () => {
+      try {
+        const response = await fetch(`/api/question-banks?courseId=${courseId}`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Erreur lors du chargement des banques de questions")
+        }
+        setBanks(data.banks)
+      } catch (error) {
+        console.error("Error loading question banks:", error)
+      }
+    }
+
+    loadBanks()
+  }, [courseId])
 
   const updateQuizData = (newData: Partial<QuizData>) => {
     const updated = { ...quizData, ...newData }
     setQuizData(updated)
-    onChange(updated)
+    onChange?.(updated)
+  }
+
+  const saveQuiz = async () => {
+    if (chapterId === undefined) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(quizId ? `/api/quizzes/${quizId}` : `/api/chapters/${chapterId}/quizzes`, {
+        method: quizId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(quizData),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de l'enregistrement du quiz")
+      }
+
+      setQuizId(data.quiz.id)
+      toast.success(data.message || "Quiz enregistré")
+    } catch (error) {
+      console.error("Error saving quiz:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de l'enregistrement du quiz")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Card className="border-border bg-card">
+        <CardContent className="py-8 text-center text-muted-foreground">Chargement du quiz...</CardContent>
+      </Card>
+    )
   }
 
-  const addQuestion = (questionData: Omit<QuizQuestion, "id">) => {
+  const addQuestion = (questionData: QuizQuestion) => {
     const newQuestion: QuizQuestion = {
       ...questionData,
       id: Date.now().toString(),
@@ -68,6 +209,12 @@ export function QuizBuilder({ initialData, onChange }: QuizBuilderProps) {
     updateQuizData({ questions: newQuestions })
   }
 
+  const draws = quizData.draws || []
+
+  const updateDraw = (index: number, changes: Partial<QuestionDraw>) => {
+    updateQuizData({ draws: draws.map((draw, i) => (i === index ? { ...draw, ...changes } : draw)) })
+  }
+
   return (
     <Card className="border-border bg-card">
       <CardHeader>
@@ -99,6 +246,85 @@ export function QuizBuilder({ initialData, onChange }: QuizBuilderProps) {
           </div>
         </div>
 
+        {/* Attempt Rules */}
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="timeLimit">Durée (minutes)</Label>
+            <Input
+              id="timeLimit"
+              type="number"
+              min="1"
+              max="600"
+              value={quizData.timeLimitMinutes ?? ""}
+              onChange={(e) => updateQuizData({ timeLimitMinutes: parseLimit(e.target.value) })}
+              placeholder="Illimitée"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="maxAttempts">Tentatives maximum</Label>
+            <Input
+              id="maxAttempts"
+              type="number"
+              min="1"
+              max="100"
+              value={quizData.maxAttempts ?? ""}
+              onChange={(e) => updateQuizData({ maxAttempts: parseLimit(e.target.value) })}
+              placeholder="Illimitées"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cooldown">Délai entre tentatives (minutes)</Label>
+            <Input
+              id="cooldown"
+              type="number"
+              min="1"
+              max="10080"
+              value={quizData.cooldownMinutes ?? ""}
+              onChange={(e) => updateQuizData({ cooldownMinutes: parseLimit(e.target.value) })}
+              placeholder="Aucun"
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="scoringPolicy">Note retenue</Label>
+            <Select
+              value={quizData.scoringPolicy ?? "best"}
+              onValueChange={(value: QuizScoringPolicy) => updateQuizData({ scoringPolicy: value })}
+            >
+              <SelectTrigger id="scoringPolicy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {scoringPolicyOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="latePolicy">Soumission hors délai</Label>
+            <Select
+              value={quizData.latePolicy ?? "auto_submit"}
+              onValueChange={(value: QuizLatePolicy) => updateQuizData({ latePolicy: value })}
+              disabled={!quizData.timeLimitMinutes}
+            >
+              <SelectTrigger id="latePolicy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {latePolicyOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
         {/* Questions List */}
         <div className="space-y-4">
           <div className="flex items-center justify-between">
@@ -123,21 +349,37 @@ export function QuizBuilder({ initialData, onChange }: QuizBuilderProps) {
                     <h5 className="font-medium mb-2">
                       {index + 1}. {question.question}
                     </h5>
-                    <div className="space-y-1">
-                      {question.options.map((option, optionIndex) => (
-                        <div
-                          key={optionIndex}
-                          className={`text-sm p-2 rounded ${
-                            optionIndex === question.correctAnswer
-                              ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
-                              : "bg-muted"
-                          }`}
-                        >
-                          {String.fromCharCode(65 + optionIndex)}. {option}
-                          {optionIndex === question.correctAnswer && " ✓"}
-                        </div>
-                      ))}
-                    </div>
+                    <Badge variant="outline" className="mb-2">
+                      {questionTypeLabels[question.type]}
+                      {question.partialCredit && " · points partiels"}
+                    </Badge>
+                    {question.type === "single_choice" || question.type === "multiple_choice" ? (
+                      <div className="space-y-1">
+                        {question.options.map((option, optionIndex) => {
+                          const isCorrect =
+                            question.type === "single_choice"
+                              ? optionIndex === question.correctAnswer
+                              : question.correctAnswers.includes(optionIndex)
+                          return (
+                            <div
+                              key={optionIndex}
+                              className={`text-sm p-2 rounded ${
+                                isCorrect ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300" : "bg-muted"
+                              }`}
+                            >
+                              {String.fromCharCode(65 + optionIndex)}. {option}
+                              {isCorrect && " ✓"}
+                            </div>
+                          )
+                        })}
+                      </div>
+                    ) : question.type === "open" ? (
+                      <p className="text-sm p-2 rounded bg-muted">Réponse libre, corrigée manuellement</p>
+                    ) : (
+                      <p className="text-sm p-2 rounded bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
+                        Réponse attendue : {describeSolution(question)}
+                      </p>
+                    )}
                     {question.explanation && (
                       <p className="text-sm text-muted-foreground mt-2">
                         <strong>Explication:</strong> {question.explanation}
@@ -172,6 +414,93 @@ export function QuizBuilder({ initialData, onChange }: QuizBuilderProps) {
           )}
         </div>
 
+        {/* Bank Draws */}
+        {courseId !== undefined && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="font-medium">Tirages aléatoires ({draws.length})</h4>
+                <p className="text-sm text-muted-foreground">
+                  Questions tirées des banques à chaque tentative, en plus des questions fixes
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={banks.length === 0}
+                onClick={() => updateQuizData({ draws: [...draws, { bankId: banks[0].id, count: 5 }] })}
+              >
+                <Shuffle className="h-4 w-4 mr-2" />
+                Ajouter un tirage
+              </Button>
+            </div>
+
+            {banks.length === 0 && (
+              <p className="text-sm text-muted-foreground">Aucune banque de questions pour ce cours ou son domaine</p>
+            )}
+
+            {draws.map((draw, index) => (
+              <div key={index} className="grid gap-2 sm:grid-cols-[2fr_80px_1fr_1fr_auto] items-center">
+                <Select value={String(draw.bankId)} onValueChange={(value) => updateDraw(index, { bankId: Number(value) })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Banque" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {banks.map((bank) => (
+                      <SelectItem key={bank.id} value={String(bank.id)}>
+                        {bank.title} ({bank.questionCount})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="1"
+                  value={draw.count}
+                  onChange={(e) => updateDraw(index, { count: Math.max(1, Number.parseInt(e.target.value) || 1) })}
+                  aria-label="Nombre de questions"
+                />
+                <Select
+                  value={draw.difficulty || "all"}
+                  onValueChange={(value) =>
+                    updateDraw(index, { difficulty: value === "all" ? undefined : (value as QuestionDifficulty) })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {difficultyOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  defaultValue={draw.tags?.join(", ") || ""}
+                  // Parsed on blur so typing a comma is not swallowed
+                  onBlur={(e) => {
+                    const tags = e.target.value
+                      .split(",")
+                      .map((tag) => tag.trim().toLowerCase())
+                      .filter(Boolean)
+                    updateDraw(index, { tags: tags.length ? tags : undefined })
+                  }}
+                  placeholder="Thèmes (optionnel)"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateQuizData({ draws: draws.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Question Form */}
         {showQuestionForm && (
           <QuestionForm
@@ -183,102 +512,19 @@ export function QuizBuilder({ initialData, onChange }: QuizBuilderProps) {
             }}
           />
         )}
-      </CardContent>
-    </Card>
-  )
-}
-
-interface QuestionFormProps {
-  initialData?: QuizQuestion | null
-  onSubmit: (question: QuizQuestion) => void
-  onCancel: () => void
-}
-
-function QuestionForm({ initialData, onSubmit, onCancel }: QuestionFormProps) {
-  const [formData, setFormData] = useState({
-    question: initialData?.question || "",
-    options: initialData?.options || ["", "", "", ""],
-    correctAnswer: initialData?.correctAnswer || 0,
-    explanation: initialData?.explanation || "",
-  })
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault()
-    const questionData: QuizQuestion = {
-      id: initialData?.id || "",
-      ...formData,
-      options: formData.options.filter((option) => option.trim() !== ""),
-    }
-    onSubmit(questionData)
-  }
-
-  const updateOption = (index: number, value: string) => {
-    const newOptions = [...formData.options]
-    newOptions[index] = value
-    setFormData({ ...formData, options: newOptions })
-  }
-
-  return (
-    <Card className="border-border bg-card">
-      <CardHeader>
-        <CardTitle className="text-lg">{initialData ? "Modifier" : "Ajouter"} une question</CardTitle>
-      </CardHeader>
-      <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="question">Question</Label>
-            <Textarea
-              id="question"
-              value={formData.question}
-              onChange={(e) => setFormData({ ...formData, question: e.target.value })}
-              placeholder="Posez votre question..."
-              required
-            />
-          </div>
-
-          <div className="space-y-4">
-            <Label>Options de réponse</Label>
-            <RadioGroup
-              value={formData.correctAnswer.toString()}
-              onValueChange={(value) => setFormData({ ...formData, correctAnswer: Number.parseInt(value) })}
+        {chapterId !== undefined && (
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              onClick={saveQuiz}
+              disabled={isSaving || !quizData.title.trim() || (quizData.questions.length === 0 && draws.length === 0)}
             >
-              {formData.options.map((option, index) => (
-                <div key={index} className="flex items-center space-x-2">
-                  <RadioGroupItem value={index.toString()} id={`option-${index}`} />
-                  <Label htmlFor={`option-${index}`} className="sr-only">
-                    Option {index + 1}
-                  </Label>
-                  <Input
-                    value={option}
-                    onChange={(e) => updateOption(index, e.target.value)}
-                    placeholder={`Option ${String.fromCharCode(65 + index)}`}
-                    className="flex-1"
-                  />
-                  <span className="text-sm text-muted-foreground w-8">{String.fromCharCode(65 + index)}</span>
-                </div>
-              ))}
-            </RadioGroup>
-            <p className="text-sm text-muted-foreground">Sélectionnez la bonne réponse</p>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="explanation">Explication (optionnel)</Label>
-            <Textarea
-              id="explanation"
-              value={formData.explanation}
-              onChange={(e) => setFormData({ ...formData, explanation: e.target.value })}
-              placeholder="Expliquez pourquoi cette réponse est correcte..."
-              rows={2}
-            />
-          </div>
-
-          <div className="flex justify-end space-x-2">
-            <Button type="button" variant="outline" onClick={onCancel}>
-              Annuler
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? "Enregistrement..." : "Enregistrer le quiz"}
             </Button>
-            <Button type="submit">{initialData ? "Modifier" : "Ajouter"} la question</Button>
           </div>
-        </form>
+        )}
       </CardContent>
     </Card>
   )
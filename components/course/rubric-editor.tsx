@@ -0,0 +1,341 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DeleteConfirmDialog } from "@/components/ui/delete-confirm-dialog"
+import { Copy, Plus, Save, Trash2, X } from "lucide-react"
+import { toast } from "sonner"
+import { getRubricMaxPoints } from "@/lib/projects/rubric"
+import type { RubricCriterion } from "@/lib/schemas/rubric"
+import { RubricMatrix } from "./rubric-matrix"
+
+interface Rubric {
+  title: string
+  criteria: RubricCriterion[]
+}
+
+interface CopyableRubric {
+  id: number
+  title: string
+  courseId: number
+  courseTitle: string
+  criterionCount: number
+  maxPoints: number
+}
+
+interface RubricEditorProps {
+  courseId: number
+  initialRubric: Rubric | null
+}
+
+let idCounter = 0
+const newId = () => `${Date.now().toString(36)}${(idCounter++).toString(36)}`
+
+const createCriterion = (): RubricCriterion => ({
+  id: newId(),
+  title: "",
+  levels: [
+    { id: newId(), label: "Insuffisant", points: 0 },
+    { id: newId(), label: "Satisfaisant", points: 2 },
+    { id: newId(), label: "Excellent", points: 4 },
+  ],
+})
+
+export function RubricEditor({ courseId, initialRubric }: RubricEditorProps) {
+  const [rubric, setRubric] = useState<Rubric | null>(initialRubric)
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState<Rubric>({ title: "", criteria: [] })
+  const [isSaving, setIsSaving] = useState(false)
+  const [showDelete, setShowDelete] = useState(false)
+  const [copyOptions, setCopyOptions] = useState<CopyableRubric[]>([])
+  const [copySource, setCopySource] = useState("")
+
+  useEffect(() => {
+    const loadCopyOptions = async () => {
+      try {
+        const response = await fetch("/api/rubrics")
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Erreur lors du chargement des grilles")
+        }
+        setCopyOptions((data.rubrics ?? []).filter((item: CopyableRubric) => item.courseId !== courseId))
+      } catch (error) {
+        console.error("Error loading rubrics:", error)
+      }
+    }
+
+    loadCopyOptions()
+  }, [courseId])
+
+  const startEditing = () => {
+    setDraft(rubric ?? { title: "Grille d'évaluation", criteria: [createCriterion()] })
+    setIsEditing(true)
+  }
+
+  const updateCriterion = (criterionId: string, changes: Partial<RubricCriterion>) => {
+    setDraft((current) => ({
+      ...current,
+      criteria: current.criteria.map((criterion) =>
+        criterion.id === criterionId ? { ...criterion, ...changes } : criterion
+      ),
+    }))
+  }
+
+  const updateLevel = (criterion: RubricCriterion, levelId: string, changes: { label?: string; points?: number }) => {
+    updateCriterion(criterion.id, {
+      levels: criterion.levels.map((level) => (level.id === levelId ? { ...level, ...changes } : level)),
+    })
+  }
+
+  const saveRubric = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/courses/${courseId}/final-project/rubric`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de l'enregistrement de la grille")
+      }
+
+      setRubric({ title: data.rubric.title, criteria: data.rubric.criteria })
+      setIsEditing(false)
+      toast.success(data.message || "Grille d'évaluation enregistrée")
+    } catch (error) {
+      console.error("Error saving rubric:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de l'enregistrement de la grille")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const deleteRubric = async () => {
+    try {
+      const response = await fetch(`/api/courses/${courseId}/final-project/rubric`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de la suppression de la grille")
+      }
+
+      setRubric(null)
+      setIsEditing(false)
+      toast.success(data.message || "Grille d'évaluation supprimée")
+    } catch (error) {
+      console.error("Error deleting rubric:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de la suppression de la grille")
+    }
+  }
+
+  const copyRubric = async () => {
+    const source = copyOptions.find((item) => item.id.toString() === copySource)
+    if (!source) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/courses/${courseId}/final-project/rubric/copy`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sourceCourseId: source.courseId }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de la copie de la grille")
+      }
+
+      setRubric({ title: data.rubric.title, criteria: data.rubric.criteria })
+      setIsEditing(false)
+      setCopySource("")
+      toast.success(data.message || "Grille d'évaluation copiée")
+    } catch (error) {
+      console.error("Error copying rubric:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de la copie de la grille")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isDraftComplete =
+    draft.title.trim() !== "" &&
+    draft.criteria.length > 0 &&
+    draft.criteria.every(
+      (criterion) => criterion.title.trim() !== "" && criterion.levels.every((level) => level.label.trim() !== "")
+    ) &&
+    getRubricMaxPoints(draft.criteria) > 0
+
+  return (
+    <div className="space-y-4 border-t border-border pt-4">
+      <div>
+        <h4 className="font-medium">Grille d'évaluation</h4>
+        <p className="text-sm text-muted-foreground">
+          Critères et niveaux utilisés pour noter le projet ; la note sur 100 est calculée à partir des points
+        </p>
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rubricTitle">Titre de la grille</Label>
+            <Input
+              id="rubricTitle"
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            />
+          </div>
+
+          {draft.criteria.map((criterion, index) => (
+            <div key={criterion.id} className="border border-border rounded-lg p-3 space-y-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={criterion.title}
+                  onChange={(e) => updateCriterion(criterion.id, { title: e.target.value })}
+                  placeholder={`Critère ${index + 1}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={draft.criteria.length <= 1}
+                  onClick={() =>
+                    setDraft({ ...draft, criteria: draft.criteria.filter((item) => item.id !== criterion.id) })
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Input
+                value={criterion.description ?? ""}
+                onChange={(e) => updateCriterion(criterion.id, { description: e.target.value })}
+                placeholder="Description (optionnel)"
+              />
+              <div className="space-y-2">
+                {criterion.levels.map((level) => (
+                  <div key={level.id} className="flex items-center gap-2">
+                    <Input
+                      value={level.label}
+                      onChange={(e) => updateLevel(criterion, level.id, { label: e.target.value })}
+                      placeholder="Niveau"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      value={level.points}
+                      onChange={(e) =>
+                        updateLevel(criterion, level.id, { points: Math.max(0, Math.floor(Number(e.target.value) || 0)) })
+                      }
+                      className="w-24"
+                    />
+                    <span className="text-sm text-muted-foreground">pts</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={criterion.levels.length <= 2}
+                      onClick={() =>
+                        updateCriterion(criterion.id, {
+                          levels: criterion.levels.filter((item) => item.id !== level.id),
+                        })
+                      }
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {criterion.levels.length < 6 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      updateCriterion(criterion.id, {
+                        levels: [...criterion.levels, { id: newId(), label: "", points: 0 }],
+                      })
+                    }
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Ajouter un niveau
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              disabled={draft.criteria.length >= 20}
+              onClick={() => setDraft({ ...draft, criteria: [...draft.criteria, createCriterion()] })}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Ajouter un critère
+            </Button>
+            <span className="text-sm text-muted-foreground">Total : {getRubricMaxPoints(draft.criteria)} pts</span>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setIsEditing(false)} disabled={isSaving}>
+              Annuler
+            </Button>
+            <Button onClick={saveRubric} disabled={isSaving || !isDraftComplete}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? "Enregistrement..." : "Enregistrer la grille"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {rubric ? (
+            <>
+              <p className="text-sm font-medium">{rubric.title}</p>
+              <RubricMatrix criteria={rubric.criteria} />
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Aucune grille : le projet est noté directement sur 100
+            </p>
+          )}
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            {copyOptions.length > 0 && (
+              <>
+                <Select value={copySource} onValueChange={setCopySource}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue placeholder="Copier depuis un autre cours" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {copyOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id.toString()}>
+                        {option.courseTitle} · {option.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={copyRubric} disabled={!copySource || isSaving}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copier
+                </Button>
+              </>
+            )}
+            {rubric && (
+              <Button variant="outline" onClick={() => setShowDelete(true)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Supprimer
+              </Button>
+            )}
+            <Button onClick={startEditing}>{rubric ? "Modifier la grille" : "Créer une grille"}</Button>
+          </div>
+        </div>
+      )}
+
+      <DeleteConfirmDialog
+        open={showDelete}
+        onOpenChange={setShowDelete}
+        onConfirm={async () => {
+          await deleteRubric()
+          setShowDelete(false)
+        }}
+        itemName="la grille d'évaluation"
+      />
+    </div>
+  )
+}
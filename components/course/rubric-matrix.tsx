@@ -0,0 +1,62 @@
+"use client"
+
+import { cn } from "@/lib/utils/utils"
+import { getRubricMaxPoints } from "@/lib/projects/rubric"
+import type { RubricCriterion } from "@/lib/schemas/rubric"
+
+interface RubricMatrixProps {
+  criteria: RubricCriterion[]
+  // Level picked per criterion ID
+  selected?: Record<string, string>
+  // Read-only when omitted
+  onSelect?: (criterionId: string, levelId: string) => void
+}
+
+export function RubricMatrix({ criteria, selected = {}, onSelect }: RubricMatrixProps) {
+  const maxPoints = getRubricMaxPoints(criteria)
+  const points = criteria.reduce((sum, criterion) => {
+    const level = criterion.levels.find((item) => item.id === selected[criterion.id])
+    return sum + (level?.points ?? 0)
+  }, 0)
+  const hasSelection = Object.keys(selected).length > 0
+
+  return (
+    <div className="space-y-3">
+      {criteria.map((criterion) => (
+        <div key={criterion.id} className="border border-border rounded-lg p-3 space-y-2">
+          <div>
+            <p className="font-medium text-sm">{criterion.title}</p>
+            {criterion.description && <p className="text-sm text-muted-foreground">{criterion.description}</p>}
+          </div>
+          <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${criterion.levels.length}, minmax(0, 1fr))` }}>
+            {criterion.levels.map((level) => {
+              const isSelected = selected[criterion.id] === level.id
+              return (
+                <button
+                  key={level.id}
+                  type="button"
+                  disabled={!onSelect}
+                  onClick={() => onSelect?.(criterion.id, level.id)}
+                  className={cn(
+                    "text-left rounded-md border p-2 text-sm transition-colors",
+                    isSelected ? "border-primary bg-primary/10" : "border-border",
+                    onSelect ? "hover:bg-muted/50" : "cursor-default"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{level.label}</span>
+                    <span className="text-muted-foreground">{level.points} pts</span>
+                  </div>
+                  {level.description && <p className="text-xs text-muted-foreground mt-1">{level.description}</p>}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+      <p className="text-sm text-right text-muted-foreground">
+        {hasSelection ? `Total : ${points}/${maxPoints} pts` : `Total : ${maxPoints} pts`}
+      </p>
+    </div>
+  )
+}
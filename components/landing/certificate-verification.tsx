@@ -0,0 +1,135 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle, Search, ShieldCheck, XCircle } from "lucide-react";
+import type { CertificateVerification } from "@/lib/certificates";
+
+interface CertificateVerificationContentProps {
+  hash: string | null;
+  verification: CertificateVerification | null;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("fr-FR", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+export function CertificateVerificationContent({
+  hash,
+  verification,
+}: CertificateVerificationContentProps) {
+  return (
+    <div className="py-16 px-4">
+      <div className="container mx-auto max-w-2xl space-y-8">
+        <div className="text-center">
+          <ShieldCheck className="h-12 w-12 text-primary mx-auto mb-4" />
+          <h1 className="text-4xl font-bold text-foreground mb-4">
+            Vérification de certificat
+          </h1>
+          <p className="text-lg text-muted-foreground">
+            Vérifiez l'authenticité d'un certificat délivré par Najm Academy
+          </p>
+        </div>
+
+        <Card className="border-border">
+          <CardContent className="pt-6">
+            <form method="GET" action="/verify" className="flex gap-2">
+              <Input
+                name="hash"
+                defaultValue={hash ?? ""}
+                placeholder="Identifiant du certificat"
+                className="font-mono"
+                required
+              />
+              <Button type="submit">
+                <Search className="h-4 w-4 mr-2" />
+                Vérifier
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {verification?.status === "found" && (
+          <Card
+            className={
+              verification.certificate.status === "valid"
+                ? "border-emerald-500/50"
+                : "border-destructive/50"
+            }
+          >
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                {verification.certificate.status === "valid" ? (
+                  <Badge className="bg-emerald-600 text-white">
+                    <CheckCircle className="h-3 w-3 mr-1" />
+                    Certificat valide
+                  </Badge>
+                ) : (
+                  <Badge variant="destructive">
+                    <XCircle className="h-3 w-3 mr-1" />
+                    Certificat révoqué
+                  </Badge>
+                )}
+              </div>
+              <CardTitle className="text-2xl mt-2">
+                {verification.certificate.courseTitle}
+              </CardTitle>
+              {verification.certificate.domainName && (
+                <CardDescription>
+                  Domaine : {verification.certificate.domainName}
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <p className="text-xs text-muted-foreground">Titulaire</p>
+                <p className="font-medium">
+                  {verification.certificate.studentName}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Date de délivrance</p>
+                <p className="font-medium">
+                  {formatDate(verification.certificate.issuedAt)}
+                </p>
+              </div>
+              {verification.certificate.revokedAt && (
+                <div>
+                  <p className="text-xs text-muted-foreground">Révoqué le</p>
+                  <p className="font-medium">
+                    {formatDate(verification.certificate.revokedAt)}
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {verification && verification.status !== "found" && (
+          <Card className="border-destructive/50">
+            <CardContent className="pt-6 flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-destructive flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-foreground">
+                {verification.status === "rate_limited" &&
+                  "Trop de vérifications depuis votre connexion. Veuillez réessayer dans quelques minutes."}
+                {verification.status === "invalid" &&
+                  "Cet identifiant de certificat n'est pas valide."}
+                {verification.status === "not_found" &&
+                  "Aucun certificat ne correspond à cet identifiant."}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
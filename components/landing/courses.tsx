@@ -25,8 +25,8 @@ interface Course {
  * - Responsive grid layout
  */
 export async function Courses() {
-  // Fetch courses from database
-  const result = await getCoursesWithDetails();
+  // Fetch courses from database; only validated courses are public
+  const result = await getCoursesWithDetails("validated");
   const dbCourses = result.success ? result.data : [];
 
   // Helper function to get domain-specific fallback thumbnail
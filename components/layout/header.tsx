@@ -8,6 +8,7 @@ import { LogoutButton } from "@/components/auth/logout-button";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { getAvatarUrl, getUserInitials } from "@/lib/utils/utils";
 import { Logo } from "@/components/ui/logo";
+import { NotificationBell } from "./notification-bell";
 
 interface HeaderProps {
   user: {
@@ -79,6 +80,7 @@ export function Header({ user, onMenuClick }: HeaderProps) {
 
         {/* User profile section */}
         <div className="flex items-center gap-1 sm:gap-2 lg:gap-4 flex-shrink-0">
+          <NotificationBell />
           <div className="flex items-center gap-2 sm:gap-3">
             <Avatar className="h-8 w-8 sm:h-9 sm:w-9 ring-2 ring-primary/20 flex-shrink-0">
               <AvatarImage src={avatarSrc} alt={user.name || "User"} />
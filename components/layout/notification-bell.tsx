@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface Notification {
+  id: number;
+  title: string;
+  message: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export function NotificationBell() {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  useEffect(() => {
+    const loadNotifications = async () => {
+      try {
+        const response = await fetch("/api/notifications");
+        if (!response.ok) return;
+        const data = await response.json();
+        setNotifications(data.notifications || []);
+      } catch (error) {
+        console.error("Error loading notifications:", error);
+      }
+    };
+
+    loadNotifications();
+  }, []);
+
+  const unreadCount = notifications.filter((n) => !n.readAt).length;
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open || unreadCount === 0) return;
+
+    try {
+      await fetch("/api/notifications", { method: "PATCH" });
+      const readAt = new Date().toISOString();
+      setNotifications((current) =>
+        current.map((n) => (n.readAt ? n : { ...n, readAt }))
+      );
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-white">
+              {unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+            Aucune notification
+          </p>
+        ) : (
+          notifications.map((notification) => {
+            const content = (
+              <div className="flex flex-col gap-0.5">
+                <span className={notification.readAt ? "text-sm" : "text-sm font-semibold"}>
+                  {notification.title}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {notification.message}
+                </span>
+              </div>
+            );
+
+            return (
+              <DropdownMenuItem key={notification.id} asChild={!!notification.link}>
+                {notification.link ? (
+                  <Link href={notification.link}>{content}</Link>
+                ) : (
+                  content
+                )}
+              </DropdownMenuItem>
+            );
+          })
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
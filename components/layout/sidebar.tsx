@@ -13,10 +13,15 @@ import {
   Settings,
   UserCog,
   ClipboardList,
+  Library,
+  FolderKanban,
+  KeyRound,
   FileText,
   Award,
   User,
   Activity,
+  School,
+  ClipboardCheck,
 } from "lucide-react";
 
 interface MenuItem {
@@ -35,6 +40,7 @@ const menuItemsByRole: Record<string, MenuItem[]> = {
     { title: "Utilisateurs", href: "/admin/utilisateurs", icon: Users },
     { title: "Cours", href: "/admin/cours", icon: BookOpen },
     { title: "Domaines", href: "/admin/domaines", icon: Activity },
+    { title: "Établissements", href: "/admin/etablissements", icon: School },
     { title: "Analytique", href: "/admin/analytics", icon: BarChart3 },
     { title: "Conformité", href: "/admin/compliance", icon: Shield },
     { title: "Paramètres", href: "/admin/settings", icon: Settings },
@@ -43,15 +49,21 @@ const menuItemsByRole: Record<string, MenuItem[]> = {
     { title: "Dashboard", href: "/sous-admin", icon: LayoutDashboard },
     { title: "Enrollments", href: "/sous-admin/enrollments", icon: UserCog },
     { title: "Students", href: "/sous-admin/students", icon: Users },
+    { title: "Attendance", href: "/sous-admin/attendance", icon: ClipboardCheck },
     { title: "Analytics", href: "/sous-admin/analytics", icon: BarChart3 },
     { title: "Notes", href: "/sous-admin/notes", icon: FileText },
+    { title: "Security", href: "/sous-admin/securite", icon: KeyRound },
   ],
   TRAINER: [
     { title: "Dashboard", href: "/formateur", icon: LayoutDashboard },
     { title: "My Courses", href: "/formateur/courses", icon: BookOpen },
     { title: "Students", href: "/formateur/students", icon: Users },
     { title: "Quizzes", href: "/formateur/quizzes", icon: ClipboardList },
+    { title: "Question Banks", href: "/formateur/banques", icon: Library },
+    { title: "Projects", href: "/formateur/projets", icon: FolderKanban },
+    { title: "Attendance", href: "/formateur/presences", icon: ClipboardCheck },
     { title: "Feedback", href: "/formateur/feedback", icon: FileText },
+    { title: "Security", href: "/formateur/securite", icon: KeyRound },
   ],
   STUDENT: [
     { title: "Tableau de bord", href: "/etudiant", icon: LayoutDashboard },
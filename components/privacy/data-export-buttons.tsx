@@ -0,0 +1,29 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Download } from "lucide-react"
+
+interface DataExportButtonsProps {
+  // Export endpoint, without the format parameter
+  href: string
+}
+
+// Downloads go through the browser so the attachment keeps its file name
+export function DataExportButtons({ href }: DataExportButtonsProps) {
+  const download = (format: "zip" | "json") => {
+    window.location.href = `${href}?format=${format}`
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button variant="outline" onClick={() => download("zip")}>
+        <Download className="h-4 w-4 mr-2" />
+        Archive ZIP
+      </Button>
+      <Button variant="outline" onClick={() => download("json")}>
+        <Download className="h-4 w-4 mr-2" />
+        Fichier JSON
+      </Button>
+    </div>
+  )
+}
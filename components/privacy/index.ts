@@ -0,0 +1 @@
+export { DataExportButtons } from "./data-export-buttons"
@@ -4,28 +4,28 @@ import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
 import { Clock, Trophy, BookOpen, Target, TrendingUp } from "lucide-react"
 
 interface ProgressData {
-  courseId: string
-  studentId: string
+  courseId: number
+  studentId: number
   overallProgress: number
   chaptersCompleted: number
   totalChapters: number
   quizzesPassed: number
   totalQuizzes: number
   averageQuizScore: number
-  timeSpent: number
-  lastActivity: string
+  lastActivity: string | null
   chapterProgress: ChapterProgress[]
 }
 
 interface ChapterProgress {
-  chapterId: string
+  chapterId: number
   title: string
   completed: boolean
+  completedAt: string | null
   score: number | null
-  timeSpent: number
 }
 
 interface ProgressTrackerProps {
@@ -59,35 +59,32 @@ export function ProgressTracker({ courseId, studentId, showDetailed = true }: Pr
     fetchProgress()
   }, [courseId, studentId])
 
-  const updateProgress = async (chapterId: string, action: string, score?: number, timeSpent?: number) => {
+  const updateProgress = async (chapterId: number, action: "complete" | "uncomplete") => {
     try {
       const response = await fetch("/api/progress", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ courseId, chapterId, action, score, timeSpent }),
+        body: JSON.stringify({ courseId, chapterId, action }),
       })
 
       if (response.ok) {
-        // Refresh progress data
-        const params = new URLSearchParams({ courseId })
-        if (studentId) params.append("studentId", studentId)
-
-        const refreshResponse = await fetch(`/api/progress?${params}`)
-        if (refreshResponse.ok) {
-          const data = await refreshResponse.json()
-          setProgressData(data)
-        }
+        // The API returns the recomputed progress summary
+        const data = await response.json()
+        setProgressData(data.progress)
       }
     } catch (error) {
       console.error("Error updating progress:", error)
     }
   }
 
-  const formatTime = (minutes: number) => {
-    const hours = Math.floor(minutes / 60)
-    const mins = minutes % 60
-    return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`
-  }
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString("fr-FR", {
+      day: "numeric",
+      month: "long",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
 
   const getScoreColor = (score: number) => {
     if (score >= 80) return "text-green-500"
@@ -136,7 +133,7 @@ export function ProgressTracker({ courseId, studentId, showDetailed = true }: Pr
             <Progress value={progressData.overallProgress} className="h-2" />
           </div>
 
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
             <div className="text-center">
               <div className="flex items-center justify-center space-x-1 mb-1">
                 <BookOpen className="h-4 w-4 text-blue-500" />
@@ -163,14 +160,6 @@ export function ProgressTracker({ courseId, studentId, showDetailed = true }: Pr
               </div>
               <p className="text-xs text-muted-foreground">Score moyen</p>
             </div>
-
-            <div className="text-center">
-              <div className="flex items-center justify-center space-x-1 mb-1">
-                <Clock className="h-4 w-4 text-purple-500" />
-                <span className="text-2xl font-bold text-foreground">{formatTime(progressData.timeSpent)}</span>
-              </div>
-              <p className="text-xs text-muted-foreground">Temps passé</p>
-            </div>
           </div>
         </CardContent>
       </Card>
@@ -203,21 +192,32 @@ export function ProgressTracker({ courseId, studentId, showDetailed = true }: Pr
                         <Badge variant={chapter.completed ? "default" : "secondary"}>
                           {chapter.completed ? "Terminé" : "En cours"}
                         </Badge>
-                        {chapter.timeSpent > 0 && (
+                        {chapter.completedAt && (
                           <span className="text-xs text-muted-foreground flex items-center">
                             <Clock className="h-3 w-3 mr-1" />
-                            {formatTime(chapter.timeSpent)}
+                            {new Date(chapter.completedAt).toLocaleDateString("fr-FR")}
                           </span>
                         )}
                       </div>
                     </div>
                   </div>
 
-                  <div className="text-right">
-                    {chapter.score !== null ? (
-                      <div className={`text-lg font-bold ${getScoreColor(chapter.score)}`}>{chapter.score}%</div>
-                    ) : (
-                      <div className="text-sm text-muted-foreground">Pas encore évalué</div>
+                  <div className="flex items-center space-x-4">
+                    <div className="text-right">
+                      {chapter.score !== null ? (
+                        <div className={`text-lg font-bold ${getScoreColor(chapter.score)}`}>{chapter.score}%</div>
+                      ) : (
+                        <div className="text-sm text-muted-foreground">Pas encore évalué</div>
+                      )}
+                    </div>
+                    {!studentId && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateProgress(chapter.chapterId, chapter.completed ? "uncomplete" : "complete")}
+                      >
+                        {chapter.completed ? "Marquer non terminé" : "Marquer terminé"}
+                      </Button>
                     )}
                   </div>
                 </div>
@@ -233,13 +233,7 @@ export function ProgressTracker({ courseId, studentId, showDetailed = true }: Pr
           <div className="text-center">
             <p className="text-sm text-muted-foreground">
               Dernière activité :{" "}
-              {new Date(progressData.lastActivity).toLocaleDateString("fr-FR", {
-                day: "numeric",
-                month: "long",
-                year: "numeric",
-                hour: "2-digit",
-                minute: "2-digit",
-              })}
+              {progressData.lastActivity ? formatDate(progressData.lastActivity) : "aucune activité enregistrée"}
             </p>
           </div>
         </CardContent>
@@ -0,0 +1,154 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { DeleteConfirmDialog } from "@/components/ui/delete-confirm-dialog"
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react"
+import type { GroupFormData, School, SchoolGroup } from "./types"
+
+interface GroupManagerProps {
+  school: School
+  isSaving: boolean
+  onCreate: (schoolId: number, data: GroupFormData) => Promise<void>
+  onUpdate: (groupId: number, data: GroupFormData) => Promise<void>
+  onDelete: (groupId: number) => Promise<void>
+}
+
+const EMPTY_GROUP: GroupFormData = { name: "", academicYear: "" }
+
+// Classes or cohorts of a school, with add, rename and delete
+export function GroupManager({ school, isSaving, onCreate, onUpdate, onDelete }: GroupManagerProps) {
+  // null: dialog closed; "new": creating; otherwise the group being edited
+  const [editing, setEditing] = useState<SchoolGroup | "new" | null>(null)
+  const [formData, setFormData] = useState<GroupFormData>(EMPTY_GROUP)
+  const [deleting, setDeleting] = useState<SchoolGroup | null>(null)
+
+  const openForm = (group: SchoolGroup | "new") => {
+    setFormData(group === "new" ? EMPTY_GROUP : { name: group.name, academicYear: group.academicYear ?? "" })
+    setEditing(group)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing) return
+
+    try {
+      if (editing === "new") {
+        await onCreate(school.id, formData)
+      } else {
+        await onUpdate(editing.id, formData)
+      }
+      setEditing(null)
+    } catch {
+      // Error already surfaced by the hook
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Groupes</p>
+        <Button variant="outline" size="sm" onClick={() => openForm("new")} disabled={isSaving}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajouter un groupe
+        </Button>
+      </div>
+
+      {school.groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Aucun groupe</p>
+      ) : (
+        <div className="divide-y divide-border rounded-md border border-border">
+          {school.groups.map((group) => (
+            <div key={group.id} className="flex items-center justify-between gap-2 p-2 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{group.name}</span>
+                {group.academicYear && <span className="text-muted-foreground">{group.academicYear}</span>}
+                <Badge variant="secondary">
+                  {group.studentCount} étudiant{group.studentCount > 1 ? "s" : ""}
+                </Badge>
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => openForm(group)} disabled={isSaving}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => setDeleting(group)}
+                  disabled={isSaving}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Nouveau groupe" : "Modifier le groupe"}</DialogTitle>
+            <DialogDescription>Classe ou promotion de {school.name}</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="groupName">
+                Nom <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="groupName"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="ex: 2ème année - Groupe A"
+                maxLength={100}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="groupYear">Année scolaire</Label>
+              <Input
+                id="groupYear"
+                value={formData.academicYear}
+                onChange={(e) => setFormData({ ...formData, academicYear: e.target.value })}
+                placeholder="ex: 2025-2026"
+                disabled={isSaving}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={isSaving || !formData.name.trim()}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editing === "new" ? "Créer le groupe" : "Mettre à jour"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        onConfirm={async () => {
+          if (deleting) {
+            await onDelete(deleting.id).catch(() => undefined)
+          }
+          setDeleting(null)
+        }}
+        description={
+          deleting
+            ? `Le groupe ${deleting.name} sera supprimé ; ses étudiants restent inscrits dans l'établissement, sans groupe.`
+            : undefined
+        }
+      />
+    </div>
+  )
+}
@@ -0,0 +1,3 @@
+export { GroupManager } from "./group-manager"
+export { useSchools } from "./use-schools"
+export type { GroupFormData, School, SchoolFormData, SchoolGroup, SchoolManager } from "./types"
@@ -0,0 +1,35 @@
+export interface SchoolGroup {
+  id: number
+  schoolId: number
+  name: string
+  academicYear: string | null
+  studentCount: number
+}
+
+export interface SchoolManager {
+  id: number
+  name: string
+  email: string
+}
+
+export interface School {
+  id: number
+  name: string
+  city: string | null
+  address: string | null
+  createdAt: string
+  studentCount: number
+  groups: SchoolGroup[]
+  managers: SchoolManager[]
+}
+
+export interface SchoolFormData {
+  name: string
+  city: string
+  address: string
+}
+
+export interface GroupFormData {
+  name: string
+  academicYear: string
+}
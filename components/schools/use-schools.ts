@@ -0,0 +1,83 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import type { GroupFormData, School, SchoolFormData } from "./types"
+
+// Send a change to the API and surface the outcome as a toast
+async function send(url: string, method: string, body: unknown, fallbackError: string) {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError)
+  }
+  return data
+}
+
+// Schools visible to the current user: all of them for admins, their own for sub-admins
+export function useSchools() {
+  const [schools, setSchools] = useState<School[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fetchSchools = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch("/api/schools")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors du chargement des établissements")
+      }
+
+      setSchools(data.schools ?? [])
+    } catch (error) {
+      console.error("Error fetching schools:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors du chargement des établissements")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSchools()
+  }, [fetchSchools])
+
+  const mutate = async (url: string, method: string, body: unknown, fallbackError: string) => {
+    setIsSaving(true)
+    try {
+      const data = await send(url, method, body, fallbackError)
+      toast.success(data.message)
+      await fetchSchools()
+    } catch (error) {
+      console.error("Error saving school data:", error)
+      toast.error(error instanceof Error ? error.message : fallbackError)
+      throw error
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return {
+    schools,
+    isLoading,
+    isSaving,
+    fetchSchools,
+    createSchool: (data: SchoolFormData) =>
+      mutate("/api/schools", "POST", data, "Erreur lors de la création de l'établissement"),
+    updateSchool: (id: number, data: SchoolFormData) =>
+      mutate(`/api/schools/${id}`, "PUT", data, "Erreur lors de la mise à jour de l'établissement"),
+    deleteSchool: (id: number) =>
+      mutate(`/api/schools/${id}`, "DELETE", undefined, "Erreur lors de la suppression de l'établissement"),
+    setManagers: (id: number, userIds: number[]) =>
+      mutate(`/api/schools/${id}/managers`, "PUT", { userIds }, "Erreur lors de la mise à jour des responsables"),
+    createGroup: (schoolId: number, data: GroupFormData) =>
+      mutate(`/api/schools/${schoolId}/groups`, "POST", data, "Erreur lors de la création du groupe"),
+    updateGroup: (id: number, data: GroupFormData) =>
+      mutate(`/api/groups/${id}`, "PUT", data, "Erreur lors de la mise à jour du groupe"),
+    deleteGroup: (id: number) => mutate(`/api/groups/${id}`, "DELETE", undefined, "Erreur lors de la suppression du groupe"),
+  }
+}
@@ -22,6 +22,7 @@ import {
   FileText,
   Trophy,
 } from "lucide-react";
+import { toast } from "sonner";
 import type { User } from "@/lib/auth/auth";
 
 interface CertificatesViewProps {
@@ -42,44 +43,64 @@ interface CertificatesViewProps {
     totalChapters: number;
     completedChapters: number;
   }>;
+  certificates: Array<{
+    id: number;
+    enrollmentId: number;
+    hash: string;
+    finalGrade: number | null;
+    issuedAt: Date;
+    revokedAt: Date | null;
+    courseId: number;
+    courseTitle: string;
+    domainName: string | null;
+    teacherName: string | null;
+  }>;
 }
 
 interface Certificate {
   id: string;
+  certificateId?: number;
+  hash?: string;
   courseTitle: string;
   courseDomain: string;
   completedAt: string;
   instructor: string;
-  grade: number;
+  grade: number | null;
   certificateNumber: string;
-  status: "issued" | "pending";
+  status: "issued" | "revoked" | "pending";
   progress?: number;
 }
 
 export function CertificatesView({
   user,
   enrolledCourses: rawEnrolledCourses,
+  certificates: rawCertificates,
 }: CertificatesViewProps) {
   const [searchQuery, setSearchQuery] = useState("");
 
-  // Mock certificates data (keep for testing)
-  const [certificates] = useState<Certificate[]>([
-    {
-      id: "CERT-2025-001",
-      courseTitle: "Marketing Digital Avancé",
-      courseDomain: "Marketing",
-      completedAt: "2025-01-10",
-      instructor: "Jean Martin",
-      grade: 92,
-      certificateNumber: "EDU-2025-MKT-001",
-      status: "issued",
-    },
-  ]);
+  // Certificates issued by the server on course completion
+  const certificates: Certificate[] = useMemo(() => {
+    return rawCertificates.map((certificate) => ({
+      id: `CERT-${certificate.id}`,
+      certificateId: certificate.id,
+      hash: certificate.hash,
+      courseTitle: certificate.courseTitle,
+      courseDomain: certificate.domainName || "Non classé",
+      completedAt: new Date(certificate.issuedAt).toISOString(),
+      instructor: certificate.teacherName || "Non assigné",
+      grade: certificate.finalGrade,
+      certificateNumber: certificate.hash.slice(0, 16).toUpperCase(),
+      status: certificate.revokedAt ? ("revoked" as const) : ("issued" as const),
+    }));
+  }, [rawCertificates]);
 
-  // Transform incomplete enrolled courses to pending certificates
+  // Transform enrolled courses without a certificate to pending certificates
   const pendingCertificates: Certificate[] = useMemo(() => {
+    const certifiedEnrollments = new Set(
+      rawCertificates.map((certificate) => certificate.enrollmentId)
+    );
     return rawEnrolledCourses
-      .filter((enrollment) => enrollment.completedAt === null) // Only incomplete courses
+      .filter((enrollment) => !certifiedEnrollments.has(enrollment.enrollmentId))
       .map((enrollment) => {
         const progress =
           enrollment.totalChapters > 0
@@ -154,16 +175,26 @@ export function CertificatesView({
     );
   };
 
-  const handleDownload = (certId: string) => {
-    // Implement download logic
-    console.log("Downloading certificate:", certId);
+  const getVerificationUrl = (cert: Certificate) =>
+    `${window.location.origin}/verify?hash=${cert.hash}`;
+
+  const handleDownload = (cert: Certificate) => {
+    window.location.href = `/api/certificates/${cert.certificateId}/pdf`;
   };
 
-  const handleShare = (certId: string) => {
-    // Implement share logic
-    console.log("Sharing certificate:", certId);
+  const handleShare = async (cert: Certificate) => {
+    try {
+      await navigator.clipboard.writeText(getVerificationUrl(cert));
+      toast.success("Lien de vérification copié");
+    } catch {
+      toast.error("Impossible de copier le lien");
+    }
   };
 
+  const gradedCertificates = certificates.filter(
+    (cert): cert is Certificate & { grade: number } => cert.grade !== null
+  );
+
   return (
     <div className="space-y-6">
       {/* Page Header */}
@@ -215,10 +246,10 @@ export function CertificatesView({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-primary">
-              {certificates.length > 0
+              {gradedCertificates.length > 0
                 ? Math.round(
-                    certificates.reduce((acc, cert) => acc + cert.grade, 0) /
-                      certificates.length
+                    gradedCertificates.reduce((acc, cert) => acc + cert.grade, 0) /
+                      gradedCertificates.length
                   )
                 : 0}
               %
@@ -315,13 +346,17 @@ export function CertificatesView({
                           <Badge className={getDomainColor(cert.courseDomain)}>
                             {cert.courseDomain}
                           </Badge>
-                          <Badge
-                            variant="outline"
-                            className="text-emerald-600 border-emerald-600"
-                          >
-                            <CheckCircle className="h-3 w-3 mr-1" />
-                            Certifié
-                          </Badge>
+                          {cert.status === "revoked" ? (
+                            <Badge variant="destructive">Révoqué</Badge>
+                          ) : (
+                            <Badge
+                              variant="outline"
+                              className="text-emerald-600 border-emerald-600"
+                            >
+                              <CheckCircle className="h-3 w-3 mr-1" />
+                              Certifié
+                            </Badge>
+                          )}
                         </div>
                         <h3 className="text-2xl font-bold mb-1">
                           {cert.courseTitle}
@@ -356,7 +391,7 @@ export function CertificatesView({
                             Score Final
                           </p>
                           <p className="text-2xl font-bold text-emerald-600">
-                            {cert.grade}%
+                            {cert.grade !== null ? `${cert.grade}%` : "—"}
                           </p>
                         </div>
 
@@ -372,7 +407,8 @@ export function CertificatesView({
 
                       <div className="flex flex-wrap gap-2 pt-2">
                         <Button
-                          onClick={() => handleDownload(cert.id)}
+                          onClick={() => handleDownload(cert)}
+                          disabled={cert.status === "revoked"}
                           className="flex-1 md:flex-none"
                         >
                           <Download className="h-4 w-4 mr-2" />
@@ -380,7 +416,7 @@ export function CertificatesView({
                         </Button>
                         <Button
                           variant="outline"
-                          onClick={() => handleShare(cert.id)}
+                          onClick={() => handleShare(cert)}
                           className="flex-1 md:flex-none"
                         >
                           <Share2 className="h-4 w-4 mr-2" />
@@ -389,9 +425,16 @@ export function CertificatesView({
                         <Button
                           variant="outline"
                           className="flex-1 md:flex-none"
+                          asChild
                         >
-                          <ExternalLink className="h-4 w-4 mr-2" />
-                          Vérifier
+                          <a
+                            href={`/verify?hash=${cert.hash}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                          >
+                            <ExternalLink className="h-4 w-4 mr-2" />
+                            Vérifier
+                          </a>
                         </Button>
                       </div>
                     </div>
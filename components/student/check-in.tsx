@@ -0,0 +1,82 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { CheckCircle2, Loader2, XCircle } from "lucide-react"
+import { formatSessionTime } from "@/components/sub-admin/attendance"
+
+interface CheckInProps {
+  code: string | null
+}
+
+type CheckInResult =
+  | { ok: true; message: string; session: { startsAt: string; groupName: string; courseTitle: string | null } }
+  | { ok: false; message: string }
+
+// Landing page of the class QR code: the scan itself records the presence
+export function CheckIn({ code }: CheckInProps) {
+  const [result, setResult] = useState<CheckInResult | null>(null)
+  const submitted = useRef(false)
+
+  useEffect(() => {
+    // Codes expire within seconds, so the check-in is sent as soon as the page opens
+    if (!code || submitted.current) return
+    submitted.current = true
+
+    const checkIn = async () => {
+      try {
+        const response = await fetch("/api/attendance/check-in", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token: code }),
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Erreur lors de l'émargement")
+        }
+
+        setResult({ ok: true, message: data.message, session: data.session })
+      } catch (error) {
+        console.error("Error checking in:", error)
+        setResult({ ok: false, message: error instanceof Error ? error.message : "Erreur lors de l'émargement" })
+      }
+    }
+    checkIn()
+  }, [code])
+
+  return (
+    <Card className="mx-auto max-w-md border-border bg-card">
+      <CardHeader className="text-center">
+        <CardTitle>Émargement</CardTitle>
+        <CardDescription>Présence en séance par QR code</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col items-center gap-4 text-center">
+        {!code ? (
+          <p className="text-muted-foreground">Scannez le QR code affiché en classe pour enregistrer votre présence.</p>
+        ) : !result ? (
+          <Loader2 className="h-10 w-10 animate-spin text-muted-foreground" />
+        ) : result.ok ? (
+          <>
+            <CheckCircle2 className="h-12 w-12 text-primary" />
+            <p className="font-medium">{result.message}</p>
+            <p className="text-sm text-muted-foreground">
+              {[result.session.groupName, result.session.courseTitle, formatSessionTime({ ...result.session, endsAt: null })]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+          </>
+        ) : (
+          <>
+            <XCircle className="h-12 w-12 text-destructive" />
+            <p className="font-medium">{result.message}</p>
+          </>
+        )}
+        <Button variant="outline" asChild>
+          <Link href="/etudiant">Tableau de bord</Link>
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,6 +1,7 @@
 "use client"
 
 import { useState } from "react"
+import { useRouter } from "next/navigation"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -8,15 +9,12 @@ import { Progress } from "@/components/ui/progress"
 import { Separator } from "@/components/ui/separator"
 import { ChapterContent } from "./chapter-content"
 import { QuizComponent } from "./quiz-component"
+import { FinalProjectPanel } from "./final-project-panel"
 import { ArrowLeft, CheckCircle, Lock, FileText, Video, ImageIcon, LinkIcon } from "lucide-react"
 import Link from "next/link"
+import { toast } from "sonner"
 import type { User } from "@/lib/auth/auth"
 
-interface CourseViewerProps {
-  courseId: number
-  user: User
-}
-
 interface Chapter {
   id: number
   title: string
@@ -35,85 +33,26 @@ interface Course {
   description: string
   domain: string
   teacher: string
-  progress: number
-  totalChapters: number
-  completedChapters: number
 }
 
-export function CourseViewer({ courseId, user }: CourseViewerProps) {
-  // Mock data - replace with real data from database
-  const [course] = useState<Course>({
-    id: courseId,
-    title: "Introduction à React",
-    description: "Apprenez les bases de React et créez vos premières applications",
-    domain: "Informatique",
-    teacher: "Jean Martin",
-    progress: 65,
-    totalChapters: 8,
-    completedChapters: 5,
-  })
-
-  const [chapters] = useState<Chapter[]>([
-    {
-      id: 1,
-      title: "Introduction à React",
-      description: "Découvrez React et ses concepts fondamentaux",
-      orderIndex: 1,
-      contentType: "text",
-      contentData: { content: "Contenu du chapitre..." },
-      isCompleted: true,
-      isLocked: false,
-      hasQuiz: true,
-    },
-    {
-      id: 2,
-      title: "JSX et Composants",
-      description: "Apprenez à créer des composants avec JSX",
-      orderIndex: 2,
-      contentType: "video",
-      contentData: { videoUrl: "https://example.com/video.mp4" },
-      isCompleted: true,
-      isLocked: false,
-      hasQuiz: true,
-    },
-    {
-      id: 3,
-      title: "Props et State",
-      description: "Gérez les données dans vos composants",
-      orderIndex: 3,
-      contentType: "text",
-      contentData: { content: "Contenu du chapitre..." },
-      isCompleted: true,
-      isLocked: false,
-      hasQuiz: true,
-    },
-    {
-      id: 4,
-      title: "Hooks React",
-      description: "Utilisez les hooks pour gérer l'état",
-      orderIndex: 4,
-      contentType: "video",
-      contentData: { videoUrl: "https://example.com/video.mp4" },
-      isCompleted: false,
-      isLocked: false,
-      hasQuiz: true,
-    },
-    {
-      id: 5,
-      title: "Gestion des événements",
-      description: "Réagissez aux interactions utilisateur",
-      orderIndex: 5,
-      contentType: "text",
-      contentData: { content: "Contenu du chapitre..." },
-      isCompleted: false,
-      isLocked: true,
-      hasQuiz: true,
-    },
-  ])
+interface CourseViewerProps {
+  course: Course
+  // In course order, with the completion and lock state computed by the server
+  chapters: Chapter[]
+  user: User
+}
 
-  const [selectedChapter, setSelectedChapter] = useState<Chapter>(chapters[0])
+export function CourseViewer({ course, chapters, user }: CourseViewerProps) {
+  const router = useRouter()
+  const [selectedChapterId, setSelectedChapterId] = useState<number | null>(
+    (chapters.find((chapter) => !chapter.isCompleted && !chapter.isLocked) ?? chapters[0])?.id ?? null
+  )
   const [showQuiz, setShowQuiz] = useState(false)
 
+  const selectedChapter = chapters.find((chapter) => chapter.id === selectedChapterId) ?? null
+  const completedChapters = chapters.filter((chapter) => chapter.isCompleted).length
+  const progress = chapters.length > 0 ? Math.round((completedChapters / chapters.length) * 100) : 0
+
   const getContentIcon = (contentType: string) => {
     switch (contentType) {
       case "text":
@@ -129,14 +68,32 @@ export function CourseViewer({ courseId, user }: CourseViewerProps) {
     }
   }
 
-  const handleChapterComplete = (chapterId: number) => {
-    // Update chapter completion status
-    console.log("Chapter completed:", chapterId)
+  const handleChapterComplete = async (chapterId: number) => {
+    try {
+      const response = await fetch("/api/progress", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ courseId: course.id, chapterId, action: "complete" }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Erreur lors de l'enregistrement de la progression")
+      }
+
+      if (result.certificate) {
+        toast.success("Félicitations ! Votre certificat a été délivré")
+      }
+      // Reload the lock state: the next chapter may now be open
+      router.refresh()
+    } catch (error) {
+      console.error("Error completing chapter:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de l'enregistrement de la progression")
+    }
   }
 
-  const handleQuizComplete = (chapterId: number, score: number) => {
-    console.log("Quiz completed:", chapterId, score)
+  const handleQuizComplete = () => {
     setShowQuiz(false)
+    router.refresh()
   }
 
   return (
@@ -168,19 +125,23 @@ export function CourseViewer({ courseId, user }: CourseViewerProps) {
               <CardHeader>
                 <CardTitle className="text-lg">Chapitres</CardTitle>
                 <CardDescription>
-                  {course.completedChapters}/{course.totalChapters} complétés
+                  {completedChapters}/{chapters.length} complétés
                 </CardDescription>
-                <Progress value={course.progress} className="mt-2" />
+                <Progress value={progress} className="mt-2" />
               </CardHeader>
               <CardContent className="p-0">
                 <div className="space-y-1">
                   {chapters.map((chapter, index) => (
                     <button
                       key={chapter.id}
-                      onClick={() => !chapter.isLocked && setSelectedChapter(chapter)}
+                      onClick={() => {
+                        if (chapter.isLocked) return
+                        setSelectedChapterId(chapter.id)
+                        setShowQuiz(false)
+                      }}
                       disabled={chapter.isLocked}
                       className={`w-full p-3 text-left hover:bg-accent/50 transition-colors border-l-2 ${
-                        selectedChapter.id === chapter.id ? "border-primary bg-accent/30" : "border-transparent"
+                        selectedChapterId === chapter.id ? "border-primary bg-accent/30" : "border-transparent"
                       } ${chapter.isLocked ? "opacity-50 cursor-not-allowed" : ""}`}
                     >
                       <div className="flex items-center space-x-3">
@@ -211,38 +172,48 @@ export function CourseViewer({ courseId, user }: CourseViewerProps) {
           </div>
 
           {/* Main Content */}
-          <div className="lg:col-span-3">
-            <Card className="border-border bg-card">
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <div>
-                    <CardTitle className="flex items-center space-x-2">
-                      {getContentIcon(selectedChapter.contentType)}
-                      <span>{selectedChapter.title}</span>
-                      {selectedChapter.isCompleted && <CheckCircle className="h-5 w-5 text-green-500" />}
-                    </CardTitle>
-                    <CardDescription>{selectedChapter.description}</CardDescription>
+          <div className="lg:col-span-3 space-y-6">
+            {selectedChapter ? (
+              <Card className="border-border bg-card">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="flex items-center space-x-2">
+                        {getContentIcon(selectedChapter.contentType)}
+                        <span>{selectedChapter.title}</span>
+                        {selectedChapter.isCompleted && <CheckCircle className="h-5 w-5 text-green-500" />}
+                      </CardTitle>
+                      <CardDescription>{selectedChapter.description}</CardDescription>
+                    </div>
+                    {selectedChapter.hasQuiz && (
+                      <Button
+                        variant="outline"
+                        onClick={() => setShowQuiz(!showQuiz)}
+                        disabled={!selectedChapter.isCompleted}
+                      >
+                        {showQuiz ? "Voir le contenu" : "Quiz"}
+                      </Button>
+                    )}
                   </div>
-                  {selectedChapter.hasQuiz && (
-                    <Button
-                      variant="outline"
-                      onClick={() => setShowQuiz(!showQuiz)}
-                      disabled={!selectedChapter.isCompleted}
-                    >
-                      {showQuiz ? "Voir le contenu" : "Quiz"}
-                    </Button>
+                </CardHeader>
+                <Separator />
+                <CardContent className="p-6">
+                  {showQuiz ? (
+                    <QuizComponent chapterId={selectedChapter.id} onComplete={handleQuizComplete} />
+                  ) : (
+                    <ChapterContent key={selectedChapter.id} chapter={selectedChapter} onComplete={handleChapterComplete} />
                   )}
-                </div>
-              </CardHeader>
-              <Separator />
-              <CardContent className="p-6">
-                {showQuiz ? (
-                  <QuizComponent chapterId={selectedChapter.id} onComplete={handleQuizComplete} />
-                ) : (
-                  <ChapterContent chapter={selectedChapter} onComplete={handleChapterComplete} />
-                )}
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card className="border-border bg-card">
+                <CardContent className="py-8 text-center text-muted-foreground">
+                  Ce cours ne contient pas encore de chapitre
+                </CardContent>
+              </Card>
+            )}
+
+            <FinalProjectPanel courseId={course.id} />
           </div>
         </div>
       </div>
@@ -0,0 +1,310 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { FileText, Link as LinkIcon, Loader2, Paperclip, Send, X } from "lucide-react"
+import { toast } from "sonner"
+import { formatFileSize, projectStatusLabels } from "@/lib/projects/format"
+import type { RubricEvaluation } from "@/lib/projects/rubric"
+import type { ProjectFile, ProjectSubmissionStatus } from "@/lib/schemas/project"
+import type { RubricCriterion } from "@/lib/schemas/rubric"
+import { RubricMatrix } from "@/components/course/rubric-matrix"
+
+interface FinalProject {
+  id: number
+  title: string
+  description: string
+  requirements: string[] | null
+  required: boolean
+}
+
+interface ProjectSubmission {
+  id: number
+  submissionUrl: string | null
+  description: string | null
+  files: ProjectFile[]
+  status: ProjectSubmissionStatus
+  grade: number | null
+  feedback: string | null
+  rubricEvaluation: RubricEvaluation | null
+  submittedAt: string | null
+  reviewedAt: string | null
+}
+
+const statusBadgeClasses: Record<ProjectSubmissionStatus, string> = {
+  submitted: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+  needs_revision: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300",
+  approved: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+  rejected: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+}
+
+interface FinalProjectPanelProps {
+  courseId: number
+}
+
+export function FinalProjectPanel({ courseId }: FinalProjectPanelProps) {
+  const [project, setProject] = useState<FinalProject | null>(null)
+  const [rubric, setRubric] = useState<{ title: string; criteria: RubricCriterion[] } | null>(null)
+  const [submissions, setSubmissions] = useState<ProjectSubmission[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [form, setForm] = useState({ submissionUrl: "", description: "" })
+  const [files, setFiles] = useState<ProjectFile[]>([])
+  const [isUploading, setIsUploading] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    const loadProject = async () => {
+      try {
+        const response = await fetch(`/api/courses/${courseId}/final-project`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Erreur lors du chargement du projet final")
+        }
+        setProject(data.project)
+        setRubric(data.rubric)
+        setSubmissions(data.submissions ?? [])
+      } catch (error) {
+        console.error("Error loading final project:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadProject()
+  }, [courseId])
+
+  const uploadFile = async (file: File) => {
+    setIsUploading(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      const response = await fetch("/api/upload/project", { method: "POST", body: formData })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors du téléchargement")
+      }
+      setFiles((current) => [...current, data.file])
+    } catch (error) {
+      console.error("Error uploading project file:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors du téléchargement")
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const submitProject = async () => {
+    if (!project) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/final-projects/${project.id}/submissions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          submissionUrl: form.submissionUrl.trim() || null,
+          description: form.description,
+          files,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de l'envoi du projet")
+      }
+
+      setSubmissions((current) => [data.submission, ...current])
+      setForm({ submissionUrl: "", description: "" })
+      setFiles([])
+      toast.success(data.message || "Projet envoyé")
+    } catch (error) {
+      console.error("Error submitting final project:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de l'envoi du projet")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (isLoading || !project) {
+    return null
+  }
+
+  const [latest, ...previous] = submissions
+  const canSubmit = !latest || latest.status === "needs_revision"
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Projet final : {project.title}</CardTitle>
+            <CardDescription>
+              {project.required
+                ? "Sa validation est nécessaire pour obtenir le certificat"
+                : "Facultatif, il n'est pas requis pour le certificat"}
+            </CardDescription>
+          </div>
+          {latest && <Badge className={statusBadgeClasses[latest.status]}>{projectStatusLabels[latest.status]}</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm whitespace-pre-line">{project.description}</p>
+          {project.requirements && project.requirements.length > 0 && (
+            <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+              {project.requirements.map((requirement) => (
+                <li key={requirement}>{requirement}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {rubric && !latest?.rubricEvaluation && (
+          <div className="space-y-2">
+            <h4 className="font-medium">Grille d'évaluation : {rubric.title}</h4>
+            <RubricMatrix criteria={rubric.criteria} />
+          </div>
+        )}
+
+        {latest && <SubmissionSummary submission={latest} />}
+
+        {canSubmit && (
+          <div className="space-y-4 border-t border-border pt-4">
+            <h4 className="font-medium">{latest ? "Envoyer une version corrigée" : "Rendre le projet"}</h4>
+            <div className="space-y-2">
+              <Label htmlFor="submissionUrl">Lien (dépôt, démo...)</Label>
+              <Input
+                id="submissionUrl"
+                type="url"
+                value={form.submissionUrl}
+                onChange={(e) => setForm({ ...form, submissionUrl: e.target.value })}
+                placeholder="https://github.com/..."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="submissionFiles">Fichiers (20 Mo maximum chacun)</Label>
+              <Input
+                id="submissionFiles"
+                type="file"
+                disabled={isUploading || files.length >= 5}
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) uploadFile(file)
+                  e.target.value = ""
+                }}
+              />
+              {files.map((file) => (
+                <div key={file.url} className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-2">
+                    <Paperclip className="h-4 w-4" />
+                    {file.name} ({formatFileSize(file.size)})
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setFiles((current) => current.filter((item) => item.url !== file.url))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {isUploading && <p className="text-sm text-muted-foreground">Téléchargement...</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="submissionDescription">Description</Label>
+              <Textarea
+                id="submissionDescription"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={4}
+                placeholder="Présentez votre travail et, le cas échéant, les corrections apportées"
+              />
+            </div>
+            <Button
+              onClick={submitProject}
+              disabled={
+                isSubmitting ||
+                isUploading ||
+                form.description.trim().length < 10 ||
+                (!form.submissionUrl.trim() && files.length === 0)
+              }
+            >
+              {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Envoyer pour évaluation
+            </Button>
+          </div>
+        )}
+
+        {previous.length > 0 && (
+          <div className="space-y-3 border-t border-border pt-4">
+            <h4 className="font-medium">Rendus précédents</h4>
+            {previous.map((submission) => (
+              <SubmissionSummary key={submission.id} submission={submission} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function SubmissionSummary({ submission }: { submission: ProjectSubmission }) {
+  return (
+    <div className="p-4 border border-border rounded-lg space-y-2 text-sm">
+      <div className="flex items-center justify-between text-muted-foreground">
+        <span>
+          Rendu le {submission.submittedAt ? new Date(submission.submittedAt).toLocaleDateString("fr-FR") : "—"}
+        </span>
+        <span>{projectStatusLabels[submission.status]}</span>
+      </div>
+      {submission.submissionUrl && (
+        <a
+          href={submission.submissionUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-primary hover:underline"
+        >
+          <LinkIcon className="h-4 w-4" />
+          {submission.submissionUrl}
+        </a>
+      )}
+      {submission.files.map((file) => (
+        <a
+          key={file.url}
+          href={file.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-primary hover:underline"
+        >
+          <FileText className="h-4 w-4" />
+          {file.name}
+        </a>
+      ))}
+      {submission.grade !== null && <p className="font-medium">Note : {submission.grade}/100</p>}
+      {submission.rubricEvaluation && (
+        <div className="space-y-2">
+          <RubricMatrix
+            criteria={submission.rubricEvaluation.criteria}
+            selected={Object.fromEntries(
+              submission.rubricEvaluation.scores.map((score) => [score.criterionId, score.levelId])
+            )}
+          />
+          {submission.rubricEvaluation.scores
+            .filter((score) => score.comment)
+            .map((score) => (
+              <p key={score.criterionId} className="text-muted-foreground">
+                {submission.rubricEvaluation?.criteria.find((criterion) => criterion.id === score.criterionId)?.title} :{" "}
+                {score.comment}
+              </p>
+            ))}
+        </div>
+      )}
+      {submission.feedback && (
+        <p className="p-2 bg-muted/30 rounded whitespace-pre-line">{submission.feedback}</p>
+      )}
+    </div>
+  )
+}
@@ -34,6 +34,7 @@ import {
 } from "lucide-react";
 import Image from "next/image";
 import { toast } from "sonner";
+import { DataExportButtons } from "@/components/privacy";
 import type { User as UserType } from "@/lib/auth/auth";
 import type { User as DbUser } from "@/types/user";
 
@@ -593,6 +594,24 @@ export function ProfileView({ user, userData }: ProfileViewProps) {
               </div>
             </CardContent>
           </Card>
+
+          <Card className="border-border bg-card">
+            <CardHeader>
+              <CardTitle>Mes Données Personnelles</CardTitle>
+              <CardDescription>
+                Téléchargez une copie de vos données : profil, inscriptions,
+                progression, quiz, projets et certificats
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DataExportButtons href="/api/user/data-export" />
+              <p className="text-sm text-muted-foreground">
+                Pour faire effacer vos données, adressez votre demande à
+                l&apos;administration : votre identité sera anonymisée, vos
+                certificats restant vérifiables.
+              </p>
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
     </div>
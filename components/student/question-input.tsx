@@ -0,0 +1,209 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowDown, ArrowUp } from "lucide-react"
+import type { StudentQuizQuestion } from "@/lib/quizzes/sanitize"
+import type { QuizAnswer } from "@/lib/schemas/quiz"
+
+interface QuestionInputProps {
+  question: StudentQuizQuestion
+  answer: QuizAnswer | undefined
+  onChange: (answer: QuizAnswer) => void
+}
+
+// Answer a student starts from; ordering questions begin from the served order
+export function initialAnswer(question: StudentQuizQuestion): QuizAnswer | undefined {
+  return question.type === "ordering" ? question.items : undefined
+}
+
+export function isAnswered(question: StudentQuizQuestion, answer: QuizAnswer | undefined): boolean {
+  if (answer === undefined) return false
+
+  switch (question.type) {
+    case "multiple_choice":
+      return Array.isArray(answer) && answer.length > 0
+    case "matching":
+      return Array.isArray(answer) && question.lefts.every((_, index) => Boolean(answer[index]))
+    case "fill_blank":
+      return (
+        Array.isArray(answer) &&
+        Array.from({ length: question.blankCount }).every((_, index) => String(answer[index] ?? "").trim() !== "")
+      )
+    case "numeric":
+    case "open":
+      return typeof answer === "string" ? answer.trim() !== "" : true
+    default:
+      return true
+  }
+}
+
+export function toSubmittedAnswer(question: StudentQuizQuestion, answer: QuizAnswer | undefined) {
+  if (question.type === "numeric" && typeof answer === "string") {
+    const value = Number(answer.replace(",", "."))
+    return Number.isFinite(value) ? value : undefined
+  }
+  return answer
+}
+
+export function QuestionInput({ question, answer, onChange }: QuestionInputProps) {
+  const values = Array.isArray(answer) ? answer : []
+
+  const setValueAt = (index: number, value: string) => {
+    const next = [...values] as string[]
+    next[index] = value
+    onChange(next)
+  }
+
+  switch (question.type) {
+    case "single_choice":
+      return (
+        <RadioGroup value={answer?.toString()} onValueChange={(value) => onChange(Number.parseInt(value))}>
+          {question.options.map((option, index) => (
+            <div key={index} className="flex items-center space-x-2 p-3 rounded-lg hover:bg-muted/30 transition-colors">
+              <RadioGroupItem value={index.toString()} id={`option-${index}`} />
+              <Label htmlFor={`option-${index}`} className="flex-1 cursor-pointer">
+                {option}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      )
+
+    case "multiple_choice": {
+      const selected = values as number[]
+      return (
+        <div className="space-y-1">
+          <p className="text-sm text-muted-foreground mb-2">Plusieurs réponses possibles</p>
+          {question.options.map((option, index) => (
+            <div key={index} className="flex items-center space-x-2 p-3 rounded-lg hover:bg-muted/30 transition-colors">
+              <Checkbox
+                id={`option-${index}`}
+                checked={selected.includes(index)}
+                onCheckedChange={(checked) =>
+                  onChange(checked ? [...selected, index] : selected.filter((value) => value !== index))
+                }
+              />
+              <Label htmlFor={`option-${index}`} className="flex-1 cursor-pointer">
+                {option}
+              </Label>
+            </div>
+          ))}
+        </div>
+      )
+    }
+
+    case "true_false":
+      return (
+        <RadioGroup
+          value={answer === undefined ? undefined : String(answer)}
+          onValueChange={(value) => onChange(value === "true")}
+        >
+          {[
+            { value: "true", label: "Vrai" },
+            { value: "false", label: "Faux" },
+          ].map((choice) => (
+            <div key={choice.value} className="flex items-center space-x-2 p-3 rounded-lg hover:bg-muted/30 transition-colors">
+              <RadioGroupItem value={choice.value} id={`choice-${choice.value}`} />
+              <Label htmlFor={`choice-${choice.value}`} className="flex-1 cursor-pointer">
+                {choice.label}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      )
+
+    case "numeric":
+      return (
+        <Input
+          type="number"
+          step="any"
+          value={answer === undefined ? "" : String(answer)}
+          // Kept as text while typing so "1." or "-" are not lost, see toSubmittedAnswer
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Votre réponse"
+          className="max-w-xs"
+        />
+      )
+
+    case "matching":
+      return (
+        <div className="space-y-3">
+          {question.lefts.map((left, index) => (
+            <div key={index} className="flex items-center gap-3">
+              <span className="flex-1 text-sm font-medium">{left}</span>
+              <Select value={(values[index] as string | undefined) ?? ""} onValueChange={(value) => setValueAt(index, value)}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Choisir..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {question.rights.map((right) => (
+                    <SelectItem key={right} value={right}>
+                      {right}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )
+
+    case "ordering": {
+      const items = (values.length ? values : question.items) as string[]
+      const move = (from: number, to: number) => {
+        const next = [...items]
+        ;[next[from], next[to]] = [next[to], next[from]]
+        onChange(next)
+      }
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground mb-2">Remettez les éléments dans le bon ordre</p>
+          {items.map((item, index) => (
+            <div key={item} className="flex items-center gap-2 p-3 rounded-lg border border-border">
+              <span className="text-sm text-muted-foreground w-6">{index + 1}.</span>
+              <span className="flex-1">{item}</span>
+              <Button variant="ghost" size="sm" onClick={() => move(index, index - 1)} disabled={index === 0}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => move(index, index + 1)} disabled={index === items.length - 1}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )
+    }
+
+    case "fill_blank":
+      return (
+        <div className="space-y-2">
+          {Array.from({ length: question.blankCount }, (_, index) => (
+            <div key={index} className="flex items-center gap-3">
+              <Label className="w-20 text-muted-foreground">Trou {index + 1}</Label>
+              <Input
+                value={(values[index] as string | undefined) ?? ""}
+                onChange={(e) => setValueAt(index, e.target.value)}
+                placeholder="Votre réponse"
+              />
+            </div>
+          ))}
+        </div>
+      )
+
+    case "open":
+      return (
+        <Textarea
+          value={(answer as string | undefined) ?? ""}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Rédigez votre réponse..."
+          rows={6}
+        />
+      )
+  }
+}
@@ -1,19 +1,61 @@
 "use client"
 
-import { useState } from "react"
+import { useCallback, useEffect, useRef, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
-import { Label } from "@/components/ui/label"
 import { Progress } from "@/components/ui/progress"
-import { CheckCircle, XCircle } from "lucide-react"
+import { CheckCircle, Clock, Timer, XCircle } from "lucide-react"
+import { QuestionInput, initialAnswer, isAnswered, toSubmittedAnswer } from "@/components/student/question-input"
+import { formatAnswer } from "@/lib/quizzes/format"
+import type { StudentQuiz, StudentQuizQuestion } from "@/lib/quizzes/sanitize"
+import type { QuizAnswer } from "@/lib/schemas/quiz"
 
-interface QuizQuestion {
+// Quiz summary with the student's own attempt count and cooldown
+interface LoadedQuiz extends StudentQuiz {
+  attemptsUsed: number
+  canStart: boolean
+  retryAt: string | null
+}
+
+// Attempt started on the server, with the questions drawn for it
+interface StartedAttempt {
   id: number
-  question: string
-  options: string[]
-  correctAnswer: number
-  explanation?: string
+  questions: StudentQuizQuestion[]
+  // Local clock time at which the server deadline falls, if the quiz is timed
+  endsAt: number | null
+}
+
+interface QuestionResult {
+  questionId: string
+  answer: QuizAnswer | null
+  // null while an open answer waits for the trainer
+  correct: boolean | null
+  // Share of the point earned, below 1 for partially right answers
+  credit: number | null
+  solution: string | null
+  explanation: string | null
+}
+
+interface AttemptResult {
+  status: "graded" | "pending_review"
+  score: number
+  passed: boolean
+  passingScore: number
+  correctCount: number
+  totalQuestions: number
+  timedOut: boolean
+  results: QuestionResult[]
+}
+
+const scoringPolicyLabels: Record<StudentQuiz["scoringPolicy"], string> = {
+  best: "la meilleure tentative est retenue",
+  last: "la dernière tentative est retenue",
+  average: "la moyenne des tentatives est retenue",
+}
+
+function formatCountdown(seconds: number) {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`
 }
 
 interface QuizComponentProps {
@@ -22,83 +64,238 @@ interface QuizComponentProps {
 }
 
 export function QuizComponent({ chapterId, onComplete }: QuizComponentProps) {
-  // Mock quiz data
-  const [questions] = useState<QuizQuestion[]>([
-    {
-      id: 1,
-      question: "Qu'est-ce que React ?",
-      options: [
-        "Un framework CSS",
-        "Une bibliothèque JavaScript pour créer des interfaces utilisateur",
-        "Un serveur web",
-        "Un langage de programmation",
-      ],
-      correctAnswer: 1,
-      explanation:
-        "React est une bibliothèque JavaScript développée par Facebook pour créer des interfaces utilisateur.",
-    },
-    {
-      id: 2,
-      question: "Que signifie JSX ?",
-      options: ["JavaScript XML", "Java Syntax Extension", "JSON XML", "JavaScript Extension"],
-      correctAnswer: 0,
-      explanation: "JSX signifie JavaScript XML et permet d'écrire du HTML dans JavaScript.",
-    },
-    {
-      id: 3,
-      question: "Comment passe-t-on des données à un composant React ?",
-      options: ["Via les props", "Via les variables globales", "Via localStorage", "Via les cookies"],
-      correctAnswer: 0,
-      explanation: "Les props (propriétés) sont le moyen standard de passer des données aux composants React.",
-    },
-  ])
-
+  const [quiz, setQuiz] = useState<LoadedQuiz | null>(null)
+  const [attempt, setAttempt] = useState<StartedAttempt | null>(null)
+  const [isStarting, setIsStarting] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
   const [currentQuestion, setCurrentQuestion] = useState(0)
-  const [selectedAnswers, setSelectedAnswers] = useState<number[]>([])
+  const [selectedAnswers, setSelectedAnswers] = useState<(QuizAnswer | undefined)[]>([])
   const [showResults, setShowResults] = useState(false)
+  const [attemptResult, setAttemptResult] = useState<AttemptResult | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [submitError, setSubmitError] = useState<string | null>(null)
   const [quizCompleted, setQuizCompleted] = useState(false)
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null)
+  // Guards the automatic submission so it only fires once per attempt
+  const autoSubmitted = useRef(false)
+
+  useEffect(() => {
+    // Load the chapter quiz; the API strips answer keys for students
+    const loadQuiz = async () => {
+      setIsLoading(true)
+      setLoadError(null)
+      setAttempt(null)
+      setRemainingSeconds(null)
+      setCurrentQuestion(0)
+      setSelectedAnswers([])
+      setShowResults(false)
+      setAttemptResult(null)
+      setQuizCompleted(false)
+      try {
+        const response = await fetch(`/api/chapters/${chapterId}/quizzes`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Erreur lors du chargement du quiz")
+        }
+        setQuiz(data.quizzes[0] ?? null)
+      } catch (error) {
+        console.error("Error loading quiz:", error)
+        setLoadError(error instanceof Error ? error.message : "Erreur lors du chargement du quiz")
+      } finally {
+        setIsLoading(false)
+      }
+    }
 
-  const handleAnswerSelect = (answerIndex: number) => {
+    loadQuiz()
+  }, [chapterId])
+
+  const questions = attempt?.questions ?? []
+
+  // Each attempt gets its own draw and order; an unfinished one is resumed as is
+  const startAttempt = async () => {
+    if (!quiz) return
+
+    setIsStarting(true)
+    setSubmitError(null)
+    try {
+      const response = await fetch(`/api/quizzes/${quiz.id}/start`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors du démarrage du quiz")
+      }
+
+      const startedQuestions: StudentQuizQuestion[] = data.questions
+      const savedAnswers: Record<string, QuizAnswer> = data.answers ?? {}
+      const remaining: number | null = data.attempt.remainingSeconds
+      autoSubmitted.current = false
+      setAttempt({
+        id: data.attempt.id,
+        questions: startedQuestions,
+        endsAt: remaining === null ? null : Date.now() + remaining * 1000,
+      })
+      setRemainingSeconds(remaining)
+      setCurrentQuestion(0)
+      // A resumed attempt picks up the answers saved so far
+      setSelectedAnswers(startedQuestions.map((question) => savedAnswers[question.id]))
+    } catch (error) {
+      console.error("Error starting quiz:", error)
+      setSubmitError(error instanceof Error ? error.message : "Erreur lors du démarrage du quiz")
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const collectAnswers = useCallback(
+    () =>
+      Object.fromEntries(
+        questions.map((question, index) => [
+          question.id,
+          toSubmittedAnswer(question, selectedAnswers[index] ?? initialAnswer(question)),
+        ])
+      ),
+    [questions, selectedAnswers]
+  )
+
+  // Saved answers still count if time runs out before the student submits
+  const saveDraft = () => {
+    if (!attempt) return
+    fetch(`/api/quiz-attempts/${attempt.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ answers: collectAnswers() }),
+    }).catch((error) => console.error("Error saving quiz answers:", error))
+  }
+
+  const handleAnswerSelect = (answer: QuizAnswer) => {
     const newAnswers = [...selectedAnswers]
-    newAnswers[currentQuestion] = answerIndex
+    newAnswers[currentQuestion] = answer
     setSelectedAnswers(newAnswers)
   }
 
+  // Answers are graded on the server, which reveals corrections only once the attempt is recorded
+  const submitAttempt = useCallback(async () => {
+    if (!quiz || !attempt) return
+
+    setIsSubmitting(true)
+    setSubmitError(null)
+    try {
+      const answers = collectAnswers()
+      const response = await fetch(`/api/quizzes/${quiz.id}/attempts`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ attemptId: attempt.id, answers }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de la soumission du quiz")
+      }
+
+      setAttemptResult({
+        status: data.attempt.status,
+        score: data.attempt.score,
+        passed: data.attempt.passed,
+        passingScore: data.passingScore,
+        correctCount: data.correctCount,
+        totalQuestions: data.totalQuestions,
+        timedOut: data.timedOut,
+        results: data.results,
+      })
+      setRemainingSeconds(null)
+      setShowResults(true)
+
+      // Mirror the attempt limit and cooldown the server will apply next time
+      setQuiz((current) => {
+        if (!current) return current
+        const attemptsUsed = current.attemptsUsed + 1
+        const retryAt = current.cooldownMinutes
+          ? new Date(Date.now() + current.cooldownMinutes * 60 * 1000).toISOString()
+          : null
+        const limitReached = current.maxAttempts !== null && attemptsUsed >= current.maxAttempts
+        return { ...current, attemptsUsed, canStart: !limitReached && !retryAt, retryAt }
+      })
+    } catch (error) {
+      console.error("Error submitting quiz:", error)
+      setSubmitError(error instanceof Error ? error.message : "Erreur lors de la soumission du quiz")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }, [quiz, attempt, collectAnswers])
+
+  // Count down to the deadline and submit whatever is answered when it hits zero
+  useEffect(() => {
+    if (!attempt?.endsAt || showResults) return
+
+    const endsAt = attempt.endsAt
+    const tick = () => setRemainingSeconds(Math.max(0, Math.ceil((endsAt - Date.now()) / 1000)))
+    tick()
+    const timer = setInterval(tick, 1000)
+    return () => clearInterval(timer)
+  }, [attempt, showResults])
+
+  useEffect(() => {
+    if (remainingSeconds === 0 && !showResults && !autoSubmitted.current) {
+      autoSubmitted.current = true
+      submitAttempt()
+    }
+  }, [remainingSeconds, showResults, submitAttempt])
+
   const handleNext = () => {
     if (currentQuestion < questions.length - 1) {
+      saveDraft()
       setCurrentQuestion(currentQuestion + 1)
     } else {
-      setShowResults(true)
+      submitAttempt()
     }
   }
 
+  const handleFinishQuiz = () => {
+    if (!attemptResult) return
+    setQuizCompleted(true)
+    onComplete(chapterId, attemptResult.score)
+  }
+
   const handlePrevious = () => {
     if (currentQuestion > 0) {
+      saveDraft()
       setCurrentQuestion(currentQuestion - 1)
     }
   }
 
-  const calculateScore = () => {
-    let correct = 0
-    questions.forEach((question, index) => {
-      if (selectedAnswers[index] === question.correctAnswer) {
-        correct++
-      }
-    })
-    return Math.round((correct / questions.length) * 100)
+  const progress = questions.length > 0 ? ((currentQuestion + 1) / questions.length) * 100 : 0
+
+  if (isLoading) {
+    return <p className="text-center py-8 text-muted-foreground">Chargement du quiz...</p>
   }
 
-  const handleFinishQuiz = () => {
-    const score = calculateScore()
-    setQuizCompleted(true)
-    onComplete(chapterId, score)
+  if (loadError || !quiz || quiz.questionCount === 0) {
+    return (
+      <p className="text-center py-8 text-muted-foreground">
+        {loadError || "Aucun quiz disponible pour ce chapitre"}
+      </p>
+    )
   }
 
-  const progress = ((currentQuestion + 1) / questions.length) * 100
+  if (showResults && attemptResult?.status === "pending_review") {
+    return (
+      <Card className="border-border bg-card">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4">
+            <Clock className="h-16 w-16 text-amber-500" />
+          </div>
+          <CardTitle className="text-2xl">Réponses envoyées</CardTitle>
+          <CardDescription>
+            Ce quiz contient des questions ouvertes corrigées par votre formateur. Vous serez notifié dès que la
+            note sera publiée.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
 
-  if (showResults) {
-    const score = calculateScore()
-    const passed = score >= 70
+  if (showResults && attemptResult) {
+    const { score, passed } = attemptResult
+    const resultsById = new Map(attemptResult.results.map((result) => [result.questionId, result]))
 
     return (
       <div className="space-y-6">
@@ -113,10 +310,13 @@ export function QuizComponent({ chapterId, onComplete }: QuizComponentProps) {
             </div>
             <CardTitle className="text-2xl">{passed ? "Félicitations !" : "Quiz échoué"}</CardTitle>
             <CardDescription>
-              Votre score : {score}% (
-              {selectedAnswers.filter((answer, index) => answer === questions[index].correctAnswer).length}/
-              {questions.length})
+              Votre score : {score}% ({attemptResult.correctCount}/{attemptResult.totalQuestions})
             </CardDescription>
+            {attemptResult.timedOut && (
+              <p className="text-sm text-amber-600">
+                Temps écoulé : la tentative a été clôturée automatiquement.
+              </p>
+            )}
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -124,16 +324,21 @@ export function QuizComponent({ chapterId, onComplete }: QuizComponentProps) {
               <p className="text-center text-muted-foreground">
                 {passed
                   ? "Vous avez réussi le quiz ! Vous pouvez passer au chapitre suivant."
-                  : "Score minimum requis : 70%. Vous pouvez reprendre le quiz."}
+                  : quiz.canStart
+                    ? `Score minimum requis : ${attemptResult.passingScore}%. Vous pouvez reprendre le quiz.`
+                    : `Score minimum requis : ${attemptResult.passingScore}%.`}
               </p>
               <div className="flex justify-center space-x-4">
                 {!quizCompleted && <Button onClick={handleFinishQuiz}>Terminer le quiz</Button>}
-                {!passed && (
+                {!passed && (quiz.canStart || quiz.retryAt) && (
                   <Button
                     variant="outline"
                     onClick={() => {
+                      setAttempt(null)
+                      setRemainingSeconds(null)
                       setCurrentQuestion(0)
                       setSelectedAnswers([])
+                      setAttemptResult(null)
                       setShowResults(false)
                     }}
                   >
@@ -153,8 +358,17 @@ export function QuizComponent({ chapterId, onComplete }: QuizComponentProps) {
           <CardContent>
             <div className="space-y-6">
               {questions.map((question, index) => {
-                const userAnswer = selectedAnswers[index]
-                const isCorrect = userAnswer === question.correctAnswer
+                const result = resultsById.get(question.id)
+                const isCorrect = result?.correct ?? false
+                const credit = result?.credit ?? 0
+                const answerLabel = formatAnswer(
+                  question.type === "single_choice" || question.type === "multiple_choice"
+                    ? { type: question.type, options: question.options }
+                    : question.type === "matching"
+                      ? { type: question.type, pairs: question.lefts.map((left) => ({ left, right: "" })) }
+                      : { type: question.type },
+                  result?.answer
+                )
 
                 return (
                   <div key={question.id} className="space-y-3">
@@ -169,16 +383,19 @@ export function QuizComponent({ chapterId, onComplete }: QuizComponentProps) {
                           {index + 1}. {question.question}
                         </p>
                         <p className="text-sm text-muted-foreground mt-1">
-                          Votre réponse : {question.options[userAnswer]}
+                          Votre réponse : {answerLabel}
                         </p>
-                        {!isCorrect && (
-                          <p className="text-sm text-green-600 mt-1">
-                            Bonne réponse : {question.options[question.correctAnswer]}
+                        {!isCorrect && credit > 0 && (
+                          <p className="text-sm text-amber-600 mt-1">
+                            Réponse partiellement juste : {Math.round(credit * 100)}% des points
                           </p>
                         )}
-                        {question.explanation && (
+                        {!isCorrect && result?.solution && (
+                          <p className="text-sm text-green-600 mt-1">Bonne réponse : {result.solution}</p>
+                        )}
+                        {result?.explanation && (
                           <p className="text-sm text-muted-foreground mt-2 p-2 bg-muted/30 rounded">
-                            {question.explanation}
+                            {result.explanation}
                           </p>
                         )}
                       </div>
@@ -193,7 +410,56 @@ export function QuizComponent({ chapterId, onComplete }: QuizComponentProps) {
     )
   }
 
+  if (!attempt || questions.length === 0) {
+    const retryAt = quiz.retryAt ? new Date(quiz.retryAt) : null
+    const attemptsLeft = quiz.maxAttempts !== null ? Math.max(0, quiz.maxAttempts - quiz.attemptsUsed) : null
+
+    return (
+      <Card className="border-border bg-card">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">{quiz.title}</CardTitle>
+          <CardDescription>
+            {quiz.questionCount} question{quiz.questionCount > 1 ? "s" : ""} · Score minimum requis :{" "}
+            {quiz.passingScore}%
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          <p className="text-sm text-muted-foreground">
+            Les questions et les réponses sont présentées dans un ordre différent à chaque tentative.
+          </p>
+          <ul className="text-sm text-muted-foreground space-y-1">
+            {quiz.timeLimitMinutes && (
+              <li>
+                Durée : {quiz.timeLimitMinutes} min. Le quiz est soumis automatiquement à la fin du temps imparti.
+              </li>
+            )}
+            {attemptsLeft !== null && (
+              <li>
+                Tentatives restantes : {attemptsLeft} sur {quiz.maxAttempts}
+              </li>
+            )}
+            {quiz.attemptsUsed > 0 && <li>Note retenue : {scoringPolicyLabels[quiz.scoringPolicy]}</li>}
+          </ul>
+          {retryAt && retryAt > new Date() && (
+            <p className="text-sm text-amber-600">
+              Prochaine tentative possible le {retryAt.toLocaleString("fr-FR")}
+            </p>
+          )}
+          <Button
+            onClick={startAttempt}
+            disabled={isStarting || attemptsLeft === 0 || (retryAt !== null && retryAt > new Date())}
+          >
+            {isStarting ? "Préparation..." : "Commencer le quiz"}
+          </Button>
+          {submitError && <p className="text-sm text-destructive">{submitError}</p>}
+        </CardContent>
+      </Card>
+    )
+  }
+
   const question = questions[currentQuestion]
+  const currentAnswer = selectedAnswers[currentQuestion] ?? initialAnswer(question)
+  const hasAnswer = isAnswered(question, currentAnswer)
 
   return (
     <div className="space-y-6">
@@ -201,7 +467,17 @@ export function QuizComponent({ chapterId, onComplete }: QuizComponentProps) {
         <h3 className="text-lg font-medium">
           Question {currentQuestion + 1} sur {questions.length}
         </h3>
-        <span className="text-sm text-muted-foreground">{Math.round(progress)}% complété</span>
+        <div className="flex items-center gap-4">
+          {remainingSeconds !== null && (
+            <span
+              className={`flex items-center gap-1 text-sm font-medium ${remainingSeconds <= 60 ? "text-red-500" : ""}`}
+            >
+              <Timer className="h-4 w-4" />
+              {formatCountdown(remainingSeconds)}
+            </span>
+          )}
+          <span className="text-sm text-muted-foreground">{Math.round(progress)}% complété</span>
+        </div>
       </div>
 
       <Progress value={progress} className="h-2" />
@@ -211,22 +487,7 @@ export function QuizComponent({ chapterId, onComplete }: QuizComponentProps) {
           <CardTitle className="text-xl">{question.question}</CardTitle>
         </CardHeader>
         <CardContent>
-          <RadioGroup
-            value={selectedAnswers[currentQuestion]?.toString()}
-            onValueChange={(value) => handleAnswerSelect(Number.parseInt(value))}
-          >
-            {question.options.map((option, index) => (
-              <div
-                key={index}
-                className="flex items-center space-x-2 p-3 rounded-lg hover:bg-muted/30 transition-colors"
-              >
-                <RadioGroupItem value={index.toString()} id={`option-${index}`} />
-                <Label htmlFor={`option-${index}`} className="flex-1 cursor-pointer">
-                  {option}
-                </Label>
-              </div>
-            ))}
-          </RadioGroup>
+          <QuestionInput key={question.id} question={question} answer={currentAnswer} onChange={handleAnswerSelect} />
         </CardContent>
       </Card>
 
@@ -234,10 +495,12 @@ export function QuizComponent({ chapterId, onComplete }: QuizComponentProps) {
         <Button variant="outline" onClick={handlePrevious} disabled={currentQuestion === 0}>
           Précédent
         </Button>
-        <Button onClick={handleNext} disabled={selectedAnswers[currentQuestion] === undefined}>
-          {currentQuestion === questions.length - 1 ? "Terminer" : "Suivant"}
+        <Button onClick={handleNext} disabled={!hasAnswer || isSubmitting}>
+          {currentQuestion === questions.length - 1 ? (isSubmitting ? "Correction..." : "Terminer") : "Suivant"}
         </Button>
       </div>
+
+      {submitError && <p className="text-sm text-destructive text-center">{submitError}</p>}
     </div>
   )
 }
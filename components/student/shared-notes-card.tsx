@@ -0,0 +1,48 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { MessageSquare } from "lucide-react"
+import { STUDENT_NOTE_CATEGORY_LABELS } from "@/components/sub-admin/notes/labels"
+import type { StudentNoteCategory } from "@/lib/schemas/student-note"
+
+interface SharedNotesCardProps {
+  notes: Array<{
+    id: number
+    courseTitle: string | null
+    authorName: string | null
+    category: StudentNoteCategory
+    content: string
+    createdAt: Date
+  }>
+}
+
+// Observations the school staff chose to share with the student
+export function SharedNotesCard({ notes }: SharedNotesCardProps) {
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Observations de l'équipe pédagogique
+        </CardTitle>
+        <CardDescription>Remarques et suivi partagés avec vous par votre établissement</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {notes.map((note) => (
+          <div key={note.id} className="space-y-2 rounded-lg bg-muted/30 p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{STUDENT_NOTE_CATEGORY_LABELS[note.category]}</Badge>
+                {note.courseTitle && <span className="text-sm text-muted-foreground">{note.courseTitle}</span>}
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {new Date(note.createdAt).toLocaleDateString("fr-FR")}
+              </span>
+            </div>
+            <p className="whitespace-pre-wrap text-sm">{note.content}</p>
+            {note.authorName && <p className="text-xs text-muted-foreground">{note.authorName}</p>}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
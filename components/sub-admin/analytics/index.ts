@@ -0,0 +1,2 @@
+export { LocalAnalytics } from "./local-analytics"
+export type { AnalyticsFilterOptions, LocalAnalytics as LocalAnalyticsData } from "./types"
@@ -0,0 +1,326 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Award, Clock, Loader2, TrendingUp, Users } from "lucide-react"
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { toast } from "sonner"
+import type { AnalyticsFilterOptions, LocalAnalytics as LocalAnalyticsData } from "./types"
+
+interface LocalAnalyticsProps {
+  options: AnalyticsFilterOptions
+}
+
+const ALL = "all"
+
+const TOOLTIP_STYLE = {
+  backgroundColor: "hsl(var(--card))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "6px",
+}
+
+const formatWeek = (week: string) =>
+  new Date(`${week}T00:00:00`).toLocaleDateString("fr-FR", { day: "numeric", month: "short" })
+
+const formatRate = (value: number | null) => (value === null ? "-" : `${value}%`)
+
+// Local statistics of the sub-admin's schools, filtered by school, group, course and period
+export function LocalAnalytics({ options }: LocalAnalyticsProps) {
+  const [data, setData] = useState<LocalAnalyticsData | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [schoolId, setSchoolId] = useState(ALL)
+  const [groupId, setGroupId] = useState(ALL)
+  const [courseId, setCourseId] = useState(ALL)
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+
+  // Groups offered by the filter: those of the selected school, or of every school
+  const groups = options.schools
+    .filter((school) => schoolId === ALL || school.id.toString() === schoolId)
+    .flatMap((school) =>
+      school.groups.map((group) => ({
+        ...group,
+        label: options.schools.length > 1 ? `${group.name} · ${school.name}` : group.name,
+      }))
+    )
+
+  const fetchAnalytics = useCallback(async () => {
+    const params = new URLSearchParams()
+    if (schoolId !== ALL) params.set("schoolId", schoolId)
+    if (groupId !== ALL) params.set("groupId", groupId)
+    if (courseId !== ALL) params.set("courseId", courseId)
+    if (from) params.set("from", from)
+    if (to) params.set("to", to)
+
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/analytics/local?${params}`)
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Erreur lors du chargement des statistiques")
+      }
+
+      setData(result)
+    } catch (error) {
+      console.error("Error fetching local analytics:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors du chargement des statistiques")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [schoolId, groupId, courseId, from, to])
+
+  useEffect(() => {
+    fetchAnalytics()
+  }, [fetchAnalytics])
+
+  const summary = data?.summary
+  const trend = data?.trend.map((week) => ({ ...week, label: formatWeek(week.week) })) ?? []
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Analyses</h1>
+        <p className="text-muted-foreground">
+          {data
+            ? `Du ${new Date(`${data.period.from}T00:00:00`).toLocaleDateString("fr-FR")} au ${new Date(
+                `${data.period.to}T00:00:00`
+              ).toLocaleDateString("fr-FR")}`
+            : "Statistiques locales de vos établissements"}
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-4 sm:flex-row sm:flex-wrap">
+        {options.schools.length > 1 && (
+          <Select
+            value={schoolId}
+            onValueChange={(value) => {
+              setSchoolId(value)
+              setGroupId(ALL)
+            }}
+          >
+            <SelectTrigger className="w-full sm:w-52">
+              <SelectValue placeholder="Établissement" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Tous les établissements</SelectItem>
+              {options.schools.map((school) => (
+                <SelectItem key={school.id} value={school.id.toString()}>
+                  {school.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Select value={groupId} onValueChange={setGroupId}>
+          <SelectTrigger className="w-full sm:w-52">
+            <SelectValue placeholder="Groupe" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Tous les groupes</SelectItem>
+            {groups.map((group) => (
+              <SelectItem key={group.id} value={group.id.toString()}>
+                {group.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={courseId} onValueChange={setCourseId}>
+          <SelectTrigger className="w-full sm:w-56">
+            <SelectValue placeholder="Cours" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Tous les cours</SelectItem>
+            {options.courses.map((course) => (
+              <SelectItem key={course.id} value={course.id.toString()}>
+                {course.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-full sm:w-44" />
+        <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-full sm:w-44" />
+        {isLoading && <Loader2 className="h-5 w-5 animate-spin self-center text-muted-foreground" />}
+      </div>
+
+      {!summary ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <Card className="border-border bg-card">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Étudiants Actifs</CardTitle>
+                <Users className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">
+                  {summary.activeStudents} / {summary.students}
+                </div>
+                <p className="text-xs text-muted-foreground">chapitre terminé ou quiz rendu sur la période</p>
+              </CardContent>
+            </Card>
+
+            <Card className="border-border bg-card">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Taux de Complétion</CardTitle>
+                <TrendingUp className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{summary.completionRate}%</div>
+                <p className="text-xs text-muted-foreground">
+                  {summary.completedEnrollments} / {summary.enrollments} inscriptions terminées
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className="border-border bg-card">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Score Moyen aux Quiz</CardTitle>
+                <Award className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatRate(summary.averageQuizScore)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {summary.quizAttempts} tentative{summary.quizAttempts > 1 ? "s" : ""} corrigée
+                  {summary.quizAttempts > 1 ? "s" : ""}
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className="border-border bg-card">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Taux d'Absence</CardTitle>
+                <Clock className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">
+                  {formatRate(summary.attendance.total > 0 ? summary.attendance.absenceRate : null)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {summary.attendance.unjustified} absence{summary.attendance.unjustified > 1 ? "s" : ""} non
+                  justifiée{summary.attendance.unjustified > 1 ? "s" : ""}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card className="border-border bg-card">
+              <CardHeader>
+                <CardTitle>Activité</CardTitle>
+                <CardDescription>Étudiants actifs et chapitres terminés par semaine</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={trend}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                      <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} allowDecimals={false} />
+                      <Tooltip contentStyle={TOOLTIP_STYLE} />
+                      <Legend />
+                      <Line
+                        type="monotone"
+                        dataKey="activeStudents"
+                        stroke="#3b82f6"
+                        strokeWidth={2}
+                        name="Étudiants actifs"
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="chapterCompletions"
+                        stroke="#8b5cf6"
+                        strokeWidth={2}
+                        name="Chapitres terminés"
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="border-border bg-card">
+              <CardHeader>
+                <CardTitle>Résultats et Assiduité</CardTitle>
+                <CardDescription>Score moyen aux quiz et taux d'absence par semaine (%)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={trend}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                      <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} domain={[0, 100]} />
+                      <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value) => `${value}%`} />
+                      <Legend />
+                      <Line
+                        type="monotone"
+                        dataKey="averageQuizScore"
+                        stroke="#10b981"
+                        strokeWidth={2}
+                        name="Score moyen"
+                        connectNulls
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="absenceRate"
+                        stroke="#ef4444"
+                        strokeWidth={2}
+                        name="Taux d'absence"
+                        connectNulls
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="border-border bg-card">
+            <CardHeader>
+              <CardTitle>Par Groupe</CardTitle>
+              <CardDescription>Indicateurs de chaque groupe sur la période</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {data.groups.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">Aucun étudiant</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Groupe</TableHead>
+                      <TableHead>Étudiants actifs</TableHead>
+                      <TableHead>Complétion</TableHead>
+                      <TableHead>Score moyen</TableHead>
+                      <TableHead>Absences</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.groups.map((group) => (
+                      <TableRow key={group.groupId ?? "none"}>
+                        <TableCell className="font-medium">
+                          {group.groupName ?? <span className="text-muted-foreground">Sans groupe</span>}
+                        </TableCell>
+                        <TableCell>
+                          {group.activeStudents} / {group.students}
+                        </TableCell>
+                        <TableCell>{group.completionRate}%</TableCell>
+                        <TableCell>{formatRate(group.averageQuizScore)}</TableCell>
+                        <TableCell>{formatRate(group.absenceRate)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
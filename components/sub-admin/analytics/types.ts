@@ -0,0 +1,36 @@
+import type { AttendanceSummary } from "../attendance/types"
+
+export interface LocalAnalytics {
+  period: { from: string; to: string }
+  summary: {
+    students: number
+    activeStudents: number
+    enrollments: number
+    completedEnrollments: number
+    completionRate: number
+    quizAttempts: number
+    averageQuizScore: number | null
+    attendance: AttendanceSummary
+  }
+  groups: Array<{
+    groupId: number | null
+    groupName: string | null
+    students: number
+    activeStudents: number
+    completionRate: number
+    averageQuizScore: number | null
+    absenceRate: number | null
+  }>
+  trend: Array<{
+    week: string
+    activeStudents: number
+    chapterCompletions: number
+    averageQuizScore: number | null
+    absenceRate: number | null
+  }>
+}
+
+export interface AnalyticsFilterOptions {
+  schools: Array<{ id: number; name: string; groups: Array<{ id: number; name: string }> }>
+  courses: Array<{ id: number; title: string }>
+}
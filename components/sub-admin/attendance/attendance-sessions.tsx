@@ -0,0 +1,201 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { ClipboardCheck, Loader2, Plus } from "lucide-react"
+import { toast } from "sonner"
+import { formatSessionTime } from "./format"
+import { SessionForm, type SessionFormData } from "./session-form"
+import type { ClassSession, SessionFormOptions } from "./types"
+
+interface AttendanceSessionsProps {
+  options: SessionFormOptions
+}
+
+const ALL = "all"
+
+// In-person sessions of the sub-admin's groups, from which the roll is called
+export function AttendanceSessions({ options }: AttendanceSessionsProps) {
+  const router = useRouter()
+  const [sessions, setSessions] = useState<ClassSession[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isCreating, setIsCreating] = useState(false)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [groupId, setGroupId] = useState(ALL)
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+
+  const fetchSessions = useCallback(async () => {
+    const params = new URLSearchParams()
+    if (groupId !== ALL) params.set("groupId", groupId)
+    if (from) params.set("from", from)
+    if (to) params.set("to", to)
+
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/attendance/sessions?${params}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors du chargement des séances")
+      }
+
+      setSessions(data.sessions ?? [])
+    } catch (error) {
+      console.error("Error fetching class sessions:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors du chargement des séances")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [groupId, from, to])
+
+  useEffect(() => {
+    fetchSessions()
+  }, [fetchSessions])
+
+  // A new session goes straight to its roll call
+  const handleCreate = async (formData: SessionFormData) => {
+    setIsCreating(true)
+    try {
+      const response = await fetch("/api/attendance/sessions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formData),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de la création de la séance")
+      }
+
+      toast.success(data.message || "Séance créée")
+      setIsDialogOpen(false)
+      router.push(`/sous-admin/attendance/${data.session.id}`)
+    } catch (error) {
+      console.error("Error creating class session:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de la création de la séance")
+      throw error
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Présences</CardTitle>
+            <CardDescription>Séances en présentiel de vos groupes et appel des étudiants</CardDescription>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={options.groups.length === 0}>
+                <Plus className="mr-2 h-4 w-4" />
+                Nouvelle séance
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-md">
+              <DialogHeader>
+                <DialogTitle>Nouvelle séance</DialogTitle>
+                <DialogDescription>L'appel pourra être fait dès la création</DialogDescription>
+              </DialogHeader>
+              <SessionForm
+                options={options}
+                onSubmit={handleCreate}
+                onClose={() => setIsDialogOpen(false)}
+                isSubmitting={isCreating}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col sm:flex-row gap-4 mb-6">
+          <Select value={groupId} onValueChange={setGroupId}>
+            <SelectTrigger className="w-full sm:w-64">
+              <SelectValue placeholder="Groupe" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Tous les groupes</SelectItem>
+              {options.groups.map((group) => (
+                <SelectItem key={group.id} value={group.id.toString()}>
+                  {group.name} · {group.schoolName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-full sm:w-44" />
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-full sm:w-44" />
+        </div>
+
+        {options.groups.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Créez d'abord un groupe dans l'un de vos établissements
+          </div>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Aucune séance</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Séance</TableHead>
+                <TableHead>Groupe</TableHead>
+                <TableHead>Cours</TableHead>
+                <TableHead>Présences</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => (
+                <TableRow key={session.id}>
+                  <TableCell>
+                    <div className="font-medium">{formatSessionTime(session)}</div>
+                    {session.trainerName && (
+                      <div className="text-sm text-muted-foreground">{session.trainerName}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div>{session.groupName}</div>
+                    <div className="text-sm text-muted-foreground">{session.schoolName}</div>
+                  </TableCell>
+                  <TableCell>{session.courseTitle ?? <span className="text-muted-foreground">-</span>}</TableCell>
+                  <TableCell>
+                    {session.recordedCount === 0 ? (
+                      <Badge variant="outline">Appel à faire</Badge>
+                    ) : (
+                      <span className="text-sm">
+                        {session.presentCount} présent{session.presentCount > 1 ? "s" : ""} ·{" "}
+                        {session.absentCount + session.excusedCount} absent
+                        {session.absentCount + session.excusedCount > 1 ? "s" : ""}
+                        {session.lateCount > 0 && ` · ${session.lateCount} en retard`}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" asChild>
+                      <Link href={`/sous-admin/attendance/${session.id}`}>
+                        <ClipboardCheck className="h-4 w-4 mr-2" />
+                        {session.recordedCount === 0 ? "Faire l'appel" : "Voir l'appel"}
+                      </Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
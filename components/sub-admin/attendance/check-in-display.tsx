@@ -0,0 +1,121 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft, Loader2, Users } from "lucide-react"
+import { formatSessionTime } from "./format"
+import type { ClassSession } from "./types"
+
+interface CheckInDisplayProps {
+  sessionId: number
+  backHref: string
+}
+
+interface CheckInCode {
+  session: ClassSession
+  closed: string | null
+  qrCode: string | null
+  refreshAt: string | null
+}
+
+// While the window is closed the screen still checks back regularly
+const CLOSED_POLL_MS = 30_000
+
+// Full-screen QR code projected in class; it rotates so a shared photo expires
+export function CheckInDisplay({ sessionId, backHref }: CheckInDisplayProps) {
+  const [code, setCode] = useState<CheckInCode | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [secondsLeft, setSecondsLeft] = useState(0)
+
+  const fetchCode = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/attendance/sessions/${sessionId}/check-in-code`, { cache: "no-store" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors du chargement du QR code")
+      }
+
+      setCode(data)
+      setError(null)
+      return data as CheckInCode
+    } catch (error) {
+      console.error("Error fetching check-in code:", error)
+      setError(error instanceof Error ? error.message : "Erreur lors du chargement du QR code")
+      return null
+    }
+  }, [sessionId])
+
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>
+    let cancelled = false
+
+    const refresh = async () => {
+      const next = await fetchCode()
+      if (cancelled) return
+      const delay = next?.refreshAt ? new Date(next.refreshAt).getTime() - Date.now() : CLOSED_POLL_MS
+      timeout = setTimeout(refresh, Math.max(delay, 1000))
+    }
+    refresh()
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [fetchCode])
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setSecondsLeft(code?.refreshAt ? Math.max(0, Math.ceil((new Date(code.refreshAt).getTime() - Date.now()) / 1000)) : 0)
+    }, 250)
+    return () => clearInterval(interval)
+  }, [code?.refreshAt])
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" asChild>
+        <Link href={backHref}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Retour
+        </Link>
+      </Button>
+
+      <Card className="border-border bg-card">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">
+            {code ? `${code.session.groupName} · ${formatSessionTime(code.session)}` : "Émargement"}
+          </CardTitle>
+          <CardDescription>
+            Scannez ce code avec votre téléphone, connecté à votre compte étudiant, pour enregistrer votre présence
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col items-center gap-4 pb-10">
+          {error ? (
+            <p className="py-16 text-destructive">{error}</p>
+          ) : !code ? (
+            <Loader2 className="my-16 h-8 w-8 animate-spin text-muted-foreground" />
+          ) : code.closed || !code.qrCode ? (
+            <p className="py-16 text-lg text-muted-foreground">{code.closed}</p>
+          ) : (
+            <>
+              <img
+                src={code.qrCode}
+                alt="QR code d'émargement"
+                className="h-auto w-full max-w-md rounded-md border border-border bg-white p-2"
+              />
+              <p className="text-sm text-muted-foreground">Nouveau code dans {secondsLeft} s</p>
+            </>
+          )}
+          {code && (
+            <p className="flex items-center gap-2 text-lg">
+              <Users className="h-5 w-5 text-muted-foreground" />
+              <span className="font-semibold">{code.session.checkedInCount}</span>
+              étudiant{code.session.checkedInCount > 1 ? "s" : ""} émargé{code.session.checkedInCount > 1 ? "s" : ""}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
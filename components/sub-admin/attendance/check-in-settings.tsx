@@ -0,0 +1,140 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Loader2, QrCode, Save } from "lucide-react"
+import { toast } from "sonner"
+import type { ClassSession } from "./types"
+
+interface CheckInSettingsProps {
+  session: ClassSession
+  onSaved: () => Promise<void>
+}
+
+const toTimeInput = (value: string | null) =>
+  value ? new Date(value).toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" }) : ""
+
+// When and from which networks students may check in by scanning the QR code
+export function CheckInSettings({ session, onSaved }: CheckInSettingsProps) {
+  const [opensAt, setOpensAt] = useState("")
+  const [closesAt, setClosesAt] = useState("")
+  const [allowedIps, setAllowedIps] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    setOpensAt(toTimeInput(session.checkInOpensAt))
+    setClosesAt(toTimeInput(session.checkInClosesAt))
+    setAllowedIps(session.checkInAllowedIps.join("\n"))
+  }, [session])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    // The window is set in hours of the session day
+    const day = new Date(session.startsAt).toLocaleDateString("en-CA")
+    const toDateTime = (time: string) => (time ? new Date(`${day}T${time}`).toISOString() : null)
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/attendance/sessions/${session.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          checkInOpensAt: toDateTime(opensAt),
+          checkInClosesAt: toDateTime(closesAt),
+          checkInAllowedIps: allowedIps
+            .split(/[\s,]+/)
+            .map((entry) => entry.trim())
+            .filter(Boolean),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de l'enregistrement des paramètres")
+      }
+
+      toast.success(data.message || "Paramètres d'émargement enregistrés")
+      await onSaved()
+    } catch (error) {
+      console.error("Error saving check-in settings:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de l'enregistrement des paramètres")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <CardTitle>Émargement par QR code</CardTitle>
+            <CardDescription>
+              Les étudiants du groupe scannent le code affiché en classe ; il change toutes les 15 secondes
+            </CardDescription>
+          </div>
+          <Button variant="outline" asChild>
+            <Link href={`/sous-admin/attendance/${session.id}/qr`}>
+              <QrCode className="mr-2 h-4 w-4" />
+              Afficher le QR code
+            </Link>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="checkInOpensAt">Ouverture</Label>
+              <Input
+                id="checkInOpensAt"
+                type="time"
+                value={opensAt}
+                onChange={(e) => setOpensAt(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="checkInClosesAt">Fermeture</Label>
+              <Input
+                id="checkInClosesAt"
+                type="time"
+                value={closesAt}
+                onChange={(e) => setClosesAt(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="checkInAllowedIps">Réseaux autorisés</Label>
+            <Textarea
+              id="checkInAllowedIps"
+              value={allowedIps}
+              onChange={(e) => setAllowedIps(e.target.value)}
+              placeholder={"ex: 196.200.10.0/24\nUne adresse ou plage par ligne ; vide pour tout réseau"}
+              rows={3}
+              disabled={isSaving}
+            />
+            <p className="text-xs text-muted-foreground">
+              Renseignez l'adresse publique du Wi-Fi de l'établissement pour refuser les scans faits à distance.
+              Sans réseau autorisé, un code photographié peut être transmis à un absent pendant une trentaine de
+              secondes.
+            </p>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Enregistrer
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,23 @@
+import type { AttendanceStatus } from "@/lib/schemas/attendance"
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: "Présent",
+  absent: "Absent",
+  late: "En retard",
+  excused: "Excusé",
+}
+
+export const ATTENDANCE_STATUS_VARIANTS: Record<AttendanceStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  present: "default",
+  absent: "destructive",
+  late: "outline",
+  excused: "secondary",
+}
+
+export const formatSessionTime = (session: { startsAt: Date | string; endsAt: Date | string | null }) => {
+  const start = new Date(session.startsAt)
+  const time = (date: Date) => date.toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" })
+  return `${start.toLocaleDateString("fr-FR", { weekday: "short", day: "numeric", month: "short" })} · ${time(start)}${
+    session.endsAt ? ` - ${time(new Date(session.endsAt))}` : ""
+  }`
+}
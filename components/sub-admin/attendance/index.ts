@@ -0,0 +1,6 @@
+export { AttendanceSessions } from "./attendance-sessions"
+export { CheckInDisplay } from "./check-in-display"
+export { RollCall } from "./roll-call"
+export { StudentAttendanceCard } from "./student-attendance-card"
+export { ATTENDANCE_STATUS_LABELS, ATTENDANCE_STATUS_VARIANTS, formatSessionTime } from "./format"
+export type { AttendanceHistoryEntry, AttendanceSummary, ClassSession, RosterEntry, SessionFormOptions } from "./types"
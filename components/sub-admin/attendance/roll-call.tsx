@@ -0,0 +1,352 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { DeleteConfirmDialog } from "@/components/ui/delete-confirm-dialog"
+import { ArrowLeft, CheckCheck, FileText, Loader2, Paperclip, QrCode, Save, Trash2, X } from "lucide-react"
+import { toast } from "sonner"
+import { cn } from "@/lib/utils/utils"
+import { ATTENDANCE_STATUSES, type AttendanceStatus } from "@/lib/schemas/attendance"
+import { ATTENDANCE_STATUS_LABELS, formatSessionTime } from "./format"
+import { CheckInSettings } from "./check-in-settings"
+import type { AttendanceEntry, ClassSession, RosterEntry } from "./types"
+
+interface RollCallProps {
+  sessionId: number
+}
+
+const STATUS_BUTTON_CLASSES: Record<AttendanceStatus, string> = {
+  present: "bg-primary text-primary-foreground hover:bg-primary/90",
+  absent: "bg-destructive text-destructive-foreground hover:bg-destructive/90",
+  late: "bg-amber-500 text-white hover:bg-amber-500/90",
+  excused: "bg-secondary text-secondary-foreground hover:bg-secondary/80",
+}
+
+const toEntries = (roster: RosterEntry[]) =>
+  Object.fromEntries(
+    roster.map((student) => [
+      student.studentId,
+      {
+        // Students not called yet are assumed present: only exceptions need a click
+        status: student.status ?? "present",
+        justification: student.justification ?? "",
+        documentUrl: student.documentUrl,
+      },
+    ])
+  ) as Record<number, AttendanceEntry>
+
+async function uploadDocument(file: File) {
+  const formData = new FormData()
+  formData.append("file", file)
+  const response = await fetch("/api/upload/attendance", { method: "POST", body: formData })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || "Erreur lors du téléchargement")
+  }
+  return data.file.url as string
+}
+
+// Roll call of one session: every student of the group with a one-click status
+export function RollCall({ sessionId }: RollCallProps) {
+  const router = useRouter()
+  const [session, setSession] = useState<ClassSession | null>(null)
+  const [roster, setRoster] = useState<RosterEntry[]>([])
+  const [entries, setEntries] = useState<Record<number, AttendanceEntry>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [uploadingId, setUploadingId] = useState<number | null>(null)
+  const [isDirty, setIsDirty] = useState(false)
+  const [showDelete, setShowDelete] = useState(false)
+
+  const fetchSession = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/attendance/sessions/${sessionId}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors du chargement de la séance")
+      }
+
+      setSession(data.session)
+      setRoster(data.roster ?? [])
+      setEntries(toEntries(data.roster ?? []))
+      setIsDirty(false)
+    } catch (error) {
+      console.error("Error fetching class session:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors du chargement de la séance")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [sessionId])
+
+  useEffect(() => {
+    fetchSession()
+  }, [fetchSession])
+
+  const updateEntry = (studentId: number, changes: Partial<AttendanceEntry>) => {
+    setEntries((current) => ({ ...current, [studentId]: { ...current[studentId], ...changes } }))
+    setIsDirty(true)
+  }
+
+  const markAllPresent = () => {
+    setEntries((current) =>
+      Object.fromEntries(
+        Object.entries(current).map(([studentId, entry]) => [studentId, { ...entry, status: "present" as const }])
+      )
+    )
+    setIsDirty(true)
+  }
+
+  const handleUpload = async (studentId: number, file: File) => {
+    setUploadingId(studentId)
+    try {
+      updateEntry(studentId, { documentUrl: await uploadDocument(file) })
+    } catch (error) {
+      console.error("Error uploading justification:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors du téléchargement")
+    } finally {
+      setUploadingId(null)
+    }
+  }
+
+  const save = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/attendance/sessions/${sessionId}/records`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          records: roster.map(({ studentId }) => {
+            const entry = entries[studentId]
+            // A present student has nothing to justify
+            return entry.status === "present"
+              ? { studentId, status: entry.status, justification: null, documentUrl: null }
+              : { studentId, status: entry.status, justification: entry.justification, documentUrl: entry.documentUrl }
+          }),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de l'enregistrement de l'appel")
+      }
+
+      toast.success(data.message || "Appel enregistré")
+      await fetchSession()
+    } catch (error) {
+      console.error("Error saving roll call:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de l'enregistrement de l'appel")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    try {
+      const response = await fetch(`/api/attendance/sessions/${sessionId}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de la suppression de la séance")
+      }
+
+      toast.success(data.message || "Séance supprimée")
+      router.push("/sous-admin/attendance")
+    } catch (error) {
+      console.error("Error deleting class session:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de la suppression de la séance")
+    }
+  }
+
+  const counts = ATTENDANCE_STATUSES.map((status) => ({
+    status,
+    count: Object.values(entries).filter((entry) => entry.status === status).length,
+  }))
+  const isRecorded = roster.some((student) => student.recordId !== null)
+
+  if (isLoading && !session) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!session) {
+    return <div className="text-center py-16 text-muted-foreground">Séance introuvable</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" asChild>
+        <Link href="/sous-admin/attendance">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Séances
+        </Link>
+      </Button>
+
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+            <div>
+              <CardTitle>
+                {session.groupName} · {formatSessionTime(session)}
+              </CardTitle>
+              <CardDescription>
+                {[session.schoolName, session.courseTitle, session.trainerName].filter(Boolean).join(" · ")}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={markAllPresent} disabled={isSaving || roster.length === 0}>
+                <CheckCheck className="mr-2 h-4 w-4" />
+                Tous présents
+              </Button>
+              <Button onClick={save} disabled={isSaving || roster.length === 0 || (isRecorded && !isDirty)}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                {isRecorded ? "Enregistrer les modifications" : "Enregistrer l'appel"}
+              </Button>
+              <Button
+                variant="ghost"
+                className="text-destructive hover:text-destructive"
+                onClick={() => setShowDelete(true)}
+                disabled={isSaving}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-4 pt-2 text-sm text-muted-foreground">
+            {counts.map(({ status, count }) => (
+              <span key={status}>
+                {ATTENDANCE_STATUS_LABELS[status]} : <span className="font-medium text-foreground">{count}</span>
+              </span>
+            ))}
+            {!isRecorded && <span>L'appel n'a pas encore été enregistré</span>}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {roster.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Aucun étudiant dans ce groupe</div>
+          ) : (
+            <div className="divide-y divide-border rounded-md border border-border">
+              {roster.map((student) => {
+                const entry = entries[student.studentId]
+                if (!entry) return null
+                return (
+                  <div key={student.studentId} className="space-y-2 p-3">
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                      <div className="flex items-center gap-3">
+                        <Avatar className="h-8 w-8">
+                          <AvatarImage src={student.avatarUrl || undefined} alt={student.name} />
+                          <AvatarFallback>{student.name.charAt(0).toUpperCase()}</AvatarFallback>
+                        </Avatar>
+                        <div>
+                          <p className="flex items-center gap-2 font-medium text-sm">
+                            {student.name}
+                            {student.checkedInAt && (
+                              <Badge
+                                variant="secondary"
+                                title={`Émargé à ${new Date(student.checkedInAt).toLocaleTimeString("fr-FR")}`}
+                              >
+                                <QrCode className="mr-1 h-3 w-3" />
+                                QR
+                              </Badge>
+                            )}
+                          </p>
+                          <p className="text-xs text-muted-foreground">{student.email}</p>
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {ATTENDANCE_STATUSES.map((status) => (
+                          <Button
+                            key={status}
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            className={cn(entry.status === status && STATUS_BUTTON_CLASSES[status])}
+                            onClick={() => updateEntry(student.studentId, { status })}
+                            disabled={isSaving}
+                          >
+                            {ATTENDANCE_STATUS_LABELS[status]}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {entry.status !== "present" && (
+                      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:pl-11">
+                        <Input
+                          value={entry.justification}
+                          onChange={(e) => updateEntry(student.studentId, { justification: e.target.value })}
+                          placeholder="Justification (maladie, transport...)"
+                          maxLength={1000}
+                          disabled={isSaving}
+                          className="h-8"
+                        />
+                        {entry.documentUrl ? (
+                          <div className="flex items-center gap-1">
+                            <Button variant="link" size="sm" asChild>
+                              <a href={entry.documentUrl} target="_blank" rel="noopener noreferrer">
+                                <FileText className="h-4 w-4 mr-1" />
+                                Justificatif
+                              </a>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updateEntry(student.studentId, { documentUrl: null })}
+                              disabled={isSaving}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button variant="outline" size="sm" asChild disabled={uploadingId !== null || isSaving}>
+                            <label className="cursor-pointer whitespace-nowrap">
+                              {uploadingId === student.studentId ? (
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              ) : (
+                                <Paperclip className="h-4 w-4 mr-2" />
+                              )}
+                              Joindre un justificatif
+                              <input
+                                type="file"
+                                accept=".pdf,.png,.jpg,.jpeg,.webp"
+                                className="hidden"
+                                onChange={(e) => {
+                                  const file = e.target.files?.[0]
+                                  if (file) handleUpload(student.studentId, file)
+                                  e.target.value = ""
+                                }}
+                              />
+                            </label>
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CheckInSettings session={session} onSaved={fetchSession} />
+
+      <DeleteConfirmDialog
+        open={showDelete}
+        onOpenChange={setShowDelete}
+        onConfirm={async () => {
+          await handleDelete()
+          setShowDelete(false)
+        }}
+        description="La séance et l'appel enregistré seront définitivement supprimés."
+      />
+    </div>
+  )
+}
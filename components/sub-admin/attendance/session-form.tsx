@@ -0,0 +1,173 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DialogFooter } from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import type { SessionFormOptions } from "./types"
+
+export interface SessionFormData {
+  groupId: number
+  courseId: number | null
+  trainerId: number | null
+  startsAt: string
+  endsAt: string | null
+}
+
+interface SessionFormProps {
+  options: SessionFormOptions
+  onSubmit: (data: SessionFormData) => Promise<void>
+  onClose: () => void
+  isSubmitting: boolean
+}
+
+const NONE = "none"
+
+export function SessionForm({ options, onSubmit, onClose, isSubmitting }: SessionFormProps) {
+  const [groupId, setGroupId] = useState(options.groups.length === 1 ? options.groups[0].id.toString() : "")
+  const [courseId, setCourseId] = useState(NONE)
+  const [trainerId, setTrainerId] = useState(NONE)
+  const [date, setDate] = useState(() => new Date().toLocaleDateString("en-CA"))
+  const [startTime, setStartTime] = useState("08:30")
+  const [endTime, setEndTime] = useState("")
+  const [timeError, setTimeError] = useState("")
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!groupId) return
+
+    // Times are entered in the browser's timezone and sent as UTC
+    const startsAt = new Date(`${date}T${startTime}`)
+    const endsAt = endTime ? new Date(`${date}T${endTime}`) : null
+    if (endsAt && endsAt <= startsAt) {
+      setTimeError("La fin doit être après le début")
+      return
+    }
+
+    try {
+      await onSubmit({
+        groupId: Number(groupId),
+        courseId: courseId === NONE ? null : Number(courseId),
+        trainerId: trainerId === NONE ? null : Number(trainerId),
+        startsAt: startsAt.toISOString(),
+        endsAt: endsAt?.toISOString() ?? null,
+      })
+    } catch {
+      // Error is handled in parent component
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="sessionGroup">
+          Groupe <span className="text-destructive">*</span>
+        </Label>
+        <Select value={groupId} onValueChange={setGroupId} disabled={isSubmitting}>
+          <SelectTrigger id="sessionGroup">
+            <SelectValue placeholder="Sélectionner un groupe" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.groups.map((group) => (
+              <SelectItem key={group.id} value={group.id.toString()}>
+                {group.name} · {group.schoolName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="sessionCourse">Cours</Label>
+        <Select value={courseId} onValueChange={setCourseId} disabled={isSubmitting}>
+          <SelectTrigger id="sessionCourse">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Aucun cours</SelectItem>
+            {options.courses.map((course) => (
+              <SelectItem key={course.id} value={course.id.toString()}>
+                {course.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="sessionTrainer">Formateur</Label>
+        <Select value={trainerId} onValueChange={setTrainerId} disabled={isSubmitting}>
+          <SelectTrigger id="sessionTrainer">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Non renseigné</SelectItem>
+            {options.trainers.map((trainer) => (
+              <SelectItem key={trainer.id} value={trainer.id.toString()}>
+                {trainer.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="sessionDate">
+            Date <span className="text-destructive">*</span>
+          </Label>
+          <Input
+            id="sessionDate"
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="sessionStart">
+            Début <span className="text-destructive">*</span>
+          </Label>
+          <Input
+            id="sessionStart"
+            type="time"
+            value={startTime}
+            onChange={(e) => {
+              setStartTime(e.target.value)
+              setTimeError("")
+            }}
+            disabled={isSubmitting}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="sessionEnd">Fin</Label>
+          <Input
+            id="sessionEnd"
+            type="time"
+            value={endTime}
+            onChange={(e) => {
+              setEndTime(e.target.value)
+              setTimeError("")
+            }}
+            disabled={isSubmitting}
+          />
+        </div>
+      </div>
+      {timeError && <p className="text-sm text-destructive">{timeError}</p>}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+          Annuler
+        </Button>
+        <Button type="submit" disabled={isSubmitting || !groupId || !date || !startTime}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Créer la séance
+        </Button>
+      </DialogFooter>
+    </form>
+  )
+}
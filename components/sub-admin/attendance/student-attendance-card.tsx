@@ -0,0 +1,81 @@
+"use client"
+
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ClipboardCheck, FileText } from "lucide-react"
+import { ATTENDANCE_STATUS_LABELS, ATTENDANCE_STATUS_VARIANTS } from "./format"
+import type { AttendanceHistoryEntry, AttendanceSummary } from "./types"
+
+interface StudentAttendanceCardProps {
+  summary: AttendanceSummary
+  records: AttendanceHistoryEntry[]
+}
+
+// A student's absence rate and attendance history, latest session first
+export function StudentAttendanceCard({ summary, records }: StudentAttendanceCardProps) {
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Présences
+            </CardTitle>
+            <CardDescription>
+              {summary.total} séance{summary.total > 1 ? "s" : ""} · {summary.absent + summary.excused} absence
+              {summary.absent + summary.excused > 1 ? "s" : ""} dont {summary.unjustified} non justifiée
+              {summary.unjustified > 1 ? "s" : ""} · {summary.late} retard{summary.late > 1 ? "s" : ""}
+            </CardDescription>
+          </div>
+          <div className="text-right">
+            <p className={`text-2xl font-bold ${summary.absenceRate >= 20 ? "text-destructive" : "text-primary"}`}>
+              {summary.absenceRate}%
+            </p>
+            <p className="text-xs text-muted-foreground">d'absence</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {records.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Aucune séance enregistrée</div>
+        ) : (
+          <div className="divide-y divide-border rounded-md border border-border max-h-96 overflow-auto">
+            {records.map((record) => (
+              <div key={record.id} className="flex flex-col gap-1 p-3 text-sm sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <Link href={`/sous-admin/attendance/${record.sessionId}`} className="font-medium hover:underline">
+                    {new Date(record.startsAt).toLocaleDateString("fr-FR")}
+                  </Link>
+                  <span className="text-muted-foreground">
+                    {" "}
+                    · {record.groupName}
+                    {record.courseTitle && ` · ${record.courseTitle}`}
+                  </span>
+                  {record.justification && <p className="text-muted-foreground">{record.justification}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  {record.documentUrl && (
+                    <a
+                      href={record.documentUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-muted-foreground hover:text-foreground"
+                      title="Justificatif"
+                    >
+                      <FileText className="h-4 w-4" />
+                    </a>
+                  )}
+                  <Badge variant={ATTENDANCE_STATUS_VARIANTS[record.status]}>
+                    {ATTENDANCE_STATUS_LABELS[record.status]}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
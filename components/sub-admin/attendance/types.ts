@@ -0,0 +1,70 @@
+import type { AttendanceStatus } from "@/lib/schemas/attendance"
+
+export interface ClassSession {
+  id: number
+  startsAt: string
+  endsAt: string | null
+  groupId: number
+  groupName: string
+  schoolId: number
+  schoolName: string
+  courseId: number | null
+  courseTitle: string | null
+  trainerId: number | null
+  trainerName: string | null
+  recordedCount: number
+  presentCount: number
+  absentCount: number
+  lateCount: number
+  excusedCount: number
+  checkedInCount: number
+  checkInOpensAt: string | null
+  checkInClosesAt: string | null
+  checkInAllowedIps: string[]
+}
+
+export interface RosterEntry {
+  studentId: number
+  name: string
+  email: string
+  avatarUrl: string | null
+  recordId: number | null
+  status: AttendanceStatus | null
+  justification: string | null
+  documentUrl: string | null
+  recordedAt: string | null
+  checkedInAt: string | null
+}
+
+export interface AttendanceEntry {
+  status: AttendanceStatus
+  justification: string
+  documentUrl: string | null
+}
+
+export interface AttendanceSummary {
+  total: number
+  present: number
+  absent: number
+  late: number
+  excused: number
+  unjustified: number
+  absenceRate: number
+}
+
+export interface AttendanceHistoryEntry {
+  id: number
+  sessionId: number
+  startsAt: Date | string
+  groupName: string
+  courseTitle: string | null
+  status: AttendanceStatus
+  justification: string | null
+  documentUrl: string | null
+}
+
+export interface SessionFormOptions {
+  groups: Array<{ id: number; name: string; schoolName: string }>
+  courses: Array<{ id: number; title: string }>
+  trainers: Array<{ id: number; name: string }>
+}
@@ -0,0 +1,5 @@
+export { NotesManagement } from "./notes-management"
+export { NotesTimeline } from "./notes-timeline"
+export { StudentNotesCard } from "./student-notes-card"
+export { STUDENT_NOTE_CATEGORY_LABELS, STUDENT_NOTE_CATEGORY_VARIANTS, STUDENT_NOTE_VISIBILITY_LABELS } from "./labels"
+export type { NoteFormData, StudentNote } from "./types"
@@ -0,0 +1,18 @@
+import type { StudentNoteCategory, StudentNoteVisibility } from "@/lib/schemas/student-note"
+
+export const STUDENT_NOTE_CATEGORY_LABELS: Record<StudentNoteCategory, string> = {
+  behaviour: "Comportement",
+  academic: "Pédagogique",
+  administrative: "Administratif",
+}
+
+export const STUDENT_NOTE_VISIBILITY_LABELS: Record<StudentNoteVisibility, string> = {
+  staff: "Équipe uniquement",
+  student: "Partagée avec l'étudiant",
+}
+
+export const STUDENT_NOTE_CATEGORY_VARIANTS: Record<StudentNoteCategory, "default" | "secondary" | "outline"> = {
+  behaviour: "default",
+  academic: "secondary",
+  administrative: "outline",
+}
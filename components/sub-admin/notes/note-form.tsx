@@ -0,0 +1,162 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DialogFooter } from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import {
+  STUDENT_NOTE_CATEGORIES,
+  STUDENT_NOTE_VISIBILITIES,
+  type StudentNoteCategory,
+  type StudentNoteVisibility,
+} from "@/lib/schemas/student-note"
+import { STUDENT_NOTE_CATEGORY_LABELS, STUDENT_NOTE_VISIBILITY_LABELS } from "./labels"
+import type { NoteFormData } from "./types"
+
+interface NoteFormProps {
+  initialData?: NoteFormData
+  courses: Array<{ id: number; title: string }>
+  // Shown when the note is not written from a student's page
+  students?: Array<{ id: number; name: string }>
+  onSubmit: (data: NoteFormData, studentId: number | null) => Promise<void>
+  onClose: () => void
+  isSubmitting: boolean
+}
+
+const NONE = "none"
+
+export function NoteForm({ initialData, courses, students, onSubmit, onClose, isSubmitting }: NoteFormProps) {
+  const [studentId, setStudentId] = useState("")
+  const [category, setCategory] = useState<StudentNoteCategory>(initialData?.category ?? "academic")
+  const [visibility, setVisibility] = useState<StudentNoteVisibility>(initialData?.visibility ?? "staff")
+  const [courseId, setCourseId] = useState(initialData?.courseId ? initialData.courseId.toString() : NONE)
+  const [content, setContent] = useState(initialData?.content ?? "")
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!content.trim() || (students && !studentId)) return
+
+    try {
+      await onSubmit(
+        { category, visibility, courseId: courseId === NONE ? null : Number(courseId), content: content.trim() },
+        students ? Number(studentId) : null
+      )
+    } catch {
+      // Error is handled in parent component
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {students && (
+        <div className="space-y-2">
+          <Label>
+            Étudiant <span className="text-destructive">*</span>
+          </Label>
+          <Select value={studentId} onValueChange={setStudentId} disabled={isSubmitting}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choisir un étudiant" />
+            </SelectTrigger>
+            <SelectContent>
+              {students.map((student) => (
+                <SelectItem key={student.id} value={student.id.toString()}>
+                  {student.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Catégorie</Label>
+          <Select
+            value={category}
+            onValueChange={(value) => setCategory(value as StudentNoteCategory)}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STUDENT_NOTE_CATEGORIES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {STUDENT_NOTE_CATEGORY_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Visibilité</Label>
+          <Select
+            value={visibility}
+            onValueChange={(value) => setVisibility(value as StudentNoteVisibility)}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STUDENT_NOTE_VISIBILITIES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {STUDENT_NOTE_VISIBILITY_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Cours</Label>
+        <Select value={courseId} onValueChange={setCourseId} disabled={isSubmitting}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Aucun cours en particulier</SelectItem>
+            {courses.map((course) => (
+              <SelectItem key={course.id} value={course.id.toString()}>
+                {course.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="noteContent">
+          Note <span className="text-destructive">*</span>
+        </Label>
+        <Textarea
+          id="noteContent"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder="Observation, suivi, échange avec la famille..."
+          rows={5}
+          maxLength={5000}
+          disabled={isSubmitting}
+        />
+        {visibility === "student" && (
+          <p className="text-xs text-muted-foreground">L'étudiant verra cette note et en sera notifié</p>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+          Annuler
+        </Button>
+        <Button type="submit" disabled={isSubmitting || !content.trim() || (!!students && !studentId)}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {initialData ? "Mettre à jour" : "Ajouter la note"}
+        </Button>
+      </DialogFooter>
+    </form>
+  )
+}
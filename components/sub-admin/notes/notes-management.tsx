@@ -0,0 +1,149 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Loader2, Plus, Search } from "lucide-react"
+import { STUDENT_NOTE_CATEGORIES, STUDENT_NOTE_VISIBILITIES } from "@/lib/schemas/student-note"
+import { STUDENT_NOTE_CATEGORY_LABELS, STUDENT_NOTE_VISIBILITY_LABELS } from "./labels"
+import { NoteForm } from "./note-form"
+import { NotesTimeline } from "./notes-timeline"
+import { useStudentNotes } from "./use-student-notes"
+
+interface NotesManagementProps {
+  currentUserId: number
+  schools: Array<{ id: number; name: string }>
+  students: Array<{ id: number; name: string }>
+  courses: Array<{ id: number; title: string }>
+}
+
+const ALL = "all"
+
+// Every note about the students of the sub-admin's schools, with search
+export function NotesManagement({ currentUserId, schools, students, courses }: NotesManagementProps) {
+  const [search, setSearch] = useState("")
+  const [schoolId, setSchoolId] = useState(ALL)
+  const [category, setCategory] = useState(ALL)
+  const [visibility, setVisibility] = useState(ALL)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const { notes, isLoading, isSaving, createNote, updateNote, deleteNote } = useStudentNotes({
+    schoolId,
+    category,
+    visibility,
+    search,
+  })
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Notes</CardTitle>
+            <CardDescription>Observations et suivi des étudiants de vos établissements</CardDescription>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={students.length === 0}>
+                <Plus className="mr-2 h-4 w-4" />
+                Ajouter une note
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg">
+              <DialogHeader>
+                <DialogTitle>Nouvelle note</DialogTitle>
+                <DialogDescription>Visible par l'équipe, ou partagée avec l'étudiant</DialogDescription>
+              </DialogHeader>
+              <NoteForm
+                courses={courses}
+                students={students}
+                onSubmit={async (data, studentId) => {
+                  if (!studentId) return
+                  await createNote(studentId, data)
+                  setIsDialogOpen(false)
+                }}
+                onClose={() => setIsDialogOpen(false)}
+                isSubmitting={isSaving}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col sm:flex-row gap-4 mb-6">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Rechercher dans les notes ou par étudiant..."
+              className="pl-9"
+              maxLength={100}
+            />
+          </div>
+          {schools.length > 1 && (
+            <Select value={schoolId} onValueChange={setSchoolId}>
+              <SelectTrigger className="w-full sm:w-48">
+                <SelectValue placeholder="Établissement" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Tous les établissements</SelectItem>
+                {schools.map((school) => (
+                  <SelectItem key={school.id} value={school.id.toString()}>
+                    {school.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="w-full sm:w-44">
+              <SelectValue placeholder="Catégorie" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Toutes catégories</SelectItem>
+              {STUDENT_NOTE_CATEGORIES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {STUDENT_NOTE_CATEGORY_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={visibility} onValueChange={setVisibility}>
+            <SelectTrigger className="w-full sm:w-52">
+              <SelectValue placeholder="Visibilité" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Toutes visibilités</SelectItem>
+              {STUDENT_NOTE_VISIBILITIES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {STUDENT_NOTE_VISIBILITY_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading && notes.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : notes.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Aucune note</div>
+        ) : (
+          <NotesTimeline
+            notes={notes}
+            currentUserId={currentUserId}
+            courses={courses}
+            showStudent
+            isSaving={isSaving}
+            onUpdate={updateNote}
+            onDelete={deleteNote}
+          />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
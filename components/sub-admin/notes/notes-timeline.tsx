@@ -0,0 +1,134 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { DeleteConfirmDialog } from "@/components/ui/delete-confirm-dialog"
+import { Edit, Eye, Trash2 } from "lucide-react"
+import { NoteForm } from "./note-form"
+import { STUDENT_NOTE_CATEGORY_LABELS, STUDENT_NOTE_CATEGORY_VARIANTS } from "./labels"
+import type { NoteFormData, StudentNote } from "./types"
+
+interface NotesTimelineProps {
+  notes: StudentNote[]
+  currentUserId: number
+  courses: Array<{ id: number; title: string }>
+  // Whether to name the student on each note, outside a student's page
+  showStudent?: boolean
+  isSaving: boolean
+  onUpdate: (id: number, data: NoteFormData) => Promise<void>
+  onDelete: (id: number) => Promise<void>
+}
+
+// Notes latest first; only their author may edit or delete them
+export function NotesTimeline({
+  notes,
+  currentUserId,
+  courses,
+  showStudent = false,
+  isSaving,
+  onUpdate,
+  onDelete,
+}: NotesTimelineProps) {
+  const [editing, setEditing] = useState<StudentNote | null>(null)
+  const [deleting, setDeleting] = useState<StudentNote | null>(null)
+
+  return (
+    <>
+      <ol className="relative space-y-4 border-l border-border pl-6">
+        {notes.map((note) => (
+          <li key={note.id} className="relative">
+            <span className="absolute -left-[1.85rem] top-1.5 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+            <div className="space-y-2 rounded-lg bg-muted/30 p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  {showStudent && (
+                    <Link href={`/sous-admin/students/${note.studentId}`} className="font-medium hover:underline">
+                      {note.studentName}
+                    </Link>
+                  )}
+                  <Badge variant={STUDENT_NOTE_CATEGORY_VARIANTS[note.category]}>
+                    {STUDENT_NOTE_CATEGORY_LABELS[note.category]}
+                  </Badge>
+                  {note.visibility === "student" && (
+                    <Badge variant="outline" className="gap-1">
+                      <Eye className="h-3 w-3" />
+                      Partagée
+                    </Badge>
+                  )}
+                  {note.courseTitle && <span className="text-sm text-muted-foreground">{note.courseTitle}</span>}
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(note.createdAt).toLocaleString("fr-FR", { dateStyle: "medium", timeStyle: "short" })}
+                  </span>
+                  {note.authorId === currentUserId && (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => setEditing(note)} disabled={isSaving}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => setDeleting(note)}
+                        disabled={isSaving}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+              <p className="whitespace-pre-wrap text-sm">{note.content}</p>
+              <p className="text-xs text-muted-foreground">
+                Par {note.authorName ?? "un ancien membre de l'équipe"}
+                {note.updatedAt !== note.createdAt && " · modifiée"}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Modifier la note</DialogTitle>
+            <DialogDescription>{editing?.studentName}</DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <NoteForm
+              initialData={{
+                courseId: editing.courseId,
+                category: editing.category,
+                visibility: editing.visibility,
+                content: editing.content,
+              }}
+              courses={courses}
+              onSubmit={async (data) => {
+                await onUpdate(editing.id, data)
+                setEditing(null)
+              }}
+              onClose={() => setEditing(null)}
+              isSubmitting={isSaving}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        onConfirm={async () => {
+          if (deleting) {
+            await onDelete(deleting.id).catch(() => undefined)
+          }
+          setDeleting(null)
+        }}
+        description="La note sera définitivement supprimée."
+      />
+    </>
+  )
+}
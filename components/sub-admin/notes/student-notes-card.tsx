@@ -0,0 +1,81 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { FileText, Loader2, Plus } from "lucide-react"
+import { NoteForm } from "./note-form"
+import { NotesTimeline } from "./notes-timeline"
+import { useStudentNotes } from "./use-student-notes"
+
+interface StudentNotesCardProps {
+  studentId: number
+  studentName: string
+  currentUserId: number
+  // The student's courses, to attach a note to one of them
+  courses: Array<{ id: number; title: string }>
+}
+
+// Timeline of the notes about one student, on their detail page
+export function StudentNotesCard({ studentId, studentName, currentUserId, courses }: StudentNotesCardProps) {
+  const { notes, isLoading, isSaving, createNote, updateNote, deleteNote } = useStudentNotes({ studentId })
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Notes
+            </CardTitle>
+            <CardDescription>Observations et suivi de l'étudiant</CardDescription>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Plus className="h-4 w-4 mr-2" />
+                Ajouter une note
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg">
+              <DialogHeader>
+                <DialogTitle>Nouvelle note</DialogTitle>
+                <DialogDescription>{studentName}</DialogDescription>
+              </DialogHeader>
+              <NoteForm
+                courses={courses}
+                onSubmit={async (data) => {
+                  await createNote(studentId, data)
+                  setIsDialogOpen(false)
+                }}
+                onClose={() => setIsDialogOpen(false)}
+                isSubmitting={isSaving}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading && notes.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : notes.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Aucune note pour cet étudiant</div>
+        ) : (
+          <NotesTimeline
+            notes={notes}
+            currentUserId={currentUserId}
+            courses={courses}
+            isSaving={isSaving}
+            onUpdate={updateNote}
+            onDelete={deleteNote}
+          />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,33 @@
+import type { StudentNoteCategory, StudentNoteVisibility } from "@/lib/schemas/student-note"
+
+export interface StudentNote {
+  id: number
+  studentId: number
+  studentName: string
+  studentEmail: string
+  schoolId: number | null
+  courseId: number | null
+  courseTitle: string | null
+  authorId: number | null
+  authorName: string | null
+  category: StudentNoteCategory
+  visibility: StudentNoteVisibility
+  content: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface NoteFormData {
+  courseId: number | null
+  category: StudentNoteCategory
+  visibility: StudentNoteVisibility
+  content: string
+}
+
+export interface StudentNoteFilters {
+  studentId?: number
+  schoolId?: string
+  category?: string
+  visibility?: string
+  search?: string
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import type { NoteFormData, StudentNote, StudentNoteFilters } from "./types"
+
+const ALL = "all"
+
+// Send a change to the API and surface the outcome as a toast
+async function send(url: string, method: string, body: unknown, fallbackError: string) {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError)
+  }
+  return data
+}
+
+// Notes matching the filters, refetched whenever they change or a note is saved
+export function useStudentNotes(filters: StudentNoteFilters) {
+  const [notes, setNotes] = useState<StudentNote[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const { studentId, schoolId, category, visibility, search } = filters
+
+  const fetchNotes = useCallback(async () => {
+    const params = new URLSearchParams()
+    if (studentId) params.set("studentId", studentId.toString())
+    if (schoolId && schoolId !== ALL) params.set("schoolId", schoolId)
+    if (category && category !== ALL) params.set("category", category)
+    if (visibility && visibility !== ALL) params.set("visibility", visibility)
+    if (search?.trim()) params.set("search", search.trim())
+
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/student-notes?${params}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors du chargement des notes")
+      }
+
+      setNotes(data.notes ?? [])
+    } catch (error) {
+      console.error("Error fetching student notes:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors du chargement des notes")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [studentId, schoolId, category, visibility, search])
+
+  useEffect(() => {
+    // Debounce so the search does not hit the API on every keystroke
+    const timeout = setTimeout(fetchNotes, 300)
+    return () => clearTimeout(timeout)
+  }, [fetchNotes])
+
+  const mutate = async (url: string, method: string, body: unknown, fallbackError: string) => {
+    setIsSaving(true)
+    try {
+      const data = await send(url, method, body, fallbackError)
+      toast.success(data.message)
+      await fetchNotes()
+    } catch (error) {
+      console.error("Error saving student note:", error)
+      toast.error(error instanceof Error ? error.message : fallbackError)
+      throw error
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return {
+    notes,
+    isLoading,
+    isSaving,
+    createNote: (studentId: number, data: NoteFormData) =>
+      mutate("/api/student-notes", "POST", { studentId, ...data }, "Erreur lors de l'ajout de la note"),
+    updateNote: (id: number, data: NoteFormData) =>
+      mutate(`/api/student-notes/${id}`, "PATCH", data, "Erreur lors de la mise à jour de la note"),
+    deleteNote: (id: number) =>
+      mutate(`/api/student-notes/${id}`, "DELETE", undefined, "Erreur lors de la suppression de la note"),
+  }
+}
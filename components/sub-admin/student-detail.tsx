@@ -0,0 +1,135 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { ArrowLeft, BookOpen, Mail, Phone, Plus } from "lucide-react"
+import { CourseEnrollmentDialog } from "@/components/admin/course-enrollment-dialog"
+import { UserSchoolCard } from "@/components/admin/user-school-card"
+import { StudentAttendanceCard, type AttendanceHistoryEntry, type AttendanceSummary } from "./attendance"
+import { StudentNotesCard } from "./notes"
+import type { SchoolStudent, StudentCourseProgress } from "./types"
+
+interface StudentDetailProps {
+  student: SchoolStudent
+  courses: StudentCourseProgress[]
+  attendance: { summary: AttendanceSummary; records: AttendanceHistoryEntry[] } | null
+  currentUserId: number
+}
+
+export function StudentDetail({ student, courses, attendance, currentUserId }: StudentDetailProps) {
+  const router = useRouter()
+  const [isEnrollDialogOpen, setIsEnrollDialogOpen] = useState(false)
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" asChild>
+        <Link href="/sous-admin/students">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Étudiants
+        </Link>
+      </Button>
+
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>{student.name}</CardTitle>
+              <CardDescription>
+                {student.schoolName}
+                {student.groupName && ` · ${student.groupName}`}
+              </CardDescription>
+            </div>
+            <Badge variant={student.isActive ? "default" : "secondary"}>{student.isActive ? "Actif" : "Inactif"}</Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <p className="flex items-center gap-2">
+            <Mail className="h-4 w-4 text-muted-foreground" />
+            {student.email}
+          </p>
+          {student.phone && (
+            <p className="flex items-center gap-2">
+              <Phone className="h-4 w-4 text-muted-foreground" />
+              {student.phone}
+            </p>
+          )}
+          <p className="text-muted-foreground">
+            Dernière connexion :{" "}
+            {student.lastLoginAt ? new Date(student.lastLoginAt).toLocaleString("fr-FR") : "jamais"}
+          </p>
+        </CardContent>
+      </Card>
+
+      <UserSchoolCard userId={student.id.toString()} schoolId={student.schoolId} groupId={student.groupId} />
+
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <BookOpen className="h-5 w-5" />
+                Cours
+              </CardTitle>
+              <CardDescription>Cours suivis et progression par chapitre</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setIsEnrollDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Inscrire à un cours
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {courses.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Aucune inscription</div>
+          ) : (
+            <div className="space-y-4">
+              {courses.map((course) => {
+                const progress =
+                  course.totalChapters > 0 ? Math.round((course.completedChapters / course.totalChapters) * 100) : 0
+                return (
+                  <div key={course.enrollmentId} className="space-y-2 p-4 rounded-lg bg-muted/30">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium">{course.courseTitle}</p>
+                      {course.completedAt ? (
+                        <Badge variant="secondary">Terminé</Badge>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">
+                          Inscrit le {new Date(course.enrolledAt).toLocaleDateString("fr-FR")}
+                        </span>
+                      )}
+                    </div>
+                    <Progress value={progress} />
+                    <p className="text-xs text-muted-foreground">
+                      {course.completedChapters} / {course.totalChapters} chapitres · {progress}%
+                    </p>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {attendance && <StudentAttendanceCard summary={attendance.summary} records={attendance.records} />}
+
+      <StudentNotesCard
+        studentId={student.id}
+        studentName={student.name}
+        currentUserId={currentUserId}
+        courses={courses.map((course) => ({ id: course.courseId, title: course.courseTitle }))}
+      />
+
+      <CourseEnrollmentDialog
+        userId={student.id}
+        open={isEnrollDialogOpen}
+        onOpenChange={setIsEnrollDialogOpen}
+        onEnrollmentComplete={() => router.refresh()}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Eye, Loader2, Search } from "lucide-react"
+import { toast } from "sonner"
+import { GroupManager, useSchools } from "@/components/schools"
+import type { SchoolStudent } from "./types"
+
+const ALL = "all"
+
+// Students of the sub-admin's schools, with the groups they are organized in
+export function StudentsManagement() {
+  const { schools, isLoading: schoolsLoading, isSaving, createGroup, updateGroup, deleteGroup } = useSchools()
+  const [students, setStudents] = useState<SchoolStudent[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [schoolId, setSchoolId] = useState(ALL)
+  const [groupId, setGroupId] = useState(ALL)
+  const [search, setSearch] = useState("")
+
+  const fetchStudents = useCallback(async () => {
+    const params = new URLSearchParams()
+    if (schoolId !== ALL) params.set("schoolId", schoolId)
+    if (groupId !== ALL) params.set("groupId", groupId)
+    if (search.trim()) params.set("search", search.trim())
+
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/students?${params}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors du chargement des étudiants")
+      }
+
+      setStudents(data.students ?? [])
+    } catch (error) {
+      console.error("Error fetching students:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors du chargement des étudiants")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [schoolId, groupId, search])
+
+  // Debounce the search so that typing does not fire a request per key
+  useEffect(() => {
+    const timeout = setTimeout(fetchStudents, 300)
+    return () => clearTimeout(timeout)
+  }, [fetchStudents])
+
+  // A sub-admin with a single school filters its groups directly
+  const selectedSchool = schools.length === 1 ? schools[0] : schools.find((school) => school.id.toString() === schoolId)
+  const groups = selectedSchool?.groups ?? []
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <CardTitle>Étudiants</CardTitle>
+          <CardDescription>Étudiants rattachés à vos établissements</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row gap-4 mb-6">
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Rechercher par nom ou email..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            {schools.length > 1 && (
+              <Select
+                value={schoolId}
+                onValueChange={(value) => {
+                  setSchoolId(value)
+                  setGroupId(ALL)
+                }}
+              >
+                <SelectTrigger className="w-full sm:w-48">
+                  <SelectValue placeholder="Établissement" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Tous les établissements</SelectItem>
+                  {schools.map((school) => (
+                    <SelectItem key={school.id} value={school.id.toString()}>
+                      {school.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={groupId} onValueChange={setGroupId}>
+              <SelectTrigger className="w-full sm:w-48">
+                <SelectValue placeholder="Groupe" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Tous les groupes</SelectItem>
+                {groups.map((group) => (
+                  <SelectItem key={group.id} value={group.id.toString()}>
+                    {group.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : students.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Aucun étudiant trouvé</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Étudiant</TableHead>
+                  <TableHead>Établissement</TableHead>
+                  <TableHead>Groupe</TableHead>
+                  <TableHead>Cours terminés</TableHead>
+                  <TableHead>Dernière connexion</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {students.map((student) => (
+                  <TableRow key={student.id}>
+                    <TableCell>
+                      <div className="font-medium">{student.name}</div>
+                      <div className="text-sm text-muted-foreground">{student.email}</div>
+                    </TableCell>
+                    <TableCell>{student.schoolName}</TableCell>
+                    <TableCell>
+                      {student.groupName ?? <span className="text-muted-foreground">Sans groupe</span>}
+                    </TableCell>
+                    <TableCell>
+                      {student.completedCount} / {student.enrollmentCount}
+                    </TableCell>
+                    <TableCell>
+                      {student.lastLoginAt ? (
+                        new Date(student.lastLoginAt).toLocaleDateString("fr-FR")
+                      ) : (
+                        <Badge variant="secondary">Jamais</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link href={`/sous-admin/students/${student.id}`}>
+                          <Eye className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {!schoolsLoading &&
+        schools.map((school) => (
+          <Card key={school.id} className="border-border bg-card">
+            <CardHeader>
+              <CardTitle className="text-lg">{school.name}</CardTitle>
+              <CardDescription>
+                {school.studentCount} étudiant{school.studentCount > 1 ? "s" : ""}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <GroupManager
+                school={school}
+                isSaving={isSaving}
+                onCreate={createGroup}
+                onUpdate={updateGroup}
+                onDelete={async (id) => {
+                  await deleteGroup(id)
+                  await fetchStudents()
+                }}
+              />
+            </CardContent>
+          </Card>
+        ))}
+    </div>
+  )
+}
@@ -1,123 +1,113 @@
 "use client"
 
+import type React from "react"
 import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
-import { Textarea } from "@/components/ui/textarea"
-import { Users, BookOpen, BarChart3, FileText, UserPlus, TrendingUp, Clock } from "lucide-react"
-import type { User } from "@/lib/auth/auth"
+import { Users, Activity, Award, BarChart3, FileText, UserPlus, TrendingUp, Clock, Loader2, ClipboardCheck } from "lucide-react"
+import { toast } from "sonner"
+import { ATTENDANCE_STATUS_LABELS, ATTENDANCE_STATUS_VARIANTS } from "./attendance"
+import { STUDENT_NOTE_CATEGORY_LABELS, STUDENT_NOTE_CATEGORY_VARIANTS } from "./notes"
+import type { LocalAnalyticsData } from "./analytics"
+import type {
+  AttendanceOverview,
+  EnrollableCourse,
+  EnrollableStudent,
+  RecentStudentNote,
+  SchoolsOverview,
+  SubAdminSchool,
+} from "./types"
 
 interface SubAdminDashboardProps {
-  user: User
+  schools: SubAdminSchool[]
+  overview: SchoolsOverview | null
+  attendance: AttendanceOverview | null
+  // KPIs of the last 30 days
+  recentActivity: LocalAnalyticsData["summary"] | null
+  students: EnrollableStudent[]
+  courses: EnrollableCourse[]
+  notes: RecentStudentNote[]
 }
 
-interface Enrollment {
-  id: number
-  studentName: string
-  courseName: string
-  enrolledDate: string
-  status: "active" | "completed" | "pending"
-}
-
-interface Absence {
-  id: number
-  studentName: string
-  date: string
-  reason: string
-  status: "justified" | "unjustified"
-}
-
-interface Note {
-  id: number
-  studentName: string
-  content: string
-  createdAt: string
-  author: string
-}
+export function SubAdminDashboard({
+  schools,
+  overview,
+  attendance,
+  recentActivity,
+  students,
+  courses,
+  notes,
+}: SubAdminDashboardProps) {
+  const router = useRouter()
+  const [studentId, setStudentId] = useState("")
+  const [courseId, setCourseId] = useState("")
+  const [isEnrolling, setIsEnrolling] = useState(false)
 
-export function SubAdminDashboard({ user }: SubAdminDashboardProps) {
-  // Mock data - replace with real data from database
+  const totalEnrollments = overview?.totalEnrollments ?? 0
+  const completedEnrollments = overview?.completedEnrollments ?? 0
   const stats = {
-    totalStudents: 45,
-    activeEnrollments: 38,
-    completionRate: 76,
-    pendingAbsences: 3,
+    totalStudents: overview?.totalStudents ?? 0,
+    activeStudents: recentActivity?.activeStudents ?? 0,
+    averageQuizScore: recentActivity?.averageQuizScore ?? null,
+    completionRate: totalEnrollments > 0 ? Math.round((completedEnrollments / totalEnrollments) * 100) : 0,
+    unjustifiedAbsences: attendance?.summary.unjustified ?? 0,
+    absenceRate: attendance?.summary.absenceRate ?? 0,
   }
+  const schoolLabel =
+    schools.length === 0
+      ? "aucun établissement attribué"
+      : schools.length === 1
+        ? `à ${schools[0].name}`
+        : `dans vos ${schools.length} établissements`
 
-  const [recentEnrollments] = useState<Enrollment[]>([
-    {
-      id: 1,
-      studentName: "Marie Dupont",
-      courseName: "Introduction à React",
-      enrolledDate: "2025-01-15",
-      status: "active",
-    },
-    {
-      id: 2,
-      studentName: "Pierre Bernard",
-      courseName: "Marketing Digital",
-      enrolledDate: "2025-01-14",
-      status: "active",
-    },
-    {
-      id: 3,
-      studentName: "Sophie Martin",
-      courseName: "Design UX/UI",
-      enrolledDate: "2025-01-13",
-      status: "pending",
-    },
-  ])
+  const handleEnroll = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!studentId || !courseId) return
 
-  const [absences] = useState<Absence[]>([
-    {
-      id: 1,
-      studentName: "Jean Dubois",
-      date: "2025-01-15",
-      reason: "Maladie",
-      status: "justified",
-    },
-    {
-      id: 2,
-      studentName: "Claire Petit",
-      date: "2025-01-14",
-      reason: "Non spécifié",
-      status: "unjustified",
-    },
-    {
-      id: 3,
-      studentName: "Marc Leroy",
-      date: "2025-01-13",
-      reason: "Rendez-vous médical",
-      status: "justified",
-    },
-  ])
+    setIsEnrolling(true)
+    try {
+      const response = await fetch("/api/enrollments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ studentId: Number(studentId), courseId: Number(courseId) }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Erreur lors de l'inscription")
+      }
 
-  const [notes] = useState<Note[]>([
-    {
-      id: 1,
-      studentName: "Marie Dupont",
-      content: "Excellente participation en classe. Montre un grand intérêt pour le sujet.",
-      createdAt: "2025-01-15",
-      author: user.name,
-    },
-    {
-      id: 2,
-      studentName: "Pierre Bernard",
-      content: "Besoin d'un suivi supplémentaire sur les concepts avancés.",
-      createdAt: "2025-01-14",
-      author: user.name,
-    },
-  ])
+      toast.success(data.message || "Étudiant inscrit avec succès")
+      setStudentId("")
+      setCourseId("")
+      router.refresh()
+    } catch (error) {
+      console.error("Error enrolling student:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors de l'inscription")
+    } finally {
+      setIsEnrolling(false)
+    }
+  }
 
   return (
     <div className="space-y-6">
+      {schools.length === 0 && (
+        <Alert>
+          <AlertDescription>
+            Aucun établissement ne vous est encore attribué. Contactez un administrateur pour être rattaché à votre
+            établissement.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Stats Cards */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
         <Card className="border-border bg-card">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Étudiants</CardTitle>
@@ -125,18 +115,18 @@ export function SubAdminDashboard({ user }: SubAdminDashboardProps) {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.totalStudents}</div>
-            <p className="text-xs text-muted-foreground">dans votre établissement</p>
+            <p className="text-xs text-muted-foreground">{schoolLabel}</p>
           </CardContent>
         </Card>
 
         <Card className="border-border bg-card">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Inscriptions Actives</CardTitle>
-            <BookOpen className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-sm font-medium">Étudiants Actifs</CardTitle>
+            <Activity className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.activeEnrollments}</div>
-            <p className="text-xs text-muted-foreground">cours en cours</p>
+            <div className="text-2xl font-bold">{stats.activeStudents}</div>
+            <p className="text-xs text-muted-foreground">sur les 30 derniers jours</p>
           </CardContent>
         </Card>
 
@@ -147,18 +137,31 @@ export function SubAdminDashboard({ user }: SubAdminDashboardProps) {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.completionRate}%</div>
-            <p className="text-xs text-muted-foreground">moyenne locale</p>
+            <p className="text-xs text-muted-foreground">des inscriptions terminées</p>
+          </CardContent>
+        </Card>
+
+        <Card className="border-border bg-card">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Score Moyen aux Quiz</CardTitle>
+            <Award className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {stats.averageQuizScore === null ? "-" : `${stats.averageQuizScore}%`}
+            </div>
+            <p className="text-xs text-muted-foreground">sur les 30 derniers jours</p>
           </CardContent>
         </Card>
 
         <Card className="border-border bg-card">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Absences en Attente</CardTitle>
+            <CardTitle className="text-sm font-medium">Absences Non Justifiées</CardTitle>
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.pendingAbsences}</div>
-            <p className="text-xs text-muted-foreground">à traiter</p>
+            <div className="text-2xl font-bold">{stats.unjustifiedAbsences}</div>
+            <p className="text-xs text-muted-foreground">taux d'absence : {stats.absenceRate}%</p>
           </CardContent>
         </Card>
       </div>
@@ -171,50 +174,45 @@ export function SubAdminDashboard({ user }: SubAdminDashboardProps) {
               <UserPlus className="h-5 w-5 text-primary" />
               <span>Inscription Manuelle</span>
             </CardTitle>
-            <CardDescription>Inscrire un étudiant à un cours</CardDescription>
+            <CardDescription>Inscrire un étudiant de votre établissement à un cours</CardDescription>
           </CardHeader>
           <CardContent>
-            <form className="space-y-4">
+            <form onSubmit={handleEnroll} className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="student">Étudiant</Label>
-                <Select>
+                <Select value={studentId} onValueChange={setStudentId} disabled={students.length === 0}>
                   <SelectTrigger id="student">
-                    <SelectValue placeholder="Sélectionner un étudiant" />
+                    <SelectValue placeholder={students.length === 0 ? "Aucun étudiant" : "Sélectionner un étudiant"} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="1">Marie Dupont</SelectItem>
-                    <SelectItem value="2">Pierre Bernard</SelectItem>
-                    <SelectItem value="3">Sophie Martin</SelectItem>
-                    <SelectItem value="4">Jean Dubois</SelectItem>
+                    {students.map((student) => (
+                      <SelectItem key={student.id} value={student.id.toString()}>
+                        {student.name}
+                        {student.groupName && ` · ${student.groupName}`}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
 
               <div className="space-y-2">
                 <Label htmlFor="course">Cours</Label>
-                <Select>
+                <Select value={courseId} onValueChange={setCourseId} disabled={courses.length === 0}>
                   <SelectTrigger id="course">
                     <SelectValue placeholder="Sélectionner un cours" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="1">Introduction à React</SelectItem>
-                    <SelectItem value="2">Marketing Digital Avancé</SelectItem>
-                    <SelectItem value="3">Design UX/UI Moderne</SelectItem>
+                    {courses.map((course) => (
+                      <SelectItem key={course.id} value={course.id.toString()}>
+                        {course.title}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="notes">Notes (optionnel)</Label>
-                <Textarea
-                  id="notes"
-                  placeholder="Ajouter des notes sur cette inscription..."
-                  className="resize-none"
-                  rows={3}
-                />
-              </div>
-
-              <Button type="submit" className="w-full">
+              <Button type="submit" className="w-full" disabled={!studentId || !courseId || isEnrolling}>
+                {isEnrolling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Inscrire l'étudiant
               </Button>
             </form>
@@ -228,43 +226,35 @@ export function SubAdminDashboard({ user }: SubAdminDashboardProps) {
               <BarChart3 className="h-5 w-5 text-primary" />
               <span>Analyses Locales</span>
             </CardTitle>
-            <CardDescription>Statistiques de votre établissement</CardDescription>
+            <div className="flex items-center justify-between gap-2">
+              <CardDescription>Progression moyenne de vos étudiants par cours</CardDescription>
+              <Button variant="link" size="sm" className="h-auto p-0" asChild>
+                <Link href="/sous-admin/analytics">Voir les analyses</Link>
+              </Button>
+            </div>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              <div className="flex items-center justify-between p-4 rounded-lg bg-muted/30">
-                <div>
-                  <p className="font-medium">Introduction à React</p>
-                  <p className="text-sm text-muted-foreground">15 étudiants inscrits</p>
-                </div>
-                <div className="text-right">
-                  <p className="text-2xl font-bold text-primary">72%</p>
-                  <p className="text-xs text-muted-foreground">progression</p>
-                </div>
+            {!overview || overview.courses.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Aucune inscription pour le moment</div>
+            ) : (
+              <div className="space-y-4">
+                {overview.courses.map((course) => (
+                  <div key={course.courseId} className="flex items-center justify-between p-4 rounded-lg bg-muted/30">
+                    <div>
+                      <p className="font-medium">{course.courseTitle}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {course.enrolledCount} étudiant{course.enrolledCount > 1 ? "s" : ""} inscrit
+                        {course.enrolledCount > 1 ? "s" : ""}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-2xl font-bold text-primary">{course.averageProgress}%</p>
+                      <p className="text-xs text-muted-foreground">progression</p>
+                    </div>
+                  </div>
+                ))}
               </div>
-
-              <div className="flex items-center justify-between p-4 rounded-lg bg-muted/30">
-                <div>
-                  <p className="font-medium">Marketing Digital</p>
-                  <p className="text-sm text-muted-foreground">12 étudiants inscrits</p>
-                </div>
-                <div className="text-right">
-                  <p className="text-2xl font-bold text-primary">85%</p>
-                  <p className="text-xs text-muted-foreground">progression</p>
-                </div>
-              </div>
-
-              <div className="flex items-center justify-between p-4 rounded-lg bg-muted/30">
-                <div>
-                  <p className="font-medium">Design UX/UI</p>
-                  <p className="text-sm text-muted-foreground">11 étudiants inscrits</p>
-                </div>
-                <div className="text-right">
-                  <p className="text-2xl font-bold text-primary">68%</p>
-                  <p className="text-xs text-muted-foreground">progression</p>
-                </div>
-              </div>
-            </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -272,40 +262,71 @@ export function SubAdminDashboard({ user }: SubAdminDashboardProps) {
       {/* Absence Tracking */}
       <Card className="border-border bg-card">
         <CardHeader>
-          <CardTitle>Suivi des Absences</CardTitle>
-          <CardDescription>Gérer les absences des étudiants</CardDescription>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Suivi des Absences</CardTitle>
+              <CardDescription>Dernières absences et retards relevés lors des appels</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/sous-admin/attendance">
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                Faire l'appel
+              </Link>
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Étudiant</TableHead>
-                <TableHead>Date</TableHead>
-                <TableHead>Raison</TableHead>
-                <TableHead>Statut</TableHead>
-                <TableHead className="text-right">Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {absences.map((absence) => (
-                <TableRow key={absence.id}>
-                  <TableCell className="font-medium">{absence.studentName}</TableCell>
-                  <TableCell>{new Date(absence.date).toLocaleDateString("fr-FR")}</TableCell>
-                  <TableCell>{absence.reason}</TableCell>
-                  <TableCell>
-                    <Badge variant={absence.status === "justified" ? "default" : "destructive"}>
-                      {absence.status === "justified" ? "Justifiée" : "Non justifiée"}
-                    </Badge>
-                  </TableCell>
-                  <TableCell className="text-right">
-                    <Button variant="ghost" size="sm">
-                      Modifier
-                    </Button>
-                  </TableCell>
+          {!attendance || attendance.recentAbsences.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Aucune absence relevée</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Étudiant</TableHead>
+                  <TableHead>Séance</TableHead>
+                  <TableHead>Justification</TableHead>
+                  <TableHead>Statut</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+              </TableHeader>
+              <TableBody>
+                {attendance.recentAbsences.map((absence) => (
+                  <TableRow key={absence.id}>
+                    <TableCell className="font-medium">
+                      <Link href={`/sous-admin/students/${absence.studentId}`} className="hover:underline">
+                        {absence.studentName}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {new Date(absence.startsAt).toLocaleDateString("fr-FR")}
+                      <span className="text-muted-foreground">
+                        {" "}
+                        · {absence.groupName}
+                        {absence.courseTitle && ` · ${absence.courseTitle}`}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {absence.justification || absence.documentUrl ? (
+                        absence.justification || "Justificatif joint"
+                      ) : (
+                        <span className="text-muted-foreground">Non justifiée</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={ATTENDANCE_STATUS_VARIANTS[absence.status]}>
+                        {ATTENDANCE_STATUS_LABELS[absence.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link href={`/sous-admin/attendance/${absence.sessionId}`}>Modifier</Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
 
@@ -320,22 +341,35 @@ export function SubAdminDashboard({ user }: SubAdminDashboardProps) {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {notes.map((note) => (
-              <div key={note.id} className="p-4 rounded-lg bg-muted/30 space-y-2">
-                <div className="flex items-center justify-between">
-                  <p className="font-medium">{note.studentName}</p>
-                  <p className="text-xs text-muted-foreground">
-                    {new Date(note.createdAt).toLocaleDateString("fr-FR")}
-                  </p>
+            {notes.length === 0 ? (
+              <div className="text-center py-4 text-muted-foreground">Aucune note pour le moment</div>
+            ) : (
+              notes.map((note) => (
+                <div key={note.id} className="p-4 rounded-lg bg-muted/30 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Link href={`/sous-admin/students/${note.studentId}`} className="font-medium hover:underline">
+                        {note.studentName}
+                      </Link>
+                      <Badge variant={STUDENT_NOTE_CATEGORY_VARIANTS[note.category]}>
+                        {STUDENT_NOTE_CATEGORY_LABELS[note.category]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(note.createdAt).toLocaleDateString("fr-FR")}
+                    </p>
+                  </div>
+                  <p className="text-sm text-muted-foreground line-clamp-3">{note.content}</p>
+                  {note.authorName && <p className="text-xs text-muted-foreground">Par: {note.authorName}</p>}
                 </div>
-                <p className="text-sm text-muted-foreground">{note.content}</p>
-                <p className="text-xs text-muted-foreground">Par: {note.author}</p>
-              </div>
-            ))}
+              ))
+            )}
 
-            <Button variant="outline" className="w-full">
-              <FileText className="h-4 w-4 mr-2" />
-              Ajouter une note
+            <Button variant="outline" className="w-full" asChild>
+              <Link href="/sous-admin/notes">
+                <FileText className="h-4 w-4 mr-2" />
+                {notes.length === 0 ? "Ajouter une note" : "Voir toutes les notes"}
+              </Link>
             </Button>
           </div>
         </CardContent>
@@ -348,42 +382,34 @@ export function SubAdminDashboard({ user }: SubAdminDashboardProps) {
           <CardDescription>Dernières inscriptions dans votre établissement</CardDescription>
         </CardHeader>
         <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Étudiant</TableHead>
-                <TableHead>Cours</TableHead>
-                <TableHead>Date d'inscription</TableHead>
-                <TableHead>Statut</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {recentEnrollments.map((enrollment) => (
-                <TableRow key={enrollment.id}>
-                  <TableCell className="font-medium">{enrollment.studentName}</TableCell>
-                  <TableCell>{enrollment.courseName}</TableCell>
-                  <TableCell>{new Date(enrollment.enrolledDate).toLocaleDateString("fr-FR")}</TableCell>
-                  <TableCell>
-                    <Badge
-                      variant={
-                        enrollment.status === "active"
-                          ? "default"
-                          : enrollment.status === "completed"
-                            ? "secondary"
-                            : "outline"
-                      }
-                    >
-                      {enrollment.status === "active"
-                        ? "Actif"
-                        : enrollment.status === "completed"
-                          ? "Terminé"
-                          : "En attente"}
-                    </Badge>
-                  </TableCell>
+          {!overview || overview.recentEnrollments.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Aucune inscription pour le moment</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Étudiant</TableHead>
+                  <TableHead>Cours</TableHead>
+                  <TableHead>Date d'inscription</TableHead>
+                  <TableHead>Statut</TableHead>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+              </TableHeader>
+              <TableBody>
+                {overview.recentEnrollments.map((enrollment) => (
+                  <TableRow key={enrollment.id}>
+                    <TableCell className="font-medium">{enrollment.studentName}</TableCell>
+                    <TableCell>{enrollment.courseTitle}</TableCell>
+                    <TableCell>{new Date(enrollment.enrolledAt).toLocaleDateString("fr-FR")}</TableCell>
+                    <TableCell>
+                      <Badge variant={enrollment.completedAt ? "secondary" : "default"}>
+                        {enrollment.completedAt ? "Terminé" : "Actif"}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,94 @@
+import type { AttendanceStatus } from "@/lib/schemas/attendance"
+import type { StudentNoteCategory, StudentNoteVisibility } from "@/lib/schemas/student-note"
+import type { AttendanceSummary } from "./attendance/types"
+
+export interface SubAdminSchool {
+  id: number
+  name: string
+  city: string | null
+}
+
+export interface SchoolsOverview {
+  totalStudents: number
+  totalEnrollments: number
+  completedEnrollments: number
+  recentEnrollments: Array<{
+    id: number
+    studentId: number
+    studentName: string
+    courseTitle: string
+    enrolledAt: Date | string
+    completedAt: Date | string | null
+  }>
+  courses: Array<{
+    courseId: number
+    courseTitle: string
+    enrolledCount: number
+    averageProgress: number
+  }>
+}
+
+export interface EnrollableStudent {
+  id: number
+  name: string
+  groupName: string | null
+}
+
+export interface EnrollableCourse {
+  id: number
+  title: string
+}
+
+export interface SchoolStudent {
+  id: number
+  name: string
+  email: string
+  avatarUrl: string | null
+  phone: string | null
+  isActive: boolean | null
+  lastLoginAt: Date | string | null
+  createdAt: Date | string
+  schoolId: number | null
+  schoolName: string | null
+  groupId: number | null
+  groupName: string | null
+  enrollmentCount: number
+  completedCount: number
+}
+
+export interface StudentCourseProgress {
+  enrollmentId: number
+  courseId: number
+  courseTitle: string
+  enrolledAt: Date | string
+  completedAt: Date | string | null
+  totalChapters: number
+  completedChapters: number
+}
+
+export interface AttendanceOverview {
+  summary: AttendanceSummary
+  recentAbsences: Array<{
+    id: number
+    sessionId: number
+    startsAt: Date | string
+    studentId: number
+    studentName: string
+    groupName: string
+    courseTitle: string | null
+    status: AttendanceStatus
+    justification: string | null
+    documentUrl: string | null
+  }>
+}
+
+export interface RecentStudentNote {
+  id: number
+  studentId: number
+  studentName: string
+  authorName: string | null
+  category: StudentNoteCategory
+  visibility: StudentNoteVisibility
+  content: string
+  createdAt: Date | string
+}
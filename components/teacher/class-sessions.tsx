@@ -0,0 +1,65 @@
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { QrCode } from "lucide-react"
+import { formatSessionTime, type ClassSession } from "@/components/sub-admin/attendance"
+
+interface TeacherClassSessionsProps {
+  sessions: Array<Pick<ClassSession, "id" | "groupName" | "schoolName" | "courseTitle" | "checkedInCount"> & {
+    startsAt: Date | string
+    endsAt: Date | string | null
+  }>
+}
+
+// Upcoming in-person sessions of the trainer, each with its check-in QR code
+export function TeacherClassSessions({ sessions }: TeacherClassSessionsProps) {
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <CardTitle>Séances en présentiel</CardTitle>
+        <CardDescription>Projetez le QR code en début de séance pour que vos étudiants émargent</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {sessions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Aucune séance à venir</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Séance</TableHead>
+                <TableHead>Groupe</TableHead>
+                <TableHead>Cours</TableHead>
+                <TableHead>Émargements</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => (
+                <TableRow key={session.id}>
+                  <TableCell className="font-medium">
+                    {formatSessionTime(session)}
+                  </TableCell>
+                  <TableCell>
+                    <div>{session.groupName}</div>
+                    <div className="text-sm text-muted-foreground">{session.schoolName}</div>
+                  </TableCell>
+                  <TableCell>{session.courseTitle ?? <span className="text-muted-foreground">-</span>}</TableCell>
+                  <TableCell>{session.checkedInCount}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" asChild>
+                      <Link href={`/formateur/presences/${session.id}`}>
+                        <QrCode className="h-4 w-4 mr-2" />
+                        Afficher le QR code
+                      </Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useCallback, useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Progress } from "@/components/ui/progress"
@@ -11,77 +11,107 @@ import {
   YAxis,
   CartesianGrid,
   Tooltip,
+  Legend,
   ResponsiveContainer,
-  LineChart,
-  Line,
   PieChart,
   Pie,
   Cell,
 } from "recharts"
-import { TrendingUp, Users, Clock, Award, BookOpen, Target } from "lucide-react"
+import { TrendingUp, TrendingDown, Users, Clock, Target, Loader2 } from "lucide-react"
+import { toast } from "sonner"
 
-export function CourseAnalytics() {
-  const [selectedCourse, setSelectedCourse] = useState("react")
-
-  // Mock analytics data
-  const courseData = {
-    react: {
-      title: "Introduction à React",
-      totalStudents: 45,
-      activeStudents: 38,
-      averageProgress: 68,
-      averageQuizScore: 82,
-      completionRate: 73,
-      averageTimeSpent: 24,
-    },
-    marketing: {
-      title: "Marketing Digital Avancé",
-      totalStudents: 32,
-      activeStudents: 29,
-      averageProgress: 85,
-      averageQuizScore: 89,
-      completionRate: 91,
-      averageTimeSpent: 31,
-    },
-    design: {
-      title: "Design UX/UI Moderne",
-      totalStudents: 28,
-      activeStudents: 22,
-      averageProgress: 42,
-      averageQuizScore: 76,
-      completionRate: 45,
-      averageTimeSpent: 18,
-    },
+interface CourseAnalyticsData {
+  course: { id: number; title: string }
+  summary: {
+    students: number
+    activeStudents: number
+    inactiveStudents: number
+    activityWindowDays: number
+    completedEnrollments: number
+    completionRate: number
+    averageProgress: number
+    medianCompletionDays: number | null
   }
+  funnel: Array<{
+    chapterId: number
+    title: string
+    completed: number
+    completionRate: number
+    dropOff: number
+    dropOffRate: number
+  }>
+  quizzes: Array<{
+    quizId: number
+    title: string
+    chapterTitle: string
+    attempts: number
+    averageScore: number | null
+    passRate: number | null
+  }>
+}
+
+interface CourseAnalyticsProps {
+  courses: Array<{ id: number; title: string }>
+}
+
+// Share of the previous step's students lost at a chapter from which it counts as a drop-off point
+const DROP_OFF_THRESHOLD = 20
+
+const TOOLTIP_STYLE = {
+  backgroundColor: "hsl(var(--card))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "6px",
+}
 
-  const progressData = [
-    { chapter: "Ch. 1", completed: 42, total: 45 },
-    { chapter: "Ch. 2", completed: 39, total: 45 },
-    { chapter: "Ch. 3", completed: 35, total: 45 },
-    { chapter: "Ch. 4", completed: 31, total: 45 },
-    { chapter: "Ch. 5", completed: 28, total: 45 },
-    { chapter: "Ch. 6", completed: 22, total: 45 },
-    { chapter: "Ch. 7", completed: 18, total: 45 },
-    { chapter: "Ch. 8", completed: 12, total: 45 },
-  ]
+export function CourseAnalytics({ courses }: CourseAnalyticsProps) {
+  const [selectedCourse, setSelectedCourse] = useState(courses[0]?.id.toString() ?? "")
+  const [data, setData] = useState<CourseAnalyticsData | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
 
-  const quizScoreData = [
-    { quiz: "Quiz 1", average: 85, passing: 38 },
-    { quiz: "Quiz 2", average: 78, passing: 35 },
-    { quiz: "Quiz 3", average: 82, passing: 31 },
-    { quiz: "Quiz 4", average: 79, passing: 28 },
-    { quiz: "Quiz 5", average: 88, passing: 25 },
-    { quiz: "Quiz 6", average: 84, passing: 20 },
-    { quiz: "Quiz 7", average: 81, passing: 16 },
-  ]
+  const fetchAnalytics = useCallback(async () => {
+    if (!selectedCourse) return
 
-  const engagementData = [
-    { name: "Très engagés", value: 15, color: "#22c55e" },
-    { name: "Moyennement engagés", value: 23, color: "#3b82f6" },
-    { name: "Peu engagés", value: 7, color: "#f59e0b" },
-  ]
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/analytics/courses/${selectedCourse}`)
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Erreur lors du chargement des statistiques")
+      }
 
-  const currentCourse = courseData[selectedCourse as keyof typeof courseData]
+      setData(result)
+    } catch (error) {
+      console.error("Error fetching course analytics:", error)
+      toast.error(error instanceof Error ? error.message : "Erreur lors du chargement des statistiques")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [selectedCourse])
+
+  useEffect(() => {
+    fetchAnalytics()
+  }, [fetchAnalytics])
+
+  const summary = data?.summary
+  const funnel = data?.funnel.map((chapter, index) => ({ ...chapter, label: `Ch. ${index + 1}` })) ?? []
+  const quizzes = data?.quizzes.map((quiz, index) => ({ ...quiz, label: `Quiz ${index + 1}` })) ?? []
+  const dropOffPoints = funnel.filter((chapter) => chapter.dropOff > 0 && chapter.dropOffRate >= DROP_OFF_THRESHOLD)
+  const engagementData = summary
+    ? [
+        { name: "Actifs", value: summary.activeStudents, color: "#10b981" },
+        { name: "Inactifs", value: summary.inactiveStudents, color: "#ef4444" },
+      ]
+    : []
+
+  if (courses.length === 0) {
+    return (
+      <Card className="border-border bg-card">
+        <CardContent className="py-8 text-center text-muted-foreground">
+          Aucun cours à analyser pour le moment
+        </CardContent>
+      </Card>
+    )
+  }
 
   return (
     <div className="space-y-6">
@@ -98,202 +128,223 @@ export function CourseAnalytics() {
                 <SelectValue placeholder="Sélectionner un cours" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="react">Introduction à React</SelectItem>
-                <SelectItem value="marketing">Marketing Digital Avancé</SelectItem>
-                <SelectItem value="design">Design UX/UI Moderne</SelectItem>
+                {courses.map((course) => (
+                  <SelectItem key={course.id} value={course.id.toString()}>
+                    {course.title}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
         </CardHeader>
       </Card>
 
-      {/* Key Metrics */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-6">
-        <Card className="border-border bg-card">
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Étudiants</CardTitle>
-            <Users className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{currentCourse.totalStudents}</div>
-            <p className="text-xs text-muted-foreground">{currentCourse.activeStudents} actifs</p>
-          </CardContent>
-        </Card>
+      {isLoading && !data ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : summary ? (
+        <>
+          {/* Key Metrics */}
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
+            <Card className="border-border bg-card">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Étudiants</CardTitle>
+                <Users className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{summary.students}</div>
+                <p className="text-xs text-muted-foreground">
+                  {summary.activeStudents} actifs ces {summary.activityWindowDays} derniers jours
+                </p>
+              </CardContent>
+            </Card>
 
-        <Card className="border-border bg-card">
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Progression</CardTitle>
-            <TrendingUp className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{currentCourse.averageProgress}%</div>
-            <Progress value={currentCourse.averageProgress} className="mt-2 h-1" />
-          </CardContent>
-        </Card>
+            <Card className="border-border bg-card">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Progression</CardTitle>
+                <TrendingUp className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{summary.averageProgress}%</div>
+                <Progress value={summary.averageProgress} className="mt-2 h-1" />
+              </CardContent>
+            </Card>
 
-        <Card className="border-border bg-card">
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Score Quiz</CardTitle>
-            <Award className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{currentCourse.averageQuizScore}%</div>
-            <p className="text-xs text-muted-foreground">moyenne</p>
-          </CardContent>
-        </Card>
+            <Card className="border-border bg-card">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Taux de Complétion</CardTitle>
+                <Target className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{summary.completionRate}%</div>
+                <p className="text-xs text-muted-foreground">{summary.completedEnrollments} cours terminés</p>
+              </CardContent>
+            </Card>
 
-        <Card className="border-border bg-card">
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Taux de Réussite</CardTitle>
-            <Target className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{currentCourse.completionRate}%</div>
-            <p className="text-xs text-muted-foreground">terminé</p>
-          </CardContent>
-        </Card>
-
-        <Card className="border-border bg-card">
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Temps Moyen</CardTitle>
-            <Clock className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{currentCourse.averageTimeSpent}h</div>
-            <p className="text-xs text-muted-foreground">par étudiant</p>
-          </CardContent>
-        </Card>
-
-        <Card className="border-border bg-card">
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Engagement</CardTitle>
-            <BookOpen className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">84%</div>
-            <p className="text-xs text-muted-foreground">score global</p>
-          </CardContent>
-        </Card>
-      </div>
-
-      <div className="grid gap-6 lg:grid-cols-2">
-        {/* Chapter Progress Chart */}
-        <Card className="border-border bg-card">
-          <CardHeader>
-            <CardTitle>Progression par Chapitre</CardTitle>
-            <CardDescription>Nombre d'étudiants ayant terminé chaque chapitre</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={progressData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="chapter" />
-                <YAxis />
-                <Tooltip />
-                <Bar dataKey="completed" fill="#3b82f6" />
-              </BarChart>
-            </ResponsiveContainer>
-          </CardContent>
-        </Card>
-
-        {/* Quiz Performance Chart */}
-        <Card className="border-border bg-card">
-          <CardHeader>
-            <CardTitle>Performance des Quiz</CardTitle>
-            <CardDescription>Score moyen et nombre de réussites par quiz</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={quizScoreData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="quiz" />
-                <YAxis />
-                <Tooltip />
-                <Line type="monotone" dataKey="average" stroke="#3b82f6" strokeWidth={2} />
-              </LineChart>
-            </ResponsiveContainer>
-          </CardContent>
-        </Card>
+            <Card className="border-border bg-card">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Temps Médian</CardTitle>
+                <Clock className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">
+                  {summary.medianCompletionDays === null ? "-" : `${summary.medianCompletionDays} j`}
+                </div>
+                <p className="text-xs text-muted-foreground">de l'inscription à la complétion</p>
+              </CardContent>
+            </Card>
 
-        {/* Student Engagement */}
-        <Card className="border-border bg-card">
-          <CardHeader>
-            <CardTitle>Engagement des Étudiants</CardTitle>
-            <CardDescription>Répartition du niveau d'engagement</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <PieChart>
-                <Pie
-                  data={engagementData}
-                  cx="50%"
-                  cy="50%"
-                  outerRadius={80}
-                  fill="#8884d8"
-                  dataKey="value"
-                  label={({ name, value }) => `${name}: ${value}`}
-                >
-                  {engagementData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.color} />
-                  ))}
-                </Pie>
-                <Tooltip />
-              </PieChart>
-            </ResponsiveContainer>
-          </CardContent>
-        </Card>
+            <Card className="border-border bg-card">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Points de Décrochage</CardTitle>
+                <TrendingDown className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{dropOffPoints.length}</div>
+                <p className="text-xs text-muted-foreground">chapitres perdant {DROP_OFF_THRESHOLD}% ou plus</p>
+              </CardContent>
+            </Card>
+          </div>
 
-        {/* Detailed Insights */}
-        <Card className="border-border bg-card">
-          <CardHeader>
-            <CardTitle>Insights et Recommandations</CardTitle>
-            <CardDescription>Analyses automatiques de votre cours</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              <div className="flex items-start space-x-3">
-                <div className="w-2 h-2 bg-green-500 rounded-full mt-2"></div>
-                <div>
-                  <p className="text-sm font-medium">Bon taux de rétention</p>
-                  <p className="text-xs text-muted-foreground">
-                    84% des étudiants sont toujours actifs après 3 semaines
-                  </p>
-                </div>
-              </div>
+          <div className="grid gap-6 lg:grid-cols-2">
+            {/* Chapter Funnel */}
+            <Card className="border-border bg-card">
+              <CardHeader>
+                <CardTitle>Entonnoir par Chapitre</CardTitle>
+                <CardDescription>
+                  Étudiants ayant terminé chaque chapitre ; les décrochages sont en rouge
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {funnel.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">Aucun chapitre</div>
+                ) : (
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={funnel}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                      <YAxis allowDecimals={false} stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                      <Tooltip
+                        contentStyle={TOOLTIP_STYLE}
+                        labelFormatter={(_, payload) => payload?.[0]?.payload.title ?? ""}
+                        formatter={(value, _, item) => [
+                          `${value} (${item.payload.completionRate}%) · -${item.payload.dropOff} (${item.payload.dropOffRate}%)`,
+                          "Terminé · Décrochage",
+                        ]}
+                      />
+                      <Bar dataKey="completed" name="Terminé">
+                        {funnel.map((chapter) => (
+                          <Cell
+                            key={chapter.chapterId}
+                            fill={dropOffPoints.includes(chapter) ? "#ef4444" : "#3b82f6"}
+                          />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
+              </CardContent>
+            </Card>
 
-              <div className="flex items-start space-x-3">
-                <div className="w-2 h-2 bg-yellow-500 rounded-full mt-2"></div>
-                <div>
-                  <p className="text-sm font-medium">Difficulté au chapitre 6</p>
-                  <p className="text-xs text-muted-foreground">
-                    Baisse significative de progression - considérez du contenu supplémentaire
-                  </p>
-                </div>
-              </div>
+            {/* Quiz Performance Chart */}
+            <Card className="border-border bg-card">
+              <CardHeader>
+                <CardTitle>Performance des Quiz</CardTitle>
+                <CardDescription>Score moyen et taux de réussite par quiz</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {quizzes.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">Aucun quiz</div>
+                ) : (
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={quizzes}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                      <YAxis domain={[0, 100]} unit="%" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                      <Tooltip
+                        contentStyle={TOOLTIP_STYLE}
+                        labelFormatter={(_, payload) =>
+                          payload?.[0] ? `${payload[0].payload.title} · ${payload[0].payload.attempts} tentative(s)` : ""
+                        }
+                        formatter={(value, name) => [value === null ? "-" : `${value}%`, name]}
+                      />
+                      <Legend />
+                      <Bar dataKey="averageScore" name="Score moyen" fill="#3b82f6" />
+                      <Bar dataKey="passRate" name="Taux de réussite" fill="#10b981" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
+              </CardContent>
+            </Card>
 
-              <div className="flex items-start space-x-3">
-                <div className="w-2 h-2 bg-blue-500 rounded-full mt-2"></div>
-                <div>
-                  <p className="text-sm font-medium">Quiz bien calibrés</p>
-                  <p className="text-xs text-muted-foreground">
-                    Score moyen de 82% indique un bon niveau de difficulté
-                  </p>
-                </div>
-              </div>
+            {/* Student Engagement */}
+            <Card className="border-border bg-card">
+              <CardHeader>
+                <CardTitle>Engagement des Étudiants</CardTitle>
+                <CardDescription>
+                  Actifs : un chapitre terminé ou un quiz soumis ces {summary.activityWindowDays} derniers jours
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {summary.students === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">Aucun étudiant inscrit</div>
+                ) : (
+                  <ResponsiveContainer width="100%" height={300}>
+                    <PieChart>
+                      <Pie
+                        data={engagementData}
+                        cx="50%"
+                        cy="50%"
+                        outerRadius={80}
+                        dataKey="value"
+                        label={({ name, value }) => `${name}: ${value}`}
+                      >
+                        {engagementData.map((entry) => (
+                          <Cell key={entry.name} fill={entry.color} />
+                        ))}
+                      </Pie>
+                      <Tooltip contentStyle={TOOLTIP_STYLE} />
+                    </PieChart>
+                  </ResponsiveContainer>
+                )}
+              </CardContent>
+            </Card>
 
-              <div className="flex items-start space-x-3">
-                <div className="w-2 h-2 bg-red-500 rounded-full mt-2"></div>
-                <div>
-                  <p className="text-sm font-medium">7 étudiants en difficulté</p>
-                  <p className="text-xs text-muted-foreground">
-                    Progression inférieure à 30% - intervention recommandée
-                  </p>
-                </div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+            {/* Drop-off Points */}
+            <Card className="border-border bg-card">
+              <CardHeader>
+                <CardTitle>Points de Décrochage</CardTitle>
+                <CardDescription>Chapitres où la part d'étudiants perdus est la plus forte</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {dropOffPoints.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">Aucun décrochage marqué</div>
+                ) : (
+                  <div className="space-y-4">
+                    {[...dropOffPoints]
+                      .sort((a, b) => b.dropOffRate - a.dropOffRate)
+                      .map((chapter) => (
+                        <div key={chapter.chapterId} className="flex items-start space-x-3">
+                          <div className="w-2 h-2 bg-red-500 rounded-full mt-2"></div>
+                          <div>
+                            <p className="text-sm font-medium">
+                              {chapter.label} · {chapter.title}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {chapter.dropOff} étudiant{chapter.dropOff > 1 ? "s" : ""} perdu
+                              {chapter.dropOff > 1 ? "s" : ""} ({chapter.dropOffRate}% de l'étape précédente)
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      ) : null}
     </div>
   )
 }
@@ -0,0 +1,4 @@
+export { ProjectReviewInbox } from "./project-review-inbox"
+export { SubmissionReviewForm } from "./submission-review-form"
+export { useProjectQueue } from "./use-project-queue"
+export type { PendingSubmission, ReviewDecision, SubmissionReview } from "./types"
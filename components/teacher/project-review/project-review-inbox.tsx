@@ -0,0 +1,110 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Loader2, PenLine } from "lucide-react"
+import { useProjectQueue } from "./use-project-queue"
+import { SubmissionReviewForm } from "./submission-review-form"
+import type { SubmissionReview } from "./types"
+
+export function ProjectReviewInbox() {
+  const { submissions, isLoading, isReviewing, reviewSubmission } = useProjectQueue()
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+
+  const selectedIndex = submissions.findIndex((submission) => submission.id === selectedId)
+  const selectedSubmission = selectedIndex === -1 ? null : submissions[selectedIndex]
+
+  const handleSubmit = async (review: SubmissionReview, openNext: boolean) => {
+    if (!selectedSubmission) return
+
+    // Pick the next submission before the reviewed one leaves the queue
+    const next = submissions[selectedIndex + 1] ?? submissions[selectedIndex - 1] ?? null
+    try {
+      await reviewSubmission(selectedSubmission.id, review)
+      setSelectedId(openNext && next ? next.id : null)
+    } catch {
+      // Error already surfaced by the hook
+    }
+  }
+
+  if (selectedSubmission) {
+    return (
+      <SubmissionReviewForm
+        key={selectedSubmission.id}
+        submission={selectedSubmission}
+        hasNext={submissions.length > 1}
+        isReviewing={isReviewing}
+        onSubmit={handleSubmit}
+        onCancel={() => setSelectedId(null)}
+      />
+    )
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Projets à évaluer</CardTitle>
+            <CardDescription>Projets finaux rendus par vos étudiants, les plus anciens en premier</CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            {!isLoading && <Badge variant="secondary">{submissions.length} en attente</Badge>}
+            {submissions.length > 0 && (
+              <Button onClick={() => setSelectedId(submissions[0].id)}>
+                <PenLine className="h-4 w-4 mr-2" />
+                Évaluer le suivant
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : submissions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">Aucun projet en attente d'évaluation</p>
+        ) : (
+          <div className="rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Étudiant</TableHead>
+                  <TableHead>Projet</TableHead>
+                  <TableHead>Cours</TableHead>
+                  <TableHead>Rendu le</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {submissions.map((submission) => (
+                  <TableRow key={submission.id}>
+                    <TableCell>
+                      <div className="font-medium">{submission.studentName}</div>
+                      <div className="text-sm text-muted-foreground">{submission.studentEmail}</div>
+                    </TableCell>
+                    <TableCell>{submission.projectTitle}</TableCell>
+                    <TableCell>{submission.courseTitle}</TableCell>
+                    <TableCell>
+                      {submission.submittedAt ? new Date(submission.submittedAt).toLocaleDateString("fr-FR") : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => setSelectedId(submission.id)}>
+                        Évaluer
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
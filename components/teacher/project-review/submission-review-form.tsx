@@ -0,0 +1,175 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { FileText, Link as LinkIcon, Loader2 } from "lucide-react"
+import { formatFileSize } from "@/lib/projects/format"
+import { evaluateRubric } from "@/lib/projects/rubric"
+import { RubricMatrix } from "@/components/course/rubric-matrix"
+import type { PendingSubmission, ReviewDecision, SubmissionReview } from "./types"
+
+const decisionLabels: Record<ReviewDecision, string> = {
+  approved: "Valider le projet",
+  needs_revision: "Demander des corrections",
+  rejected: "Refuser le projet",
+}
+
+interface SubmissionReviewFormProps {
+  submission: PendingSubmission
+  hasNext: boolean
+  isReviewing: boolean
+  onSubmit: (review: SubmissionReview, openNext: boolean) => Promise<void>
+  onCancel: () => void
+}
+
+export function SubmissionReviewForm({
+  submission,
+  hasNext,
+  isReviewing,
+  onSubmit,
+  onCancel,
+}: SubmissionReviewFormProps) {
+  const [status, setStatus] = useState<ReviewDecision>("approved")
+  const [grade, setGrade] = useState("")
+  const [feedback, setFeedback] = useState("")
+  const [levels, setLevels] = useState<Record<string, string>>({})
+
+  // With a rubric, the grade is computed from the chosen levels like the API does
+  const { rubric } = submission
+  const rubricScores = Object.entries(levels).map(([criterionId, levelId]) => ({ criterionId, levelId }))
+  const evaluated = rubric ? evaluateRubric(rubric, rubricScores) : null
+
+  // Mirrors the API: approving needs a grade, the other decisions need feedback
+  const gradeValue = evaluated ? evaluated.grade : Number(grade)
+  const hasValidGrade = rubric
+    ? evaluated !== null
+    : grade.trim() !== "" && Number.isInteger(gradeValue) && gradeValue >= 0 && gradeValue <= 100
+  const isComplete = status === "approved" ? hasValidGrade : feedback.trim() !== ""
+
+  const handleSubmit = async (openNext: boolean) => {
+    await onSubmit(
+      {
+        status,
+        grade: hasValidGrade ? gradeValue : null,
+        feedback: feedback.trim(),
+        ...(evaluated && { rubricScores }),
+      },
+      openNext
+    )
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <CardTitle>{submission.projectTitle}</CardTitle>
+        <CardDescription>
+          {submission.studentName} · {submission.courseTitle}
+          {submission.submittedAt && <> · {new Date(submission.submittedAt).toLocaleDateString("fr-FR")}</>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2 p-4 border border-border rounded-lg text-sm">
+          {submission.submissionUrl && (
+            <a
+              href={submission.submissionUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 text-primary hover:underline"
+            >
+              <LinkIcon className="h-4 w-4" />
+              {submission.submissionUrl}
+            </a>
+          )}
+          {submission.files.map((file) => (
+            <a
+              key={file.url}
+              href={file.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 text-primary hover:underline"
+            >
+              <FileText className="h-4 w-4" />
+              {file.name} ({formatFileSize(file.size)})
+            </a>
+          ))}
+          {submission.description && <p className="whitespace-pre-line pt-2">{submission.description}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Décision</Label>
+          <RadioGroup value={status} onValueChange={(value) => setStatus(value as ReviewDecision)}>
+            {Object.entries(decisionLabels).map(([value, label]) => (
+              <div key={value} className="flex items-center space-x-2">
+                <RadioGroupItem value={value} id={`decision-${value}`} />
+                <Label htmlFor={`decision-${value}`} className="font-normal">
+                  {label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        {rubric ? (
+          <div className="space-y-2">
+            <Label>
+              {rubric.title}
+              {status === "approved" ? "" : " (optionnel)"}
+            </Label>
+            <RubricMatrix
+              criteria={rubric.criteria}
+              selected={levels}
+              onSelect={(criterionId, levelId) => setLevels((current) => ({ ...current, [criterionId]: levelId }))}
+            />
+            <p className="text-sm font-medium">Note calculée : {evaluated ? `${evaluated.grade}/100` : "—"}</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="grade">Note /100{status === "approved" ? "" : " (optionnel)"}</Label>
+            <Input
+              id="grade"
+              type="number"
+              min="0"
+              max="100"
+              value={grade}
+              onChange={(e) => setGrade(e.target.value)}
+              className="w-32"
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="projectFeedback">
+            Commentaires{status === "approved" ? " (optionnel)" : ""}
+          </Label>
+          <Textarea
+            id="projectFeedback"
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            rows={4}
+            placeholder={status === "needs_revision" ? "Précisez les corrections attendues" : undefined}
+          />
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onCancel} disabled={isReviewing}>
+            Retour à la liste
+          </Button>
+          <Button variant="secondary" onClick={() => handleSubmit(false)} disabled={!isComplete || isReviewing}>
+            Publier l'évaluation
+          </Button>
+          {hasNext && (
+            <Button onClick={() => handleSubmit(true)} disabled={!isComplete || isReviewing}>
+              {isReviewing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Publier et évaluer le suivant
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,28 @@
+import type { ProjectFile, ProjectSubmissionStatus } from "@/lib/schemas/project"
+import type { RubricCriterion, RubricScore } from "@/lib/schemas/rubric"
+
+export interface PendingSubmission {
+  id: number
+  status: ProjectSubmissionStatus
+  submissionUrl: string | null
+  description: string | null
+  files: ProjectFile[]
+  submittedAt: string | null
+  finalProjectId: number
+  projectTitle: string
+  courseId: number
+  courseTitle: string
+  studentId: number
+  studentName: string
+  studentEmail: string
+  rubric: { id: number; title: string; criteria: RubricCriterion[] } | null
+}
+
+export type ReviewDecision = Exclude<ProjectSubmissionStatus, "submitted">
+
+export interface SubmissionReview {
+  status: ReviewDecision
+  grade: number | null
+  feedback: string
+  rubricScores?: RubricScore[]
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { toast } from "sonner"
+import type { PendingSubmission, SubmissionReview } from "./types"
+
+export function useProjectQueue() {
+  const [submissions, setSubmissions] = useState<PendingSubmission[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isReviewing, setIsReviewing] = useState(false)
+
+  const fetchPendingSubmissions = async () => {
+    try {
+      setIsLoading(true)
+
+      const response = await fetch("/api/project-submissions/pending")
+
+      if (!response.ok) {
+        throw new Error("Échec du chargement des projets à évaluer")
+      }
+
+      const data = await response.json()
+      setSubmissions(data.submissions || [])
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Échec du chargement des projets à évaluer. Veuillez réessayer."
+      toast.error(errorMessage)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPendingSubmissions()
+  }, [])
+
+  const reviewSubmission = async (id: number, review: SubmissionReview) => {
+    try {
+      setIsReviewing(true)
+
+      const response = await fetch(`/api/project-submissions/${id}/review`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(review),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Échec de la publication de l'évaluation")
+      }
+
+      toast.success("Évaluation publiée, l'étudiant a été notifié")
+      // Drop the reviewed submission locally so the next one can be opened right away
+      setSubmissions((current) => current.filter((submission) => submission.id !== id))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Échec de la publication de l'évaluation. Veuillez réessayer."
+      toast.error(errorMessage)
+      throw err
+    } finally {
+      setIsReviewing(false)
+    }
+  }
+
+  return {
+    submissions,
+    isLoading,
+    isReviewing,
+    reviewSubmission,
+    refresh: fetchPendingSubmissions,
+  }
+}
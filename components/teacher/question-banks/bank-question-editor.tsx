@@ -0,0 +1,163 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowLeft, Edit, Loader2, Plus, Trash2 } from "lucide-react"
+import { QuestionForm, questionTypeLabels } from "@/components/course/question-form"
+import { describeSolution } from "@/lib/quizzes/format"
+import type { QuestionDifficulty, QuizQuestion } from "@/lib/schemas/quiz"
+import { useBankQuestions } from "./use-bank-questions"
+import { difficultyLabels, type BankQuestion, type QuestionBank } from "./types"
+
+interface BankQuestionEditorProps {
+  bank: QuestionBank
+  onBack: () => void
+}
+
+export function BankQuestionEditor({ bank, onBack }: BankQuestionEditorProps) {
+  const { questions, canManage, isLoading, isSaving, saveQuestion, deleteQuestion } = useBankQuestions(bank.id)
+  const [editing, setEditing] = useState<BankQuestion | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [difficulty, setDifficulty] = useState<QuestionDifficulty>("medium")
+  const [tags, setTags] = useState("")
+
+  const openForm = (question: BankQuestion | null) => {
+    setEditing(question)
+    setDifficulty(question?.difficulty ?? "medium")
+    setTags(question?.tags.join(", ") ?? "")
+    setShowForm(true)
+  }
+
+  const closeForm = () => {
+    setEditing(null)
+    setShowForm(false)
+  }
+
+  const handleSubmit = async (question: QuizQuestion) => {
+    const saved = await saveQuestion(
+      {
+        question: { ...question, id: question.id || Date.now().toString() },
+        difficulty,
+        tags: tags
+          .split(",")
+          .map((tag) => tag.trim().toLowerCase())
+          .filter(Boolean),
+      },
+      editing?.id
+    )
+    if (saved) closeForm()
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={onBack}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Toutes les banques
+              </Button>
+              <CardTitle>{bank.title}</CardTitle>
+              <CardDescription>
+                {bank.courseTitle ? `Cours : ${bank.courseTitle}` : `Domaine : ${bank.domainName}`}
+                {bank.description && ` · ${bank.description}`}
+              </CardDescription>
+            </div>
+            {canManage && !showForm && (
+              <Button onClick={() => openForm(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Ajouter une question
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : questions.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">Aucune question dans cette banque</p>
+          ) : (
+            questions.map((item) => {
+              const solution = describeSolution(item.question)
+              return (
+                <div key={item.id} className="flex items-start justify-between p-4 border border-border rounded-lg">
+                  <div className="flex-1 space-y-2">
+                    <p className="font-medium">{item.question.question}</p>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline">{questionTypeLabels[item.question.type]}</Badge>
+                      <Badge variant="secondary">{difficultyLabels[item.difficulty]}</Badge>
+                      {item.tags.map((tag) => (
+                        <Badge key={tag} variant="outline" className="font-normal">
+                          #{tag}
+                        </Badge>
+                      ))}
+                    </div>
+                    {solution && <p className="text-sm text-muted-foreground">Réponse attendue : {solution}</p>}
+                  </div>
+                  {canManage && (
+                    <div className="flex items-center space-x-2 ml-4">
+                      <Button variant="ghost" size="sm" onClick={() => openForm(item)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => deleteQuestion(item.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      {showForm && (
+        <div className="space-y-4">
+          <Card className="border-border bg-card">
+            <CardContent className="pt-6 grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="difficulty">Difficulté</Label>
+                <Select value={difficulty} onValueChange={(value: QuestionDifficulty) => setDifficulty(value)}>
+                  <SelectTrigger id="difficulty">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(difficultyLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tags">Thèmes</Label>
+                <Input
+                  id="tags"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder="sql, jointures"
+                />
+              </div>
+            </CardContent>
+          </Card>
+          <QuestionForm
+            key={editing?.id ?? "new"}
+            initialData={editing?.question ?? null}
+            onSubmit={handleSubmit}
+            onCancel={closeForm}
+          />
+          {isSaving && <p className="text-sm text-muted-foreground text-center">Enregistrement...</p>}
+        </div>
+      )}
+    </div>
+  )
+}
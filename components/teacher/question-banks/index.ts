@@ -0,0 +1,6 @@
+export { BankQuestionEditor } from "./bank-question-editor"
+export { QuestionBankManager } from "./question-bank-manager"
+export { useBankQuestions } from "./use-bank-questions"
+export { useQuestionBanks } from "./use-question-banks"
+export { difficultyLabels } from "./types"
+export type { BankQuestion, BankQuestionInput, BankScopeOptions, QuestionBank } from "./types"
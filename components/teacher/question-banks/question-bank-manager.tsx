@@ -0,0 +1,200 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { DeleteConfirmDialog } from "@/components/ui/delete-confirm-dialog"
+import { FolderOpen, Loader2, Plus, Trash2 } from "lucide-react"
+import { useQuestionBanks } from "./use-question-banks"
+import { BankQuestionEditor } from "./bank-question-editor"
+import type { BankScopeOptions, QuestionBank } from "./types"
+
+interface QuestionBankManagerProps {
+  userId: number
+  scopes: BankScopeOptions
+}
+
+export function QuestionBankManager({ userId, scopes }: QuestionBankManagerProps) {
+  const { banks, isLoading, createBank, deleteBank, refresh } = useQuestionBanks()
+  const [selectedBank, setSelectedBank] = useState<QuestionBank | null>(null)
+  const [bankToDelete, setBankToDelete] = useState<QuestionBank | null>(null)
+  const [showCreate, setShowCreate] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [form, setForm] = useState({ title: "", description: "", scope: "" })
+
+  // Mirrors the API: the owner and the course trainer manage a bank
+  const ownCourseIds = new Set(scopes.courses.map((course) => course.id))
+  const canManage = (bank: QuestionBank) =>
+    bank.ownerId === userId || (bank.courseId !== null && ownCourseIds.has(bank.courseId))
+
+  const handleCreate = async () => {
+    // Scope values are "course:<id>" or "domain:<id>"
+    const [kind, id] = form.scope.split(":")
+    setIsCreating(true)
+    const bank = await createBank({
+      title: form.title,
+      description: form.description || undefined,
+      ...(kind === "course" ? { courseId: Number(id) } : { domainId: Number(id) }),
+    })
+    setIsCreating(false)
+    if (bank) {
+      setShowCreate(false)
+      setForm({ title: "", description: "", scope: "" })
+    }
+  }
+
+  if (selectedBank) {
+    return (
+      <BankQuestionEditor
+        bank={selectedBank}
+        onBack={() => {
+          setSelectedBank(null)
+          refresh()
+        }}
+      />
+    )
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Banques de questions</CardTitle>
+            <CardDescription>
+              Questions réutilisables, tirées au hasard dans les quiz de vos cours
+            </CardDescription>
+          </div>
+          <Button onClick={() => setShowCreate(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nouvelle banque
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : banks.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">Aucune banque de questions</p>
+        ) : (
+          <div className="rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Banque</TableHead>
+                  <TableHead>Rattachement</TableHead>
+                  <TableHead>Questions</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {banks.map((bank) => (
+                  <TableRow key={bank.id}>
+                    <TableCell className="font-medium">{bank.title}</TableCell>
+                    <TableCell>
+                      {bank.courseId ? (
+                        <Badge variant="outline">Cours : {bank.courseTitle}</Badge>
+                      ) : (
+                        <Badge variant="secondary">Domaine : {bank.domainName}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{bank.questionCount}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => setSelectedBank(bank)}>
+                        <FolderOpen className="h-4 w-4 mr-2" />
+                        Ouvrir
+                      </Button>
+                      {canManage(bank) && (
+                        <Button variant="ghost" size="sm" onClick={() => setBankToDelete(bank)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nouvelle banque de questions</DialogTitle>
+            <DialogDescription>
+              Une banque de domaine est partagée avec les formateurs de ce domaine
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bankTitle">Titre</Label>
+              <Input
+                id="bankTitle"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                placeholder="Ex : SQL - requêtes de base"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bankScope">Rattachement</Label>
+              <Select value={form.scope} onValueChange={(value) => setForm({ ...form, scope: value })}>
+                <SelectTrigger id="bankScope">
+                  <SelectValue placeholder="Choisir un cours ou un domaine" />
+                </SelectTrigger>
+                <SelectContent>
+                  {scopes.courses.map((course) => (
+                    <SelectItem key={`course:${course.id}`} value={`course:${course.id}`}>
+                      Cours : {course.title}
+                    </SelectItem>
+                  ))}
+                  {scopes.domains.map((domain) => (
+                    <SelectItem key={`domain:${domain.id}`} value={`domain:${domain.id}`}>
+                      Domaine : {domain.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bankDescription">Description (optionnel)</Label>
+              <Textarea
+                id="bankDescription"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreate(false)}>
+              Annuler
+            </Button>
+            <Button onClick={handleCreate} disabled={isCreating || !form.title.trim() || !form.scope}>
+              {isCreating ? "Création..." : "Créer la banque"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={bankToDelete !== null}
+        onOpenChange={(open) => !open && setBankToDelete(null)}
+        onConfirm={async () => {
+          if (bankToDelete) await deleteBank(bankToDelete.id)
+          setBankToDelete(null)
+        }}
+        itemName={bankToDelete ? `la banque « ${bankToDelete.title} » et ses questions` : undefined}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,38 @@
+import type { QuestionDifficulty, QuizQuestion } from "@/lib/schemas/quiz"
+
+export interface QuestionBank {
+  id: number
+  title: string
+  description: string | null
+  courseId: number | null
+  courseTitle: string | null
+  domainId: number | null
+  domainName: string | null
+  ownerId: number
+  questionCount: number
+}
+
+export interface BankQuestion {
+  id: number
+  question: QuizQuestion
+  difficulty: QuestionDifficulty
+  tags: string[]
+}
+
+export interface BankQuestionInput {
+  question: QuizQuestion
+  difficulty: QuestionDifficulty
+  tags: string[]
+}
+
+// Courses and domains a new bank can be attached to
+export interface BankScopeOptions {
+  courses: { id: number; title: string }[]
+  domains: { id: number; name: string }[]
+}
+
+export const difficultyLabels: Record<QuestionDifficulty, string> = {
+  easy: "Facile",
+  medium: "Moyen",
+  hard: "Difficile",
+}
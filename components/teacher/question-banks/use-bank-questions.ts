@@ -0,0 +1,90 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { toast } from "sonner"
+import type { BankQuestion, BankQuestionInput } from "./types"
+
+export function useBankQuestions(bankId: number) {
+  const [questions, setQuestions] = useState<BankQuestion[]>([])
+  const [canManage, setCanManage] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fetchQuestions = async () => {
+    try {
+      setIsLoading(true)
+
+      const response = await fetch(`/api/question-banks/${bankId}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Échec du chargement des questions")
+      }
+
+      setQuestions(data.questions || [])
+      setCanManage(Boolean(data.canManage))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Échec du chargement des questions"
+      toast.error(errorMessage)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchQuestions()
+  }, [bankId])
+
+  // POST for a new question, PUT when editing an existing one
+  const saveQuestion = async (input: BankQuestionInput, questionId?: number) => {
+    try {
+      setIsSaving(true)
+
+      const response = await fetch(
+        questionId ? `/api/question-banks/${bankId}/questions/${questionId}` : `/api/question-banks/${bankId}/questions`,
+        {
+          method: questionId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        }
+      )
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Échec de l'enregistrement de la question")
+      }
+
+      toast.success(data.message || "Question enregistrée")
+      await fetchQuestions()
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Échec de l'enregistrement de la question"
+      toast.error(errorMessage)
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const deleteQuestion = async (questionId: number) => {
+    const response = await fetch(`/api/question-banks/${bankId}/questions/${questionId}`, { method: "DELETE" })
+    const data = await response.json()
+
+    if (!response.ok) {
+      toast.error(data.error || "Échec de la suppression de la question")
+      return
+    }
+
+    toast.success(data.message || "Question supprimée")
+    setQuestions((current) => current.filter((question) => question.id !== questionId))
+  }
+
+  return {
+    questions,
+    canManage,
+    isLoading,
+    isSaving,
+    saveQuestion,
+    deleteQuestion,
+  }
+}
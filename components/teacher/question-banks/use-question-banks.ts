@@ -0,0 +1,79 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { toast } from "sonner"
+import type { QuestionBank } from "./types"
+
+export function useQuestionBanks() {
+  const [banks, setBanks] = useState<QuestionBank[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const fetchBanks = async () => {
+    try {
+      setIsLoading(true)
+
+      const response = await fetch("/api/question-banks")
+
+      if (!response.ok) {
+        throw new Error("Échec du chargement des banques de questions")
+      }
+
+      const data = await response.json()
+      setBanks(data.banks || [])
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Échec du chargement des banques de questions"
+      toast.error(errorMessage)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchBanks()
+  }, [])
+
+  const createBank = async (input: {
+    title: string
+    description?: string
+    courseId?: number
+    domainId?: number
+  }) => {
+    const response = await fetch("/api/question-banks", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      toast.error(data.error || "Échec de la création de la banque")
+      return null
+    }
+
+    toast.success(data.message || "Banque de questions créée")
+    await fetchBanks()
+    return data.bank as { id: number }
+  }
+
+  const deleteBank = async (id: number) => {
+    const response = await fetch(`/api/question-banks/${id}`, { method: "DELETE" })
+    const data = await response.json()
+
+    if (!response.ok) {
+      toast.error(data.error || "Échec de la suppression de la banque")
+      return false
+    }
+
+    toast.success(data.message || "Banque de questions supprimée")
+    setBanks((current) => current.filter((bank) => bank.id !== id))
+    return true
+  }
+
+  return {
+    banks,
+    isLoading,
+    createBank,
+    deleteBank,
+    refresh: fetchBanks,
+  }
+}
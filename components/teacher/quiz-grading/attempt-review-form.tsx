@@ -0,0 +1,142 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { CheckCircle, Loader2, XCircle } from "lucide-react"
+import { formatAnswer } from "@/lib/quizzes/format"
+import type { PendingAttempt, QuestionGrade } from "./types"
+
+interface AttemptReviewFormProps {
+  attempt: PendingAttempt
+  hasNext: boolean
+  isGrading: boolean
+  onSubmit: (grades: QuestionGrade[], feedback: string, openNext: boolean) => Promise<void>
+  onCancel: () => void
+}
+
+export function AttemptReviewForm({ attempt, hasNext, isGrading, onSubmit, onCancel }: AttemptReviewFormProps) {
+  const answersById = new Map(attempt.answers.map((answer) => [answer.questionId, answer]))
+  const pendingQuestionIds = attempt.answers
+    .filter((answer) => answer.credit === null)
+    .map((answer) => answer.questionId)
+
+  const [scores, setScores] = useState<Record<string, string>>({})
+  const [comments, setComments] = useState<Record<string, string>>({})
+  const [feedback, setFeedback] = useState("")
+
+  const isComplete = pendingQuestionIds.every((id) => {
+    const value = scores[id]
+    if (value === undefined || value.trim() === "") return false
+    const score = Number(value)
+    return Number.isInteger(score) && score >= 0 && score <= 100
+  })
+
+  const handleSubmit = async (openNext: boolean) => {
+    const grades = pendingQuestionIds.map((questionId) => ({
+      questionId,
+      score: Number(scores[questionId]),
+      comment: comments[questionId]?.trim() || undefined,
+    }))
+    await onSubmit(grades, feedback.trim(), openNext)
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <CardTitle>{attempt.quizTitle}</CardTitle>
+        <CardDescription>
+          {attempt.studentName} · {attempt.courseTitle} · {attempt.chapterTitle}
+          {attempt.attemptedAt && <> · {new Date(attempt.attemptedAt).toLocaleDateString("fr-FR")}</>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {attempt.questions.map((question, index) => {
+          const answer = answersById.get(question.id)
+          const isPending = answer?.credit === null
+
+          return (
+            <div key={question.id} className="space-y-2 p-4 border border-border rounded-lg">
+              <div className="flex items-start justify-between gap-2">
+                <p className="font-medium">
+                  {index + 1}. {question.question}
+                </p>
+                {isPending ? (
+                  <Badge variant="secondary">À corriger</Badge>
+                ) : answer?.correct ? (
+                  <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0" />
+                ) : (
+                  <XCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
+                )}
+              </div>
+
+              <p className="text-sm whitespace-pre-wrap bg-muted/30 p-2 rounded">
+                {formatAnswer(question, answer?.answer)}
+              </p>
+
+              {question.explanation && (
+                <p className="text-sm text-muted-foreground">
+                  <strong>Éléments attendus :</strong> {question.explanation}
+                </p>
+              )}
+
+              {isPending && (
+                <div className="grid gap-3 sm:grid-cols-4">
+                  <div className="space-y-1">
+                    <Label htmlFor={`score-${question.id}`}>Note (%)</Label>
+                    <Input
+                      id={`score-${question.id}`}
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={scores[question.id] ?? ""}
+                      onChange={(e) => setScores({ ...scores, [question.id]: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1 sm:col-span-3">
+                    <Label htmlFor={`comment-${question.id}`}>Commentaire</Label>
+                    <Input
+                      id={`comment-${question.id}`}
+                      value={comments[question.id] ?? ""}
+                      onChange={(e) => setComments({ ...comments, [question.id]: e.target.value })}
+                      placeholder="Commentaire pour l'étudiant (optionnel)"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        })}
+
+        <div className="space-y-2">
+          <Label htmlFor="feedback">Appréciation générale (optionnel)</Label>
+          <Textarea
+            id="feedback"
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            rows={3}
+          />
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onCancel} disabled={isGrading}>
+            Retour à la liste
+          </Button>
+          <Button variant="secondary" onClick={() => handleSubmit(false)} disabled={!isComplete || isGrading}>
+            Publier la note
+          </Button>
+          {hasNext && (
+            <Button onClick={() => handleSubmit(true)} disabled={!isComplete || isGrading}>
+              {isGrading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Publier et corriger la suivante
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
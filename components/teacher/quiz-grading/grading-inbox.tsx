@@ -0,0 +1,113 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Loader2, PenLine } from "lucide-react"
+import { useGradingQueue } from "./use-grading-queue"
+import { AttemptReviewForm } from "./attempt-review-form"
+import type { QuestionGrade } from "./types"
+
+export function GradingInbox() {
+  const { attempts, isLoading, isGrading, gradeAttempt } = useGradingQueue()
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+
+  const selectedIndex = attempts.findIndex((attempt) => attempt.id === selectedId)
+  const selectedAttempt = selectedIndex === -1 ? null : attempts[selectedIndex]
+
+  const handleSubmit = async (grades: QuestionGrade[], feedback: string, openNext: boolean) => {
+    if (!selectedAttempt) return
+
+    // Pick the next copy before the graded one leaves the queue
+    const next = attempts[selectedIndex + 1] ?? attempts[selectedIndex - 1] ?? null
+    try {
+      await gradeAttempt(selectedAttempt.id, grades, feedback || undefined)
+      setSelectedId(openNext && next ? next.id : null)
+    } catch {
+      // Error already surfaced by the hook
+    }
+  }
+
+  if (selectedAttempt) {
+    return (
+      <AttemptReviewForm
+        key={selectedAttempt.id}
+        attempt={selectedAttempt}
+        hasNext={attempts.length > 1}
+        isGrading={isGrading}
+        onSubmit={handleSubmit}
+        onCancel={() => setSelectedId(null)}
+      />
+    )
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Copies à corriger</CardTitle>
+            <CardDescription>Réponses ouvertes en attente de votre correction, les plus anciennes en premier</CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            {!isLoading && <Badge variant="secondary">{attempts.length} en attente</Badge>}
+            {attempts.length > 0 && (
+              <Button onClick={() => setSelectedId(attempts[0].id)}>
+                <PenLine className="h-4 w-4 mr-2" />
+                Corriger la suivante
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : attempts.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">Aucune copie en attente de correction</p>
+        ) : (
+          <div className="rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Étudiant</TableHead>
+                  <TableHead>Quiz</TableHead>
+                  <TableHead>Cours</TableHead>
+                  <TableHead>Soumis le</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attempts.map((attempt) => (
+                  <TableRow key={attempt.id}>
+                    <TableCell>
+                      <div className="font-medium">{attempt.studentName}</div>
+                      <div className="text-sm text-muted-foreground">{attempt.studentEmail}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{attempt.quizTitle}</div>
+                      <div className="text-sm text-muted-foreground">{attempt.chapterTitle}</div>
+                    </TableCell>
+                    <TableCell>{attempt.courseTitle}</TableCell>
+                    <TableCell>
+                      {attempt.attemptedAt ? new Date(attempt.attemptedAt).toLocaleDateString("fr-FR") : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => setSelectedId(attempt.id)}>
+                        Corriger
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
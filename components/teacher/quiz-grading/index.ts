@@ -0,0 +1,4 @@
+export { AttemptReviewForm } from "./attempt-review-form"
+export { GradingInbox } from "./grading-inbox"
+export { useGradingQueue } from "./use-grading-queue"
+export type { GradingAnswer, GradingQuestion, PendingAttempt, QuestionGrade } from "./types"
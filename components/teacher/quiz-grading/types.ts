@@ -0,0 +1,33 @@
+import type { QuizAnswer, QuizQuestion } from "@/lib/schemas/quiz"
+
+export type GradingQuestion = QuizQuestion
+
+export interface GradingAnswer {
+  questionId: string
+  answer: QuizAnswer | null
+  correct: boolean | null
+  credit: number | null
+  comment?: string
+}
+
+export interface PendingAttempt {
+  id: number
+  attemptedAt: string | null
+  answers: GradingAnswer[]
+  quizId: number
+  quizTitle: string
+  questions: GradingQuestion[]
+  passingScore: number | null
+  chapterTitle: string
+  courseId: number
+  courseTitle: string
+  studentId: number
+  studentName: string
+  studentEmail: string
+}
+
+export interface QuestionGrade {
+  questionId: string
+  score: number
+  comment?: string
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { toast } from "sonner"
+import type { PendingAttempt, QuestionGrade } from "./types"
+
+export function useGradingQueue() {
+  const [attempts, setAttempts] = useState<PendingAttempt[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isGrading, setIsGrading] = useState(false)
+
+  const fetchPendingAttempts = async () => {
+    try {
+      setIsLoading(true)
+
+      const response = await fetch("/api/quiz-attempts/pending")
+
+      if (!response.ok) {
+        throw new Error("Échec du chargement des copies à corriger")
+      }
+
+      const data = await response.json()
+      setAttempts(data.attempts || [])
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Échec du chargement des copies à corriger. Veuillez réessayer."
+      toast.error(errorMessage)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPendingAttempts()
+  }, [])
+
+  const gradeAttempt = async (id: number, grades: QuestionGrade[], feedback?: string) => {
+    try {
+      setIsGrading(true)
+
+      const response = await fetch(`/api/quiz-attempts/${id}/review`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ grades, feedback }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Échec de la publication de la note")
+      }
+
+      toast.success("Note publiée, l'étudiant a été notifié")
+      // Drop the graded copy locally so the next one can be opened right away
+      setAttempts((current) => current.filter((attempt) => attempt.id !== id))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Échec de la publication de la note. Veuillez réessayer."
+      toast.error(errorMessage)
+      throw err
+    } finally {
+      setIsGrading(false)
+    }
+  }
+
+  return {
+    attempts,
+    isLoading,
+    isGrading,
+    gradeAttempt,
+    refresh: fetchPendingAttempts,
+  }
+}
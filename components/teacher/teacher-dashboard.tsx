@@ -13,9 +13,10 @@ import { Badge } from "../ui/badge"
 
 interface TeacherDashboardProps {
   user: User
+  courses: Array<{ id: number; title: string }>
 }
 
-export function TeacherDashboard({ user }: TeacherDashboardProps) {
+export function TeacherDashboard({ user, courses }: TeacherDashboardProps) {
   const [activeTab, setActiveTab] = useState("overview")
 
   // Mock data - replace with real data from database
@@ -282,7 +283,7 @@ export function TeacherDashboard({ user }: TeacherDashboardProps) {
           </TabsContent>
 
           <TabsContent value="analytics">
-            <CourseAnalytics />
+            <CourseAnalytics courses={courses} />
           </TabsContent>
         </Tabs>
     </div>
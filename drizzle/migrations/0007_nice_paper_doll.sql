@@ -0,0 +1,11 @@
+ALTER TYPE "public"."course_status" ADD VALUE 'submitted' BEFORE 'validated';--> statement-breakpoint
+ALTER TYPE "public"."course_status" ADD VALUE 'rejected';--> statement-breakpoint
+ALTER TABLE "courses" ADD COLUMN "status" "course_status" DEFAULT 'draft' NOT NULL;--> statement-breakpoint
+ALTER TABLE "courses" ADD COLUMN "rejection_reason" text;--> statement-breakpoint
+ALTER TABLE "courses" ADD COLUMN "submitted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "courses" ADD COLUMN "reviewed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "courses" ADD COLUMN "reviewed_by" integer;--> statement-breakpoint
+ALTER TABLE "courses" ADD CONSTRAINT "courses_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+
+-- Courses created before the validation workflow were already visible to students
+UPDATE "courses" SET "status" = 'validated', "reviewed_at" = now();
@@ -0,0 +1,11 @@
+CREATE TABLE "certificates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"enrollment_id" integer NOT NULL,
+	"hash" varchar(64) NOT NULL,
+	"final_grade" integer,
+	"issued_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "certificates_enrollment_id_unique" UNIQUE("enrollment_id"),
+	CONSTRAINT "certificates_hash_unique" UNIQUE("hash")
+);
+--> statement-breakpoint
+ALTER TABLE "certificates" ADD CONSTRAINT "certificates_enrollment_id_enrollments_id_fk" FOREIGN KEY ("enrollment_id") REFERENCES "public"."enrollments"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
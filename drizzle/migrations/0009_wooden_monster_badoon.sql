@@ -0,0 +1,8 @@
+CREATE TABLE "rate_limit_buckets" (
+	"key" varchar(255) PRIMARY KEY NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	"reset_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "certificates" ADD COLUMN "revoked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "certificates" ADD COLUMN "revocation_reason" text;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TYPE "public"."quiz_attempt_status" AS ENUM('graded', 'pending_review');--> statement-breakpoint
+CREATE TABLE "notifications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"message" text NOT NULL,
+	"link" varchar(500),
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "status" "quiz_attempt_status" DEFAULT 'graded' NOT NULL;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "feedback" text;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "reviewed_by" integer;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "reviewed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "type" "quiz_type" DEFAULT 'auto' NOT NULL;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD CONSTRAINT "quiz_attempts_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TYPE "public"."question_difficulty" AS ENUM('easy', 'medium', 'hard');--> statement-breakpoint
+ALTER TYPE "public"."quiz_attempt_status" ADD VALUE 'in_progress' BEFORE 'graded';--> statement-breakpoint
+CREATE TABLE "bank_questions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"bank_id" integer NOT NULL,
+	"question" jsonb NOT NULL,
+	"difficulty" "question_difficulty" DEFAULT 'medium' NOT NULL,
+	"tags" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "question_banks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"description" text,
+	"course_id" integer,
+	"domain_id" integer,
+	"owner_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "questions" jsonb;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "started_at" timestamp DEFAULT now();--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "draws" jsonb;--> statement-breakpoint
+ALTER TABLE "bank_questions" ADD CONSTRAINT "bank_questions_bank_id_question_banks_id_fk" FOREIGN KEY ("bank_id") REFERENCES "public"."question_banks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "question_banks" ADD CONSTRAINT "question_banks_course_id_courses_id_fk" FOREIGN KEY ("course_id") REFERENCES "public"."courses"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "question_banks" ADD CONSTRAINT "question_banks_domain_id_domains_id_fk" FOREIGN KEY ("domain_id") REFERENCES "public"."domains"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "question_banks" ADD CONSTRAINT "question_banks_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
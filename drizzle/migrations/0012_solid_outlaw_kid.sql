@@ -0,0 +1,8 @@
+CREATE TYPE "public"."quiz_late_policy" AS ENUM('auto_submit', 'reject');--> statement-breakpoint
+CREATE TYPE "public"."quiz_scoring_policy" AS ENUM('best', 'last', 'average');--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "timed_out" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "time_limit_minutes" integer;--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "max_attempts" integer;--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "cooldown_minutes" integer;--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "scoring_policy" "quiz_scoring_policy" DEFAULT 'best' NOT NULL;--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "late_policy" "quiz_late_policy" DEFAULT 'auto_submit' NOT NULL;
\ No newline at end of file
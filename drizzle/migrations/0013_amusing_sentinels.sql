@@ -0,0 +1,11 @@
+CREATE TYPE "public"."project_submission_status" AS ENUM('submitted', 'needs_revision', 'approved', 'rejected');--> statement-breakpoint
+UPDATE "project_submissions" SET "status" = 'submitted' WHERE "status" IS NULL OR "status" NOT IN ('submitted', 'needs_revision', 'approved', 'rejected');--> statement-breakpoint
+ALTER TABLE "project_submissions" ALTER COLUMN "status" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "project_submissions" ALTER COLUMN "status" SET DATA TYPE "public"."project_submission_status" USING "status"::text::"public"."project_submission_status";--> statement-breakpoint
+ALTER TABLE "project_submissions" ALTER COLUMN "status" SET DEFAULT 'submitted'::"public"."project_submission_status";--> statement-breakpoint
+ALTER TABLE "project_submissions" ALTER COLUMN "status" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "final_projects" ADD COLUMN "required" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "final_projects" ADD COLUMN "updated_at" timestamp DEFAULT now();--> statement-breakpoint
+ALTER TABLE "project_submissions" ADD COLUMN "files" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "project_submissions" ADD COLUMN "reviewed_by" integer;--> statement-breakpoint
+ALTER TABLE "project_submissions" ADD CONSTRAINT "project_submissions_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
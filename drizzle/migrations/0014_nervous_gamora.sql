@@ -0,0 +1,12 @@
+CREATE TABLE "rubrics" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"final_project_id" integer NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"criteria" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "rubrics_final_project_id_unique" UNIQUE("final_project_id")
+);
+--> statement-breakpoint
+ALTER TABLE "project_submissions" ADD COLUMN "rubric_evaluation" jsonb;--> statement-breakpoint
+ALTER TABLE "rubrics" ADD CONSTRAINT "rubrics_final_project_id_final_projects_id_fk" FOREIGN KEY ("final_project_id") REFERENCES "public"."final_projects"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
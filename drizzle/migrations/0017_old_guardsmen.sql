@@ -0,0 +1,20 @@
+CREATE TABLE "audit_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"actor_id" integer,
+	"action" varchar(100) NOT NULL,
+	"target_type" varchar(50) NOT NULL,
+	"target_id" varchar(255),
+	"before" jsonb,
+	"after" jsonb,
+	"ip_address" varchar(64),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "login_throttles" (
+	"key" varchar(255) PRIMARY KEY NOT NULL,
+	"failures" integer DEFAULT 0 NOT NULL,
+	"last_failure_at" timestamp NOT NULL,
+	"locked_until" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TYPE "public"."consent_source" AS ENUM('registration', 'bulk_import', 're_consent');--> statement-breakpoint
+CREATE TABLE "consent_texts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"version" integer NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"content" text NOT NULL,
+	"created_by" integer,
+	"published_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "consent_texts_version_unique" UNIQUE("version")
+);
+--> statement-breakpoint
+CREATE TABLE "consents" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"consent_text_id" integer NOT NULL,
+	"source" "consent_source" NOT NULL,
+	"ip_address" varchar(64),
+	"accepted_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "consents_user_text_unique" UNIQUE("user_id","consent_text_id")
+);
+--> statement-breakpoint
+ALTER TABLE "consent_texts" ADD CONSTRAINT "consent_texts_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "consents" ADD CONSTRAINT "consents_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "consents" ADD CONSTRAINT "consents_consent_text_id_consent_texts_id_fk" FOREIGN KEY ("consent_text_id") REFERENCES "public"."consent_texts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "consent_texts" ("version", "title", "content") VALUES (1, 'Protection des données personnelles (loi 09-08)', 'Conformément à la loi n° 09-08 relative à la protection des personnes physiques à l''égard du traitement des données à caractère personnel, Erchad traite vos données (identité, coordonnées, progression pédagogique, résultats aux évaluations et certificats) afin de gérer votre compte, votre formation et la délivrance de vos attestations.
+
+Ces données sont destinées à l''équipe pédagogique et administrative d''Erchad et ne sont pas cédées à des tiers. Elles sont conservées pendant la durée de votre formation puis archivées selon les durées légales.
+
+Vous disposez d''un droit d''accès, de rectification et d''opposition, que vous pouvez exercer depuis votre profil ou en contactant l''administration. Ce traitement a fait l''objet d''une déclaration auprès de la CNDP.');
@@ -0,0 +1,21 @@
+CREATE TYPE "public"."retention_action" AS ENUM('anonymize', 'delete');--> statement-breakpoint
+CREATE TYPE "public"."retention_target" AS ENUM('inactive_students', 'quiz_attempts', 'notifications', 'audit_logs');--> statement-breakpoint
+CREATE TABLE "retention_rules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"target" "retention_target" NOT NULL,
+	"months" integer NOT NULL,
+	"action" "retention_action" NOT NULL,
+	"enabled" boolean DEFAULT false NOT NULL,
+	"updated_by" integer,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "retention_rules_target_unique" UNIQUE("target")
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "last_login_at" timestamp;--> statement-breakpoint
+ALTER TABLE "retention_rules" ADD CONSTRAINT "retention_rules_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+UPDATE "users" SET "last_login_at" = (SELECT max("created_at") FROM "audit_logs" WHERE "audit_logs"."action" = 'auth.login' AND "audit_logs"."actor_id" = "users"."id");--> statement-breakpoint
+INSERT INTO "retention_rules" ("target", "months", "action", "enabled") VALUES
+	('inactive_students', 24, 'anonymize', true),
+	('quiz_attempts', 36, 'anonymize', false),
+	('notifications', 12, 'delete', false),
+	('audit_logs', 60, 'delete', false);
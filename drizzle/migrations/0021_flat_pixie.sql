@@ -0,0 +1,33 @@
+CREATE TABLE "groups" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"school_id" integer NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"academic_year" varchar(20),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "groups_school_name_unique" UNIQUE("school_id","name")
+);
+--> statement-breakpoint
+CREATE TABLE "school_managers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"school_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "school_managers_school_user_unique" UNIQUE("school_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "schools" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(200) NOT NULL,
+	"city" varchar(100),
+	"address" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "schools_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "school_id" integer;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "group_id" integer;--> statement-breakpoint
+ALTER TABLE "groups" ADD CONSTRAINT "groups_school_id_schools_id_fk" FOREIGN KEY ("school_id") REFERENCES "public"."schools"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "school_managers" ADD CONSTRAINT "school_managers_school_id_schools_id_fk" FOREIGN KEY ("school_id") REFERENCES "public"."schools"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "school_managers" ADD CONSTRAINT "school_managers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_school_id_schools_id_fk" FOREIGN KEY ("school_id") REFERENCES "public"."schools"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_group_id_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."groups"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
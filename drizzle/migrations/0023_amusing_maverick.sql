@@ -0,0 +1,5 @@
+ALTER TABLE "attendance_records" ADD COLUMN "checked_in_at" timestamp;--> statement-breakpoint
+ALTER TABLE "attendance_records" ADD COLUMN "check_in_ip" varchar(45);--> statement-breakpoint
+ALTER TABLE "class_sessions" ADD COLUMN "check_in_opens_at" timestamp;--> statement-breakpoint
+ALTER TABLE "class_sessions" ADD COLUMN "check_in_closes_at" timestamp;--> statement-breakpoint
+ALTER TABLE "class_sessions" ADD COLUMN "check_in_allowed_ips" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TYPE "public"."student_note_category" AS ENUM('behaviour', 'academic', 'administrative');--> statement-breakpoint
+CREATE TYPE "public"."student_note_visibility" AS ENUM('staff', 'student');--> statement-breakpoint
+CREATE TABLE "student_notes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"student_id" integer NOT NULL,
+	"author_id" integer,
+	"course_id" integer,
+	"category" "student_note_category" NOT NULL,
+	"visibility" "student_note_visibility" DEFAULT 'staff' NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "student_notes" ADD CONSTRAINT "student_notes_student_id_users_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "student_notes" ADD CONSTRAINT "student_notes_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "student_notes" ADD CONSTRAINT "student_notes_course_id_courses_id_fk" FOREIGN KEY ("course_id") REFERENCES "public"."courses"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
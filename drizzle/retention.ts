@@ -0,0 +1,35 @@
+import { runRetention } from "@/lib/retention"
+
+// Retention purge, meant to be called by cron, e.g. every night:
+//   0 3 * * * cd /app && bun run drizzle/retention.ts
+// Pass --dry-run to only report what the enabled and disabled rules match.
+const dryRun = process.argv.includes("--dry-run")
+
+async function main() {
+  console.log(dryRun ? "🔎 Retention dry run..." : "🧹 Running retention purge...")
+
+  const report = await runRetention({ dryRun })
+
+  for (const rule of report.rules) {
+    const status = rule.error
+      ? `❌ ${rule.error}`
+      : dryRun
+        ? `${rule.matched} matched${rule.enabled ? "" : " (rule disabled)"}`
+        : `${rule.affected}/${rule.matched} ${rule.action === "anonymize" ? "anonymized" : "deleted"}`
+    console.log(`- ${rule.target} (${rule.action}, older than ${rule.months} months): ${status}`)
+  }
+
+  if (report.rules.some((rule) => rule.error)) {
+    throw new Error("Some retention rules failed")
+  }
+}
+
+main()
+  .then(() => {
+    console.log("✅ Retention run finished")
+    process.exit(0)
+  })
+  .catch((error) => {
+    console.error("💥 Retention run failed:", error)
+    process.exit(1)
+  })
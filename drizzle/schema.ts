@@ -1,9 +1,51 @@
-import { pgTable, serial, varchar, text, timestamp, pgEnum, jsonb, integer, boolean } from "drizzle-orm/pg-core"
+import { pgTable, serial, varchar, text, timestamp, pgEnum, jsonb, integer, boolean, unique } from "drizzle-orm/pg-core"
 
 // Enums
 export const roleEnum = pgEnum("role", ["STUDENT", "TRAINER", "SUB_ADMIN", "ADMIN"])
-export const courseStatusEnum = pgEnum("course_status", ["draft", "validated"])
+export const courseStatusEnum = pgEnum("course_status", ["draft", "submitted", "validated", "rejected"])
 export const quizTypeEnum = pgEnum("quiz_type", ["auto", "manual"])
+export const quizAttemptStatusEnum = pgEnum("quiz_attempt_status", ["in_progress", "graded", "pending_review"])
+export const quizScoringPolicyEnum = pgEnum("quiz_scoring_policy", ["best", "last", "average"])
+export const quizLatePolicyEnum = pgEnum("quiz_late_policy", ["auto_submit", "reject"])
+export const questionDifficultyEnum = pgEnum("question_difficulty", ["easy", "medium", "hard"])
+export const authTokenTypeEnum = pgEnum("auth_token_type", ["email_verification", "password_reset"])
+export const projectSubmissionStatusEnum = pgEnum("project_submission_status", [
+  "submitted",
+  "needs_revision",
+  "approved",
+  "rejected",
+])
+export const retentionTargetEnum = pgEnum("retention_target", [
+  "inactive_students",
+  "quiz_attempts",
+  "notifications",
+  "audit_logs",
+])
+export const retentionActionEnum = pgEnum("retention_action", ["anonymize", "delete"])
+export const consentSourceEnum = pgEnum("consent_source", ["registration", "bulk_import", "re_consent"])
+export const attendanceStatusEnum = pgEnum("attendance_status", ["present", "absent", "late", "excused"])
+export const studentNoteCategoryEnum = pgEnum("student_note_category", ["behaviour", "academic", "administrative"])
+export const studentNoteVisibilityEnum = pgEnum("student_note_visibility", ["staff", "student"])
+
+// Schools (local establishments); sub-admins manage one or more of them
+export const schools = pgTable("schools", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 200 }).notNull().unique(),
+  city: varchar("city", { length: 100 }),
+  address: text("address"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+})
+
+// Classes or cohorts inside a school
+export const groups = pgTable("groups", {
+  id: serial("id").primaryKey(),
+  schoolId: integer("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  academicYear: varchar("academic_year", { length: 20 }),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  schoolNameUnique: unique("groups_school_name_unique").on(table.schoolId, table.name)
+}))
 
 // Users table
 export const users = pgTable("users", {
@@ -14,6 +56,7 @@ export const users = pgTable("users", {
   role: roleEnum("role").notNull().default("STUDENT"),
   avatarUrl: varchar("avatar_url", { length: 500 }),
   isActive: boolean("is_active").default(true),
+  emailVerifiedAt: timestamp("email_verified_at"),
   
   // Student-specific information
   phone: varchar("phone", { length: 20 }),
@@ -25,6 +68,14 @@ export const users = pgTable("users", {
 
   // Additional info
   bio: text("bio"),
+
+  // Students belong to one school and, optionally, one of its groups
+  schoolId: integer("school_id").references(() => schools.id, { onDelete: "set null" }),
+  groupId: integer("group_id").references(() => groups.id, { onDelete: "set null" }),
+
+  lastLoginAt: timestamp("last_login_at"),
+  // Set when personal fields were erased on request; the row stays for statistics and certificates
+  anonymizedAt: timestamp("anonymized_at"),
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
@@ -49,6 +100,14 @@ export const courses = pgTable("courses", {
   teacherId: integer("teacher_id").references(() => users.id),
   thumbnailUrl: text("thumbnail_url"),
   isActive: boolean("is_active").default(true),
+
+  // Validation workflow: draft -> submitted -> validated/rejected
+  status: courseStatusEnum("status").notNull().default("draft"),
+  rejectionReason: text("rejection_reason"),
+  submittedAt: timestamp("submitted_at"),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 })
@@ -89,7 +148,19 @@ export const quizzes = pgTable("quizzes", {
   chapterId: integer("chapter_id").references(() => chapters.id),
   title: varchar("title", { length: 200 }).notNull(),
   questions: jsonb("questions").notNull(),
+  // "manual" when the quiz holds open-ended questions graded by the trainer
+  type: quizTypeEnum("type").notNull().default("auto"),
+  // Bank draw rules: [{ bankId, count, difficulty?, tags? }], added to the fixed questions
+  draws: jsonb("draws"),
   passingScore: integer("passing_score").default(70),
+  // Attempt rules; null means unlimited / no wait
+  timeLimitMinutes: integer("time_limit_minutes"),
+  maxAttempts: integer("max_attempts"),
+  cooldownMinutes: integer("cooldown_minutes"),
+  // Which graded attempts make the quiz result
+  scoringPolicy: quizScoringPolicyEnum("scoring_policy").notNull().default("best"),
+  // What happens to an attempt submitted after its deadline
+  latePolicy: quizLatePolicyEnum("late_policy").notNull().default("auto_submit"),
   createdAt: timestamp("created_at").defaultNow().notNull()
 })
 
@@ -98,12 +169,44 @@ export const quizAttempts = pgTable("quiz_attempts", {
   id: serial("id").primaryKey(),
   studentId: integer("student_id").references(() => users.id),
   quizId: integer("quiz_id").references(() => quizzes.id),
+  // Questions as drawn and shuffled for this attempt, answer keys included
+  questions: jsonb("questions"),
   answers: jsonb("answers").notNull(),
   score: integer("score").notNull(),
   passed: boolean("passed").notNull(),
+  status: quizAttemptStatusEnum("status").notNull().default("graded"),
+  feedback: text("feedback"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  startedAt: timestamp("started_at").defaultNow(),
+  // Closed by the server after the time limit ran out
+  timedOut: boolean("timed_out").notNull().default(false),
+  // Submission time, null while the attempt is in progress
   attemptedAt: timestamp("attempted_at").defaultNow()
 })
 
+// Question banks, shared by the quizzes of a course or of a whole domain
+export const questionBanks = pgTable("question_banks", {
+  id: serial("id").primaryKey(),
+  title: varchar("title", { length: 200 }).notNull(),
+  description: text("description"),
+  courseId: integer("course_id").references(() => courses.id),
+  domainId: integer("domain_id").references(() => domains.id),
+  ownerId: integer("owner_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+})
+
+// Bank questions (same JSON shape as quiz questions)
+export const bankQuestions = pgTable("bank_questions", {
+  id: serial("id").primaryKey(),
+  bankId: integer("bank_id").references(() => questionBanks.id, { onDelete: "cascade" }).notNull(),
+  question: jsonb("question").notNull(),
+  difficulty: questionDifficultyEnum("difficulty").notNull().default("medium"),
+  tags: jsonb("tags").notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+})
+
 // Final Projects table
 export const finalProjects = pgTable("final_projects", {
   id: serial("id").primaryKey(),
@@ -111,7 +214,24 @@ export const finalProjects = pgTable("final_projects", {
   title: varchar("title", { length: 200 }).notNull(),
   description: text("description").notNull(),
   requirements: jsonb("requirements"),
-  createdAt: timestamp("created_at").defaultNow()
+  // A required project must be approved before the certificate is issued
+  required: boolean("required").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+})
+
+// Rubrics table (grading grid of a final project: criteria x performance levels)
+export const rubrics = pgTable("rubrics", {
+  id: serial("id").primaryKey(),
+  finalProjectId: integer("final_project_id")
+    .references(() => finalProjects.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  title: varchar("title", { length: 200 }).notNull(),
+  // [{ id, title, description, levels: [{ id, label, description, points }] }]
+  criteria: jsonb("criteria").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
 })
 
 // Project Submissions table
@@ -121,11 +241,190 @@ export const projectSubmissions = pgTable("project_submissions", {
   finalProjectId: integer("final_project_id").references(() => finalProjects.id),
   submissionUrl: text("submission_url"),
   description: text("description"),
-  status: varchar("status", { length: 20 }).default("submitted"),
+  // Uploaded deliverables: [{ name, url, size }]
+  files: jsonb("files").default([]).notNull(),
+  status: projectSubmissionStatusEnum("status").default("submitted").notNull(),
   feedback: text("feedback"),
   grade: integer("grade"),
+  // Rubric as it stood when the submission was graded, with the chosen levels
+  rubricEvaluation: jsonb("rubric_evaluation"),
   submittedAt: timestamp("submitted_at").defaultNow(),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
   reviewedAt: timestamp("reviewed_at")
 })
 
+// Certificates table (one per completed enrollment)
+export const certificates = pgTable("certificates", {
+  id: serial("id").primaryKey(),
+  enrollmentId: integer("enrollment_id").references(() => enrollments.id).notNull().unique(),
+  hash: varchar("hash", { length: 64 }).notNull().unique(),
+  finalGrade: integer("final_grade"),
+  issuedAt: timestamp("issued_at").defaultNow().notNull(),
+  revokedAt: timestamp("revoked_at"),
+  revocationReason: text("revocation_reason")
+})
+
+// Rate limit buckets (fixed window counters keyed by action and client)
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: varchar("key", { length: 255 }).primaryKey(),
+  count: integer("count").notNull().default(0),
+  resetAt: timestamp("reset_at").notNull()
+})
+
+// Single-use tokens sent by email; only the SHA-256 of the secret is stored
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  type: authTokenTypeEnum("type").notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+})
+
+// TOTP second factor (RFC 6238); the secret is stored encrypted
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: varchar("secret", { length: 255 }).notNull(),
+  // Null until the user confirms enrolment with a first code
+  enabledAt: timestamp("enabled_at"),
+  // Last accepted time step, so a code cannot be replayed
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+})
+
+// One-time recovery codes for when the authenticator app is unavailable
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+})
+
+// Failed sign-in counters per account ("account:<email>") and per client IP ("ip:<ip>")
+export const loginThrottles = pgTable("login_throttles", {
+  key: varchar("key", { length: 255 }).primaryKey(),
+  failures: integer("failures").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at").notNull(),
+  lockedUntil: timestamp("locked_until")
+})
+
+// Audit trail of security-relevant and administrative actions
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  // Null for actions triggered by the system or an anonymous client
+  actorId: integer("actor_id").references(() => users.id, { onDelete: "set null" }),
+  action: varchar("action", { length: 100 }).notNull(),
+  targetType: varchar("target_type", { length: 50 }).notNull(),
+  targetId: varchar("target_id", { length: 255 }),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+})
+
+// Versioned data-processing notices (Loi 09-08); the highest version is the one in force
+export const consentTexts = pgTable("consent_texts", {
+  id: serial("id").primaryKey(),
+  version: integer("version").notNull().unique(),
+  title: varchar("title", { length: 200 }).notNull(),
+  content: text("content").notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  publishedAt: timestamp("published_at").defaultNow().notNull()
+})
+
+// Each acceptance of a consent text by a user
+export const consents = pgTable("consents", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  consentTextId: integer("consent_text_id").references(() => consentTexts.id).notNull(),
+  source: consentSourceEnum("source").notNull(),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  acceptedAt: timestamp("accepted_at").defaultNow().notNull()
+}, (table) => ({
+  userTextUnique: unique("consents_user_text_unique").on(table.userId, table.consentTextId)
+}))
+
+// Retention rules applied by the purge job; one rule per kind of record
+export const retentionRules = pgTable("retention_rules", {
+  id: serial("id").primaryKey(),
+  target: retentionTargetEnum("target").notNull().unique(),
+  // Records older (or inactive for longer) than this are affected
+  months: integer("months").notNull(),
+  action: retentionActionEnum("action").notNull(),
+  enabled: boolean("enabled").notNull().default(false),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+})
+
+// Schools a sub-admin is responsible for
+export const schoolManagers = pgTable("school_managers", {
+  id: serial("id").primaryKey(),
+  schoolId: integer("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  schoolUserUnique: unique("school_managers_school_user_unique").on(table.schoolId, table.userId)
+}))
 
+// In-person class sessions of a group, on which the roll is called
+export const classSessions = pgTable("class_sessions", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").references(() => groups.id, { onDelete: "cascade" }).notNull(),
+  courseId: integer("course_id").references(() => courses.id, { onDelete: "set null" }),
+  trainerId: integer("trainer_id").references(() => users.id, { onDelete: "set null" }),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at"),
+  // Optional limits on QR self check-in: when it is accepted, and from which
+  // addresses (IPs or IPv4 CIDR ranges of the classroom network)
+  checkInOpensAt: timestamp("check_in_opens_at"),
+  checkInClosesAt: timestamp("check_in_closes_at"),
+  checkInAllowedIps: jsonb("check_in_allowed_ips").$type<string[]>().default([]).notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+})
+
+// One student's attendance at a session
+export const attendanceRecords = pgTable("attendance_records", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").references(() => classSessions.id, { onDelete: "cascade" }).notNull(),
+  studentId: integer("student_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  status: attendanceStatusEnum("status").notNull(),
+  justification: text("justification"),
+  // Supporting document (medical certificate...) uploaded through the platform
+  documentUrl: text("document_url"),
+  // Set when the student checked in by scanning the session QR code
+  checkedInAt: timestamp("checked_in_at"),
+  checkInIp: varchar("check_in_ip", { length: 45 }),
+  recordedBy: integer("recorded_by").references(() => users.id, { onDelete: "set null" }),
+  recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => ({
+  sessionStudentUnique: unique("attendance_records_session_student_unique").on(table.sessionId, table.studentId)
+}))
+
+// Observations written by staff about a student; "student" visibility shares the note with them
+export const studentNotes = pgTable("student_notes", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  authorId: integer("author_id").references(() => users.id, { onDelete: "set null" }),
+  courseId: integer("course_id").references(() => courses.id, { onDelete: "set null" }),
+  category: studentNoteCategoryEnum("category").notNull(),
+  visibility: studentNoteVisibilityEnum("visibility").default("staff").notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+})
+
+// In-app notifications shown to a user
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  title: varchar("title", { length: 200 }).notNull(),
+  message: text("message").notNull(),
+  link: varchar("link", { length: 500 }),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+})
@@ -25,24 +25,28 @@ async function seed() {
         password: hashedPassword,
         name: "Admin User",
         role: "ADMIN",
+        emailVerifiedAt: new Date(),
       },
       {
         email: "subadmin@example.com",
         password: hashedPassword,
         name: "Sub Admin User",
         role: "SUB_ADMIN",
+        emailVerifiedAt: new Date(),
       },
       {
         email: "teacher@example.com",
         password: hashedPassword,
         name: "Teacher User",
         role: "TRAINER",
+        emailVerifiedAt: new Date(),
       },
       {
         email: "student@example.com",
         password: hashedPassword,
         name: "Student User",
         role: "STUDENT",
+        emailVerifiedAt: new Date(),
       },
     ]
 
@@ -82,6 +86,7 @@ async function seed() {
             teacherId: teacher.id,
             domainId: domain.id,
             isActive: true,
+            status: "validated",
           },
           {
             title: "Advanced JavaScript Concepts",
@@ -89,6 +94,7 @@ async function seed() {
             teacherId: teacher.id,
             domainId: domain.id,
             isActive: true,
+            status: "validated",
           },
         ])
         .returning()
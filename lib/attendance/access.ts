@@ -0,0 +1,64 @@
+import type { AuthUser } from "@/lib/auth/auth"
+import { getAttendanceRecordById, getClassSessionById } from "@/lib/db/queries"
+import { getSchoolScope, isSchoolInScope } from "@/lib/schools"
+
+/**
+ * Load a class session of a group the user manages. Sessions of other
+ * schools are reported as missing, like their students.
+ */
+export async function getManagedSession(user: AuthUser, sessionId: number) {
+  const scope = await getSchoolScope(user)
+  if (!scope.allowed) {
+    return scope
+  }
+
+  const result = await getClassSessionById(sessionId)
+  if (!result.success) {
+    return { allowed: false as const, status: 500 as const, error: "Erreur lors de la récupération de la séance" }
+  }
+  const session = result.data
+  if (!session || !isSchoolInScope(scope.schoolIds, session.schoolId)) {
+    return { allowed: false as const, status: 404 as const, error: "Séance introuvable" }
+  }
+
+  return { allowed: true as const, schoolIds: scope.schoolIds, session }
+}
+
+// Load an attendance record taken on a session of a group the user manages
+export async function getManagedAttendanceRecord(user: AuthUser, recordId: number) {
+  const scope = await getSchoolScope(user)
+  if (!scope.allowed) {
+    return scope
+  }
+
+  const result = await getAttendanceRecordById(recordId)
+  if (!result.success) {
+    return { allowed: false as const, status: 500 as const, error: "Erreur lors de la récupération de la présence" }
+  }
+  if (!result.data || !isSchoolInScope(scope.schoolIds, result.data.schoolId)) {
+    return { allowed: false as const, status: 404 as const, error: "Présence introuvable" }
+  }
+
+  return { allowed: true as const, record: result.data.record }
+}
+
+/**
+ * Who may show the check-in QR code of a session: the managers of its
+ * group, and the trainer in charge of it.
+ */
+export async function getCheckInDisplayAccess(user: AuthUser, sessionId: number) {
+  if (user.role !== "TRAINER") {
+    return getManagedSession(user, sessionId)
+  }
+
+  const result = await getClassSessionById(sessionId)
+  if (!result.success) {
+    return { allowed: false as const, status: 500 as const, error: "Erreur lors de la récupération de la séance" }
+  }
+  const session = result.data
+  if (!session || session.trainerId !== Number(user.id)) {
+    return { allowed: false as const, status: 404 as const, error: "Séance introuvable" }
+  }
+
+  return { allowed: true as const, session }
+}
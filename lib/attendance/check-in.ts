@@ -0,0 +1,111 @@
+import { createHmac, timingSafeEqual } from "crypto"
+
+// The QR code shown in class changes every step; a scanned code stays valid
+// for the current and the previous step, so at most two steps
+const CHECK_IN_ROTATION_MS = 15_000
+const ACCEPTED_STEPS = 2
+
+function getSigningKey() {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error("NEXTAUTH_SECRET is required to sign check-in codes")
+  }
+  return secret
+}
+
+function sign(sessionId: number, step: number) {
+  return createHmac("sha256", getSigningKey()).update(`check-in:${sessionId}:${step}`).digest("base64url")
+}
+
+/**
+ * Code for the QR displayed in class right now, as `sessionId.step.signature`.
+ * Nothing is stored: the signature ties the code to the session and to a
+ * time step, so a photo of the screen is useless once it has rotated. It is
+ * not tied to the student nor single-use: within those ~30 seconds it can be
+ * passed on to someone outside, which only the session's allowed networks
+ * (see isIpAllowed) prevent.
+ */
+export function issueCheckInToken(sessionId: number, now = Date.now()) {
+  const step = Math.floor(now / CHECK_IN_ROTATION_MS)
+  return {
+    token: `${sessionId}.${step}.${sign(sessionId, step)}`,
+    refreshAt: new Date((step + 1) * CHECK_IN_ROTATION_MS),
+  }
+}
+
+// Session the scanned code belongs to, or null when it is forged or has expired
+export function verifyCheckInToken(token: string, now = Date.now()): number | null {
+  const [sessionPart, stepPart, signature] = token.split(".")
+  if (!/^\d+$/.test(sessionPart ?? "") || !/^\d+$/.test(stepPart ?? "") || !signature) {
+    return null
+  }
+
+  const sessionId = Number(sessionPart)
+  const step = Number(stepPart)
+  const currentStep = Math.floor(now / CHECK_IN_ROTATION_MS)
+  if (step > currentStep || currentStep - step >= ACCEPTED_STEPS) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(sessionId, step))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null
+  }
+  return sessionId
+}
+
+function ipv4ToNumber(ip: string) {
+  const parts = ip.split(".").map(Number)
+  if (parts.length !== 4 || parts.some((part) => !Number.isInteger(part) || part < 0 || part > 255)) {
+    return null
+  }
+  return parts.reduce((value, part) => value * 256 + part, 0)
+}
+
+// Whether the client address is one of the allowed IPs or inside an allowed IPv4
+// range. Only as reliable as getClientIp: the proxy in front of the app must
+// overwrite x-forwarded-for, or a client can claim any address
+export function isIpAllowed(ip: string, allowed: string[]) {
+  if (allowed.length === 0) {
+    return true
+  }
+
+  // IPv4 clients may show up as IPv4-mapped IPv6 addresses
+  const address = ip.toLowerCase().replace(/^::ffff:(?=\d+\.)/, "")
+  const numeric = ipv4ToNumber(address)
+
+  return allowed.some((entry) => {
+    const [range, bits] = entry.toLowerCase().split("/")
+    if (bits === undefined) {
+      return range === address
+    }
+
+    const base = ipv4ToNumber(range)
+    if (base === null || numeric === null) {
+      return false
+    }
+    const size = 2 ** (32 - Number(bits))
+    return Math.floor(numeric / size) === Math.floor(base / size)
+  })
+}
+
+// Why a check-in is refused at this moment, or null while the window is open
+export function getCheckInWindowError(
+  session: { checkInOpensAt: Date | null; checkInClosesAt: Date | null },
+  now = new Date()
+) {
+  if (session.checkInOpensAt && now < session.checkInOpensAt) {
+    return "L'émargement de cette séance n'est pas encore ouvert"
+  }
+  if (session.checkInClosesAt && now > session.checkInClosesAt) {
+    return "L'émargement de cette séance est fermé"
+  }
+  return null
+}
+
+// Page a student lands on after scanning the QR code
+export function getCheckInUrl(token: string): string {
+  const baseUrl = process.env.NEXTAUTH_URL || "http://localhost:3000"
+  return `${baseUrl.replace(/\/$/, "")}/etudiant/presence?code=${encodeURIComponent(token)}`
+}
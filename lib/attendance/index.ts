@@ -0,0 +1,8 @@
+export { getCheckInDisplayAccess, getManagedAttendanceRecord, getManagedSession } from "./access"
+export {
+  getCheckInUrl,
+  getCheckInWindowError,
+  isIpAllowed,
+  issueCheckInToken,
+  verifyCheckInToken,
+} from "./check-in"
@@ -0,0 +1 @@
+export { diffStates, getAuditContext, recordAudit, redact, type AuditEvent } from "./log"
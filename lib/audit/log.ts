@@ -0,0 +1,87 @@
+import type { AuthUser } from "@/types/user"
+import { createAuditLog } from "@/lib/db/queries"
+import { getClientIp } from "@/lib/security/rate-limit"
+
+export interface AuditEvent {
+  // Null for the system or an anonymous client
+  actorId?: number | null
+  // Dotted name, e.g. "user.update"
+  action: string
+  targetType: string
+  targetId?: string | number | null
+  // Entity state around the change; objects are reduced to the fields that changed
+  before?: unknown
+  after?: unknown
+  ipAddress?: string | null
+}
+
+// Never written to the trail, whatever entity they belong to and however
+// deeply they are nested
+const REDACTED_FIELDS = new Set(["password", "secret", "totpSecret", "token", "tokenHash", "codeHash", "otp", "code"])
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact)
+  }
+  if (!isPlainObject(value)) {
+    return value
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, REDACTED_FIELDS.has(key) ? "[masqué]" : redact(item)])
+  )
+}
+
+/**
+ * Keep only the fields that differ between two states of an entity. Anything
+ * that is not a pair of objects (a creation, a deletion) is kept whole.
+ */
+export function diffStates(before: unknown, after: unknown): { before: unknown; after: unknown } {
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    return { before: redact(before) ?? null, after: redact(after) ?? null }
+  }
+
+  const changedBefore: Record<string, unknown> = {}
+  const changedAfter: Record<string, unknown> = {}
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    // updatedAt moves on every write and says nothing the timestamp doesn't
+    if (key === "updatedAt" || !(key in after)) continue
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key]
+      changedAfter[key] = after[key]
+    }
+  }
+  return { before: redact(changedBefore), after: redact(changedAfter) }
+}
+
+// Actor and client IP of an API request
+export function getAuditContext(request: Request, user?: AuthUser | null) {
+  return {
+    actorId: user ? Number(user.id) : null,
+    ipAddress: getClientIp(request.headers),
+  }
+}
+
+/**
+ * Append an entry to the audit trail. Never throws: a failed write is logged
+ * and the audited action goes on.
+ */
+export async function recordAudit(event: AuditEvent) {
+  const diff = diffStates(event.before, event.after)
+  const result = await createAuditLog({
+    actorId: event.actorId ?? null,
+    action: event.action,
+    targetType: event.targetType,
+    targetId: event.targetId == null ? null : String(event.targetId),
+    before: diff.before,
+    after: diff.after,
+    ipAddress: event.ipAddress ?? null,
+  })
+
+  if (!result.success) {
+    console.error(`[Audit] Failed to record ${event.action}:`, result.error)
+  }
+}
@@ -1,7 +1,38 @@
 import { NextAuthOptions } from "next-auth"
 import CredentialsProvider from "next-auth/providers/credentials"
 import { compare } from "bcryptjs"
-import { getUserByEmail, getUserById } from "@/lib/db/queries"
+import {
+  getPendingConsentText,
+  getTwoFactorByUser,
+  getUserByEmail,
+  getUserById,
+  recordUserLogin,
+} from "@/lib/db/queries"
+import { isEmailVerificationBlocking } from "@/lib/auth/verification"
+import { verifySecondFactor } from "@/lib/auth/two-factor"
+import { isTwoFactorRequired } from "@/lib/auth/two-factor-policy"
+import { getClientIp } from "@/lib/security/rate-limit"
+import { recordAudit } from "@/lib/audit"
+import {
+  checkLoginThrottle,
+  clearLoginFailures,
+  registerLoginFailure,
+  type LoginThrottleStatus,
+} from "@/lib/security/login-throttle"
+
+// Error codes surfaced to the login form
+export const EMAIL_NOT_VERIFIED_ERROR = "EMAIL_NOT_VERIFIED"
+export const OTP_REQUIRED_ERROR = "OTP_REQUIRED"
+export const OTP_INVALID_ERROR = "OTP_INVALID"
+export const OTP_RATE_LIMITED_ERROR = "OTP_RATE_LIMITED"
+// Sent as "<code>:<seconds to wait>"
+export const LOGIN_LOCKED_ERROR = "LOGIN_LOCKED"
+export const LOGIN_DELAYED_ERROR = "LOGIN_DELAYED"
+
+function throttleError(status: Exclude<LoginThrottleStatus, { allowed: true }>) {
+  const code = status.reason === "locked" ? LOGIN_LOCKED_ERROR : LOGIN_DELAYED_ERROR
+  return new Error(`${code}:${status.retryAfterSeconds}`)
+}
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -9,16 +40,33 @@ export const authOptions: NextAuthOptions = {
       name: "Credentials",
       credentials: {
         email: { label: "Email", type: "email" },
-        password: { label: "Password", type: "password" }
+        password: { label: "Password", type: "password" },
+        otp: { label: "Code", type: "text" }
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         if (!credentials?.email || !credentials?.password) {
           return null
         }
 
+        // Failed passwords are throttled per account and per client IP
+        const ip = getClientIp(new Headers(req?.headers ?? {}))
+        const throttle = await checkLoginThrottle(credentials.email, ip)
+        if (!throttle.allowed) {
+          throw throttleError(throttle)
+        }
+
         const result = await getUserByEmail(credentials.email)
         
-        if (!result.success || !result.data) {
+        if (!result.success) {
+          return null
+        }
+
+        // Unknown emails count too, so they cannot be told apart from wrong passwords
+        if (!result.data) {
+          const status = await registerLoginFailure(credentials.email, ip)
+          if (!status.allowed) {
+            throw throttleError(status)
+          }
           return null
         }
 
@@ -31,8 +79,47 @@ export const authOptions: NextAuthOptions = {
 
         const isPasswordValid = await compare(credentials.password, user.password)
         if (!isPasswordValid) {
+          const status = await registerLoginFailure(credentials.email, ip, user.id)
+          if (!status.allowed) {
+            throw throttleError(status)
+          }
           return null
         }
+        await clearLoginFailures(credentials.email)
+
+        // Checked after the password so it does not reveal which emails exist
+        if (isEmailVerificationBlocking(user)) {
+          throw new Error(EMAIL_NOT_VERIFIED_ERROR)
+        }
+
+        // With 2FA enabled, the password alone only unlocks the code step
+        if (!credentials.otp) {
+          const twoFactor = await getTwoFactorByUser(user.id)
+          if (!twoFactor.success) {
+            return null
+          }
+          if (twoFactor.data?.enabledAt) {
+            throw new Error(OTP_REQUIRED_ERROR)
+          }
+        } else {
+          const secondFactor = await verifySecondFactor(user.id, credentials.otp)
+          if (secondFactor === "rate_limited") {
+            throw new Error(OTP_RATE_LIMITED_ERROR)
+          }
+          if (secondFactor === "invalid") {
+            throw new Error(OTP_INVALID_ERROR)
+          }
+        }
+
+        await recordAudit({
+          actorId: user.id,
+          action: "auth.login",
+          targetType: "user",
+          targetId: user.id,
+          ipAddress: ip,
+        })
+        // Last sign-in drives the inactivity retention rule
+        await recordUserLogin(user.id)
 
         // getUserByEmail returns user with avatarUrl from DB
         // All required fields: id, email, name, role, avatarUrl are accessible
@@ -62,6 +149,18 @@ export const authOptions: NextAuthOptions = {
           // Update token with latest active status from database
           token.active = result.data.isActive ?? true
           token.role = result.data.role
+
+          // Roles with mandatory 2FA are held on the enrolment page until done
+          if (isTwoFactorRequired(result.data.role)) {
+            const twoFactor = await getTwoFactorByUser(result.data.id)
+            token.twoFactorPending = twoFactor.success && !twoFactor.data?.enabledAt
+          } else {
+            token.twoFactorPending = false
+          }
+
+          // A new version of the consent text has to be accepted before going on
+          const pendingConsent = await getPendingConsentText(result.data.id)
+          token.consentPending = pendingConsent.success && !!pendingConsent.data
         } else {
           // User not found or error - mark as inactive
           token.active = false
@@ -75,6 +174,8 @@ export const authOptions: NextAuthOptions = {
         session.user.role = token.role
         session.user.id = token.id as string
         ;(session.user as any).active = (token as any).active ?? true
+        ;(session.user as any).twoFactorPending = (token as any).twoFactorPending ?? false
+        ;(session.user as any).consentPending = (token as any).consentPending ?? false
       }
       return session
     }
@@ -8,8 +8,12 @@ import type { AuthUser } from "@/types/user"
 export type User = AuthUser
 export type { AuthUser }
 
-// Get current user from NextAuth session
-export async function getCurrentUser(): Promise<AuthUser | null> {
+// Get current user from NextAuth session. Accounts that still have to
+// enrol a mandatory second factor, or accept the latest consent text, only
+// get through where it is allowed.
+export async function getCurrentUser(
+  options: { allowPendingTwoFactor?: boolean; allowPendingConsent?: boolean } = {}
+): Promise<AuthUser | null> {
   try {
     const session = await getServerSession(authOptions)
     
@@ -22,6 +26,14 @@ export async function getCurrentUser(): Promise<AuthUser | null> {
       return null
     }
 
+    if ((session.user as any).twoFactorPending && !options.allowPendingTwoFactor) {
+      return null
+    }
+
+    if ((session.user as any).consentPending && !options.allowPendingConsent) {
+      return null
+    }
+
     return {
       id: session.user.id,
       email: session.user.email,
@@ -37,7 +49,9 @@ export async function getCurrentUser(): Promise<AuthUser | null> {
 
 // Require authentication with role-based access control
 export async function requireAuth(allowedRoles?: string[]) {
-  const user = await getCurrentUser()
+  // Layouts render for pending 2FA or consent accounts: the middleware
+  // already keeps them on their security or consent page
+  const user = await getCurrentUser({ allowPendingTwoFactor: true, allowPendingConsent: true })
 
   if (!user) {
     redirect("/connexion")
@@ -0,0 +1,12 @@
+import { getAppUrl, passwordResetEmail, sendMail } from "@/lib/mail"
+import { issueAuthToken } from "./tokens"
+
+export async function sendPasswordResetEmail(user: { id: number; email: string; name: string }) {
+  const token = await issueAuthToken(user.id, "password_reset")
+  if (!token) {
+    return { success: false as const, error: "Erreur lors de la création du lien de réinitialisation" }
+  }
+
+  const url = getAppUrl(`/reinitialiser-mot-de-passe?token=${encodeURIComponent(token)}`)
+  return sendMail({ to: user.email, ...passwordResetEmail(user.name, url) })
+}
@@ -0,0 +1,67 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto"
+import { consumeAuthToken, createAuthToken } from "@/lib/db/queries"
+
+export type AuthTokenType = "email_verification" | "password_reset"
+
+const TOKEN_TTL_MS: Record<AuthTokenType, number> = {
+  email_verification: 24 * 60 * 60 * 1000,
+  password_reset: 60 * 60 * 1000,
+}
+
+function getSigningKey() {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error("NEXTAUTH_SECRET is required to sign email tokens")
+  }
+  return secret
+}
+
+function sign(type: AuthTokenType, secret: string) {
+  return createHmac("sha256", getSigningKey()).update(`${type}:${secret}`).digest("base64url")
+}
+
+function hashSecret(secret: string) {
+  return createHash("sha256").update(secret).digest("hex")
+}
+
+/**
+ * Issue a single-use token for the user and return it as `secret.signature`.
+ * Only the hash of the secret is stored; the signature lets forged or
+ * mistyped tokens be rejected without a database lookup.
+ */
+export async function issueAuthToken(userId: number, type: AuthTokenType): Promise<string | null> {
+  const secret = randomBytes(32).toString("base64url")
+  const result = await createAuthToken({
+    userId,
+    type,
+    tokenHash: hashSecret(secret),
+    expiresAt: new Date(Date.now() + TOKEN_TTL_MS[type]),
+  })
+  if (!result.success) {
+    return null
+  }
+  return `${secret}.${sign(type, secret)}`
+}
+
+/**
+ * Check and burn a token. Returns the user it was issued to, or null when
+ * the token is malformed, forged, expired or already used.
+ */
+export async function redeemAuthToken(token: string, type: AuthTokenType): Promise<number | null> {
+  const [secret, signature, ...rest] = token.split(".")
+  if (!secret || !signature || rest.length > 0) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(type, secret))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null
+  }
+
+  const result = await consumeAuthToken(hashSecret(secret), type)
+  if (!result.success) {
+    throw new Error(result.error)
+  }
+  return result.data ? result.data.userId : null
+}
@@ -0,0 +1,143 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from "crypto"
+
+// RFC 6238 defaults understood by every authenticator app
+const TOTP_PERIOD_SECONDS = 30
+const TOTP_DIGITS = 6
+// Accept the previous and next step to absorb clock drift
+const TOTP_WINDOW = 1
+const ISSUER = "Erchad"
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+
+function base32Encode(buffer: Buffer) {
+  let bits = 0
+  let value = 0
+  let output = ""
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return output
+}
+
+function base32Decode(input: string) {
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error("Invalid base32 character")
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+// HOTP (RFC 4226) for one counter value
+function generateCode(secret: Buffer, counter: number) {
+  const counterBuffer = Buffer.alloc(8)
+  counterBuffer.writeBigUInt64BE(BigInt(counter))
+  const digest = createHmac("sha1", secret).update(counterBuffer).digest()
+  const offset = digest[digest.length - 1] & 15
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0")
+}
+
+export function getTotpStep(now = Date.now()) {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS)
+}
+
+export function generateTotpSecret() {
+  return base32Encode(randomBytes(20))
+}
+
+export function getTotpCode(secret: string, now = Date.now()) {
+  return generateCode(base32Decode(secret), getTotpStep(now))
+}
+
+// URI encoded in the enrolment QR code
+export function buildOtpauthUri(secret: string, accountName: string) {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+/**
+ * Check a code against the secret. Returns the matching time step, which the
+ * caller records to refuse replays, or null if the code is wrong.
+ */
+export function verifyTotp(secret: string, code: string, now = Date.now()): number | null {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) {
+    return null
+  }
+
+  const key = base32Decode(secret)
+  const currentStep = getTotpStep(now)
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const step = currentStep + offset
+    if (timingSafeEqual(Buffer.from(generateCode(key, step)), Buffer.from(code))) {
+      return step
+    }
+  }
+  return null
+}
+
+function getEncryptionKey() {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error("NEXTAUTH_SECRET is required to encrypt TOTP secrets")
+  }
+  return createHash("sha256").update(`totp:${secret}`).digest()
+}
+
+// AES-256-GCM, stored as iv.tag.ciphertext in base64url
+export function encryptTotpSecret(secret: string) {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv)
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()])
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64url")).join(".")
+}
+
+export function decryptTotpSecret(stored: string) {
+  const [iv, tag, encrypted] = stored.split(".").map((part) => Buffer.from(part, "base64url"))
+  const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8")
+}
+
+const RECOVERY_CODE_COUNT = 10
+
+export function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+export function hashRecoveryCode(code: string) {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex")
+}
+
+// Codes shown once to the user, formatted as xxxxx-xxxxx
+export function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase()
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`
+  })
+}
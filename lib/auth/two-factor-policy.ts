@@ -0,0 +1,23 @@
+import type { Role } from "@/lib/schemas/user"
+
+// Roles that cannot use the platform until they have enrolled an authenticator.
+// Kept free of Node APIs so the middleware can import it.
+export const TWO_FACTOR_REQUIRED_ROLES: readonly Role[] = ["ADMIN", "SUB_ADMIN"]
+
+export function isTwoFactorRequired(role: string | null | undefined) {
+  return TWO_FACTOR_REQUIRED_ROLES.includes(role as Role)
+}
+
+// Page where each role manages its second factor
+export function getSecuritySettingsPath(role: string | null | undefined) {
+  switch (role) {
+    case "ADMIN":
+      return "/admin/settings"
+    case "SUB_ADMIN":
+      return "/sous-admin/securite"
+    case "TRAINER":
+      return "/formateur/securite"
+    default:
+      return "/etudiant/profil"
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  consumeRecoveryCode,
+  getTwoFactorByUser,
+  recordTotpStep,
+} from "@/lib/db/queries"
+import { checkRateLimit } from "@/lib/security/rate-limit"
+import { decryptTotpSecret, hashRecoveryCode, verifyTotp } from "./totp"
+
+// Second-factor attempts allowed per account and window
+const OTP_RATE_LIMIT = { limit: 5, windowMs: 5 * 60 * 1000 }
+
+export type SecondFactorResult = "not_enrolled" | "valid" | "invalid" | "rate_limited"
+
+/**
+ * Check a 6-digit authenticator code, or a recovery code, for a user with
+ * 2FA enabled. Accepted TOTP steps and recovery codes cannot be reused.
+ */
+export async function verifySecondFactor(
+  userId: number,
+  code: string,
+  options: { allowRecoveryCode?: boolean } = {}
+): Promise<SecondFactorResult> {
+  const record = await getTwoFactorByUser(userId)
+  if (!record.success) {
+    throw new Error(record.error)
+  }
+  if (!record.data?.enabledAt) {
+    return "not_enrolled"
+  }
+
+  const rateLimit = await checkRateLimit(`otp:${userId}`, OTP_RATE_LIMIT)
+  if (!rateLimit.allowed) {
+    return "rate_limited"
+  }
+
+  const trimmed = code.trim()
+  if (/^\d{6}$/.test(trimmed)) {
+    const step = verifyTotp(decryptTotpSecret(record.data.secret), trimmed)
+    if (step === null) {
+      return "invalid"
+    }
+    const recorded = await recordTotpStep(userId, step)
+    return recorded.success && recorded.data ? "valid" : "invalid"
+  }
+
+  if (options.allowRecoveryCode === false) {
+    return "invalid"
+  }
+  const consumed = await consumeRecoveryCode(userId, hashRecoveryCode(trimmed))
+  return consumed.success && consumed.data ? "valid" : "invalid"
+}
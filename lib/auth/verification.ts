@@ -0,0 +1,32 @@
+import { getAppUrl, sendMail, verificationEmail } from "@/lib/mail"
+import { issueAuthToken } from "./tokens"
+
+/**
+ * Days an unverified account may still sign in after registering, from
+ * EMAIL_VERIFICATION_GRACE_DAYS. 0 (the default) requires verification first.
+ */
+function getGraceDays() {
+  const days = Number(process.env.EMAIL_VERIFICATION_GRACE_DAYS || 0)
+  return Number.isFinite(days) && days > 0 ? days : 0
+}
+
+export function isEmailVerificationBlocking(
+  user: { emailVerifiedAt: Date | null; createdAt: Date },
+  now = new Date()
+) {
+  if (user.emailVerifiedAt) {
+    return false
+  }
+  const graceEndsAt = user.createdAt.getTime() + getGraceDays() * 24 * 60 * 60 * 1000
+  return now.getTime() >= graceEndsAt
+}
+
+export async function sendVerificationEmail(user: { id: number; email: string; name: string }) {
+  const token = await issueAuthToken(user.id, "email_verification")
+  if (!token) {
+    return { success: false as const, error: "Erreur lors de la création du lien de vérification" }
+  }
+
+  const url = getAppUrl(`/verification-email?token=${encodeURIComponent(token)}`)
+  return sendMail({ to: user.email, ...verificationEmail(user.name, url) })
+}
@@ -0,0 +1,8 @@
+export { issueCertificateIfEligible } from "./issue"
+export { renderCertificatePdf, type CertificatePdfData } from "./pdf"
+export { getCertificateVerificationUrl } from "./verification-url"
+export {
+  verifyCertificateHash,
+  type CertificateVerification,
+  type PublicCertificate,
+} from "./verify"
@@ -0,0 +1,56 @@
+import { randomBytes } from "crypto"
+import {
+  createCertificate,
+  getCertificateByEnrollmentId,
+  getCourseProgressSummary,
+  getEnrollmentByStudentAndCourse,
+} from "@/lib/db/queries"
+import { hasPassedAllCourseQuizzes } from "@/lib/quizzes"
+import { hasApprovedRequiredProject } from "@/lib/projects"
+
+/**
+ * Issue the course certificate once the student has completed every chapter,
+ * passed every quiz of the course and, when the course requires one, had the
+ * final project approved. Safe to call repeatedly: an existing
+ * certificate is returned as-is.
+ */
+export async function issueCertificateIfEligible(studentId: number, courseId: number) {
+  const enrollmentResult = await getEnrollmentByStudentAndCourse(studentId, courseId)
+  if (!enrollmentResult.success || !enrollmentResult.data) {
+    return { success: false as const, error: "Enrollment not found" }
+  }
+  const enrollment = enrollmentResult.data
+
+  const existing = await getCertificateByEnrollmentId(enrollment.id)
+  if (!existing.success) {
+    return { success: false as const, error: existing.error }
+  }
+  if (existing.data) {
+    return { success: true as const, data: existing.data, issued: false }
+  }
+
+  const summaryResult = await getCourseProgressSummary(studentId, courseId)
+  if (!summaryResult.success) {
+    return { success: false as const, error: summaryResult.error }
+  }
+  const summary = summaryResult.data
+
+  // overallProgress is rounded: 199 of 200 chapters already reads 100
+  const allChaptersCompleted = summary.totalChapters > 0 && summary.chaptersCompleted === summary.totalChapters
+  const allQuizzesPassed = await hasPassedAllCourseQuizzes(studentId, courseId)
+  const projectApproved = await hasApprovedRequiredProject(studentId, courseId)
+  if (!allChaptersCompleted || !allQuizzesPassed || !projectApproved) {
+    return { success: true as const, data: null, issued: false }
+  }
+
+  const result = await createCertificate({
+    enrollmentId: enrollment.id,
+    hash: randomBytes(32).toString("hex"),
+    finalGrade: summary.totalQuizzes > 0 ? summary.averageQuizScore : null,
+  })
+  if (!result.success) {
+    return { success: false as const, error: result.error }
+  }
+
+  return { success: true as const, data: result.data, issued: true }
+}
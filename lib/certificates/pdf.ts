@@ -0,0 +1,111 @@
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib"
+import QRCode from "qrcode"
+import { getCertificateVerificationUrl } from "./verification-url"
+
+export interface CertificatePdfData {
+  hash: string
+  studentName: string
+  courseTitle: string
+  domainName: string | null
+  teacherName: string | null
+  finalGrade: number | null
+  issuedAt: Date
+}
+
+const PRIMARY = rgb(0.06, 0.46, 0.43)
+const TEXT = rgb(0.12, 0.12, 0.14)
+const MUTED = rgb(0.42, 0.44, 0.48)
+
+// Standard fonts only cover WinAnsi: strip accents/characters they cannot encode
+function toPdfText(text: string): string {
+  return text
+    .normalize("NFC")
+    .replace(/[^\x20-\x7E\u00A0-\u00FF]/g, (char) => char.normalize("NFD").replace(/[^\x20-\x7E]/g, "") || "?")
+}
+
+/**
+ * Render a landscape A4 certificate with a verification QR code
+ */
+export async function renderCertificatePdf(data: CertificatePdfData): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(`Certificat - ${data.courseTitle}`)
+  pdf.setAuthor("Najm Academy")
+
+  const page = pdf.addPage([841.89, 595.28])
+  const { width, height } = page.getSize()
+  const regular = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+
+  const drawCentered = (text: string, y: number, size: number, font = regular, color = TEXT) => {
+    const safeText = toPdfText(text)
+    const textWidth = font.widthOfTextAtSize(safeText, size)
+    page.drawText(safeText, { x: (width - textWidth) / 2, y, size, font, color })
+  }
+
+  // Frame
+  page.drawRectangle({
+    x: 24,
+    y: 24,
+    width: width - 48,
+    height: height - 48,
+    borderColor: PRIMARY,
+    borderWidth: 3,
+  })
+  page.drawRectangle({
+    x: 34,
+    y: 34,
+    width: width - 68,
+    height: height - 68,
+    borderColor: PRIMARY,
+    borderWidth: 0.75,
+  })
+
+  drawCentered("NAJM ACADEMY", height - 100, 16, bold, PRIMARY)
+  drawCentered("Certificat de réussite", height - 150, 34, bold)
+  drawCentered("Ce certificat est décerné à", height - 200, 14, regular, MUTED)
+  drawCentered(data.studentName, height - 245, 30, bold)
+  drawCentered("pour avoir suivi avec succès la formation", height - 285, 14, regular, MUTED)
+  drawCentered(data.courseTitle, height - 320, 22, bold, PRIMARY)
+  if (data.domainName) {
+    drawCentered(`Domaine : ${data.domainName}`, height - 348, 12, regular, MUTED)
+  }
+
+  const issuedAt = data.issuedAt.toLocaleDateString("fr-FR", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  })
+  const details = [
+    `Délivré le ${issuedAt}`,
+    data.finalGrade !== null ? `Note finale : ${data.finalGrade}%` : null,
+    data.teacherName ? `Formateur : ${data.teacherName}` : null,
+  ].filter((line): line is string => line !== null)
+
+  details.forEach((line, index) => {
+    page.drawText(toPdfText(line), { x: 70, y: 150 - index * 20, size: 12, font: regular, color: TEXT })
+  })
+  page.drawText(`Référence : ${data.hash.slice(0, 16).toUpperCase()}`, {
+    x: 70,
+    y: 70,
+    size: 9,
+    font: regular,
+    color: MUTED,
+  })
+
+  // Verification QR code
+  const verificationUrl = getCertificateVerificationUrl(data.hash)
+  const qrPng = await QRCode.toBuffer(verificationUrl, { type: "png", margin: 1, width: 240 })
+  const qrImage = await pdf.embedPng(qrPng)
+  const qrSize = 110
+  page.drawImage(qrImage, { x: width - 70 - qrSize, y: 80, width: qrSize, height: qrSize })
+  const caption = "Vérifier ce certificat"
+  page.drawText(caption, {
+    x: width - 70 - qrSize / 2 - regular.widthOfTextAtSize(caption, 9) / 2,
+    y: 66,
+    size: 9,
+    font: regular,
+    color: MUTED,
+  })
+
+  return pdf.save()
+}
@@ -0,0 +1,7 @@
+/**
+ * Public URL encoded in the certificate QR code
+ */
+export function getCertificateVerificationUrl(hash: string): string {
+  const baseUrl = process.env.NEXTAUTH_URL || "http://localhost:3000"
+  return `${baseUrl.replace(/\/$/, "")}/verify?hash=${hash}`
+}
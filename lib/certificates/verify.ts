@@ -0,0 +1,64 @@
+import { getCertificateByHash } from "@/lib/db/queries"
+import { checkRateLimit } from "@/lib/security/rate-limit"
+
+// Lookups allowed per client IP and window, shared by the page and the API
+const VERIFY_RATE_LIMIT = { limit: 20, windowMs: 10 * 60 * 1000 }
+const HASH_PATTERN = /^[a-f0-9]{64}$/
+
+export interface PublicCertificate {
+  studentName: string
+  courseTitle: string
+  domainName: string | null
+  issuedAt: string
+  status: "valid" | "revoked"
+  revokedAt: string | null
+}
+
+export type CertificateVerification =
+  | { status: "rate_limited"; retryAfterSeconds: number }
+  | { status: "invalid" }
+  | { status: "not_found" }
+  | { status: "found"; certificate: PublicCertificate }
+
+/**
+ * Look up a certificate by its public hash for unauthenticated verification.
+ * Every attempt counts toward the client's rate limit to prevent enumeration.
+ */
+export async function verifyCertificateHash(
+  hash: string | null | undefined,
+  clientIp: string
+): Promise<CertificateVerification> {
+  const rateLimit = await checkRateLimit(`verify:${clientIp}`, VERIFY_RATE_LIMIT)
+  if (!rateLimit.allowed) {
+    return {
+      status: "rate_limited",
+      retryAfterSeconds: Math.max(1, Math.ceil((rateLimit.resetAt.getTime() - Date.now()) / 1000)),
+    }
+  }
+
+  const normalizedHash = hash?.trim().toLowerCase()
+  if (!normalizedHash || !HASH_PATTERN.test(normalizedHash)) {
+    return { status: "invalid" }
+  }
+
+  const result = await getCertificateByHash(normalizedHash)
+  if (!result.success) {
+    throw new Error(result.error)
+  }
+  if (!result.data) {
+    return { status: "not_found" }
+  }
+
+  const certificate = result.data
+  return {
+    status: "found",
+    certificate: {
+      studentName: certificate.studentName,
+      courseTitle: certificate.courseTitle,
+      domainName: certificate.domainName,
+      issuedAt: certificate.issuedAt.toISOString(),
+      status: certificate.revokedAt ? "revoked" : "valid",
+      revokedAt: certificate.revokedAt ? certificate.revokedAt.toISOString() : null,
+    },
+  }
+}
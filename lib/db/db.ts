@@ -6,11 +6,12 @@ export {
   getUserById,
   getAllUsers,
 } from "./queries"
+import { anonymizeUser, userHasLinkedRecords } from "./queries"
 
 // Legacy functions that need to be migrated or removed
 // These are kept for backward compatibility but should be updated to use Drizzle
 import { db, handleDbError } from "./index"
-import { users } from "@/drizzle/schema"
+import { notifications, users } from "@/drizzle/schema"
 import { eq, and, ne } from "drizzle-orm"
 
 export async function updateUserStatus(id: number, isActive: boolean) {
@@ -31,6 +32,19 @@ export async function updateUserStatus(id: number, isActive: boolean) {
   }
 }
 
+async function isLastActiveAdmin(user: typeof users.$inferSelect) {
+  if (user.role !== "ADMIN" || !user.isActive) {
+    return false
+  }
+
+  const otherActiveAdmins = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.role, "ADMIN"), eq(users.isActive, true), ne(users.id, user.id)))
+
+  return (otherActiveAdmins?.length || 0) === 0
+}
+
 export async function deleteUser(id: number) {
   try {
     // Fetch target user
@@ -41,24 +55,53 @@ export async function deleteUser(id: number) {
     const targetUser = target[0]
 
     // If target is ADMIN, ensure there is at least one other active admin
-    if (targetUser.role === "ADMIN") {
-      const otherActiveAdmins = await db
-        .select({ id: users.id })
-        .from(users)
-        .where(and(eq(users.role, "ADMIN"), eq(users.isActive, true), ne(users.id, id)))
+    if (await isLastActiveAdmin(targetUser)) {
+      return { success: false, error: "Cannot delete the last admin user" }
+    }
 
-      if ((otherActiveAdmins?.length || 0) === 0 && targetUser.isActive) {
-        return { success: false, error: "Cannot delete the last admin user" }
+    // Removing an account that enrollments, progress, attempts or authored
+    // content point at would break their history: it is anonymized instead
+    const linked = await userHasLinkedRecords(id)
+    if (!linked.success) {
+      return linked
+    }
+    if (linked.data) {
+      const anonymized = await anonymizeUser(id)
+      if (!anonymized.success) {
+        return anonymized
       }
+      return { success: true, data: anonymized.data, mode: "anonymized" as const }
     }
 
-    // Hard delete: permanently remove user from database
-    const result = await db
-      .delete(users)
-      .where(eq(users.id, id))
-      .returning()
+    // Nothing refers to the account: remove it for good (tokens, 2FA and
+    // consents cascade, audit entries keep a null actor)
+    const result = await db.transaction(async (tx) => {
+      await tx.delete(notifications).where(eq(notifications.userId, id))
+      return tx.delete(users).where(eq(users.id, id)).returning()
+    })
 
-    return { success: true, data: result[0] }
+    return { success: true, data: result[0], mode: "deleted" as const }
+  } catch (error) {
+    return handleDbError(error)
+  }
+}
+
+// Erasure requested by the person: the account is anonymized even when
+// nothing refers to it, so the request itself stays traceable
+export async function eraseUser(id: number) {
+  try {
+    const target = await db.select().from(users).where(eq(users.id, id)).limit(1)
+    if (!target || target.length === 0) {
+      return { success: false, error: "User not found" }
+    }
+    if (target[0].anonymizedAt) {
+      return { success: false, error: "User already anonymized" }
+    }
+    if (await isLastActiveAdmin(target[0])) {
+      return { success: false, error: "Cannot erase the last admin user" }
+    }
+
+    return anonymizeUser(id)
   } catch (error) {
     return handleDbError(error)
   }
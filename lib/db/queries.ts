@@ -1,5 +1,6 @@
-import { eq, and, desc, sql, ne } from "drizzle-orm";
+import { eq, and, or, desc, sql, ne, inArray, ilike, gte, lt, type AnyColumn, type SQL } from "drizzle-orm";
 import { hash } from "bcryptjs";
+import { randomBytes } from "crypto";
 import { db, handleDbError } from "./index";
 import {
   users,
@@ -12,7 +13,28 @@ import {
   quizAttempts,
   finalProjects,
   projectSubmissions,
+  certificates,
+  rateLimitBuckets,
+  notifications,
+  questionBanks,
+  bankQuestions,
+  rubrics,
+  authTokens,
+  userTwoFactor,
+  recoveryCodes,
+  loginThrottles,
+  auditLogs,
+  consentTexts,
+  consents,
+  retentionRules,
+  schools,
+  groups,
+  schoolManagers,
+  classSessions,
+  attendanceRecords,
+  studentNotes,
 } from "@/drizzle/schema";
+import { alias } from "drizzle-orm/pg-core";
 import {
   mapUserFromDb,
   mapUserToDb,
@@ -20,7 +42,14 @@ import {
   mapEnrollmentFromDb,
 } from "./mappers";
 import type { User } from "@/types/user";
+import type { CourseStatus } from "@/lib/schemas/course";
+import type { ProjectFile, ProjectSubmissionStatus } from "@/lib/schemas/project";
+import type { RetentionAction, RetentionTarget } from "@/lib/schemas/retention";
+import type { AttendanceStatus } from "@/lib/schemas/attendance";
+import type { StudentNoteCategory, StudentNoteVisibility } from "@/lib/schemas/student-note";
 import { generateSlug, generateUniqueSlug } from "@/lib/utils/slug";
+import { computeQuizOutcome } from "@/lib/quizzes/scoring";
+import { removeUploadedFiles } from "@/lib/privacy/uploads";
 
 // User query functions
 export async function getUserByEmail(email: string) {
@@ -37,6 +66,16 @@ export async function getUserByEmail(email: string) {
   }
 }
 
+export async function recordUserLogin(userId: number) {
+  try {
+    await db.update(users).set({ lastLoginAt: new Date() }).where(eq(users.id, userId));
+
+    return { success: true as const };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
 export async function createUser(data: {
   email: string;
   password: string;
@@ -64,6 +103,8 @@ export async function createUser(data: {
       avatarUrl: data.avatarUrl,
       isActive: data.isActive ?? true,
       country: data.country || "Morocco",
+      // Accounts created by an administrator skip email verification
+      emailVerifiedAt: new Date(),
     };
 
     // Add optional fields if they exist
@@ -183,6 +224,8 @@ export async function updateUser(
     postalCode: string | null;
     country: string | null;
     bio: string | null;
+    schoolId: number | null;
+    groupId: number | null;
   }>
 ) {
   try {
@@ -235,6 +278,325 @@ export async function validateTeacherAssignment(teacherId: number) {
   }
 }
 
+// Personal data query functions
+// Everything held about a user, for a data-subject access request. Secrets
+// (password, 2FA, tokens) and answer keys are left out.
+export async function getUserDataExport(userId: number) {
+  try {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (!user) {
+      return { success: true as const, data: null };
+    }
+    const { password, ...profile } = user;
+
+    const userEnrollments = await db
+      .select({
+        id: enrollments.id,
+        courseId: enrollments.courseId,
+        courseTitle: courses.title,
+        enrolledAt: enrollments.createdAt,
+        completedAt: enrollments.completedAt,
+      })
+      .from(enrollments)
+      .leftJoin(courses, eq(enrollments.courseId, courses.id))
+      .where(eq(enrollments.studentId, userId))
+      .orderBy(enrollments.createdAt);
+
+    const progress = await db
+      .select({
+        chapterId: chapterProgress.chapterId,
+        chapterTitle: chapters.title,
+        courseTitle: courses.title,
+        completedAt: chapterProgress.completedAt,
+      })
+      .from(chapterProgress)
+      .leftJoin(chapters, eq(chapterProgress.chapterId, chapters.id))
+      .leftJoin(courses, eq(chapters.courseId, courses.id))
+      .where(eq(chapterProgress.studentId, userId))
+      .orderBy(chapterProgress.completedAt);
+
+    const attempts = await db
+      .select({
+        id: quizAttempts.id,
+        quizId: quizAttempts.quizId,
+        quizTitle: quizzes.title,
+        answers: quizAttempts.answers,
+        score: quizAttempts.score,
+        passed: quizAttempts.passed,
+        status: quizAttempts.status,
+        feedback: quizAttempts.feedback,
+        timedOut: quizAttempts.timedOut,
+        startedAt: quizAttempts.startedAt,
+        submittedAt: quizAttempts.attemptedAt,
+        reviewedAt: quizAttempts.reviewedAt,
+      })
+      .from(quizAttempts)
+      .leftJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+      .where(eq(quizAttempts.studentId, userId))
+      .orderBy(quizAttempts.startedAt);
+
+    const submissions = await db
+      .select({
+        id: projectSubmissions.id,
+        projectTitle: finalProjects.title,
+        submissionUrl: projectSubmissions.submissionUrl,
+        description: projectSubmissions.description,
+        files: projectSubmissions.files,
+        status: projectSubmissions.status,
+        grade: projectSubmissions.grade,
+        feedback: projectSubmissions.feedback,
+        rubricEvaluation: projectSubmissions.rubricEvaluation,
+        submittedAt: projectSubmissions.submittedAt,
+        reviewedAt: projectSubmissions.reviewedAt,
+      })
+      .from(projectSubmissions)
+      .leftJoin(finalProjects, eq(projectSubmissions.finalProjectId, finalProjects.id))
+      .where(eq(projectSubmissions.studentId, userId))
+      .orderBy(projectSubmissions.submittedAt);
+
+    const userCertificates = await db
+      .select({
+        id: certificates.id,
+        courseTitle: courses.title,
+        hash: certificates.hash,
+        finalGrade: certificates.finalGrade,
+        issuedAt: certificates.issuedAt,
+        revokedAt: certificates.revokedAt,
+        revocationReason: certificates.revocationReason,
+      })
+      .from(certificates)
+      .innerJoin(enrollments, eq(certificates.enrollmentId, enrollments.id))
+      .leftJoin(courses, eq(enrollments.courseId, courses.id))
+      .where(eq(enrollments.studentId, userId))
+      .orderBy(certificates.issuedAt);
+
+    const userConsents = await db
+      .select({
+        version: consentTexts.version,
+        title: consentTexts.title,
+        source: consents.source,
+        ipAddress: consents.ipAddress,
+        acceptedAt: consents.acceptedAt,
+      })
+      .from(consents)
+      .innerJoin(consentTexts, eq(consents.consentTextId, consentTexts.id))
+      .where(eq(consents.userId, userId))
+      .orderBy(consents.acceptedAt);
+
+    const attendance = await db
+      .select({
+        sessionStartsAt: classSessions.startsAt,
+        courseTitle: courses.title,
+        status: attendanceRecords.status,
+        justification: attendanceRecords.justification,
+        documentUrl: attendanceRecords.documentUrl,
+        recordedAt: attendanceRecords.recordedAt,
+      })
+      .from(attendanceRecords)
+      .innerJoin(classSessions, eq(attendanceRecords.sessionId, classSessions.id))
+      .leftJoin(courses, eq(classSessions.courseId, courses.id))
+      .where(eq(attendanceRecords.studentId, userId))
+      .orderBy(classSessions.startsAt);
+
+    // The right of access covers every note about the student, shared or not
+    const notes = await db
+      .select({
+        courseTitle: courses.title,
+        category: studentNotes.category,
+        visibility: studentNotes.visibility,
+        content: studentNotes.content,
+        createdAt: studentNotes.createdAt,
+      })
+      .from(studentNotes)
+      .leftJoin(courses, eq(studentNotes.courseId, courses.id))
+      .where(eq(studentNotes.studentId, userId))
+      .orderBy(studentNotes.createdAt);
+
+    const userNotifications = await db
+      .select({
+        title: notifications.title,
+        message: notifications.message,
+        readAt: notifications.readAt,
+        createdAt: notifications.createdAt,
+      })
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(notifications.createdAt);
+
+    return {
+      success: true as const,
+      data: {
+        profile,
+        enrollments: userEnrollments,
+        progress,
+        quizAttempts: attempts,
+        projectSubmissions: submissions,
+        certificates: userCertificates,
+        consents: userConsents,
+        attendance,
+        notes,
+        notifications: userNotifications,
+      },
+    };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Whether other rows point at the user (learning records, authored content,
+// reviews), in which case the account can only be anonymized
+export async function userHasLinkedRecords(userId: number) {
+  try {
+    const result = await db.select({
+      linked: sql<boolean>`(
+        exists (select 1 from ${enrollments} where ${enrollments.studentId} = ${userId})
+        or exists (select 1 from ${chapterProgress} where ${chapterProgress.studentId} = ${userId})
+        or exists (select 1 from ${quizAttempts} where ${quizAttempts.studentId} = ${userId} or ${quizAttempts.reviewedBy} = ${userId})
+        or exists (select 1 from ${projectSubmissions} where ${projectSubmissions.studentId} = ${userId} or ${projectSubmissions.reviewedBy} = ${userId})
+        or exists (select 1 from ${courses} where ${courses.teacherId} = ${userId} or ${courses.reviewedBy} = ${userId})
+        or exists (select 1 from ${questionBanks} where ${questionBanks.ownerId} = ${userId})
+        or exists (select 1 from ${attendanceRecords} where ${attendanceRecords.studentId} = ${userId})
+      )`,
+    }).from(users).where(eq(users.id, userId));
+
+    return { success: true as const, data: result[0]?.linked ?? false };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export const ANONYMIZED_USER_NAME = "Utilisateur anonymisé";
+
+// Columns of the users row overwritten on erasure, as named in the audit trail
+export const ANONYMIZED_USER_FIELDS = [
+  "name",
+  "email",
+  "password",
+  "avatarUrl",
+  "phone",
+  "dateOfBirth",
+  "address",
+  "city",
+  "postalCode",
+  "country",
+  "bio",
+] as const;
+
+/**
+ * Right to erasure: wipe the personal fields of the account and what only
+ * serves to reach the person (tokens, 2FA, notifications, deliverables and
+ * their files, absence justifications and their documents, staff notes about
+ * them, the payloads of earlier audit entries by or about them), while the row
+ * itself stays so enrollments, scores, certificates and statistics remain
+ * consistent. The account can no longer sign in.
+ */
+export async function anonymizeUser(userId: number) {
+  try {
+    const result = await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(users).where(eq(users.id, userId)).limit(1);
+      if (!current) {
+        return null;
+      }
+
+      // Uploaded files stay publicly reachable until removed from disk
+      const uploads = await tx
+        .select({ files: projectSubmissions.files })
+        .from(projectSubmissions)
+        .where(eq(projectSubmissions.studentId, userId));
+      const documents = await tx
+        .select({ documentUrl: attendanceRecords.documentUrl })
+        .from(attendanceRecords)
+        .where(eq(attendanceRecords.studentId, userId));
+      const uploadedFiles = [
+        ...uploads.flatMap((upload) => ((upload.files as ProjectFile[] | null) ?? []).map((file) => file.url)),
+        ...documents.flatMap((document) => (document.documentUrl ? [document.documentUrl] : [])),
+      ];
+
+      const [anonymized] = await tx
+        .update(users)
+        .set({
+          name: ANONYMIZED_USER_NAME,
+          email: `anonymized-${userId}@erchad.invalid`,
+          // Random secret nobody knows: the account cannot be signed into again
+          password: await hash(randomBytes(32).toString("hex"), 10),
+          avatarUrl: null,
+          isActive: false,
+          emailVerifiedAt: null,
+          phone: null,
+          dateOfBirth: null,
+          address: null,
+          city: null,
+          postalCode: null,
+          country: null,
+          bio: null,
+          anonymizedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, userId))
+        .returning();
+
+      const submissions = await tx
+        .update(projectSubmissions)
+        .set({ submissionUrl: null, description: null, files: [] })
+        .where(eq(projectSubmissions.studentId, userId))
+        .returning({ id: projectSubmissions.id });
+      const records = await tx
+        .update(attendanceRecords)
+        .set({ justification: null, documentUrl: null })
+        .where(eq(attendanceRecords.studentId, userId))
+        .returning({ id: attendanceRecords.id });
+
+      // Earlier entries by or about the account, its deliverables and its
+      // absences held copies of what was just wiped; the entries stay,
+      // without payload
+      const auditTargets = [
+        eq(auditLogs.actorId, userId),
+        and(eq(auditLogs.targetType, "user"), eq(auditLogs.targetId, String(userId))),
+        submissions.length > 0
+          ? and(
+              eq(auditLogs.targetType, "project_submission"),
+              inArray(auditLogs.targetId, submissions.map((submission) => String(submission.id)))
+            )
+          : undefined,
+        records.length > 0
+          ? and(
+              eq(auditLogs.targetType, "attendance_record"),
+              inArray(auditLogs.targetId, records.map((record) => String(record.id)))
+            )
+          : undefined,
+      ];
+      await tx
+        .update(auditLogs)
+        .set({ before: null, after: null })
+        .where(or(...auditTargets));
+      // The client IP of what the person did themselves is theirs too
+      await tx.update(auditLogs).set({ ipAddress: null }).where(eq(auditLogs.actorId, userId));
+      // Lockouts of an address nobody had signed up with yet are keyed by the email
+      await tx
+        .update(auditLogs)
+        .set({ targetId: null, before: null, after: null, ipAddress: null })
+        .where(and(eq(auditLogs.targetType, "account"), eq(auditLogs.targetId, current.email.trim().toLowerCase())));
+      await tx.delete(studentNotes).where(eq(studentNotes.studentId, userId));
+      await tx.delete(notifications).where(eq(notifications.userId, userId));
+      await tx.delete(authTokens).where(eq(authTokens.userId, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+      await tx.delete(loginThrottles).where(eq(loginThrottles.key, `account:${current.email.trim().toLowerCase()}`));
+
+      return { anonymized, uploadedFiles };
+    });
+
+    // Files go only once the database no longer points at them
+    if (result) {
+      await removeUploadedFiles(result.uploadedFiles);
+    }
+
+    return { success: true as const, data: result?.anonymized ?? null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
 // Course query functions
 export async function createCourse(data: {
   title: string;
@@ -383,7 +745,8 @@ export async function deleteCourse(id: number) {
   }
 }
 
-export async function getCoursesWithDetails() {
+// Courses with their domain, trainer and counts; the public catalogue passes "validated"
+export async function getCoursesWithDetails(status?: CourseStatus) {
   try {
     const result = await db
       .select({
@@ -394,6 +757,10 @@ export async function getCoursesWithDetails() {
         teacherId: courses.teacherId,
         thumbnailUrl: courses.thumbnailUrl,
         isActive: courses.isActive,
+        status: courses.status,
+        rejectionReason: courses.rejectionReason,
+        submittedAt: courses.submittedAt,
+        reviewedAt: courses.reviewedAt,
         createdAt: courses.createdAt,
         updatedAt: courses.updatedAt,
         domain: {
@@ -414,6 +781,7 @@ export async function getCoursesWithDetails() {
       .leftJoin(users, eq(courses.teacherId, users.id))
       .leftJoin(enrollments, eq(courses.id, enrollments.courseId))
       .leftJoin(chapters, eq(courses.id, chapters.courseId))
+      .where(status ? eq(courses.status, status) : undefined)
       .groupBy(
         courses.id,
         domains.id,
@@ -442,6 +810,10 @@ export async function getCourseWithDetails(id: number) {
         teacherId: courses.teacherId,
         thumbnailUrl: courses.thumbnailUrl,
         isActive: courses.isActive,
+        status: courses.status,
+        rejectionReason: courses.rejectionReason,
+        submittedAt: courses.submittedAt,
+        reviewedAt: courses.reviewedAt,
         createdAt: courses.createdAt,
         updatedAt: courses.updatedAt,
         domain: {
@@ -493,6 +865,119 @@ export async function courseHasEnrollments(courseId: number) {
   }
 }
 
+export async function getValidatedCourses() {
+  try {
+    const result = await db
+      .select()
+      .from(courses)
+      .where(eq(courses.status, "validated"));
+    const mappedCourses = result.map(mapCourseFromDb).filter((c) => c !== null);
+    return { success: true, data: mappedCourses };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Course validation workflow: draft -> submitted -> validated/rejected
+export async function getCoursesByStatus(status: CourseStatus) {
+  try {
+    const result = await db
+      .select({
+        id: courses.id,
+        title: courses.title,
+        description: courses.description,
+        status: courses.status,
+        rejectionReason: courses.rejectionReason,
+        submittedAt: courses.submittedAt,
+        reviewedAt: courses.reviewedAt,
+        domain: {
+          id: domains.id,
+          name: domains.name,
+          color: domains.color,
+        },
+        teacher: {
+          id: users.id,
+          name: users.name,
+          email: users.email,
+        },
+        chapterCount: sql<number>`cast(count(distinct ${chapters.id}) as int)`,
+      })
+      .from(courses)
+      .leftJoin(domains, eq(courses.domainId, domains.id))
+      .leftJoin(users, eq(courses.teacherId, users.id))
+      .leftJoin(chapters, eq(courses.id, chapters.courseId))
+      .where(eq(courses.status, status))
+      .groupBy(courses.id, domains.id, users.id)
+      .orderBy(courses.submittedAt);
+
+    return { success: true, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function submitCourseForReview(id: number) {
+  try {
+    const result = await db
+      .update(courses)
+      .set({
+        status: "submitted",
+        rejectionReason: null,
+        submittedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(courses.id, id),
+          inArray(courses.status, ["draft", "rejected"])
+        )
+      )
+      .returning();
+
+    if (result.length === 0) {
+      return { success: false as const, error: "Course cannot be submitted" };
+    }
+
+    const mappedCourse = mapCourseFromDb(result[0]);
+    return { success: true as const, data: mappedCourse };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function reviewCourse(
+  id: number,
+  data: {
+    decision: "validated" | "rejected";
+    reviewerId: number;
+    rejectionReason?: string | null;
+  }
+) {
+  try {
+    const result = await db
+      .update(courses)
+      .set({
+        status: data.decision,
+        rejectionReason:
+          data.decision === "rejected" ? data.rejectionReason ?? null : null,
+        reviewedAt: new Date(),
+        reviewedBy: data.reviewerId,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(courses.id, id), eq(courses.status, "submitted")))
+      .returning();
+
+    if (result.length === 0) {
+      return { success: false as const, error: "Course is not awaiting review" };
+    }
+
+    const mappedCourse = mapCourseFromDb(result[0]);
+    return { success: true as const, data: mappedCourse };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
 // Enrollment query functions
 export async function getEnrollmentById(id: number) {
   try {
@@ -534,12 +1019,45 @@ export async function getEnrollmentsByStudentId(studentId: number) {
   }
 }
 
-export async function getEnrollmentsByCourseId(courseId: number) {
+export async function getEnrollmentByStudentAndCourse(
+  studentId: number,
+  courseId: number
+) {
   try {
     const result = await db
       .select()
       .from(enrollments)
-      .where(eq(enrollments.courseId, courseId));
+      .where(
+        and(
+          eq(enrollments.studentId, studentId),
+          eq(enrollments.courseId, courseId)
+        )
+      )
+      .limit(1);
+    const mappedEnrollment = mapEnrollmentFromDb(result[0]);
+    return { success: true, data: mappedEnrollment };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Restricted to the students of the given schools when IDs are passed
+export async function getEnrollmentsByCourseId(courseId: number, schoolIds?: number[]) {
+  try {
+    const result = await db
+      .select()
+      .from(enrollments)
+      .where(
+        schoolIds
+          ? and(
+              eq(enrollments.courseId, courseId),
+              inArray(
+                enrollments.studentId,
+                db.select({ id: users.id }).from(users).where(inArray(users.schoolId, schoolIds))
+              )
+            )
+          : eq(enrollments.courseId, courseId)
+      );
     const mappedEnrollments = result
       .map(mapEnrollmentFromDb)
       .filter((e) => e !== null);
@@ -703,706 +1221,3754 @@ export async function domainHasCourses(domainId: number) {
   }
 }
 
-// Chapter query functions
-export async function getChapterById(id: number) {
+// School query functions
+// Schools with their groups and sub-admins; every school when no IDs are given
+export async function getSchoolsWithDetails(schoolIds?: number[]) {
   try {
-    const result = await db
-      .select()
-      .from(chapters)
-      .where(eq(chapters.id, id))
-      .limit(1);
-    return { success: true, data: result[0] || null };
+    if (schoolIds && schoolIds.length === 0) {
+      return { success: true as const, data: [] };
+    }
+
+    const studentCount = sql<number>`cast((select count(*) from ${users} where ${users.schoolId} = ${schools.id} and ${users.role} = 'STUDENT' and ${users.anonymizedAt} is null) as int)`;
+    const schoolRows = await db
+      .select({
+        id: schools.id,
+        name: schools.name,
+        city: schools.city,
+        address: schools.address,
+        createdAt: schools.createdAt,
+        studentCount,
+      })
+      .from(schools)
+      .where(schoolIds ? inArray(schools.id, schoolIds) : undefined)
+      .orderBy(schools.name);
+
+    const ids = schoolRows.map((school) => school.id);
+    if (ids.length === 0) {
+      return { success: true as const, data: [] };
+    }
+
+    const groupRows = await db
+      .select({
+        id: groups.id,
+        schoolId: groups.schoolId,
+        name: groups.name,
+        academicYear: groups.academicYear,
+        studentCount: sql<number>`cast((select count(*) from ${users} where ${users.groupId} = ${groups.id} and ${users.anonymizedAt} is null) as int)`,
+      })
+      .from(groups)
+      .where(inArray(groups.schoolId, ids))
+      .orderBy(groups.name);
+
+    const managerRows = await db
+      .select({ schoolId: schoolManagers.schoolId, id: users.id, name: users.name, email: users.email })
+      .from(schoolManagers)
+      .innerJoin(users, eq(schoolManagers.userId, users.id))
+      .where(inArray(schoolManagers.schoolId, ids))
+      .orderBy(users.name);
+
+    const data = schoolRows.map((school) => ({
+      ...school,
+      groups: groupRows.filter((group) => group.schoolId === school.id),
+      managers: managerRows
+        .filter((manager) => manager.schoolId === school.id)
+        .map(({ schoolId, ...manager }) => manager),
+    }));
+
+    return { success: true as const, data };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function getChaptersByCourseId(courseId: number) {
+export async function getSchoolById(id: number) {
   try {
-    const result = await db
-      .select()
-      .from(chapters)
-      .where(eq(chapters.courseId, courseId))
-      .orderBy(chapters.orderIndex);
+    const result = await db.select().from(schools).where(eq(schools.id, id)).limit(1);
 
-    return { success: true, data: result };
+    return { success: true as const, data: result[0] ?? null };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function createChapter(data: {
-  courseId: number;
-  title: string;
-  description?: string | null;
-  orderIndex: number;
-  contentType: string;
-  contentData: any;
-}) {
+export async function schoolNameExists(name: string, excludeId?: number) {
   try {
     const result = await db
-      .insert(chapters)
-      .values({
-        courseId: data.courseId,
-        title: data.title,
-        description: data.description,
-        orderIndex: data.orderIndex,
-        contentType: data.contentType,
-        contentData: data.contentData,
-      })
-      .returning();
+      .select({ id: schools.id })
+      .from(schools)
+      .where(
+        excludeId !== undefined
+          ? and(ilike(schools.name, name), ne(schools.id, excludeId))
+          : ilike(schools.name, name)
+      )
+      .limit(1);
 
-    return { success: true, data: result[0] };
+    return { success: true as const, data: result.length > 0 };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function updateChapter(
-  id: number,
-  data: Partial<{
-    title: string;
-    description: string | null;
-    orderIndex: number;
-    contentType: string;
-    contentData: any;
-  }>
-) {
+export async function createSchool(data: { name: string; city: string | null; address: string | null }) {
   try {
-    const result = await db
-      .update(chapters)
-      .set(data)
-      .where(eq(chapters.id, id))
-      .returning();
+    const result = await db.insert(schools).values(data).returning();
 
-    return { success: true, data: result[0] };
+    return { success: true as const, data: result[0] };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function deleteChapter(id: number) {
+export async function updateSchool(id: number, data: { name: string; city: string | null; address: string | null }) {
   try {
-    const result = await db
-      .delete(chapters)
-      .where(eq(chapters.id, id))
-      .returning();
+    const result = await db.update(schools).set(data).where(eq(schools.id, id)).returning();
 
-    return { success: true, data: result[0] };
+    return { success: true as const, data: result[0] ?? null };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function reorderChapters(courseId: number, chapterIds: number[]) {
+// Groups and manager assignments go with the school
+export async function deleteSchool(id: number) {
   try {
-    // Update order_index for each chapter
-    const updates = chapterIds.map((chapterId, index) =>
-      db
-        .update(chapters)
-        .set({ orderIndex: index })
-        .where(and(eq(chapters.id, chapterId), eq(chapters.courseId, courseId)))
-    );
-
-    await Promise.all(updates);
+    const result = await db.delete(schools).where(eq(schools.id, id)).returning();
 
-    return {
-      success: true,
-      data: { message: "Chapters reordered successfully" },
+    return { success: true as const, data: result[0] ?? null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function schoolHasStudents(schoolId: number) {
+  try {
+    const result = await db
+      .select({ count: sql<number>`cast(count(*) as int)` })
+      .from(users)
+      .where(eq(users.schoolId, schoolId));
+
+    return { success: true as const, data: result[0].count > 0 };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Schools a sub-admin is responsible for
+export async function getManagedSchoolIds(userId: number) {
+  try {
+    const result = await db
+      .select({ schoolId: schoolManagers.schoolId })
+      .from(schoolManagers)
+      .where(eq(schoolManagers.userId, userId));
+
+    return { success: true as const, data: result.map((row) => row.schoolId) };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getSubAdminsByIds(userIds: number[]) {
+  try {
+    const result = await db
+      .select({ id: users.id, name: users.name, email: users.email })
+      .from(users)
+      .where(and(inArray(users.id, userIds), eq(users.role, "SUB_ADMIN")));
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Replace the sub-admins of a school
+export async function setSchoolManagers(schoolId: number, userIds: number[]) {
+  try {
+    await db.transaction(async (tx) => {
+      await tx.delete(schoolManagers).where(eq(schoolManagers.schoolId, schoolId));
+      if (userIds.length > 0) {
+        await tx.insert(schoolManagers).values(userIds.map((userId) => ({ schoolId, userId })));
+      }
+    });
+
+    return { success: true as const };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Group query functions
+export async function getGroupById(id: number) {
+  try {
+    const result = await db.select().from(groups).where(eq(groups.id, id)).limit(1);
+
+    return { success: true as const, data: result[0] ?? null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function groupNameExists(schoolId: number, name: string, excludeId?: number) {
+  try {
+    const conditions = [eq(groups.schoolId, schoolId), ilike(groups.name, name)];
+    if (excludeId !== undefined) {
+      conditions.push(ne(groups.id, excludeId));
+    }
+    const result = await db
+      .select({ id: groups.id })
+      .from(groups)
+      .where(and(...conditions))
+      .limit(1);
+
+    return { success: true as const, data: result.length > 0 };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function createGroup(data: { schoolId: number; name: string; academicYear: string | null }) {
+  try {
+    const result = await db.insert(groups).values(data).returning();
+
+    return { success: true as const, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function updateGroup(id: number, data: { name: string; academicYear: string | null }) {
+  try {
+    const result = await db.update(groups).set(data).where(eq(groups.id, id)).returning();
+
+    return { success: true as const, data: result[0] ?? null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Students of the group stay in the school, without a group
+export async function deleteGroup(id: number) {
+  try {
+    const result = await db.delete(groups).where(eq(groups.id, id)).returning();
+
+    return { success: true as const, data: result[0] ?? null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export interface SchoolStudentFilters {
+  schoolId?: number;
+  groupId?: number;
+  // Matched against the student's name or email
+  search?: string;
+}
+
+const schoolStudentColumns = {
+  id: users.id,
+  name: users.name,
+  email: users.email,
+  avatarUrl: users.avatarUrl,
+  phone: users.phone,
+  isActive: users.isActive,
+  lastLoginAt: users.lastLoginAt,
+  createdAt: users.createdAt,
+  schoolId: schools.id,
+  schoolName: schools.name,
+  groupId: groups.id,
+  groupName: groups.name,
+  enrollmentCount: sql<number>`cast((select count(*) from ${enrollments} where ${enrollments.studentId} = ${users.id}) as int)`,
+  completedCount: sql<number>`cast((select count(*) from ${enrollments} where ${enrollments.studentId} = ${users.id} and ${enrollments.completedAt} is not null) as int)`,
+};
+
+// Students placed in one of the given schools, or in any school when null
+export async function getSchoolStudents(schoolIds: number[] | null, filters: SchoolStudentFilters = {}) {
+  try {
+    const conditions: SQL[] = [eq(users.role, "STUDENT"), sql`${users.anonymizedAt} is null`];
+    if (schoolIds) {
+      conditions.push(inArray(users.schoolId, schoolIds));
+    }
+    if (filters.schoolId) {
+      conditions.push(eq(users.schoolId, filters.schoolId));
+    }
+    if (filters.groupId) {
+      conditions.push(eq(users.groupId, filters.groupId));
+    }
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(ilike(users.name, pattern), ilike(users.email, pattern))!);
+    }
+
+    const result = await db
+      .select(schoolStudentColumns)
+      .from(users)
+      .innerJoin(schools, eq(users.schoolId, schools.id))
+      .leftJoin(groups, eq(users.groupId, groups.id))
+      .where(and(...conditions))
+      .orderBy(users.name);
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// One student with the school and group they are placed in
+export async function getSchoolStudentById(studentId: number) {
+  try {
+    const result = await db
+      .select(schoolStudentColumns)
+      .from(users)
+      .leftJoin(schools, eq(users.schoolId, schools.id))
+      .leftJoin(groups, eq(users.groupId, groups.id))
+      .where(and(eq(users.id, studentId), eq(users.role, "STUDENT")))
+      .limit(1);
+
+    return { success: true as const, data: result[0] ?? null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Enrollment figures of the students of the given schools
+export async function getSchoolsOverview(schoolIds: number[]) {
+  try {
+    if (schoolIds.length === 0) {
+      return {
+        success: true as const,
+        data: { totalStudents: 0, totalEnrollments: 0, completedEnrollments: 0, recentEnrollments: [], courses: [] },
+      };
+    }
+
+    const inSchools = and(inArray(users.schoolId, schoolIds), eq(users.role, "STUDENT"), sql`${users.anonymizedAt} is null`);
+
+    const [{ totalStudents }] = await db
+      .select({ totalStudents: sql<number>`cast(count(*) as int)` })
+      .from(users)
+      .where(inSchools);
+
+    const [{ totalEnrollments, completedEnrollments }] = await db
+      .select({
+        totalEnrollments: sql<number>`cast(count(*) as int)`,
+        completedEnrollments: sql<number>`cast(count(${enrollments.completedAt}) as int)`,
+      })
+      .from(enrollments)
+      .innerJoin(users, eq(enrollments.studentId, users.id))
+      .where(inSchools);
+
+    const recentEnrollments = await db
+      .select({
+        id: enrollments.id,
+        studentId: users.id,
+        studentName: users.name,
+        courseTitle: courses.title,
+        enrolledAt: enrollments.createdAt,
+        completedAt: enrollments.completedAt,
+      })
+      .from(enrollments)
+      .innerJoin(users, eq(enrollments.studentId, users.id))
+      .innerJoin(courses, eq(enrollments.courseId, courses.id))
+      .where(inSchools)
+      .orderBy(desc(enrollments.createdAt))
+      .limit(8);
+
+    // Share of the chapters completed, averaged over the enrolled students
+    const progress = sql`(select count(distinct ${chapterProgress.chapterId}) from ${chapterProgress}
+      inner join ${chapters} on ${chapterProgress.chapterId} = ${chapters.id}
+      where ${chapters.courseId} = ${courses.id} and ${chapterProgress.studentId} = ${enrollments.studentId})::numeric
+      / nullif((select count(*) from ${chapters} where ${chapters.courseId} = ${courses.id}), 0)`;
+
+    const courseRows = await db
+      .select({
+        courseId: courses.id,
+        courseTitle: courses.title,
+        enrolledCount: sql<number>`cast(count(*) as int)`,
+        averageProgress: sql<number>`cast(coalesce(round(avg(${progress}) * 100), 0) as int)`,
+      })
+      .from(enrollments)
+      .innerJoin(users, eq(enrollments.studentId, users.id))
+      .innerJoin(courses, eq(enrollments.courseId, courses.id))
+      .where(inSchools)
+      .groupBy(courses.id, courses.title)
+      .orderBy(desc(sql`count(*)`))
+      .limit(6);
+
+    return {
+      success: true as const,
+      data: { totalStudents, totalEnrollments, completedEnrollments, recentEnrollments, courses: courseRows },
+    };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Attendance query functions
+export interface ClassSessionFilters {
+  schoolId?: number;
+  groupId?: number;
+  trainerId?: number;
+  // Inclusive calendar days (YYYY-MM-DD)
+  from?: string;
+  to?: string;
+}
+
+const sessionTrainer = alias(users, "session_trainer");
+
+const countSessionRecords = (status?: AttendanceStatus | "checked_in") =>
+  sql<number>`cast((select count(*) from ${attendanceRecords} where ${attendanceRecords.sessionId} = ${classSessions.id}${
+    status === "checked_in"
+      ? sql` and ${attendanceRecords.checkedInAt} is not null`
+      : status
+        ? sql` and ${attendanceRecords.status} = ${status}`
+        : sql``
+  }) as int)`;
+
+const classSessionColumns = {
+  id: classSessions.id,
+  startsAt: classSessions.startsAt,
+  endsAt: classSessions.endsAt,
+  checkInOpensAt: classSessions.checkInOpensAt,
+  checkInClosesAt: classSessions.checkInClosesAt,
+  checkInAllowedIps: classSessions.checkInAllowedIps,
+  groupId: groups.id,
+  groupName: groups.name,
+  schoolId: schools.id,
+  schoolName: schools.name,
+  courseId: courses.id,
+  courseTitle: courses.title,
+  trainerId: sessionTrainer.id,
+  trainerName: sessionTrainer.name,
+  recordedCount: countSessionRecords(),
+  presentCount: countSessionRecords("present"),
+  absentCount: countSessionRecords("absent"),
+  lateCount: countSessionRecords("late"),
+  excusedCount: countSessionRecords("excused"),
+  checkedInCount: countSessionRecords("checked_in"),
+};
+
+const classSessionsQuery = () =>
+  db
+    .select(classSessionColumns)
+    .from(classSessions)
+    .innerJoin(groups, eq(classSessions.groupId, groups.id))
+    .innerJoin(schools, eq(groups.schoolId, schools.id))
+    .leftJoin(courses, eq(classSessions.courseId, courses.id))
+    .leftJoin(sessionTrainer, eq(classSessions.trainerId, sessionTrainer.id));
+
+// Sessions of the groups of the given schools, or of every school when null; latest first
+export async function getClassSessions(schoolIds: number[] | null, filters: ClassSessionFilters = {}) {
+  try {
+    const conditions: SQL[] = [];
+    if (schoolIds) conditions.push(inArray(groups.schoolId, schoolIds));
+    if (filters.schoolId) conditions.push(eq(groups.schoolId, filters.schoolId));
+    if (filters.groupId) conditions.push(eq(classSessions.groupId, filters.groupId));
+    if (filters.trainerId) conditions.push(eq(classSessions.trainerId, filters.trainerId));
+    if (filters.from) conditions.push(gte(classSessions.startsAt, sql`${filters.from}::date`));
+    if (filters.to) conditions.push(lt(classSessions.startsAt, sql`${filters.to}::date + 1`));
+
+    const result = await classSessionsQuery()
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(classSessions.startsAt))
+      .limit(200);
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Sessions carry attendance history, which deleting their group or school would erase
+export async function groupHasClassSessions(groupId: number) {
+  try {
+    const result = await db
+      .select({ count: sql<number>`cast(count(*) as int)` })
+      .from(classSessions)
+      .where(eq(classSessions.groupId, groupId));
+
+    return { success: true as const, data: result[0].count > 0 };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function schoolHasClassSessions(schoolId: number) {
+  try {
+    const result = await db
+      .select({ count: sql<number>`cast(count(*) as int)` })
+      .from(classSessions)
+      .innerJoin(groups, eq(classSessions.groupId, groups.id))
+      .where(eq(groups.schoolId, schoolId));
+
+    return { success: true as const, data: result[0].count > 0 };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getClassSessionById(sessionId: number) {
+  try {
+    const result = await classSessionsQuery().where(eq(classSessions.id, sessionId)).limit(1);
+    return { success: true as const, data: result[0] ?? null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function createClassSession(data: {
+  groupId: number;
+  courseId: number | null;
+  trainerId: number | null;
+  startsAt: Date;
+  endsAt: Date | null;
+  createdBy: number;
+}) {
+  try {
+    const result = await db.insert(classSessions).values(data).returning();
+    return { success: true as const, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function updateClassSessionCheckIn(
+  sessionId: number,
+  data: { checkInOpensAt: Date | null; checkInClosesAt: Date | null; checkInAllowedIps: string[] }
+) {
+  try {
+    const result = await db.update(classSessions).set(data).where(eq(classSessions.id, sessionId)).returning();
+    return { success: true as const, data: result[0] ?? null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function deleteClassSession(sessionId: number) {
+  try {
+    const result = await db.delete(classSessions).where(eq(classSessions.id, sessionId)).returning();
+    return { success: true as const, data: result[0] ?? null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+/**
+ * Students to call on a session: the current members of its group, plus
+ * anyone already recorded on it who has since moved to another group.
+ */
+export async function getSessionRoster(sessionId: number, groupId: number) {
+  try {
+    const result = await db
+      .select({
+        studentId: users.id,
+        name: users.name,
+        email: users.email,
+        avatarUrl: users.avatarUrl,
+        recordId: attendanceRecords.id,
+        status: attendanceRecords.status,
+        justification: attendanceRecords.justification,
+        documentUrl: attendanceRecords.documentUrl,
+        recordedAt: attendanceRecords.recordedAt,
+        checkedInAt: attendanceRecords.checkedInAt,
+      })
+      .from(users)
+      .leftJoin(
+        attendanceRecords,
+        and(eq(attendanceRecords.studentId, users.id), eq(attendanceRecords.sessionId, sessionId))
+      )
+      .where(
+        and(
+          eq(users.role, "STUDENT"),
+          or(
+            and(eq(users.groupId, groupId), eq(users.isActive, true), sql`${users.anonymizedAt} is null`),
+            sql`${attendanceRecords.id} is not null`
+          )
+        )
+      )
+      .orderBy(users.name);
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Record the roll call of a session; students already recorded are updated
+export async function saveAttendanceRoll(
+  sessionId: number,
+  records: Array<{ studentId: number; status: AttendanceStatus; justification: string | null; documentUrl: string | null }>,
+  recordedBy: number
+) {
+  try {
+    const now = new Date();
+    const result = await db
+      .insert(attendanceRecords)
+      .values(records.map((record) => ({ sessionId, ...record, recordedBy, recordedAt: now, updatedAt: now })))
+      .onConflictDoUpdate({
+        target: [attendanceRecords.sessionId, attendanceRecords.studentId],
+        set: {
+          status: sql`excluded.status`,
+          justification: sql`excluded.justification`,
+          documentUrl: sql`excluded.document_url`,
+          recordedBy,
+          updatedAt: now,
+        },
+      })
+      .returning();
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+/**
+ * Mark a student present after a QR scan. A roll call that marked them
+ * absent is overturned, since the scan proves they are in class; any other
+ * attendance already recorded for the session is left as is.
+ */
+export async function checkInStudent(sessionId: number, studentId: number, ip: string) {
+  try {
+    const now = new Date();
+    const checkIn = {
+      status: "present" as const,
+      checkedInAt: now,
+      checkInIp: ip.slice(0, 45),
+      recordedBy: studentId,
+      updatedAt: now,
     };
+    const [created] = await db
+      .insert(attendanceRecords)
+      .values({ sessionId, studentId, ...checkIn, recordedAt: now })
+      .onConflictDoNothing()
+      .returning();
+    if (created) {
+      return { success: true as const, data: { record: created, previousStatus: null } };
+    }
+
+    const [updated] = await db
+      .update(attendanceRecords)
+      .set(checkIn)
+      .where(
+        and(
+          eq(attendanceRecords.sessionId, sessionId),
+          eq(attendanceRecords.studentId, studentId),
+          eq(attendanceRecords.status, "absent")
+        )
+      )
+      .returning();
+    if (updated) {
+      return { success: true as const, data: { record: updated, previousStatus: "absent" as const } };
+    }
+
+    const [existing] = await db
+      .select()
+      .from(attendanceRecords)
+      .where(and(eq(attendanceRecords.sessionId, sessionId), eq(attendanceRecords.studentId, studentId)))
+      .limit(1);
+
+    return { success: true as const, data: { record: existing, previousStatus: existing.status } };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getAttendanceRecordById(recordId: number) {
+  try {
+    const result = await db
+      .select({
+        record: attendanceRecords,
+        schoolId: groups.schoolId,
+      })
+      .from(attendanceRecords)
+      .innerJoin(classSessions, eq(attendanceRecords.sessionId, classSessions.id))
+      .innerJoin(groups, eq(classSessions.groupId, groups.id))
+      .where(eq(attendanceRecords.id, recordId))
+      .limit(1);
+
+    return { success: true as const, data: result[0] ?? null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function updateAttendanceRecord(
+  recordId: number,
+  data: { status: AttendanceStatus; justification: string | null; documentUrl: string | null },
+  recordedBy: number
+) {
+  try {
+    const result = await db
+      .update(attendanceRecords)
+      .set({ ...data, recordedBy, updatedAt: new Date() })
+      .where(eq(attendanceRecords.id, recordId))
+      .returning();
+
+    return { success: true as const, data: result[0] ?? null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+const attendanceCountColumns = {
+  total: sql<number>`cast(count(*) as int)`,
+  present: sql<number>`cast(count(*) filter (where ${attendanceRecords.status} = 'present') as int)`,
+  absent: sql<number>`cast(count(*) filter (where ${attendanceRecords.status} = 'absent') as int)`,
+  late: sql<number>`cast(count(*) filter (where ${attendanceRecords.status} = 'late') as int)`,
+  excused: sql<number>`cast(count(*) filter (where ${attendanceRecords.status} = 'excused') as int)`,
+  // Absences nobody has explained yet, neither in words nor with a document
+  unjustified: sql<number>`cast(count(*) filter (where ${attendanceRecords.status} = 'absent' and ${attendanceRecords.justification} is null and ${attendanceRecords.documentUrl} is null) as int)`,
+};
+
+type AttendanceCounts = { total: number; present: number; absent: number; late: number; excused: number; unjustified: number };
+
+// Excused absences count as absences; late arrivals do not
+const withAbsenceRate = (counts: AttendanceCounts) => ({
+  ...counts,
+  absenceRate: counts.total > 0 ? Math.round(((counts.absent + counts.excused) / counts.total) * 100) : 0,
+});
+
+// Attendance of the students of the given schools, with the latest absences
+export async function getAttendanceOverview(schoolIds: number[]) {
+  try {
+    if (schoolIds.length === 0) {
+      return {
+        success: true as const,
+        data: {
+          summary: withAbsenceRate({ total: 0, present: 0, absent: 0, late: 0, excused: 0, unjustified: 0 }),
+          recentAbsences: [],
+        },
+      };
+    }
+
+    const inSchools = inArray(groups.schoolId, schoolIds);
+
+    const [counts] = await db
+      .select(attendanceCountColumns)
+      .from(attendanceRecords)
+      .innerJoin(classSessions, eq(attendanceRecords.sessionId, classSessions.id))
+      .innerJoin(groups, eq(classSessions.groupId, groups.id))
+      .where(inSchools);
+
+    const recentAbsences = await db
+      .select({
+        id: attendanceRecords.id,
+        sessionId: classSessions.id,
+        startsAt: classSessions.startsAt,
+        studentId: users.id,
+        studentName: users.name,
+        groupName: groups.name,
+        courseTitle: courses.title,
+        status: attendanceRecords.status,
+        justification: attendanceRecords.justification,
+        documentUrl: attendanceRecords.documentUrl,
+      })
+      .from(attendanceRecords)
+      .innerJoin(classSessions, eq(attendanceRecords.sessionId, classSessions.id))
+      .innerJoin(groups, eq(classSessions.groupId, groups.id))
+      .innerJoin(users, eq(attendanceRecords.studentId, users.id))
+      .leftJoin(courses, eq(classSessions.courseId, courses.id))
+      .where(and(inSchools, inArray(attendanceRecords.status, ["absent", "late", "excused"])))
+      .orderBy(desc(classSessions.startsAt), users.name)
+      .limit(8);
+
+    return { success: true as const, data: { summary: withAbsenceRate(counts), recentAbsences } };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// A student's attendance summary and records, latest session first
+export async function getStudentAttendance(studentId: number) {
+  try {
+    const [counts] = await db
+      .select(attendanceCountColumns)
+      .from(attendanceRecords)
+      .where(eq(attendanceRecords.studentId, studentId));
+
+    const records = await db
+      .select({
+        id: attendanceRecords.id,
+        sessionId: classSessions.id,
+        startsAt: classSessions.startsAt,
+        groupName: groups.name,
+        courseTitle: courses.title,
+        status: attendanceRecords.status,
+        justification: attendanceRecords.justification,
+        documentUrl: attendanceRecords.documentUrl,
+      })
+      .from(attendanceRecords)
+      .innerJoin(classSessions, eq(attendanceRecords.sessionId, classSessions.id))
+      .innerJoin(groups, eq(classSessions.groupId, groups.id))
+      .leftJoin(courses, eq(classSessions.courseId, courses.id))
+      .where(eq(attendanceRecords.studentId, studentId))
+      .orderBy(desc(classSessions.startsAt));
+
+    return { success: true as const, data: { summary: withAbsenceRate(counts), records } };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Student note query functions
+export interface StudentNoteFilters {
+  studentId?: number;
+  schoolId?: number;
+  courseId?: number;
+  category?: StudentNoteCategory;
+  visibility?: StudentNoteVisibility;
+  search?: string;
+}
+
+const noteAuthor = alias(users, "note_author");
+
+const studentNoteColumns = {
+  id: studentNotes.id,
+  studentId: users.id,
+  studentName: users.name,
+  studentEmail: users.email,
+  schoolId: users.schoolId,
+  courseId: studentNotes.courseId,
+  courseTitle: courses.title,
+  authorId: studentNotes.authorId,
+  authorName: noteAuthor.name,
+  category: studentNotes.category,
+  visibility: studentNotes.visibility,
+  content: studentNotes.content,
+  createdAt: studentNotes.createdAt,
+  updatedAt: studentNotes.updatedAt,
+};
+
+const studentNotesQuery = () =>
+  db
+    .select(studentNoteColumns)
+    .from(studentNotes)
+    .innerJoin(users, eq(studentNotes.studentId, users.id))
+    .leftJoin(noteAuthor, eq(studentNotes.authorId, noteAuthor.id))
+    .leftJoin(courses, eq(studentNotes.courseId, courses.id));
+
+/**
+ * Notes about students of the given schools (all schools when null),
+ * latest first.
+ */
+export async function getStudentNotes(schoolIds: number[] | null, filters: StudentNoteFilters = {}, limit = 200) {
+  try {
+    if (schoolIds && schoolIds.length === 0) {
+      return { success: true as const, data: [] };
+    }
+
+    const conditions: SQL[] = [];
+    if (schoolIds) conditions.push(inArray(users.schoolId, schoolIds));
+    if (filters.studentId) conditions.push(eq(studentNotes.studentId, filters.studentId));
+    if (filters.schoolId) conditions.push(eq(users.schoolId, filters.schoolId));
+    if (filters.courseId) conditions.push(eq(studentNotes.courseId, filters.courseId));
+    if (filters.category) conditions.push(eq(studentNotes.category, filters.category));
+    if (filters.visibility) conditions.push(eq(studentNotes.visibility, filters.visibility));
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(
+        or(ilike(studentNotes.content, pattern), ilike(users.name, pattern), ilike(users.email, pattern))!
+      );
+    }
+
+    const result = await studentNotesQuery()
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(studentNotes.createdAt))
+      .limit(limit);
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getStudentNoteById(noteId: number) {
+  try {
+    const result = await studentNotesQuery().where(eq(studentNotes.id, noteId)).limit(1);
+    return { success: true as const, data: result[0] ?? null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Notes the staff chose to share with the student, latest first
+export async function getSharedStudentNotes(studentId: number) {
+  try {
+    const result = await db
+      .select({
+        id: studentNotes.id,
+        courseTitle: courses.title,
+        authorName: noteAuthor.name,
+        category: studentNotes.category,
+        content: studentNotes.content,
+        createdAt: studentNotes.createdAt,
+      })
+      .from(studentNotes)
+      .leftJoin(noteAuthor, eq(studentNotes.authorId, noteAuthor.id))
+      .leftJoin(courses, eq(studentNotes.courseId, courses.id))
+      .where(and(eq(studentNotes.studentId, studentId), eq(studentNotes.visibility, "student")))
+      .orderBy(desc(studentNotes.createdAt));
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function createStudentNote(data: {
+  studentId: number;
+  authorId: number;
+  courseId: number | null;
+  category: StudentNoteCategory;
+  visibility: StudentNoteVisibility;
+  content: string;
+}) {
+  try {
+    const result = await db.insert(studentNotes).values(data).returning();
+    return { success: true as const, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function updateStudentNote(
+  noteId: number,
+  data: {
+    courseId?: number | null;
+    category?: StudentNoteCategory;
+    visibility?: StudentNoteVisibility;
+    content?: string;
+  }
+) {
+  try {
+    const result = await db
+      .update(studentNotes)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(studentNotes.id, noteId))
+      .returning();
+    return { success: true as const, data: result[0] ?? null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function deleteStudentNote(noteId: number) {
+  try {
+    const result = await db.delete(studentNotes).where(eq(studentNotes.id, noteId)).returning();
+    return { success: true as const, data: result[0] ?? null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Local analytics query functions
+export interface LocalAnalyticsFilters {
+  schoolId?: number;
+  groupId?: number;
+  courseId?: number;
+  // Inclusive calendar days (YYYY-MM-DD)
+  from: string;
+  to: string;
+}
+
+const percent = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 100) : 0);
+
+const weekOf = (column: AnyColumn) => sql<string>`to_char(date_trunc('week', ${column}), 'YYYY-MM-DD')`;
+
+// Mondays of the weeks overlapping the period, as YYYY-MM-DD
+function getPeriodWeeks(from: string, to: string) {
+  const start = new Date(`${from}T00:00:00Z`);
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  const weeks: string[] = [];
+  for (const day = start; day.toISOString().slice(0, 10) <= to; day.setUTCDate(day.getUTCDate() + 7)) {
+    weeks.push(day.toISOString().slice(0, 10));
+  }
+  return weeks;
+}
+
+/**
+ * KPIs of the students of the given schools (all schools when null) over a
+ * period: active students (a chapter completed or a quiz submitted),
+ * completed enrollments, quiz average and absence rate, broken down by
+ * group and week by week.
+ */
+export async function getLocalAnalytics(schoolIds: number[] | null, filters: LocalAnalyticsFilters) {
+  try {
+    const { schoolId, groupId, courseId, from, to } = filters;
+    const inPeriod = (column: AnyColumn) =>
+      and(gte(column, sql`${from}::date`), lt(column, sql`${to}::date + 1`))!;
+
+    const studentConditions: SQL[] = [eq(users.role, "STUDENT"), sql`${users.anonymizedAt} is null`];
+    if (schoolIds) studentConditions.push(inArray(users.schoolId, schoolIds));
+    if (schoolId) studentConditions.push(eq(users.schoolId, schoolId));
+    if (groupId) studentConditions.push(eq(users.groupId, groupId));
+    const inCourse = (column: AnyColumn) => (courseId ? [eq(column, courseId)] : []);
+
+    const completedChapter = sql`exists (select 1 from ${chapterProgress}
+      inner join ${chapters} on ${chapterProgress.chapterId} = ${chapters.id}
+      where ${chapterProgress.studentId} = ${users.id} and ${inPeriod(chapterProgress.completedAt)}
+      ${courseId ? sql`and ${chapters.courseId} = ${courseId}` : sql``})`;
+    const submittedQuiz = sql`exists (select 1 from ${quizAttempts}
+      inner join ${quizzes} on ${quizAttempts.quizId} = ${quizzes.id}
+      inner join ${chapters} on ${quizzes.chapterId} = ${chapters.id}
+      where ${quizAttempts.studentId} = ${users.id} and ${quizAttempts.status} <> 'in_progress'
+      and ${inPeriod(quizAttempts.attemptedAt)} ${courseId ? sql`and ${chapters.courseId} = ${courseId}` : sql``})`;
+
+    // A course filter narrows the students to those enrolled in it
+    const studentRows = await db
+      .select({
+        groupId: users.groupId,
+        groupName: groups.name,
+        students: sql<number>`cast(count(*) as int)`,
+        activeStudents: sql<number>`cast(count(*) filter (where ${completedChapter} or ${submittedQuiz}) as int)`,
+      })
+      .from(users)
+      .leftJoin(groups, eq(users.groupId, groups.id))
+      .where(
+        and(
+          ...studentConditions,
+          ...(courseId
+            ? [sql`exists (select 1 from ${enrollments} where ${enrollments.studentId} = ${users.id} and ${enrollments.courseId} = ${courseId})`]
+            : [])
+        )
+      )
+      .groupBy(users.groupId, groups.name);
+
+    // Enrollments started by the end of the period, and how many were completed by then
+    const enrollmentRows = await db
+      .select({
+        groupId: users.groupId,
+        enrollments: sql<number>`cast(count(*) as int)`,
+        completedEnrollments: sql<number>`cast(count(*) filter (where ${enrollments.completedAt} < ${to}::date + 1) as int)`,
+      })
+      .from(enrollments)
+      .innerJoin(users, eq(enrollments.studentId, users.id))
+      .where(and(...studentConditions, ...inCourse(enrollments.courseId), lt(enrollments.createdAt, sql`${to}::date + 1`)))
+      .groupBy(users.groupId);
+
+    const quizRows = await db
+      .select({
+        groupId: users.groupId,
+        attempts: sql<number>`cast(count(*) as int)`,
+        scoreSum: sql<number>`cast(coalesce(sum(${quizAttempts.score}), 0) as int)`,
+      })
+      .from(quizAttempts)
+      .innerJoin(users, eq(quizAttempts.studentId, users.id))
+      .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+      .innerJoin(chapters, eq(quizzes.chapterId, chapters.id))
+      .where(
+        and(
+          ...studentConditions,
+          ...inCourse(chapters.courseId),
+          eq(quizAttempts.status, "graded"),
+          inPeriod(quizAttempts.attemptedAt)
+        )
+      )
+      .groupBy(users.groupId);
+
+    const attendanceRows = await db
+      .select({ groupId: users.groupId, ...attendanceCountColumns })
+      .from(attendanceRecords)
+      .innerJoin(classSessions, eq(attendanceRecords.sessionId, classSessions.id))
+      .innerJoin(users, eq(attendanceRecords.studentId, users.id))
+      .where(and(...studentConditions, ...inCourse(classSessions.courseId), inPeriod(classSessions.startsAt)))
+      .groupBy(users.groupId);
+
+    // Weekly trend: who was active, quiz scores and attendance, week by week
+    const chapterWeek = weekOf(chapterProgress.completedAt);
+    const chapterWeekRows = await db
+      .select({ week: chapterWeek, studentId: users.id, completions: sql<number>`cast(count(*) as int)` })
+      .from(chapterProgress)
+      .innerJoin(users, eq(chapterProgress.studentId, users.id))
+      .innerJoin(chapters, eq(chapterProgress.chapterId, chapters.id))
+      .where(and(...studentConditions, ...inCourse(chapters.courseId), inPeriod(chapterProgress.completedAt)))
+      .groupBy(chapterWeek, users.id);
+
+    const quizWeek = weekOf(quizAttempts.attemptedAt);
+    const quizWeekRows = await db
+      .select({
+        week: quizWeek,
+        studentId: users.id,
+        attempts: sql<number>`cast(count(*) filter (where ${quizAttempts.status} = 'graded') as int)`,
+        scoreSum: sql<number>`cast(coalesce(sum(${quizAttempts.score}) filter (where ${quizAttempts.status} = 'graded'), 0) as int)`,
+      })
+      .from(quizAttempts)
+      .innerJoin(users, eq(quizAttempts.studentId, users.id))
+      .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+      .innerJoin(chapters, eq(quizzes.chapterId, chapters.id))
+      .where(
+        and(
+          ...studentConditions,
+          ...inCourse(chapters.courseId),
+          ne(quizAttempts.status, "in_progress"),
+          inPeriod(quizAttempts.attemptedAt)
+        )
+      )
+      .groupBy(quizWeek, users.id);
+
+    const sessionWeek = weekOf(classSessions.startsAt);
+    const attendanceWeekRows = await db
+      .select({ week: sessionWeek, ...attendanceCountColumns })
+      .from(attendanceRecords)
+      .innerJoin(classSessions, eq(attendanceRecords.sessionId, classSessions.id))
+      .innerJoin(users, eq(attendanceRecords.studentId, users.id))
+      .where(and(...studentConditions, ...inCourse(classSessions.courseId), inPeriod(classSessions.startsAt)))
+      .groupBy(sessionWeek);
+
+    const sumCounts = (rows: AttendanceCounts[]) =>
+      rows.reduce(
+        (total, row) => ({
+          total: total.total + row.total,
+          present: total.present + row.present,
+          absent: total.absent + row.absent,
+          late: total.late + row.late,
+          excused: total.excused + row.excused,
+          unjustified: total.unjustified + row.unjustified,
+        }),
+        { total: 0, present: 0, absent: 0, late: 0, excused: 0, unjustified: 0 }
+      );
+    const sum = <T>(rows: T[], value: (row: T) => number) => rows.reduce((total, row) => total + value(row), 0);
+
+    const groupStats = studentRows
+      .map((row) => {
+        const enrollment = enrollmentRows.find((entry) => entry.groupId === row.groupId);
+        const quiz = quizRows.find((entry) => entry.groupId === row.groupId);
+        const attendance = withAbsenceRate(sumCounts(attendanceRows.filter((entry) => entry.groupId === row.groupId)));
+        return {
+          groupId: row.groupId,
+          groupName: row.groupName,
+          students: row.students,
+          activeStudents: row.activeStudents,
+          completionRate: percent(enrollment?.completedEnrollments ?? 0, enrollment?.enrollments ?? 0),
+          averageQuizScore: quiz && quiz.attempts > 0 ? Math.round(quiz.scoreSum / quiz.attempts) : null,
+          absenceRate: attendance.total > 0 ? attendance.absenceRate : null,
+        };
+      })
+      // Students without a group come last
+      .sort((a, b) =>
+        a.groupName === null ? 1 : b.groupName === null ? -1 : a.groupName.localeCompare(b.groupName, "fr")
+      );
+
+    const trend = getPeriodWeeks(from, to).map((week) => {
+      const chapterRows = chapterWeekRows.filter((row) => row.week === week);
+      const quizRowsOfWeek = quizWeekRows.filter((row) => row.week === week);
+      const attempts = sum(quizRowsOfWeek, (row) => row.attempts);
+      const attendance = withAbsenceRate(sumCounts(attendanceWeekRows.filter((row) => row.week === week)));
+      return {
+        week,
+        activeStudents: new Set([...chapterRows, ...quizRowsOfWeek].map((row) => row.studentId)).size,
+        chapterCompletions: sum(chapterRows, (row) => row.completions),
+        averageQuizScore: attempts > 0 ? Math.round(sum(quizRowsOfWeek, (row) => row.scoreSum) / attempts) : null,
+        absenceRate: attendance.total > 0 ? attendance.absenceRate : null,
+      };
+    });
+
+    const totalEnrollments = sum(enrollmentRows, (row) => row.enrollments);
+    const completedEnrollments = sum(enrollmentRows, (row) => row.completedEnrollments);
+    const quizAttemptCount = sum(quizRows, (row) => row.attempts);
+
+    return {
+      success: true as const,
+      data: {
+        summary: {
+          students: sum(studentRows, (row) => row.students),
+          activeStudents: sum(studentRows, (row) => row.activeStudents),
+          enrollments: totalEnrollments,
+          completedEnrollments,
+          completionRate: percent(completedEnrollments, totalEnrollments),
+          quizAttempts: quizAttemptCount,
+          averageQuizScore:
+            quizAttemptCount > 0 ? Math.round(sum(quizRows, (row) => row.scoreSum) / quizAttemptCount) : null,
+          attendance: withAbsenceRate(sumCounts(attendanceRows)),
+        },
+        groups: groupStats,
+        trend,
+      },
+    };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Course analytics query functions
+
+// A student with no chapter completed nor quiz submitted for this long is inactive
+const COURSE_ACTIVITY_WINDOW_DAYS = 14;
+
+/**
+ * Trainer view of one course: how many enrolled students completed each
+ * chapter (in course order, with the drop-off from the previous step), quiz
+ * averages and pass rates, active vs. inactive students and the median time
+ * between enrollment and completion.
+ */
+export async function getCourseAnalytics(courseId: number) {
+  try {
+    const enrolled = sql`exists (select 1 from ${enrollments}
+      where ${enrollments.courseId} = ${courseId} and ${enrollments.studentId} = ${users.id})`;
+    const activeSince = sql`now() - make_interval(days => ${COURSE_ACTIVITY_WINDOW_DAYS})`;
+
+    const [studentRow] = await db
+      .select({
+        students: sql<number>`cast(count(*) as int)`,
+        activeStudents: sql<number>`cast(count(*) filter (where exists (select 1 from ${chapterProgress}
+          inner join ${chapters} on ${chapterProgress.chapterId} = ${chapters.id}
+          where ${chapterProgress.studentId} = ${users.id} and ${chapters.courseId} = ${courseId}
+          and ${chapterProgress.completedAt} >= ${activeSince}) or exists (select 1 from ${quizAttempts}
+          inner join ${quizzes} on ${quizAttempts.quizId} = ${quizzes.id}
+          inner join ${chapters} on ${quizzes.chapterId} = ${chapters.id}
+          where ${quizAttempts.studentId} = ${users.id} and ${chapters.courseId} = ${courseId}
+          and ${quizAttempts.status} <> 'in_progress' and ${quizAttempts.attemptedAt} >= ${activeSince})) as int)`,
+      })
+      .from(users)
+      .where(and(eq(users.role, "STUDENT"), enrolled));
+
+    const [completionRow] = await db
+      .select({
+        completed: sql<number>`cast(count(*) as int)`,
+        medianDays: sql<number | null>`percentile_cont(0.5) within group (order by extract(epoch from ${enrollments.completedAt} - ${enrollments.createdAt}) / 86400)`,
+      })
+      .from(enrollments)
+      .where(and(eq(enrollments.courseId, courseId), sql`${enrollments.completedAt} is not null`));
+
+    // Only completions by students still enrolled count towards the funnel
+    const chapterRows = await db
+      .select({
+        chapterId: chapters.id,
+        title: chapters.title,
+        orderIndex: chapters.orderIndex,
+        completed: sql<number>`cast(count(distinct ${users.id}) as int)`,
+      })
+      .from(chapters)
+      .leftJoin(chapterProgress, eq(chapterProgress.chapterId, chapters.id))
+      .leftJoin(users, and(eq(chapterProgress.studentId, users.id), eq(users.role, "STUDENT"), enrolled))
+      .where(eq(chapters.courseId, courseId))
+      .groupBy(chapters.id, chapters.title, chapters.orderIndex)
+      .orderBy(chapters.orderIndex);
+
+    const quizRows = await db
+      .select({
+        quizId: quizzes.id,
+        title: quizzes.title,
+        chapterTitle: chapters.title,
+        attempts: sql<number>`cast(count(${quizAttempts.id}) as int)`,
+        averageScore: sql<number | null>`round(avg(${quizAttempts.score}))`,
+        students: sql<number>`cast(count(distinct ${quizAttempts.studentId}) as int)`,
+        passedStudents: sql<number>`cast(count(distinct ${quizAttempts.studentId}) filter (where ${quizAttempts.passed}) as int)`,
+      })
+      .from(quizzes)
+      .innerJoin(chapters, eq(quizzes.chapterId, chapters.id))
+      .leftJoin(quizAttempts, and(eq(quizAttempts.quizId, quizzes.id), eq(quizAttempts.status, "graded")))
+      .where(eq(chapters.courseId, courseId))
+      .groupBy(quizzes.id, quizzes.title, chapters.title, chapters.orderIndex)
+      .orderBy(chapters.orderIndex, quizzes.id);
+
+    const students = studentRow?.students ?? 0;
+    const completedEnrollments = completionRow?.completed ?? 0;
+    const totalCompletions = chapterRows.reduce((total, row) => total + row.completed, 0);
+
+    // Each step is compared to the previous chapter, the first one to the enrolled students
+    const funnel = chapterRows.map((row, index) => {
+      const previous = index === 0 ? students : chapterRows[index - 1].completed;
+      const dropOff = Math.max(previous - row.completed, 0);
+      return {
+        chapterId: row.chapterId,
+        title: row.title,
+        completed: row.completed,
+        completionRate: percent(row.completed, students),
+        dropOff,
+        dropOffRate: percent(dropOff, previous),
+      };
+    });
+
+    return {
+      success: true as const,
+      data: {
+        summary: {
+          students,
+          activeStudents: studentRow?.activeStudents ?? 0,
+          inactiveStudents: students - (studentRow?.activeStudents ?? 0),
+          activityWindowDays: COURSE_ACTIVITY_WINDOW_DAYS,
+          completedEnrollments,
+          completionRate: percent(completedEnrollments, students),
+          averageProgress: percent(totalCompletions, students * chapterRows.length),
+          medianCompletionDays:
+            completionRow?.medianDays == null ? null : Math.round(Number(completionRow.medianDays) * 10) / 10,
+        },
+        funnel,
+        quizzes: quizRows.map((row) => ({
+          quizId: row.quizId,
+          title: row.title,
+          chapterTitle: row.chapterTitle,
+          attempts: row.attempts,
+          averageScore: row.averageScore === null ? null : Number(row.averageScore),
+          passRate: row.students > 0 ? percent(row.passedStudents, row.students) : null,
+        })),
+      },
+    };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Chapter query functions
+export type ChapterRow = typeof chapters.$inferSelect;
+
+export async function getChapterById(id: number) {
+  try {
+    const result = await db
+      .select()
+      .from(chapters)
+      .where(eq(chapters.id, id))
+      .limit(1);
+    return { success: true, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Chapter with the owning course fields needed for access checks
+export async function getChapterWithCourse(id: number) {
+  try {
+    const result = await db
+      .select({
+        id: chapters.id,
+        title: chapters.title,
+        courseId: chapters.courseId,
+        courseTeacherId: courses.teacherId,
+        courseStatus: courses.status,
+      })
+      .from(chapters)
+      .innerJoin(courses, eq(chapters.courseId, courses.id))
+      .where(eq(chapters.id, id))
+      .limit(1);
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getChaptersByCourseId(courseId: number) {
+  try {
+    const result = await db
+      .select()
+      .from(chapters)
+      .where(eq(chapters.courseId, courseId))
+      .orderBy(chapters.orderIndex);
+
+    return { success: true, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function createChapter(data: {
+  courseId: number;
+  title: string;
+  description?: string | null;
+  orderIndex: number;
+  contentType: string;
+  contentData: any;
+}) {
+  try {
+    const result = await db
+      .insert(chapters)
+      .values({
+        courseId: data.courseId,
+        title: data.title,
+        description: data.description,
+        orderIndex: data.orderIndex,
+        contentType: data.contentType,
+        contentData: data.contentData,
+      })
+      .returning();
+
+    return { success: true, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function updateChapter(
+  id: number,
+  data: Partial<{
+    title: string;
+    description: string | null;
+    orderIndex: number;
+    contentType: string;
+    contentData: any;
+  }>
+) {
+  try {
+    const result = await db
+      .update(chapters)
+      .set(data)
+      .where(eq(chapters.id, id))
+      .returning();
+
+    return { success: true, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function deleteChapter(id: number) {
+  try {
+    const result = await db
+      .delete(chapters)
+      .where(eq(chapters.id, id))
+      .returning();
+
+    return { success: true, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function reorderChapters(courseId: number, chapterIds: number[]) {
+  try {
+    // Update order_index for each chapter
+    const updates = chapterIds.map((chapterId, index) =>
+      db
+        .update(chapters)
+        .set({ orderIndex: index })
+        .where(and(eq(chapters.id, chapterId), eq(chapters.courseId, courseId)))
+    );
+
+    await Promise.all(updates);
+
+    return {
+      success: true,
+      data: { message: "Chapters reordered successfully" },
+    };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Chapter Progress query functions
+export async function getChapterProgress(studentId: number, chapterId: number) {
+  try {
+    const result = await db
+      .select()
+      .from(chapterProgress)
+      .where(
+        and(
+          eq(chapterProgress.studentId, studentId),
+          eq(chapterProgress.chapterId, chapterId)
+        )
+      )
+      .limit(1);
+
+    return { success: true, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getStudentProgressByCourse(
+  studentId: number,
+  courseId: number
+) {
+  try {
+    const result = await db
+      .select({
+        id: chapterProgress.id,
+        studentId: chapterProgress.studentId,
+        chapterId: chapterProgress.chapterId,
+        completedAt: chapterProgress.completedAt,
+        chapterTitle: chapters.title,
+        chapterOrderIndex: chapters.orderIndex,
+      })
+      .from(chapterProgress)
+      .innerJoin(chapters, eq(chapterProgress.chapterId, chapters.id))
+      .where(
+        and(
+          eq(chapterProgress.studentId, studentId),
+          eq(chapters.courseId, courseId)
+        )
+      )
+      .orderBy(chapters.orderIndex);
+
+    return { success: true, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Aggregated progress of a student in a course, computed from chapter
+// completions and quiz attempts (scored per quiz under its scoring policy)
+export async function getCourseProgressSummary(
+  studentId: number,
+  courseId: number
+) {
+  try {
+    const courseChapters = await db
+      .select({
+        id: chapters.id,
+        title: chapters.title,
+        orderIndex: chapters.orderIndex,
+      })
+      .from(chapters)
+      .where(eq(chapters.courseId, courseId))
+      .orderBy(chapters.orderIndex);
+
+    const completions = await db
+      .select({
+        chapterId: chapterProgress.chapterId,
+        completedAt: chapterProgress.completedAt,
+      })
+      .from(chapterProgress)
+      .innerJoin(chapters, eq(chapterProgress.chapterId, chapters.id))
+      .where(
+        and(
+          eq(chapterProgress.studentId, studentId),
+          eq(chapters.courseId, courseId)
+        )
+      );
+
+    const courseQuizzes = await db
+      .select({
+        id: quizzes.id,
+        chapterId: quizzes.chapterId,
+        passingScore: quizzes.passingScore,
+        scoringPolicy: quizzes.scoringPolicy,
+      })
+      .from(quizzes)
+      .innerJoin(chapters, eq(quizzes.chapterId, chapters.id))
+      .where(eq(chapters.courseId, courseId));
+
+    const attempts = await db
+      .select({
+        quizId: quizAttempts.quizId,
+        status: quizAttempts.status,
+        score: quizAttempts.score,
+        passed: quizAttempts.passed,
+        attemptedAt: quizAttempts.attemptedAt,
+      })
+      .from(quizAttempts)
+      .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+      .innerJoin(chapters, eq(quizzes.chapterId, chapters.id))
+      .where(
+        and(
+          eq(quizAttempts.studentId, studentId),
+          eq(chapters.courseId, courseId),
+          isSubmittedAttempt
+        )
+      );
+
+    // Attempts awaiting manual grading count as activity, not as results
+    const bestAttempts = courseQuizzes.flatMap((quiz) => {
+      const quizAttemptRows = attempts.filter((attempt) => attempt.quizId === quiz.id);
+      const outcome = computeQuizOutcome(
+        quizAttemptRows.filter((attempt) => attempt.status === "graded"),
+        quiz.scoringPolicy,
+        quiz.passingScore ?? 70
+      );
+      if (!outcome) return [];
+      const lastAttemptAt = quizAttemptRows
+        .map((attempt) => attempt.attemptedAt)
+        .filter((date): date is Date => date !== null)
+        .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+      return [{ quizId: quiz.id, bestScore: outcome.score, passed: outcome.passed, lastAttemptAt }];
+    });
+
+    const completedAtByChapter = new Map<number, Date | null>();
+    completions.forEach(({ chapterId, completedAt }) => {
+      if (chapterId) completedAtByChapter.set(chapterId, completedAt);
+    });
+
+    const attemptByQuiz = new Map(bestAttempts.map((a) => [a.quizId, a]));
+
+    // Best quiz score per chapter (a chapter may hold several quizzes)
+    const scoreByChapter = new Map<number, number>();
+    courseQuizzes.forEach(({ id, chapterId }) => {
+      const attempt = attemptByQuiz.get(id);
+      if (!chapterId || !attempt) return;
+      const current = scoreByChapter.get(chapterId);
+      if (current === undefined || attempt.bestScore > current) {
+        scoreByChapter.set(chapterId, attempt.bestScore);
+      }
+    });
+
+    const activityDates = [
+      ...completions.map((c) => c.completedAt),
+      ...bestAttempts.map((a) => a.lastAttemptAt),
+    ]
+      .filter((d): d is Date => d !== null)
+      .map((d) => new Date(d).getTime());
+
+    const totalChapters = courseChapters.length;
+    const chaptersCompleted = courseChapters.filter((c) =>
+      completedAtByChapter.has(c.id)
+    ).length;
+    const averageQuizScore =
+      bestAttempts.length > 0
+        ? Math.round(
+            bestAttempts.reduce((sum, a) => sum + a.bestScore, 0) /
+              bestAttempts.length
+          )
+        : 0;
+
+    return {
+      success: true as const,
+      data: {
+        courseId,
+        studentId,
+        overallProgress:
+          totalChapters > 0
+            ? Math.round((chaptersCompleted / totalChapters) * 100)
+            : 0,
+        chaptersCompleted,
+        totalChapters,
+        quizzesPassed: bestAttempts.filter((a) => a.passed).length,
+        totalQuizzes: courseQuizzes.length,
+        averageQuizScore,
+        lastActivity:
+          activityDates.length > 0
+            ? new Date(Math.max(...activityDates)).toISOString()
+            : null,
+        chapterProgress: courseChapters.map((chapter) => ({
+          chapterId: chapter.id,
+          title: chapter.title,
+          completed: completedAtByChapter.has(chapter.id),
+          completedAt: completedAtByChapter.get(chapter.id) ?? null,
+          score: scoreByChapter.get(chapter.id) ?? null,
+        })),
+      },
+    };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function markChapterComplete(
+  studentId: number,
+  chapterId: number
+) {
+  try {
+    // Check if already completed
+    const existing = await db
+      .select()
+      .from(chapterProgress)
+      .where(
+        and(
+          eq(chapterProgress.studentId, studentId),
+          eq(chapterProgress.chapterId, chapterId)
+        )
+      )
+      .limit(1);
+
+    if (existing.length > 0) {
+      return { success: true, data: existing[0] };
+    }
+
+    // Create new progress record
+    const result = await db
+      .insert(chapterProgress)
+      .values({
+        studentId,
+        chapterId,
+      })
+      .returning();
+
+    return { success: true, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function unmarkChapterComplete(
+  studentId: number,
+  chapterId: number
+) {
+  try {
+    const result = await db
+      .delete(chapterProgress)
+      .where(
+        and(
+          eq(chapterProgress.studentId, studentId),
+          eq(chapterProgress.chapterId, chapterId)
+        )
+      )
+      .returning();
+
+    return { success: true, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Quiz query functions
+export async function getQuizById(id: number) {
+  try {
+    const result = await db
+      .select()
+      .from(quizzes)
+      .where(eq(quizzes.id, id))
+      .limit(1);
+
+    return { success: true, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getQuizzesByChapter(chapterId: number) {
+  try {
+    const result = await db
+      .select()
+      .from(quizzes)
+      .where(eq(quizzes.chapterId, chapterId));
+
+    return { success: true, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// All quizzes of a course, in chapter order
+export async function getQuizzesByCourse(courseId: number) {
+  try {
+    const result = await db
+      .select({
+        id: quizzes.id,
+        chapterId: quizzes.chapterId,
+        title: quizzes.title,
+        passingScore: quizzes.passingScore,
+        scoringPolicy: quizzes.scoringPolicy,
+        chapterOrderIndex: chapters.orderIndex,
+      })
+      .from(quizzes)
+      .innerJoin(chapters, eq(quizzes.chapterId, chapters.id))
+      .where(eq(chapters.courseId, courseId))
+      .orderBy(chapters.orderIndex, quizzes.id);
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function createQuiz(data: {
+  chapterId: number;
+  title: string;
+  questions: any;
+  draws?: any;
+  type?: "auto" | "manual";
+  passingScore?: number;
+  timeLimitMinutes?: number | null;
+  maxAttempts?: number | null;
+  cooldownMinutes?: number | null;
+  scoringPolicy?: "best" | "last" | "average";
+  latePolicy?: "auto_submit" | "reject";
+}) {
+  try {
+    const result = await db
+      .insert(quizzes)
+      .values({
+        chapterId: data.chapterId,
+        title: data.title,
+        questions: data.questions,
+        draws: data.draws?.length ? data.draws : null,
+        type: data.type || "auto",
+        passingScore: data.passingScore || 70,
+        timeLimitMinutes: data.timeLimitMinutes ?? null,
+        maxAttempts: data.maxAttempts ?? null,
+        cooldownMinutes: data.cooldownMinutes ?? null,
+        scoringPolicy: data.scoringPolicy || "best",
+        latePolicy: data.latePolicy || "auto_submit",
+      })
+      .returning();
+
+    return { success: true, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function updateQuiz(
+  id: number,
+  data: Partial<{
+    title: string;
+    questions: any;
+    draws: any;
+    type: "auto" | "manual";
+    passingScore: number;
+    timeLimitMinutes: number | null;
+    maxAttempts: number | null;
+    cooldownMinutes: number | null;
+    scoringPolicy: "best" | "last" | "average";
+    latePolicy: "auto_submit" | "reject";
+  }>
+) {
+  try {
+    const result = await db
+      .update(quizzes)
+      .set(data)
+      .where(eq(quizzes.id, id))
+      .returning();
+
+    return { success: true, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function deleteQuiz(id: number) {
+  try {
+    const result = await db
+      .delete(quizzes)
+      .where(eq(quizzes.id, id))
+      .returning();
+
+    return { success: true, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Quiz Attempt query functions
+
+// Attempts still being answered are left out of scores and histories
+const isSubmittedAttempt = ne(quizAttempts.status, "in_progress");
+
+export async function getQuizAttemptById(id: number) {
+  try {
+    const result = await db
+      .select()
+      .from(quizAttempts)
+      .where(eq(quizAttempts.id, id))
+      .limit(1);
+
+    return { success: true, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getQuizAttemptsByStudent(
+  studentId: number,
+  quizId: number
+) {
+  try {
+    const result = await db
+      .select()
+      .from(quizAttempts)
+      .where(
+        and(
+          eq(quizAttempts.studentId, studentId),
+          eq(quizAttempts.quizId, quizId),
+          isSubmittedAttempt
+        )
+      )
+      .orderBy(desc(quizAttempts.attemptedAt));
+
+    return { success: true, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getAllQuizAttemptsByStudent(studentId: number) {
+  try {
+    const result = await db
+      .select()
+      .from(quizAttempts)
+      .where(and(eq(quizAttempts.studentId, studentId), isSubmittedAttempt))
+      .orderBy(desc(quizAttempts.attemptedAt));
+
+    return { success: true, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function createQuizAttempt(data: {
+  studentId: number;
+  quizId: number;
+  answers: any;
+  score: number;
+  passed: boolean;
+  status?: "graded" | "pending_review";
+}) {
+  try {
+    const result = await db
+      .insert(quizAttempts)
+      .values({
+        studentId: data.studentId,
+        quizId: data.quizId,
+        answers: data.answers,
+        score: data.score,
+        passed: data.passed,
+        status: data.status || "graded",
+      })
+      .returning();
+
+    return { success: true, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Open an attempt on the question set drawn for it; the clock starts now
+export async function startQuizAttempt(data: {
+  studentId: number;
+  quizId: number;
+  questions: any;
+}) {
+  try {
+    const result = await db
+      .insert(quizAttempts)
+      .values({
+        studentId: data.studentId,
+        quizId: data.quizId,
+        questions: data.questions,
+        answers: [],
+        score: 0,
+        passed: false,
+        status: "in_progress",
+        startedAt: new Date(),
+        attemptedAt: null,
+      })
+      .returning();
+
+    return { success: true as const, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getInProgressQuizAttempt(studentId: number, quizId: number) {
+  try {
+    const result = await db
+      .select()
+      .from(quizAttempts)
+      .where(
+        and(
+          eq(quizAttempts.studentId, studentId),
+          eq(quizAttempts.quizId, quizId),
+          eq(quizAttempts.status, "in_progress")
+        )
+      )
+      .orderBy(desc(quizAttempts.startedAt))
+      .limit(1);
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Keep the answers given so far, graded as-is if the time limit runs out
+export async function saveQuizAttemptDraft(id: number, answers: any) {
+  try {
+    const result = await db
+      .update(quizAttempts)
+      .set({ answers })
+      .where(and(eq(quizAttempts.id, id), eq(quizAttempts.status, "in_progress")))
+      .returning({ id: quizAttempts.id });
+
+    if (!result[0]) {
+      return { success: false as const, error: "Cette tentative a déjà été soumise" };
+    }
+
+    return { success: true as const, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Record the graded answers of an in-progress attempt (once only)
+export async function submitQuizAttempt(
+  id: number,
+  data: {
+    answers: any;
+    score: number;
+    passed: boolean;
+    status: "graded" | "pending_review";
+    timedOut?: boolean;
+  }
+) {
+  try {
+    const result = await db
+      .update(quizAttempts)
+      .set({ ...data, attemptedAt: new Date() })
+      .where(and(eq(quizAttempts.id, id), eq(quizAttempts.status, "in_progress")))
+      .returning();
+
+    if (!result[0]) {
+      return { success: false as const, error: "Cette tentative a déjà été soumise" };
+    }
+
+    return { success: true as const, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getBestQuizAttempt(studentId: number, quizId: number) {
+  try {
+    const result = await db
+      .select()
+      .from(quizAttempts)
+      .where(
+        and(
+          eq(quizAttempts.studentId, studentId),
+          eq(quizAttempts.quizId, quizId),
+          isSubmittedAttempt
+        )
+      )
+      .orderBy(desc(quizAttempts.score))
+      .limit(1);
+
+    return { success: true, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Manual grading queue: attempts with their quiz, course and student
+function selectQuizAttemptsForReview() {
+  return db
+    .select({
+      id: quizAttempts.id,
+      status: quizAttempts.status,
+      answers: quizAttempts.answers,
+      score: quizAttempts.score,
+      passed: quizAttempts.passed,
+      feedback: quizAttempts.feedback,
+      attemptedAt: quizAttempts.attemptedAt,
+      reviewedAt: quizAttempts.reviewedAt,
+      quizId: quizzes.id,
+      quizTitle: quizzes.title,
+      questions: quizzes.questions,
+      attemptQuestions: quizAttempts.questions,
+      passingScore: quizzes.passingScore,
+      chapterId: chapters.id,
+      chapterTitle: chapters.title,
+      courseId: courses.id,
+      courseTitle: courses.title,
+      teacherId: courses.teacherId,
+      studentId: users.id,
+      studentName: users.name,
+      studentEmail: users.email,
+    })
+    .from(quizAttempts)
+    .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+    .innerJoin(chapters, eq(quizzes.chapterId, chapters.id))
+    .innerJoin(courses, eq(chapters.courseId, courses.id))
+    .innerJoin(users, eq(quizAttempts.studentId, users.id));
+}
+
+// Oldest first, optionally restricted to one trainer's courses
+export async function getPendingQuizAttempts(teacherId?: number) {
+  try {
+    const pending = eq(quizAttempts.status, "pending_review");
+    const result = await selectQuizAttemptsForReview()
+      .where(teacherId ? and(pending, eq(courses.teacherId, teacherId)) : pending)
+      .orderBy(quizAttempts.attemptedAt);
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getQuizAttemptForReview(id: number) {
+  try {
+    const result = await selectQuizAttemptsForReview()
+      .where(eq(quizAttempts.id, id))
+      .limit(1);
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Publish the manual grade of a pending attempt
+export async function gradeQuizAttempt(
+  id: number,
+  data: {
+    answers: any;
+    score: number;
+    passed: boolean;
+    feedback?: string | null;
+    reviewerId: number;
+  }
+) {
+  try {
+    const result = await db
+      .update(quizAttempts)
+      .set({
+        answers: data.answers,
+        score: data.score,
+        passed: data.passed,
+        feedback: data.feedback || null,
+        status: "graded",
+        reviewedBy: data.reviewerId,
+        reviewedAt: new Date(),
+      })
+      .where(and(eq(quizAttempts.id, id), eq(quizAttempts.status, "pending_review")))
+      .returning();
+
+    if (!result[0]) {
+      return { success: false as const, error: "Cette tentative a déjà été corrigée" };
+    }
+
+    return { success: true as const, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Final Project query functions
+export async function getFinalProjectById(id: number) {
+  try {
+    const result = await db
+      .select()
+      .from(finalProjects)
+      .where(eq(finalProjects.id, id))
+      .limit(1);
+
+    return { success: true, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getFinalProjectsByCourse(courseId: number) {
+  try {
+    const result = await db
+      .select()
+      .from(finalProjects)
+      .where(eq(finalProjects.courseId, courseId))
+      .orderBy(finalProjects.id);
+
+    return { success: true, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// A course has at most one final project
+export async function getFinalProjectByCourse(courseId: number) {
+  try {
+    const result = await db
+      .select()
+      .from(finalProjects)
+      .where(eq(finalProjects.courseId, courseId))
+      .orderBy(finalProjects.id)
+      .limit(1);
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function createFinalProject(data: {
+  courseId: number;
+  title: string;
+  description: string;
+  requirements?: any;
+  required?: boolean;
+}) {
+  try {
+    const result = await db
+      .insert(finalProjects)
+      .values({
+        courseId: data.courseId,
+        title: data.title,
+        description: data.description,
+        requirements: data.requirements,
+        required: data.required,
+      })
+      .returning();
+
+    return { success: true, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function updateFinalProject(
+  id: number,
+  data: Partial<{
+    title: string;
+    description: string;
+    requirements: any;
+    required: boolean;
+  }>
+) {
+  try {
+    const result = await db
+      .update(finalProjects)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(finalProjects.id, id))
+      .returning();
+
+    return { success: true, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function deleteFinalProject(id: number) {
+  try {
+    const result = await db
+      .delete(finalProjects)
+      .where(eq(finalProjects.id, id))
+      .returning();
+
+    return { success: true, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Project Submission query functions
+export async function getProjectSubmissionById(id: number) {
+  try {
+    const result = await db
+      .select()
+      .from(projectSubmissions)
+      .where(eq(projectSubmissions.id, id))
+      .limit(1);
+
+    return { success: true, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getProjectSubmissionsByStudent(studentId: number) {
+  try {
+    const result = await db
+      .select()
+      .from(projectSubmissions)
+      .where(eq(projectSubmissions.studentId, studentId))
+      .orderBy(desc(projectSubmissions.submittedAt));
+
+    return { success: true, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Every submission of a student for a project, latest first
+export async function getStudentSubmissionsForProject(
+  studentId: number,
+  finalProjectId: number
+) {
+  try {
+    const result = await db
+      .select()
+      .from(projectSubmissions)
+      .where(
+        and(
+          eq(projectSubmissions.studentId, studentId),
+          eq(projectSubmissions.finalProjectId, finalProjectId)
+        )
+      )
+      .orderBy(desc(projectSubmissions.submittedAt), desc(projectSubmissions.id));
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getProjectSubmissionsByProject(finalProjectId: number) {
+  try {
+    const result = await db
+      .select()
+      .from(projectSubmissions)
+      .where(eq(projectSubmissions.finalProjectId, finalProjectId))
+      .orderBy(desc(projectSubmissions.submittedAt));
+
+    return { success: true, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getStudentSubmissionForProject(
+  studentId: number,
+  finalProjectId: number
+) {
+  try {
+    const result = await db
+      .select()
+      .from(projectSubmissions)
+      .where(
+        and(
+          eq(projectSubmissions.studentId, studentId),
+          eq(projectSubmissions.finalProjectId, finalProjectId)
+        )
+      )
+      .orderBy(desc(projectSubmissions.submittedAt), desc(projectSubmissions.id))
+      .limit(1);
+
+    return { success: true, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function createProjectSubmission(data: {
+  studentId: number;
+  finalProjectId: number;
+  submissionUrl?: string | null;
+  description?: string | null;
+  files?: ProjectFile[];
+}) {
+  try {
+    const result = await db
+      .insert(projectSubmissions)
+      .values({
+        studentId: data.studentId,
+        finalProjectId: data.finalProjectId,
+        submissionUrl: data.submissionUrl,
+        description: data.description,
+        files: data.files ?? [],
+        status: "submitted",
+      })
+      .returning();
+
+    return { success: true, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function updateProjectSubmission(
+  id: number,
+  data: Partial<{
+    submissionUrl: string | null;
+    description: string | null;
+    status: ProjectSubmissionStatus;
+    feedback: string | null;
+    grade: number | null;
+  }>
+) {
+  try {
+    const updateData: any = { ...data };
+
+    // If status is being changed to reviewed, set reviewedAt
+    if (data.status && data.status !== "submitted") {
+      updateData.reviewedAt = new Date();
+    }
+
+    const result = await db
+      .update(projectSubmissions)
+      .set(updateData)
+      .where(eq(projectSubmissions.id, id))
+      .returning();
+
+    return { success: true, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function deleteProjectSubmission(id: number) {
+  try {
+    const result = await db
+      .delete(projectSubmissions)
+      .where(eq(projectSubmissions.id, id))
+      .returning();
+
+    return { success: true, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+function selectProjectSubmissionsForReview() {
+  return db
+    .select({
+      id: projectSubmissions.id,
+      status: projectSubmissions.status,
+      submissionUrl: projectSubmissions.submissionUrl,
+      description: projectSubmissions.description,
+      files: projectSubmissions.files,
+      grade: projectSubmissions.grade,
+      feedback: projectSubmissions.feedback,
+      submittedAt: projectSubmissions.submittedAt,
+      reviewedAt: projectSubmissions.reviewedAt,
+      finalProjectId: finalProjects.id,
+      projectTitle: finalProjects.title,
+      courseId: courses.id,
+      courseTitle: courses.title,
+      teacherId: courses.teacherId,
+      studentId: users.id,
+      studentName: users.name,
+      studentEmail: users.email,
+    })
+    .from(projectSubmissions)
+    .innerJoin(finalProjects, eq(projectSubmissions.finalProjectId, finalProjects.id))
+    .innerJoin(courses, eq(finalProjects.courseId, courses.id))
+    .innerJoin(users, eq(projectSubmissions.studentId, users.id));
+}
+
+// Submissions awaiting a decision, oldest first, optionally for one trainer
+export async function getPendingProjectSubmissions(teacherId?: number) {
+  try {
+    const pending = eq(projectSubmissions.status, "submitted");
+    const result = await selectProjectSubmissionsForReview()
+      .where(teacherId ? and(pending, eq(courses.teacherId, teacherId)) : pending)
+      .orderBy(projectSubmissions.submittedAt);
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getProjectSubmissionForReview(id: number) {
+  try {
+    const result = await selectProjectSubmissionsForReview()
+      .where(eq(projectSubmissions.id, id))
+      .limit(1);
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Record the trainer's decision on a submission still waiting for one
+export async function reviewProjectSubmission(
+  id: number,
+  data: {
+    status: Exclude<ProjectSubmissionStatus, "submitted">;
+    grade: number | null;
+    feedback: string | null;
+    rubricEvaluation?: unknown;
+    reviewerId: number;
+  }
+) {
+  try {
+    const result = await db
+      .update(projectSubmissions)
+      .set({
+        status: data.status,
+        grade: data.grade,
+        feedback: data.feedback,
+        rubricEvaluation: data.rubricEvaluation ?? null,
+        reviewedBy: data.reviewerId,
+        reviewedAt: new Date(),
+      })
+      .where(and(eq(projectSubmissions.id, id), eq(projectSubmissions.status, "submitted")))
+      .returning();
+
+    if (!result[0]) {
+      return { success: false as const, error: "Ce rendu a déjà été évalué" };
+    }
+
+    return { success: true as const, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Rubric query functions
+export async function getRubricByProject(finalProjectId: number) {
+  try {
+    const result = await db
+      .select()
+      .from(rubrics)
+      .where(eq(rubrics.finalProjectId, finalProjectId))
+      .limit(1);
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getRubricsByProjects(finalProjectIds: number[]) {
+  try {
+    if (finalProjectIds.length === 0) {
+      return { success: true as const, data: [] };
+    }
+
+    const result = await db
+      .select()
+      .from(rubrics)
+      .where(inArray(rubrics.finalProjectId, finalProjectIds));
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Rubrics a trainer can copy from (every rubric for admins)
+export async function getRubricsForTeacher(teacherId?: number) {
+  try {
+    const query = db
+      .select({
+        id: rubrics.id,
+        title: rubrics.title,
+        criteria: rubrics.criteria,
+        finalProjectId: finalProjects.id,
+        projectTitle: finalProjects.title,
+        courseId: courses.id,
+        courseTitle: courses.title,
+      })
+      .from(rubrics)
+      .innerJoin(finalProjects, eq(rubrics.finalProjectId, finalProjects.id))
+      .innerJoin(courses, eq(finalProjects.courseId, courses.id));
+
+    const result = await (teacherId ? query.where(eq(courses.teacherId, teacherId)) : query).orderBy(
+      courses.title
+    );
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// A final project has at most one rubric: create it or replace its content
+export async function saveRubric(
+  finalProjectId: number,
+  data: { title: string; criteria: any }
+) {
+  try {
+    const result = await db
+      .insert(rubrics)
+      .values({ finalProjectId, title: data.title, criteria: data.criteria })
+      .onConflictDoUpdate({
+        target: rubrics.finalProjectId,
+        set: { title: data.title, criteria: data.criteria, updatedAt: new Date() },
+      })
+      .returning();
+
+    return { success: true as const, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function deleteRubric(finalProjectId: number) {
+  try {
+    const result = await db
+      .delete(rubrics)
+      .where(eq(rubrics.finalProjectId, finalProjectId))
+      .returning();
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Get student enrolled courses with progress
+export async function getStudentEnrolledCoursesWithProgress(studentId: number) {
+  try {
+    const result = await db
+      .select({
+        enrollmentId: enrollments.id,
+        courseId: courses.id,
+        courseTitle: courses.title,
+        courseDescription: courses.description,
+        courseThumbnailUrl: courses.thumbnailUrl,
+        enrolledAt: enrollments.createdAt,
+        completedAt: enrollments.completedAt,
+        domainId: domains.id,
+        domainName: domains.name,
+        domainColor: domains.color,
+        teacherId: users.id,
+        teacherName: users.name,
+        totalChapters: sql<number>`cast(count(distinct ${chapters.id}) as int)`,
+        completedChapters: sql<number>`cast(count(distinct ${chapterProgress.id}) as int)`,
+      })
+      .from(enrollments)
+      .innerJoin(courses, eq(enrollments.courseId, courses.id))
+      .leftJoin(domains, eq(courses.domainId, domains.id))
+      .leftJoin(users, eq(courses.teacherId, users.id))
+      .leftJoin(chapters, eq(courses.id, chapters.courseId))
+      .leftJoin(
+        chapterProgress,
+        and(
+          eq(chapterProgress.chapterId, chapters.id),
+          eq(chapterProgress.studentId, studentId)
+        )
+      )
+      .where(
+        and(
+          eq(enrollments.studentId, studentId),
+          eq(courses.status, "validated")
+        )
+      )
+      .groupBy(
+        enrollments.id,
+        courses.id,
+        courses.title,
+        courses.description,
+        courses.thumbnailUrl,
+        enrollments.createdAt,
+        enrollments.completedAt,
+        domains.id,
+        domains.name,
+        domains.color,
+        users.id,
+        users.name
+      )
+      .orderBy(desc(enrollments.createdAt));
+
+    return { success: true, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Get student quiz attempts with course and chapter details
+export async function getStudentQuizAttemptsWithDetails(studentId: number) {
+  try {
+    const result = await db
+      .select({
+        attemptId: quizAttempts.id,
+        quizId: quizzes.id,
+        quizTitle: quizzes.title,
+        score: quizAttempts.score,
+        maxScore: quizzes.passingScore,
+        passed: quizAttempts.passed,
+        attemptedAt: quizAttempts.attemptedAt,
+        chapterId: chapters.id,
+        chapterTitle: chapters.title,
+        courseId: courses.id,
+        courseTitle: courses.title,
+        domainName: domains.name,
+      })
+      .from(quizAttempts)
+      .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+      .innerJoin(chapters, eq(quizzes.chapterId, chapters.id))
+      .innerJoin(courses, eq(chapters.courseId, courses.id))
+      .leftJoin(domains, eq(courses.domainId, domains.id))
+      .where(and(eq(quizAttempts.studentId, studentId), isSubmittedAttempt))
+      .orderBy(desc(quizAttempts.attemptedAt));
+
+    return { success: true, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Certificate query functions
+const certificateTeachers = alias(users, "certificate_teachers");
+
+function selectCertificatesWithDetails() {
+  return db
+    .select({
+      id: certificates.id,
+      enrollmentId: certificates.enrollmentId,
+      hash: certificates.hash,
+      finalGrade: certificates.finalGrade,
+      issuedAt: certificates.issuedAt,
+      revokedAt: certificates.revokedAt,
+      revocationReason: certificates.revocationReason,
+      studentId: users.id,
+      studentName: users.name,
+      courseId: courses.id,
+      courseTitle: courses.title,
+      domainName: domains.name,
+      domainColor: domains.color,
+      teacherName: certificateTeachers.name,
+    })
+    .from(certificates)
+    .innerJoin(enrollments, eq(certificates.enrollmentId, enrollments.id))
+    .innerJoin(users, eq(enrollments.studentId, users.id))
+    .innerJoin(courses, eq(enrollments.courseId, courses.id))
+    .leftJoin(domains, eq(courses.domainId, domains.id))
+    .leftJoin(certificateTeachers, eq(courses.teacherId, certificateTeachers.id));
+}
+
+export async function getCertificateById(id: number) {
+  try {
+    const result = await selectCertificatesWithDetails()
+      .where(eq(certificates.id, id))
+      .limit(1);
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getCertificateByHash(hash: string) {
+  try {
+    const result = await selectCertificatesWithDetails()
+      .where(eq(certificates.hash, hash))
+      .limit(1);
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getCertificateByEnrollmentId(enrollmentId: number) {
+  try {
+    const result = await db
+      .select()
+      .from(certificates)
+      .where(eq(certificates.enrollmentId, enrollmentId))
+      .limit(1);
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function getCertificatesByStudent(studentId: number) {
+  try {
+    const result = await selectCertificatesWithDetails()
+      .where(eq(enrollments.studentId, studentId))
+      .orderBy(desc(certificates.issuedAt));
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function createCertificate(data: {
+  enrollmentId: number;
+  hash: string;
+  finalGrade: number | null;
+}) {
+  try {
+    const result = await db.transaction(async (tx) => {
+      const [certificate] = await tx
+        .insert(certificates)
+        .values({
+          enrollmentId: data.enrollmentId,
+          hash: data.hash,
+          finalGrade: data.finalGrade,
+        })
+        .returning();
+
+      // Issuing a certificate closes the enrollment
+      await tx
+        .update(enrollments)
+        .set({ completedAt: certificate.issuedAt, updatedAt: new Date() })
+        .where(eq(enrollments.id, data.enrollmentId));
+
+      return certificate;
+    });
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function revokeCertificate(id: number, reason: string) {
+  try {
+    const result = await db
+      .update(certificates)
+      .set({ revokedAt: new Date(), revocationReason: reason })
+      .where(eq(certificates.id, id))
+      .returning();
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Rate limit query functions
+export async function incrementRateLimit(key: string, windowMs: number) {
+  try {
+    const resetAt = sql`now() + make_interval(secs => ${windowMs / 1000})`;
+
+    // Atomically start a new window or increment the current one
+    const [bucket] = await db
+      .insert(rateLimitBuckets)
+      .values({ key, count: 1, resetAt })
+      .onConflictDoUpdate({
+        target: rateLimitBuckets.key,
+        set: {
+          count: sql`case when ${rateLimitBuckets.resetAt} <= now() then 1 else ${rateLimitBuckets.count} + 1 end`,
+          resetAt: sql`case when ${rateLimitBuckets.resetAt} <= now() then ${resetAt} else ${rateLimitBuckets.resetAt} end`,
+        },
+      })
+      .returning();
+
+    return { success: true as const, data: bucket };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Auth token query functions
+type AuthTokenType = (typeof authTokens.$inferSelect)["type"];
+
+// Store a new token; earlier unused tokens of the same type stop working
+export async function createAuthToken(data: {
+  userId: number;
+  type: AuthTokenType;
+  tokenHash: string;
+  expiresAt: Date;
+}) {
+  try {
+    const result = await db.transaction(async (tx) => {
+      await tx
+        .delete(authTokens)
+        .where(
+          and(
+            eq(authTokens.userId, data.userId),
+            eq(authTokens.type, data.type),
+            sql`${authTokens.usedAt} is null`
+          )
+        );
+
+      const [token] = await tx.insert(authTokens).values(data).returning();
+      return token;
+    });
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Atomically mark a valid token as used; null when unknown, expired or already used
+export async function consumeAuthToken(tokenHash: string, type: AuthTokenType) {
+  try {
+    const result = await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(authTokens.tokenHash, tokenHash),
+          eq(authTokens.type, type),
+          sql`${authTokens.usedAt} is null`,
+          sql`${authTokens.expiresAt} > now()`
+        )
+      )
+      .returning();
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function markEmailVerified(userId: number) {
+  try {
+    const result = await db
+      .update(users)
+      .set({ emailVerifiedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(users.id, userId), sql`${users.emailVerifiedAt} is null`))
+      .returning({ id: users.id });
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Two-factor query functions
+export async function getTwoFactorByUser(userId: number) {
+  try {
+    const result = await db
+      .select()
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId))
+      .limit(1);
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Start (or restart) enrolment with a new secret, not enabled until confirmed
+export async function saveTwoFactorSecret(userId: number, secret: string) {
+  try {
+    const result = await db
+      .insert(userTwoFactor)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { secret, enabledAt: null, lastUsedStep: null, updatedAt: new Date() },
+      })
+      .returning();
+
+    return { success: true as const, data: result[0] };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-// Chapter Progress query functions
-export async function getChapterProgress(studentId: number, chapterId: number) {
+// Confirm enrolment and store a fresh set of recovery codes
+export async function enableTwoFactor(userId: number, step: number, codeHashes: string[]) {
+  try {
+    const result = await db.transaction(async (tx) => {
+      const [record] = await tx
+        .update(userTwoFactor)
+        .set({ enabledAt: new Date(), lastUsedStep: step, updatedAt: new Date() })
+        .where(and(eq(userTwoFactor.userId, userId), sql`${userTwoFactor.enabledAt} is null`))
+        .returning();
+      if (!record) {
+        return null;
+      }
+
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+      return record;
+    });
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Accept a TOTP time step only if it is newer than the last one used
+export async function recordTotpStep(userId: number, step: number) {
   try {
     const result = await db
-      .select()
-      .from(chapterProgress)
+      .update(userTwoFactor)
+      .set({ lastUsedStep: step })
       .where(
         and(
-          eq(chapterProgress.studentId, studentId),
-          eq(chapterProgress.chapterId, chapterId)
+          eq(userTwoFactor.userId, userId),
+          sql`(${userTwoFactor.lastUsedStep} is null or ${userTwoFactor.lastUsedStep} < ${step})`
         )
       )
-      .limit(1);
+      .returning({ userId: userTwoFactor.userId });
 
-    return { success: true, data: result[0] || null };
+    return { success: true as const, data: result.length > 0 };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function getStudentProgressByCourse(
-  studentId: number,
-  courseId: number
-) {
+export async function consumeRecoveryCode(userId: number, codeHash: string) {
   try {
     const result = await db
-      .select({
-        id: chapterProgress.id,
-        studentId: chapterProgress.studentId,
-        chapterId: chapterProgress.chapterId,
-        completedAt: chapterProgress.completedAt,
-        chapterTitle: chapters.title,
-        chapterOrderIndex: chapters.orderIndex,
-      })
-      .from(chapterProgress)
-      .innerJoin(chapters, eq(chapterProgress.chapterId, chapters.id))
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
       .where(
         and(
-          eq(chapterProgress.studentId, studentId),
-          eq(chapters.courseId, courseId)
+          eq(recoveryCodes.userId, userId),
+          eq(recoveryCodes.codeHash, codeHash),
+          sql`${recoveryCodes.usedAt} is null`
         )
       )
-      .orderBy(chapters.orderIndex);
+      .returning({ id: recoveryCodes.id });
 
-    return { success: true, data: result };
+    return { success: true as const, data: result.length > 0 };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function markChapterComplete(
-  studentId: number,
-  chapterId: number
-) {
+export async function replaceRecoveryCodes(userId: number, codeHashes: string[]) {
   try {
-    // Check if already completed
-    const existing = await db
-      .select()
-      .from(chapterProgress)
-      .where(
-        and(
-          eq(chapterProgress.studentId, studentId),
-          eq(chapterProgress.chapterId, chapterId)
-        )
-      )
-      .limit(1);
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
 
-    if (existing.length > 0) {
-      return { success: true, data: existing[0] };
+    return { success: true as const, data: codeHashes.length };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function countUnusedRecoveryCodes(userId: number) {
+  try {
+    const [row] = await db
+      .select({ count: sql<number>`cast(count(*) as int)` })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), sql`${recoveryCodes.usedAt} is null`));
+
+    return { success: true as const, data: row?.count ?? 0 };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Remove the second factor and its recovery codes (user opt-out or admin reset)
+export async function deleteTwoFactor(userId: number) {
+  try {
+    const result = await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      return tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId)).returning();
+    });
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Login throttle query functions
+export async function getLoginThrottles(keys: string[]) {
+  try {
+    if (keys.length === 0) {
+      return { success: true as const, data: [] };
     }
 
-    // Create new progress record
-    const result = await db
-      .insert(chapterProgress)
-      .values({
-        studentId,
-        chapterId,
+    const result = await db.select().from(loginThrottles).where(inArray(loginThrottles.key, keys));
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Count a failed sign-in; the counter restarts once the window has passed
+// since the last failure or a previous lockout has expired
+export async function recordLoginFailure(key: string, windowMs: number) {
+  try {
+    const isStale = sql`${loginThrottles.lastFailureAt} <= now() - make_interval(secs => ${windowMs / 1000})
+      or ${loginThrottles.lockedUntil} <= now()`;
+
+    const [throttle] = await db
+      .insert(loginThrottles)
+      .values({ key, failures: 1, lastFailureAt: sql`now()` })
+      .onConflictDoUpdate({
+        target: loginThrottles.key,
+        set: {
+          failures: sql`case when ${isStale} then 1 else ${loginThrottles.failures} + 1 end`,
+          lastFailureAt: sql`now()`,
+          lockedUntil: sql`case when ${loginThrottles.lockedUntil} <= now() then null else ${loginThrottles.lockedUntil} end`,
+        },
       })
       .returning();
 
-    return { success: true, data: result[0] };
+    return { success: true as const, data: throttle };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function unmarkChapterComplete(
-  studentId: number,
-  chapterId: number
-) {
+// Lock the key; null when it was already locked, so a lockout is only reported once
+export async function lockLoginThrottle(key: string, durationMs: number) {
   try {
     const result = await db
-      .delete(chapterProgress)
+      .update(loginThrottles)
+      .set({ lockedUntil: sql`now() + make_interval(secs => ${durationMs / 1000})` })
       .where(
         and(
-          eq(chapterProgress.studentId, studentId),
-          eq(chapterProgress.chapterId, chapterId)
+          eq(loginThrottles.key, key),
+          sql`(${loginThrottles.lockedUntil} is null or ${loginThrottles.lockedUntil} <= now())`
         )
       )
       .returning();
 
-    return { success: true, data: result[0] || null };
+    return { success: true as const, data: result[0] || null };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-// Quiz query functions
-export async function getQuizById(id: number) {
+export async function clearLoginThrottle(key: string) {
+  try {
+    const result = await db.delete(loginThrottles).where(eq(loginThrottles.key, key)).returning();
+
+    return { success: true as const, data: result[0] || null };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Audit log query functions
+export async function createAuditLog(data: typeof auditLogs.$inferInsert) {
+  try {
+    const result = await db.insert(auditLogs).values(data).returning();
+
+    return { success: true as const, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export interface AuditLogFilters {
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  actor?: string;
+  // Inclusive calendar days (YYYY-MM-DD)
+  from?: string;
+  to?: string;
+}
+
+function getAuditLogConditions(filters: AuditLogFilters) {
+  const conditions: SQL[] = [];
+  if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+  if (filters.targetType) conditions.push(eq(auditLogs.targetType, filters.targetType));
+  if (filters.targetId) conditions.push(eq(auditLogs.targetId, filters.targetId));
+  if (filters.actor) {
+    const pattern = `%${filters.actor.replace(/[%_\\]/g, "\\$&")}%`;
+    conditions.push(or(ilike(users.name, pattern), ilike(users.email, pattern))!);
+  }
+  if (filters.from) conditions.push(gte(auditLogs.createdAt, sql`${filters.from}::date`));
+  if (filters.to) conditions.push(lt(auditLogs.createdAt, sql`${filters.to}::date + 1`));
+  return conditions;
+}
+
+// Most recent first, with the actor's name and email when there is one
+export async function getAuditLogs(filters: AuditLogFilters, options: { limit: number; offset?: number }) {
+  try {
+    const where = and(...getAuditLogConditions(filters));
+
+    const rows = await db
+      .select({
+        id: auditLogs.id,
+        actorId: auditLogs.actorId,
+        actorName: users.name,
+        actorEmail: users.email,
+        action: auditLogs.action,
+        targetType: auditLogs.targetType,
+        targetId: auditLogs.targetId,
+        before: auditLogs.before,
+        after: auditLogs.after,
+        ipAddress: auditLogs.ipAddress,
+        createdAt: auditLogs.createdAt,
+      })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.actorId, users.id))
+      .where(where)
+      .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+      .limit(options.limit)
+      .offset(options.offset ?? 0);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`cast(count(*) as int)` })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.actorId, users.id))
+      .where(where);
+
+    return { success: true as const, data: { rows, total } };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Values offered by the viewer's filters
+export async function getAuditLogFacets() {
+  try {
+    const actions = await db
+      .selectDistinct({ value: auditLogs.action })
+      .from(auditLogs)
+      .orderBy(auditLogs.action);
+    const targetTypes = await db
+      .selectDistinct({ value: auditLogs.targetType })
+      .from(auditLogs)
+      .orderBy(auditLogs.targetType);
+
+    return {
+      success: true as const,
+      data: {
+        actions: actions.map((item) => item.value),
+        targetTypes: targetTypes.map((item) => item.value),
+      },
+    };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Consent query functions
+// Text in force: the highest published version
+export async function getCurrentConsentText() {
   try {
     const result = await db
       .select()
-      .from(quizzes)
-      .where(eq(quizzes.id, id))
+      .from(consentTexts)
+      .orderBy(desc(consentTexts.version))
       .limit(1);
 
-    return { success: true, data: result[0] || null };
+    return { success: true as const, data: result[0] ?? null };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function getQuizzesByChapter(chapterId: number) {
+// Every version, latest first, with how many users accepted it
+export async function getConsentTexts() {
   try {
     const result = await db
-      .select()
-      .from(quizzes)
-      .where(eq(quizzes.chapterId, chapterId));
+      .select({
+        id: consentTexts.id,
+        version: consentTexts.version,
+        title: consentTexts.title,
+        content: consentTexts.content,
+        publishedAt: consentTexts.publishedAt,
+        acceptedCount: sql<number>`cast(count(${consents.id}) as int)`,
+      })
+      .from(consentTexts)
+      .leftJoin(consents, eq(consents.consentTextId, consentTexts.id))
+      .groupBy(consentTexts.id)
+      .orderBy(desc(consentTexts.version));
 
-    return { success: true, data: result };
+    return { success: true as const, data: result };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function createQuiz(data: {
-  chapterId: number;
-  title: string;
-  questions: any;
-  passingScore?: number;
-}) {
+// The text in force when the user has not accepted it yet, null otherwise
+export async function getPendingConsentText(userId: number) {
   try {
     const result = await db
-      .insert(quizzes)
-      .values({
-        chapterId: data.chapterId,
-        title: data.title,
-        questions: data.questions,
-        passingScore: data.passingScore || 70,
-      })
-      .returning();
+      .select({ text: consentTexts, acceptedAt: consents.acceptedAt })
+      .from(consentTexts)
+      .leftJoin(
+        consents,
+        and(eq(consents.consentTextId, consentTexts.id), eq(consents.userId, userId))
+      )
+      .orderBy(desc(consentTexts.version))
+      .limit(1);
 
-    return { success: true, data: result[0] };
+    const current = result[0];
+    return { success: true as const, data: current && !current.acceptedAt ? current.text : null };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function updateQuiz(
-  id: number,
-  data: Partial<{
-    title: string;
-    questions: any;
-    passingScore: number;
-  }>
-) {
+// Whether the user accepted any version before
+export async function hasAcceptedAnyConsent(userId: number) {
   try {
     const result = await db
-      .update(quizzes)
-      .set(data)
-      .where(eq(quizzes.id, id))
-      .returning();
+      .select({ id: consents.id })
+      .from(consents)
+      .where(eq(consents.userId, userId))
+      .limit(1);
 
-    return { success: true, data: result[0] };
+    return { success: true as const, data: result.length > 0 };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function deleteQuiz(id: number) {
+// Record the acceptance of a text; accepting the same version twice keeps the first record
+export async function recordConsents(data: {
+  userIds: number[];
+  consentTextId: number;
+  source: "registration" | "bulk_import" | "re_consent";
+  ipAddress?: string | null;
+}) {
   try {
+    if (data.userIds.length === 0) {
+      return { success: true as const, data: [] };
+    }
+
     const result = await db
-      .delete(quizzes)
-      .where(eq(quizzes.id, id))
+      .insert(consents)
+      .values(
+        data.userIds.map((userId) => ({
+          userId,
+          consentTextId: data.consentTextId,
+          source: data.source,
+          ipAddress: data.ipAddress ?? null,
+        }))
+      )
+      .onConflictDoNothing()
       .returning();
 
-    return { success: true, data: result[0] };
+    return { success: true as const, data: result };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-// Quiz Attempt query functions
-export async function getQuizAttemptById(id: number) {
+// Publish the next version; every user is asked to consent again
+export async function publishConsentText(data: { title: string; content: string; createdBy: number }) {
   try {
-    const result = await db
-      .select()
-      .from(quizAttempts)
-      .where(eq(quizAttempts.id, id))
-      .limit(1);
+    const result = await db.transaction(async (tx) => {
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`cast(coalesce(max(${consentTexts.version}), 0) as int)` })
+        .from(consentTexts);
+
+      const [text] = await tx
+        .insert(consentTexts)
+        .values({ ...data, version: latest + 1 })
+        .returning();
+      return text;
+    });
 
-    return { success: true, data: result[0] || null };
+    return { success: true as const, data: result };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function getQuizAttemptsByStudent(
-  studentId: number,
-  quizId: number
+export interface ConsentRecordFilters {
+  version?: number;
+  // Matched against the user's name or email
+  search?: string;
+}
+
+// Who accepted which version, most recent first
+export async function getConsentRecords(filters: ConsentRecordFilters, options: { limit: number; offset?: number }) {
+  try {
+    const conditions: SQL[] = [];
+    if (filters.version) conditions.push(eq(consentTexts.version, filters.version));
+    if (filters.search) {
+      const pattern = `%${filters.search.replace(/[%_\\]/g, "\\$&")}%`;
+      conditions.push(or(ilike(users.name, pattern), ilike(users.email, pattern))!);
+    }
+    const where = and(...conditions);
+
+    const rows = await db
+      .select({
+        id: consents.id,
+        userId: consents.userId,
+        userName: users.name,
+        userEmail: users.email,
+        userRole: users.role,
+        version: consentTexts.version,
+        source: consents.source,
+        ipAddress: consents.ipAddress,
+        acceptedAt: consents.acceptedAt,
+      })
+      .from(consents)
+      .innerJoin(users, eq(consents.userId, users.id))
+      .innerJoin(consentTexts, eq(consents.consentTextId, consentTexts.id))
+      .where(where)
+      .orderBy(desc(consents.acceptedAt), desc(consents.id))
+      .limit(options.limit)
+      .offset(options.offset ?? 0);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`cast(count(*) as int)` })
+      .from(consents)
+      .innerJoin(users, eq(consents.userId, users.id))
+      .innerJoin(consentTexts, eq(consents.consentTextId, consentTexts.id))
+      .where(where);
+
+    return { success: true as const, data: { rows, total } };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Users who have not accepted the given version yet
+export async function countUsersWithoutConsent(consentTextId: number) {
+  try {
+    const [{ total }] = await db
+      .select({ total: sql<number>`cast(count(*) as int)` })
+      .from(users)
+      .where(
+        sql`not exists (select 1 from ${consents} where ${consents.userId} = ${users.id} and ${consents.consentTextId} = ${consentTextId})`
+      );
+
+    return { success: true as const, data: total };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Retention query functions
+export async function getRetentionRules() {
+  try {
+    const result = await db.select().from(retentionRules).orderBy(retentionRules.id);
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function updateRetentionRule(
+  target: RetentionTarget,
+  data: { months: number; action: RetentionAction; enabled: boolean; updatedBy: number }
 ) {
   try {
     const result = await db
-      .select()
-      .from(quizAttempts)
-      .where(
-        and(
-          eq(quizAttempts.studentId, studentId),
-          eq(quizAttempts.quizId, quizId)
-        )
-      )
-      .orderBy(desc(quizAttempts.attemptedAt));
+      .insert(retentionRules)
+      .values({ target, ...data })
+      .onConflictDoUpdate({
+        target: retentionRules.target,
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+
+    return { success: true as const, data: result[0] };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+// Latest sign of life of a student: sign-in (or sign-up), completed chapter,
+// quiz attempt or project submission
+const studentLastActivity = sql<Date>`greatest(
+  coalesce(${users.lastLoginAt}, ${users.createdAt}),
+  (select max(${chapterProgress.completedAt}) from ${chapterProgress} where ${chapterProgress.studentId} = ${users.id}),
+  (select max(${quizAttempts.startedAt}) from ${quizAttempts} where ${quizAttempts.studentId} = ${users.id}),
+  (select max(${projectSubmissions.submittedAt}) from ${projectSubmissions} where ${projectSubmissions.studentId} = ${users.id})
+)`;
+
+// Students not yet anonymized whose last activity is older than the cutoff, least recent first
+export async function getInactiveStudents(cutoff: Date, limit: number) {
+  try {
+    const where = and(
+      eq(users.role, "STUDENT"),
+      sql`${users.anonymizedAt} is null`,
+      lt(studentLastActivity, cutoff)
+    );
+
+    const rows = await db
+      .select({ id: users.id, name: users.name, email: users.email, lastActivityAt: studentLastActivity })
+      .from(users)
+      .where(where)
+      .orderBy(studentLastActivity)
+      .limit(limit);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`cast(count(*) as int)` })
+      .from(users)
+      .where(where);
+
+    return { success: true as const, data: { rows, total } };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+type ExpiringTarget = Exclude<RetentionTarget, "inactive_students">;
+
+// Rows of the table that are older than the cutoff; already anonymized
+// attempts are left out when the action is "anonymize"
+function getExpiredRecordsQuery(target: ExpiringTarget, action: RetentionAction, cutoff: Date) {
+  switch (target) {
+    case "quiz_attempts": {
+      const conditions: SQL[] = [
+        lt(sql`coalesce(${quizAttempts.attemptedAt}, ${quizAttempts.startedAt})`, cutoff),
+      ];
+      if (action === "anonymize") {
+        conditions.push(sql`(${quizAttempts.questions} is not null or ${quizAttempts.answers} <> '[]'::jsonb)`);
+      }
+      return { table: quizAttempts, where: and(...conditions) };
+    }
+    case "notifications":
+      return { table: notifications, where: lt(notifications.createdAt, cutoff) };
+    case "audit_logs":
+      return { table: auditLogs, where: lt(auditLogs.createdAt, cutoff) };
+  }
+}
 
-    return { success: true, data: result };
+export async function countExpiredRecords(target: ExpiringTarget, action: RetentionAction, cutoff: Date) {
+  try {
+    const { table, where } = getExpiredRecordsQuery(target, action, cutoff);
+    const [{ total }] = await db
+      .select({ total: sql<number>`cast(count(*) as int)` })
+      .from(table)
+      .where(where);
+
+    return { success: true as const, data: total };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function getAllQuizAttemptsByStudent(studentId: number) {
+// Apply the rule; returns how many rows were affected. Anonymized attempts
+// keep their score and status, so results and statistics do not change.
+export async function purgeExpiredRecords(target: ExpiringTarget, action: RetentionAction, cutoff: Date) {
   try {
-    const result = await db
-      .select()
-      .from(quizAttempts)
-      .where(eq(quizAttempts.studentId, studentId))
-      .orderBy(desc(quizAttempts.attemptedAt));
+    const { table, where } = getExpiredRecordsQuery(target, action, cutoff);
+
+    if (target === "quiz_attempts" && action === "anonymize") {
+      const result = await db
+        .update(quizAttempts)
+        .set({ questions: null, answers: [], feedback: null })
+        .where(where)
+        .returning({ id: quizAttempts.id });
+      return { success: true as const, data: result.length };
+    }
 
-    return { success: true, data: result };
+    const result = await db.delete(table).where(where);
+    return { success: true as const, data: result.rowCount ?? 0 };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function createQuizAttempt(data: {
-  studentId: number;
-  quizId: number;
-  answers: any;
-  score: number;
-  passed: boolean;
+// Notification query functions
+export async function createNotification(data: {
+  userId: number;
+  title: string;
+  message: string;
+  link?: string | null;
 }) {
   try {
     const result = await db
-      .insert(quizAttempts)
+      .insert(notifications)
       .values({
-        studentId: data.studentId,
-        quizId: data.quizId,
-        answers: data.answers,
-        score: data.score,
-        passed: data.passed,
+        userId: data.userId,
+        title: data.title,
+        message: data.message,
+        link: data.link || null,
       })
       .returning();
 
-    return { success: true, data: result[0] };
+    return { success: true as const, data: result[0] };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function getBestQuizAttempt(studentId: number, quizId: number) {
+export async function getNotificationsByUser(userId: number, limit = 20) {
   try {
     const result = await db
       .select()
-      .from(quizAttempts)
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function markNotificationsRead(userId: number) {
+  try {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
       .where(
         and(
-          eq(quizAttempts.studentId, studentId),
-          eq(quizAttempts.quizId, quizId)
+          eq(notifications.userId, userId),
+          sql`${notifications.readAt} IS NULL`
         )
-      )
-      .orderBy(desc(quizAttempts.score))
-      .limit(1);
+      );
 
-    return { success: true, data: result[0] || null };
+    return { success: true as const, data: null };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-// Final Project query functions
-export async function getFinalProjectById(id: number) {
+// Question bank query functions
+function selectQuestionBanksWithDetails() {
+  return db
+    .select({
+      id: questionBanks.id,
+      title: questionBanks.title,
+      description: questionBanks.description,
+      courseId: questionBanks.courseId,
+      courseTitle: courses.title,
+      courseTeacherId: courses.teacherId,
+      domainId: questionBanks.domainId,
+      domainName: domains.name,
+      ownerId: questionBanks.ownerId,
+      questionCount: sql<number>`cast((select count(*) from ${bankQuestions} where ${bankQuestions.bankId} = ${questionBanks.id}) as int)`,
+      createdAt: questionBanks.createdAt,
+      updatedAt: questionBanks.updatedAt,
+    })
+    .from(questionBanks)
+    .leftJoin(courses, eq(questionBanks.courseId, courses.id))
+    .leftJoin(domains, eq(questionBanks.domainId, domains.id));
+}
+
+export async function getQuestionBankById(id: number) {
   try {
-    const result = await db
-      .select()
-      .from(finalProjects)
-      .where(eq(finalProjects.id, id))
+    const result = await selectQuestionBanksWithDetails()
+      .where(eq(questionBanks.id, id))
       .limit(1);
 
-    return { success: true, data: result[0] || null };
+    return { success: true as const, data: result[0] || null };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function getFinalProjectsByCourse(courseId: number) {
+// Banks a trainer can use: those of their courses, those they created and
+// the domain banks of the domains they teach in. All banks when no trainer is given.
+export async function getQuestionBanks(teacherId?: number) {
   try {
-    const result = await db
-      .select()
-      .from(finalProjects)
-      .where(eq(finalProjects.courseId, courseId));
+    const query = selectQuestionBanksWithDetails();
+    const result = await (teacherId
+      ? query.where(
+          or(
+            eq(courses.teacherId, teacherId),
+            eq(questionBanks.ownerId, teacherId),
+            sql`${questionBanks.domainId} in (select ${courses.domainId} from ${courses} where ${courses.teacherId} = ${teacherId})`
+          )
+        )
+      : query
+    ).orderBy(questionBanks.title);
 
-    return { success: true, data: result };
+    return { success: true as const, data: result };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function createFinalProject(data: {
-  courseId: number;
+// Banks a quiz of this course may draw from
+export async function getQuestionBanksForCourse(courseId: number, domainId: number | null) {
+  try {
+    const result = await selectQuestionBanksWithDetails()
+      .where(
+        domainId
+          ? or(eq(questionBanks.courseId, courseId), eq(questionBanks.domainId, domainId))
+          : eq(questionBanks.courseId, courseId)
+      )
+      .orderBy(questionBanks.title);
+
+    return { success: true as const, data: result };
+  } catch (error) {
+    return handleDbError(error);
+  }
+}
+
+export async function createQuestionBank(data: {
   title: string;
-  description: string;
-  requirements?: any;
+  description?: string | null;
+  courseId?: number | null;
+  domainId?: number | null;
+  ownerId: number;
 }) {
   try {
     const result = await db
-      .insert(finalProjects)
+      .insert(questionBanks)
       .values({
-        courseId: data.courseId,
         title: data.title,
-        description: data.description,
-        requirements: data.requirements,
+        description: data.description || null,
+        courseId: data.courseId || null,
+        domainId: data.domainId || null,
+        ownerId: data.ownerId,
       })
       .returning();
 
-    return { success: true, data: result[0] };
+    return { success: true as const, data: result[0] };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function updateFinalProject(
+export async function updateQuestionBank(
   id: number,
-  data: Partial<{
-    title: string;
-    description: string;
-    requirements: any;
-  }>
+  data: Partial<{ title: string; description: string | null }>
 ) {
   try {
     const result = await db
-      .update(finalProjects)
-      .set(data)
-      .where(eq(finalProjects.id, id))
+      .update(questionBanks)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(questionBanks.id, id))
       .returning();
 
-    return { success: true, data: result[0] };
+    return { success: true as const, data: result[0] };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function deleteFinalProject(id: number) {
+export async function deleteQuestionBank(id: number) {
   try {
     const result = await db
-      .delete(finalProjects)
-      .where(eq(finalProjects.id, id))
+      .delete(questionBanks)
+      .where(eq(questionBanks.id, id))
       .returning();
 
-    return { success: true, data: result[0] };
+    return { success: true as const, data: result[0] };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-// Project Submission query functions
-export async function getProjectSubmissionById(id: number) {
+// Whether a quiz still draws from this bank
+export async function questionBankInUse(id: number) {
   try {
     const result = await db
-      .select()
-      .from(projectSubmissions)
-      .where(eq(projectSubmissions.id, id))
-      .limit(1);
+      .select({ count: sql<number>`cast(count(*) as int)` })
+      .from(quizzes)
+      .where(sql`${quizzes.draws} @> ${JSON.stringify([{ bankId: id }])}::jsonb`);
 
-    return { success: true, data: result[0] || null };
+    return { success: true as const, data: result[0].count > 0 };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function getProjectSubmissionsByStudent(studentId: number) {
+export async function getBankQuestionById(id: number) {
   try {
     const result = await db
       .select()
-      .from(projectSubmissions)
-      .where(eq(projectSubmissions.studentId, studentId))
-      .orderBy(desc(projectSubmissions.submittedAt));
+      .from(bankQuestions)
+      .where(eq(bankQuestions.id, id))
+      .limit(1);
 
-    return { success: true, data: result };
+    return { success: true as const, data: result[0] || null };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function getProjectSubmissionsByProject(finalProjectId: number) {
+export async function getBankQuestions(bankIds: number[]) {
   try {
-    const result = await db
-      .select()
-      .from(projectSubmissions)
-      .where(eq(projectSubmissions.finalProjectId, finalProjectId))
-      .orderBy(desc(projectSubmissions.submittedAt));
-
-    return { success: true, data: result };
-  } catch (error) {
-    return handleDbError(error);
-  }
-}
+    if (bankIds.length === 0) {
+      return { success: true as const, data: [] };
+    }
 
-export async function getStudentSubmissionForProject(
-  studentId: number,
-  finalProjectId: number
-) {
-  try {
     const result = await db
       .select()
-      .from(projectSubmissions)
-      .where(
-        and(
-          eq(projectSubmissions.studentId, studentId),
-          eq(projectSubmissions.finalProjectId, finalProjectId)
-        )
-      )
-      .orderBy(desc(projectSubmissions.submittedAt))
-      .limit(1);
+      .from(bankQuestions)
+      .where(inArray(bankQuestions.bankId, bankIds))
+      .orderBy(bankQuestions.id);
 
-    return { success: true, data: result[0] || null };
+    return { success: true as const, data: result };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function createProjectSubmission(data: {
-  studentId: number;
-  finalProjectId: number;
-  submissionUrl?: string | null;
-  description?: string | null;
+export async function createBankQuestion(data: {
+  bankId: number;
+  question: any;
+  difficulty: "easy" | "medium" | "hard";
+  tags: string[];
 }) {
   try {
-    const result = await db
-      .insert(projectSubmissions)
-      .values({
-        studentId: data.studentId,
-        finalProjectId: data.finalProjectId,
-        submissionUrl: data.submissionUrl,
-        description: data.description,
-        status: "submitted",
-      })
-      .returning();
+    const result = await db.insert(bankQuestions).values(data).returning();
 
-    return { success: true, data: result[0] };
+    return { success: true as const, data: result[0] };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function updateProjectSubmission(
+export async function updateBankQuestion(
   id: number,
   data: Partial<{
-    submissionUrl: string | null;
-    description: string | null;
-    status: string;
-    feedback: string | null;
-    grade: number | null;
+    question: any;
+    difficulty: "easy" | "medium" | "hard";
+    tags: string[];
   }>
 ) {
   try {
-    const updateData: any = { ...data };
-
-    // If status is being changed to reviewed, set reviewedAt
-    if (data.status && data.status !== "submitted") {
-      updateData.reviewedAt = new Date();
-    }
-
     const result = await db
-      .update(projectSubmissions)
-      .set(updateData)
-      .where(eq(projectSubmissions.id, id))
+      .update(bankQuestions)
+      .set(data)
+      .where(eq(bankQuestions.id, id))
       .returning();
 
-    return { success: true, data: result[0] };
+    return { success: true as const, data: result[0] };
   } catch (error) {
     return handleDbError(error);
   }
 }
 
-export async function deleteProjectSubmission(id: number) {
+export async function deleteBankQuestion(id: number) {
   try {
     const result = await db
-      .delete(projectSubmissions)
-      .where(eq(projectSubmissions.id, id))
+      .delete(bankQuestions)
+      .where(eq(bankQuestions.id, id))
       .returning();
 
-    return { success: true, data: result[0] };
-  } catch (error) {
-    return handleDbError(error);
-  }
-}
-
-// Get student enrolled courses with progress
-export async function getStudentEnrolledCoursesWithProgress(studentId: number) {
-  try {
-    const result = await db
-      .select({
-        enrollmentId: enrollments.id,
-        courseId: courses.id,
-        courseTitle: courses.title,
-        courseDescription: courses.description,
-        courseThumbnailUrl: courses.thumbnailUrl,
-        enrolledAt: enrollments.createdAt,
-        completedAt: enrollments.completedAt,
-        domainId: domains.id,
-        domainName: domains.name,
-        domainColor: domains.color,
-        teacherId: users.id,
-        teacherName: users.name,
-        totalChapters: sql<number>`cast(count(distinct ${chapters.id}) as int)`,
-        completedChapters: sql<number>`cast(count(distinct ${chapterProgress.id}) as int)`,
-      })
-      .from(enrollments)
-      .innerJoin(courses, eq(enrollments.courseId, courses.id))
-      .leftJoin(domains, eq(courses.domainId, domains.id))
-      .leftJoin(users, eq(courses.teacherId, users.id))
-      .leftJoin(chapters, eq(courses.id, chapters.courseId))
-      .leftJoin(
-        chapterProgress,
-        and(
-          eq(chapterProgress.chapterId, chapters.id),
-          eq(chapterProgress.studentId, studentId)
-        )
-      )
-      .where(eq(enrollments.studentId, studentId))
-      .groupBy(
-        enrollments.id,
-        courses.id,
-        courses.title,
-        courses.description,
-        courses.thumbnailUrl,
-        enrollments.createdAt,
-        enrollments.completedAt,
-        domains.id,
-        domains.name,
-        domains.color,
-        users.id,
-        users.name
-      )
-      .orderBy(desc(enrollments.createdAt));
-
-    return { success: true, data: result };
-  } catch (error) {
-    return handleDbError(error);
-  }
-}
-
-// Get student quiz attempts with course and chapter details
-export async function getStudentQuizAttemptsWithDetails(studentId: number) {
-  try {
-    const result = await db
-      .select({
-        attemptId: quizAttempts.id,
-        quizId: quizzes.id,
-        quizTitle: quizzes.title,
-        score: quizAttempts.score,
-        maxScore: quizzes.passingScore,
-        passed: quizAttempts.passed,
-        attemptedAt: quizAttempts.attemptedAt,
-        chapterId: chapters.id,
-        chapterTitle: chapters.title,
-        courseId: courses.id,
-        courseTitle: courses.title,
-        domainName: domains.name,
-      })
-      .from(quizAttempts)
-      .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
-      .innerJoin(chapters, eq(quizzes.chapterId, chapters.id))
-      .innerJoin(courses, eq(chapters.courseId, courses.id))
-      .leftJoin(domains, eq(courses.domainId, domains.id))
-      .where(eq(quizAttempts.studentId, studentId))
-      .orderBy(desc(quizAttempts.attemptedAt));
-
-    return { success: true, data: result };
+    return { success: true as const, data: result[0] };
   } catch (error) {
     return handleDbError(error);
   }
@@ -0,0 +1,2 @@
+export { getAppUrl, sendMail, type MailMessage } from "./transport"
+export { passwordResetEmail, verificationEmail } from "./templates"
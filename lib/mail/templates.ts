@@ -0,0 +1,59 @@
+import type { MailMessage } from "./transport"
+
+type Template = Omit<MailMessage, "to">
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+// Plain layout shared by the transactional emails: a greeting, a message and one button
+function renderTemplate(options: {
+  subject: string
+  name: string
+  intro: string
+  action: string
+  url: string
+  outro: string
+}): Template {
+  const name = escapeHtml(options.name)
+  return {
+    subject: options.subject,
+    text: `Bonjour ${options.name},\n\n${options.intro}\n\n${options.url}\n\n${options.outro}\n\nL'équipe Erchad`,
+    html: `<div style="font-family: Arial, sans-serif; max-width: 560px; margin: 0 auto; color: #1f2937;">
+  <p>Bonjour ${name},</p>
+  <p>${escapeHtml(options.intro)}</p>
+  <p style="margin: 24px 0;">
+    <a href="${escapeHtml(options.url)}" style="background: #0d9488; color: #ffffff; padding: 12px 20px; border-radius: 6px; text-decoration: none;">${escapeHtml(options.action)}</a>
+  </p>
+  <p style="font-size: 13px; color: #6b7280;">Si le bouton ne fonctionne pas, copiez ce lien dans votre navigateur :<br />${escapeHtml(options.url)}</p>
+  <p>${escapeHtml(options.outro)}</p>
+  <p>L'équipe Erchad</p>
+</div>`,
+  }
+}
+
+export function verificationEmail(name: string, url: string): Template {
+  return renderTemplate({
+    subject: "Confirmez votre adresse email",
+    name,
+    intro: "Merci pour votre inscription sur Erchad. Confirmez votre adresse email pour activer votre compte.",
+    action: "Confirmer mon adresse",
+    url,
+    outro: "Ce lien est valable 24 heures. Si vous n'êtes pas à l'origine de cette inscription, ignorez cet email.",
+  })
+}
+
+export function passwordResetEmail(name: string, url: string): Template {
+  return renderTemplate({
+    subject: "Réinitialisation de votre mot de passe",
+    name,
+    intro: "Vous avez demandé à réinitialiser le mot de passe de votre compte Erchad.",
+    action: "Choisir un nouveau mot de passe",
+    url,
+    outro: "Ce lien est valable 1 heure et ne peut servir qu'une fois. Si vous n'avez rien demandé, ignorez cet email : votre mot de passe reste inchangé.",
+  })
+}
@@ -0,0 +1,50 @@
+import nodemailer, { type Transporter } from "nodemailer"
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+let transporter: Transporter | null = null
+
+/**
+ * SMTP transport configured from the environment. Without SMTP_HOST it
+ * targets a local catcher such as Mailpit or MailHog on localhost:1025.
+ */
+function getTransporter(): Transporter {
+  if (!transporter) {
+    const port = Number(process.env.SMTP_PORT || 1025)
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || "localhost",
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    })
+  }
+  return transporter
+}
+
+export async function sendMail(message: MailMessage) {
+  try {
+    await getTransporter().sendMail({
+      from: process.env.MAIL_FROM || "Erchad <no-reply@erchad.local>",
+      ...message,
+    })
+    return { success: true as const }
+  } catch (error) {
+    console.error("[Mail] Error sending email:", error)
+    return { success: false as const, error: "Erreur lors de l'envoi de l'email" }
+  }
+}
+
+/**
+ * Absolute URL of a page of the app, for links sent by email
+ */
+export function getAppUrl(path: string): string {
+  const baseUrl = process.env.NEXTAUTH_URL || "http://localhost:3000"
+  return `${baseUrl.replace(/\/$/, "")}${path}`
+}
@@ -0,0 +1,75 @@
+import { getUserDataExport } from "@/lib/db/queries"
+import { getCertificateVerificationUrl } from "@/lib/certificates/verification-url"
+import { createZip } from "./zip"
+
+type UserDataExportResult = Awaited<ReturnType<typeof getUserDataExport>>
+export type UserDataExport = NonNullable<Extract<UserDataExportResult, { success: true }>["data"]> & {
+  exportedAt: string
+}
+
+// Files of the ZIP bundle, one per section
+const ZIP_SECTIONS = [
+  { key: "profile", file: "profil.json" },
+  { key: "enrollments", file: "inscriptions.json" },
+  { key: "progress", file: "progression.json" },
+  { key: "quizAttempts", file: "quiz.json" },
+  { key: "projectSubmissions", file: "projets.json" },
+  { key: "certificates", file: "certificats.json" },
+  { key: "consents", file: "consentements.json" },
+  { key: "attendance", file: "presences.json" },
+  { key: "notes", file: "observations.json" },
+  { key: "notifications", file: "notifications.json" },
+] as const
+
+const README = `Export de vos données personnelles (loi 09-08)
+
+profil.json            informations de votre compte
+inscriptions.json      cours suivis
+progression.json       chapitres terminés
+quiz.json              tentatives de quiz, réponses et résultats
+projets.json           projets finaux rendus et évaluations
+certificats.json       certificats délivrés, avec leur lien de vérification
+consentements.json     versions du texte de consentement acceptées
+presences.json         présences aux séances en classe et justificatifs
+observations.json      observations de l'équipe pédagogique vous concernant
+notifications.json     notifications reçues
+`
+
+// Null when the user does not exist; throws on database errors
+export async function buildUserDataExport(userId: number): Promise<UserDataExport | null> {
+  const result = await getUserDataExport(userId)
+  if (!result.success) {
+    throw new Error(result.error)
+  }
+  if (!result.data) {
+    return null
+  }
+
+  return {
+    exportedAt: new Date().toISOString(),
+    ...result.data,
+    certificates: result.data.certificates.map((certificate) => ({
+      ...certificate,
+      verificationUrl: getCertificateVerificationUrl(certificate.hash),
+    })),
+  }
+}
+
+export function serializeUserDataExport(bundle: UserDataExport, format: "json" | "zip") {
+  const date = bundle.exportedAt.slice(0, 10)
+  const baseName = `donnees-personnelles-${bundle.profile.id}-${date}`
+
+  if (format === "json") {
+    return {
+      body: JSON.stringify(bundle, null, 2),
+      contentType: "application/json; charset=utf-8",
+      filename: `${baseName}.json`,
+    }
+  }
+
+  const zip = createZip([
+    { name: "LISEZMOI.txt", content: README },
+    ...ZIP_SECTIONS.map(({ key, file }) => ({ name: file, content: JSON.stringify(bundle[key], null, 2) })),
+  ])
+  return { body: zip, contentType: "application/zip", filename: `${baseName}.zip` }
+}
@@ -0,0 +1,3 @@
+export { buildUserDataExport, serializeUserDataExport, type UserDataExport } from "./export"
+export { createZip, type ZipEntry } from "./zip"
+export { removeUploadedFiles } from "./uploads"
@@ -0,0 +1,28 @@
+import { unlink } from "fs/promises"
+import { basename, join } from "path"
+import { ATTENDANCE_UPLOADS_PATH } from "@/lib/schemas/attendance"
+import { PROJECT_UPLOADS_PATH } from "@/lib/schemas/project"
+
+// Public folders whose files belong to a single person
+const PERSONAL_UPLOAD_PATHS = [PROJECT_UPLOADS_PATH, ATTENDANCE_UPLOADS_PATH]
+
+/**
+ * Delete uploaded deliverables and justification documents from disk. Other
+ * URLs are ignored; a file that cannot be removed is logged, never thrown.
+ */
+export async function removeUploadedFiles(urls: string[]) {
+  for (const url of urls) {
+    const folder = PERSONAL_UPLOAD_PATHS.find((path) => url.startsWith(path))
+    if (!folder) continue
+
+    // Only the file name is trusted, so a crafted URL cannot leave the folder
+    const path = join(process.cwd(), "public", folder, basename(url))
+    try {
+      await unlink(path)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`[Privacy] Failed to remove ${url}:`, error)
+      }
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import type { AuthUser } from "@/lib/auth/auth"
+import { getCourseById, getEnrollmentByStudentAndCourse, getFinalProjectByCourse } from "@/lib/db/queries"
+
+export type CourseProjectAccess =
+  | { allowed: true; canManage: boolean; courseId: number; teacherId: number | null }
+  | { allowed: false; status: 403 | 404 | 500; error: string }
+
+/**
+ * Resolve what a user may do with the final project of a course. Admins and
+ * the course trainer define and review it; enrolled students of a validated
+ * course may only submit.
+ */
+export async function getCourseProjectAccess(user: AuthUser, courseId: number): Promise<CourseProjectAccess> {
+  const courseResult = await getCourseById(courseId)
+  if (!courseResult.success) {
+    return { allowed: false, status: 500, error: "Erreur lors de la récupération du cours" }
+  }
+
+  const course = courseResult.data
+  if (!course) {
+    return { allowed: false, status: 404, error: "Cours introuvable" }
+  }
+
+  if (user.role === "ADMIN") {
+    return { allowed: true, canManage: true, courseId: course.id, teacherId: course.teacherId }
+  }
+
+  if (user.role === "TRAINER") {
+    if (course.teacherId !== Number(user.id)) {
+      return { allowed: false, status: 403, error: "Non autorisé" }
+    }
+    return { allowed: true, canManage: true, courseId: course.id, teacherId: course.teacherId }
+  }
+
+  if (user.role === "STUDENT") {
+    if (course.status !== "validated") {
+      return { allowed: false, status: 404, error: "Cours introuvable" }
+    }
+    const enrollmentResult = await getEnrollmentByStudentAndCourse(Number(user.id), course.id)
+    if (!enrollmentResult.success || !enrollmentResult.data) {
+      return { allowed: false, status: 403, error: "Vous n'êtes pas inscrit à ce cours" }
+    }
+    return { allowed: true, canManage: false, courseId: course.id, teacherId: course.teacherId }
+  }
+
+  return { allowed: false, status: 403, error: "Non autorisé" }
+}
+
+/**
+ * Load the final project of a course for a trainer or admin who manages
+ * it, e.g. to edit its rubric.
+ */
+export async function getManagedFinalProject(user: AuthUser, courseId: number) {
+  const access = await getCourseProjectAccess(user, courseId)
+  if (!access.allowed) {
+    return access
+  }
+  if (!access.canManage) {
+    return { allowed: false as const, status: 403 as const, error: "Non autorisé" }
+  }
+
+  const projectResult = await getFinalProjectByCourse(access.courseId)
+  if ("error" in projectResult) {
+    return { allowed: false as const, status: 500 as const, error: "Erreur lors de la récupération du projet" }
+  }
+  if (!projectResult.data) {
+    return { allowed: false as const, status: 404 as const, error: "Ce cours n'a pas de projet final" }
+  }
+
+  return { ...access, project: projectResult.data }
+}
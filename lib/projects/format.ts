@@ -0,0 +1,14 @@
+import type { ProjectSubmissionStatus } from "@/lib/schemas/project"
+
+export const projectStatusLabels: Record<ProjectSubmissionStatus, string> = {
+  submitted: "En attente d'évaluation",
+  needs_revision: "Corrections demandées",
+  approved: "Validé",
+  rejected: "Refusé",
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} o`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} Ko`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} Mo`
+}
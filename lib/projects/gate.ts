@@ -0,0 +1,24 @@
+import { getFinalProjectByCourse, getStudentSubmissionForProject } from "@/lib/db/queries"
+
+/**
+ * Whether the student has met the final project requirement of a course:
+ * true when the course has no required project, otherwise only once the
+ * latest submission has been approved.
+ */
+export async function hasApprovedRequiredProject(studentId: number, courseId: number) {
+  const projectResult = await getFinalProjectByCourse(courseId)
+  if (!projectResult.success) {
+    return false
+  }
+
+  const project = projectResult.data
+  if (!project || !project.required) {
+    return true
+  }
+
+  const submissionResult = await getStudentSubmissionForProject(studentId, project.id)
+  if (!submissionResult.success) {
+    return false
+  }
+  return submissionResult.data?.status === "approved"
+}
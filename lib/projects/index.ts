@@ -0,0 +1,4 @@
+export { getCourseProjectAccess, getManagedFinalProject, type CourseProjectAccess } from "./access"
+export { formatFileSize, projectStatusLabels } from "./format"
+export { hasApprovedRequiredProject } from "./gate"
+export { evaluateRubric, getRubricMaxPoints, parseRubricCriteria, type RubricEvaluation } from "./rubric"
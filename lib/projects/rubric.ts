@@ -0,0 +1,62 @@
+import { rubricCriterionSchema, type RubricCriterion, type RubricScore } from "@/lib/schemas/rubric"
+
+// Filled rubric kept on a graded submission
+export interface RubricEvaluation {
+  title: string
+  criteria: RubricCriterion[]
+  scores: (RubricScore & { points: number })[]
+  points: number
+  maxPoints: number
+}
+
+// Stored criteria are validated on read; anything malformed is dropped
+export function parseRubricCriteria(raw: unknown): RubricCriterion[] {
+  if (!Array.isArray(raw)) {
+    return []
+  }
+  return raw.flatMap((item) => {
+    const result = rubricCriterionSchema.safeParse(item)
+    return result.success ? [result.data] : []
+  })
+}
+
+export function getRubricMaxPoints(criteria: RubricCriterion[]) {
+  return criteria.reduce(
+    (sum, criterion) => sum + Math.max(0, ...criterion.levels.map((level) => level.points)),
+    0
+  )
+}
+
+/**
+ * Fill the rubric with the levels picked by the trainer and turn the points
+ * into a grade out of 100. Every criterion must be scored exactly once with
+ * one of its own levels; returns null otherwise.
+ */
+export function evaluateRubric(
+  rubric: { title: string; criteria: RubricCriterion[] },
+  scores: RubricScore[]
+): { grade: number; evaluation: RubricEvaluation } | null {
+  const scoresById = new Map(scores.map((score) => [score.criterionId, score]))
+  if (scoresById.size !== scores.length || scores.length !== rubric.criteria.length) {
+    return null
+  }
+
+  const filled: RubricEvaluation["scores"] = []
+  for (const criterion of rubric.criteria) {
+    const score = scoresById.get(criterion.id)
+    const level = criterion.levels.find((item) => item.id === score?.levelId)
+    if (!score || !level) {
+      return null
+    }
+    filled.push({ ...score, comment: score.comment || undefined, points: level.points })
+  }
+
+  const points = filled.reduce((sum, score) => sum + score.points, 0)
+  const maxPoints = getRubricMaxPoints(rubric.criteria)
+  const grade = maxPoints > 0 ? Math.round((points / maxPoints) * 100) : 0
+
+  return {
+    grade,
+    evaluation: { title: rubric.title, criteria: rubric.criteria, scores: filled, points, maxPoints },
+  }
+}
@@ -0,0 +1,69 @@
+import type { AuthUser } from "@/lib/auth/auth"
+import { getChapterWithCourse, getEnrollmentByStudentAndCourse, getQuizById } from "@/lib/db/queries"
+
+export type ChapterQuizAccess =
+  | { allowed: true; canManage: boolean; courseId: number }
+  | { allowed: false; status: 403 | 404 | 500; error: string }
+
+/**
+ * Resolve what a user may do with the quizzes of a chapter. Admins and the
+ * course trainer manage them; enrolled students of a validated course may
+ * only take them.
+ */
+export async function getChapterQuizAccess(user: AuthUser, chapterId: number): Promise<ChapterQuizAccess> {
+  const chapterResult = await getChapterWithCourse(chapterId)
+  if (!chapterResult.success) {
+    return { allowed: false, status: 500, error: "Erreur lors de la récupération du chapitre" }
+  }
+
+  const chapter = chapterResult.data
+  if (!chapter || chapter.courseId === null) {
+    return { allowed: false, status: 404, error: "Chapitre introuvable" }
+  }
+
+  if (user.role === "ADMIN") {
+    return { allowed: true, canManage: true, courseId: chapter.courseId }
+  }
+
+  if (user.role === "TRAINER") {
+    if (chapter.courseTeacherId !== Number(user.id)) {
+      return { allowed: false, status: 403, error: "Non autorisé" }
+    }
+    return { allowed: true, canManage: true, courseId: chapter.courseId }
+  }
+
+  if (user.role === "STUDENT") {
+    if (chapter.courseStatus !== "validated") {
+      return { allowed: false, status: 404, error: "Chapitre introuvable" }
+    }
+    const enrollmentResult = await getEnrollmentByStudentAndCourse(Number(user.id), chapter.courseId)
+    if (!enrollmentResult.success || !enrollmentResult.data) {
+      return { allowed: false, status: 403, error: "Vous n'êtes pas inscrit à ce cours" }
+    }
+    return { allowed: true, canManage: false, courseId: chapter.courseId }
+  }
+
+  return { allowed: false, status: 403, error: "Non autorisé" }
+}
+
+/**
+ * Load a quiz and resolve the caller's access through its chapter.
+ */
+export async function getQuizWithAccess(user: AuthUser, quizId: number) {
+  const quizResult = await getQuizById(quizId)
+  if ("error" in quizResult) {
+    return { allowed: false as const, status: 500 as const, error: "Erreur lors de la récupération du quiz" }
+  }
+
+  const quiz = quizResult.data
+  if (!quiz || quiz.chapterId === null) {
+    return { allowed: false as const, status: 404 as const, error: "Quiz introuvable" }
+  }
+
+  const access = await getChapterQuizAccess(user, quiz.chapterId)
+  if (!access.allowed) {
+    return access
+  }
+
+  return { ...access, quiz, chapterId: quiz.chapterId }
+}
@@ -0,0 +1,83 @@
+import { getBankQuestions } from "@/lib/db/queries"
+import type { QuestionDraw, QuizQuestion } from "@/lib/schemas/quiz"
+import { parseQuizQuestions } from "./questions"
+import { shuffle } from "./shuffle"
+
+export interface BankQuestionRow {
+  id: number
+  bankId: number
+  question: unknown
+  difficulty: string
+  tags: unknown
+}
+
+function hasTags(row: BankQuestionRow, tags: string[] | undefined) {
+  if (!tags?.length) return true
+  const rowTags = Array.isArray(row.tags) ? row.tags : []
+  return tags.every((tag) => rowTags.includes(tag.toLowerCase()))
+}
+
+/**
+ * Pick questions for each draw rule. A bank question qualifies when it has
+ * the requested difficulty and every requested tag; it is drawn at most
+ * once per attempt even if several rules match it. Rules asking for more
+ * questions than available get what there is.
+ */
+export function drawQuestions(draws: QuestionDraw[], pool: BankQuestionRow[]): QuizQuestion[] {
+  const drawnIds = new Set<number>()
+
+  return draws.flatMap((draw) => {
+    const candidates = pool.filter(
+      (row) =>
+        row.bankId === draw.bankId &&
+        !drawnIds.has(row.id) &&
+        (!draw.difficulty || row.difficulty === draw.difficulty) &&
+        hasTags(row, draw.tags)
+    )
+
+    return shuffle(candidates)
+      .slice(0, draw.count)
+      .flatMap((row) => {
+        drawnIds.add(row.id)
+        // Bank question IDs are only unique within their bank
+        return parseQuizQuestions([row.question]).map((question) => ({ ...question, id: `bank-${row.id}` }))
+      })
+  })
+}
+
+// Shuffle the options of a choice question, keeping its answer key in step
+export function shuffleOptions(question: QuizQuestion): QuizQuestion {
+  if (question.type !== "single_choice" && question.type !== "multiple_choice") {
+    return question
+  }
+
+  const order = shuffle(question.options.map((_, index) => index))
+  const options = order.map((index) => question.options[index])
+
+  if (question.type === "single_choice") {
+    return { ...question, options, correctAnswer: order.indexOf(question.correctAnswer) }
+  }
+  return {
+    ...question,
+    options,
+    correctAnswers: question.correctAnswers.map((index) => order.indexOf(index)).sort((a, b) => a - b),
+  }
+}
+
+/**
+ * Build the question set of a new attempt: the quiz's own questions plus
+ * those drawn from its banks, in random order with shuffled options. The
+ * result is stored on the attempt and used to grade and review it.
+ */
+export async function assembleAttemptQuestions(quiz: { questions: unknown; draws: unknown }) {
+  const draws = (Array.isArray(quiz.draws) ? quiz.draws : []) as QuestionDraw[]
+  const bankIds = Array.from(new Set(draws.map((draw) => draw.bankId)))
+
+  const poolResult = await getBankQuestions(bankIds)
+  if ("error" in poolResult) {
+    return { success: false as const, error: "Erreur lors du tirage des questions" }
+  }
+
+  const questions = [...parseQuizQuestions(quiz.questions), ...drawQuestions(draws, poolResult.data)]
+  return { success: true as const, data: shuffle(questions).map(shuffleOptions) }
+}
@@ -0,0 +1,112 @@
+import { submitQuizAttempt } from "@/lib/db/queries"
+import { saveQuizAttemptDraftSchema, type QuizAnswer } from "@/lib/schemas/quiz"
+import { gradeQuizAnswers, type GradedQuiz } from "./grading"
+import { parseQuizQuestions } from "./questions"
+
+// Leeway for the automatic submission sent by the browser when time is up
+export const SUBMISSION_GRACE_MS = 30 * 1000
+
+interface TimedQuiz {
+  passingScore: number | null
+  timeLimitMinutes: number | null
+  maxAttempts: number | null
+  cooldownMinutes: number | null
+  latePolicy: "auto_submit" | "reject"
+}
+
+interface OpenAttempt {
+  id: number
+  startedAt: Date | null
+  questions: unknown
+  answers: unknown
+}
+
+export function getAttemptDeadline(attempt: Pick<OpenAttempt, "startedAt">, quiz: TimedQuiz): Date | null {
+  if (!quiz.timeLimitMinutes || !attempt.startedAt) {
+    return null
+  }
+  return new Date(attempt.startedAt.getTime() + quiz.timeLimitMinutes * 60 * 1000)
+}
+
+export function isAttemptExpired(attempt: Pick<OpenAttempt, "startedAt">, quiz: TimedQuiz, now = new Date()) {
+  const deadline = getAttemptDeadline(attempt, quiz)
+  return deadline !== null && now.getTime() > deadline.getTime() + SUBMISSION_GRACE_MS
+}
+
+export type AttemptAvailability =
+  | { allowed: true; attemptsUsed: number }
+  | { allowed: false; attemptsUsed: number; error: string; retryAt: Date | null }
+
+/**
+ * Whether a new attempt may start, given the attempts already submitted:
+ * the attempt limit and the cooldown after the latest one both apply.
+ */
+export function getAttemptAvailability(
+  quiz: TimedQuiz,
+  submittedAttempts: { attemptedAt: Date | null }[],
+  now = new Date()
+): AttemptAvailability {
+  const attemptsUsed = submittedAttempts.length
+
+  if (quiz.maxAttempts && attemptsUsed >= quiz.maxAttempts) {
+    return { allowed: false, attemptsUsed, error: "Nombre maximum de tentatives atteint", retryAt: null }
+  }
+
+  const lastAttemptAt = submittedAttempts
+    .map((attempt) => attempt.attemptedAt?.getTime() ?? 0)
+    .reduce((latest, time) => Math.max(latest, time), 0)
+  if (quiz.cooldownMinutes && lastAttemptAt > 0) {
+    const retryAt = new Date(lastAttemptAt + quiz.cooldownMinutes * 60 * 1000)
+    if (retryAt > now) {
+      return { allowed: false, attemptsUsed, error: "Veuillez patienter avant une nouvelle tentative", retryAt }
+    }
+  }
+
+  return { allowed: true, attemptsUsed }
+}
+
+// Answers saved on an in-progress attempt; anything malformed is ignored
+export function getDraftAnswers(attempt: Pick<OpenAttempt, "answers">): Record<string, QuizAnswer> {
+  const result = saveQuizAttemptDraftSchema.shape.answers.safeParse(attempt.answers)
+  return result.success ? result.data : {}
+}
+
+/**
+ * Grade an in-progress attempt against the questions drawn for it and
+ * close it. An attempt closed after its deadline is flagged as timed out;
+ * under the "reject" late policy its answers earn nothing.
+ */
+export async function finalizeQuizAttempt(
+  attempt: OpenAttempt,
+  quiz: TimedQuiz,
+  answers: Record<string, QuizAnswer>,
+  options: { timedOut: boolean }
+) {
+  const questions = parseQuizQuestions(attempt.questions)
+  const passingScore = quiz.passingScore ?? 70
+
+  const graded: GradedQuiz =
+    options.timedOut && quiz.latePolicy === "reject"
+      ? {
+          status: "graded",
+          score: 0,
+          passed: false,
+          correctCount: 0,
+          totalQuestions: questions.length,
+          results: questions.map((question) => ({ questionId: question.id, answer: null, correct: false, credit: 0 })),
+        }
+      : gradeQuizAnswers(questions, answers, passingScore)
+
+  const result = await submitQuizAttempt(attempt.id, {
+    answers: graded.results,
+    score: graded.score,
+    passed: graded.passed,
+    status: graded.status,
+    timedOut: options.timedOut,
+  })
+  if (!result.success) {
+    return { success: false as const, error: "error" in result ? result.error : "Erreur lors de la soumission" }
+  }
+
+  return { success: true as const, data: { attempt: result.data, graded, questions } }
+}
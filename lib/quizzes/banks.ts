@@ -0,0 +1,55 @@
+import type { AuthUser } from "@/lib/auth/auth"
+import { getCourseById, getQuestionBankById, getQuestionBanksForCourse } from "@/lib/db/queries"
+import type { QuestionDraw } from "@/lib/schemas/quiz"
+
+/**
+ * Load a question bank and resolve the caller's access. Admins, the bank
+ * owner and the trainer of its course manage it; other trainers may only
+ * browse domain banks, which are shared across the domain.
+ */
+export async function getQuestionBankWithAccess(user: AuthUser, bankId: number) {
+  const bankResult = await getQuestionBankById(bankId)
+  if ("error" in bankResult) {
+    return { allowed: false as const, status: 500 as const, error: "Erreur lors de la récupération de la banque" }
+  }
+
+  const bank = bankResult.data
+  if (!bank) {
+    return { allowed: false as const, status: 404 as const, error: "Banque de questions introuvable" }
+  }
+
+  const userId = Number(user.id)
+  if (user.role === "ADMIN") {
+    return { allowed: true as const, canManage: true, bank }
+  }
+
+  if (user.role === "TRAINER") {
+    const canManage = bank.ownerId === userId || (bank.courseId !== null && bank.courseTeacherId === userId)
+    if (canManage || bank.domainId !== null) {
+      return { allowed: true as const, canManage, bank }
+    }
+  }
+
+  return { allowed: false as const, status: 403 as const, error: "Non autorisé" }
+}
+
+// Check that every bank a quiz draws from belongs to its course or domain
+export async function validateQuizDraws(courseId: number, draws: QuestionDraw[] | undefined) {
+  if (!draws?.length) {
+    return null
+  }
+
+  const courseResult = await getCourseById(courseId)
+  if ("error" in courseResult || !courseResult.data) {
+    return "Cours introuvable"
+  }
+
+  const banksResult = await getQuestionBanksForCourse(courseId, courseResult.data.domainId)
+  if ("error" in banksResult) {
+    return "Erreur lors de la récupération des banques de questions"
+  }
+
+  const allowedIds = new Set(banksResult.data.map((bank) => bank.id))
+  const invalid = draws.find((draw) => !allowedIds.has(draw.bankId))
+  return invalid ? `La banque de questions ${invalid.bankId} n'est pas disponible pour ce cours` : null
+}
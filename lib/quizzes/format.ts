@@ -0,0 +1,58 @@
+import type { QuizAnswer, QuizQuestion } from "@/lib/schemas/quiz"
+
+// Human-readable labels for answers and solutions, shared by the student
+// review screen and the trainer grading inbox. Safe to import client-side.
+
+type FormattableQuestion = Partial<QuizQuestion> & { type?: QuizQuestion["type"] }
+
+function formatBoolean(value: boolean) {
+  return value ? "Vrai" : "Faux"
+}
+
+export function formatAnswer(question: FormattableQuestion, answer: QuizAnswer | null | undefined): string {
+  if (answer === null || answer === undefined || answer === "") {
+    return "Aucune réponse"
+  }
+  if (typeof answer === "boolean") {
+    return formatBoolean(answer)
+  }
+
+  const options = "options" in question ? question.options : undefined
+  if (typeof answer === "number") {
+    return options && question.type !== "numeric" ? options[answer] ?? String(answer) : String(answer)
+  }
+  if (typeof answer === "string") {
+    return answer
+  }
+
+  if (question.type === "matching" && "pairs" in question && question.pairs) {
+    return question.pairs.map((pair, index) => `${pair.left} → ${answer[index] ?? "?"}`).join(" ; ")
+  }
+  return (answer as (string | number)[])
+    .map((value) => (typeof value === "number" && options ? options[value] ?? String(value) : String(value)))
+    .join(question.type === "ordering" ? " → " : ", ")
+}
+
+// Returns null for open questions, which have no single solution
+export function describeSolution(question: QuizQuestion): string | null {
+  switch (question.type) {
+    case "single_choice":
+      return question.options[question.correctAnswer] ?? null
+    case "multiple_choice":
+      return question.correctAnswers.map((index) => question.options[index]).join(", ")
+    case "true_false":
+      return formatBoolean(question.correctAnswer)
+    case "numeric":
+      return question.tolerance > 0
+        ? `${question.correctValue} (± ${question.tolerance})`
+        : String(question.correctValue)
+    case "matching":
+      return question.pairs.map((pair) => `${pair.left} → ${pair.right}`).join(" ; ")
+    case "ordering":
+      return question.items.join(" → ")
+    case "fill_blank":
+      return question.blanks.map((blank) => blank.acceptedAnswers[0]).join(", ")
+    case "open":
+      return null
+  }
+}
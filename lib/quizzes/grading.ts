@@ -0,0 +1,181 @@
+import type { QuizAnswer, QuizQuestion } from "@/lib/schemas/quiz"
+
+export interface QuestionResult {
+  questionId: string
+  answer: QuizAnswer | null
+  // null while an open-ended answer waits for the trainer
+  correct: boolean | null
+  // Share of the question's point earned, between 0 and 1
+  credit: number | null
+  comment?: string
+}
+
+export interface GradedQuiz {
+  status: "graded" | "pending_review"
+  score: number
+  passed: boolean
+  correctCount: number
+  totalQuestions: number
+  results: QuestionResult[]
+}
+
+// Quizzes holding an open-ended question need a manual review
+export function getQuizType(questions: QuizQuestion[]): "auto" | "manual" {
+  return questions.some((question) => question.type === "open") ? "manual" : "auto"
+}
+
+function normalizeText(value: string) {
+  return value.trim().replace(/\s+/g, " ").toLowerCase()
+}
+
+function asNumbers(answer: QuizAnswer | null): number[] | null {
+  return Array.isArray(answer) && (answer as unknown[]).every((value) => typeof value === "number")
+    ? (answer as number[])
+    : null
+}
+
+function asStrings(answer: QuizAnswer | null): string[] | null {
+  return Array.isArray(answer) && (answer as unknown[]).every((value) => typeof value === "string")
+    ? (answer as string[])
+    : null
+}
+
+// Share of matched parts, or all-or-nothing when partial credit is off
+function partsCredit(question: QuizQuestion, matched: number, total: number) {
+  if (total === 0) return 0
+  if (matched === total) return 1
+  return question.partialCredit ? matched / total : 0
+}
+
+// Credit earned on an auto-graded question, between 0 and 1
+function computeCredit(question: Exclude<QuizQuestion, { type: "open" }>, answer: QuizAnswer | null): number {
+  switch (question.type) {
+    case "single_choice":
+      return answer === question.correctAnswer ? 1 : 0
+
+    case "multiple_choice": {
+      const selected = new Set(asNumbers(answer) ?? [])
+      const correct = new Set(question.correctAnswers)
+      const hits = [...selected].filter((index) => correct.has(index)).length
+      const misses = selected.size - hits
+      if (hits === correct.size && misses === 0) return 1
+      // Wrong picks cancel right ones so selecting everything earns nothing
+      return question.partialCredit ? Math.max(0, (hits - misses) / correct.size) : 0
+    }
+
+    case "true_false":
+      return answer === question.correctAnswer ? 1 : 0
+
+    case "numeric":
+      return typeof answer === "number" && Math.abs(answer - question.correctValue) <= question.tolerance + 1e-9
+        ? 1
+        : 0
+
+    case "matching": {
+      const chosen = asStrings(answer) ?? []
+      const matched = question.pairs.filter((pair, index) => chosen[index] === pair.right).length
+      return partsCredit(question, matched, question.pairs.length)
+    }
+
+    case "ordering": {
+      const order = asStrings(answer) ?? []
+      const matched = question.items.filter((item, index) => order[index] === item).length
+      return partsCredit(question, matched, question.items.length)
+    }
+
+    case "fill_blank": {
+      const filled = asStrings(answer) ?? []
+      const matched = question.blanks.filter((blank, index) => {
+        const value = filled[index]
+        return (
+          value !== undefined &&
+          blank.acceptedAnswers.some((accepted) => normalizeText(accepted) === normalizeText(value))
+        )
+      }).length
+      return partsCredit(question, matched, question.blanks.length)
+    }
+  }
+}
+
+function gradeQuestion(question: QuizQuestion, answer: QuizAnswer | null): QuestionResult {
+  if (question.type === "open") {
+    const text = typeof answer === "string" ? answer.trim() : ""
+    // A blank answer needs no review
+    if (!text) {
+      return { questionId: question.id, answer: null, correct: false, credit: 0 }
+    }
+    return { questionId: question.id, answer: text, correct: null, credit: null }
+  }
+
+  const credit = computeCredit(question, answer)
+  return { questionId: question.id, answer, correct: credit === 1, credit }
+}
+
+function summarize(results: QuestionResult[], passingScore: number): GradedQuiz {
+  const pending = results.some((result) => result.credit === null)
+  const earned = results.reduce((sum, result) => sum + (result.credit ?? 0), 0)
+  const score = results.length > 0 ? Math.round((earned / results.length) * 100) : 0
+
+  return {
+    status: pending ? "pending_review" : "graded",
+    // Pending attempts neither count as passed nor carry a score yet
+    score: pending ? 0 : score,
+    passed: !pending && score >= passingScore,
+    correctCount: results.filter((result) => result.correct === true).length,
+    totalQuestions: results.length,
+    results,
+  }
+}
+
+/**
+ * Grade submitted answers against the stored answer keys. Unanswered
+ * questions count as wrong; answers to unknown question IDs are ignored.
+ * Open-ended answers are left for manual review.
+ */
+export function gradeQuizAnswers(
+  questions: QuizQuestion[],
+  answers: Record<string, QuizAnswer>,
+  passingScore: number
+): GradedQuiz {
+  const results = questions.map((question) =>
+    gradeQuestion(
+      question,
+      Object.prototype.hasOwnProperty.call(answers, question.id) ? answers[question.id] : null
+    )
+  )
+
+  return summarize(results, passingScore)
+}
+
+/**
+ * Apply the trainer's scores (0-100) and comments to the pending answers of
+ * an attempt. Every pending answer must be graded.
+ */
+export function applyManualGrades(
+  results: QuestionResult[],
+  grades: { questionId: string; score: number; comment?: string }[],
+  passingScore: number
+): GradedQuiz | null {
+  const gradesById = new Map(grades.map((grade) => [grade.questionId, grade]))
+
+  const updated: QuestionResult[] = []
+  for (const result of results) {
+    if (result.credit !== null) {
+      updated.push(result)
+      continue
+    }
+
+    const grade = gradesById.get(result.questionId)
+    if (!grade) {
+      return null
+    }
+    updated.push({
+      ...result,
+      credit: grade.score / 100,
+      correct: grade.score >= 50,
+      comment: grade.comment || undefined,
+    })
+  }
+
+  return summarize(updated, passingScore)
+}
@@ -0,0 +1,25 @@
+export { getChapterQuizAccess, getQuizWithAccess, type ChapterQuizAccess } from "./access"
+export {
+  finalizeQuizAttempt,
+  getAttemptAvailability,
+  getAttemptDeadline,
+  getDraftAnswers,
+  isAttemptExpired,
+  SUBMISSION_GRACE_MS,
+  type AttemptAvailability,
+} from "./attempts"
+export { assembleAttemptQuestions, drawQuestions, shuffleOptions, type BankQuestionRow } from "./assemble"
+export { getQuestionBankWithAccess, validateQuizDraws } from "./banks"
+export { describeSolution, formatAnswer } from "./format"
+export {
+  applyManualGrades,
+  getQuizType,
+  gradeQuizAnswers,
+  type GradedQuiz,
+  type QuestionResult,
+} from "./grading"
+export { parseQuizQuestions } from "./questions"
+export { computeQuizOutcome, type ScoredAttempt } from "./scoring"
+export { toStudentQuestion, toStudentQuiz, type StudentQuiz, type StudentQuizQuestion } from "./sanitize"
+export { shuffle } from "./shuffle"
+export { getChapterLockStates, hasPassedAllCourseQuizzes, isChapterUnlocked, type ChapterLockState } from "./unlock"
@@ -0,0 +1,22 @@
+import { quizQuestionSchema, type QuizQuestion } from "@/lib/schemas/quiz"
+
+/**
+ * Read the questions stored in quizzes.questions (jsonb). Legacy
+ * single-choice questions without a "type" or with a numeric id are
+ * upgraded on the fly; malformed entries are dropped rather than
+ * breaking the whole quiz.
+ */
+export function parseQuizQuestions(raw: unknown): QuizQuestion[] {
+  if (!Array.isArray(raw)) {
+    return []
+  }
+
+  return raw.flatMap((value) => {
+    const result = quizQuestionSchema.safeParse(value)
+    if (!result.success) {
+      console.error("Invalid stored quiz question:", result.error.flatten())
+      return []
+    }
+    return [result.data]
+  })
+}
@@ -0,0 +1,80 @@
+import { BLANK_MARKER, type QuestionDraw, type QuizQuestion, type QuizScoringPolicy } from "@/lib/schemas/quiz"
+import { parseQuizQuestions } from "./questions"
+import { shuffle } from "./shuffle"
+
+// Question as shown to a student: no answer key, and matching/ordering
+// items shuffled so their stored order gives nothing away
+export type StudentQuizQuestion = { id: string; question: string } & (
+  | { type: "single_choice" | "multiple_choice"; options: string[] }
+  | { type: "true_false" | "numeric" | "open" }
+  | { type: "matching"; lefts: string[]; rights: string[] }
+  | { type: "ordering"; items: string[] }
+  | { type: "fill_blank"; blankCount: number }
+)
+
+// Quiz summary shown before an attempt; the questions themselves are drawn
+// and served when the attempt starts
+export interface StudentQuiz {
+  id: number
+  chapterId: number | null
+  title: string
+  passingScore: number
+  questionCount: number
+  timeLimitMinutes: number | null
+  maxAttempts: number | null
+  cooldownMinutes: number | null
+  scoringPolicy: QuizScoringPolicy
+}
+
+export function toStudentQuestion(question: QuizQuestion): StudentQuizQuestion {
+  const base = { id: question.id, question: question.question }
+
+  switch (question.type) {
+    case "single_choice":
+    case "multiple_choice":
+      return { ...base, type: question.type, options: question.options }
+    case "matching":
+      return {
+        ...base,
+        type: "matching",
+        lefts: question.pairs.map((pair) => pair.left),
+        rights: shuffle(question.pairs.map((pair) => pair.right)),
+      }
+    case "ordering":
+      return { ...base, type: "ordering", items: shuffle(question.items) }
+    case "fill_blank":
+      return { ...base, type: "fill_blank", blankCount: question.question.split(BLANK_MARKER).length - 1 }
+    default:
+      return { ...base, type: question.type }
+  }
+}
+
+/**
+ * Describe a stored quiz to a student without its questions, answer keys
+ * or explanations. Only the fields listed here ever leave the server.
+ */
+export function toStudentQuiz(quiz: {
+  id: number
+  chapterId: number | null
+  title: string
+  passingScore: number | null
+  questions: unknown
+  draws: unknown
+  timeLimitMinutes: number | null
+  maxAttempts: number | null
+  cooldownMinutes: number | null
+  scoringPolicy: QuizScoringPolicy
+}): StudentQuiz {
+  const draws = (Array.isArray(quiz.draws) ? quiz.draws : []) as QuestionDraw[]
+  return {
+    id: quiz.id,
+    chapterId: quiz.chapterId,
+    title: quiz.title,
+    passingScore: quiz.passingScore ?? 70,
+    questionCount: parseQuizQuestions(quiz.questions).length + draws.reduce((sum, draw) => sum + draw.count, 0),
+    timeLimitMinutes: quiz.timeLimitMinutes,
+    maxAttempts: quiz.maxAttempts,
+    cooldownMinutes: quiz.cooldownMinutes,
+    scoringPolicy: quiz.scoringPolicy,
+  }
+}
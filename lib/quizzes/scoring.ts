@@ -0,0 +1,39 @@
+import type { QuizScoringPolicy } from "@/lib/schemas/quiz"
+
+export interface ScoredAttempt {
+  score: number
+  passed: boolean
+  attemptedAt: Date | string | null
+}
+
+/**
+ * Quiz result under its scoring policy, from the student's graded attempts:
+ * the best one, the latest one, or the average score. Returns null before
+ * any attempt is graded. Kept free of database imports so the query layer
+ * can use it too.
+ */
+export function computeQuizOutcome(
+  attempts: ScoredAttempt[],
+  policy: QuizScoringPolicy,
+  passingScore: number
+): { score: number; passed: boolean } | null {
+  if (attempts.length === 0) {
+    return null
+  }
+
+  if (policy === "last") {
+    const time = (attempt: ScoredAttempt) => (attempt.attemptedAt ? new Date(attempt.attemptedAt).getTime() : 0)
+    const last = attempts.reduce((latest, attempt) => (time(attempt) > time(latest) ? attempt : latest))
+    return { score: last.score, passed: last.passed }
+  }
+
+  if (policy === "average") {
+    const score = Math.round(attempts.reduce((sum, attempt) => sum + attempt.score, 0) / attempts.length)
+    return { score, passed: score >= passingScore }
+  }
+
+  return {
+    score: Math.max(...attempts.map((attempt) => attempt.score)),
+    passed: attempts.some((attempt) => attempt.passed),
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  getChaptersByCourseId,
+  getQuizAttemptsByStudent,
+  getQuizzesByCourse,
+  getStudentProgressByCourse,
+} from "@/lib/db/queries"
+import type { QuizScoringPolicy } from "@/lib/schemas/quiz"
+import { computeQuizOutcome } from "./scoring"
+
+type ScoredQuiz = { id: number; passingScore: number | null; scoringPolicy: QuizScoringPolicy }
+
+// A quiz counts as passed when its graded attempts pass under its scoring policy
+async function hasPassedQuiz(studentId: number, quiz: ScoredQuiz) {
+  const result = await getQuizAttemptsByStudent(studentId, quiz.id)
+  if (!result.success || !result.data) {
+    return false
+  }
+
+  const graded = result.data.filter((attempt) => attempt.status === "graded")
+  return computeQuizOutcome(graded, quiz.scoringPolicy, quiz.passingScore ?? 70)?.passed ?? false
+}
+
+/**
+ * Whether the student passed every quiz of the course, each judged under
+ * its own scoring policy.
+ */
+export async function hasPassedAllCourseQuizzes(studentId: number, courseId: number) {
+  const quizzesResult = await getQuizzesByCourse(courseId)
+  if (!quizzesResult.success) {
+    return false
+  }
+
+  const passed = await Promise.all(quizzesResult.data.map((quiz) => hasPassedQuiz(studentId, quiz)))
+  return passed.every(Boolean)
+}
+
+export interface ChapterLockState {
+  chapterId: number
+  isCompleted: boolean
+  isLocked: boolean
+  hasQuiz: boolean
+}
+
+/**
+ * Completion and lock state of every chapter of the course, in course order.
+ * A chapter is unlocked once every earlier chapter of the course is
+ * completed and its quizzes passed. The first chapter is always open.
+ */
+export async function getChapterLockStates(studentId: number, courseId: number): Promise<ChapterLockState[] | null> {
+  const [chaptersResult, progressResult, quizzesResult] = await Promise.all([
+    getChaptersByCourseId(courseId),
+    getStudentProgressByCourse(studentId, courseId),
+    getQuizzesByCourse(courseId),
+  ])
+  if (!chaptersResult.success || !progressResult.success || !quizzesResult.success) {
+    return null
+  }
+
+  const completedChapterIds = new Set(progressResult.data.map((progress) => progress.chapterId))
+  const passedQuizIds = new Set<number>()
+  await Promise.all(
+    quizzesResult.data.map(async (quiz) => {
+      if (await hasPassedQuiz(studentId, quiz)) passedQuizIds.add(quiz.id)
+    })
+  )
+
+  // Once a chapter is left unfinished, every later one stays locked
+  let isLocked = false
+  return chaptersResult.data.map((chapter) => {
+    const chapterQuizzes = quizzesResult.data.filter((quiz) => quiz.chapterId === chapter.id)
+    const state = {
+      chapterId: chapter.id,
+      isCompleted: completedChapterIds.has(chapter.id),
+      isLocked,
+      hasQuiz: chapterQuizzes.length > 0,
+    }
+    if (!state.isCompleted || chapterQuizzes.some((quiz) => !passedQuizIds.has(quiz.id))) {
+      isLocked = true
+    }
+    return state
+  })
+}
+
+export async function isChapterUnlocked(studentId: number, courseId: number, chapterId: number) {
+  const states = await getChapterLockStates(studentId, courseId)
+  const state = states?.find((chapter) => chapter.chapterId === chapterId)
+  return state ? !state.isLocked : false
+}
@@ -0,0 +1,154 @@
+import {
+  anonymizeUser,
+  countExpiredRecords,
+  getInactiveStudents,
+  getRetentionRules,
+  purgeExpiredRecords,
+} from "@/lib/db/queries"
+import { recordAudit } from "@/lib/audit"
+import type { RetentionAction, RetentionTarget } from "@/lib/schemas/retention"
+
+// Accounts anonymized per run; the next run picks up the rest
+const MAX_ANONYMIZATIONS_PER_RUN = 500
+// Accounts listed by name in a report
+const REPORT_SAMPLE_SIZE = 50
+
+export interface RetentionRuleReport {
+  target: RetentionTarget
+  action: RetentionAction
+  months: number
+  enabled: boolean
+  // Records older than this date are affected
+  cutoff: string
+  matched: number
+  // Records actually anonymized or deleted (always 0 on a dry run)
+  affected: number
+  // Inactive students only
+  sample?: { id: number; name: string; email: string; lastActivityAt: string }[]
+  // Accounts anonymized by a purge, kept for the audit trail
+  anonymizedUserIds?: number[]
+  error?: string
+}
+
+export interface RetentionReport {
+  dryRun: boolean
+  ranAt: string
+  rules: RetentionRuleReport[]
+}
+
+export function getRetentionCutoff(months: number, now = new Date()) {
+  const cutoff = new Date(now)
+  cutoff.setMonth(cutoff.getMonth() - months)
+  return cutoff
+}
+
+async function applyInactiveStudentsRule(report: RetentionRuleReport, cutoff: Date, dryRun: boolean) {
+  const limit = dryRun ? REPORT_SAMPLE_SIZE : MAX_ANONYMIZATIONS_PER_RUN
+  const students = await getInactiveStudents(cutoff, limit)
+  if (!students.success) {
+    throw new Error(students.error)
+  }
+
+  report.matched = students.data.total
+  report.sample = students.data.rows.slice(0, REPORT_SAMPLE_SIZE).map((student) => ({
+    ...student,
+    lastActivityAt: new Date(student.lastActivityAt).toISOString(),
+  }))
+  if (dryRun) {
+    return
+  }
+
+  report.anonymizedUserIds = []
+  for (const student of students.data.rows) {
+    const result = await anonymizeUser(student.id)
+    if (!result.success) {
+      throw new Error(result.error)
+    }
+    report.anonymizedUserIds.push(student.id)
+    report.affected++
+  }
+}
+
+async function applyExpiringRule(
+  report: RetentionRuleReport,
+  target: Exclude<RetentionTarget, "inactive_students">,
+  cutoff: Date,
+  dryRun: boolean
+) {
+  const count = await countExpiredRecords(target, report.action, cutoff)
+  if (!count.success) {
+    throw new Error(count.error)
+  }
+
+  report.matched = count.data
+  if (dryRun || count.data === 0) {
+    return
+  }
+
+  const result = await purgeExpiredRecords(target, report.action, cutoff)
+  if (!result.success) {
+    throw new Error(result.error)
+  }
+  report.affected = result.data
+}
+
+/**
+ * Evaluate the retention rules and, unless it is a dry run, anonymize or
+ * delete what they match. Dry runs also cover disabled rules so they can be
+ * previewed before being turned on. Every run is written to the audit trail.
+ */
+export async function runRetention(options: {
+  dryRun: boolean
+  actorId?: number | null
+  ipAddress?: string | null
+}): Promise<RetentionReport> {
+  const { dryRun } = options
+  const rules = await getRetentionRules()
+  if (!rules.success) {
+    throw new Error(rules.error)
+  }
+
+  const now = new Date()
+  const report: RetentionReport = { dryRun, ranAt: now.toISOString(), rules: [] }
+
+  for (const rule of rules.data) {
+    if (!dryRun && !rule.enabled) {
+      continue
+    }
+
+    const cutoff = getRetentionCutoff(rule.months, now)
+    const ruleReport: RetentionRuleReport = {
+      target: rule.target,
+      action: rule.action,
+      months: rule.months,
+      enabled: rule.enabled,
+      cutoff: cutoff.toISOString(),
+      matched: 0,
+      affected: 0,
+    }
+
+    // One failing rule does not stop the others
+    try {
+      if (rule.target === "inactive_students") {
+        await applyInactiveStudentsRule(ruleReport, cutoff, dryRun)
+      } else {
+        await applyExpiringRule(ruleReport, rule.target, cutoff, dryRun)
+      }
+    } catch (error) {
+      ruleReport.error = error instanceof Error ? error.message : String(error)
+    }
+
+    report.rules.push(ruleReport)
+  }
+
+  await recordAudit({
+    actorId: options.actorId ?? null,
+    ipAddress: options.ipAddress ?? null,
+    action: dryRun ? "retention.dry_run" : "retention.purge",
+    targetType: "retention",
+    // Names and emails of the sample are left out of the trail
+    after: { rules: report.rules.map(({ sample, ...rule }) => rule) },
+  })
+
+  return report
+}
@@ -0,0 +1,6 @@
+export {
+  getRetentionCutoff,
+  runRetention,
+  type RetentionReport,
+  type RetentionRuleReport,
+} from "./engine"
@@ -0,0 +1,47 @@
+import { z } from "zod"
+
+// Longest period the local analytics may cover, to keep the weekly trend readable
+export const MAX_ANALYTICS_DAYS = 366
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const optionalQueryId = z
+  .string()
+  .optional()
+  .transform((value) => (value ? Number(value) : undefined))
+  .pipe(z.number().int().positive().optional())
+
+const optionalDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must use the YYYY-MM-DD format")
+  .optional()
+  .or(z.literal("").transform(() => undefined))
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10)
+
+// Local analytics query schema (GET /api/analytics/local); defaults to the last 12 weeks
+export const localAnalyticsQuerySchema = z
+  .object({
+    schoolId: optionalQueryId,
+    groupId: optionalQueryId,
+    courseId: optionalQueryId,
+    // Inclusive calendar days
+    from: optionalDate,
+    to: optionalDate
+  })
+  .transform((data) => {
+    const to = data.to ?? toDay(new Date())
+    const from = data.from ?? toDay(new Date(Date.parse(to) - 83 * DAY_MS))
+    return { ...data, from, to }
+  })
+  .refine((data) => data.from <= data.to, {
+    message: "The start date must be before the end date",
+    path: ["from"]
+  })
+  .refine((data) => Date.parse(data.to) - Date.parse(data.from) < MAX_ANALYTICS_DAYS * DAY_MS, {
+    message: `The period cannot exceed ${MAX_ANALYTICS_DAYS} days`,
+    path: ["from"]
+  })
+
+// Type exports
+export type LocalAnalyticsQueryInput = z.infer<typeof localAnalyticsQuerySchema>
@@ -0,0 +1,140 @@
+import { z } from "zod"
+
+export const ATTENDANCE_STATUSES = ["present", "absent", "late", "excused"] as const
+export type AttendanceStatus = (typeof ATTENDANCE_STATUSES)[number]
+
+// Where uploaded justification documents are served from
+export const ATTENDANCE_UPLOADS_PATH = "/uploads/attendance/"
+
+const optionalId = z.number().int().positive().nullable().optional().transform((value) => value ?? null)
+
+const optionalQueryId = z
+  .string()
+  .optional()
+  .transform((value) => (value ? Number(value) : undefined))
+  .pipe(z.number().int().positive().optional())
+
+const optionalDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must use the YYYY-MM-DD format")
+  .optional()
+  .or(z.literal("").transform(() => undefined))
+
+// Class session creation schema (POST /api/attendance/sessions)
+export const classSessionSchema = z
+  .object({
+    groupId: z.number().int().positive(),
+    courseId: optionalId,
+    trainerId: optionalId,
+    startsAt: z.string().datetime({ offset: true, message: "Invalid start date" }).transform((value) => new Date(value)),
+    endsAt: z
+      .string()
+      .datetime({ offset: true, message: "Invalid end date" })
+      .nullable()
+      .optional()
+      .transform((value) => (value ? new Date(value) : null))
+  })
+  .refine((data) => !data.endsAt || data.endsAt > data.startsAt, {
+    message: "The session must end after it starts",
+    path: ["endsAt"]
+  })
+
+// Class session list query schema (GET /api/attendance/sessions)
+export const classSessionQuerySchema = z.object({
+  schoolId: optionalQueryId,
+  groupId: optionalQueryId,
+  // Inclusive calendar days
+  from: optionalDate,
+  to: optionalDate
+})
+
+const justificationSchema = z
+  .string()
+  .trim()
+  .max(1000, "Justification must be 1000 characters or less")
+  .nullable()
+  .optional()
+  .transform((value) => value || null)
+
+const documentUrlSchema = z
+  .string()
+  .startsWith(ATTENDANCE_UPLOADS_PATH, "File must be uploaded through the platform")
+  .max(500)
+  .nullable()
+  .optional()
+  .transform((value) => value || null)
+
+// One student's attendance, as set on the roll call or when justifying an absence
+export const attendanceEntrySchema = z.object({
+  status: z.enum(ATTENDANCE_STATUSES),
+  justification: justificationSchema,
+  documentUrl: documentUrlSchema
+})
+
+// Roll call of a session (PUT /api/attendance/sessions/[id]/records)
+export const attendanceRollSchema = z.object({
+  records: z
+    .array(attendanceEntrySchema.extend({ studentId: z.number().int().positive() }))
+    .min(1, "At least one student is required")
+    .max(500)
+    .refine((records) => new Set(records.map((record) => record.studentId)).size === records.length, {
+      message: "Each student can only appear once"
+    })
+})
+
+const optionalDateTime = (message: string) =>
+  z
+    .string()
+    .datetime({ offset: true, message })
+    .nullable()
+    .optional()
+    .transform((value) => (value ? new Date(value) : null))
+
+const IPV4_OCTET = "(25[0-5]|2[0-4]\\d|1?\\d?\\d)"
+const IPV4_RANGE = new RegExp(`^(${IPV4_OCTET}\\.){3}${IPV4_OCTET}(\\/(3[0-2]|[12]?\\d))?$`)
+const IPV6_ADDRESS = /^[0-9a-f]{0,4}(:[0-9a-f]{0,4}){2,7}$/i
+
+// An IPv4 or IPv6 address, or an IPv4 CIDR range such as 196.200.10.0/24
+const ipRangeSchema = z
+  .string()
+  .trim()
+  .refine(
+    (value) => IPV4_RANGE.test(value) || IPV6_ADDRESS.test(value),
+    "Each entry must be an IP address or an IPv4 CIDR range"
+  )
+
+// QR self check-in limits of a session (PATCH /api/attendance/sessions/[id])
+export const checkInSettingsSchema = z
+  .object({
+    checkInOpensAt: optionalDateTime("Invalid opening date"),
+    checkInClosesAt: optionalDateTime("Invalid closing date"),
+    checkInAllowedIps: z.array(ipRangeSchema).max(20, "At most 20 addresses or ranges").default([])
+  })
+  .refine((data) => !data.checkInOpensAt || !data.checkInClosesAt || data.checkInClosesAt > data.checkInOpensAt, {
+    message: "Check-in must close after it opens",
+    path: ["checkInClosesAt"]
+  })
+
+// Student check-in with the scanned QR code (POST /api/attendance/check-in)
+export const checkInSchema = z.object({
+  token: z.string().min(1, "Token is required").max(200)
+})
+
+// Class session and attendance record ID parameter schemas
+export const classSessionIdSchema = z.object({
+  id: z.string().regex(/^\d+$/, "Invalid session ID").transform(Number)
+})
+
+export const attendanceRecordIdSchema = z.object({
+  id: z.string().regex(/^\d+$/, "Invalid attendance record ID").transform(Number)
+})
+
+// Type exports
+export type ClassSessionInput = z.infer<typeof classSessionSchema>
+export type ClassSessionQueryInput = z.infer<typeof classSessionQuerySchema>
+export type AttendanceEntryInput = z.infer<typeof attendanceEntrySchema>
+export type AttendanceRollInput = z.infer<typeof attendanceRollSchema>
+export type CheckInSettingsInput = z.infer<typeof checkInSettingsSchema>
+export type CheckInInput = z.infer<typeof checkInSchema>
+export type ClassSessionIdParam = z.infer<typeof classSessionIdSchema>
+export type AttendanceRecordIdParam = z.infer<typeof attendanceRecordIdSchema>
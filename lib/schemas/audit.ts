@@ -0,0 +1,41 @@
+import { z } from "zod"
+
+// Query params arrive as strings; blank ones are treated as absent
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .optional()
+    .transform((value) => value || undefined)
+
+const optionalDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must use the YYYY-MM-DD format")
+  .optional()
+  .or(z.literal("").transform(() => undefined))
+
+// Audit log query schema (GET /api/audit-logs)
+export const auditLogQuerySchema = z.object({
+  action: optionalText(100),
+  targetType: optionalText(50),
+  targetId: optionalText(255),
+  // Matched against the actor's name or email
+  actor: optionalText(255),
+  // Inclusive calendar days
+  from: optionalDate,
+  to: optionalDate,
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50)
+})
+
+// Audit log export schema (GET /api/audit-logs/export)
+export const auditLogExportSchema = auditLogQuerySchema
+  .omit({ page: true, pageSize: true })
+  .extend({
+    format: z.enum(["csv", "json"]).default("csv")
+  })
+
+// Type exports
+export type AuditLogQueryInput = z.infer<typeof auditLogQuerySchema>
+export type AuditLogExportInput = z.infer<typeof auditLogExportSchema>
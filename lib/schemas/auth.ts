@@ -31,11 +31,59 @@ export const registerSchema = z.object({
     .boolean()
     .refine((val) => val === true, {
       message: "Vous devez accepter le traitement de vos données"
-    })
+    }),
+  // Version of the consent text shown on the form, so a stale page is caught
+  consentTextId: z
+    .number({ required_error: "Le texte de consentement n'a pas pu être chargé" })
+    .int()
+    .positive()
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Les mots de passe ne correspondent pas",
   path: ["confirmPassword"]
 })
 
+// Forgot password and resend verification requests
+export const emailRequestSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .min(1, "L'email est requis")
+    .email("Format d'email invalide")
+})
+
+// Token received by email (verification link)
+export const emailTokenSchema = z.object({
+  token: z
+    .string()
+    .min(1, "Le lien est invalide")
+    .max(200, "Le lien est invalide")
+})
+
+export const resetPasswordSchema = emailTokenSchema.extend({
+  password: z
+    .string()
+    .min(1, "Le mot de passe est requis")
+    .min(8, "Le mot de passe doit contenir au moins 8 caractères"),
+  confirmPassword: z
+    .string()
+    .min(1, "La confirmation du mot de passe est requise")
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Les mots de passe ne correspondent pas",
+  path: ["confirmPassword"]
+})
+
+// Authenticator code (6 digits) or recovery code (xxxxx-xxxxx)
+export const twoFactorCodeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(6, "Le code doit contenir au moins 6 caractères")
+    .max(32, "Code invalide")
+})
+
 export type LoginInput = z.infer<typeof loginSchema>
 export type RegisterInput = z.infer<typeof registerSchema>
+export type EmailRequestInput = z.infer<typeof emailRequestSchema>
+export type EmailTokenInput = z.infer<typeof emailTokenSchema>
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>
@@ -0,0 +1,35 @@
+import { z } from "zod"
+
+// Accepting a consent text (POST /api/consent)
+export const acceptConsentSchema = z.object({
+  consentTextId: z.number().int().positive()
+})
+
+// Publishing a new version of the consent text (POST /api/consent/texts)
+export const consentTextSchema = z.object({
+  title: z.string().trim().min(3, "Title must be at least 3 characters").max(200),
+  content: z.string().trim().min(50, "Content must be at least 50 characters").max(20000)
+})
+
+// Consent history query schema (GET /api/consent/records)
+export const consentRecordQuerySchema = z.object({
+  version: z
+    .string()
+    .optional()
+    .transform((value) => (value ? Number(value) : undefined))
+    .pipe(z.number().int().positive().optional()),
+  // Matched against the user's name or email
+  search: z
+    .string()
+    .trim()
+    .max(255)
+    .optional()
+    .transform((value) => value || undefined),
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50)
+})
+
+// Type exports
+export type AcceptConsentInput = z.infer<typeof acceptConsentSchema>
+export type ConsentTextInput = z.infer<typeof consentTextSchema>
+export type ConsentRecordQueryInput = z.infer<typeof consentRecordQuerySchema>
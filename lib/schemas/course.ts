@@ -1,5 +1,8 @@
 import { z } from "zod"
 
+// Course validation status schema
+export const courseStatusSchema = z.enum(["draft", "submitted", "validated", "rejected"])
+
 // Course creation schema
 export const createCourseSchema = z.object({
   title: z
@@ -39,7 +42,24 @@ export const courseIdSchema = z.object({
   id: z.string().regex(/^\d+$/, "Invalid course ID").transform(Number)
 })
 
+// Course review decision schema (admin validation queue)
+export const reviewCourseSchema = z.discriminatedUnion("decision", [
+  z.object({
+    decision: z.literal("validated")
+  }),
+  z.object({
+    decision: z.literal("rejected"),
+    rejectionReason: z
+      .string()
+      .trim()
+      .min(1, "Rejection reason is required")
+      .max(2000, "Rejection reason must be 2000 characters or less")
+  })
+])
+
 // Type exports
+export type CourseStatus = z.infer<typeof courseStatusSchema>
+export type ReviewCourseInput = z.infer<typeof reviewCourseSchema>
 export type CreateCourseInput = z.infer<typeof createCourseSchema>
 export type UpdateCourseInput = z.infer<typeof updateCourseSchema>
 export type CourseIdParam = z.infer<typeof courseIdSchema>
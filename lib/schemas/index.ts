@@ -2,8 +2,16 @@
 export {
   loginSchema,
   registerSchema,
+  emailRequestSchema,
+  emailTokenSchema,
+  resetPasswordSchema,
+  twoFactorCodeSchema,
   type LoginInput,
-  type RegisterInput
+  type RegisterInput,
+  type EmailRequestInput,
+  type EmailTokenInput,
+  type ResetPasswordInput,
+  type TwoFactorCodeInput
 } from "./auth"
 
 // User schemas
@@ -34,10 +42,227 @@ export {
 
 // Course schemas
 export {
+  courseStatusSchema,
   createCourseSchema,
   updateCourseSchema,
   courseIdSchema,
+  reviewCourseSchema,
+  type CourseStatus,
   type CreateCourseInput,
   type UpdateCourseInput,
-  type CourseIdParam
+  type CourseIdParam,
+  type ReviewCourseInput
 } from "./course"
+
+// Progress schemas
+export {
+  progressQuerySchema,
+  updateProgressSchema,
+  type ProgressQueryInput,
+  type UpdateProgressInput
+} from "./progress"
+
+// Quiz schemas
+export {
+  BLANK_MARKER,
+  singleChoiceQuestionSchema,
+  multipleChoiceQuestionSchema,
+  trueFalseQuestionSchema,
+  numericQuestionSchema,
+  matchingQuestionSchema,
+  orderingQuestionSchema,
+  fillBlankQuestionSchema,
+  openQuestionSchema,
+  quizQuestionSchema,
+  questionTypeSchema,
+  quizAnswerSchema,
+  questionDifficultySchema,
+  questionDrawSchema,
+  quizScoringPolicySchema,
+  quizLatePolicySchema,
+  createQuizSchema,
+  updateQuizSchema,
+  saveQuizAttemptDraftSchema,
+  submitQuizAttemptSchema,
+  reviewQuizAttemptSchema,
+  quizIdSchema,
+  quizAttemptIdSchema,
+  chapterIdSchema,
+  type SingleChoiceQuestion,
+  type MultipleChoiceQuestion,
+  type TrueFalseQuestion,
+  type NumericQuestion,
+  type MatchingQuestion,
+  type OrderingQuestion,
+  type FillBlankQuestion,
+  type OpenQuestion,
+  type QuizQuestion,
+  type QuestionType,
+  type QuizAnswer,
+  type QuestionDifficulty,
+  type QuestionDraw,
+  type QuizScoringPolicy,
+  type QuizLatePolicy,
+  type CreateQuizInput,
+  type UpdateQuizInput,
+  type SaveQuizAttemptDraftInput,
+  type SubmitQuizAttemptInput,
+  type ReviewQuizAttemptInput,
+  type QuizIdParam,
+  type QuizAttemptIdParam,
+  type ChapterIdParam
+} from "./quiz"
+
+// Question bank schemas
+export {
+  createQuestionBankSchema,
+  updateQuestionBankSchema,
+  bankQuestionTagsSchema,
+  bankQuestionSchema,
+  updateBankQuestionSchema,
+  questionBankIdSchema,
+  bankQuestionIdSchema,
+  type CreateQuestionBankInput,
+  type UpdateQuestionBankInput,
+  type BankQuestionInput,
+  type UpdateBankQuestionInput,
+  type QuestionBankIdParam,
+  type BankQuestionIdParam
+} from "./question-bank"
+
+// Final project schemas
+export {
+  PROJECT_UPLOADS_PATH,
+  projectSubmissionStatusSchema,
+  finalProjectSchema,
+  projectFileSchema,
+  createProjectSubmissionSchema,
+  reviewProjectSubmissionSchema,
+  finalProjectIdSchema,
+  projectSubmissionIdSchema,
+  type ProjectSubmissionStatus,
+  type FinalProjectInput,
+  type ProjectFile,
+  type CreateProjectSubmissionInput,
+  type ReviewProjectSubmissionInput,
+  type FinalProjectIdParam,
+  type ProjectSubmissionIdParam
+} from "./project"
+
+// Rubric schemas
+export {
+  rubricLevelSchema,
+  rubricCriterionSchema,
+  rubricSchema,
+  rubricScoreSchema,
+  rubricScoresSchema,
+  copyRubricSchema,
+  type RubricLevel,
+  type RubricCriterion,
+  type RubricInput,
+  type RubricScore,
+  type CopyRubricInput
+} from "./rubric"
+
+// Audit log schemas
+export {
+  auditLogQuerySchema,
+  auditLogExportSchema,
+  type AuditLogQueryInput,
+  type AuditLogExportInput
+} from "./audit"
+
+// Consent schemas
+export {
+  acceptConsentSchema,
+  consentTextSchema,
+  consentRecordQuerySchema,
+  type AcceptConsentInput,
+  type ConsentTextInput,
+  type ConsentRecordQueryInput
+} from "./consent"
+
+// Personal data schemas
+export {
+  dataExportQuerySchema,
+  type DataExportQueryInput
+} from "./privacy"
+
+// Retention schemas
+export {
+  RETENTION_TARGETS,
+  RETENTION_ACTIONS,
+  RETENTION_TARGET_ACTIONS,
+  retentionTargetSchema,
+  retentionActionSchema,
+  updateRetentionRuleSchema,
+  retentionRunSchema,
+  type RetentionTarget,
+  type RetentionAction,
+  type UpdateRetentionRuleInput,
+  type RetentionRunInput
+} from "./retention"
+
+// School and group schemas
+export {
+  schoolSchema,
+  schoolManagersSchema,
+  groupSchema,
+  studentPlacementSchema,
+  schoolStudentQuerySchema,
+  schoolIdSchema,
+  groupIdSchema,
+  type SchoolInput,
+  type SchoolManagersInput,
+  type GroupInput,
+  type StudentPlacementInput,
+  type SchoolStudentQueryInput,
+  type SchoolIdParam,
+  type GroupIdParam
+} from "./school"
+
+// Attendance schemas
+export {
+  ATTENDANCE_STATUSES,
+  ATTENDANCE_UPLOADS_PATH,
+  classSessionSchema,
+  classSessionQuerySchema,
+  attendanceEntrySchema,
+  attendanceRollSchema,
+  checkInSettingsSchema,
+  checkInSchema,
+  classSessionIdSchema,
+  attendanceRecordIdSchema,
+  type AttendanceStatus,
+  type ClassSessionInput,
+  type ClassSessionQueryInput,
+  type AttendanceEntryInput,
+  type AttendanceRollInput,
+  type CheckInSettingsInput,
+  type CheckInInput,
+  type ClassSessionIdParam,
+  type AttendanceRecordIdParam
+} from "./attendance"
+
+// Student note schemas
+export {
+  STUDENT_NOTE_CATEGORIES,
+  STUDENT_NOTE_VISIBILITIES,
+  studentNoteSchema,
+  studentNoteUpdateSchema,
+  studentNoteQuerySchema,
+  studentNoteIdSchema,
+  type StudentNoteCategory,
+  type StudentNoteVisibility,
+  type StudentNoteInput,
+  type StudentNoteUpdateInput,
+  type StudentNoteQueryInput,
+  type StudentNoteIdParam
+} from "./student-note"
+
+// Analytics schemas
+export {
+  MAX_ANALYTICS_DAYS,
+  localAnalyticsQuerySchema,
+  type LocalAnalyticsQueryInput
+} from "./analytics"
@@ -0,0 +1,9 @@
+import { z } from "zod"
+
+// Personal data export query schema (GET /api/user/data-export, GET /api/users/[id]/data-export)
+export const dataExportQuerySchema = z.object({
+  format: z.enum(["json", "zip"]).default("zip")
+})
+
+// Type exports
+export type DataExportQueryInput = z.infer<typeof dataExportQuerySchema>
@@ -0,0 +1,28 @@
+import { z } from "zod"
+
+// Progress query schema (GET /api/progress)
+export const progressQuerySchema = z.object({
+  courseId: z.string().regex(/^\d+$/, "Invalid course ID").transform(Number),
+  studentId: z
+    .string()
+    .regex(/^\d+$/, "Invalid student ID")
+    .transform(Number)
+    .optional()
+})
+
+// Progress update schema (POST /api/progress)
+export const updateProgressSchema = z.object({
+  courseId: z.coerce
+    .number()
+    .int("Course ID must be an integer")
+    .positive("Course ID must be positive"),
+  chapterId: z.coerce
+    .number()
+    .int("Chapter ID must be an integer")
+    .positive("Chapter ID must be positive"),
+  action: z.enum(["complete", "uncomplete"])
+})
+
+// Type exports
+export type ProgressQueryInput = z.infer<typeof progressQuerySchema>
+export type UpdateProgressInput = z.infer<typeof updateProgressSchema>
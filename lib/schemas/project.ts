@@ -0,0 +1,111 @@
+import { z } from "zod"
+import { rubricScoresSchema } from "./rubric"
+
+// Where uploaded project deliverables are served from
+export const PROJECT_UPLOADS_PATH = "/uploads/projects/"
+
+export const projectSubmissionStatusSchema = z.enum(["submitted", "needs_revision", "approved", "rejected"])
+
+// Final project definition schema (PUT /api/courses/[id]/final-project)
+export const finalProjectSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(3, "Title must be at least 3 characters")
+    .max(200, "Title must be 200 characters or less"),
+  description: z
+    .string()
+    .trim()
+    .min(10, "Description must be at least 10 characters")
+    .max(5000, "Description must be 5000 characters or less"),
+  requirements: z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(1, "Requirement cannot be empty")
+        .max(300, "Requirement must be 300 characters or less")
+    )
+    .max(20, "Too many requirements")
+    .default([]),
+  required: z.boolean().default(true)
+})
+
+export const projectFileSchema = z.object({
+  name: z.string().min(1, "File name is required").max(255, "File name must be 255 characters or less"),
+  url: z
+    .string()
+    .startsWith(PROJECT_UPLOADS_PATH, "File must be uploaded through the platform")
+    .refine((url) => !url.includes(".."), "Invalid file URL"),
+  size: z.number().int().nonnegative()
+})
+
+// Project submission schema: a link, uploaded files, or both
+export const createProjectSubmissionSchema = z
+  .object({
+    submissionUrl: z
+      .string()
+      .trim()
+      .url("Invalid URL format")
+      .refine((url) => /^https?:\/\//.test(url), "URL must start with http:// or https://")
+      .optional()
+      .nullable(),
+    description: z
+      .string()
+      .trim()
+      .min(10, "Description must be at least 10 characters")
+      .max(5000, "Description must be 5000 characters or less"),
+    files: z.array(projectFileSchema).max(5, "At most 5 files").default([])
+  })
+  .refine((submission) => Boolean(submission.submissionUrl) || submission.files.length > 0, {
+    message: "A link or at least one file is required",
+    path: ["submissionUrl"]
+  })
+
+// Trainer decision on a submission; asking for changes or rejecting needs
+// feedback. With a rubric, the grade is computed from the chosen levels.
+export const reviewProjectSubmissionSchema = z
+  .object({
+    status: projectSubmissionStatusSchema.exclude(["submitted"]),
+    grade: z
+      .number()
+      .int("Grade must be an integer")
+      .min(0, "Grade must be between 0 and 100")
+      .max(100, "Grade must be between 0 and 100")
+      .optional()
+      .nullable(),
+    feedback: z
+      .string()
+      .trim()
+      .max(5000, "Feedback must be 5000 characters or less")
+      .optional()
+      .nullable(),
+    rubricScores: rubricScoresSchema.optional()
+  })
+  .refine(
+    (review) => review.status !== "approved" || typeof review.grade === "number" || Boolean(review.rubricScores),
+    { message: "A grade is required to approve a project", path: ["grade"] }
+  )
+  .refine((review) => review.status === "approved" || Boolean(review.feedback), {
+    message: "Feedback is required when asking for changes or rejecting",
+    path: ["feedback"]
+  })
+
+// Final project ID parameter schema
+export const finalProjectIdSchema = z.object({
+  id: z.string().regex(/^\d+$/, "Invalid final project ID").transform(Number)
+})
+
+// Project submission ID parameter schema
+export const projectSubmissionIdSchema = z.object({
+  id: z.string().regex(/^\d+$/, "Invalid submission ID").transform(Number)
+})
+
+// Type exports
+export type ProjectSubmissionStatus = z.infer<typeof projectSubmissionStatusSchema>
+export type FinalProjectInput = z.infer<typeof finalProjectSchema>
+export type ProjectFile = z.infer<typeof projectFileSchema>
+export type CreateProjectSubmissionInput = z.infer<typeof createProjectSubmissionSchema>
+export type ReviewProjectSubmissionInput = z.infer<typeof reviewProjectSubmissionSchema>
+export type FinalProjectIdParam = z.infer<typeof finalProjectIdSchema>
+export type ProjectSubmissionIdParam = z.infer<typeof projectSubmissionIdSchema>
@@ -0,0 +1,78 @@
+import { z } from "zod"
+import { questionDifficultySchema, quizQuestionSchema } from "./quiz"
+
+const bankFieldsSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Title is required")
+    .max(200, "Title must be 200 characters or less"),
+  description: z
+    .string()
+    .max(1000, "Description must be 1000 characters or less")
+    .optional()
+    .nullable(),
+  courseId: z
+    .number()
+    .int("Course ID must be an integer")
+    .positive("Course ID must be positive")
+    .optional()
+    .nullable(),
+  domainId: z
+    .number()
+    .int("Domain ID must be an integer")
+    .positive("Domain ID must be positive")
+    .optional()
+    .nullable()
+})
+
+// Question bank creation schema: a bank belongs to one course or one domain
+export const createQuestionBankSchema = bankFieldsSchema.refine(
+  (bank) => Boolean(bank.courseId) !== Boolean(bank.domainId),
+  { message: "A bank belongs to either a course or a domain", path: ["courseId"] }
+)
+
+// Question bank update schema (scope cannot change)
+export const updateQuestionBankSchema = bankFieldsSchema
+  .pick({ title: true, description: true })
+  .partial()
+
+export const bankQuestionTagsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .toLowerCase()
+      .min(1, "Tag cannot be empty")
+      .max(50, "Tag must be 50 characters or less")
+  )
+  .max(20, "Too many tags")
+
+// Bank question schema (POST /api/question-banks/[id]/questions)
+export const bankQuestionSchema = z.object({
+  question: quizQuestionSchema,
+  difficulty: questionDifficultySchema.default("medium"),
+  tags: bankQuestionTagsSchema.default([])
+})
+
+// Bank question update schema
+export const updateBankQuestionSchema = bankQuestionSchema.partial()
+
+// Question bank ID parameter schema
+export const questionBankIdSchema = z.object({
+  id: z.string().regex(/^\d+$/, "Invalid question bank ID").transform(Number)
+})
+
+// Bank question ID parameter schema
+export const bankQuestionIdSchema = z.object({
+  id: z.string().regex(/^\d+$/, "Invalid question bank ID").transform(Number),
+  questionId: z.string().regex(/^\d+$/, "Invalid question ID").transform(Number)
+})
+
+// Type exports
+export type CreateQuestionBankInput = z.infer<typeof createQuestionBankSchema>
+export type UpdateQuestionBankInput = z.infer<typeof updateQuestionBankSchema>
+export type BankQuestionInput = z.infer<typeof bankQuestionSchema>
+export type UpdateBankQuestionInput = z.infer<typeof updateBankQuestionSchema>
+export type QuestionBankIdParam = z.infer<typeof questionBankIdSchema>
+export type BankQuestionIdParam = z.infer<typeof bankQuestionIdSchema>
@@ -0,0 +1,325 @@
+import { z } from "zod"
+
+// Fields shared by every question type
+const questionBaseSchema = z.object({
+  id: z.string().min(1, "Question ID is required"),
+  question: z
+    .string()
+    .trim()
+    .min(1, "Question text is required"),
+  explanation: z
+    .string()
+    .optional(),
+  // Award a share of the point for partly right answers
+  partialCredit: z
+    .boolean()
+    .optional()
+})
+
+const optionsSchema = z
+  .array(z.string().trim().min(1, "Option cannot be empty"))
+  .min(2, "At least two options are required")
+
+const optionIndexSchema = z
+  .number()
+  .int("Correct answer must be an option index")
+  .nonnegative("Correct answer must be an option index")
+
+// Single-choice question: one correct option
+export const singleChoiceQuestionSchema = questionBaseSchema.extend({
+  type: z.literal("single_choice"),
+  options: optionsSchema,
+  correctAnswer: optionIndexSchema
+})
+
+// Multiple-choice question: every correct option must be selected
+export const multipleChoiceQuestionSchema = questionBaseSchema.extend({
+  type: z.literal("multiple_choice"),
+  options: optionsSchema,
+  correctAnswers: z
+    .array(optionIndexSchema)
+    .min(1, "At least one correct answer is required")
+})
+
+export const trueFalseQuestionSchema = questionBaseSchema.extend({
+  type: z.literal("true_false"),
+  correctAnswer: z.boolean()
+})
+
+// Numeric answer accepted within +/- tolerance
+export const numericQuestionSchema = questionBaseSchema.extend({
+  type: z.literal("numeric"),
+  correctValue: z.number(),
+  tolerance: z
+    .number()
+    .nonnegative("Tolerance cannot be negative")
+    .default(0)
+})
+
+// Matching pairs: each left item goes with its right item
+export const matchingQuestionSchema = questionBaseSchema.extend({
+  type: z.literal("matching"),
+  pairs: z
+    .array(
+      z.object({
+        left: z.string().trim().min(1, "Item cannot be empty"),
+        right: z.string().trim().min(1, "Item cannot be empty")
+      })
+    )
+    .min(2, "At least two pairs are required")
+})
+
+// Ordering: items are stored in the correct order
+export const orderingQuestionSchema = questionBaseSchema.extend({
+  type: z.literal("ordering"),
+  items: z
+    .array(z.string().trim().min(1, "Item cannot be empty"))
+    .min(2, "At least two items are required")
+})
+
+// Fill-in-the-blank: each "___" in the question text is one blank
+export const fillBlankQuestionSchema = questionBaseSchema.extend({
+  type: z.literal("fill_blank"),
+  blanks: z
+    .array(
+      z.object({
+        acceptedAnswers: z
+          .array(z.string().trim().min(1, "Answer cannot be empty"))
+          .min(1, "At least one accepted answer is required")
+      })
+    )
+    .min(1, "At least one blank is required")
+})
+
+// Open-ended question, graded by hand by the trainer
+export const openQuestionSchema = questionBaseSchema.extend({
+  type: z.literal("open")
+})
+
+export const BLANK_MARKER = "___"
+
+// Questions saved before question types existed are single-choice without
+// "type", and some of them carry a numeric id
+export const quizQuestionSchema = z.preprocess(
+  (value) => {
+    if (!value || typeof value !== "object") return value
+    const question: Record<string, unknown> = { ...value }
+    if (!("type" in question)) question.type = "single_choice"
+    if (typeof question.id === "number") question.id = String(question.id)
+    return question
+  },
+  z
+    .discriminatedUnion("type", [
+      singleChoiceQuestionSchema,
+      multipleChoiceQuestionSchema,
+      trueFalseQuestionSchema,
+      numericQuestionSchema,
+      matchingQuestionSchema,
+      orderingQuestionSchema,
+      fillBlankQuestionSchema,
+      openQuestionSchema
+    ])
+    .superRefine((question, ctx) => {
+      if (question.type === "single_choice" && question.correctAnswer >= question.options.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Correct answer must reference an existing option",
+          path: ["correctAnswer"]
+        })
+      }
+      if (
+        question.type === "multiple_choice" &&
+        question.correctAnswers.some((index) => index >= question.options.length)
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Correct answers must reference existing options",
+          path: ["correctAnswers"]
+        })
+      }
+      if (
+        question.type === "fill_blank" &&
+        question.question.split(BLANK_MARKER).length - 1 !== question.blanks.length
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Question text must contain one "${BLANK_MARKER}" per blank`,
+          path: ["blanks"]
+        })
+      }
+    })
+)
+
+export const questionTypeSchema = z.enum([
+  "single_choice",
+  "multiple_choice",
+  "true_false",
+  "numeric",
+  "matching",
+  "ordering",
+  "fill_blank",
+  "open"
+])
+
+export const questionDifficultySchema = z.enum(["easy", "medium", "hard"])
+
+// "Draw N questions from bank X", optionally restricted by difficulty and tags
+export const questionDrawSchema = z.object({
+  bankId: z
+    .number()
+    .int("Bank ID must be an integer")
+    .positive("Bank ID must be positive"),
+  count: z
+    .number()
+    .int("Count must be an integer")
+    .min(1, "Count must be at least 1")
+    .max(100, "Count must be 100 or less"),
+  difficulty: questionDifficultySchema.optional(),
+  tags: z
+    .array(z.string().trim().min(1, "Tag cannot be empty").max(50, "Tag must be 50 characters or less"))
+    .max(20, "Too many tags")
+    .optional()
+})
+
+export const quizScoringPolicySchema = z.enum(["best", "last", "average"])
+export const quizLatePolicySchema = z.enum(["auto_submit", "reject"])
+
+// Optional positive whole number of minutes or attempts; null clears it
+const optionalLimitSchema = (label: string, max: number) =>
+  z
+    .number()
+    .int(`${label} must be an integer`)
+    .min(1, `${label} must be at least 1`)
+    .max(max, `${label} must be ${max} or less`)
+    .optional()
+    .nullable()
+
+const quizFieldsSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Title is required")
+    .max(200, "Title must be 200 characters or less"),
+  passingScore: z
+    .number()
+    .int("Passing score must be an integer")
+    .min(0, "Passing score must be between 0 and 100")
+    .max(100, "Passing score must be between 0 and 100")
+    .optional(),
+  questions: z
+    .array(quizQuestionSchema),
+  draws: z
+    .array(questionDrawSchema)
+    .max(20, "Too many draw rules")
+    .optional(),
+  timeLimitMinutes: optionalLimitSchema("Time limit", 600),
+  maxAttempts: optionalLimitSchema("Max attempts", 100),
+  cooldownMinutes: optionalLimitSchema("Cooldown", 10080),
+  scoringPolicy: quizScoringPolicySchema.optional(),
+  latePolicy: quizLatePolicySchema.optional()
+})
+
+// Quiz creation schema (POST /api/chapters/[id]/quizzes)
+export const createQuizSchema = quizFieldsSchema.refine(
+  (quiz) => quiz.questions.length > 0 || (quiz.draws?.length ?? 0) > 0,
+  { message: "At least one question or bank draw is required", path: ["questions"] }
+)
+
+// Quiz update schema (all fields optional)
+export const updateQuizSchema = quizFieldsSchema.partial()
+
+// One answer, shaped after its question type: option index or number,
+// free text, true/false, selected option indexes, or ordered strings
+export const quizAnswerSchema = z.union([
+  z.number(),
+  z
+    .string()
+    .max(5000, "Answer must be 5000 characters or less"),
+  z.boolean(),
+  z
+    .array(z.number().int("Answer must be an option index"))
+    .max(50, "Too many answers"),
+  z
+    .array(z.string().max(500, "Answer must be 500 characters or less"))
+    .max(50, "Too many answers")
+])
+
+// Answers saved while an attempt is in progress, graded if time runs out
+export const saveQuizAttemptDraftSchema = z.object({
+  answers: z.record(z.string(), quizAnswerSchema)
+})
+
+// Attempt submission schema: answers to a started attempt, keyed by question ID
+export const submitQuizAttemptSchema = z.object({
+  attemptId: z
+    .number()
+    .int("Attempt ID must be an integer")
+    .positive("Attempt ID must be positive"),
+  answers: z.record(z.string(), quizAnswerSchema)
+})
+
+// Manual review of a pending attempt: a score and comment per open question
+export const reviewQuizAttemptSchema = z.object({
+  grades: z
+    .array(
+      z.object({
+        questionId: z.string().min(1, "Question ID is required"),
+        score: z
+          .number()
+          .int("Score must be an integer")
+          .min(0, "Score must be between 0 and 100")
+          .max(100, "Score must be between 0 and 100"),
+        comment: z
+          .string()
+          .trim()
+          .max(2000, "Comment must be 2000 characters or less")
+          .optional()
+      })
+    )
+    .min(1, "At least one grade is required"),
+  feedback: z
+    .string()
+    .trim()
+    .max(5000, "Feedback must be 5000 characters or less")
+    .optional()
+})
+
+// Quiz ID parameter schema
+export const quizIdSchema = z.object({
+  id: z.string().regex(/^\d+$/, "Invalid quiz ID").transform(Number)
+})
+
+// Quiz attempt ID parameter schema
+export const quizAttemptIdSchema = z.object({
+  id: z.string().regex(/^\d+$/, "Invalid quiz attempt ID").transform(Number)
+})
+
+// Chapter ID parameter schema
+export const chapterIdSchema = z.object({
+  id: z.string().regex(/^\d+$/, "Invalid chapter ID").transform(Number)
+})
+
+// Type exports
+export type SingleChoiceQuestion = z.infer<typeof singleChoiceQuestionSchema>
+export type MultipleChoiceQuestion = z.infer<typeof multipleChoiceQuestionSchema>
+export type TrueFalseQuestion = z.infer<typeof trueFalseQuestionSchema>
+export type NumericQuestion = z.infer<typeof numericQuestionSchema>
+export type MatchingQuestion = z.infer<typeof matchingQuestionSchema>
+export type OrderingQuestion = z.infer<typeof orderingQuestionSchema>
+export type FillBlankQuestion = z.infer<typeof fillBlankQuestionSchema>
+export type OpenQuestion = z.infer<typeof openQuestionSchema>
+export type QuizQuestion = z.infer<typeof quizQuestionSchema>
+export type QuestionType = z.infer<typeof questionTypeSchema>
+export type QuizAnswer = z.infer<typeof quizAnswerSchema>
+export type QuestionDifficulty = z.infer<typeof questionDifficultySchema>
+export type QuestionDraw = z.infer<typeof questionDrawSchema>
+export type QuizScoringPolicy = z.infer<typeof quizScoringPolicySchema>
+export type QuizLatePolicy = z.infer<typeof quizLatePolicySchema>
+export type CreateQuizInput = z.infer<typeof createQuizSchema>
+export type UpdateQuizInput = z.infer<typeof updateQuizSchema>
+export type SaveQuizAttemptDraftInput = z.infer<typeof saveQuizAttemptDraftSchema>
+export type SubmitQuizAttemptInput = z.infer<typeof submitQuizAttemptSchema>
+export type ReviewQuizAttemptInput = z.infer<typeof reviewQuizAttemptSchema>
+export type QuizIdParam = z.infer<typeof quizIdSchema>
+export type QuizAttemptIdParam = z.infer<typeof quizAttemptIdSchema>
+export type ChapterIdParam = z.infer<typeof chapterIdSchema>
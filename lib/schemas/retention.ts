@@ -0,0 +1,44 @@
+import { z } from "zod"
+
+export const RETENTION_TARGETS = ["inactive_students", "quiz_attempts", "notifications", "audit_logs"] as const
+export const RETENTION_ACTIONS = ["anonymize", "delete"] as const
+
+// What each rule may do: accounts are only anonymized, since deleting them
+// would orphan their enrollments and certificates
+export const RETENTION_TARGET_ACTIONS: Record<RetentionTarget, readonly RetentionAction[]> = {
+  inactive_students: ["anonymize"],
+  quiz_attempts: ["anonymize", "delete"],
+  notifications: ["delete"],
+  audit_logs: ["delete"]
+}
+
+export const retentionTargetSchema = z.enum(RETENTION_TARGETS)
+export const retentionActionSchema = z.enum(RETENTION_ACTIONS)
+
+// Retention rule update schema (PUT /api/retention/rules)
+export const updateRetentionRuleSchema = z
+  .object({
+    target: retentionTargetSchema,
+    months: z
+      .number()
+      .int("Months must be an integer")
+      .min(1, "Months must be at least 1")
+      .max(240, "Months must be 240 or less"),
+    action: retentionActionSchema,
+    enabled: z.boolean()
+  })
+  .refine((data) => RETENTION_TARGET_ACTIONS[data.target].includes(data.action), {
+    message: "Action not allowed for this target",
+    path: ["action"]
+  })
+
+// Retention run schema (POST /api/retention/run)
+export const retentionRunSchema = z.object({
+  dryRun: z.boolean().default(true)
+})
+
+// Type exports
+export type RetentionTarget = z.infer<typeof retentionTargetSchema>
+export type RetentionAction = z.infer<typeof retentionActionSchema>
+export type UpdateRetentionRuleInput = z.infer<typeof updateRetentionRuleSchema>
+export type RetentionRunInput = z.infer<typeof retentionRunSchema>
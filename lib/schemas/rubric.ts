@@ -0,0 +1,75 @@
+import { z } from "zod"
+
+const rubricItemIdSchema = z.string().min(1, "ID is required").max(50, "ID must be 50 characters or less")
+
+export const rubricLevelSchema = z.object({
+  id: rubricItemIdSchema,
+  label: z
+    .string()
+    .trim()
+    .min(1, "Level label is required")
+    .max(100, "Level label must be 100 characters or less"),
+  description: z.string().trim().max(500, "Level description must be 500 characters or less").optional(),
+  points: z
+    .number()
+    .int("Points must be an integer")
+    .min(0, "Points cannot be negative")
+    .max(1000, "Points must be 1000 or less")
+})
+
+export const rubricCriterionSchema = z.object({
+  id: rubricItemIdSchema,
+  title: z
+    .string()
+    .trim()
+    .min(1, "Criterion title is required")
+    .max(200, "Criterion title must be 200 characters or less"),
+  description: z.string().trim().max(1000, "Criterion description must be 1000 characters or less").optional(),
+  levels: z
+    .array(rubricLevelSchema)
+    .min(2, "A criterion needs at least 2 levels")
+    .max(6, "A criterion has at most 6 levels")
+    .refine((levels) => new Set(levels.map((level) => level.id)).size === levels.length, "Level IDs must be unique")
+})
+
+// Rubric schema (PUT /api/courses/[id]/final-project/rubric)
+export const rubricSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Title is required")
+    .max(200, "Title must be 200 characters or less"),
+  criteria: z
+    .array(rubricCriterionSchema)
+    .min(1, "At least one criterion is required")
+    .max(20, "A rubric has at most 20 criteria")
+    .refine(
+      (criteria) => new Set(criteria.map((criterion) => criterion.id)).size === criteria.length,
+      "Criterion IDs must be unique"
+    )
+    .refine(
+      (criteria) => criteria.some((criterion) => criterion.levels.some((level) => level.points > 0)),
+      "The rubric must be worth at least one point"
+    )
+})
+
+// Level picked by the trainer for one criterion
+export const rubricScoreSchema = z.object({
+  criterionId: rubricItemIdSchema,
+  levelId: rubricItemIdSchema,
+  comment: z.string().trim().max(1000, "Comment must be 1000 characters or less").optional()
+})
+
+export const rubricScoresSchema = z.array(rubricScoreSchema).max(20, "Too many rubric scores")
+
+// Copy a rubric from another course (POST /api/courses/[id]/final-project/rubric/copy)
+export const copyRubricSchema = z.object({
+  sourceCourseId: z.number().int("Course ID must be an integer").positive("Course ID must be positive")
+})
+
+// Type exports
+export type RubricLevel = z.infer<typeof rubricLevelSchema>
+export type RubricCriterion = z.infer<typeof rubricCriterionSchema>
+export type RubricInput = z.infer<typeof rubricSchema>
+export type RubricScore = z.infer<typeof rubricScoreSchema>
+export type CopyRubricInput = z.infer<typeof copyRubricSchema>
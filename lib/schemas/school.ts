@@ -0,0 +1,91 @@
+import { z } from "zod"
+
+// School creation and update schema (POST /api/schools, PUT /api/schools/[id])
+export const schoolSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, "Name must be at least 2 characters")
+    .max(200, "Name must be 200 characters or less"),
+  city: z
+    .string()
+    .trim()
+    .max(100, "City must be 100 characters or less")
+    .optional()
+    .nullable()
+    .transform((value) => value || null),
+  address: z
+    .string()
+    .trim()
+    .max(1000, "Address must be 1000 characters or less")
+    .optional()
+    .nullable()
+    .transform((value) => value || null)
+})
+
+// Sub-admins responsible for a school (PUT /api/schools/[id]/managers)
+export const schoolManagersSchema = z.object({
+  userIds: z.array(z.number().int().positive()).max(50)
+})
+
+// Group creation and update schema (POST /api/schools/[id]/groups, PUT /api/groups/[id])
+export const groupSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must be 100 characters or less"),
+  academicYear: z
+    .string()
+    .trim()
+    .regex(/^\d{4}-\d{4}$/, "Academic year must look like 2025-2026")
+    .optional()
+    .nullable()
+    .or(z.literal(""))
+    .transform((value) => value || null)
+})
+
+// Placing a student in a school and group; null removes the assignment
+export const studentPlacementSchema = z.object({
+  schoolId: z.number().int().positive().nullable().optional(),
+  groupId: z.number().int().positive().nullable()
+})
+
+// Sub-admin student list query schema (GET /api/students)
+export const schoolStudentQuerySchema = z.object({
+  schoolId: z
+    .string()
+    .optional()
+    .transform((value) => (value ? Number(value) : undefined))
+    .pipe(z.number().int().positive().optional()),
+  groupId: z
+    .string()
+    .optional()
+    .transform((value) => (value ? Number(value) : undefined))
+    .pipe(z.number().int().positive().optional()),
+  // Matched against the student's name or email
+  search: z
+    .string()
+    .trim()
+    .max(255)
+    .optional()
+    .transform((value) => value || undefined)
+})
+
+// School and group ID parameter schemas
+export const schoolIdSchema = z.object({
+  id: z.string().regex(/^\d+$/, "Invalid school ID").transform(Number)
+})
+
+export const groupIdSchema = z.object({
+  id: z.string().regex(/^\d+$/, "Invalid group ID").transform(Number)
+})
+
+// Type exports
+export type SchoolInput = z.infer<typeof schoolSchema>
+export type SchoolManagersInput = z.infer<typeof schoolManagersSchema>
+export type GroupInput = z.infer<typeof groupSchema>
+export type StudentPlacementInput = z.infer<typeof studentPlacementSchema>
+export type SchoolStudentQueryInput = z.infer<typeof schoolStudentQuerySchema>
+export type SchoolIdParam = z.infer<typeof schoolIdSchema>
+export type GroupIdParam = z.infer<typeof groupIdSchema>
@@ -0,0 +1,59 @@
+import { z } from "zod"
+
+export const STUDENT_NOTE_CATEGORIES = ["behaviour", "academic", "administrative"] as const
+export type StudentNoteCategory = (typeof STUDENT_NOTE_CATEGORIES)[number]
+
+// "staff": sub-admins and admins only; "student": also shown to the student
+export const STUDENT_NOTE_VISIBILITIES = ["staff", "student"] as const
+export type StudentNoteVisibility = (typeof STUDENT_NOTE_VISIBILITIES)[number]
+
+const optionalQueryId = z
+  .string()
+  .optional()
+  .transform((value) => (value ? Number(value) : undefined))
+  .pipe(z.number().int().positive().optional())
+
+const contentSchema = z
+  .string()
+  .trim()
+  .min(1, "Content is required")
+  .max(5000, "Content must be 5000 characters or less")
+
+// Student note update schema (PATCH /api/student-notes/[id])
+export const studentNoteUpdateSchema = z.object({
+  courseId: z.number().int().positive().nullable().optional(),
+  category: z.enum(STUDENT_NOTE_CATEGORIES).optional(),
+  visibility: z.enum(STUDENT_NOTE_VISIBILITIES).optional(),
+  content: contentSchema.optional()
+})
+
+// Student note creation schema (POST /api/student-notes)
+export const studentNoteSchema = z.object({
+  studentId: z.number().int().positive(),
+  courseId: z.number().int().positive().nullable().optional().transform((value) => value ?? null),
+  category: z.enum(STUDENT_NOTE_CATEGORIES),
+  visibility: z.enum(STUDENT_NOTE_VISIBILITIES).default("staff"),
+  content: contentSchema
+})
+
+// Student note search schema (GET /api/student-notes)
+export const studentNoteQuerySchema = z.object({
+  studentId: optionalQueryId,
+  schoolId: optionalQueryId,
+  courseId: optionalQueryId,
+  category: z.enum(STUDENT_NOTE_CATEGORIES).optional(),
+  visibility: z.enum(STUDENT_NOTE_VISIBILITIES).optional(),
+  // Matched against the note, the student name and email
+  search: z.string().trim().max(100).optional()
+})
+
+// Student note ID parameter schema
+export const studentNoteIdSchema = z.object({
+  id: z.string().regex(/^\d+$/, "Invalid note ID").transform(Number)
+})
+
+// Type exports
+export type StudentNoteInput = z.infer<typeof studentNoteSchema>
+export type StudentNoteUpdateInput = z.infer<typeof studentNoteUpdateSchema>
+export type StudentNoteQueryInput = z.infer<typeof studentNoteQuerySchema>
+export type StudentNoteIdParam = z.infer<typeof studentNoteIdSchema>
@@ -0,0 +1,97 @@
+import type { AuthUser } from "@/lib/auth/auth"
+import { getGroupById, getManagedSchoolIds, getSchoolStudentById, getStudentNoteById } from "@/lib/db/queries"
+
+type Denied = { allowed: false; status: 403 | 404 | 500; error: string }
+
+export type SchoolScope = { allowed: true; schoolIds: number[] | null } | Denied
+
+/**
+ * Schools whose students a user may manage: every school for admins
+ * (`schoolIds` is null), the schools they are responsible for for
+ * sub-admins. Other roles are refused.
+ */
+export async function getSchoolScope(user: AuthUser): Promise<SchoolScope> {
+  if (user.role === "ADMIN") {
+    return { allowed: true, schoolIds: null }
+  }
+  if (user.role !== "SUB_ADMIN") {
+    return { allowed: false, status: 403, error: "Non autorisé" }
+  }
+
+  const result = await getManagedSchoolIds(Number(user.id))
+  if (!result.success) {
+    return { allowed: false, status: 500, error: "Erreur lors de la récupération des établissements" }
+  }
+  return { allowed: true, schoolIds: result.data }
+}
+
+export const isSchoolInScope = (schoolIds: number[] | null, schoolId: number | null) =>
+  schoolIds === null || (schoolId !== null && schoolIds.includes(schoolId))
+
+/**
+ * Load a student managed by the user. Sub-admins only reach the students
+ * placed in one of their schools; anyone else gets a 404 so that student
+ * IDs of other schools cannot be probed.
+ */
+export async function getManagedStudent(user: AuthUser, studentId: number) {
+  const scope = await getSchoolScope(user)
+  if (!scope.allowed) {
+    return scope
+  }
+
+  const result = await getSchoolStudentById(studentId)
+  if (!result.success) {
+    return { allowed: false as const, status: 500 as const, error: "Erreur lors de la récupération de l'étudiant" }
+  }
+  const student = result.data
+  if (!student || !isSchoolInScope(scope.schoolIds, student.schoolId)) {
+    return { allowed: false as const, status: 404 as const, error: "Étudiant introuvable" }
+  }
+
+  return { allowed: true as const, schoolIds: scope.schoolIds, student }
+}
+
+/**
+ * Load a group whose school the user manages, e.g. to rename it or to
+ * place a student in it.
+ */
+export async function getManagedGroup(user: AuthUser, groupId: number) {
+  const scope = await getSchoolScope(user)
+  if (!scope.allowed) {
+    return scope
+  }
+
+  const result = await getGroupById(groupId)
+  if (!result.success) {
+    return { allowed: false as const, status: 500 as const, error: "Erreur lors de la récupération du groupe" }
+  }
+  const group = result.data
+  if (!group || !isSchoolInScope(scope.schoolIds, group.schoolId)) {
+    return { allowed: false as const, status: 404 as const, error: "Groupe introuvable" }
+  }
+
+  return { allowed: true as const, schoolIds: scope.schoolIds, group }
+}
+
+/**
+ * Load a note about a student the user manages. Only its author, or an
+ * admin, may change it (`canEdit`).
+ */
+export async function getManagedStudentNote(user: AuthUser, noteId: number) {
+  const scope = await getSchoolScope(user)
+  if (!scope.allowed) {
+    return scope
+  }
+
+  const result = await getStudentNoteById(noteId)
+  if (!result.success) {
+    return { allowed: false as const, status: 500 as const, error: "Erreur lors de la récupération de la note" }
+  }
+  const note = result.data
+  if (!note || !isSchoolInScope(scope.schoolIds, note.schoolId)) {
+    return { allowed: false as const, status: 404 as const, error: "Note introuvable" }
+  }
+
+  const canEdit = user.role === "ADMIN" || note.authorId === Number(user.id)
+  return { allowed: true as const, note, canEdit }
+}
@@ -0,0 +1 @@
+export { getManagedGroup, getManagedStudent, getManagedStudentNote, getSchoolScope, isSchoolInScope, type SchoolScope } from "./access"
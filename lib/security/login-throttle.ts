@@ -0,0 +1,168 @@
+import {
+  clearLoginThrottle,
+  getLoginThrottles,
+  lockLoginThrottle,
+  recordLoginFailure,
+} from "@/lib/db/queries"
+import { recordAudit } from "@/lib/audit"
+
+type LoginThrottle = { key: string; failures: number; lastFailureAt: Date; lockedUntil: Date | null }
+
+interface ThrottlePolicy {
+  // Failures after which each new attempt has to wait
+  delayAfter: number
+  // Failures after which the key is locked
+  lockAfter: number
+  lockMs: number
+}
+
+// Failures older than this no longer count
+const FAILURE_WINDOW_MS = 60 * 60 * 1000
+const BASE_DELAY_MS = 5 * 1000
+const MAX_DELAY_MS = 60 * 1000
+
+// An account is targeted by a single guesser; an IP may be shared (school
+// network, NAT), so it gets more room before being slowed down
+const ACCOUNT_POLICY: ThrottlePolicy = { delayAfter: 3, lockAfter: 8, lockMs: 15 * 60 * 1000 }
+const IP_POLICY: ThrottlePolicy = { delayAfter: 10, lockAfter: 30, lockMs: 30 * 60 * 1000 }
+
+export type LoginThrottleStatus =
+  | { allowed: true }
+  | { allowed: false; reason: "locked" | "delayed"; retryAfterSeconds: number }
+
+export const getAccountThrottleKey = (email: string) => `account:${email.trim().toLowerCase()}`
+const getIpThrottleKey = (ip: string) => `ip:${ip}`
+
+function getKeys(email: string, ip: string) {
+  // Without a usable IP every client would share one counter
+  const keys: { key: string; policy: ThrottlePolicy }[] = [
+    { key: getAccountThrottleKey(email), policy: ACCOUNT_POLICY },
+  ]
+  if (ip && ip !== "unknown") {
+    keys.push({ key: getIpThrottleKey(ip), policy: IP_POLICY })
+  }
+  return keys
+}
+
+// Delay doubles with each failure past the threshold: 5s, 10s, 20s... up to a minute
+function getDelayMs(failures: number, policy: ThrottlePolicy) {
+  if (failures < policy.delayAfter) {
+    return 0
+  }
+  return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (failures - policy.delayAfter))
+}
+
+function evaluate(throttle: LoginThrottle, policy: ThrottlePolicy, now: number): LoginThrottleStatus {
+  if (throttle.lockedUntil && throttle.lockedUntil.getTime() > now) {
+    return {
+      allowed: false,
+      reason: "locked",
+      retryAfterSeconds: Math.ceil((throttle.lockedUntil.getTime() - now) / 1000),
+    }
+  }
+
+  const lastFailureAt = throttle.lastFailureAt.getTime()
+  if (now - lastFailureAt > FAILURE_WINDOW_MS) {
+    return { allowed: true }
+  }
+
+  const nextAttemptAt = lastFailureAt + getDelayMs(throttle.failures, policy)
+  if (nextAttemptAt > now) {
+    return { allowed: false, reason: "delayed", retryAfterSeconds: Math.ceil((nextAttemptAt - now) / 1000) }
+  }
+  return { allowed: true }
+}
+
+// A lockout wins over a delay; otherwise the longest wait applies
+function mostRestrictive(statuses: LoginThrottleStatus[]): LoginThrottleStatus {
+  return statuses.reduce<LoginThrottleStatus>((worst, status) => {
+    if (status.allowed) return worst
+    if (worst.allowed) return status
+    if (status.reason !== worst.reason) return status.reason === "locked" ? status : worst
+    return status.retryAfterSeconds > worst.retryAfterSeconds ? status : worst
+  }, { allowed: true })
+}
+
+/**
+ * Whether a sign-in attempt for this email and client may go ahead.
+ * Fails open if the database is unreachable, like the rate limiter.
+ */
+export async function checkLoginThrottle(email: string, ip: string): Promise<LoginThrottleStatus> {
+  const keys = getKeys(email, ip)
+  const result = await getLoginThrottles(keys.map(({ key }) => key))
+  if (!result.success) {
+    return { allowed: true }
+  }
+
+  const now = Date.now()
+  return mostRestrictive(
+    keys.flatMap(({ key, policy }) => {
+      const throttle = result.data.find((item) => item.key === key)
+      return throttle ? [evaluate(throttle, policy, now)] : []
+    })
+  )
+}
+
+/**
+ * Count a failed sign-in against the account and the client IP, locking
+ * either once it reaches its threshold. Returns the wait now imposed on the
+ * next attempt.
+ */
+export async function registerLoginFailure(
+  email: string,
+  ip: string,
+  userId?: number | null
+): Promise<LoginThrottleStatus> {
+  const now = Date.now()
+  const statuses: LoginThrottleStatus[] = []
+
+  for (const { key, policy } of getKeys(email, ip)) {
+    const recorded = await recordLoginFailure(key, FAILURE_WINDOW_MS)
+    if (!recorded.success) {
+      continue
+    }
+
+    let throttle: LoginThrottle = recorded.data
+    if (throttle.failures >= policy.lockAfter) {
+      const locked = await lockLoginThrottle(key, policy.lockMs)
+      if (locked.success && locked.data) {
+        throttle = locked.data
+        const isAccount = key.startsWith("account:")
+        await recordAudit({
+          action: "auth.lockout",
+          targetType: isAccount ? (userId ? "user" : "account") : "ip",
+          targetId: isAccount ? (userId ?? email.trim().toLowerCase()) : ip,
+          after: { failures: throttle.failures, lockedUntil: throttle.lockedUntil },
+          ipAddress: ip,
+        })
+      }
+    }
+    statuses.push(evaluate(throttle, policy, now))
+  }
+
+  return mostRestrictive(statuses)
+}
+
+// A successful password check resets the account counter; the IP counter is
+// kept so one valid account cannot be used to keep guessing others
+export async function clearLoginFailures(email: string) {
+  await clearLoginThrottle(getAccountThrottleKey(email))
+}
+
+export async function getAccountLockout(email: string) {
+  const result = await getLoginThrottles([getAccountThrottleKey(email)])
+  if (!result.success) {
+    return result
+  }
+
+  const throttle = result.data[0]
+  const isLocked = Boolean(throttle?.lockedUntil && throttle.lockedUntil.getTime() > Date.now())
+  return {
+    success: true as const,
+    data: {
+      failures: throttle && Date.now() - throttle.lastFailureAt.getTime() <= FAILURE_WINDOW_MS ? throttle.failures : 0,
+      locked: isLocked,
+      lockedUntil: isLocked ? throttle.lockedUntil : null,
+    },
+  }
+}
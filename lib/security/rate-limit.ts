@@ -0,0 +1,42 @@
+import { incrementRateLimit } from "@/lib/db/queries"
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  resetAt: Date
+}
+
+/**
+ * Fixed-window rate limiter backed by Postgres so it holds across
+ * serverless instances. Fails open if the database is unreachable.
+ */
+export async function checkRateLimit(
+  key: string,
+  options: { limit: number; windowMs: number }
+): Promise<RateLimitResult> {
+  const result = await incrementRateLimit(key, options.windowMs)
+
+  if (!result.success) {
+    return { allowed: true, remaining: options.limit, resetAt: new Date(Date.now() + options.windowMs) }
+  }
+
+  const { count, resetAt } = result.data
+  return {
+    allowed: count <= options.limit,
+    remaining: Math.max(0, options.limit - count),
+    resetAt,
+  }
+}
+
+/**
+ * Best-effort client IP from proxy headers (Vercel sets x-forwarded-for).
+ * The headers are only trustworthy behind a proxy that overwrites them;
+ * reached directly, the app gets whatever the client sent.
+ */
+export function getClientIp(headers: Headers): string {
+  const forwardedFor = headers.get("x-forwarded-for")
+  if (forwardedFor) {
+    return forwardedFor.split(",")[0].trim()
+  }
+  return headers.get("x-real-ip") || "unknown"
+}
@@ -1,5 +1,6 @@
 import { withAuth } from "next-auth/middleware"
 import { NextResponse } from "next/server"
+import { getSecuritySettingsPath } from "@/lib/auth/two-factor-policy"
 
 export default withAuth(
   function middleware(req) {
@@ -11,6 +12,19 @@ export default withAuth(
       return NextResponse.redirect(new URL("/connexion?error=inactive", req.url))
     }
 
+    // Mandatory 2FA not set up yet: only the security page is reachable
+    if (token && (token as any).twoFactorPending) {
+      const securityPath = getSecuritySettingsPath(token.role)
+      if (path !== securityPath) {
+        return NextResponse.redirect(new URL(`${securityPath}?2fa=required`, req.url))
+      }
+    }
+
+    // Latest consent text not accepted yet: ask for it before anything else
+    if (token && (token as any).consentPending && !(token as any).twoFactorPending) {
+      return NextResponse.redirect(new URL(`/consentement?callbackUrl=${encodeURIComponent(path)}`, req.url))
+    }
+
     // Role-based route protection (DRY)
     const roleByPrefix = {
       "/admin": "ADMIN",
@@ -37,6 +51,7 @@ export default withAuth(
   }
 )
 
+// Public routes such as /verify and /api/verify must stay outside this matcher
 export const config = {
   matcher: ["/admin/:path*", "/sous-admin/:path*", "/formateur/:path*", "/etudiant/:path*"]
 }